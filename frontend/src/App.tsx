@@ -4,6 +4,8 @@
 
 import { BrowserRouter, Routes, Route } from 'react-router-dom';
 import { AuthProvider } from './context/AuthContext';
+import { WatchlistProvider } from './context/WatchlistContext';
+import { NotificationsProvider } from './context/NotificationsContext';
 import Layout from './components/Layout';
 import ProtectedRoute from './components/ProtectedRoute';
 
@@ -19,6 +21,10 @@ import Teams from './pages/Teams';
 import TeamDetail from './pages/TeamDetail';
 import Competitions from './pages/Competitions';
 import Notes from './pages/Notes';
+import Bets from './pages/Bets';
+import Value from './pages/Value';
+import MyFixtures from './pages/MyFixtures';
+import Notifications from './pages/Notifications';
 import NoteDetail from './pages/NoteDetail';
 import AccountSettings from './pages/AccountSettings';
 import ModelPerformance from './pages/ModelPerformance';
@@ -27,100 +33,136 @@ import ModelArchitecture from './pages/ModelArchitecture';
 function App() {
   return (
     <AuthProvider>
-      <BrowserRouter>
-        <Layout>
-          <Routes>
-            {/* Public Routes - Only auth pages and landing */}
-            <Route path="/" element={<Home />} />
-            <Route path="/login" element={<Login />} />
-            <Route path="/register" element={<Register />} />
-            <Route path="/forgot-password" element={<ForgotPassword />} />
-            <Route path="/reset-password" element={<ResetPassword />} />
+      <WatchlistProvider>
+        <NotificationsProvider>
+          <BrowserRouter>
+            <Layout>
+              <Routes>
+                {/* Public Routes - Only auth pages and landing */}
+                <Route path="/" element={<Home />} />
+                <Route path="/login" element={<Login />} />
+                <Route path="/register" element={<Register />} />
+                <Route path="/forgot-password" element={<ForgotPassword />} />
+                <Route path="/reset-password" element={<ResetPassword />} />
 
-            {/* Protected Routes - All app content requires login */}
-            <Route
-              path="/fixtures"
-              element={
-                <ProtectedRoute>
-                  <Fixtures />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/fixtures/:id"
-              element={
-                <ProtectedRoute>
-                  <FixtureDetail />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/teams"
-              element={
-                <ProtectedRoute>
-                  <Teams />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/teams/:id"
-              element={
-                <ProtectedRoute>
-                  <TeamDetail />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/competitions"
-              element={
-                <ProtectedRoute>
-                  <Competitions />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/model-performance"
-              element={
-                <ProtectedRoute>
-                  <ModelPerformance />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/model-architecture"
-              element={
-                <ProtectedRoute>
-                  <ModelArchitecture />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/notes"
-              element={
-                <ProtectedRoute>
-                  <Notes />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/notes/:id"
-              element={
-                <ProtectedRoute>
-                  <NoteDetail />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/settings"
-              element={
-                <ProtectedRoute>
-                  <AccountSettings />
-                </ProtectedRoute>
-              }
-            />
-          </Routes>
-        </Layout>
-      </BrowserRouter>
+                {/* Protected Routes - All app content requires login */}
+                <Route
+                  path="/fixtures"
+                  element={
+                    <ProtectedRoute>
+                      <Fixtures />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/fixtures/:id"
+                  element={
+                    <ProtectedRoute>
+                      <FixtureDetail />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/my-fixtures"
+                  element={
+                    <ProtectedRoute>
+                      <MyFixtures />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/notifications"
+                  element={
+                    <ProtectedRoute>
+                      <Notifications />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/teams"
+                  element={
+                    <ProtectedRoute>
+                      <Teams />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/teams/:id"
+                  element={
+                    <ProtectedRoute>
+                      <TeamDetail />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/competitions"
+                  element={
+                    <ProtectedRoute>
+                      <Competitions />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/model-performance"
+                  element={
+                    <ProtectedRoute>
+                      <ModelPerformance />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/model-architecture"
+                  element={
+                    <ProtectedRoute>
+                      <ModelArchitecture />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/notes"
+                  element={
+                    <ProtectedRoute>
+                      <Notes />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/notes/:id"
+                  element={
+                    <ProtectedRoute>
+                      <NoteDetail />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/bets"
+                  element={
+                    <ProtectedRoute>
+                      <Bets />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/value"
+                  element={
+                    <ProtectedRoute>
+                      <Value />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/settings"
+                  element={
+                    <ProtectedRoute>
+                      <AccountSettings />
+                    </ProtectedRoute>
+                  }
+                />
+              </Routes>
+            </Layout>
+          </BrowserRouter>
+        </NotificationsProvider>
+      </WatchlistProvider>
     </AuthProvider>
   );
 }
@@ -61,6 +61,25 @@ const request = async <T = any>(
   return json as T;
 };
 
+// ============================================
+// HELPER: Download a text response (e.g., CSV exports)
+// ============================================
+// Same as request() but returns the raw body instead of parsing JSON
+
+const requestText = async (path: string, token: string): Promise<string> => {
+  const response = await fetch(`${API_BASE}${path}`, {
+    headers: { Authorization: `Bearer ${token}` },
+    cache: 'no-store',
+  });
+
+  if (!response.ok) {
+    const json = await response.json().catch(() => ({}));
+    throw new Error(json.error || 'Request failed');
+  }
+
+  return response.text();
+};
+
 // ============================================
 // HELPER: Make authenticated request (auto-token)
 // ============================================
@@ -163,6 +182,103 @@ export const notesApi = {
   update: (id: string, data: Record<string, unknown>, token: string) =>
     api.putAuth(`/notes/${id}`, data, token),
   delete: (id: string, token: string) => api.deleteAuth(`/notes/${id}`, token),
+
+  // Full-text search (title, content, link labels), best matches first
+  search: (params: {
+    q: string;
+    contextType?: string;
+    startDate?: string;
+    endDate?: string;
+    limit?: number;
+    offset?: number;
+  }, token: string) => {
+    const query = new URLSearchParams({ q: params.q });
+    if (params.contextType) query.set('contextType', params.contextType);
+    if (params.startDate) query.set('startDate', params.startDate);
+    if (params.endDate) query.set('endDate', params.endDate);
+    if (params.limit) query.set('limit', String(params.limit));
+    if (params.offset) query.set('offset', String(params.offset));
+    return api.getAuth(`/notes/search?${query.toString()}`, token);
+  },
+};
+
+// ============================================
+// BETS API (Bet Journal)
+// ============================================
+
+export const betsApi = {
+  getAll: (token: string) => api.getAuth('/bets', token),
+  getById: (id: string, token: string) => api.getAuth(`/bets/${id}`, token),
+  create: (data: Record<string, unknown>, token: string) => api.postAuth('/bets', data, token),
+  update: (id: string, data: Record<string, unknown>, token: string) =>
+    api.putAuth(`/bets/${id}`, data, token),
+  delete: (id: string, token: string) => api.deleteAuth(`/bets/${id}`, token),
+  settle: (token: string) => api.postAuth('/bets/settle', {}, token),
+
+  // Bankroll & P&L analytics (computed server-side)
+  getAnalytics: (startingBankroll: number, token: string) =>
+    api.getAuth(`/bets/analytics?startingBankroll=${startingBankroll}`, token),
+  exportAnalyticsCsv: (startingBankroll: number, token: string) =>
+    requestText(`/bets/analytics?startingBankroll=${startingBankroll}&format=csv`, token),
+};
+
+// ============================================
+// WATCHLIST API (followed teams, leagues and fixtures)
+// ============================================
+
+export const watchlistApi = {
+  getAll: (token: string) => api.getAuth('/watchlist', token),
+  getCounts: (token: string) => api.getAuth('/watchlist/counts', token),
+  add: (data: { type: 'team' | 'league' | 'fixture'; entityId: number; label?: string }, token: string) =>
+    api.postAuth('/watchlist', data, token),
+  remove: (id: string, token: string) => api.deleteAuth(`/watchlist/${id}`, token),
+
+  // "My fixtures" feed (defaults to the next 7 days)
+  getFixtures: (startDate: string, endDate: string, token: string) =>
+    api.getAuth(`/watchlist/fixtures?startDate=${startDate}&endDate=${endDate}`, token),
+};
+
+export const alertsApi = {
+  // Rules, optionally for one fixture or team
+  getAll: (params: { fixtureId?: number; teamId?: number }, token: string) => {
+    const query = new URLSearchParams();
+    if (params.fixtureId) query.set('fixtureId', String(params.fixtureId));
+    if (params.teamId) query.set('teamId', String(params.teamId));
+    const qs = query.toString();
+    return api.getAuth(`/alerts${qs ? `?${qs}` : ''}`, token);
+  },
+  getTriggers: (token: string, limit = 50) => api.getAuth(`/alerts/triggers?limit=${limit}`, token),
+  create: (data: {
+    fixtureId?: number;
+    teamId?: number;
+    events: string[];
+    channels?: string[];
+    webhookUrl?: string;
+    oddsDropPercent?: number;
+  }, token: string) => api.postAuth('/alerts', data, token),
+  update: (id: string, data: {
+    events?: string[];
+    channels?: string[];
+    webhookUrl?: string | null;
+    oddsDropPercent?: number | null;
+    active?: boolean;
+  }, token: string) => api.putAuth(`/alerts/${id}`, data, token),
+  delete: (id: string, token: string) => api.deleteAuth(`/alerts/${id}`, token),
+};
+
+export const notificationsApi = {
+  getAll: (params: { unread?: boolean; limit?: number; offset?: number }, token: string) => {
+    const query = new URLSearchParams();
+    if (params.unread) query.set('unread', 'true');
+    if (params.limit) query.set('limit', String(params.limit));
+    if (params.offset) query.set('offset', String(params.offset));
+    const qs = query.toString();
+    return api.getAuth(`/notifications${qs ? `?${qs}` : ''}`, token);
+  },
+  getUnreadCount: (token: string) => api.getAuth('/notifications/unread-count', token),
+  markRead: (id: string, token: string) => api.patchAuth(`/notifications/${id}/read`, {}, token),
+  markAllRead: (token: string) => api.patchAuth('/notifications/read-all', {}, token),
+  delete: (id: string, token: string) => api.deleteAuth(`/notifications/${id}`, token),
 };
 
 // ============================================
@@ -203,7 +319,18 @@ export const dataApi = {
 
   // Odds
   getOddsByFixture: (fixtureId: string | number) => api.getWithAuth(`/odds/fixtures/${fixtureId}`),
+  getBestOdds: (fixtureId: string | number) => api.getWithAuth(`/odds/fixtures/${fixtureId}/best`),
+  getOddsHistory: (fixtureId: string | number, marketId?: string | number) =>
+    api.getWithAuth(`/odds/fixtures/${fixtureId}/history${marketId ? `?marketId=${marketId}` : ''}`),
   getBookmakers: () => api.getWithAuth('/odds/bookmakers'),
+
+  // Value bets (model probability vs best price)
+  getValueBets: (params: { startDate: string; endDate: string; leagueId?: string | number; minEdge?: number }) => {
+    const query = new URLSearchParams({ startDate: params.startDate, endDate: params.endDate });
+    if (params.leagueId) query.set('leagueId', String(params.leagueId));
+    if (params.minEdge !== undefined) query.set('minEdge', String(params.minEdge));
+    return api.getWithAuth(`/value?${query.toString()}`);
+  },
   getMarkets: () => api.getWithAuth('/odds/markets'),
 
   // Standings
@@ -213,6 +340,19 @@ export const dataApi = {
   getLeagues: () => api.getWithAuth('/leagues'),
   getLeague: (id: string | number) => api.getWithAuth(`/leagues/${id}`),
   searchLeagues: (query: string) => api.getWithAuth(`/leagues/search/${encodeURIComponent(query)}`),
+  // Every team's season stats side by side (location: 'home' | 'away', sort: any numeric column)
+  getLeagueTeamStats: (
+    leagueId: string | number,
+    seasonId: string | number,
+    params: { location?: 'home' | 'away'; sort?: string; order?: 'asc' | 'desc' } = {}
+  ) => {
+    const query = new URLSearchParams();
+    if (params.location) query.set('location', params.location);
+    if (params.sort) query.set('sort', params.sort);
+    if (params.order) query.set('order', params.order);
+    const suffix = query.toString() ? `?${query.toString()}` : '';
+    return api.getWithAuth(`/leagues/${leagueId}/seasons/${seasonId}/team-stats${suffix}`);
+  },
 
   // Seasons
   getSeasons: () => api.getWithAuth('/seasons'),
@@ -222,6 +362,10 @@ export const dataApi = {
   // Live scores
   getLivescores: () => api.getWithAuth('/livescores'),
   getLivescoresInplay: () => api.getWithAuth('/livescores/inplay'),
+  // Server-Sent Events stream of in-play changes. EventSource can't set
+  // headers, so the token goes in the query string.
+  openLivescoresStream: () =>
+    new EventSource(`${API_BASE}/livescores/stream?token=${encodeURIComponent(getStoredToken() || '')}`),
 
   // Top scorers
   getTopScorers: (seasonId: string | number) => api.getWithAuth(`/topscorers/seasons/${seasonId}`),
@@ -238,6 +382,16 @@ export const dataApi = {
   getPredictions: (fixtureId: string | number) =>
     api.getWithAuth(`/fixtures/${fixtureId}/predictions`),
 
+  // In-house Poisson / Dixon-Coles goals model
+  getPoissonPrediction: (fixtureId: string | number) =>
+    api.getWithAuth(`/models/poisson/fixtures/${fixtureId}`),
+
+  // Elo team ratings (stored in our database, updated by a scheduled job)
+  getTeamRating: (teamId: string | number) => api.getWithAuth(`/ratings/teams/${teamId}`),
+  getLeagueRatings: (leagueId: string | number) => api.getWithAuth(`/ratings/leagues/${leagueId}`),
+  getRatingMatchup: (homeTeamId: string | number, awayTeamId: string | number) =>
+    api.getWithAuth(`/ratings/matchup?homeTeamId=${homeTeamId}&awayTeamId=${awayTeamId}`),
+
   // Prediction Model Performance (accuracy stats by league)
   // leagueId: 8 (Premier League), 24 (FA Cup), 27 (Carabao Cup)
   getPredictability: (leagueId: string | number) =>
@@ -247,6 +401,15 @@ export const dataApi = {
   getStagesBySeason: (seasonId: string | number) =>
     api.getWithAuth(`/fixtures/seasons/${seasonId}`),
 
+  // Referee profile + card/penalty/foul tendencies from stored matches
+  getReferee: (refereeId: string | number, params: { seasonId?: string | number; last?: number } = {}) => {
+    const query = new URLSearchParams();
+    if (params.seasonId) query.set('seasonId', String(params.seasonId));
+    if (params.last) query.set('last', String(params.last));
+    const suffix = query.toString() ? `?${query.toString()}` : '';
+    return api.getWithAuth(`/referees/${refereeId}${suffix}`);
+  },
+
   // Corner averages (calculated from historical fixtures, cached 12h)
   // Returns home/away/overall corner averages for a team in a season
   getTeamCornerAverages: (teamId: string | number, seasonId: string | number) =>
@@ -0,0 +1,280 @@
+// ============================================
+// ALERTS PANEL COMPONENT
+// ============================================
+// The user's match alert rules for one fixture or team, with a form to
+// add another. Rules fire for goals, red cards, kickoff, confirmed
+// lineups and odds drops, and are delivered in-app, by email or to a
+// webhook (evaluated by the backend, see services/alerts.ts).
+//
+// Props:
+// - fixtureId (number, optional): alerts for this fixture
+// - teamId (number, optional): alerts for every fixture of this team
+// One of the two is required.
+// ============================================
+
+import { useState, useEffect } from 'react';
+import type { FormEvent } from 'react';
+import { alertsApi } from '../api/client';
+import { useAuth } from '../context/AuthContext';
+import AppIcon from './AppIcon';
+
+type AlertEvent = 'KICKOFF' | 'GOAL' | 'RED_CARD' | 'LINEUPS_CONFIRMED' | 'ODDS_DROP';
+type AlertChannel = 'IN_APP' | 'EMAIL' | 'WEBHOOK';
+
+type AlertRule = {
+  id: string;
+  events: AlertEvent[];
+  channels: AlertChannel[];
+  webhookUrl: string | null;
+  oddsDropPercent: number | null;
+  active: boolean;
+};
+
+type AlertsPanelProps = {
+  fixtureId?: number;
+  teamId?: number;
+};
+
+const getErrorMessage = (err: unknown, fallback: string) =>
+  err instanceof Error ? err.message : fallback;
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const EVENTS: { value: AlertEvent; label: string }[] = [
+  { value: 'KICKOFF', label: 'Kickoff' },
+  { value: 'GOAL', label: 'Goals' },
+  { value: 'RED_CARD', label: 'Red cards' },
+  { value: 'LINEUPS_CONFIRMED', label: 'Lineups confirmed' },
+  { value: 'ODDS_DROP', label: 'Odds drop' },
+];
+
+const CHANNELS: { value: AlertChannel; label: string }[] = [
+  { value: 'IN_APP', label: 'In-app' },
+  { value: 'EMAIL', label: 'Email' },
+  { value: 'WEBHOOK', label: 'Webhook' },
+];
+
+const labelFor = <T extends string>(options: { value: T; label: string }[], value: T) =>
+  options.find(option => option.value === value)?.label || value;
+
+// Adds or removes a value from a list of checkboxes
+const toggleValue = <T,>(list: T[], value: T) =>
+  list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+
+const AlertsPanel = ({ fixtureId, teamId }: AlertsPanelProps) => {
+  const { token } = useAuth();
+
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [expanded, setExpanded] = useState(false);
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  // New rule form
+  const [events, setEvents] = useState<AlertEvent[]>(['GOAL']);
+  const [channels, setChannels] = useState<AlertChannel[]>(['IN_APP']);
+  const [webhookUrl, setWebhookUrl] = useState('');
+  const [oddsDropPercent, setOddsDropPercent] = useState('10');
+
+  // ============================================
+  // FETCH RULES
+  // ============================================
+  useEffect(() => {
+    if (!token) return;
+
+    alertsApi.getAll({ fixtureId, teamId }, token)
+      .then(data => setRules(data.rules || []))
+      .catch(err => console.error('Failed to fetch alert rules:', err));
+  }, [fixtureId, teamId, token]);
+
+  // ============================================
+  // HANDLERS
+  // ============================================
+
+  const handleCreate = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!token) return;
+
+    setSaving(true);
+    setError('');
+    try {
+      const data = await alertsApi.create({
+        fixtureId,
+        teamId,
+        events,
+        channels,
+        ...(channels.includes('WEBHOOK') ? { webhookUrl } : {}),
+        ...(events.includes('ODDS_DROP') ? { oddsDropPercent: Number(oddsDropPercent) } : {}),
+      }, token);
+      setRules(prev => [data.rule, ...prev]);
+      setExpanded(false);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to create alert'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (rule: AlertRule) => {
+    if (!token) return;
+    try {
+      const data = await alertsApi.update(rule.id, { active: !rule.active }, token);
+      setRules(prev => prev.map(item => (item.id === rule.id ? data.rule : item)));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update alert'));
+    }
+  };
+
+  const handleDelete = async (rule: AlertRule) => {
+    if (!token) return;
+    try {
+      await alertsApi.delete(rule.id, token);
+      setRules(prev => prev.filter(item => item.id !== rule.id));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to delete alert'));
+    }
+  };
+
+  // ============================================
+  // RENDER
+  // ============================================
+  return (
+    <div className="bg-gray-800 rounded-lg shadow-md p-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-100 flex items-center gap-2">
+          <AppIcon name="bell" size="md" className="text-amber-400" />
+          Match Alerts
+          {teamId && <span className="text-xs font-normal text-gray-400">(every fixture)</span>}
+        </h2>
+        <button
+          type="button"
+          onClick={() => setExpanded(!expanded)}
+          className="px-3 py-1.5 rounded text-sm bg-gray-700 text-gray-200 hover:bg-gray-600"
+        >
+          {expanded ? 'Cancel' : 'Add alert'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mt-3 bg-red-900/30 text-red-400 p-2 rounded text-sm">{error}</div>
+      )}
+
+      {/* Existing rules */}
+      {rules.length > 0 && (
+        <ul className="mt-3 divide-y divide-gray-700/50">
+          {rules.map(rule => (
+            <li key={rule.id} className="flex flex-wrap items-center justify-between gap-2 py-2 text-sm">
+              <div className={rule.active ? 'text-gray-200' : 'text-gray-500 line-through'}>
+                {rule.events.map(event => (
+                  event === 'ODDS_DROP' && rule.oddsDropPercent
+                    ? `Odds drop ≥ ${rule.oddsDropPercent}%`
+                    : labelFor(EVENTS, event)
+                )).join(', ')}
+                <span className="text-gray-500"> · {rule.channels.map(channel => labelFor(CHANNELS, channel)).join(', ')}</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={() => handleToggleActive(rule)}
+                  className="text-xs text-amber-400 hover:underline"
+                >
+                  {rule.active ? 'Pause' : 'Resume'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(rule)}
+                  title="Delete alert"
+                  className="text-gray-400 hover:text-red-400"
+                >
+                  <AppIcon name="delete" size="sm" className="text-current" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {!expanded && rules.length === 0 && (
+        <p className="mt-2 text-sm text-gray-400">No alerts set. Get told about goals, red cards, lineups and price drops.</p>
+      )}
+
+      {/* New rule form */}
+      {expanded && (
+        <form onSubmit={handleCreate} className="mt-3 space-y-3 text-sm">
+          <fieldset>
+            <legend className="text-gray-400 mb-1">Alert me on</legend>
+            <div className="flex flex-wrap gap-3">
+              {EVENTS.map(option => (
+                <label key={option.value} className="flex items-center gap-1 text-gray-200">
+                  <input
+                    type="checkbox"
+                    checked={events.includes(option.value)}
+                    onChange={() => setEvents(toggleValue(events, option.value))}
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          {events.includes('ODDS_DROP') && (
+            <label className="flex items-center gap-2 text-gray-200">
+              Home/Draw/Away price drops by at least
+              <input
+                type="number"
+                min="1"
+                max="99"
+                value={oddsDropPercent}
+                onChange={(e) => setOddsDropPercent(e.target.value)}
+                className="w-16 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white"
+              />
+              %
+            </label>
+          )}
+
+          <fieldset>
+            <legend className="text-gray-400 mb-1">Send to</legend>
+            <div className="flex flex-wrap gap-3">
+              {CHANNELS.map(option => (
+                <label key={option.value} className="flex items-center gap-1 text-gray-200">
+                  <input
+                    type="checkbox"
+                    checked={channels.includes(option.value)}
+                    onChange={() => setChannels(toggleValue(channels, option.value))}
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          {channels.includes('WEBHOOK') && (
+            <input
+              type="url"
+              required
+              placeholder="https://example.com/hooks/betsmoke"
+              value={webhookUrl}
+              onChange={(e) => setWebhookUrl(e.target.value)}
+              className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white"
+            />
+          )}
+
+          <button
+            type="submit"
+            disabled={saving || events.length === 0 || channels.length === 0}
+            className="px-4 py-2 rounded bg-amber-500 text-gray-900 font-medium hover:bg-amber-400 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save alert'}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default AlertsPanel;
@@ -122,10 +122,15 @@ const ICONS = {
 
   // Results / Match outcomes
   'star': 'mdi:star',
+  'star-outline': 'mdi:star-outline',
   'handshake': 'mdi:handshake',
   'swap-horizontal': 'mdi:swap-horizontal',
   'shield': 'mdi:shield',
 
+  // Alerts / Notifications
+  'bell': 'mdi:bell',
+  'bell-outline': 'mdi:bell-outline',
+
   // Betting / Odds
   'odds': 'mdi:chart-timeline-variant',
   'bookmaker': 'mdi:book-open-variant',
@@ -0,0 +1,321 @@
+// ============================================
+// LEAGUE TEAM STATS COMPONENT
+// ============================================
+// Every team's season statistics side by side, for spotting which
+// teams stand out on a market (corners, cards, BTTS, over 2.5...).
+//
+// - Season selector dropdown
+// - All / Home / Away match filters
+// - Click a column header to sort by it (again to flip the order)
+//
+// Props:
+// - leagueId (number): The league to show (default: 8 = Premier League)
+// - leagueName (string): Display name (default: "Premier League")
+// ============================================
+
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { dataApi } from '../api/client';
+import AppIcon from './AppIcon';
+
+// ============================================
+// TYPES
+// ============================================
+type TeamStatsRow = {
+  teamId: number;
+  teamName: string;
+  played: number;
+  won: number;
+  drawn: number;
+  lost: number;
+  points: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  goalDifference: number;
+  goalsForAverage: number | null;
+  goalsAgainstAverage: number | null;
+  xgFor: number | null;
+  xgAgainst: number | null;
+  cornersFor: number | null;
+  cornersAgainst: number | null;
+  yellowCards: number | null;
+  redCards: number | null;
+  bttsRate: number | null;
+  over25Rate: number | null;
+  cleanSheets: number;
+  cleanSheetRate: number | null;
+};
+
+type SortKey = Exclude<keyof TeamStatsRow, 'teamId' | 'teamName'>;
+
+type Location = 'all' | 'home' | 'away';
+
+// ============================================
+// COLUMNS
+// ============================================
+// Per-game averages use 2 decimals, rates are percentages
+const COLUMNS: Array<{ key: SortKey; label: string; title: string; format?: 'average' | 'percent' }> = [
+  { key: 'played', label: 'P', title: 'Played' },
+  { key: 'points', label: 'Pts', title: 'Points' },
+  { key: 'goalsForAverage', label: 'GF/g', title: 'Goals scored per game', format: 'average' },
+  { key: 'goalsAgainstAverage', label: 'GA/g', title: 'Goals conceded per game', format: 'average' },
+  { key: 'xgFor', label: 'xG', title: 'Expected goals per game', format: 'average' },
+  { key: 'xgAgainst', label: 'xGA', title: 'Expected goals against per game', format: 'average' },
+  { key: 'cornersFor', label: 'CK', title: 'Corners won per game', format: 'average' },
+  { key: 'cornersAgainst', label: 'CKA', title: 'Corners conceded per game', format: 'average' },
+  { key: 'yellowCards', label: 'YC', title: 'Yellow cards per game', format: 'average' },
+  { key: 'redCards', label: 'RC', title: 'Red cards per game', format: 'average' },
+  { key: 'bttsRate', label: 'BTTS', title: 'Both teams scored', format: 'percent' },
+  { key: 'over25Rate', label: 'O2.5', title: 'Over 2.5 goals', format: 'percent' },
+  { key: 'cleanSheetRate', label: 'CS', title: 'Clean sheets', format: 'percent' },
+];
+
+const formatValue = (value: number | null, format?: 'average' | 'percent') => {
+  if (value === null || value === undefined) return '-';
+  if (format === 'average') return value.toFixed(2);
+  if (format === 'percent') return `${Math.round(value)}%`;
+  return value;
+};
+
+// ============================================
+// LEAGUE TEAM STATS COMPONENT
+// ============================================
+type LeagueTeamStatsProps = {
+  leagueId?: number;
+  leagueName?: string;
+};
+
+const LeagueTeamStats = ({
+  leagueId = 8,           // Default: Premier League
+  leagueName = 'Premier League'
+}: LeagueTeamStatsProps) => {
+  // State for seasons dropdown
+  const [seasons, setSeasons] = useState<any[]>([]);
+  const [selectedSeasonId, setSelectedSeasonId] = useState('');
+  const [seasonsLoading, setSeasonsLoading] = useState(true);
+
+  // State for the table
+  const [teams, setTeams] = useState<TeamStatsRow[]>([]);
+  const [statsLoading, setStatsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  // Filters and sorting (applied by the backend)
+  const [location, setLocation] = useState<Location>('all');
+  const [sortKey, setSortKey] = useState<SortKey>('points');
+  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+
+  // ============================================
+  // FETCH LEAGUE SEASONS ON MOUNT
+  // ============================================
+  useEffect(() => {
+    const fetchSeasons = async () => {
+      setSeasonsLoading(true);
+      try {
+        const data = await dataApi.getSeasonsByLeague(leagueId);
+
+        // Sort seasons by name (most recent first)
+        const sortedSeasons = (data.seasons || []).sort((a: any, b: any) => {
+          return b.name?.localeCompare(a.name);
+        });
+
+        setSeasons(sortedSeasons);
+
+        // Auto-select the current season, or the most recent one
+        const currentSeason = sortedSeasons.find((s: any) => s.is_current);
+        if (currentSeason) {
+          setSelectedSeasonId(currentSeason.id.toString());
+        } else if (sortedSeasons.length > 0) {
+          setSelectedSeasonId(sortedSeasons[0].id.toString());
+        }
+      } catch (err) {
+        console.error('Failed to fetch seasons:', err);
+        setError(`Failed to load ${leagueName} seasons`);
+      } finally {
+        setSeasonsLoading(false);
+      }
+    };
+
+    fetchSeasons();
+  }, [leagueId, leagueName]);
+
+  // ============================================
+  // FETCH TEAM STATS WHEN SEASON / FILTERS CHANGE
+  // ============================================
+  useEffect(() => {
+    if (!selectedSeasonId) return;
+
+    const fetchTeamStats = async () => {
+      setStatsLoading(true);
+      setError('');
+
+      try {
+        const data = await dataApi.getLeagueTeamStats(leagueId, selectedSeasonId, {
+          location: location === 'all' ? undefined : location,
+          sort: sortKey,
+          order: sortOrder,
+        });
+        setTeams(data.teams || []);
+      } catch (err) {
+        console.error('Failed to fetch team stats:', err);
+        setError('Failed to load team stats');
+        setTeams([]);
+      } finally {
+        setStatsLoading(false);
+      }
+    };
+
+    fetchTeamStats();
+  }, [leagueId, selectedSeasonId, location, sortKey, sortOrder]);
+
+  // ============================================
+  // HELPER: Sort by a column (same column flips the order)
+  // ============================================
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortOrder(sortOrder === 'desc' ? 'asc' : 'desc');
+    } else {
+      setSortKey(key);
+      setSortOrder('desc');
+    }
+  };
+
+  // ============================================
+  // RENDER
+  // ============================================
+  return (
+    <div className="bg-gray-800 rounded-lg shadow-md overflow-hidden">
+      {/* Header with Season Selector */}
+      <div className="px-4 py-4 bg-gradient-to-r from-gray-700 to-gray-900
+                      flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div className="flex items-center space-x-3">
+          <AppIcon name="stats" size="lg" className="text-amber-400" />
+          <div>
+            <h2 className="text-lg md:text-xl font-bold text-white">{leagueName} Team Stats</h2>
+            <p className="text-gray-300 text-xs md:text-sm">
+              Per-game averages and rates for every team
+            </p>
+          </div>
+        </div>
+
+        {seasonsLoading ? (
+          <div className="text-gray-300 text-sm">Loading seasons...</div>
+        ) : (
+          <select
+            value={selectedSeasonId}
+            onChange={(e) => setSelectedSeasonId(e.target.value)}
+            className="px-2 py-1.5 md:px-3 md:py-2 text-sm md:text-base
+                       bg-white/10 text-white border border-white/30 rounded-md
+                       focus:outline-none focus:ring-2 focus:ring-white/50
+                       cursor-pointer w-full md:w-auto"
+          >
+            {seasons.map((season) => (
+              <option
+                key={season.id}
+                value={season.id}
+                className="text-gray-900"
+              >
+                {season.name} {season.is_current ? '(Current)' : ''}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {/* ============================================ */}
+      {/* MATCH FILTER TABS (All / Home / Away) */}
+      {/* ============================================ */}
+      <div className="flex border-b border-gray-700">
+        {(['all', 'home', 'away'] as Location[]).map((value) => (
+          <button
+            key={value}
+            onClick={() => setLocation(value)}
+            className={`flex-1 px-4 py-3 text-sm font-medium transition-colors flex items-center justify-center gap-2
+              ${location === value
+                ? 'text-amber-400 border-b-2 border-amber-400 bg-amber-900/20'
+                : 'text-gray-400 hover:text-gray-200 hover:bg-gray-700'
+              }`}
+          >
+            <AppIcon
+              name={value === 'all' ? 'overall' : value}
+              size="md"
+              className={location === value ? 'text-amber-400' : 'text-gray-400'}
+            />
+            {value === 'all' ? 'All Matches' : value === 'home' ? 'Home' : 'Away'}
+          </button>
+        ))}
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <div className="bg-red-900/30 text-red-400 p-3 border-b border-gray-700">
+          {error}
+        </div>
+      )}
+
+      {seasonsLoading || statsLoading ? (
+        <div className="text-center py-12 text-gray-400">
+          Loading team stats...
+        </div>
+      ) : teams.length === 0 ? (
+        <div className="text-center py-12 text-gray-400">
+          No finished matches in this season yet.
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-700 text-xs md:text-sm text-gray-400">
+              <tr>
+                <th className="px-2 md:px-4 py-2 md:py-3 text-left w-8">#</th>
+                <th className="px-2 md:px-4 py-2 md:py-3 text-left">Team</th>
+                {COLUMNS.map((column) => (
+                  <th
+                    key={column.key}
+                    title={column.title}
+                    onClick={() => handleSort(column.key)}
+                    className={`px-2 md:px-3 py-2 md:py-3 text-center cursor-pointer select-none whitespace-nowrap
+                      hover:text-gray-200 ${sortKey === column.key ? 'text-amber-400' : ''}`}
+                  >
+                    {column.label}
+                    {sortKey === column.key && (sortOrder === 'desc' ? ' ▼' : ' ▲')}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {teams.map((team, index) => (
+                <tr
+                  key={team.teamId}
+                  className="hover:bg-gray-700"
+                  style={{ boxShadow: 'inset 0 -1px 0 0 #374151' }}
+                >
+                  <td className="px-2 md:px-4 py-2 md:py-3 text-xs md:text-sm font-medium text-gray-100">
+                    {index + 1}
+                  </td>
+                  <td className="px-2 md:px-4 py-2 md:py-3">
+                    <Link
+                      to={`/teams/${team.teamId}`}
+                      className="text-[11px] md:text-sm font-medium text-gray-100 hover:text-amber-400 whitespace-nowrap"
+                    >
+                      {team.teamName}
+                    </Link>
+                  </td>
+                  {COLUMNS.map((column) => (
+                    <td
+                      key={column.key}
+                      className={`px-2 md:px-3 py-2 md:py-3 text-center text-[11px] md:text-sm
+                        ${sortKey === column.key ? 'font-bold text-gray-100' : 'text-gray-300'}`}
+                    >
+                      {formatValue(team[column.key], column.format)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LeagueTeamStats;
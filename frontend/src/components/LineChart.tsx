@@ -0,0 +1,170 @@
+// ============================================
+// LINE CHART COMPONENT
+// ============================================
+// Lightweight SVG line chart (no chart library needed).
+// Supports multiple series on a shared x/y scale.
+//
+// Used for:
+// - Running bankroll (Bets page)
+// - Line movement (FixtureDetail - All Betting Markets)
+//
+// x values are plain numbers (e.g., timestamps or indexes);
+// use formatX / formatY to control axis labels.
+// ============================================
+
+import { useMemo } from 'react';
+
+type ChartPoint = {
+  x: number;
+  y: number;
+};
+
+type ChartSeries = {
+  label: string;
+  color: string;       // Any SVG stroke color (e.g., '#f59e0b')
+  points: ChartPoint[];
+};
+
+type LineChartProps = {
+  series: ChartSeries[];
+  height?: number;
+  formatX?: (value: number) => string;
+  formatY?: (value: number) => string;
+  baseline?: number;   // Optional horizontal reference line (e.g., starting bankroll)
+  emptyMessage?: string;
+};
+
+// Chart drawing area (viewBox units - the SVG scales to its container width)
+const WIDTH = 600;
+const PADDING = { top: 10, right: 10, bottom: 24, left: 52 };
+
+const LineChart = ({
+  series,
+  height = 220,
+  formatX = (value) => String(value),
+  formatY = (value) => String(Math.round(value * 100) / 100),
+  baseline,
+  emptyMessage = 'No data to chart yet',
+}: LineChartProps) => {
+  // ============================================
+  // SCALES
+  // ============================================
+  const bounds = useMemo(() => {
+    const allPoints = series.flatMap(s => s.points);
+    if (allPoints.length === 0) return null;
+
+    const xs = allPoints.map(p => p.x);
+    const ys = allPoints.map(p => p.y);
+    if (baseline !== undefined) ys.push(baseline);
+
+    let minY = Math.min(...ys);
+    let maxY = Math.max(...ys);
+    if (minY === maxY) {
+      // Flat line - give it some room so it's not drawn on the edge
+      minY -= 1;
+      maxY += 1;
+    }
+
+    return { minX: Math.min(...xs), maxX: Math.max(...xs), minY, maxY };
+  }, [series, baseline]);
+
+  if (!bounds) {
+    return (
+      <div className="text-center text-gray-500 py-8 text-sm">{emptyMessage}</div>
+    );
+  }
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+
+  const scaleX = (x: number) =>
+    bounds.maxX === bounds.minX
+      ? PADDING.left + plotWidth / 2
+      : PADDING.left + ((x - bounds.minX) / (bounds.maxX - bounds.minX)) * plotWidth;
+
+  const scaleY = (y: number) =>
+    PADDING.top + (1 - (y - bounds.minY) / (bounds.maxY - bounds.minY)) * plotHeight;
+
+  // Horizontal grid lines at min, middle, max
+  const yTicks = [bounds.minY, (bounds.minY + bounds.maxY) / 2, bounds.maxY];
+
+  // ============================================
+  // RENDER
+  // ============================================
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto">
+        {/* Grid + Y axis labels */}
+        {yTicks.map((tick, idx) => (
+          <g key={idx}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={scaleY(tick)}
+              y2={scaleY(tick)}
+              stroke="#374151"
+              strokeDasharray="4 4"
+            />
+            <text
+              x={PADDING.left - 6}
+              y={scaleY(tick) + 4}
+              textAnchor="end"
+              fontSize="11"
+              fill="#9ca3af"
+            >
+              {formatY(tick)}
+            </text>
+          </g>
+        ))}
+
+        {/* Baseline reference */}
+        {baseline !== undefined && (
+          <line
+            x1={PADDING.left}
+            x2={WIDTH - PADDING.right}
+            y1={scaleY(baseline)}
+            y2={scaleY(baseline)}
+            stroke="#6b7280"
+          />
+        )}
+
+        {/* X axis labels (first and last point) */}
+        <text x={PADDING.left} y={height - 6} fontSize="11" fill="#9ca3af">
+          {formatX(bounds.minX)}
+        </text>
+        <text x={WIDTH - PADDING.right} y={height - 6} textAnchor="end" fontSize="11" fill="#9ca3af">
+          {formatX(bounds.maxX)}
+        </text>
+
+        {/* Series */}
+        {series.map(s => (
+          <g key={s.label}>
+            <polyline
+              fill="none"
+              stroke={s.color}
+              strokeWidth="2"
+              points={s.points.map(p => `${scaleX(p.x)},${scaleY(p.y)}`).join(' ')}
+            />
+            {s.points.length === 1 && (
+              <circle cx={scaleX(s.points[0].x)} cy={scaleY(s.points[0].y)} r="3" fill={s.color} />
+            )}
+          </g>
+        ))}
+      </svg>
+
+      {/* Legend (only when there's more than one series) */}
+      {series.length > 1 && (
+        <div className="flex flex-wrap gap-4 mt-2 text-xs text-gray-400">
+          {series.map(s => (
+            <span key={s.label} className="flex items-center">
+              <span className="inline-block w-3 h-0.5 mr-1.5" style={{ backgroundColor: s.color }} />
+              {s.label}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LineChart;
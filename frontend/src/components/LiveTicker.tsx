@@ -0,0 +1,153 @@
+// ============================================
+// LIVE TICKER COMPONENT
+// ============================================
+// A strip of the matches in play with their scores, and the latest
+// goals, cards and period changes as they're pushed by the backend
+// (see hooks/useLiveScores.ts). Hidden when nothing is in play.
+//
+// Props:
+// - fixtures, inPlayIds, updates, connected: from useLiveScores()
+// - fixtureId (number, optional): only show this match (fixture page)
+// ============================================
+
+import { Link } from 'react-router-dom';
+import type { LiveFixture, LiveUpdate } from '../hooks/useLiveScores';
+import type { Participant, Score } from '@shared/sportsmonks';
+
+// How many recent changes are listed under the scores
+const MAX_FEED_ITEMS = 5;
+
+// ============================================
+// HELPERS
+// ============================================
+const getTeamName = (fixture: LiveFixture, location: 'home' | 'away') =>
+  fixture.participants?.find((p: Participant) => p.meta?.location === location)?.name || (location === 'home' ? 'Home' : 'Away');
+
+// CURRENT score (type 1525) as "1 - 0", or null before kickoff
+const getCurrentScore = (fixture: LiveFixture) => {
+  const current = (fixture.scores || []).filter((s: Score) => s.description === 'CURRENT' || s.type_id === 1525);
+  const home = current.find((s: Score) => s.score?.participant === 'home')?.score?.goals;
+  const away = current.find((s: Score) => s.score?.participant === 'away')?.score?.goals;
+  return home !== undefined && away !== undefined ? `${home} - ${away}` : null;
+};
+
+const getEventIcon = (typeName = '') => {
+  const name = typeName.toLowerCase();
+  if (name.includes('own')) return '⚽🔴';
+  if (name.includes('goal') || name.includes('penalty')) return '⚽';
+  if (name.includes('yellow') && name.includes('red')) return '🟨🟥';
+  if (name.includes('yellow')) return '🟨';
+  if (name.includes('red')) return '🟥';
+  if (name.includes('substitution')) return '🔄';
+  if (name.includes('var')) return '📺';
+  return '📋';
+};
+
+// One line per thing that happened in an update
+const describeUpdate = (update: LiveUpdate, fixture?: LiveFixture) => {
+  const lines: Array<{ icon: string; text: string }> = [];
+
+  if (update.changes.includes('added')) {
+    lines.push({ icon: '🟢', text: 'Kick-off' });
+  }
+  if (update.changes.includes('removed')) {
+    lines.push({ icon: '🏁', text: 'No longer in play' });
+  }
+  if (update.changes.includes('state') && update.fixture?.state) {
+    lines.push({ icon: '⏱️', text: update.fixture.state.name });
+  }
+  update.newEvents.forEach(event => {
+    const minute = event.minute ? `${event.minute}${event.extra_minute ? `+${event.extra_minute}` : ''}' ` : '';
+    lines.push({
+      icon: getEventIcon(event.typeName),
+      text: `${minute}${event.player_name || event.typeName || 'Event'}${event.typeName ? ` (${event.typeName})` : ''}`,
+    });
+  });
+  if (update.removedEventIds.length > 0 && update.newEvents.length === 0) {
+    lines.push({ icon: '📺', text: 'Event cancelled' });
+  }
+
+  const matchName = fixture ? `${getTeamName(fixture, 'home')} vs ${getTeamName(fixture, 'away')}` : '';
+  return lines.map(line => ({ ...line, matchName }));
+};
+
+// ============================================
+// LIVE TICKER COMPONENT
+// ============================================
+type LiveTickerProps = {
+  fixtures: Record<number, LiveFixture>;
+  inPlayIds: number[];
+  updates: LiveUpdate[];
+  connected: boolean;
+  fixtureId?: number;
+};
+
+const LiveTicker = ({ fixtures, inPlayIds, updates, connected, fixtureId }: LiveTickerProps) => {
+  const ids = fixtureId !== undefined ? inPlayIds.filter(id => id === fixtureId) : inPlayIds;
+  const inPlay = ids.map(id => fixtures[id]).filter(Boolean);
+
+  const feed = updates
+    .filter(update => fixtureId === undefined || update.fixtureId === fixtureId)
+    .flatMap(update => describeUpdate(update, fixtures[update.fixtureId]).map(line => ({ ...line, update })))
+    .slice(0, MAX_FEED_ITEMS);
+
+  // Nothing in play and nothing happened - stay out of the way
+  if (inPlay.length === 0 && feed.length === 0) return null;
+
+  const latestFixtureId = updates[0]?.fixtureId;
+
+  return (
+    <div className="bg-gray-800 rounded-lg shadow-md overflow-hidden border border-green-900/50">
+      {/* Header */}
+      <div className="px-4 py-2 bg-gray-900/60 flex items-center justify-between text-xs">
+        <div className="flex items-center gap-2">
+          <span className="bg-green-500 text-white px-2 py-0.5 rounded font-bold animate-pulse">LIVE</span>
+          <span className="text-gray-300">
+            {inPlay.length} {inPlay.length === 1 ? 'match' : 'matches'} in play
+          </span>
+        </div>
+        <span className={connected ? 'text-green-400' : 'text-gray-500'}>
+          {connected ? '● Live updates on' : '○ Reconnecting...'}
+        </span>
+      </div>
+
+      {/* Scores */}
+      {inPlay.length > 0 && (
+        <div className="flex gap-2 overflow-x-auto px-4 py-3">
+          {inPlay.map(fixture => (
+            <Link
+              key={fixture.id}
+              to={`/fixtures/${fixture.id}`}
+              className={`shrink-0 px-3 py-2 rounded-md bg-gray-700 hover:bg-gray-600 text-sm whitespace-nowrap transition-colors
+                ${fixture.id === latestFixtureId ? 'ring-2 ring-amber-400' : ''}`}
+            >
+              <span className="text-gray-100">{getTeamName(fixture, 'home')}</span>
+              <span className="mx-2 font-bold text-green-400">{getCurrentScore(fixture) ?? 'v'}</span>
+              <span className="text-gray-100">{getTeamName(fixture, 'away')}</span>
+              {fixture.state?.short_name && (
+                <span className="ml-2 text-xs text-gray-400">{fixture.state.short_name}</span>
+              )}
+            </Link>
+          ))}
+        </div>
+      )}
+
+      {/* Latest changes */}
+      {feed.length > 0 && (
+        <ul className="px-4 pb-3 space-y-1 text-xs text-gray-300">
+          {feed.map((line, index) => (
+            <li key={`${line.update.fixtureId}-${line.update.polledAt}-${index}`} className="flex items-center gap-2">
+              <span className="w-6 text-center">{line.icon}</span>
+              <span>{line.text}</span>
+              {fixtureId === undefined && line.matchName && (
+                <span className="text-gray-500">- {line.matchName}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default LiveTicker;
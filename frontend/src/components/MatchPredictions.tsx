@@ -9,6 +9,7 @@
 // - All prediction types from SportsMonks
 // - Color-coded probability bars
 // - Betting insights
+// - Side-by-side comparison with our Poisson / Dixon-Coles model
 //
 // Usage:
 //   <MatchPredictions 
@@ -76,8 +77,8 @@ type Prediction = Record<string, any>;
 type TeamInfo = {
   id: number | string;
   name: string;
-  image_path?: string;
-  short_code?: string;
+  image_path?: string | null;
+  short_code?: string | null;
 };
 
 type AccordionSectionProps = {
@@ -120,6 +121,31 @@ type PredictionsOnlyProps = {
   predictions: Prediction[];
 };
 
+// In-house Poisson / Dixon-Coles prediction (probabilities are 0-1)
+type PoissonPrediction = {
+  model: { xi: number; matchesUsed: number; homeAdvantage: number; rho: number };
+  homeTeam: { attack: number; defence: number; matches: number };
+  awayTeam: { attack: number; defence: number; matches: number };
+  expectedGoals: { home: number; away: number };
+  probabilities: {
+    home: number;
+    draw: number;
+    away: number;
+    homeOrDraw: number;
+    homeOrAway: number;
+    drawOrAway: number;
+    bttsYes: number;
+    bttsNo: number;
+    overUnder: Record<string, { over: number; under: number }>;
+  };
+  correctScores: { score: string; probability: number }[];
+};
+
+type ModelComparisonProps = MatchSectionProps & {
+  model: PoissonPrediction | null;
+  modelError: string | null;
+};
+
 // ============================================
 // ACCORDION SECTION COMPONENT
 // ============================================
@@ -536,6 +562,118 @@ function CorrectScoreSection({ predictions, homeTeam, awayTeam }: MatchSectionPr
   );
 }
 
+// ============================================
+// MODEL COMPARISON SECTION
+// ============================================
+// SportsMonks AI probabilities next to our Poisson / Dixon-Coles model.
+// Diff is Poisson minus AI, in percentage points.
+function ModelComparisonSection({ predictions, model, modelError, homeTeam, awayTeam }: ModelComparisonProps) {
+  if (modelError) {
+    return <div className="text-red-500 text-center py-2">{modelError}</div>;
+  }
+
+  if (!model) {
+    return <div className="text-gray-500 text-center py-2 animate-pulse">Fitting Poisson model...</div>;
+  }
+
+  const find = (typeId: number) => predictions.find(p => p.type_id === typeId)?.predictions;
+  const aiValue = (typeId: number, key: string) => {
+    const value = find(typeId)?.[key];
+    return value === undefined || value === null ? null : parseFloat(value);
+  };
+
+  const { probabilities } = model;
+  const rows = [
+    { label: homeTeam?.name || 'Home', ai: aiValue(PREDICTION_TYPES.FULLTIME_RESULT, 'home'), poisson: probabilities.home },
+    { label: 'Draw', ai: aiValue(PREDICTION_TYPES.FULLTIME_RESULT, 'draw'), poisson: probabilities.draw },
+    { label: awayTeam?.name || 'Away', ai: aiValue(PREDICTION_TYPES.FULLTIME_RESULT, 'away'), poisson: probabilities.away },
+    { label: 'Home or Draw', ai: aiValue(PREDICTION_TYPES.DOUBLE_CHANCE, 'draw_home'), poisson: probabilities.homeOrDraw },
+    { label: 'Away or Draw', ai: aiValue(PREDICTION_TYPES.DOUBLE_CHANCE, 'draw_away'), poisson: probabilities.drawOrAway },
+    { label: 'BTTS Yes', ai: aiValue(PREDICTION_TYPES.BTTS, 'yes'), poisson: probabilities.bttsYes },
+    { label: 'Over 1.5', ai: aiValue(PREDICTION_TYPES.OVER_UNDER_1_5, 'yes'), poisson: probabilities.overUnder['1.5']?.over },
+    { label: 'Over 2.5', ai: aiValue(PREDICTION_TYPES.OVER_UNDER_2_5, 'yes'), poisson: probabilities.overUnder['2.5']?.over },
+    { label: 'Over 3.5', ai: aiValue(PREDICTION_TYPES.OVER_UNDER_3_5, 'yes'), poisson: probabilities.overUnder['3.5']?.over },
+    { label: 'Over 4.5', ai: aiValue(PREDICTION_TYPES.OVER_UNDER_4_5, 'yes'), poisson: probabilities.overUnder['4.5']?.over },
+  ];
+
+  const aiScores = Object.entries(find(PREDICTION_TYPES.CORRECT_SCORE)?.scores || {})
+    .filter(([key]) => !key.startsWith('Other'))
+    .map(([score, probability]) => ({ score, probability: parseFloat(String(probability)) }))
+    .sort((a, b) => b.probability - a.probability)
+    .slice(0, 5);
+
+  const fewMatches = model.homeTeam.matches < 5 || model.awayTeam.matches < 5;
+
+  return (
+    <div className="space-y-4">
+      {/* Expected goals + fit summary */}
+      <div className="grid grid-cols-2 gap-4 text-center">
+        <div className="bg-blue-900/30 rounded-lg p-3">
+          <div className="text-2xl font-bold text-blue-400">{model.expectedGoals.home.toFixed(2)}</div>
+          <div className="text-xs text-gray-400 mt-1">{homeTeam?.name || 'Home'} xG</div>
+        </div>
+        <div className="bg-red-900/30 rounded-lg p-3">
+          <div className="text-2xl font-bold text-red-400">{model.expectedGoals.away.toFixed(2)}</div>
+          <div className="text-xs text-gray-400 mt-1">{awayTeam?.name || 'Away'} xG</div>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">
+        Fitted on {model.model.matchesUsed} results this season (home advantage {model.model.homeAdvantage.toFixed(2)},
+        rho {model.model.rho.toFixed(3)}).
+        {fewMatches && ' Few results for these teams yet - treat with caution.'}
+      </p>
+
+      {/* Market probabilities */}
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-gray-400 text-xs uppercase tracking-wide border-b border-gray-700">
+            <th className="text-left py-2">Market</th>
+            <th className="text-right py-2">AI</th>
+            <th className="text-right py-2">Poisson</th>
+            <th className="text-right py-2">Diff</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => {
+            const poisson = row.poisson === undefined ? null : row.poisson * 100;
+            const diff = row.ai !== null && poisson !== null ? poisson - row.ai : null;
+            return (
+              <tr key={row.label} className="border-b border-gray-700/50">
+                <td className="py-1.5 text-gray-300">{row.label}</td>
+                <td className="py-1.5 text-right text-gray-200">{row.ai === null ? '-' : `${row.ai.toFixed(1)}%`}</td>
+                <td className="py-1.5 text-right text-amber-400">{poisson === null ? '-' : `${poisson.toFixed(1)}%`}</td>
+                <td className={`py-1.5 text-right ${diff === null || Math.abs(diff) < 5 ? 'text-gray-500' : 'text-white font-medium'}`}>
+                  {diff === null ? '-' : `${diff > 0 ? '+' : ''}${diff.toFixed(1)}`}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {/* Most likely scores */}
+      <div className="grid grid-cols-2 gap-4">
+        {[
+          { title: 'AI Scores', scores: aiScores },
+          { title: 'Poisson Scores', scores: model.correctScores.slice(0, 5).map(s => ({ ...s, probability: s.probability * 100 })) },
+        ].map(column => (
+          <div key={column.title}>
+            <h4 className="text-sm font-medium text-gray-300 mb-2">{column.title}</h4>
+            <div className="space-y-1">
+              {column.scores.map(({ score, probability }) => (
+                <div key={score} className="flex justify-between bg-gray-700 rounded px-2 py-1 text-sm">
+                  <span className="text-gray-100 font-medium">{score}</span>
+                  <span className="text-gray-400">{probability.toFixed(1)}%</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 // ============================================
 // CORNERS SECTION
 // ============================================
@@ -643,6 +781,8 @@ export default function MatchPredictions({
   const [predictions, setPredictions] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [poissonModel, setPoissonModel] = useState<PoissonPrediction | null>(null);
+  const [poissonError, setPoissonError] = useState<string | null>(null);
 
   const getErrorMessage = (err: unknown) =>
     err instanceof Error ? err.message : 'Failed to load predictions';
@@ -669,6 +809,27 @@ export default function MatchPredictions({
     fetchPredictions();
   }, [fixtureId]);
 
+  // Fetch our Poisson model separately - it's slower (fits the whole
+  // season) and a failure shouldn't hide the AI predictions
+  useEffect(() => {
+    const fetchPoissonModel = async () => {
+      if (!fixtureId) return;
+
+      setPoissonModel(null);
+      setPoissonError(null);
+
+      try {
+        const data = await dataApi.getPoissonPrediction(fixtureId);
+        setPoissonModel(data);
+      } catch (err) {
+        console.error('Failed to fetch Poisson model:', err);
+        setPoissonError(err instanceof Error ? err.message : 'Failed to load Poisson model');
+      }
+    };
+
+    fetchPoissonModel();
+  }, [fixtureId]);
+
   // Loading state
   if (loading) {
     return (
@@ -767,6 +928,17 @@ export default function MatchPredictions({
           <MatchResultSection predictions={predictions} homeTeam={homeTeam} awayTeam={awayTeam} />
         </AccordionSection>
 
+        {/* AI vs our Poisson / Dixon-Coles model */}
+        <AccordionSection title="AI vs Poisson Model" icon="versus" defaultOpen={true}>
+          <ModelComparisonSection
+            predictions={predictions}
+            model={poissonModel}
+            modelError={poissonError}
+            homeTeam={homeTeam}
+            awayTeam={awayTeam}
+          />
+        </AccordionSection>
+
         {/* Goals */}
         <AccordionSection title="Goals Over/Under" icon="goal" defaultOpen={true}>
           <GoalsSection predictions={predictions} homeTeam={homeTeam} awayTeam={awayTeam} />
@@ -6,14 +6,19 @@
 import { useState, useRef, useEffect } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
+import { useWatchlist } from '../context/WatchlistContext';
+import { useNotifications } from '../context/NotificationsContext';
 import { adminApi } from '../api/client';
 import AppIcon from './AppIcon';
+import NotificationBell from './NotificationBell';
 
 const getErrorMessage = (err: unknown, fallback: string) =>
   err instanceof Error ? err.message : fallback;
 
 const Navbar = () => {
   const { isAuthenticated, user, logout, token } = useAuth();
+  const { count: watchlistCount } = useWatchlist();
+  const { unreadCount } = useNotifications();
   const navigate = useNavigate();
 
   // ============================================
@@ -126,6 +131,14 @@ const Navbar = () => {
               <Link to="/fixtures" className="hover:text-amber-400 transition-colors">
                 Fixtures
               </Link>
+              <Link to="/my-fixtures" className="flex items-center hover:text-amber-400 transition-colors">
+                My Fixtures
+                {watchlistCount > 0 && (
+                  <span className="ml-1.5 text-xs bg-amber-500 text-gray-900 font-semibold rounded-full px-1.5">
+                    {watchlistCount}
+                  </span>
+                )}
+              </Link>
               <Link to="/teams" className="hover:text-amber-400 transition-colors">
                 Teams
               </Link>
@@ -135,6 +148,12 @@ const Navbar = () => {
               <Link to="/notes" className="hover:text-amber-400 transition-colors">
                 Notes
               </Link>
+              <Link to="/bets" className="hover:text-amber-400 transition-colors">
+                Bets
+              </Link>
+              <Link to="/value" className="hover:text-amber-400 transition-colors">
+                Value
+              </Link>
 
               {/* "More" Dropdown */}
               <div className="relative" ref={dropdownRef}>
@@ -178,6 +197,8 @@ const Navbar = () => {
           <div className="hidden md:flex items-center space-x-4">
             {isAuthenticated ? (
               <>
+                <NotificationBell />
+
                 <Link
                   to="/settings"
                   className="text-sm text-gray-400 hover:text-amber-400 transition-colors"
@@ -308,6 +329,32 @@ const Navbar = () => {
                   <AppIcon name="calendar" size="md" className="mr-3 text-gray-400" />
                   Fixtures
                 </Link>
+                <Link
+                  to="/my-fixtures"
+                  onClick={closeMobileMenu}
+                  className="flex items-center py-2 text-white hover:text-amber-400 transition-colors"
+                >
+                  <AppIcon name="star" size="md" className="mr-3 text-gray-400" />
+                  My Fixtures
+                  {watchlistCount > 0 && (
+                    <span className="ml-2 text-xs bg-amber-500 text-gray-900 font-semibold rounded-full px-1.5">
+                      {watchlistCount}
+                    </span>
+                  )}
+                </Link>
+                <Link
+                  to="/notifications"
+                  onClick={closeMobileMenu}
+                  className="flex items-center py-2 text-white hover:text-amber-400 transition-colors"
+                >
+                  <AppIcon name="bell" size="md" className="mr-3 text-gray-400" />
+                  Notifications
+                  {unreadCount > 0 && (
+                    <span className="ml-2 text-xs bg-red-500 text-white font-semibold rounded-full px-1.5">
+                      {unreadCount}
+                    </span>
+                  )}
+                </Link>
                 <Link
                   to="/teams"
                   onClick={closeMobileMenu}
@@ -332,6 +379,22 @@ const Navbar = () => {
                   <AppIcon name="notes" size="md" className="mr-3 text-gray-400" />
                   Notes
                 </Link>
+                <Link
+                  to="/bets"
+                  onClick={closeMobileMenu}
+                  className="flex items-center py-2 text-white hover:text-amber-400 transition-colors"
+                >
+                  <AppIcon name="chart" size="md" className="mr-3 text-gray-400" />
+                  Bets
+                </Link>
+                <Link
+                  to="/value"
+                  onClick={closeMobileMenu}
+                  className="flex items-center py-2 text-white hover:text-amber-400 transition-colors"
+                >
+                  <AppIcon name="target" size="md" className="mr-3 text-gray-400" />
+                  Value Bets
+                </Link>
 
                 {/* Divider */}
                 <div className="border-t border-gray-700 pt-3">
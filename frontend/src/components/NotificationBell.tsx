@@ -0,0 +1,138 @@
+// ============================================
+// NOTIFICATION BELL COMPONENT
+// ============================================
+// Navbar bell with the unread count. Opens a dropdown of the latest
+// notifications (see context/NotificationsContext.tsx); clicking one
+// marks it read and opens its link. The full inbox is /notifications.
+// ============================================
+
+import { useState, useRef, useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import { useNotifications } from '../context/NotificationsContext';
+import type { Notification } from '../context/NotificationsContext';
+import { formatTimeAgo } from '../utils/formatters';
+import AppIcon from './AppIcon';
+
+const NotificationBell = () => {
+  const { user } = useAuth();
+  const { latest, unreadCount, refresh, markRead, markAllRead } = useNotifications();
+  const navigate = useNavigate();
+  const dateFormat = (user?.dateFormat || 'US') as 'US' | 'EU';
+
+  const [isOpen, setIsOpen] = useState(false);
+  const dropdownRef = useRef<HTMLDivElement | null>(null);
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      const target = event.target as Node | null;
+      if (dropdownRef.current && target && !dropdownRef.current.contains(target)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  // ============================================
+  // HANDLERS
+  // ============================================
+  const toggleOpen = () => {
+    if (!isOpen) {
+      refresh().catch(error => console.error('Failed to load notifications:', error));
+    }
+    setIsOpen(!isOpen);
+  };
+
+  const handleOpen = async (notification: Notification) => {
+    setIsOpen(false);
+    try {
+      if (!notification.readAt) await markRead(notification.id);
+    } catch (error) {
+      console.error('Failed to mark notification read:', error);
+    }
+    if (notification.link) navigate(notification.link);
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await markAllRead();
+    } catch (error) {
+      console.error('Failed to mark notifications read:', error);
+    }
+  };
+
+  // ============================================
+  // RENDER
+  // ============================================
+  return (
+    <div className="relative" ref={dropdownRef}>
+      <button
+        onClick={toggleOpen}
+        className={`relative p-1 transition-colors ${isOpen ? 'text-amber-400' : 'hover:text-amber-400'}`}
+        title="Notifications"
+        aria-label={`Notifications (${unreadCount} unread)`}
+      >
+        <AppIcon name={unreadCount > 0 ? 'bell' : 'bell-outline'} size="md" className="text-current" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 text-[10px] bg-red-500 text-white font-semibold rounded-full px-1 min-w-[16px] text-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-2 w-80 bg-gray-800 rounded-md shadow-lg z-50">
+          <div className="flex items-center justify-between px-4 py-2 border-b border-gray-700">
+            <span className="text-xs text-gray-400 uppercase tracking-wide">Notifications</span>
+            {unreadCount > 0 && (
+              <button onClick={handleMarkAllRead} className="text-xs text-amber-400 hover:underline">
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          {latest.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-gray-400 text-center">
+              No notifications yet. Set up match alerts on a fixture or team page.
+            </p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-700/50">
+              {latest.map(notification => (
+                <li key={notification.id}>
+                  <button
+                    onClick={() => handleOpen(notification)}
+                    className="w-full text-left px-4 py-2 hover:bg-gray-700 transition-colors"
+                  >
+                    <div className="flex items-start gap-2">
+                      {!notification.readAt && <span className="mt-1.5 w-2 h-2 rounded-full bg-amber-500 flex-shrink-0" />}
+                      <div className={notification.readAt ? 'text-gray-400' : 'text-white'}>
+                        <div className="text-sm font-medium">{notification.title}</div>
+                        <div className="text-xs text-gray-400">{notification.message}</div>
+                        <div className="text-xs text-gray-500 mt-0.5">{formatTimeAgo(notification.createdAt, dateFormat)}</div>
+                      </div>
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <Link
+            to="/notifications"
+            onClick={() => setIsOpen(false)}
+            className="block px-4 py-2 text-center text-sm text-amber-400 border-t border-gray-700 hover:bg-gray-700"
+          >
+            View all
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationBell;
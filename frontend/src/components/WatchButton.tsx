@@ -0,0 +1,57 @@
+// ============================================
+// WATCH BUTTON COMPONENT
+// ============================================
+// Star toggle that adds a team, league or fixture to the user's
+// watchlist (see context/WatchlistContext.tsx). Followed entities show
+// up on the My Fixtures page.
+//
+// Props:
+// - type ('team' | 'league' | 'fixture'): what is being followed
+// - entityId (number): SportsMonks ID
+// - label (string, optional): display name saved with the entry
+// ============================================
+
+import { useState } from 'react';
+import AppIcon from './AppIcon';
+import { useWatchlist } from '../context/WatchlistContext';
+import type { WatchlistType } from '../context/WatchlistContext';
+
+type WatchButtonProps = {
+  type: WatchlistType;
+  entityId: number;
+  label?: string;
+};
+
+const WatchButton = ({ type, entityId, label }: WatchButtonProps) => {
+  const { isWatched, toggle } = useWatchlist();
+  const [saving, setSaving] = useState(false);
+
+  const watched = isWatched(type, entityId);
+
+  const handleClick = async () => {
+    setSaving(true);
+    try {
+      await toggle(type, entityId, label);
+    } catch (error) {
+      console.error('Failed to update watchlist:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      disabled={saving}
+      title={watched ? 'Remove from My Fixtures' : 'Add to My Fixtures'}
+      className={`inline-flex items-center gap-1 px-3 py-1.5 rounded text-sm transition-colors disabled:opacity-50
+        ${watched ? 'bg-amber-500 text-gray-900 hover:bg-amber-400' : 'bg-gray-700 text-gray-200 hover:bg-gray-600'}`}
+    >
+      <AppIcon name={watched ? 'star' : 'star-outline'} size="sm" className="text-current" />
+      {watched ? 'Following' : 'Follow'}
+    </button>
+  );
+};
+
+export default WatchButton;
@@ -0,0 +1,140 @@
+// ============================================
+// NOTIFICATIONS CONTEXT
+// ============================================
+// The logged-in user's in-app inbox, shared by the navbar bell and the
+// Notifications page. The unread count is polled so new match alerts
+// show up without a reload; the latest notifications are fetched when
+// the bell is opened (refresh()).
+// ============================================
+
+import type { ReactNode } from 'react';
+import { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { notificationsApi } from '../api/client';
+import { useAuth } from './AuthContext';
+
+export type Notification = {
+  id: string;
+  type: 'ALERT';
+  title: string;
+  message: string;
+  link: string | null;
+  readAt: string | null;
+  createdAt: string;
+};
+
+type NotificationsContextValue = {
+  latest: Notification[];
+  unreadCount: number;
+  refresh: () => Promise<void>;
+  markRead: (id: string) => Promise<void>;
+  markAllRead: () => Promise<void>;
+  remove: (id: string) => Promise<void>;
+};
+
+const NotificationsContext = createContext<NotificationsContextValue | null>(null);
+
+// How often the unread count is checked
+const POLL_INTERVAL_MS = 60 * 1000;
+
+// How many notifications the bell dropdown shows
+const LATEST_LIMIT = 8;
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Unknown error';
+
+// ============================================
+// NOTIFICATIONS PROVIDER
+// ============================================
+export const NotificationsProvider = ({ children }: { children: ReactNode }) => {
+  const { token } = useAuth();
+  const [latest, setLatest] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const refresh = useCallback(async () => {
+    if (!token) return;
+    const response = await notificationsApi.getAll({ limit: LATEST_LIMIT }, token);
+    setLatest(response.notifications);
+    setUnreadCount(response.unreadCount);
+  }, [token]);
+
+  // Load on login and poll the unread count, clear on logout
+  useEffect(() => {
+    if (!token) {
+      setLatest([]);
+      setUnreadCount(0);
+      return;
+    }
+
+    const pollUnread = () => {
+      notificationsApi.getUnreadCount(token)
+        .then(response => setUnreadCount(response.unreadCount))
+        .catch(error => console.error('Failed to check notifications:', getErrorMessage(error)));
+    };
+
+    refresh().catch(error => console.error('Failed to load notifications:', getErrorMessage(error)));
+    const interval = setInterval(pollUnread, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [token, refresh]);
+
+  // ============================================
+  // ACTIONS
+  // ============================================
+  // Each one updates the dropdown list and the count in place; the
+  // Notifications page keeps its own list and calls these too.
+
+  const markRead = async (id: string) => {
+    if (!token) throw new Error('Not authenticated');
+
+    const response = await notificationsApi.markRead(id, token);
+    setLatest(prev => prev.map(item => (item.id === id ? response.notification : item)));
+    const count = await notificationsApi.getUnreadCount(token);
+    setUnreadCount(count.unreadCount);
+  };
+
+  const markAllRead = async () => {
+    if (!token) throw new Error('Not authenticated');
+
+    await notificationsApi.markAllRead(token);
+    const readAt = new Date().toISOString();
+    setLatest(prev => prev.map(item => (item.readAt ? item : { ...item, readAt })));
+    setUnreadCount(0);
+  };
+
+  const remove = async (id: string) => {
+    if (!token) throw new Error('Not authenticated');
+
+    await notificationsApi.delete(id, token);
+    await refresh();
+  };
+
+  const value = {
+    latest,
+    unreadCount,
+    refresh,
+    markRead,
+    markAllRead,
+    remove,
+  };
+
+  return (
+    <NotificationsContext.Provider value={value}>
+      {children}
+    </NotificationsContext.Provider>
+  );
+};
+
+// ============================================
+// CUSTOM HOOK
+// ============================================
+
+export const useNotifications = () => {
+  const context = useContext(NotificationsContext);
+
+  if (!context) {
+    throw new Error('useNotifications must be used within a NotificationsProvider');
+  }
+
+  return context;
+};
+
+export default NotificationsContext;
@@ -0,0 +1,106 @@
+// ============================================
+// WATCHLIST CONTEXT
+// ============================================
+// The teams, leagues and fixtures the logged-in user follows, shared
+// by the star buttons on the detail pages and the navbar count.
+// Loaded once after login and kept in step by toggle().
+// ============================================
+
+import type { ReactNode } from 'react';
+import { createContext, useContext, useEffect, useState } from 'react';
+import { watchlistApi } from '../api/client';
+import { useAuth } from './AuthContext';
+
+export type WatchlistType = 'team' | 'league' | 'fixture';
+
+export type WatchlistItem = {
+  id: string;
+  entityType: WatchlistType;
+  entityId: number;
+  label: string | null;
+  kickoffAt: string | null;
+  createdAt: string;
+};
+
+type WatchlistContextValue = {
+  items: WatchlistItem[];
+  count: number;
+  isWatched: (type: WatchlistType, entityId: number) => boolean;
+  toggle: (type: WatchlistType, entityId: number, label?: string) => Promise<void>;
+};
+
+const WatchlistContext = createContext<WatchlistContextValue | null>(null);
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Unknown error';
+
+// ============================================
+// WATCHLIST PROVIDER
+// ============================================
+export const WatchlistProvider = ({ children }: { children: ReactNode }) => {
+  const { token } = useAuth();
+  const [items, setItems] = useState<WatchlistItem[]>([]);
+
+  // Load on login, clear on logout
+  useEffect(() => {
+    if (!token) {
+      setItems([]);
+      return;
+    }
+
+    watchlistApi.getAll(token)
+      .then(response => setItems(response.items))
+      .catch(error => console.error('Failed to load watchlist:', getErrorMessage(error)));
+  }, [token]);
+
+  const findItem = (type: WatchlistType, entityId: number) =>
+    items.find(item => item.entityType === type && item.entityId === entityId);
+
+  const isWatched = (type: WatchlistType, entityId: number) => Boolean(findItem(type, entityId));
+
+  // ============================================
+  // TOGGLE (follow / unfollow)
+  // ============================================
+  const toggle = async (type: WatchlistType, entityId: number, label?: string) => {
+    if (!token) throw new Error('Not authenticated');
+
+    const existing = findItem(type, entityId);
+    if (existing) {
+      await watchlistApi.remove(existing.id, token);
+      setItems(prev => prev.filter(item => item.id !== existing.id));
+      return;
+    }
+
+    const response = await watchlistApi.add({ type, entityId, label }, token);
+    setItems(prev => [response.item, ...prev.filter(item => item.id !== response.item.id)]);
+  };
+
+  const value = {
+    items,
+    count: items.length,
+    isWatched,
+    toggle,
+  };
+
+  return (
+    <WatchlistContext.Provider value={value}>
+      {children}
+    </WatchlistContext.Provider>
+  );
+};
+
+// ============================================
+// CUSTOM HOOK
+// ============================================
+
+export const useWatchlist = () => {
+  const context = useContext(WatchlistContext);
+
+  if (!context) {
+    throw new Error('useWatchlist must be used within a WatchlistProvider');
+  }
+
+  return context;
+};
+
+export default WatchlistContext;
@@ -0,0 +1,98 @@
+// ============================================
+// LIVE SCORES HOOK
+// ============================================
+// Listens to the backend's live stream (GET /livescores/stream) while
+// the calling page is mounted, instead of polling /livescores/inplay.
+//
+// Returns:
+//   - fixtures:  latest live data per fixture ID (state, scores, events)
+//   - inPlayIds: fixtures in play right now
+//   - updates:   the most recent changes, newest first (for the ticker)
+//   - connected: whether the stream is open
+//
+// Fixtures that drop out of play keep their last known data, so a
+// match that just finished still shows its final score. EventSource
+// reconnects by itself, and each reconnect starts with a new snapshot.
+// ============================================
+
+import { useEffect, useState } from 'react';
+import { dataApi } from '../api/client';
+
+export type LiveFixture = Record<string, any>;
+
+export type LiveUpdate = {
+  fixtureId: number;
+  changes: Array<'added' | 'removed' | 'score' | 'state' | 'events'>;
+  fixture: LiveFixture | null;
+  score: { home: number | null; away: number | null } | null;
+  newEvents: Array<Record<string, any>>;
+  removedEventIds: number[];
+  polledAt: string;
+};
+
+// How many recent changes are kept for the ticker
+const MAX_UPDATES = 20;
+
+export function useLiveScores() {
+  const [fixtures, setFixtures] = useState<Record<number, LiveFixture>>({});
+  const [inPlayIds, setInPlayIds] = useState<number[]>([]);
+  const [updates, setUpdates] = useState<LiveUpdate[]>([]);
+  const [connected, setConnected] = useState(false);
+
+  useEffect(() => {
+    const source = dataApi.openLivescoresStream();
+
+    source.onopen = () => setConnected(true);
+    source.onerror = () => setConnected(false);
+
+    // Everything in play when the stream (re)connects
+    source.addEventListener('snapshot', (message) => {
+      const snapshot = JSON.parse((message as MessageEvent).data) as { fixtures: LiveFixture[] };
+
+      setFixtures(prev => {
+        const next = { ...prev };
+        snapshot.fixtures.forEach(fixture => { next[fixture.id] = fixture; });
+        return next;
+      });
+      setInPlayIds(snapshot.fixtures.map(fixture => fixture.id));
+    });
+
+    // One changed fixture
+    source.addEventListener('update', (message) => {
+      const update = JSON.parse((message as MessageEvent).data) as LiveUpdate;
+
+      if (update.fixture) {
+        const fixture = update.fixture;
+        setFixtures(prev => ({ ...prev, [update.fixtureId]: fixture }));
+      }
+      setInPlayIds(prev => {
+        const others = prev.filter(id => id !== update.fixtureId);
+        return update.changes.includes('removed') ? others : [...others, update.fixtureId];
+      });
+      setUpdates(prev => [update, ...prev].slice(0, MAX_UPDATES));
+    });
+
+    return () => source.close();
+  }, []);
+
+  return { fixtures, inPlayIds, updates, connected };
+}
+
+// ============================================
+// HELPER: Merge live data into a fixture
+// ============================================
+// Returns the fixture with the live state, scores and events, or the
+// fixture unchanged when there's no live data for it.
+export function mergeLiveFixture<T extends Record<string, any>>(fixture: T, live?: LiveFixture): T {
+  if (!live) return fixture;
+
+  return {
+    ...fixture,
+    state_id: live.state_id ?? fixture.state_id,
+    state: live.state ?? fixture.state,
+    scores: live.scores ?? fixture.scores,
+    events: live.events ?? fixture.events,
+  };
+}
+
+export default useLiveScores;
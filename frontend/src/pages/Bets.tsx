@@ -0,0 +1,463 @@
+// ============================================
+// BETS PAGE (Bet Journal Analytics)
+// ============================================
+// Bankroll and P&L analytics for the user's bet journal:
+// - Summary cards (profit, ROI, yield, strike rate, CLV, streaks, drawdown)
+// - Running bankroll chart
+// - Breakdowns by league, market, bookmaker and month
+// - CSV export (same numbers as the page - computed server-side)
+//
+// Average prices come back already formatted in the user's
+// odds format preference.
+// ============================================
+
+import type { ReactNode } from 'react';
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { betsApi } from '../api/client';
+import AppIcon from '../components/AppIcon';
+import LineChart from '../components/LineChart';
+
+type BreakdownRow = {
+  key: string;
+  label: string;
+  bets: number;
+  won: number;
+  lost: number;
+  void: number;
+  staked: number;
+  profit: number;
+  yield: number | null;
+  strikeRate: number | null;
+  averagePrice: number | null;
+  averagePriceFormatted: string | null;
+  clvBets: number;
+  averageClv: number | null;
+  beatCloseRate: number | null;
+};
+
+type BreakdownDimension = 'league' | 'market' | 'bookmaker' | 'month';
+
+type BankrollPoint = {
+  betId: string;
+  fixtureId: number;
+  date: string;
+  status: string;
+  profit: number;
+  bankroll: number;
+};
+
+type AnalyticsSummary = {
+  totalBets: number;
+  settledBets: number;
+  pendingBets: number;
+  won: number;
+  lost: number;
+  void: number;
+  totalStaked: number;
+  openStake: number;
+  profit: number;
+  roi: number | null;
+  yield: number | null;
+  strikeRate: number | null;
+  averagePrice: number | null;
+  averagePriceFormatted: string | null;
+  clvBets: number;
+  averageClv: number | null;
+  beatCloseRate: number | null;
+  longestLosingStreak: number;
+  currentLosingStreak: number;
+  maxDrawdown: number;
+  maxDrawdownPercent: number | null;
+  startingBankroll: number;
+  currentBankroll: number;
+};
+
+type BetAnalytics = {
+  oddsFormat: string;
+  summary: AnalyticsSummary;
+  bankrollHistory: BankrollPoint[];
+  breakdowns: Record<BreakdownDimension, BreakdownRow[]>;
+};
+
+const getErrorMessage = (err: unknown, fallback: string) =>
+  err instanceof Error ? err.message : fallback;
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const BREAKDOWN_TABS: { id: BreakdownDimension; label: string }[] = [
+  { id: 'league', label: 'League' },
+  { id: 'market', label: 'Market' },
+  { id: 'bookmaker', label: 'Bookmaker' },
+  { id: 'month', label: 'Month' },
+];
+
+// Remember the bankroll between visits
+const BANKROLL_STORAGE_KEY = 'betsmoke_starting_bankroll';
+
+// ============================================
+// HELPERS
+// ============================================
+
+const formatMoney = (value: number) =>
+  `${value < 0 ? '-' : ''}${Math.abs(value).toFixed(2)}`;
+
+const formatPercent = (value: number | null) =>
+  value === null ? '-' : `${value > 0 ? '+' : ''}${value.toFixed(1)}%`;
+
+const profitColor = (value: number | null) => {
+  if (value === null || value === 0) return 'text-gray-300';
+  return value > 0 ? 'text-green-400' : 'text-red-400';
+};
+
+// ============================================
+// SUMMARY CARD
+// ============================================
+
+type SummaryCardProps = {
+  label: string;
+  value: ReactNode;
+  detail?: ReactNode;
+  valueClassName?: string;
+};
+
+const SummaryCard = ({ label, value, detail, valueClassName = 'text-white' }: SummaryCardProps) => (
+  <div className="bg-gray-800 rounded-lg p-4">
+    <div className="text-xs uppercase tracking-wide text-gray-400">{label}</div>
+    <div className={`text-2xl font-bold mt-1 ${valueClassName}`}>{value}</div>
+    {detail && <div className="text-xs text-gray-500 mt-1">{detail}</div>}
+  </div>
+);
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+
+const Bets = () => {
+  const { token } = useAuth();
+
+  const [analytics, setAnalytics] = useState<BetAnalytics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [settling, setSettling] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [activeTab, setActiveTab] = useState<BreakdownDimension>('league');
+
+  // Starting bankroll (input value vs. applied value)
+  const [bankrollInput, setBankrollInput] = useState(
+    () => localStorage.getItem(BANKROLL_STORAGE_KEY) || '0'
+  );
+  const [startingBankroll, setStartingBankroll] = useState(
+    () => Number(localStorage.getItem(BANKROLL_STORAGE_KEY)) || 0
+  );
+
+  // ============================================
+  // FETCH ANALYTICS
+  // ============================================
+
+  const fetchAnalytics = useCallback(async () => {
+    if (!token) return;
+
+    try {
+      setLoading(true);
+      setError('');
+      const data = await betsApi.getAnalytics(startingBankroll, token);
+      setAnalytics(data);
+    } catch (err) {
+      console.error('Failed to fetch bet analytics:', err);
+      setError(getErrorMessage(err, 'Failed to load bet analytics'));
+    } finally {
+      setLoading(false);
+    }
+  }, [token, startingBankroll]);
+
+  useEffect(() => {
+    fetchAnalytics();
+  }, [fetchAnalytics]);
+
+  // ============================================
+  // HANDLERS
+  // ============================================
+
+  const handleApplyBankroll = () => {
+    const value = Number(bankrollInput);
+    if (Number.isNaN(value) || value < 0) {
+      setError('Starting bankroll must be a non-negative number');
+      return;
+    }
+    localStorage.setItem(BANKROLL_STORAGE_KEY, String(value));
+    setStartingBankroll(value);
+  };
+
+  const handleSettle = async () => {
+    if (!token) return;
+
+    try {
+      setSettling(true);
+      setMessage('');
+      const data = await betsApi.settle(token);
+      setMessage(data.message);
+      await fetchAnalytics();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to settle bets'));
+    } finally {
+      setSettling(false);
+    }
+  };
+
+  const handleExport = async () => {
+    if (!token) return;
+
+    try {
+      setExporting(true);
+      const csv = await betsApi.exportAnalyticsCsv(startingBankroll, token);
+
+      // Trigger a browser download
+      const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'bet-analytics.csv';
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to export analytics'));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const summary = analytics?.summary;
+  const breakdownRows = analytics?.breakdowns[activeTab] || [];
+
+  // ============================================
+  // RENDER
+  // ============================================
+  return (
+    <div className="space-y-6">
+      {/* ============================================ */}
+      {/* HEADER */}
+      {/* ============================================ */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-white flex items-center">
+            <AppIcon name="chart" size="lg" className="mr-2 text-amber-500" />
+            Bet Journal
+          </h1>
+          <p className="text-gray-400 text-sm mt-1">
+            Bankroll and P&amp;L across every bet you've recorded
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <label className="text-sm text-gray-400" htmlFor="starting-bankroll">
+            Starting bankroll
+          </label>
+          <input
+            id="starting-bankroll"
+            type="number"
+            min="0"
+            step="any"
+            value={bankrollInput}
+            onChange={(e) => setBankrollInput(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleApplyBankroll()}
+            className="w-28 px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-amber-500"
+          />
+          <button
+            onClick={handleApplyBankroll}
+            className="px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-md text-sm"
+          >
+            Apply
+          </button>
+          <button
+            onClick={handleSettle}
+            disabled={settling}
+            className="px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-md text-sm disabled:opacity-50"
+          >
+            {settling ? 'Settling...' : 'Settle now'}
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={exporting || !analytics}
+            className="px-3 py-2 bg-amber-500 hover:bg-amber-600 text-gray-900 font-medium rounded-md text-sm disabled:opacity-50"
+          >
+            {exporting ? 'Exporting...' : 'Export CSV'}
+          </button>
+        </div>
+      </div>
+
+      {/* ============================================ */}
+      {/* MESSAGES */}
+      {/* ============================================ */}
+      {error && (
+        <div className="bg-red-900/30 text-red-400 p-4 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {message && (
+        <div className="bg-green-900/30 text-green-400 p-4 rounded-md">
+          {message}
+        </div>
+      )}
+
+      {/* ============================================ */}
+      {/* LOADING STATE */}
+      {/* ============================================ */}
+      {loading && !analytics && (
+        <div className="text-center py-12 text-gray-400">
+          <div className="inline-block w-8 h-8 border-4 border-amber-500 border-t-transparent rounded-full animate-spin mb-4" />
+          <p>Loading bet analytics...</p>
+        </div>
+      )}
+
+      {/* ============================================ */}
+      {/* EMPTY STATE */}
+      {/* ============================================ */}
+      {summary && summary.totalBets === 0 && (
+        <div className="bg-gray-800 rounded-lg p-8 text-center text-gray-400">
+          No bets recorded yet. Add bets to your journal to see analytics here.
+        </div>
+      )}
+
+      {summary && summary.totalBets > 0 && analytics && (
+        <>
+          {/* ============================================ */}
+          {/* SUMMARY CARDS */}
+          {/* ============================================ */}
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            <SummaryCard
+              label="Profit"
+              value={formatMoney(summary.profit)}
+              valueClassName={profitColor(summary.profit)}
+              detail={`${formatMoney(summary.totalStaked)} staked`}
+            />
+            <SummaryCard
+              label="Bankroll"
+              value={formatMoney(summary.currentBankroll)}
+              detail={`ROI ${formatPercent(summary.roi)}`}
+            />
+            <SummaryCard
+              label="Yield"
+              value={formatPercent(summary.yield)}
+              valueClassName={profitColor(summary.yield)}
+              detail={`Avg price ${summary.averagePriceFormatted || '-'}`}
+            />
+            <SummaryCard
+              label="Strike Rate"
+              value={summary.strikeRate === null ? '-' : `${summary.strikeRate.toFixed(1)}%`}
+              detail={`${summary.won}W / ${summary.lost}L / ${summary.void}V`}
+            />
+            <SummaryCard
+              label="Closing Line Value"
+              value={formatPercent(summary.averageClv)}
+              valueClassName={profitColor(summary.averageClv)}
+              detail={summary.clvBets > 0
+                ? `Beat the close on ${summary.beatCloseRate?.toFixed(0)}% of ${summary.clvBets} bets`
+                : 'No closing prices captured yet'}
+            />
+            <SummaryCard
+              label="Longest Losing Streak"
+              value={summary.longestLosingStreak}
+              detail={`Current: ${summary.currentLosingStreak}`}
+            />
+            <SummaryCard
+              label="Max Drawdown"
+              value={formatMoney(summary.maxDrawdown)}
+              valueClassName={summary.maxDrawdown > 0 ? 'text-red-400' : 'text-white'}
+              detail={summary.maxDrawdownPercent === null ? undefined : `${summary.maxDrawdownPercent.toFixed(1)}% from peak`}
+            />
+            <SummaryCard
+              label="Settled"
+              value={summary.settledBets}
+              detail={`of ${summary.totalBets} bets`}
+            />
+            <SummaryCard
+              label="Pending"
+              value={summary.pendingBets}
+              detail={`${formatMoney(summary.openStake)} open stake`}
+            />
+          </div>
+
+          {/* ============================================ */}
+          {/* BANKROLL CHART */}
+          {/* ============================================ */}
+          <div className="bg-gray-800 rounded-lg p-4">
+            <h2 className="text-lg font-semibold text-white mb-3">Running Bankroll</h2>
+            <LineChart
+              series={[{
+                label: 'Bankroll',
+                color: '#f59e0b',
+                points: analytics.bankrollHistory.map((point, idx) => ({ x: idx + 1, y: point.bankroll })),
+              }]}
+              baseline={summary.startingBankroll}
+              formatX={(value) => `Bet ${value}`}
+              formatY={(value) => value.toFixed(0)}
+              emptyMessage="No settled bets yet"
+            />
+          </div>
+
+          {/* ============================================ */}
+          {/* BREAKDOWNS */}
+          {/* ============================================ */}
+          <div className="bg-gray-800 rounded-lg overflow-hidden">
+            <div className="flex border-b border-gray-700">
+              {BREAKDOWN_TABS.map(tab => (
+                <button
+                  key={tab.id}
+                  onClick={() => setActiveTab(tab.id)}
+                  className={`px-4 py-3 text-sm font-medium ${
+                    activeTab === tab.id
+                      ? 'text-amber-500 border-b-2 border-amber-500'
+                      : 'text-gray-400 hover:text-white'
+                  }`}
+                >
+                  {tab.label}
+                </button>
+              ))}
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-700/50 text-gray-400 text-xs uppercase">
+                  <tr>
+                    <th className="px-4 py-2 text-left">{BREAKDOWN_TABS.find(t => t.id === activeTab)?.label}</th>
+                    <th className="px-4 py-2 text-right">Bets</th>
+                    <th className="px-4 py-2 text-right">W-L-V</th>
+                    <th className="px-4 py-2 text-right">Staked</th>
+                    <th className="px-4 py-2 text-right">Profit</th>
+                    <th className="px-4 py-2 text-right">Yield</th>
+                    <th className="px-4 py-2 text-right">Strike</th>
+                    <th className="px-4 py-2 text-right">Avg Price</th>
+                    <th className="px-4 py-2 text-right">CLV</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-700">
+                  {breakdownRows.map(row => (
+                    <tr key={row.key} className="text-gray-300">
+                      <td className="px-4 py-2 text-white">{row.label}</td>
+                      <td className="px-4 py-2 text-right">{row.bets}</td>
+                      <td className="px-4 py-2 text-right">{row.won}-{row.lost}-{row.void}</td>
+                      <td className="px-4 py-2 text-right">{formatMoney(row.staked)}</td>
+                      <td className={`px-4 py-2 text-right ${profitColor(row.profit)}`}>{formatMoney(row.profit)}</td>
+                      <td className={`px-4 py-2 text-right ${profitColor(row.yield)}`}>{formatPercent(row.yield)}</td>
+                      <td className="px-4 py-2 text-right">
+                        {row.strikeRate === null ? '-' : `${row.strikeRate.toFixed(1)}%`}
+                      </td>
+                      <td className="px-4 py-2 text-right">{row.averagePriceFormatted || '-'}</td>
+                      <td className={`px-4 py-2 text-right ${profitColor(row.averageClv)}`}>{formatPercent(row.averageClv)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Bets;
@@ -5,6 +5,7 @@
 // 
 // Includes:
 // - Premier League table (LeagueStandings component)
+// - Premier League team stats comparison (LeagueTeamStats component)
 // - FA Cup fixtures by round (CupCompetition component)
 // - Carabao Cup fixtures by round (CupCompetition component)
 //
@@ -15,7 +16,9 @@
 import type { RefObject } from 'react';
 import { useRef, useState, useEffect } from 'react';
 import LeagueStandings from '../components/LeagueStandings';
+import LeagueTeamStats from '../components/LeagueTeamStats';
 import CupCompetition from '../components/CupCompetition';
+import WatchButton from '../components/WatchButton';
 import { dataApi } from '../api/client';
 
 // ============================================
@@ -25,6 +28,13 @@ const PREMIER_LEAGUE_ID = 8;
 const FA_CUP_ID = 24;
 const CARABAO_CUP_ID = 27;  // Also known as EFL Cup / League Cup
 
+// Competitions that can be followed for My Fixtures
+const FOLLOWABLE = [
+  { id: PREMIER_LEAGUE_ID, name: 'Premier League' },
+  { id: FA_CUP_ID, name: 'FA Cup' },
+  { id: CARABAO_CUP_ID, name: 'Carabao Cup' },
+];
+
 const Competitions = () => {
   // ============================================
   // REFS FOR SMOOTH SCROLLING
@@ -178,6 +188,16 @@ const Competitions = () => {
         </button>
       </div>
 
+      {/* Follow competitions (their fixtures show on My Fixtures) */}
+      <div className="flex flex-wrap items-center gap-4 text-sm text-gray-400">
+        {FOLLOWABLE.map(competition => (
+          <div key={competition.id} className="flex items-center gap-2">
+            <span>{competition.name}</span>
+            <WatchButton type="league" entityId={competition.id} label={competition.name} />
+          </div>
+        ))}
+      </div>
+
       {/* ============================================ */}
       {/* PREMIER LEAGUE STANDINGS */}
       {/* ============================================ */}
@@ -190,6 +210,14 @@ const Competitions = () => {
         />
       </div>
 
+      {/* ============================================ */}
+      {/* PREMIER LEAGUE TEAM STATS */}
+      {/* ============================================ */}
+      <LeagueTeamStats
+        leagueId={PREMIER_LEAGUE_ID}
+        leagueName="Premier League"
+      />
+
       {/* ============================================ */}
       {/* FA CUP FIXTURES */}
       {/* ============================================ */}
@@ -17,6 +17,11 @@ import { useAuth } from '../context/AuthContext';
 import MatchPredictions from '../components/MatchPredictions';
 import FloatingNoteWidget from '../components/FloatingNoteWidget';
 import AppIcon from '../components/AppIcon';
+import LineChart from '../components/LineChart';
+import LiveTicker from '../components/LiveTicker';
+import WatchButton from '../components/WatchButton';
+import AlertsPanel from '../components/AlertsPanel';
+import { useLiveScores, mergeLiveFixture } from '../hooks/useLiveScores';
 import {
   formatTime as formatTimeUtil,
   formatDate as formatDateUtil,
@@ -25,15 +30,21 @@ import {
   formatOdds,
   getOddsValue
 } from '../utils/formatters';
+import type {
+  Bookmaker,
+  Fixture,
+  FixtureEvent,
+  Odd,
+  Participant,
+  Score,
+  Statistic
+} from '@shared/sportsmonks';
 
 const getErrorMessage = (err: unknown, fallback: string) =>
   err instanceof Error ? err.message : fallback;
 
 type AnyRecord = Record<string, any>;
-type Fixture = AnyRecord;
-type OddsMarket = AnyRecord;
-type Bookmaker = AnyRecord;
-type H2HMatch = AnyRecord;
+type H2HMatch = Fixture;
 type TeamStats = AnyRecord;
 type FormEntry = AnyRecord;
 
@@ -407,19 +418,19 @@ function HeadToHeadSection({ h2h, h2hLoading, timezone, dateFormat }: any) {
     
     // Priority 1: Look for "CURRENT" (modern fixtures)
     const currentScore = match.scores.find(
-      (s: AnyRecord) => s.description === 'CURRENT' && s.score?.participant === location
+      (s: Score) => s.description === 'CURRENT' && s.score?.participant === location
     );
     if (currentScore) return currentScore.score?.goals;
     
     // Priority 2: Look for "2ND_HALF" (older fixtures - this is the final score)
     const secondHalfScore = match.scores.find(
-      (s: AnyRecord) => s.description === '2ND_HALF' && s.score?.participant === location
+      (s: Score) => s.description === '2ND_HALF' && s.score?.participant === location
     );
     if (secondHalfScore) return secondHalfScore.score?.goals;
     
     // Priority 3: Look for "1ST_HALF" as last resort (partial data)
     const firstHalfScore = match.scores.find(
-      (s: AnyRecord) => s.description === '1ST_HALF' && s.score?.participant === location
+      (s: Score) => s.description === '1ST_HALF' && s.score?.participant === location
     );
     if (firstHalfScore) return firstHalfScore.score?.goals;
     
@@ -446,9 +457,9 @@ function HeadToHeadSection({ h2h, h2hLoading, timezone, dateFormat }: any) {
       ) : (
         <div className="space-y-2">
           {/* Display matches */}
-          {displayedMatches.map((match: AnyRecord) => {
-            const mHomeTeam = match.participants?.find((p: AnyRecord) => p.meta?.location === 'home');
-            const mAwayTeam = match.participants?.find((p: AnyRecord) => p.meta?.location === 'away');
+          {displayedMatches.map((match: Fixture) => {
+            const mHomeTeam = match.participants?.find((p: Participant) => p.meta?.location === 'home');
+            const mAwayTeam = match.participants?.find((p: Participant) => p.meta?.location === 'away');
             const mHomeScore = getMatchScore(match, 'home');
             const mAwayScore = getMatchScore(match, 'away');
 
@@ -2036,16 +2047,471 @@ function TeamStatsComparisonSection(props: any) {
 
 
 
+// ============================================
+// ELO MATCHUP COMPONENT
+// ============================================
+// Home/draw/away probabilities implied by the teams' current Elo ratings
+// (home advantage included). Hidden when either team is unrated.
+function EloMatchupSection({ homeTeam, awayTeam }: { homeTeam: AnyRecord; awayTeam: AnyRecord }) {
+  const [matchup, setMatchup] = useState<AnyRecord | null>(null);
+
+  useEffect(() => {
+    const fetchMatchup = async () => {
+      try {
+        const data = await dataApi.getRatingMatchup(homeTeam.id, awayTeam.id);
+        setMatchup(data);
+      } catch {
+        // Unrated team (404) or ratings not built yet - nothing to show
+        setMatchup(null);
+      }
+    };
+
+    if (homeTeam?.id && awayTeam?.id) {
+      fetchMatchup();
+    }
+  }, [homeTeam?.id, awayTeam?.id]);
+
+  if (!matchup) return null;
+
+  const { probabilities } = matchup;
+  const outcomes = [
+    { label: homeTeam.name, value: probabilities.home, color: 'bg-amber-500' },
+    { label: 'Draw', value: probabilities.draw, color: 'bg-gray-500' },
+    { label: awayTeam.name, value: probabilities.away, color: 'bg-blue-500' },
+  ];
+
+  return (
+    <div className="bg-gray-800 rounded-lg shadow-md p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-lg font-semibold text-gray-100 flex items-center gap-2">
+          <AppIcon name="ranking" /> Elo Ratings
+        </h2>
+        <span className="text-xs text-gray-500">Home advantage +{matchup.homeAdvantage}</span>
+      </div>
+
+      <div className="flex justify-between text-sm mb-3">
+        <span className="text-gray-300">
+          {homeTeam.name} <span className="font-semibold text-amber-500">{Math.round(matchup.homeTeam.rating)}</span>
+        </span>
+        <span className="text-gray-300">
+          <span className="font-semibold text-blue-400">{Math.round(matchup.awayTeam.rating)}</span> {awayTeam.name}
+        </span>
+      </div>
+
+      {/* Probability bar */}
+      <div className="flex h-3 rounded-full overflow-hidden mb-2">
+        {outcomes.map(outcome => (
+          <div
+            key={outcome.label}
+            className={outcome.color}
+            style={{ width: `${outcome.value * 100}%` }}
+          />
+        ))}
+      </div>
+      <div className="grid grid-cols-3 text-xs">
+        {outcomes.map((outcome, idx) => (
+          <div
+            key={outcome.label}
+            className={idx === 0 ? 'text-left' : idx === 1 ? 'text-center' : 'text-right'}
+          >
+            <span className="text-gray-400">{outcome.label}</span>{' '}
+            <span className="font-semibold text-gray-100">{(outcome.value * 100).toFixed(1)}%</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// ============================================
+// REFEREE COMPONENT
+// ============================================
+// The referee's card, penalty and foul tendencies for card-market
+// research. Numbers come from matches stored in the data warehouse,
+// so a referee with no stored matches shows the profile only.
+const REFEREE_TYPE_ID = 6; // Fixture official type_id for the referee (not assistants)
+
+function RefereeSection({ fixture }: { fixture: Fixture }) {
+  const [referee, setReferee] = useState<AnyRecord | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [scope, setScope] = useState<'all' | 'last10'>('all');
+
+  const official = fixture.referees?.find(r => r.type_id === REFEREE_TYPE_ID);
+  const refereeId = official?.referee_id;
+
+  useEffect(() => {
+    const fetchReferee = async () => {
+      setLoading(true);
+      try {
+        const data = await dataApi.getReferee(refereeId!, { last: scope === 'last10' ? 10 : undefined });
+        setReferee(data);
+      } catch {
+        // Unknown referee - fall back to the name from the fixture
+        setReferee(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (refereeId) {
+      fetchReferee();
+    }
+  }, [refereeId, scope]);
+
+  if (!official) return null;
+
+  const profile = referee?.referee ?? official.referee;
+  const stats = referee?.stats;
+
+  const formatRate = (value: number | null | undefined) =>
+    value === null || value === undefined ? '-' : value.toFixed(2);
+
+  const rows = stats ? [
+    { label: 'Yellow cards', icon: 'yellow-card', iconClass: 'text-yellow-400', split: stats.yellowCards },
+    { label: 'Red cards', icon: 'red-card', iconClass: 'text-red-500', split: stats.redCards },
+    { label: 'Penalties', icon: 'target', iconClass: 'text-amber-500', split: stats.penalties },
+    { label: 'Fouls', icon: 'whistle', iconClass: 'text-gray-400', split: stats.fouls },
+  ] : [];
+
+  return (
+    <div className="bg-gray-800 rounded-lg shadow-md p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-lg font-semibold text-gray-100 flex items-center gap-2">
+          <AppIcon name="whistle" /> Referee
+        </h2>
+        <div className="flex gap-1 text-xs">
+          {(['all', 'last10'] as const).map(value => (
+            <button
+              key={value}
+              onClick={() => setScope(value)}
+              className={`px-2 py-1 rounded ${scope === value ? 'bg-amber-500 text-gray-900' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+            >
+              {value === 'all' ? 'All stored' : 'Last 10'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3 mb-4">
+        {profile?.image_path && (
+          <img src={profile.image_path} alt={profile.name} className="w-10 h-10 rounded-full object-cover bg-gray-700" />
+        )}
+        <div>
+          <p className="font-medium text-gray-100">{profile?.display_name || profile?.name || `Referee #${refereeId}`}</p>
+          {stats && (
+            <p className="text-xs text-gray-400">{stats.games} stored {stats.games === 1 ? 'match' : 'matches'}</p>
+          )}
+        </div>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-400">Loading referee stats...</p>
+      ) : !stats || stats.games === 0 ? (
+        <p className="text-sm text-gray-400">No stored matches for this referee yet.</p>
+      ) : (
+        <>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-400">
+                <th className="text-left font-normal pb-2">Per game</th>
+                <th className="text-center font-normal pb-2">Total</th>
+                <th className="text-center font-normal pb-2">Home</th>
+                <th className="text-center font-normal pb-2">Away</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.label} className="border-t border-gray-700">
+                  <td className="py-2 text-gray-300 flex items-center gap-2">
+                    <AppIcon name={row.icon} size="sm" className={row.iconClass} /> {row.label}
+                  </td>
+                  <td className="py-2 text-center font-semibold text-gray-100">{formatRate(row.split.perGame)}</td>
+                  <td className="py-2 text-center text-gray-300">{formatRate(row.split.homePerGame)}</td>
+                  <td className="py-2 text-center text-gray-300">{formatRate(row.split.awayPerGame)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {/* Home/away bias in results */}
+          <div className="mt-3 pt-3 border-t border-gray-700 grid grid-cols-3 text-xs text-center">
+            <div>
+              <span className="text-gray-400">Home wins</span>{' '}
+              <span className="font-semibold text-gray-100">{stats.results.homeWinRate ?? '-'}%</span>
+            </div>
+            <div>
+              <span className="text-gray-400">Draws</span>{' '}
+              <span className="font-semibold text-gray-100">{stats.results.drawRate ?? '-'}%</span>
+            </div>
+            <div>
+              <span className="text-gray-400">Away wins</span>{' '}
+              <span className="font-semibold text-gray-100">{stats.results.awayWinRate ?? '-'}%</span>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+// ============================================
+// BEST LINES CONTENT COMPONENT
+// ============================================
+// Best available price per selection across all bookmakers,
+// with the bookmaker(s) offering it and the consensus (median) price.
+// Edge = how far the best price is above consensus.
+function BestLinesContent({ fixtureId, oddsFormat }: { fixtureId: string | number; oddsFormat: string }) {
+  const [markets, setMarkets] = useState<AnyRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [selectedMarketId, setSelectedMarketId] = useState<string>('');
+
+  useEffect(() => {
+    const fetchBestLines = async () => {
+      try {
+        setLoading(true);
+        const data = await dataApi.getBestOdds(fixtureId);
+        const bestMarkets: AnyRecord[] = data.markets || [];
+        setMarkets(bestMarkets);
+
+        // Default to Fulltime Result when available
+        const defaultMarket = bestMarkets.find(m => m.marketId === 1) || bestMarkets[0];
+        if (defaultMarket) {
+          setSelectedMarketId(String(defaultMarket.marketId));
+        }
+      } catch (err) {
+        setError(getErrorMessage(err, 'Failed to load best lines'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchBestLines();
+  }, [fixtureId]);
+
+  const format = oddsFormat as 'AMERICAN' | 'DECIMAL' | 'FRACTIONAL';
+  const market = markets.find(m => String(m.marketId) === selectedMarketId);
+
+  if (loading) {
+    return <div className="text-center text-gray-500 py-4">Loading best lines...</div>;
+  }
+
+  if (error) {
+    return <div className="text-center text-red-400 py-4">{error}</div>;
+  }
+
+  if (markets.length === 0) {
+    return <div className="text-center text-gray-500 py-4">No betting markets available</div>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <select
+        value={selectedMarketId}
+        onChange={(e) => setSelectedMarketId(e.target.value)}
+        className="bg-gray-700 border border-gray-600 rounded px-3 py-2 text-sm text-gray-200"
+      >
+        {markets.map(m => (
+          <option key={m.marketId} value={m.marketId}>
+            {m.marketName}
+          </option>
+        ))}
+      </select>
+
+      {market && (
+        <div className="overflow-x-auto border border-gray-700 rounded-lg">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-700 text-xs text-gray-400">
+              <tr>
+                <th className="px-3 py-2 text-left">Selection</th>
+                <th className="px-3 py-2 text-center">Best</th>
+                <th className="px-3 py-2 text-left">Bookmaker</th>
+                <th className="px-3 py-2 text-center">Consensus</th>
+                <th className="px-3 py-2 text-center">Edge</th>
+              </tr>
+            </thead>
+            <tbody>
+              {market.selections.map((selection: AnyRecord, idx: number) => {
+                const label = formatOddLabel(selection.label, market.marketId);
+                return (
+                  <tr key={`${selection.label}-${selection.line}`} className={idx % 2 === 0 ? 'bg-gray-800' : 'bg-gray-700'}>
+                    <td className="px-3 py-2 text-gray-200">
+                      {selection.line ? `${label} ${selection.line}` : label}
+                    </td>
+                    <td className="px-3 py-2 text-center">
+                      <span className="font-semibold text-green-400 bg-green-900/30 px-2 py-0.5 rounded">
+                        {formatOdds(selection.best, format)}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2 text-gray-300">
+                      {selection.bestBookmakers.map((bm: AnyRecord) => bm.name).join(', ')}
+                      <span className="text-xs text-gray-500 ml-1">
+                        ({selection.bookmakerCount} bookmaker{selection.bookmakerCount !== 1 ? 's' : ''})
+                      </span>
+                    </td>
+                    <td className="px-3 py-2 text-center text-gray-300">
+                      {formatOdds(selection.consensus, format)}
+                    </td>
+                    <td className={`px-3 py-2 text-center ${selection.edge > 0 ? 'text-amber-500 font-medium' : 'text-gray-400'}`}>
+                      {selection.edge > 0 ? `+${selection.edge.toFixed(1)}%` : '-'}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ============================================
+// LINE MOVEMENT CHART COMPONENT
+// ============================================
+// Shows how a market's prices moved for one bookmaker, using the odds
+// history stored by the backend snapshotter (watched leagues only).
+// Prices are decimal; each selection is its own line.
+const LINE_COLORS = ['#f59e0b', '#3b82f6', '#10b981', '#ef4444', '#a855f7', '#ec4899'];
+
+function LineMovementChart({ fixtureId, marketId, bookmakerNames, formatOddLabel }: {
+  fixtureId: string | number;
+  marketId: number;
+  bookmakerNames: Record<string, string>;
+  formatOddLabel: (label: string, marketId: number) => string;
+}) {
+  const [series, setSeries] = useState<AnyRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [bookmakerId, setBookmakerId] = useState<string>('');
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        setLoading(true);
+        const data = await dataApi.getOddsHistory(fixtureId, marketId);
+        const history: AnyRecord[] = data.series || [];
+        setSeries(history);
+        if (history.length > 0) {
+          setBookmakerId(String(history[0].bookmakerId));
+        }
+      } catch (err) {
+        setError(getErrorMessage(err, 'Failed to load line movement'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [fixtureId, marketId]);
+
+  // Bookmakers that have history for this market
+  const historyBookmakers = useMemo(
+    () => [...new Set(series.map(s => String(s.bookmakerId)))],
+    [series]
+  );
+
+  // One chart line per selection for the chosen bookmaker.
+  // Snapshots are only stored when a price changes, so each line is
+  // extended to the latest snapshot to show the current price.
+  const chartSeries = useMemo(() => {
+    const selected = series.filter(s => String(s.bookmakerId) === bookmakerId);
+    const latest = Math.max(
+      ...selected.flatMap(s => s.points.map((p: AnyRecord) => new Date(p.capturedAt).getTime()))
+    );
+
+    return selected.map((s, idx) => {
+      const points = s.points.map((p: AnyRecord) => ({
+        x: new Date(p.capturedAt).getTime(),
+        y: p.value,
+      }));
+      const last = points[points.length - 1];
+      if (last && last.x < latest) {
+        points.push({ x: latest, y: last.y });
+      }
+
+      const label = formatOddLabel(s.label, marketId);
+      return {
+        label: s.line ? `${label} ${s.line}` : label,
+        color: LINE_COLORS[idx % LINE_COLORS.length],
+        points,
+      };
+    });
+  }, [series, bookmakerId, marketId, formatOddLabel]);
+
+  if (loading) {
+    return <div className="text-center text-gray-500 py-4 text-sm">Loading line movement...</div>;
+  }
+
+  if (error) {
+    return <div className="text-center text-red-400 py-4 text-sm">{error}</div>;
+  }
+
+  if (series.length === 0) {
+    return (
+      <div className="text-center text-gray-500 py-4 text-sm">
+        No odds history yet - line movement is recorded for watched leagues only
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs text-gray-400">Line movement (decimal odds)</span>
+        <select
+          value={bookmakerId}
+          onChange={(e) => setBookmakerId(e.target.value)}
+          className="bg-gray-700 border border-gray-600 rounded px-2 py-1 text-xs text-gray-200"
+        >
+          {historyBookmakers.map(bmId => (
+            <option key={bmId} value={bmId}>
+              {bookmakerNames[bmId] || `Bookmaker ${bmId}`}
+            </option>
+          ))}
+        </select>
+      </div>
+      <LineChart
+        series={chartSeries}
+        height={200}
+        formatX={(value) => new Date(value).toLocaleString([], {
+          month: 'short',
+          day: 'numeric',
+          hour: 'numeric',
+          minute: '2-digit',
+        })}
+        formatY={(value) => value.toFixed(2)}
+      />
+    </div>
+  );
+}
+
 // ============================================
 // ALL BETTING MARKETS CONTENT COMPONENT
 // ============================================
 // Shows ALL markets with odds grouped by bookmaker within each market
 // Each market is individually expandable/collapsible
 // Uses consistent ordering and normalized labels across all bookmakers
-function AllBettingMarketsContent({ odds, bookmakers, oddsFormat, formatOddLabel, getMarketName }: any) {
+// Each expanded market can also show its line movement chart
+function AllBettingMarketsContent({ fixtureId, odds, bookmakers, oddsFormat, formatOddLabel, getMarketName }: any) {
   // State to track which markets are expanded
   const [expandedMarkets, setExpandedMarkets] = useState<Set<number | string>>(new Set());
 
+  // State to track which markets are showing their line movement chart
+  const [movementMarkets, setMovementMarkets] = useState<Set<number>>(new Set());
+
+  const toggleMovement = (marketId: number) => {
+    setMovementMarkets(prev => {
+      const newSet = new Set<number>(prev);
+      if (newSet.has(marketId)) {
+        newSet.delete(marketId);
+      } else {
+        newSet.add(marketId);
+      }
+      return newSet;
+    });
+  };
+
   // Toggle a specific market's expanded state
   const toggleMarket = (marketId: any) => {
     setExpandedMarkets(prev => {
@@ -2061,7 +2527,7 @@ function AllBettingMarketsContent({ odds, bookmakers, oddsFormat, formatOddLabel
 
   // Expand all markets
   const expandAll = () => {
-    const allMarketIds = [...new Set(odds.map((o: AnyRecord) => o.market_id))];
+    const allMarketIds = [...new Set(odds.map((o: Odd) => o.market_id))];
     setExpandedMarkets(new Set<number | string>(allMarketIds as Array<string | number>));
   };
 
@@ -2157,7 +2623,7 @@ function AllBettingMarketsContent({ odds, bookmakers, oddsFormat, formatOddLabel
   // Build a map of bookmaker ID -> name
   const bookmakerNames = useMemo(() => {
     const names: Record<string, string> = {};
-    odds.forEach((odd: AnyRecord) => {
+    odds.forEach((odd: Odd) => {
       if (odd.bookmaker_id && !names[odd.bookmaker_id]) {
         names[odd.bookmaker_id] = odd.bookmaker?.name || `Bookmaker ${odd.bookmaker_id}`;
       }
@@ -2206,7 +2672,7 @@ function AllBettingMarketsContent({ odds, bookmakers, oddsFormat, formatOddLabel
       </div>
 
       {/* Market Cards */}
-      {Object.entries(allOddsByMarket as Record<string, AnyRecord[]>).map(([marketId, marketOdds]) => {
+      {Object.entries(allOddsByMarket as Record<string, Odd[]>).map(([marketId, marketOdds]) => {
         const mId = parseInt(marketId);
         const isExpanded = expandedMarkets.has(mId);
 
@@ -2214,21 +2680,21 @@ function AllBettingMarketsContent({ odds, bookmakers, oddsFormat, formatOddLabel
         const marketName = marketOdds[0]?.market?.name || getMarketName(mId);
 
         // Group odds by bookmaker
-        const oddsByBookmaker = marketOdds.reduce((acc: Record<string, AnyRecord[]>, odd: AnyRecord) => {
+        const oddsByBookmaker = marketOdds.reduce((acc: Record<string, Odd[]>, odd: Odd) => {
           const bmId = odd.bookmaker_id;
           if (!acc[bmId]) {
             acc[bmId] = [];
           }
           acc[bmId].push(odd);
           return acc;
-        }, {} as Record<string, AnyRecord[]>);
+        }, {} as Record<string, Odd[]>);
 
         const bookmakerCount = Object.keys(oddsByBookmaker).length;
 
         // Get all unique normalized labels across ALL bookmakers for consistent columns
         const allNormalizedLabels = new Map<string, string>();
-        marketOdds.forEach((odd: AnyRecord) => {
-          const rawLabel = odd.label || odd.name;
+        marketOdds.forEach((odd: Odd) => {
+          const rawLabel = odd.label || odd.name || '';
           const normalized = normalizeLabel(rawLabel, mId);
           if (!allNormalizedLabels.has(normalized)) {
             allNormalizedLabels.set(normalized, rawLabel);
@@ -2306,7 +2772,7 @@ function AllBettingMarketsContent({ odds, bookmakers, oddsFormat, formatOddLabel
                 </div>
 
                 {/* Bookmaker Rows */}
-                {Object.entries(oddsByBookmaker as Record<string, AnyRecord[]>)
+                {Object.entries(oddsByBookmaker as Record<string, Odd[]>)
                   .sort((a, b) => {
                     const nameA = bookmakerNames[a[0]] || '';
                     const nameB = bookmakerNames[b[0]] || '';
@@ -2316,9 +2782,9 @@ function AllBettingMarketsContent({ odds, bookmakers, oddsFormat, formatOddLabel
                     const bookmakerName = bookmakerNames[bmId] || `Bookmaker ${bmId}`;
 
                     // Build a map of normalized label -> odd for this bookmaker
-                    const bmOddsMap: Record<string, AnyRecord> = {};
-                    bmOdds.forEach((odd: AnyRecord) => {
-                      const rawLabel = odd.label || odd.name;
+                    const bmOddsMap: Record<string, Odd> = {};
+                    bmOdds.forEach((odd: Odd) => {
+                      const rawLabel = odd.label || odd.name || '';
                       const normalized = normalizeLabel(rawLabel, mId);
                       bmOddsMap[normalized] = odd;
                     });
@@ -2347,6 +2813,26 @@ function AllBettingMarketsContent({ odds, bookmakers, oddsFormat, formatOddLabel
                       </div>
                     );
                   })}
+
+                {/* Line Movement */}
+                <div className="px-3 py-2 border-t border-gray-700">
+                  <button
+                    onClick={() => toggleMovement(mId)}
+                    className="text-xs text-amber-500 hover:text-amber-400 hover:underline"
+                  >
+                    {movementMarkets.has(mId) ? 'Hide line movement' : 'Show line movement'}
+                  </button>
+                  {movementMarkets.has(mId) && (
+                    <div className="mt-2">
+                      <LineMovementChart
+                        fixtureId={fixtureId}
+                        marketId={mId}
+                        bookmakerNames={bookmakerNames}
+                        formatOddLabel={formatOddLabel}
+                      />
+                    </div>
+                  )}
+                </div>
               </div>
             )}
           </div>
@@ -2377,7 +2863,7 @@ const FixtureDetail = () => {
   const [error, setError] = useState('');
 
   // Odds data
-  const [odds, setOdds] = useState<OddsMarket[]>([]);
+  const [odds, setOdds] = useState<Odd[]>([]);
   const [bookmakers, setBookmakers] = useState<Bookmaker[]>([]);
   const [selectedBookmakerIds, setSelectedBookmakerIds] = useState<number[]>(DEFAULT_BOOKMAKER_IDS);
   const [oddsLoading, setOddsLoading] = useState(false);
@@ -2439,6 +2925,19 @@ const FixtureDetail = () => {
     fetchFixture();
   }, [id]);
 
+  // ============================================
+  // LIVE UPDATES (pushed by the backend)
+  // ============================================
+  // While the match is in play, its score, state and events are
+  // merged into the fixture as they change.
+  const live = useLiveScores();
+  const liveFixture = id ? live.fixtures[Number(id)] : undefined;
+
+  useEffect(() => {
+    if (!liveFixture) return;
+    setFixture(prev => (prev ? mergeLiveFixture(prev, liveFixture) : prev));
+  }, [liveFixture]);
+
   // ============================================
   // BUILD BOOKMAKERS LIST FROM ODDS DATA
   // ============================================
@@ -2451,12 +2950,12 @@ const FixtureDetail = () => {
     if (!odds || odds.length === 0) return;
     
     // For 1X2 market (market_id = 1), find which bookmakers have valid odds
-    const market1Odds = odds.filter((o: AnyRecord) => o.market_id === 1);
+    const market1Odds = odds.filter((o: Odd) => o.market_id === 1);
     
     // Build a map of bookmaker ID -> name from the odds data
     // Each odd object now has a 'bookmaker' property with { id, name, ... }
     const bookmakerMap: Record<string, string> = {};
-    odds.forEach((odd: AnyRecord) => {
+    odds.forEach((odd: Odd) => {
       if (odd.bookmaker_id && !bookmakerMap[odd.bookmaker_id]) {
         // Get name from embedded bookmaker object, or use ID as fallback
         const name = odd.bookmaker?.name || `Bookmaker ${odd.bookmaker_id}`;
@@ -2469,10 +2968,10 @@ const FixtureDetail = () => {
       .map((bmId: string) => {
         const id = parseInt(bmId);
         // Check if this bookmaker has valid 1X2 odds
-        const bmOdds = market1Odds.filter((o: AnyRecord) => o.bookmaker_id === id);
-        const homeOdd = bmOdds.find((o: AnyRecord) => o.label === '1' || o.name?.toLowerCase().includes('home'));
-        const drawOdd = bmOdds.find((o: AnyRecord) => o.label === 'X' || o.name?.toLowerCase().includes('draw'));
-        const awayOdd = bmOdds.find((o: AnyRecord) => o.label === '2' || o.name?.toLowerCase().includes('away'));
+        const bmOdds = market1Odds.filter((o: Odd) => o.bookmaker_id === id);
+        const homeOdd = bmOdds.find((o: Odd) => o.label === '1' || o.name?.toLowerCase().includes('home'));
+        const drawOdd = bmOdds.find((o: Odd) => o.label === 'X' || o.name?.toLowerCase().includes('draw'));
+        const awayOdd = bmOdds.find((o: Odd) => o.label === '2' || o.name?.toLowerCase().includes('away'));
         
         const hasValid1X2 = (
           (homeOdd?.american !== null && homeOdd?.american !== undefined) ||
@@ -2515,8 +3014,8 @@ const FixtureDetail = () => {
   useEffect(() => {
     if (!fixture) return;
 
-    const homeTeam = fixture.participants?.find((p: AnyRecord) => p.meta?.location === 'home');
-    const awayTeam = fixture.participants?.find((p: AnyRecord) => p.meta?.location === 'away');
+    const homeTeam = fixture.participants?.find((p: Participant) => p.meta?.location === 'home');
+    const awayTeam = fixture.participants?.find((p: Participant) => p.meta?.location === 'away');
 
     if (!homeTeam || !awayTeam) return;
 
@@ -2526,8 +3025,8 @@ const FixtureDetail = () => {
         const data = await dataApi.getHeadToHead(homeTeam.id, awayTeam.id);
         // Filter out the current fixture and sort by date (most recent first)
         const filtered = (data.fixtures || [])
-          .filter((f: AnyRecord) => f.id !== Number(id))
-          .sort((a: AnyRecord, b: AnyRecord) => new Date(b.starting_at).getTime() - new Date(a.starting_at).getTime());
+          .filter((f: Fixture) => f.id !== Number(id))
+          .sort((a: Fixture, b: Fixture) => new Date(b.starting_at ?? 0).getTime() - new Date(a.starting_at ?? 0).getTime());
         setH2h(filtered);
       } catch (err) {
         console.error('Failed to fetch H2H:', err);
@@ -2545,8 +3044,8 @@ const FixtureDetail = () => {
   useEffect(() => {
     if (!fixture) return;
 
-    const homeTeam = fixture.participants?.find((p: AnyRecord) => p.meta?.location === 'home');
-    const awayTeam = fixture.participants?.find((p: AnyRecord) => p.meta?.location === 'away');
+    const homeTeam = fixture.participants?.find((p: Participant) => p.meta?.location === 'home');
+    const awayTeam = fixture.participants?.find((p: Participant) => p.meta?.location === 'away');
 
     // Get the season ID from the fixture to filter stats correctly
     const seasonId = fixture.season_id || fixture.season?.id;
@@ -2587,18 +3086,18 @@ const FixtureDetail = () => {
   useEffect(() => {
     if (!fixture) return;
 
-    const homeTeam = fixture.participants?.find((p: AnyRecord) => p.meta?.location === 'home');
-    const awayTeam = fixture.participants?.find((p: AnyRecord) => p.meta?.location === 'away');
+    const homeTeam = fixture.participants?.find((p: Participant) => p.meta?.location === 'home');
+    const awayTeam = fixture.participants?.find((p: Participant) => p.meta?.location === 'away');
 
     if (!homeTeam || !awayTeam) return;
 
     // Helper to calculate form from fixtures
-    const calculateForm = (fixtures: AnyRecord[], teamId: string | number) => {
+    const calculateForm = (fixtures: Fixture[], teamId: string | number) => {
       // DEBUG: Log raw fixtures received
       console.log('[DEBUG Recent Form] Raw fixtures for team', teamId, ':', fixtures.length, 'total');
       console.log('[DEBUG Recent Form] Sample fixture state:', fixtures[0]?.state);
       
-      const finishedMatches = fixtures.filter((f: AnyRecord) => f.state?.state === 'FT');
+      const finishedMatches = fixtures.filter((f: Fixture) => f.state?.state === 'FT');
       console.log('[DEBUG Recent Form] Finished matches (FT):', finishedMatches.length);
       
       if (finishedMatches.length === 0) {
@@ -2607,12 +3106,12 @@ const FixtureDetail = () => {
       }
       
       return finishedMatches
-        .sort((a: AnyRecord, b: AnyRecord) => new Date(b.starting_at).getTime() - new Date(a.starting_at).getTime()) // Most recent first
+        .sort((a: Fixture, b: Fixture) => new Date(b.starting_at ?? 0).getTime() - new Date(a.starting_at ?? 0).getTime()) // Most recent first
         .slice(0, 5) // Last 5
-        .map((f: AnyRecord) => {
-          const isHome = f.participants?.find((p: AnyRecord) => p.id === teamId)?.meta?.location === 'home';
-          const homeScore = f.scores?.find((s: AnyRecord) => s.description === 'CURRENT' && s.score?.participant === 'home')?.score?.goals || 0;
-          const awayScore = f.scores?.find((s: AnyRecord) => s.description === 'CURRENT' && s.score?.participant === 'away')?.score?.goals || 0;
+        .map((f: Fixture) => {
+          const isHome = f.participants?.find((p: Participant) => p.id === teamId)?.meta?.location === 'home';
+          const homeScore = f.scores?.find((s: Score) => s.description === 'CURRENT' && s.score?.participant === 'home')?.score?.goals || 0;
+          const awayScore = f.scores?.find((s: Score) => s.description === 'CURRENT' && s.score?.participant === 'away')?.score?.goals || 0;
           
           const goalsFor = isHome ? homeScore : awayScore;
           const goalsAgainst = isHome ? awayScore : homeScore;
@@ -2622,7 +3121,7 @@ const FixtureDetail = () => {
           else if (goalsFor < goalsAgainst) result = 'L';
           else result = 'D';
           
-          const opponent = f.participants?.find((p: AnyRecord) => p.id !== teamId)?.name || 'Unknown';
+          const opponent = f.participants?.find((p: Participant) => p.id !== teamId)?.name || 'Unknown';
           
           return { result, goalsFor, goalsAgainst, opponent, date: f.starting_at };
         });
@@ -2642,8 +3141,8 @@ const FixtureDetail = () => {
         
         // Filter out the current fixture
         const fixtureId = Number(id);
-        const homeFiltered = (homeFixtures.fixtures || []).filter((f: AnyRecord) => f.id !== fixtureId);
-        const awayFiltered = (awayFixtures.fixtures || []).filter((f: AnyRecord) => f.id !== fixtureId);
+        const homeFiltered = (homeFixtures.fixtures || []).filter((f: Fixture) => f.id !== fixtureId);
+        const awayFiltered = (awayFixtures.fixtures || []).filter((f: Fixture) => f.id !== fixtureId);
         
         setHomeRecentForm(calculateForm(homeFiltered, homeTeam.id));
         setAwayRecentForm(calculateForm(awayFiltered, awayTeam.id));
@@ -2665,8 +3164,8 @@ const FixtureDetail = () => {
   useEffect(() => {
     if (!fixture) return;
 
-    const homeTeam = fixture.participants?.find((p: AnyRecord) => p.meta?.location === 'home');
-    const awayTeam = fixture.participants?.find((p: AnyRecord) => p.meta?.location === 'away');
+    const homeTeam = fixture.participants?.find((p: Participant) => p.meta?.location === 'home');
+    const awayTeam = fixture.participants?.find((p: Participant) => p.meta?.location === 'away');
     const seasonId = fixture.season_id || fixture.season?.id;
 
     // Need both teams and a season to fetch stats
@@ -2702,8 +3201,8 @@ const FixtureDetail = () => {
   useEffect(() => {
     if (!fixture) return;
 
-    const homeTeam = fixture.participants?.find((p: AnyRecord) => p.meta?.location === 'home');
-    const awayTeam = fixture.participants?.find((p: AnyRecord) => p.meta?.location === 'away');
+    const homeTeam = fixture.participants?.find((p: Participant) => p.meta?.location === 'home');
+    const awayTeam = fixture.participants?.find((p: Participant) => p.meta?.location === 'away');
     const seasonId = fixture.season_id || fixture.season?.id;
 
     // Need both teams and a season to fetch corner averages
@@ -2757,20 +3256,20 @@ const FixtureDetail = () => {
   // FILTER ODDS BY SELECTED BOOKMAKERS
   // ============================================
   // Safety check - ensure odds is an array before filtering
-  const safeOdds: AnyRecord[] = Array.isArray(odds) ? odds : [];
+  const safeOdds: Odd[] = Array.isArray(odds) ? odds : [];
   const filteredOdds = safeOdds.filter(
-    (odd: AnyRecord) => selectedBookmakerIds.length === 0 || selectedBookmakerIds.includes(odd.bookmaker_id)
+    (odd: Odd) => selectedBookmakerIds.length === 0 || selectedBookmakerIds.includes(odd.bookmaker_id)
   );
 
   // Group odds by market
-  const oddsByMarket = filteredOdds.reduce((acc: Record<number, AnyRecord[]>, odd: AnyRecord) => {
+  const oddsByMarket = filteredOdds.reduce((acc: Record<number, Odd[]>, odd: Odd) => {
     const marketId = odd.market_id;
     if (!acc[marketId]) {
       acc[marketId] = [];
     }
     acc[marketId].push(odd);
     return acc;
-  }, {} as Record<number, AnyRecord[]>);
+  }, {} as Record<number, Odd[]>);
 
   // ============================================
   // LOADING STATE
@@ -2800,8 +3299,8 @@ const FixtureDetail = () => {
   // ============================================
   // EXTRACT TEAM DATA
   // ============================================
-  const homeTeam = fixture.participants?.find((p: AnyRecord) => p.meta?.location === 'home');
-  const awayTeam = fixture.participants?.find((p: AnyRecord) => p.meta?.location === 'away');
+  const homeTeam = fixture.participants?.find((p: Participant) => p.meta?.location === 'home');
+  const awayTeam = fixture.participants?.find((p: Participant) => p.meta?.location === 'away');
   const homeScore = getScore(fixture, 'home');
   const awayScore = getScore(fixture, 'away');
 
@@ -2830,10 +3329,22 @@ const FixtureDetail = () => {
   // ============================================
   return (
     <div className="space-y-6 max-w-4xl mx-auto">
-      {/* Back link */}
-      <Link to="/fixtures" className="text-amber-500 hover:underline text-sm">
-        ← Back to Fixtures
-      </Link>
+      {/* Back link + follow */}
+      <div className="flex items-center justify-between">
+        <Link to="/fixtures" className="text-amber-500 hover:underline text-sm">
+          ← Back to Fixtures
+        </Link>
+        <WatchButton type="fixture" entityId={fixture.id} label={fixture.name} />
+      </div>
+
+      {/* Live ticker - only while this match is in play */}
+      <LiveTicker
+        fixtures={live.fixtures}
+        inPlayIds={live.inPlayIds}
+        updates={live.updates}
+        connected={live.connected}
+        fixtureId={fixture.id}
+      />
 
       {/* ============================================ */}
       {/* MATCH HEADER */}
@@ -2914,15 +3425,15 @@ const FixtureDetail = () => {
               <div className="flex justify-center">
                 <div className="relative">
                   <span className="absolute -left-7 top-0"><AppIcon name="location" size="sm" /></span>
-                  <span>{fixture.venue.name}{fixture.venue.city ? `, ${fixture.venue.city}` : ''}</span>
+                  <span>{fixture.venue.name}{fixture.venue.city_name ? `, ${fixture.venue.city_name}` : ''}</span>
                 </div>
               </div>
             )}
 
             {/* Formations - no icon, just centered text */}
             {(() => {
-              const formations = getFormationsFromMetadata(fixture.metadata);
-              const lineupsConfirmed = getLineupsConfirmed(fixture.metadata);
+              const formations = getFormationsFromMetadata(fixture.metadata ?? null);
+              const lineupsConfirmed = getLineupsConfirmed(fixture.metadata ?? null);
               if (!formations || (!formations.home && !formations.away)) return null;
 
               return (
@@ -2941,7 +3452,7 @@ const FixtureDetail = () => {
 
             {/* Attendance - icon absolutely positioned left of centered text */}
             {(() => {
-              const attendance = getAttendanceFromMetadata(fixture.metadata);
+              const attendance = getAttendanceFromMetadata(fixture.metadata ?? null);
               if (!attendance) return null;
 
               return (
@@ -2956,7 +3467,7 @@ const FixtureDetail = () => {
 
             {/* Weather - text centered, icon centered below */}
             {(() => {
-              const weather = getWeatherDisplay(fixture.weatherreport, temperatureUnit);
+              const weather = getWeatherDisplay(fixture.weatherreport ?? null, temperatureUnit);
               if (!weather) return null;
 
               return (
@@ -2985,11 +3496,16 @@ const FixtureDetail = () => {
         </div>
       </div>
 
+      {/* ============================================ */}
+      {/* MATCH ALERTS - not once the match is over */}
+      {/* ============================================ */}
+      {!isFinished && <AlertsPanel fixtureId={fixture.id} />}
+
       {/* ============================================ */}
       {/* AI PREDICTIONS SECTION - UPCOMING ONLY */}
       {/* ============================================ */}
       {/* Most important section for betting research - placed right after match header */}
-      {isUpcoming && (
+      {isUpcoming && homeTeam && awayTeam && (
         <MatchPredictions 
           fixtureId={id || ''}
           homeTeam={homeTeam}
@@ -2997,6 +3513,14 @@ const FixtureDetail = () => {
         />
       )}
 
+      {/* Rating-implied probabilities (Elo) - upcoming only */}
+      {isUpcoming && homeTeam && awayTeam && (
+        <EloMatchupSection homeTeam={homeTeam} awayTeam={awayTeam} />
+      )}
+
+      {/* Referee tendencies (card markets) - once the officials are announced */}
+      <RefereeSection fixture={fixture} />
+
       {/* ============================================ */}
       {/* ODDS SECTION - UPCOMING ONLY */}
       {/* ============================================ */}
@@ -3054,13 +3578,13 @@ const FixtureDetail = () => {
                 <h3 className="text-sm font-medium text-gray-400 mb-2">Match Result (1X2)</h3>
                 <div className="space-y-2">
                   {/* Group by bookmaker - filter out bookmakers with no valid odds */}
-                  {Array.from(new Set(oddsByMarket[1].map((o: AnyRecord) => o.bookmaker_id)))
+                  {Array.from(new Set(oddsByMarket[1].map((o: Odd) => o.bookmaker_id)))
                     .filter((bmId: string | number) => {
                       // Only include bookmakers that have at least one valid odd value
-                      const bmOdds = oddsByMarket[1].filter((o: AnyRecord) => o.bookmaker_id === bmId);
-                      const homeOdd = bmOdds.find((o: AnyRecord) => o.label === '1' || o.name?.toLowerCase().includes('home'));
-                      const drawOdd = bmOdds.find((o: AnyRecord) => o.label === 'X' || o.name?.toLowerCase().includes('draw'));
-                      const awayOdd = bmOdds.find((o: AnyRecord) => o.label === '2' || o.name?.toLowerCase().includes('away'));
+                      const bmOdds = oddsByMarket[1].filter((o: Odd) => o.bookmaker_id === bmId);
+                      const homeOdd = bmOdds.find((o: Odd) => o.label === '1' || o.name?.toLowerCase().includes('home'));
+                      const drawOdd = bmOdds.find((o: Odd) => o.label === 'X' || o.name?.toLowerCase().includes('draw'));
+                      const awayOdd = bmOdds.find((o: Odd) => o.label === '2' || o.name?.toLowerCase().includes('away'));
                       
                       return (
                         (homeOdd?.american !== null && homeOdd?.american !== undefined) ||
@@ -3069,13 +3593,13 @@ const FixtureDetail = () => {
                       );
                     })
                     .map((bmId: string | number) => {
-                    const bmOdds = oddsByMarket[1].filter((o: AnyRecord) => o.bookmaker_id === bmId);
-                    const bm = bookmakers.find((b: AnyRecord) => b.id === bmId);
+                    const bmOdds = oddsByMarket[1].filter((o: Odd) => o.bookmaker_id === bmId);
+                    const bm = bookmakers.find((b: Bookmaker) => b.id === bmId);
                     
                     // Find home, draw, away odds
-                    const homeOdd = bmOdds.find((o: AnyRecord) => o.label === '1' || o.name?.toLowerCase().includes('home'));
-                    const drawOdd = bmOdds.find((o: AnyRecord) => o.label === 'X' || o.name?.toLowerCase().includes('draw'));
-                    const awayOdd = bmOdds.find((o: AnyRecord) => o.label === '2' || o.name?.toLowerCase().includes('away'));
+                    const homeOdd = bmOdds.find((o: Odd) => o.label === '1' || o.name?.toLowerCase().includes('home'));
+                    const drawOdd = bmOdds.find((o: Odd) => o.label === 'X' || o.name?.toLowerCase().includes('draw'));
+                    const awayOdd = bmOdds.find((o: Odd) => o.label === '2' || o.name?.toLowerCase().includes('away'));
 
                     return (
                       <div key={bmId} className="flex items-center justify-between bg-gray-700 rounded-lg p-3">
@@ -3153,7 +3677,7 @@ const FixtureDetail = () => {
               // Group statistics by type_id
               const statsByType: Record<string, AnyRecord> = {};
 
-              fixture.statistics.forEach((stat: AnyRecord) => {
+              fixture.statistics.forEach((stat: Statistic) => {
                 const typeId = stat.type_id;
                 if (!typeId) return;
 
@@ -3166,7 +3690,7 @@ const FixtureDetail = () => {
                   };
                 }
 
-                let value = stat.data;
+                let value: AnyRecord | string | number | null = stat.data;
                 if (typeof value === 'object' && value !== null) {
                   value = value.value ?? value.count ?? value.total ?? value;
                 }
@@ -3307,9 +3831,16 @@ const FixtureDetail = () => {
       <div className="space-y-3">
         {/* Detailed Odds - UPCOMING ONLY */}
         {/* This section uses ALL odds (ignoring main filter) and groups by bookmaker */}
+        {isUpcoming && (
+        <AccordionSection title="Best Lines" icon="trophy">
+          <BestLinesContent fixtureId={id!} oddsFormat={oddsFormat} />
+        </AccordionSection>
+        )}
+
         {isUpcoming && (
         <AccordionSection title="All Betting Markets" icon="stats">
           <AllBettingMarketsContent
+            fixtureId={id}
             odds={safeOdds}
             bookmakers={bookmakers}
             oddsFormat={oddsFormat}
@@ -3343,8 +3874,8 @@ const FixtureDetail = () => {
           <AccordionSection title="Match Events" icon="soccer-ball" defaultOpen={isFinished || isLive}>
             <div className="space-y-2">
               {fixture.events
-                .sort((a: AnyRecord, b: AnyRecord) => (a.minute || 0) - (b.minute || 0))
-                .map((event: AnyRecord, idx: number) => {
+                .sort((a: FixtureEvent, b: FixtureEvent) => (a.minute || 0) - (b.minute || 0))
+                .map((event: FixtureEvent, idx: number) => {
                   // ============================================
                   // GET EVENT ICON BASED ON TYPE
                   // ============================================
@@ -3421,7 +3952,7 @@ const FixtureDetail = () => {
                 // Each stat comes as a separate entry per team with location: "home" or "away"
                 const statsByType: Record<string, AnyRecord> = {};
                 
-                fixture.statistics.forEach((stat: AnyRecord) => {
+                fixture.statistics.forEach((stat: Statistic) => {
                   const typeId = stat.type_id;
                   if (!typeId) return;
                   
@@ -3438,7 +3969,7 @@ const FixtureDetail = () => {
                   
                   // Extract the actual value from data
                   // data could be: { value: 5 }, or just a number, or an object
-                  let value = stat.data;
+                  let value: AnyRecord | string | number | null = stat.data;
                   if (typeof value === 'object' && value !== null) {
                     // Try common patterns
                     value = value.value ?? value.count ?? value.total ?? value;
@@ -3514,8 +4045,8 @@ const FixtureDetail = () => {
           contextId={id || ''}
           contextLabel={fixtureName || ''}
           additionalLinks={[
-            { contextType: 'team', contextId: homeTeam.id, label: homeTeam.name },
-            { contextType: 'team', contextId: awayTeam.id, label: awayTeam.name }
+            { contextType: 'team', contextId: String(homeTeam.id), label: homeTeam.name },
+            { contextType: 'team', contextId: String(awayTeam.id), label: awayTeam.name }
           ]}
           onNoteAdded={() => {
             console.log('Note added successfully');
@@ -12,6 +12,8 @@ import { Link } from 'react-router-dom';
 import { dataApi } from '../api/client';
 import { useAuth } from '../context/AuthContext';
 import AppIcon from '../components/AppIcon';
+import LiveTicker from '../components/LiveTicker';
+import { useLiveScores, mergeLiveFixture } from '../hooks/useLiveScores';
 import {
   formatTime as formatTimeUtil,
   formatDateOnly,
@@ -1927,6 +1929,15 @@ const Fixtures = () => {
   const [searchLastUpdated, setSearchLastUpdated] = useState<Date | null>(null);
   const [searchTimeAgoText, setSearchTimeAgoText] = useState('');
 
+  // ============================================
+  // LIVE UPDATES (pushed by the backend)
+  // ============================================
+  // Scores and states of matches in play are merged into both views
+  // as they change, without refreshing.
+  const live = useLiveScores();
+  const withLiveData = (list: Fixture[]) =>
+    list.map(fixture => mergeLiveFixture(fixture, live.fixtures[fixture.id]));
+
   // ============================================
   // FETCH DEFAULT FIXTURES (reusable for refresh)
   // ============================================
@@ -2214,6 +2225,13 @@ const Fixtures = () => {
         </p>
       </div>
 
+      <LiveTicker
+        fixtures={live.fixtures}
+        inPlayIds={live.inPlayIds}
+        updates={live.updates}
+        connected={live.connected}
+      />
+
       <SearchPanel 
         onSearchResults={handleSearchResults}
         onClearSearch={handleClearSearch}
@@ -2222,7 +2240,7 @@ const Fixtures = () => {
 
       {searchResults ? (
         <SearchResults
-          searchData={searchResults}
+          searchData={{ ...searchResults, fixtures: withLiveData(searchResults.fixtures) }}
           onClear={handleClearSearch}
           loading={searchLoading}
           timeAgoText={searchTimeAgoText}
@@ -2233,7 +2251,7 @@ const Fixtures = () => {
         />
       ) : (
         <DefaultFixtures
-          fixtures={fixtures}
+          fixtures={withLiveData(fixtures)}
           loading={loading}
           error={error}
           dateRange={dateRange}
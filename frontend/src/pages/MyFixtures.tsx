@@ -0,0 +1,224 @@
+// ============================================
+// MY FIXTURES PAGE
+// ============================================
+// Upcoming matches for everything the user follows: their teams'
+// fixtures, every fixture in their leagues and the individual fixtures
+// they starred. Each match says why it's on the list.
+//
+// The watchlist itself is listed underneath so entries can be removed.
+// ============================================
+
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import { useWatchlist } from '../context/WatchlistContext';
+import type { WatchlistType } from '../context/WatchlistContext';
+import { watchlistApi } from '../api/client';
+import { formatShortDate, formatTime } from '../utils/formatters';
+import AppIcon from '../components/AppIcon';
+
+type WatchReason = {
+  type: WatchlistType;
+  entityId: number;
+  label: string | null;
+};
+
+type WatchedFixture = {
+  id: number;
+  name?: string;
+  starting_at?: string | null;
+  league?: { name?: string } | null;
+  state?: { short_name?: string } | null;
+  watchedBecause: WatchReason[];
+};
+
+const getErrorMessage = (err: unknown, fallback: string) =>
+  err instanceof Error ? err.message : fallback;
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const RANGES = [
+  { days: 3, label: 'Next 3 days' },
+  { days: 7, label: 'Next 7 days' },
+  { days: 14, label: 'Next 14 days' },
+  { days: 30, label: 'Next 30 days' },
+];
+
+const TYPE_ICONS: Record<WatchlistType, string> = {
+  team: 'team',
+  league: 'trophy',
+  fixture: 'calendar',
+};
+
+// ============================================
+// HELPERS
+// ============================================
+
+// "2026-01-25" offset by a number of days from today
+const dateFromToday = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const describeReason = (reason: WatchReason) =>
+  reason.label || `${reason.type} ${reason.entityId}`;
+
+// Where a watchlist entry links to
+const entryLink = (type: WatchlistType, entityId: number) =>
+  type === 'team' ? `/teams/${entityId}` : type === 'fixture' ? `/fixtures/${entityId}` : '/competitions';
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+
+const MyFixtures = () => {
+  const { user, token } = useAuth();
+  const { items, toggle } = useWatchlist();
+  const timezone = user?.timezone || 'America/New_York';
+  const dateFormat = (user?.dateFormat || 'US') as 'US' | 'EU';
+
+  const [days, setDays] = useState(7);
+  const [fixtures, setFixtures] = useState<WatchedFixture[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  // ============================================
+  // FETCH FEED
+  // ============================================
+  // Refetched when the range or the watchlist changes
+  useEffect(() => {
+    if (!token) return;
+
+    const fetchFixtures = async () => {
+      try {
+        setLoading(true);
+        setError('');
+        const data = await watchlistApi.getFixtures(dateFromToday(0), dateFromToday(days), token);
+        setFixtures(data.fixtures || []);
+      } catch (err) {
+        console.error('Failed to fetch my fixtures:', err);
+        setError(getErrorMessage(err, 'Failed to load your fixtures'));
+        setFixtures([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchFixtures();
+  }, [days, items.length, token]);
+
+  // ============================================
+  // RENDER
+  // ============================================
+  return (
+    <div className="space-y-6">
+      {/* ============================================ */}
+      {/* HEADER */}
+      {/* ============================================ */}
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-white flex items-center">
+            <AppIcon name="star" size="lg" className="mr-2 text-amber-500" />
+            My Fixtures
+          </h1>
+          <p className="text-gray-400 text-sm mt-1">
+            Upcoming matches for the teams, leagues and fixtures you follow
+          </p>
+        </div>
+        <select
+          value={days}
+          onChange={(e) => setDays(Number(e.target.value))}
+          className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-amber-500"
+        >
+          {RANGES.map(range => (
+            <option key={range.days} value={range.days}>{range.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="bg-red-900/30 text-red-400 p-4 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {/* ============================================ */}
+      {/* FIXTURES */}
+      {/* ============================================ */}
+      {loading ? (
+        <div className="text-center py-12 text-gray-400">
+          <div className="inline-block w-8 h-8 border-4 border-amber-500 border-t-transparent rounded-full animate-spin mb-4" />
+          <p>Loading your fixtures...</p>
+        </div>
+      ) : !error && fixtures.length === 0 ? (
+        <div className="bg-gray-800 rounded-lg p-8 text-center text-gray-400">
+          {items.length === 0
+            ? 'You are not following anything yet. Use the Follow button on a team, competition or fixture.'
+            : 'No matches in this range for what you follow.'}
+        </div>
+      ) : (
+        <div className="bg-gray-800 rounded-lg divide-y divide-gray-700/50">
+          {fixtures.map(fixture => (
+            <Link
+              key={fixture.id}
+              to={`/fixtures/${fixture.id}`}
+              className="flex flex-wrap items-center justify-between gap-2 px-4 py-3 hover:bg-gray-700/30"
+            >
+              <div>
+                <div className="text-white">{fixture.name}</div>
+                <div className="text-xs text-gray-500">
+                  {fixture.league?.name && `${fixture.league.name} · `}
+                  {formatShortDate(fixture.starting_at, timezone, dateFormat)} {formatTime(fixture.starting_at, timezone)}
+                  {fixture.state?.short_name && ` · ${fixture.state.short_name}`}
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {fixture.watchedBecause.map(reason => (
+                  <span
+                    key={`${reason.type}:${reason.entityId}`}
+                    className="inline-flex items-center gap-1 text-xs bg-gray-700 text-gray-300 px-2 py-0.5 rounded"
+                  >
+                    <AppIcon name={TYPE_ICONS[reason.type]} size="xs" className="text-amber-400" />
+                    {describeReason(reason)}
+                  </span>
+                ))}
+              </div>
+            </Link>
+          ))}
+        </div>
+      )}
+
+      {/* ============================================ */}
+      {/* FOLLOWING */}
+      {/* ============================================ */}
+      {items.length > 0 && (
+        <div className="bg-gray-800 rounded-lg p-4">
+          <h2 className="text-sm font-semibold text-gray-300 uppercase tracking-wide mb-3">Following</h2>
+          <div className="flex flex-wrap gap-2">
+            {items.map(item => (
+              <span key={item.id} className="inline-flex items-center gap-2 bg-gray-700 rounded px-3 py-1 text-sm">
+                <AppIcon name={TYPE_ICONS[item.entityType]} size="xs" className="text-amber-400" />
+                <Link to={entryLink(item.entityType, item.entityId)} className="text-white hover:text-amber-400">
+                  {describeReason({ type: item.entityType, entityId: item.entityId, label: item.label })}
+                </Link>
+                <button
+                  type="button"
+                  onClick={() => toggle(item.entityType, item.entityId)}
+                  title="Unfollow"
+                  className="text-gray-400 hover:text-red-400"
+                >
+                  <AppIcon name="close" size="xs" />
+                </button>
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MyFixtures;
@@ -2,7 +2,8 @@
 // NOTES PAGE
 // ============================================
 // Full notes management with:
-// - Search (searches title, content, and link labels)
+// - Search (server-side full-text search over title, content and link
+//   labels, ranked, with highlighted snippets and date filters)
 // - Filter by link type
 // - Create new notes
 // - Edit existing notes
@@ -10,7 +11,7 @@
 // ============================================
 
 import type { FormEvent, KeyboardEvent, ReactNode } from 'react';
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useCallback } from 'react';
 import { Link } from 'react-router-dom';
 import { DragDropContext, Droppable, Draggable } from '@hello-pangea/dnd';
 import { useAuth } from '../context/AuthContext';
@@ -36,6 +37,14 @@ type Note = {
   links?: NoteLink[];
 };
 
+// A search hit: the note plus its rank and highlighted title/snippet
+// (matches wrapped in <mark></mark>)
+type SearchResult = Note & {
+  rank: number;
+  titleHighlight: string;
+  snippet: string;
+};
+
 type NotePayload = {
   title: string;
   content: string;
@@ -73,6 +82,7 @@ const getErrorMessage = (err: unknown, fallback: string) =>
 // CONSTANTS
 // ============================================
 const MAX_LINKS = 6;  // Maximum links per note (1 primary + up to 5 secondary)
+const SEARCH_PAGE_SIZE = 20;  // Search results per page ("Load more" fetches the next)
 
 const CONTEXT_TYPES = [
   { value: 'all', label: 'All Types', iconName: 'note' },
@@ -105,6 +115,25 @@ const formatDate = (dateString: string) => {
   });
 };
 
+// ============================================
+// HIGHLIGHTED TEXT COMPONENT
+// ============================================
+// Renders a search headline: the <mark></mark> tags from the server
+// become highlighted spans, everything else is plain (escaped) text.
+const HighlightedText = ({ text }: { text: string }) => (
+  <>
+    {text.split(/(<mark>.*?<\/mark>)/g).map((part, index) =>
+      part.startsWith('<mark>') ? (
+        <mark key={index} className="bg-amber-500/30 text-amber-200 rounded px-0.5">
+          {part.slice(6, -7)}
+        </mark>
+      ) : (
+        part
+      )
+    )}
+  </>
+);
+
 // ============================================
 // TEAM SEARCH INPUT COMPONENT
 // ============================================
@@ -1302,10 +1331,12 @@ const NoteCard = ({
   onEdit,
   onDelete
 }: {
-  note: Note;
+  note: Note | SearchResult;
   onEdit: (note: Note) => void;
   onDelete: (note: Note) => void;
 }) => {
+  // Search hits show the highlighted title and snippet instead
+  const hit = 'snippet' in note ? note : null;
   const primaryLink = note.links?.find(l => l.isPrimary) || note.links?.[0];
   const otherLinks = note.links?.filter(l => l !== primaryLink) || [];
   
@@ -1319,7 +1350,7 @@ const NoteCard = ({
             to={`/notes/${note.id}`}
             className="text-lg font-semibold text-gray-100 hover:text-amber-500 line-clamp-1"
           >
-            {note.title}
+            {hit ? <HighlightedText text={hit.titleHighlight} /> : note.title}
           </Link>
           
           {/* Date */}
@@ -1331,7 +1362,11 @@ const NoteCard = ({
           </p>
           
           {/* Content preview */}
-          {note.content && (
+          {hit ? (
+            <p className="text-gray-400 mt-2 text-sm line-clamp-3">
+              <HighlightedText text={hit.snippet} />
+            </p>
+          ) : note.content && (
             <p className="text-gray-400 mt-2 text-sm line-clamp-2">
               {note.content}
             </p>
@@ -1386,6 +1421,13 @@ const Notes = () => {
   // Search and filter state
   const [searchQuery, setSearchQuery] = useState('');
   const [filterType, setFilterType] = useState('all');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+
+  // Server search results (null when not searching)
+  const [searchResults, setSearchResults] = useState<SearchResult[] | null>(null);
+  const [searchTotal, setSearchTotal] = useState(0);
+  const [searching, setSearching] = useState(false);
   
   // Modal state
   const [showCreate, setShowCreate] = useState(false);
@@ -1420,7 +1462,7 @@ const Notes = () => {
   };
 
   // ============================================
-  // FILTERED NOTES (with search and type filter)
+  // FILTERED NOTES (type filter, when not searching)
   // ============================================
   const filteredNotes = useMemo(() => {
     let result = notes;
@@ -1432,23 +1474,6 @@ const Notes = () => {
       );
     }
     
-    // Filter by search query
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase();
-      result = result.filter(note => {
-        // Search in title
-        if (note.title?.toLowerCase().includes(query)) return true;
-        // Search in content
-        if (note.content?.toLowerCase().includes(query)) return true;
-        // Search in link labels (contextId)
-        if (note.links?.some(link => 
-          link.contextId?.toLowerCase().includes(query) ||
-          link.contextType?.toLowerCase().includes(query)
-        )) return true;
-        return false;
-      });
-    }
-    
     // Sort by primary link first when filtering by type
     // Notes where the filtered type is PRIMARY come first,
     // then notes where it's a secondary link.
@@ -1474,7 +1499,50 @@ const Notes = () => {
     }
     
     return result;
-  }, [notes, filterType, searchQuery]);
+  }, [notes, filterType]);
+
+  // ============================================
+  // SEARCH (server-side, debounced)
+  // ============================================
+  // Re-run whenever the query, type filter or dates change.
+  const searchTerm = searchQuery.trim();
+
+  const runSearch = useCallback(async (offset: number) => {
+    if (!token) return;
+
+    setSearching(true);
+    setError('');
+    try {
+      const data = await notesApi.search({
+        q: searchTerm,
+        contextType: filterType !== 'all' ? filterType : undefined,
+        startDate: startDate || undefined,
+        endDate: endDate || undefined,
+        limit: SEARCH_PAGE_SIZE,
+        offset,
+      }, token);
+      setSearchResults(prev => (offset === 0 || !prev ? data.notes : [...prev, ...data.notes]));
+      setSearchTotal(data.total);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Search failed'));
+    } finally {
+      setSearching(false);
+    }
+  }, [searchTerm, filterType, startDate, endDate, token]);
+
+  useEffect(() => {
+    if (!searchTerm) {
+      setSearchResults(null);
+      setSearchTotal(0);
+      return;
+    }
+
+    const timer = setTimeout(() => runSearch(0), 300); // 300ms debounce
+    return () => clearTimeout(timer);
+  }, [searchTerm, runSearch]);
+
+  // What the list shows: search hits, or the type-filtered notes
+  const visibleNotes: (Note | SearchResult)[] = searchResults ?? filteredNotes;
 
   // ============================================
   // LINK TYPE COUNTS (for filter badges)
@@ -1531,6 +1599,7 @@ const Notes = () => {
       await notesApi.update(editingNote.id, noteData, token);
       setEditingNote(null);
       fetchNotes();
+      if (searchTerm) runSearch(0);
     } catch (err) {
       setError(getErrorMessage(err, 'Failed to update note'));
     } finally {
@@ -1549,6 +1618,10 @@ const Notes = () => {
 
       await notesApi.delete(note.id, token);
       setNotes(notes.filter(n => n.id !== note.id));
+      if (searchResults) {
+        setSearchResults(searchResults.filter(n => n.id !== note.id));
+        setSearchTotal(searchTotal - 1);
+      }
     } catch (err) {
       setError(getErrorMessage(err, 'Failed to delete note'));
     }
@@ -1591,7 +1664,7 @@ const Notes = () => {
             type="text"
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
-            placeholder="Search notes by title, content, or links..."
+            placeholder='Search notes by title, content, or links... ("exact phrase", -exclude)'
             className="w-full pl-10 pr-4 py-2 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-500"
           />
           {searchQuery && (
@@ -1604,6 +1677,42 @@ const Notes = () => {
           )}
         </div>
         
+        {/* Date range (search only - when the note was created) */}
+        {searchTerm && (
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-400">
+            <span>Written</span>
+            <label className="flex items-center gap-1">
+              from
+              <input
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="px-2 py-1 bg-gray-700 border border-gray-600 rounded text-gray-100"
+              />
+            </label>
+            <label className="flex items-center gap-1">
+              to
+              <input
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                className="px-2 py-1 bg-gray-700 border border-gray-600 rounded text-gray-100"
+              />
+            </label>
+            {(startDate || endDate) && (
+              <button
+                onClick={() => {
+                  setStartDate('');
+                  setEndDate('');
+                }}
+                className="text-amber-500 hover:text-amber-400"
+              >
+                Any time
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Type filter buttons */}
         <div className="flex flex-wrap gap-2">
           {CONTEXT_TYPES.map(type => (
@@ -1644,11 +1753,11 @@ const Notes = () => {
       {/* ============================================ */}
       {/* NOTES LIST */}
       {/* ============================================ */}
-      {loading ? (
+      {loading || (searchTerm && searchResults === null) ? (
         <div className="text-center py-12 text-gray-400">
-          Loading notes...
+          {loading ? 'Loading notes...' : 'Searching...'}
         </div>
-      ) : filteredNotes.length === 0 ? (
+      ) : visibleNotes.length === 0 ? (
         <div className="text-center py-12 bg-gray-800 rounded-lg shadow-md">
           {searchQuery || filterType !== 'all' ? (
             <>
@@ -1660,6 +1769,8 @@ const Notes = () => {
                 onClick={() => {
                   setSearchQuery('');
                   setFilterType('all');
+                  setStartDate('');
+                  setEndDate('');
                 }}
                 className="mt-4 text-amber-500 hover:text-amber-400"
               >
@@ -1684,14 +1795,18 @@ const Notes = () => {
       ) : (
         <div className="space-y-4">
           {/* Results count */}
-          {(searchQuery || filterType !== 'all') && (
+          {searchResults ? (
+            <p className="text-sm text-gray-400">
+              {searchTotal} {searchTotal === 1 ? 'match' : 'matches'}, best first
+            </p>
+          ) : filterType !== 'all' && (
             <p className="text-sm text-gray-400">
               Showing {filteredNotes.length} of {notes.length} notes
             </p>
           )}
           
           {/* Note cards */}
-          {filteredNotes.map((note) => (
+          {visibleNotes.map((note) => (
             <NoteCard
               key={note.id}
               note={note}
@@ -1699,6 +1814,19 @@ const Notes = () => {
               onDelete={handleDelete}
             />
           ))}
+
+          {/* More search results */}
+          {searchResults && searchResults.length < searchTotal && (
+            <div className="text-center">
+              <button
+                onClick={() => runSearch(searchResults.length)}
+                disabled={searching}
+                className="px-4 py-2 rounded bg-gray-700 text-gray-200 hover:bg-gray-600 disabled:opacity-50 text-sm"
+              >
+                {searching ? 'Loading...' : 'Load more'}
+              </button>
+            </div>
+          )}
         </div>
       )}
 
@@ -0,0 +1,230 @@
+// ============================================
+// NOTIFICATIONS PAGE
+// ============================================
+// The full in-app inbox: every notification newest first, with an
+// unread filter, mark read / mark all read and delete. Match alerts
+// delivered in-app land here (set them up on a fixture or team page).
+//
+// Changes go through NotificationsContext so the navbar count stays
+// in step.
+// ============================================
+
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import { useNotifications } from '../context/NotificationsContext';
+import type { Notification } from '../context/NotificationsContext';
+import { notificationsApi } from '../api/client';
+import { formatTimeAgo } from '../utils/formatters';
+import AppIcon from '../components/AppIcon';
+
+const getErrorMessage = (err: unknown, fallback: string) =>
+  err instanceof Error ? err.message : fallback;
+
+// Notifications per page ("Load more" fetches the next page)
+const PAGE_SIZE = 20;
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+
+const Notifications = () => {
+  const { user, token } = useAuth();
+  const { unreadCount, markRead, markAllRead, remove } = useNotifications();
+  const dateFormat = (user?.dateFormat || 'US') as 'US' | 'EU';
+
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  // ============================================
+  // FETCH
+  // ============================================
+  const fetchPage = useCallback(async (offset: number) => {
+    if (!token) return;
+
+    try {
+      setLoading(true);
+      setError('');
+      const data = await notificationsApi.getAll({ unread: unreadOnly, limit: PAGE_SIZE, offset }, token);
+      setNotifications(prev => (offset === 0 ? data.notifications : [...prev, ...data.notifications]));
+      setTotal(data.total);
+    } catch (err) {
+      console.error('Failed to fetch notifications:', err);
+      setError(getErrorMessage(err, 'Failed to load notifications'));
+    } finally {
+      setLoading(false);
+    }
+  }, [unreadOnly, token]);
+
+  // Start over when the filter changes
+  useEffect(() => {
+    fetchPage(0);
+  }, [fetchPage]);
+
+  // ============================================
+  // HANDLERS
+  // ============================================
+  const handleMarkRead = async (notification: Notification) => {
+    try {
+      await markRead(notification.id);
+      const readAt = new Date().toISOString();
+      setNotifications(prev => prev.map(item => (item.id === notification.id ? { ...item, readAt } : item)));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to mark notification read'));
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await markAllRead();
+      if (unreadOnly) {
+        setNotifications([]);
+        setTotal(0);
+      } else {
+        const readAt = new Date().toISOString();
+        setNotifications(prev => prev.map(item => (item.readAt ? item : { ...item, readAt })));
+      }
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to mark notifications read'));
+    }
+  };
+
+  const handleDelete = async (notification: Notification) => {
+    try {
+      await remove(notification.id);
+      setNotifications(prev => prev.filter(item => item.id !== notification.id));
+      setTotal(prev => prev - 1);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to delete notification'));
+    }
+  };
+
+  // ============================================
+  // RENDER
+  // ============================================
+  return (
+    <div className="space-y-6 max-w-3xl mx-auto">
+      {/* ============================================ */}
+      {/* HEADER */}
+      {/* ============================================ */}
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-white flex items-center">
+            <AppIcon name="bell" size="lg" className="mr-2 text-amber-500" />
+            Notifications
+          </h1>
+          <p className="text-gray-400 text-sm mt-1">
+            {unreadCount > 0 ? `${unreadCount} unread` : 'All caught up'}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={unreadOnly}
+              onChange={(e) => setUnreadOnly(e.target.checked)}
+            />
+            Unread only
+          </label>
+          <button
+            type="button"
+            onClick={handleMarkAllRead}
+            disabled={unreadCount === 0}
+            className="px-3 py-1.5 rounded text-sm bg-gray-700 text-gray-200 hover:bg-gray-600 disabled:opacity-50"
+          >
+            Mark all read
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-900/30 text-red-400 p-4 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {/* ============================================ */}
+      {/* LIST */}
+      {/* ============================================ */}
+      {loading && notifications.length === 0 ? (
+        <div className="text-center py-12 text-gray-400">
+          <div className="inline-block w-8 h-8 border-4 border-amber-500 border-t-transparent rounded-full animate-spin mb-4" />
+          <p>Loading notifications...</p>
+        </div>
+      ) : !error && notifications.length === 0 ? (
+        <div className="bg-gray-800 rounded-lg p-8 text-center text-gray-400">
+          {unreadOnly
+            ? 'No unread notifications.'
+            : 'No notifications yet. Set up match alerts on a fixture or team page.'}
+        </div>
+      ) : (
+        <div className="bg-gray-800 rounded-lg divide-y divide-gray-700/50">
+          {notifications.map(notification => (
+            <div key={notification.id} className="flex items-start justify-between gap-3 px-4 py-3">
+              <div className="flex items-start gap-2">
+                <span
+                  className={`mt-2 w-2 h-2 rounded-full flex-shrink-0 ${notification.readAt ? 'bg-transparent' : 'bg-amber-500'}`}
+                />
+                <div>
+                  {notification.link ? (
+                    <Link
+                      to={notification.link}
+                      onClick={() => !notification.readAt && handleMarkRead(notification)}
+                      className={`font-medium hover:text-amber-400 ${notification.readAt ? 'text-gray-300' : 'text-white'}`}
+                    >
+                      {notification.title}
+                    </Link>
+                  ) : (
+                    <div className={`font-medium ${notification.readAt ? 'text-gray-300' : 'text-white'}`}>
+                      {notification.title}
+                    </div>
+                  )}
+                  <div className="text-sm text-gray-400">{notification.message}</div>
+                  <div className="text-xs text-gray-500 mt-0.5">{formatTimeAgo(notification.createdAt, dateFormat)}</div>
+                </div>
+              </div>
+              <div className="flex items-center gap-3 flex-shrink-0">
+                {!notification.readAt && (
+                  <button
+                    type="button"
+                    onClick={() => handleMarkRead(notification)}
+                    title="Mark as read"
+                    className="text-gray-400 hover:text-amber-400"
+                  >
+                    <AppIcon name="check" size="sm" className="text-current" />
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => handleDelete(notification)}
+                  title="Delete"
+                  className="text-gray-400 hover:text-red-400"
+                >
+                  <AppIcon name="delete" size="sm" className="text-current" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {notifications.length < total && (
+        <div className="text-center">
+          <button
+            type="button"
+            onClick={() => fetchPage(notifications.length)}
+            disabled={loading}
+            className="px-4 py-2 rounded bg-gray-700 text-gray-200 hover:bg-gray-600 disabled:opacity-50 text-sm"
+          >
+            {loading ? 'Loading...' : 'Load more'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Notifications;
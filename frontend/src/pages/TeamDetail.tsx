@@ -4,6 +4,7 @@
 // Shows team information including:
 // - Basic team info (name, logo, venue)
 // - Coach/Manager information
+// - Elo rating over time
 // - Home/Away Performance breakdown (all competitions)
 // - Win/Draw/Loss Distribution bars (Premier League only)
 // - Half & Timing Analysis (goals by half, comebacks, injury time)
@@ -20,6 +21,10 @@ import { useAuth } from '../context/AuthContext';
 import SquadRoster from '../components/SquadRoster';
 import FloatingNoteWidget from '../components/FloatingNoteWidget';
 import AppIcon from '../components/AppIcon';
+import LineChart from '../components/LineChart';
+import WatchButton from '../components/WatchButton';
+import AlertsPanel from '../components/AlertsPanel';
+import type { Participant, Season } from '@shared/sportsmonks';
 
 const getErrorMessage = (err: unknown, fallback: string) =>
   err instanceof Error ? err.message : fallback;
@@ -72,6 +77,100 @@ const MINUTE_RANGES = [
   { key: '75-90', label: '75-90 min' }
 ];
 
+// ============================================
+// ELO RATING COMPONENT
+// ============================================
+// Shows the team's current Elo rating and its history as a line chart.
+// Ratings are calculated server-side from league results (see /ratings).
+
+function EloRatingSection({ teamId }: { teamId: string | number }) {
+  const [rating, setRating] = useState<AnyRecord | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const fetchRating = async () => {
+      try {
+        setLoading(true);
+        setError('');
+        const data = await dataApi.getTeamRating(teamId);
+        setRating(data);
+      } catch (err: unknown) {
+        setRating(null);
+        setError(getErrorMessage(err, 'Failed to load rating'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (teamId) {
+      fetchRating();
+    }
+  }, [teamId]);
+
+  const history: AnyRecord[] = rating?.history || [];
+
+  // Net change over the last 5 rated matches
+  const recentChange = history.slice(-5).reduce((sum, h) => sum + h.change, 0);
+
+  return (
+    <div className="bg-gray-800 rounded-lg shadow-md p-6">
+      <h2 className="text-xl font-semibold text-gray-100 mb-4 flex items-center gap-2">
+        <AppIcon name="ranking" size="lg" className="text-gray-400" />
+        <span>Elo Rating</span>
+      </h2>
+
+      {loading && (
+        <div className="text-center py-8 text-gray-400">
+          <div className="animate-pulse">Loading rating...</div>
+        </div>
+      )}
+
+      {/* Unrated teams (e.g. outside the rated leagues) get a 404 */}
+      {!loading && error && (
+        <div className="text-center py-4 text-gray-500 text-sm">
+          {error}
+        </div>
+      )}
+
+      {!loading && !error && rating && (
+        <>
+          <div className="grid grid-cols-3 gap-4 mb-4">
+            <div className="bg-gray-700 rounded-lg p-3 text-center">
+              <p className="text-xs text-gray-400">Current</p>
+              <p className="text-2xl font-bold text-amber-500">{Math.round(rating.rating)}</p>
+            </div>
+            <div className="bg-gray-700 rounded-lg p-3 text-center">
+              <p className="text-xs text-gray-400">Last 5 matches</p>
+              <p className={`text-2xl font-bold ${recentChange >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                {recentChange >= 0 ? '+' : ''}{recentChange.toFixed(1)}
+              </p>
+            </div>
+            <div className="bg-gray-700 rounded-lg p-3 text-center">
+              <p className="text-xs text-gray-400">Rated matches</p>
+              <p className="text-2xl font-bold text-gray-100">{rating.matches}</p>
+            </div>
+          </div>
+
+          <LineChart
+            series={[{
+              label: rating.teamName || 'Rating',
+              color: '#f59e0b',
+              points: history.map(h => ({ x: new Date(h.playedAt).getTime(), y: h.ratingAfter })),
+            }]}
+            height={200}
+            baseline={1500}
+            formatX={(value) => new Date(value).toLocaleDateString([], { month: 'short', year: '2-digit' })}
+            formatY={(value) => String(Math.round(value))}
+            emptyMessage="No rated matches yet"
+          />
+          <p className="text-xs text-gray-500 mt-2">Grey line = starting rating (1500)</p>
+        </>
+      )}
+    </div>
+  );
+}
+
 // ============================================
 // HOME/AWAY PERFORMANCE COMPONENT
 // ============================================
@@ -79,10 +178,10 @@ const MINUTE_RANGES = [
 // with season selection dropdown
 
 function HomeAwayPerformanceSection({ teamId }: { teamId: string | number }) {
-  const [seasons, setSeasons] = useState<AnyRecord[]>([]);
+  const [seasons, setSeasons] = useState<Season[]>([]);
   const [selectedSeasonId, setSelectedSeasonId] = useState<number | null>(null);
   const [selectedSeasonLeagueId, setSelectedSeasonLeagueId] = useState<number | null>(null); // Track league for PL-only features
-  const [stats, setStats] = useState<AnyRecord | null>(null);
+  const [stats, setStats] = useState<Participant | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
 
@@ -93,10 +192,10 @@ function HomeAwayPerformanceSection({ teamId }: { teamId: string | number }) {
     const fetchSeasons = async () => {
       try {
         const data = await dataApi.getTeamSeasons(teamId);
-        const teamSeasons: AnyRecord[] = data.seasons || [];
+        const teamSeasons: Season[] = data.seasons || [];
         
         // Sort by year descending, then by league ID (Premier League first)
-        const sorted = teamSeasons.sort((a: AnyRecord, b: AnyRecord) => {
+        const sorted = teamSeasons.sort((a: Season, b: Season) => {
           const aYear = parseInt(a.name?.split('/')[0] || a.name || '0');
           const bYear = parseInt(b.name?.split('/')[0] || b.name || '0');
           if (bYear !== aYear) return bYear - aYear;
@@ -110,9 +209,9 @@ function HomeAwayPerformanceSection({ teamId }: { teamId: string | number }) {
         
         // Auto-select the current Premier League season
         if (sorted.length > 0) {
-          const currentPL = sorted.find((s: AnyRecord) => s.is_current && (s.league_id === 8 || s.league?.id === 8));
-          const anyCurrent = sorted.find((s: AnyRecord) => s.is_current);
-          const firstPL = sorted.find((s: AnyRecord) => s.league_id === 8 || s.league?.id === 8);
+          const currentPL = sorted.find((s: Season) => s.is_current && (s.league_id === 8 || s.league?.id === 8));
+          const anyCurrent = sorted.find((s: Season) => s.is_current);
+          const firstPL = sorted.find((s: Season) => s.league_id === 8 || s.league?.id === 8);
           const selected = currentPL || anyCurrent || firstPL || sorted[0];
           setSelectedSeasonId(Number(selected.id));
           setSelectedSeasonLeagueId(Number(selected.league_id || selected.league?.id));
@@ -288,8 +387,8 @@ function HomeAwayPerformanceSection({ teamId }: { teamId: string | number }) {
               const newSeasonId = parseInt(e.target.value);
               setSelectedSeasonId(newSeasonId);
               // Update league ID when season changes
-              const selectedSeason = seasons.find((s: AnyRecord) => s.id === newSeasonId);
-              setSelectedSeasonLeagueId(selectedSeason?.league_id || selectedSeason?.league?.id);
+              const selectedSeason = seasons.find((s: Season) => s.id === newSeasonId);
+              setSelectedSeasonLeagueId(selectedSeason?.league_id || selectedSeason?.league?.id || null);
             }}
             className="border border-gray-600 rounded-md px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-amber-500 bg-gray-800"
             disabled={seasons.length === 0}
@@ -408,10 +507,10 @@ function HomeAwayPerformanceSection({ teamId }: { teamId: string | number }) {
 // for home and away matches - PREMIER LEAGUE ONLY
 
 function WinDrawLossDistributionSection({ teamId }: { teamId: string | number }) {
-  const [seasons, setSeasons] = useState<AnyRecord[]>([]);
+  const [seasons, setSeasons] = useState<Season[]>([]);
   const [selectedSeasonId, setSelectedSeasonId] = useState<number | null>(null);
   const [selectedSeasonLeagueId, setSelectedSeasonLeagueId] = useState<number | null>(null);
-  const [stats, setStats] = useState<AnyRecord | null>(null);
+  const [stats, setStats] = useState<Participant | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
 
@@ -422,15 +521,15 @@ function WinDrawLossDistributionSection({ teamId }: { teamId: string | number })
     const fetchSeasons = async () => {
       try {
         const data = await dataApi.getTeamSeasons(teamId);
-        const teamSeasons: AnyRecord[] = data.seasons || [];
+        const teamSeasons: Season[] = data.seasons || [];
         
         // Filter to Premier League seasons only (league_id: 8)
-        const plSeasons = teamSeasons.filter((s: AnyRecord) => 
+        const plSeasons = teamSeasons.filter((s: Season) => 
           s.league_id === 8 || s.league?.id === 8
         );
         
         // Sort by year descending
-        const sorted = plSeasons.sort((a: AnyRecord, b: AnyRecord) => {
+        const sorted = plSeasons.sort((a: Season, b: Season) => {
           const aYear = parseInt(a.name?.split('/')[0] || a.name || '0');
           const bYear = parseInt(b.name?.split('/')[0] || b.name || '0');
           return bYear - aYear;
@@ -440,10 +539,10 @@ function WinDrawLossDistributionSection({ teamId }: { teamId: string | number })
         
         // Auto-select the current Premier League season
         if (sorted.length > 0) {
-          const currentPL = sorted.find((s: AnyRecord) => s.is_current);
+          const currentPL = sorted.find((s: Season) => s.is_current);
           const selected = currentPL || sorted[0];
           setSelectedSeasonId(selected.id);
-          setSelectedSeasonLeagueId(selected.league_id || selected.league?.id);
+          setSelectedSeasonLeagueId(selected.league_id || selected.league?.id || null);
         }
       } catch (err) {
         console.error('Failed to fetch seasons:', err);
@@ -557,8 +656,8 @@ function WinDrawLossDistributionSection({ teamId }: { teamId: string | number })
             onChange={(e) => {
               const newSeasonId = parseInt(e.target.value);
               setSelectedSeasonId(newSeasonId);
-              const selectedSeason = seasons.find((s: AnyRecord) => s.id === newSeasonId);
-              setSelectedSeasonLeagueId(selectedSeason?.league_id || selectedSeason?.league?.id);
+              const selectedSeason = seasons.find((s: Season) => s.id === newSeasonId);
+              setSelectedSeasonLeagueId(selectedSeason?.league_id || selectedSeason?.league?.id || null);
             }}
             className="border border-gray-600 rounded-md px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-amber-500 bg-gray-800"
             disabled={seasons.length === 0}
@@ -729,9 +828,9 @@ function WinDrawLossDistributionSection({ teamId }: { teamId: string | number })
 // All competitions, with season selector
 
 function HalfTimingAnalysisSection({ teamId }: { teamId: string | number }) {
-  const [seasons, setSeasons] = useState<AnyRecord[]>([]);
+  const [seasons, setSeasons] = useState<Season[]>([]);
   const [selectedSeasonId, setSelectedSeasonId] = useState<number | null>(null);
-  const [stats, setStats] = useState<AnyRecord | null>(null);
+  const [stats, setStats] = useState<Participant | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
 
@@ -742,10 +841,10 @@ function HalfTimingAnalysisSection({ teamId }: { teamId: string | number }) {
     const fetchSeasons = async () => {
       try {
         const data = await dataApi.getTeamSeasons(teamId);
-        const teamSeasons: AnyRecord[] = data.seasons || [];
+        const teamSeasons: Season[] = data.seasons || [];
         
         // Sort by year descending, then by league ID (Premier League first)
-        const sorted = teamSeasons.sort((a: AnyRecord, b: AnyRecord) => {
+        const sorted = teamSeasons.sort((a: Season, b: Season) => {
           const aYear = parseInt(a.name?.split('/')[0] || a.name || '0');
           const bYear = parseInt(b.name?.split('/')[0] || b.name || '0');
           if (bYear !== aYear) return bYear - aYear;
@@ -759,9 +858,9 @@ function HalfTimingAnalysisSection({ teamId }: { teamId: string | number }) {
         
         // Auto-select the current Premier League season first, else any current
         if (sorted.length > 0) {
-          const currentPL = sorted.find((s: AnyRecord) => s.is_current && (s.league_id === 8 || s.league?.id === 8));
-          const anyCurrent = sorted.find((s: AnyRecord) => s.is_current);
-          const firstPL = sorted.find((s: AnyRecord) => s.league_id === 8 || s.league?.id === 8);
+          const currentPL = sorted.find((s: Season) => s.is_current && (s.league_id === 8 || s.league?.id === 8));
+          const anyCurrent = sorted.find((s: Season) => s.is_current);
+          const firstPL = sorted.find((s: Season) => s.league_id === 8 || s.league?.id === 8);
           const selected = currentPL || anyCurrent || firstPL || sorted[0];
           setSelectedSeasonId(selected.id);
         }
@@ -1102,9 +1201,9 @@ function HalfTimingAnalysisSection({ teamId }: { teamId: string | number }) {
 // All competitions, with season selector
 
 function OverUnderGoalsSection({ teamId }: { teamId: string | number }) {
-  const [seasons, setSeasons] = useState<AnyRecord[]>([]);
+  const [seasons, setSeasons] = useState<Season[]>([]);
   const [selectedSeasonId, setSelectedSeasonId] = useState<number | null>(null);
-  const [stats, setStats] = useState<AnyRecord | null>(null);
+  const [stats, setStats] = useState<Participant | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
 
@@ -1118,7 +1217,7 @@ function OverUnderGoalsSection({ teamId }: { teamId: string | number }) {
         const teamSeasons = data.seasons || [];
         
         // Sort by year descending, then by league ID (Premier League first)
-        const sorted = teamSeasons.sort((a: AnyRecord, b: AnyRecord) => {
+        const sorted = teamSeasons.sort((a: Season, b: Season) => {
           const aYear = parseInt(a.name?.split('/')[0] || a.name || '0');
           const bYear = parseInt(b.name?.split('/')[0] || b.name || '0');
           if (bYear !== aYear) return bYear - aYear;
@@ -1132,9 +1231,9 @@ function OverUnderGoalsSection({ teamId }: { teamId: string | number }) {
         
         // Auto-select the current Premier League season first, else any current
         if (sorted.length > 0) {
-          const currentPL = sorted.find((s: AnyRecord) => s.is_current && (s.league_id === 8 || s.league?.id === 8));
-          const anyCurrent = sorted.find((s: AnyRecord) => s.is_current);
-          const firstPL = sorted.find((s: AnyRecord) => s.league_id === 8 || s.league?.id === 8);
+          const currentPL = sorted.find((s: Season) => s.is_current && (s.league_id === 8 || s.league?.id === 8));
+          const anyCurrent = sorted.find((s: Season) => s.is_current);
+          const firstPL = sorted.find((s: Season) => s.league_id === 8 || s.league?.id === 8);
           const selected = currentPL || anyCurrent || firstPL || sorted[0];
           setSelectedSeasonId(selected.id);
         }
@@ -1393,9 +1492,9 @@ function OverUnderGoalsSection({ teamId }: { teamId: string | number }) {
 // with season selection dropdown
 
 function ScoringPatternSection({ teamId }: { teamId: string | number }) {
-  const [seasons, setSeasons] = useState<AnyRecord[]>([]);
+  const [seasons, setSeasons] = useState<Season[]>([]);
   const [selectedSeasonId, setSelectedSeasonId] = useState<number | null>(null);
-  const [stats, setStats] = useState<AnyRecord | null>(null);
+  const [stats, setStats] = useState<Participant | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
 
@@ -1409,7 +1508,7 @@ function ScoringPatternSection({ teamId }: { teamId: string | number }) {
         const teamSeasons = data.seasons || [];
         
         // Sort by year descending, then by league ID (Premier League first)
-        const sorted = teamSeasons.sort((a: AnyRecord, b: AnyRecord) => {
+        const sorted = teamSeasons.sort((a: Season, b: Season) => {
           const aYear = parseInt(a.name?.split('/')[0] || a.name || '0');
           const bYear = parseInt(b.name?.split('/')[0] || b.name || '0');
           if (bYear !== aYear) return bYear - aYear;
@@ -1423,9 +1522,9 @@ function ScoringPatternSection({ teamId }: { teamId: string | number }) {
         
         // Auto-select the current Premier League season (league_id: 8)
         if (sorted.length > 0) {
-          const currentPL = sorted.find((s: AnyRecord) => s.is_current && (s.league_id === 8 || s.league?.id === 8));
-          const anyCurrent = sorted.find((s: AnyRecord) => s.is_current);
-          const firstPL = sorted.find((s: AnyRecord) => s.league_id === 8 || s.league?.id === 8);
+          const currentPL = sorted.find((s: Season) => s.is_current && (s.league_id === 8 || s.league?.id === 8));
+          const anyCurrent = sorted.find((s: Season) => s.is_current);
+          const firstPL = sorted.find((s: Season) => s.league_id === 8 || s.league?.id === 8);
           const selected = currentPL || anyCurrent || firstPL || sorted[0];
           setSelectedSeasonId(selected.id);
         }
@@ -1662,9 +1761,9 @@ function ScoringPatternSection({ teamId }: { teamId: string | number }) {
 // Uses our cached corner averages endpoint for home/away split
 
 function CornersSection({ teamId }: { teamId: string | number }) {
-  const [seasons, setSeasons] = useState<AnyRecord[]>([]);
+  const [seasons, setSeasons] = useState<Season[]>([]);
   const [selectedSeasonId, setSelectedSeasonId] = useState<number | null>(null);
-  const [stats, setStats] = useState<AnyRecord | null>(null);
+  const [stats, setStats] = useState<Participant | null>(null);
   const [cornerAvg, setCornerAvg] = useState<AnyRecord | null>(null);  // Home/away breakdown from our endpoint
   const [loading, setLoading] = useState(true);
   const [cornerAvgLoading, setCornerAvgLoading] = useState(false);
@@ -1680,12 +1779,12 @@ function CornersSection({ teamId }: { teamId: string | number }) {
         const teamSeasons = data.seasons || [];
         
         // Filter to Premier League seasons only (league_id: 8)
-        const plSeasons = teamSeasons.filter((s: AnyRecord) => 
+        const plSeasons = teamSeasons.filter((s: Season) => 
           s.league_id === 8 || s.league?.id === 8
         );
         
         // Sort by year descending
-        const sorted = plSeasons.sort((a: AnyRecord, b: AnyRecord) => {
+        const sorted = plSeasons.sort((a: Season, b: Season) => {
           const aYear = parseInt(a.name?.split('/')[0] || a.name || '0');
           const bYear = parseInt(b.name?.split('/')[0] || b.name || '0');
           return bYear - aYear;
@@ -1695,7 +1794,7 @@ function CornersSection({ teamId }: { teamId: string | number }) {
         
         // Auto-select the current Premier League season
         if (sorted.length > 0) {
-          const currentPL = sorted.find((s: AnyRecord) => s.is_current);
+          const currentPL = sorted.find((s: Season) => s.is_current);
           const selected = currentPL || sorted[0];
           setSelectedSeasonId(selected.id);
         }
@@ -2039,7 +2138,7 @@ const TeamDetail = () => {
   const { id } = useParams();
   const { token, isAuthenticated } = useAuth();
   
-  const [team, setTeam] = useState<AnyRecord | null>(null);
+  const [team, setTeam] = useState<Participant | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
 
@@ -2106,7 +2205,7 @@ const TeamDetail = () => {
               className="w-24 h-24 object-contain"
             />
           )}
-          <div>
+          <div className="flex-1">
             <h1 className="text-3xl font-bold text-gray-100">{team.name}</h1>
             <p className="text-gray-400">{team.country?.name}</p>
             {team.venue?.name && (
@@ -2116,9 +2215,13 @@ const TeamDetail = () => {
               </p>
             )}
           </div>
+          <WatchButton type="team" entityId={team.id} label={team.name} />
         </div>
       </div>
 
+      {/* Match Alerts - goals, cards, lineups, odds for every fixture */}
+      <AlertsPanel teamId={team.id} />
+
       {/* Coach Section */}
       {team.coaches && team.coaches.length > 0 && (
         <div className="bg-gray-800 rounded-lg shadow-md p-6">
@@ -2127,7 +2230,7 @@ const TeamDetail = () => {
             {team.coaches[0].image_path && (
               <img
                 src={team.coaches[0].image_path}
-                alt={team.coaches[0].common_name}
+                alt={team.coaches[0].common_name ?? undefined}
                 className="w-16 h-16 rounded-full object-cover"
               />
             )}
@@ -2139,6 +2242,9 @@ const TeamDetail = () => {
         </div>
       )}
 
+      {/* Elo Rating Section */}
+      <EloRatingSection teamId={id || ''} />
+
       {/* Home/Away Performance Section */}
       <HomeAwayPerformanceSection teamId={id || ''} />
 
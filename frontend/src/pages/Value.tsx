@@ -0,0 +1,321 @@
+// ============================================
+// VALUE BETS PAGE
+// ============================================
+// Selections where the best bookmaker price beats the SportsMonks
+// prediction model, ranked by expected value.
+//
+// Filters (date range, league, minimum edge) are sent to the API;
+// the Kelly fraction only rescales the suggested stakes, so it is
+// applied here without refetching.
+// ============================================
+
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import { dataApi } from '../api/client';
+import { formatOdds, formatShortDate, formatTime } from '../utils/formatters';
+import AppIcon from '../components/AppIcon';
+
+type OddsValue = {
+  value: string;
+  american: string;
+  fractional: string;
+};
+
+type ValueBet = {
+  fixtureId: number;
+  fixtureName: string;
+  startingAt: string | null;
+  leagueId: number;
+  leagueName: string | null;
+  marketId: number;
+  marketName: string;
+  selection: string;
+  line: number | null;
+  probability: number;
+  best: OddsValue & { bookmakerId: number; bookmakerName: string };
+  bookmakerCount: number;
+  fair: OddsValue;
+  ev: number;
+  kelly: number;
+};
+
+const getErrorMessage = (err: unknown, fallback: string) =>
+  err instanceof Error ? err.message : fallback;
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// Competitions available in the app (SportsMonks league IDs)
+const LEAGUES = [
+  { id: '', name: 'All competitions' },
+  { id: '8', name: 'Premier League' },
+  { id: '24', name: 'FA Cup' },
+  { id: '27', name: 'Carabao Cup' },
+];
+
+const KELLY_FRACTIONS = [
+  { value: 1, label: 'Full Kelly' },
+  { value: 0.5, label: 'Half Kelly' },
+  { value: 0.25, label: 'Quarter Kelly' },
+];
+
+// ============================================
+// HELPERS
+// ============================================
+
+// "2026-01-25" for date inputs, offset by a number of days from today
+const dateFromToday = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const formatPercent = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(1)}%`;
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+
+const Value = () => {
+  const { user } = useAuth();
+  const oddsFormat = (user?.oddsFormat || 'AMERICAN') as 'AMERICAN' | 'DECIMAL' | 'FRACTIONAL';
+  const timezone = user?.timezone || 'America/New_York';
+  const dateFormat = (user?.dateFormat || 'US') as 'US' | 'EU';
+
+  const [startDate, setStartDate] = useState(() => dateFromToday(0));
+  const [endDate, setEndDate] = useState(() => dateFromToday(3));
+  const [leagueId, setLeagueId] = useState('');
+  // Minimum edge (input value vs. applied value)
+  const [minEdgeInput, setMinEdgeInput] = useState('5');
+  const [minEdge, setMinEdge] = useState(5);
+  const [kellyFraction, setKellyFraction] = useState(0.25);
+
+  const [bets, setBets] = useState<ValueBet[]>([]);
+  const [fixturesScanned, setFixturesScanned] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  // ============================================
+  // FETCH VALUE BETS
+  // ============================================
+
+  const fetchValueBets = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const data = await dataApi.getValueBets({ startDate, endDate, leagueId, minEdge });
+      setBets(data.data || []);
+      setFixturesScanned(data.fixturesScanned || 0);
+    } catch (err) {
+      console.error('Failed to fetch value bets:', err);
+      setError(getErrorMessage(err, 'Failed to load value bets'));
+      setBets([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [startDate, endDate, leagueId, minEdge]);
+
+  useEffect(() => {
+    fetchValueBets();
+  }, [fetchValueBets]);
+
+  // ============================================
+  // HANDLERS
+  // ============================================
+
+  // Apply the typed minimum edge - or scan again if it hasn't changed
+  const handleApply = () => {
+    const edge = Number(minEdgeInput);
+    if (Number.isNaN(edge)) {
+      setError('Minimum edge must be a number');
+      return;
+    }
+    if (edge === minEdge) {
+      fetchValueBets();
+    } else {
+      setMinEdge(edge);
+    }
+  };
+
+  // ============================================
+  // RENDER
+  // ============================================
+  return (
+    <div className="space-y-6">
+      {/* ============================================ */}
+      {/* HEADER */}
+      {/* ============================================ */}
+      <div>
+        <h1 className="text-2xl font-bold text-white flex items-center">
+          <AppIcon name="target" size="lg" className="mr-2 text-amber-500" />
+          Value Bets
+        </h1>
+        <p className="text-gray-400 text-sm mt-1">
+          Best available prices that beat the prediction model, ranked by expected value
+        </p>
+      </div>
+
+      {/* ============================================ */}
+      {/* FILTERS */}
+      {/* ============================================ */}
+      <div className="bg-gray-800 rounded-lg p-4 flex flex-wrap items-end gap-4">
+        <div>
+          <label className="block text-xs text-gray-400 mb-1" htmlFor="value-start">From</label>
+          <input
+            id="value-start"
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-amber-500"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-400 mb-1" htmlFor="value-end">To</label>
+          <input
+            id="value-end"
+            type="date"
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-amber-500"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-400 mb-1" htmlFor="value-league">Competition</label>
+          <select
+            id="value-league"
+            value={leagueId}
+            onChange={(e) => setLeagueId(e.target.value)}
+            className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-amber-500"
+          >
+            {LEAGUES.map(league => (
+              <option key={league.id} value={league.id}>{league.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-400 mb-1" htmlFor="value-edge">Min edge (%)</label>
+          <input
+            id="value-edge"
+            type="number"
+            step="any"
+            value={minEdgeInput}
+            onChange={(e) => setMinEdgeInput(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleApply()}
+            className="w-24 px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-amber-500"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-400 mb-1" htmlFor="value-kelly">Stake</label>
+          <select
+            id="value-kelly"
+            value={kellyFraction}
+            onChange={(e) => setKellyFraction(Number(e.target.value))}
+            className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-amber-500"
+          >
+            {KELLY_FRACTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <button
+          onClick={handleApply}
+          disabled={loading}
+          className="px-4 py-2 bg-amber-500 hover:bg-amber-600 text-gray-900 font-medium rounded-md text-sm disabled:opacity-50"
+        >
+          {loading ? 'Scanning...' : 'Apply'}
+        </button>
+      </div>
+
+      {/* ============================================ */}
+      {/* MESSAGES */}
+      {/* ============================================ */}
+      {error && (
+        <div className="bg-red-900/30 text-red-400 p-4 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {/* ============================================ */}
+      {/* LOADING STATE */}
+      {/* ============================================ */}
+      {loading && bets.length === 0 && (
+        <div className="text-center py-12 text-gray-400">
+          <div className="inline-block w-8 h-8 border-4 border-amber-500 border-t-transparent rounded-full animate-spin mb-4" />
+          <p>Scanning fixtures for value...</p>
+        </div>
+      )}
+
+      {/* ============================================ */}
+      {/* EMPTY STATE */}
+      {/* ============================================ */}
+      {!loading && !error && bets.length === 0 && (
+        <div className="bg-gray-800 rounded-lg p-8 text-center text-gray-400">
+          No value bets found in {fixturesScanned} fixtures. Try a wider date range or a lower minimum edge.
+        </div>
+      )}
+
+      {/* ============================================ */}
+      {/* VALUE BETS TABLE */}
+      {/* ============================================ */}
+      {bets.length > 0 && (
+        <div className="bg-gray-800 rounded-lg p-4">
+          <p className="text-xs text-gray-500 mb-3">
+            {bets.length} selections from {fixturesScanned} fixtures. Stake is a share of bankroll.
+          </p>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-gray-400 text-xs uppercase tracking-wide border-b border-gray-700">
+                  <th className="text-left py-2 pr-3">Fixture</th>
+                  <th className="text-left py-2 pr-3">Market</th>
+                  <th className="text-left py-2 pr-3">Selection</th>
+                  <th className="text-right py-2 pr-3">Model</th>
+                  <th className="text-right py-2 pr-3">Fair</th>
+                  <th className="text-right py-2 pr-3">Best</th>
+                  <th className="text-left py-2 pr-3">Bookmaker</th>
+                  <th className="text-right py-2 pr-3">EV</th>
+                  <th className="text-right py-2">Stake</th>
+                </tr>
+              </thead>
+              <tbody>
+                {bets.map(bet => (
+                  <tr
+                    key={`${bet.fixtureId}:${bet.marketId}:${bet.selection}`}
+                    className="border-b border-gray-700/50 hover:bg-gray-700/30"
+                  >
+                    <td className="py-2 pr-3">
+                      <Link to={`/fixtures/${bet.fixtureId}`} className="text-white hover:text-amber-400">
+                        {bet.fixtureName}
+                      </Link>
+                      <div className="text-xs text-gray-500">
+                        {bet.leagueName && `${bet.leagueName} · `}
+                        {formatShortDate(bet.startingAt, timezone, dateFormat)} {formatTime(bet.startingAt, timezone)}
+                      </div>
+                    </td>
+                    <td className="py-2 pr-3 text-gray-300">{bet.marketName}</td>
+                    <td className="py-2 pr-3 text-white font-medium">{bet.selection}</td>
+                    <td className="py-2 pr-3 text-right text-gray-300">{(bet.probability * 100).toFixed(1)}%</td>
+                    <td className="py-2 pr-3 text-right text-gray-400">{formatOdds(bet.fair, oddsFormat)}</td>
+                    <td className="py-2 pr-3 text-right text-amber-400 font-medium">{formatOdds(bet.best, oddsFormat)}</td>
+                    <td className="py-2 pr-3 text-gray-300">
+                      {bet.best.bookmakerName}
+                      {bet.bookmakerCount > 1 && (
+                        <span className="text-xs text-gray-500"> of {bet.bookmakerCount}</span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-3 text-right text-green-400 font-medium">{formatPercent(bet.ev)}</td>
+                    <td className="py-2 text-right text-gray-300">{(bet.kelly * kellyFraction * 100).toFixed(1)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Value;
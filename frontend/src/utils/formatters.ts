@@ -156,6 +156,29 @@ export function getTimezoneDateString(dateString?: string | null, timezone = 'Am
   });
 }
 
+// ============================================
+// FORMAT TIME AGO
+// ============================================
+// Relative time for our own timestamps (ISO strings from the API, not
+// SportsMonks times): "just now", "5m ago", "3h ago", "2d ago", then a
+// short date after a week.
+export function formatTimeAgo(isoString?: string | null, dateFormat: 'US' | 'EU' = 'US') {
+  if (!isoString) return '';
+  const date = new Date(isoString);
+  const minutes = Math.floor((Date.now() - date.getTime()) / 60000);
+
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ago`;
+  if (minutes < 7 * 24 * 60) return `${Math.floor(minutes / (24 * 60))}d ago`;
+
+  return date.toLocaleDateString(dateFormat === 'EU' ? 'en-GB' : 'en-US', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric'
+  });
+}
+
 // ============================================
 // FORMAT TEMPERATURE
 // ============================================
@@ -184,10 +207,10 @@ export function formatTemperature(celsiusValue: number | null | undefined, unit:
 // - american: "+150" or "-110"
 // This function returns the appropriate value based on user preference.
 type OddsValue = {
-  value?: string | number;
-  decimal?: string | number;
-  fractional?: string | number;
-  american?: string | number;
+  value?: string | number | null;
+  decimal?: string | number | null;
+  fractional?: string | number | null;
+  american?: string | number | null;
 } | null | undefined;
 
 export function getOddsValue(odd: OddsValue, format: 'AMERICAN' | 'DECIMAL' | 'FRACTIONAL' = 'AMERICAN') {
@@ -304,6 +327,7 @@ export default {
   formatDateOnly,
   formatShortDateOnly,
   getTimezoneDateString,
+  formatTimeAgo,
   formatTemperature,
   getOddsValue,
   formatOdds,
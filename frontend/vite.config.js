@@ -1,7 +1,14 @@
+import { fileURLToPath, URL } from 'node:url'
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  resolve: {
+    alias: {
+      // Types shared with the backend (src/types in the repo root)
+      '@shared': fileURLToPath(new URL('../src/types', import.meta.url)),
+    },
+  },
 })
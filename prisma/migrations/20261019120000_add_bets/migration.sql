@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "BetStatus" AS ENUM ('PENDING', 'WON', 'LOST', 'VOID');
+
+-- CreateTable
+CREATE TABLE "bets" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "fixture_id" INTEGER NOT NULL,
+    "market_id" INTEGER NOT NULL,
+    "selection" TEXT NOT NULL,
+    "line" DOUBLE PRECISION,
+    "bookmaker_id" INTEGER NOT NULL,
+    "price" DOUBLE PRECISION NOT NULL,
+    "stake" DOUBLE PRECISION NOT NULL,
+    "placed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "status" "BetStatus" NOT NULL DEFAULT 'PENDING',
+    "profit" DOUBLE PRECISION,
+    "settled_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "bets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "bets_user_id_idx" ON "bets"("user_id");
+
+-- CreateIndex
+CREATE INDEX "bets_status_idx" ON "bets"("status");
+
+-- CreateIndex
+CREATE INDEX "bets_fixture_id_idx" ON "bets"("fixture_id");
+
+-- AddForeignKey
+ALTER TABLE "bets" ADD CONSTRAINT "bets_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
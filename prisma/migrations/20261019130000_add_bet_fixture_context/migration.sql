@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "bets" ADD COLUMN     "fixture_name" TEXT,
+ADD COLUMN     "league_id" INTEGER;
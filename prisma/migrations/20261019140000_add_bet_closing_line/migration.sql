@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "bets" ADD COLUMN     "closing_price" DOUBLE PRECISION,
+ADD COLUMN     "closing_price_at" TIMESTAMP(3),
+ADD COLUMN     "kickoff_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "bets_kickoff_at_idx" ON "bets"("kickoff_at");
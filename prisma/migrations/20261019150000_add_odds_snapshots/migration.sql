@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "odds_snapshots" (
+    "id" TEXT NOT NULL,
+    "fixture_id" INTEGER NOT NULL,
+    "market_id" INTEGER NOT NULL,
+    "bookmaker_id" INTEGER NOT NULL,
+    "label" TEXT NOT NULL,
+    "line" TEXT,
+    "value" DOUBLE PRECISION NOT NULL,
+    "captured_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "odds_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "odds_snapshots_fixture_id_market_id_idx" ON "odds_snapshots"("fixture_id", "market_id");
+
+-- CreateIndex
+CREATE INDEX "odds_snapshots_fixture_id_captured_at_idx" ON "odds_snapshots"("fixture_id", "captured_at");
@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE "team_ratings" (
+    "team_id" INTEGER NOT NULL,
+    "team_name" TEXT NOT NULL,
+    "rating" DOUBLE PRECISION NOT NULL,
+    "matches" INTEGER NOT NULL DEFAULT 0,
+    "league_id" INTEGER NOT NULL,
+    "last_played_at" TIMESTAMP(3) NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "team_ratings_pkey" PRIMARY KEY ("team_id")
+);
+
+-- CreateTable
+CREATE TABLE "team_rating_history" (
+    "id" TEXT NOT NULL,
+    "team_id" INTEGER NOT NULL,
+    "fixture_id" INTEGER NOT NULL,
+    "league_id" INTEGER NOT NULL,
+    "season_id" INTEGER NOT NULL,
+    "opponent_id" INTEGER NOT NULL,
+    "is_home" BOOLEAN NOT NULL,
+    "goals_for" INTEGER NOT NULL,
+    "goals_against" INTEGER NOT NULL,
+    "expected" DOUBLE PRECISION NOT NULL,
+    "rating_before" DOUBLE PRECISION NOT NULL,
+    "rating_after" DOUBLE PRECISION NOT NULL,
+    "played_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "team_rating_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "team_ratings_league_id_idx" ON "team_ratings"("league_id");
+
+-- CreateIndex
+CREATE INDEX "team_rating_history_team_id_played_at_idx" ON "team_rating_history"("team_id", "played_at");
+
+-- CreateIndex
+CREATE INDEX "team_rating_history_league_id_season_id_idx" ON "team_rating_history"("league_id", "season_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "team_rating_history_team_id_fixture_id_key" ON "team_rating_history"("team_id", "fixture_id");
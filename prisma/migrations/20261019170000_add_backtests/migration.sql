@@ -0,0 +1,66 @@
+-- CreateEnum
+CREATE TYPE "BacktestStatus" AS ENUM ('RUNNING', 'COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "backtests" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "strategy" JSONB NOT NULL,
+    "start_date" TIMESTAMP(3) NOT NULL,
+    "end_date" TIMESTAMP(3) NOT NULL,
+    "status" "BacktestStatus" NOT NULL DEFAULT 'RUNNING',
+    "error" TEXT,
+    "fixtures_scanned" INTEGER NOT NULL DEFAULT 0,
+    "bet_count" INTEGER NOT NULL DEFAULT 0,
+    "won" INTEGER NOT NULL DEFAULT 0,
+    "lost" INTEGER NOT NULL DEFAULT 0,
+    "voided" INTEGER NOT NULL DEFAULT 0,
+    "staked" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "profit" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "starting_bankroll" DOUBLE PRECISION NOT NULL,
+    "final_bankroll" DOUBLE PRECISION,
+    "max_drawdown" DOUBLE PRECISION,
+    "max_drawdown_percent" DOUBLE PRECISION,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completed_at" TIMESTAMP(3),
+
+    CONSTRAINT "backtests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "backtest_bets" (
+    "id" TEXT NOT NULL,
+    "backtest_id" TEXT NOT NULL,
+    "fixture_id" INTEGER NOT NULL,
+    "fixture_name" TEXT,
+    "league_id" INTEGER,
+    "kickoff_at" TIMESTAMP(3) NOT NULL,
+    "market_id" INTEGER NOT NULL,
+    "market_name" TEXT NOT NULL,
+    "selection" TEXT NOT NULL,
+    "line" DOUBLE PRECISION,
+    "bookmaker_id" INTEGER NOT NULL,
+    "price" DOUBLE PRECISION NOT NULL,
+    "odds_source" TEXT NOT NULL,
+    "probability" DOUBLE PRECISION NOT NULL,
+    "ev" DOUBLE PRECISION NOT NULL,
+    "stake" DOUBLE PRECISION NOT NULL,
+    "status" "BetStatus" NOT NULL,
+    "profit" DOUBLE PRECISION NOT NULL,
+    "bankroll" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "backtest_bets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "backtests_user_id_idx" ON "backtests"("user_id");
+
+-- CreateIndex
+CREATE INDEX "backtest_bets_backtest_id_kickoff_at_idx" ON "backtest_bets"("backtest_id", "kickoff_at");
+
+-- AddForeignKey
+ALTER TABLE "backtests" ADD CONSTRAINT "backtests_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "backtest_bets" ADD CONSTRAINT "backtest_bets_backtest_id_fkey" FOREIGN KEY ("backtest_id") REFERENCES "backtests"("id") ON DELETE CASCADE ON UPDATE CASCADE;
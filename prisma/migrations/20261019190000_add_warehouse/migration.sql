@@ -0,0 +1,157 @@
+-- CreateEnum
+CREATE TYPE "WarehouseSyncStatus" AS ENUM ('RUNNING', 'INCOMPLETE', 'CURRENT', 'COMPLETED');
+
+-- CreateTable
+CREATE TABLE "warehouse_teams" (
+    "id" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "short_code" TEXT,
+    "image_path" TEXT,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "warehouse_teams_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "warehouse_fixtures" (
+    "id" INTEGER NOT NULL,
+    "league_id" INTEGER NOT NULL,
+    "season_id" INTEGER NOT NULL,
+    "stage_id" INTEGER,
+    "round_id" INTEGER,
+    "venue_id" INTEGER,
+    "name" TEXT NOT NULL,
+    "starting_at" TIMESTAMP(3),
+    "state_id" INTEGER NOT NULL,
+    "state" TEXT,
+    "result_info" TEXT,
+    "home_team_id" INTEGER,
+    "away_team_id" INTEGER,
+    "home_goals" INTEGER,
+    "away_goals" INTEGER,
+    "synced_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "warehouse_fixtures_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "warehouse_scores" (
+    "id" INTEGER NOT NULL,
+    "fixture_id" INTEGER NOT NULL,
+    "team_id" INTEGER NOT NULL,
+    "type_id" INTEGER NOT NULL,
+    "description" TEXT NOT NULL,
+    "location" TEXT NOT NULL,
+    "goals" INTEGER NOT NULL,
+
+    CONSTRAINT "warehouse_scores_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "warehouse_statistics" (
+    "id" INTEGER NOT NULL,
+    "fixture_id" INTEGER NOT NULL,
+    "team_id" INTEGER,
+    "type_id" INTEGER NOT NULL,
+    "location" TEXT,
+    "value" DOUBLE PRECISION,
+
+    CONSTRAINT "warehouse_statistics_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "warehouse_lineups" (
+    "id" INTEGER NOT NULL,
+    "fixture_id" INTEGER NOT NULL,
+    "team_id" INTEGER NOT NULL,
+    "player_id" INTEGER NOT NULL,
+    "player_name" TEXT,
+    "type_id" INTEGER,
+    "position_id" INTEGER,
+    "formation_position" INTEGER,
+    "jersey_number" INTEGER,
+
+    CONSTRAINT "warehouse_lineups_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "warehouse_events" (
+    "id" INTEGER NOT NULL,
+    "fixture_id" INTEGER NOT NULL,
+    "team_id" INTEGER,
+    "type_id" INTEGER NOT NULL,
+    "player_id" INTEGER,
+    "player_name" TEXT,
+    "related_player_id" INTEGER,
+    "related_player_name" TEXT,
+    "minute" INTEGER,
+    "extra_minute" INTEGER,
+    "result" TEXT,
+
+    CONSTRAINT "warehouse_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "warehouse_syncs" (
+    "season_id" INTEGER NOT NULL,
+    "league_id" INTEGER NOT NULL,
+    "start_date" TIMESTAMP(3) NOT NULL,
+    "end_date" TIMESTAMP(3) NOT NULL,
+    "status" "WarehouseSyncStatus" NOT NULL DEFAULT 'RUNNING',
+    "error" TEXT,
+    "synced_through" TIMESTAMP(3),
+    "fixtures_ingested" INTEGER NOT NULL DEFAULT 0,
+    "last_run_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "warehouse_syncs_pkey" PRIMARY KEY ("season_id")
+);
+
+-- CreateIndex
+CREATE INDEX "warehouse_fixtures_league_id_season_id_idx" ON "warehouse_fixtures"("league_id", "season_id");
+
+-- CreateIndex
+CREATE INDEX "warehouse_fixtures_home_team_id_starting_at_idx" ON "warehouse_fixtures"("home_team_id", "starting_at");
+
+-- CreateIndex
+CREATE INDEX "warehouse_fixtures_away_team_id_starting_at_idx" ON "warehouse_fixtures"("away_team_id", "starting_at");
+
+-- CreateIndex
+CREATE INDEX "warehouse_fixtures_starting_at_idx" ON "warehouse_fixtures"("starting_at");
+
+-- CreateIndex
+CREATE INDEX "warehouse_scores_fixture_id_idx" ON "warehouse_scores"("fixture_id");
+
+-- CreateIndex
+CREATE INDEX "warehouse_statistics_fixture_id_idx" ON "warehouse_statistics"("fixture_id");
+
+-- CreateIndex
+CREATE INDEX "warehouse_statistics_team_id_type_id_idx" ON "warehouse_statistics"("team_id", "type_id");
+
+-- CreateIndex
+CREATE INDEX "warehouse_lineups_fixture_id_idx" ON "warehouse_lineups"("fixture_id");
+
+-- CreateIndex
+CREATE INDEX "warehouse_lineups_player_id_idx" ON "warehouse_lineups"("player_id");
+
+-- CreateIndex
+CREATE INDEX "warehouse_events_fixture_id_idx" ON "warehouse_events"("fixture_id");
+
+-- CreateIndex
+CREATE INDEX "warehouse_events_player_id_idx" ON "warehouse_events"("player_id");
+
+-- CreateIndex
+CREATE INDEX "warehouse_syncs_league_id_idx" ON "warehouse_syncs"("league_id");
+
+-- AddForeignKey
+ALTER TABLE "warehouse_scores" ADD CONSTRAINT "warehouse_scores_fixture_id_fkey" FOREIGN KEY ("fixture_id") REFERENCES "warehouse_fixtures"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "warehouse_statistics" ADD CONSTRAINT "warehouse_statistics_fixture_id_fkey" FOREIGN KEY ("fixture_id") REFERENCES "warehouse_fixtures"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "warehouse_lineups" ADD CONSTRAINT "warehouse_lineups_fixture_id_fkey" FOREIGN KEY ("fixture_id") REFERENCES "warehouse_fixtures"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "warehouse_events" ADD CONSTRAINT "warehouse_events_fixture_id_fkey" FOREIGN KEY ("fixture_id") REFERENCES "warehouse_fixtures"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "warehouse_fixtures" ADD COLUMN     "referee_id" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "warehouse_fixtures_referee_id_starting_at_idx" ON "warehouse_fixtures"("referee_id", "starting_at");
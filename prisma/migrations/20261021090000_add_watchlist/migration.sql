@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "WatchlistEntityType" AS ENUM ('TEAM', 'LEAGUE', 'FIXTURE');
+
+-- CreateTable
+CREATE TABLE "watchlists" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "entity_type" "WatchlistEntityType" NOT NULL,
+    "entity_id" INTEGER NOT NULL,
+    "label" TEXT,
+    "kickoff_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "watchlists_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "watchlists_entity_type_entity_id_idx" ON "watchlists"("entity_type", "entity_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "watchlists_user_id_entity_type_entity_id_key" ON "watchlists"("user_id", "entity_type", "entity_id");
+
+-- AddForeignKey
+ALTER TABLE "watchlists" ADD CONSTRAINT "watchlists_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
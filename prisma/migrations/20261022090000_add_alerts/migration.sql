@@ -0,0 +1,59 @@
+-- CreateEnum
+CREATE TYPE "AlertEvent" AS ENUM ('KICKOFF', 'GOAL', 'RED_CARD', 'LINEUPS_CONFIRMED', 'ODDS_DROP');
+
+-- CreateEnum
+CREATE TYPE "AlertChannel" AS ENUM ('IN_APP', 'EMAIL', 'WEBHOOK');
+
+-- CreateTable
+CREATE TABLE "alert_rules" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "fixture_id" INTEGER,
+    "team_id" INTEGER,
+    "label" TEXT,
+    "kickoff_at" TIMESTAMP(3),
+    "events" "AlertEvent"[],
+    "channels" "AlertChannel"[],
+    "webhook_url" TEXT,
+    "odds_drop_percent" DOUBLE PRECISION,
+    "odds_market_id" INTEGER NOT NULL DEFAULT 1,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "alert_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "alert_triggers" (
+    "id" TEXT NOT NULL,
+    "rule_id" TEXT NOT NULL,
+    "fixture_id" INTEGER NOT NULL,
+    "event" "AlertEvent" NOT NULL,
+    "dedupe_key" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "data" JSONB,
+    "deliveries" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "alert_triggers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "alert_rules_user_id_idx" ON "alert_rules"("user_id");
+
+-- CreateIndex
+CREATE INDEX "alert_rules_active_idx" ON "alert_rules"("active");
+
+-- CreateIndex
+CREATE INDEX "alert_triggers_rule_id_created_at_idx" ON "alert_triggers"("rule_id", "created_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "alert_triggers_rule_id_dedupe_key_key" ON "alert_triggers"("rule_id", "dedupe_key");
+
+-- AddForeignKey
+ALTER TABLE "alert_rules" ADD CONSTRAINT "alert_rules_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "alert_triggers" ADD CONSTRAINT "alert_triggers_rule_id_fkey" FOREIGN KEY ("rule_id") REFERENCES "alert_rules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- Full-text search over notes. The search vectors are generated columns,
+-- so Postgres keeps them in step with every insert and update.
+-- The 'english' configuration must match services/noteSearch.ts.
+
+-- AlterTable
+ALTER TABLE "Note" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("content", '')), 'B')
+) STORED;
+
+-- AlterTable
+ALTER TABLE "NoteLink" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("label", '')), 'C')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Note_searchVector_idx" ON "Note" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "NoteLink_searchVector_idx" ON "NoteLink" USING GIN ("searchVector");
@@ -0,0 +1,39 @@
+// ============================================
+// RUN THE SPORTSMONKS STUB SERVER
+// ============================================
+// Serves recorded SportsMonks responses so the backend (and frontend)
+// can run without the real API. See tests/support/sportsmonksStub.ts.
+//
+// Usage:
+//   tsx scripts/sportsmonks-stub.ts [--record] [--port 4010]
+//
+// Then start the backend with:
+//   SPORTSMONKS_API_URL=http://127.0.0.1:4010 npm run dev
+//
+// --record forwards anything not recorded yet to the real API (needs
+// a real SPORTSMONKS_API_KEY) and saves it under tests/fixtures/sportsmonks.
+// ============================================
+
+import 'dotenv/config';
+import { startStubServer } from '../tests/support/sportsmonksStub.js';
+
+const args = process.argv.slice(2);
+const portIndex = args.indexOf('--port');
+const port = portIndex >= 0 ? Number(args[portIndex + 1]) : 4010;
+const mode = args.includes('--record') ? 'record' : 'replay';
+
+const run = async () => {
+  const stub = await startStubServer({ mode, port });
+
+  console.log(`SportsMonks stub (${mode}) running on ${stub.url}`);
+  console.log(`Start the backend with SPORTSMONKS_API_URL=${stub.url}`);
+
+  process.on('SIGINT', () => {
+    stub.close().finally(() => process.exit(0));
+  });
+};
+
+run().catch((error) => {
+  console.error('Failed to start the stub:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -154,6 +154,258 @@ exports.Prisma.NoteLinkScalarFieldEnum = {
   createdAt: 'createdAt'
 };
 
+exports.Prisma.BetScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  fixtureId: 'fixtureId',
+  leagueId: 'leagueId',
+  fixtureName: 'fixtureName',
+  kickoffAt: 'kickoffAt',
+  marketId: 'marketId',
+  selection: 'selection',
+  line: 'line',
+  bookmakerId: 'bookmakerId',
+  price: 'price',
+  stake: 'stake',
+  placedAt: 'placedAt',
+  closingPrice: 'closingPrice',
+  closingPriceAt: 'closingPriceAt',
+  status: 'status',
+  profit: 'profit',
+  settledAt: 'settledAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.WatchlistScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  entityType: 'entityType',
+  entityId: 'entityId',
+  label: 'label',
+  kickoffAt: 'kickoffAt',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.AlertRuleScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  fixtureId: 'fixtureId',
+  teamId: 'teamId',
+  label: 'label',
+  kickoffAt: 'kickoffAt',
+  events: 'events',
+  channels: 'channels',
+  webhookUrl: 'webhookUrl',
+  oddsDropPercent: 'oddsDropPercent',
+  oddsMarketId: 'oddsMarketId',
+  active: 'active',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.AlertTriggerScalarFieldEnum = {
+  id: 'id',
+  ruleId: 'ruleId',
+  fixtureId: 'fixtureId',
+  event: 'event',
+  dedupeKey: 'dedupeKey',
+  title: 'title',
+  message: 'message',
+  data: 'data',
+  deliveries: 'deliveries',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.NotificationScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  type: 'type',
+  title: 'title',
+  message: 'message',
+  link: 'link',
+  triggerId: 'triggerId',
+  readAt: 'readAt',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.OddsSnapshotScalarFieldEnum = {
+  id: 'id',
+  fixtureId: 'fixtureId',
+  marketId: 'marketId',
+  bookmakerId: 'bookmakerId',
+  label: 'label',
+  line: 'line',
+  value: 'value',
+  capturedAt: 'capturedAt'
+};
+
+exports.Prisma.TeamRatingScalarFieldEnum = {
+  teamId: 'teamId',
+  teamName: 'teamName',
+  rating: 'rating',
+  matches: 'matches',
+  leagueId: 'leagueId',
+  lastPlayedAt: 'lastPlayedAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.TeamRatingHistoryScalarFieldEnum = {
+  id: 'id',
+  teamId: 'teamId',
+  fixtureId: 'fixtureId',
+  leagueId: 'leagueId',
+  seasonId: 'seasonId',
+  opponentId: 'opponentId',
+  isHome: 'isHome',
+  goalsFor: 'goalsFor',
+  goalsAgainst: 'goalsAgainst',
+  expected: 'expected',
+  ratingBefore: 'ratingBefore',
+  ratingAfter: 'ratingAfter',
+  playedAt: 'playedAt'
+};
+
+exports.Prisma.BacktestScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  name: 'name',
+  strategy: 'strategy',
+  startDate: 'startDate',
+  endDate: 'endDate',
+  status: 'status',
+  error: 'error',
+  fixturesScanned: 'fixturesScanned',
+  betCount: 'betCount',
+  won: 'won',
+  lost: 'lost',
+  voided: 'voided',
+  staked: 'staked',
+  profit: 'profit',
+  startingBankroll: 'startingBankroll',
+  finalBankroll: 'finalBankroll',
+  maxDrawdown: 'maxDrawdown',
+  maxDrawdownPercent: 'maxDrawdownPercent',
+  createdAt: 'createdAt',
+  completedAt: 'completedAt'
+};
+
+exports.Prisma.BacktestBetScalarFieldEnum = {
+  id: 'id',
+  backtestId: 'backtestId',
+  fixtureId: 'fixtureId',
+  fixtureName: 'fixtureName',
+  leagueId: 'leagueId',
+  kickoffAt: 'kickoffAt',
+  marketId: 'marketId',
+  marketName: 'marketName',
+  selection: 'selection',
+  line: 'line',
+  bookmakerId: 'bookmakerId',
+  price: 'price',
+  oddsSource: 'oddsSource',
+  probability: 'probability',
+  ev: 'ev',
+  stake: 'stake',
+  status: 'status',
+  profit: 'profit',
+  bankroll: 'bankroll'
+};
+
+exports.Prisma.WarehouseTeamScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  shortCode: 'shortCode',
+  imagePath: 'imagePath',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.WarehouseFixtureScalarFieldEnum = {
+  id: 'id',
+  leagueId: 'leagueId',
+  seasonId: 'seasonId',
+  stageId: 'stageId',
+  roundId: 'roundId',
+  venueId: 'venueId',
+  name: 'name',
+  startingAt: 'startingAt',
+  stateId: 'stateId',
+  state: 'state',
+  resultInfo: 'resultInfo',
+  homeTeamId: 'homeTeamId',
+  awayTeamId: 'awayTeamId',
+  homeGoals: 'homeGoals',
+  awayGoals: 'awayGoals',
+  refereeId: 'refereeId',
+  syncedAt: 'syncedAt'
+};
+
+exports.Prisma.WarehouseScoreScalarFieldEnum = {
+  id: 'id',
+  fixtureId: 'fixtureId',
+  teamId: 'teamId',
+  typeId: 'typeId',
+  description: 'description',
+  location: 'location',
+  goals: 'goals'
+};
+
+exports.Prisma.WarehouseStatisticScalarFieldEnum = {
+  id: 'id',
+  fixtureId: 'fixtureId',
+  teamId: 'teamId',
+  typeId: 'typeId',
+  location: 'location',
+  value: 'value'
+};
+
+exports.Prisma.WarehouseLineupScalarFieldEnum = {
+  id: 'id',
+  fixtureId: 'fixtureId',
+  teamId: 'teamId',
+  playerId: 'playerId',
+  playerName: 'playerName',
+  typeId: 'typeId',
+  positionId: 'positionId',
+  formationPosition: 'formationPosition',
+  jerseyNumber: 'jerseyNumber'
+};
+
+exports.Prisma.WarehouseEventScalarFieldEnum = {
+  id: 'id',
+  fixtureId: 'fixtureId',
+  teamId: 'teamId',
+  typeId: 'typeId',
+  playerId: 'playerId',
+  playerName: 'playerName',
+  relatedPlayerId: 'relatedPlayerId',
+  relatedPlayerName: 'relatedPlayerName',
+  minute: 'minute',
+  extraMinute: 'extraMinute',
+  result: 'result'
+};
+
+exports.Prisma.WarehouseSyncScalarFieldEnum = {
+  seasonId: 'seasonId',
+  leagueId: 'leagueId',
+  startDate: 'startDate',
+  endDate: 'endDate',
+  status: 'status',
+  error: 'error',
+  syncedThrough: 'syncedThrough',
+  fixturesIngested: 'fixturesIngested',
+  lastRunAt: 'lastRunAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.CacheEntryScalarFieldEnum = {
+  key: 'key',
+  value: 'value',
+  expiresAt: 'expiresAt',
+  updatedAt: 'updatedAt'
+};
+
 exports.Prisma.PasswordResetScalarFieldEnum = {
   id: 'id',
   userId: 'userId',
@@ -180,6 +432,15 @@ exports.Prisma.SortOrder = {
   desc: 'desc'
 };
 
+exports.Prisma.NullableJsonNullValueInput = {
+  DbNull: Prisma.DbNull,
+  JsonNull: Prisma.JsonNull
+};
+
+exports.Prisma.JsonNullValueInput = {
+  JsonNull: Prisma.JsonNull
+};
+
 exports.Prisma.QueryMode = {
   default: 'default',
   insensitive: 'insensitive'
@@ -189,6 +450,12 @@ exports.Prisma.NullsOrder = {
   first: 'first',
   last: 'last'
 };
+
+exports.Prisma.JsonNullValueFilter = {
+  DbNull: Prisma.DbNull,
+  JsonNull: Prisma.JsonNull,
+  AnyNull: Prisma.AnyNull
+};
 exports.OddsFormat = exports.$Enums.OddsFormat = {
   AMERICAN: 'AMERICAN',
   DECIMAL: 'DECIMAL',
@@ -214,10 +481,72 @@ exports.ContextType = exports.$Enums.ContextType = {
   general: 'general'
 };
 
+exports.BetStatus = exports.$Enums.BetStatus = {
+  PENDING: 'PENDING',
+  WON: 'WON',
+  LOST: 'LOST',
+  VOID: 'VOID'
+};
+
+exports.WatchlistEntityType = exports.$Enums.WatchlistEntityType = {
+  TEAM: 'TEAM',
+  LEAGUE: 'LEAGUE',
+  FIXTURE: 'FIXTURE'
+};
+
+exports.AlertEvent = exports.$Enums.AlertEvent = {
+  KICKOFF: 'KICKOFF',
+  GOAL: 'GOAL',
+  RED_CARD: 'RED_CARD',
+  LINEUPS_CONFIRMED: 'LINEUPS_CONFIRMED',
+  ODDS_DROP: 'ODDS_DROP'
+};
+
+exports.AlertChannel = exports.$Enums.AlertChannel = {
+  IN_APP: 'IN_APP',
+  EMAIL: 'EMAIL',
+  WEBHOOK: 'WEBHOOK'
+};
+
+exports.NotificationType = exports.$Enums.NotificationType = {
+  ALERT: 'ALERT'
+};
+
+exports.BacktestStatus = exports.$Enums.BacktestStatus = {
+  RUNNING: 'RUNNING',
+  COMPLETED: 'COMPLETED',
+  FAILED: 'FAILED'
+};
+
+exports.WarehouseSyncStatus = exports.$Enums.WarehouseSyncStatus = {
+  RUNNING: 'RUNNING',
+  INCOMPLETE: 'INCOMPLETE',
+  CURRENT: 'CURRENT',
+  COMPLETED: 'COMPLETED'
+};
+
 exports.Prisma.ModelName = {
   User: 'User',
   Note: 'Note',
   NoteLink: 'NoteLink',
+  Bet: 'Bet',
+  Watchlist: 'Watchlist',
+  AlertRule: 'AlertRule',
+  AlertTrigger: 'AlertTrigger',
+  Notification: 'Notification',
+  OddsSnapshot: 'OddsSnapshot',
+  TeamRating: 'TeamRating',
+  TeamRatingHistory: 'TeamRatingHistory',
+  Backtest: 'Backtest',
+  BacktestBet: 'BacktestBet',
+  WarehouseTeam: 'WarehouseTeam',
+  WarehouseFixture: 'WarehouseFixture',
+  WarehouseScore: 'WarehouseScore',
+  WarehouseStatistic: 'WarehouseStatistic',
+  WarehouseLineup: 'WarehouseLineup',
+  WarehouseEvent: 'WarehouseEvent',
+  WarehouseSync: 'WarehouseSync',
+  CacheEntry: 'CacheEntry',
   PasswordReset: 'PasswordReset',
   SportsMonksType: 'SportsMonksType'
 };
@@ -127,6 +127,258 @@ exports.Prisma.NoteLinkScalarFieldEnum = {
   createdAt: 'createdAt'
 };
 
+exports.Prisma.BetScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  fixtureId: 'fixtureId',
+  leagueId: 'leagueId',
+  fixtureName: 'fixtureName',
+  kickoffAt: 'kickoffAt',
+  marketId: 'marketId',
+  selection: 'selection',
+  line: 'line',
+  bookmakerId: 'bookmakerId',
+  price: 'price',
+  stake: 'stake',
+  placedAt: 'placedAt',
+  closingPrice: 'closingPrice',
+  closingPriceAt: 'closingPriceAt',
+  status: 'status',
+  profit: 'profit',
+  settledAt: 'settledAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.WatchlistScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  entityType: 'entityType',
+  entityId: 'entityId',
+  label: 'label',
+  kickoffAt: 'kickoffAt',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.AlertRuleScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  fixtureId: 'fixtureId',
+  teamId: 'teamId',
+  label: 'label',
+  kickoffAt: 'kickoffAt',
+  events: 'events',
+  channels: 'channels',
+  webhookUrl: 'webhookUrl',
+  oddsDropPercent: 'oddsDropPercent',
+  oddsMarketId: 'oddsMarketId',
+  active: 'active',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.AlertTriggerScalarFieldEnum = {
+  id: 'id',
+  ruleId: 'ruleId',
+  fixtureId: 'fixtureId',
+  event: 'event',
+  dedupeKey: 'dedupeKey',
+  title: 'title',
+  message: 'message',
+  data: 'data',
+  deliveries: 'deliveries',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.NotificationScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  type: 'type',
+  title: 'title',
+  message: 'message',
+  link: 'link',
+  triggerId: 'triggerId',
+  readAt: 'readAt',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.OddsSnapshotScalarFieldEnum = {
+  id: 'id',
+  fixtureId: 'fixtureId',
+  marketId: 'marketId',
+  bookmakerId: 'bookmakerId',
+  label: 'label',
+  line: 'line',
+  value: 'value',
+  capturedAt: 'capturedAt'
+};
+
+exports.Prisma.TeamRatingScalarFieldEnum = {
+  teamId: 'teamId',
+  teamName: 'teamName',
+  rating: 'rating',
+  matches: 'matches',
+  leagueId: 'leagueId',
+  lastPlayedAt: 'lastPlayedAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.TeamRatingHistoryScalarFieldEnum = {
+  id: 'id',
+  teamId: 'teamId',
+  fixtureId: 'fixtureId',
+  leagueId: 'leagueId',
+  seasonId: 'seasonId',
+  opponentId: 'opponentId',
+  isHome: 'isHome',
+  goalsFor: 'goalsFor',
+  goalsAgainst: 'goalsAgainst',
+  expected: 'expected',
+  ratingBefore: 'ratingBefore',
+  ratingAfter: 'ratingAfter',
+  playedAt: 'playedAt'
+};
+
+exports.Prisma.BacktestScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  name: 'name',
+  strategy: 'strategy',
+  startDate: 'startDate',
+  endDate: 'endDate',
+  status: 'status',
+  error: 'error',
+  fixturesScanned: 'fixturesScanned',
+  betCount: 'betCount',
+  won: 'won',
+  lost: 'lost',
+  voided: 'voided',
+  staked: 'staked',
+  profit: 'profit',
+  startingBankroll: 'startingBankroll',
+  finalBankroll: 'finalBankroll',
+  maxDrawdown: 'maxDrawdown',
+  maxDrawdownPercent: 'maxDrawdownPercent',
+  createdAt: 'createdAt',
+  completedAt: 'completedAt'
+};
+
+exports.Prisma.BacktestBetScalarFieldEnum = {
+  id: 'id',
+  backtestId: 'backtestId',
+  fixtureId: 'fixtureId',
+  fixtureName: 'fixtureName',
+  leagueId: 'leagueId',
+  kickoffAt: 'kickoffAt',
+  marketId: 'marketId',
+  marketName: 'marketName',
+  selection: 'selection',
+  line: 'line',
+  bookmakerId: 'bookmakerId',
+  price: 'price',
+  oddsSource: 'oddsSource',
+  probability: 'probability',
+  ev: 'ev',
+  stake: 'stake',
+  status: 'status',
+  profit: 'profit',
+  bankroll: 'bankroll'
+};
+
+exports.Prisma.WarehouseTeamScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  shortCode: 'shortCode',
+  imagePath: 'imagePath',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.WarehouseFixtureScalarFieldEnum = {
+  id: 'id',
+  leagueId: 'leagueId',
+  seasonId: 'seasonId',
+  stageId: 'stageId',
+  roundId: 'roundId',
+  venueId: 'venueId',
+  name: 'name',
+  startingAt: 'startingAt',
+  stateId: 'stateId',
+  state: 'state',
+  resultInfo: 'resultInfo',
+  homeTeamId: 'homeTeamId',
+  awayTeamId: 'awayTeamId',
+  homeGoals: 'homeGoals',
+  awayGoals: 'awayGoals',
+  refereeId: 'refereeId',
+  syncedAt: 'syncedAt'
+};
+
+exports.Prisma.WarehouseScoreScalarFieldEnum = {
+  id: 'id',
+  fixtureId: 'fixtureId',
+  teamId: 'teamId',
+  typeId: 'typeId',
+  description: 'description',
+  location: 'location',
+  goals: 'goals'
+};
+
+exports.Prisma.WarehouseStatisticScalarFieldEnum = {
+  id: 'id',
+  fixtureId: 'fixtureId',
+  teamId: 'teamId',
+  typeId: 'typeId',
+  location: 'location',
+  value: 'value'
+};
+
+exports.Prisma.WarehouseLineupScalarFieldEnum = {
+  id: 'id',
+  fixtureId: 'fixtureId',
+  teamId: 'teamId',
+  playerId: 'playerId',
+  playerName: 'playerName',
+  typeId: 'typeId',
+  positionId: 'positionId',
+  formationPosition: 'formationPosition',
+  jerseyNumber: 'jerseyNumber'
+};
+
+exports.Prisma.WarehouseEventScalarFieldEnum = {
+  id: 'id',
+  fixtureId: 'fixtureId',
+  teamId: 'teamId',
+  typeId: 'typeId',
+  playerId: 'playerId',
+  playerName: 'playerName',
+  relatedPlayerId: 'relatedPlayerId',
+  relatedPlayerName: 'relatedPlayerName',
+  minute: 'minute',
+  extraMinute: 'extraMinute',
+  result: 'result'
+};
+
+exports.Prisma.WarehouseSyncScalarFieldEnum = {
+  seasonId: 'seasonId',
+  leagueId: 'leagueId',
+  startDate: 'startDate',
+  endDate: 'endDate',
+  status: 'status',
+  error: 'error',
+  syncedThrough: 'syncedThrough',
+  fixturesIngested: 'fixturesIngested',
+  lastRunAt: 'lastRunAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.CacheEntryScalarFieldEnum = {
+  key: 'key',
+  value: 'value',
+  expiresAt: 'expiresAt',
+  updatedAt: 'updatedAt'
+};
+
 exports.Prisma.PasswordResetScalarFieldEnum = {
   id: 'id',
   userId: 'userId',
@@ -153,6 +405,15 @@ exports.Prisma.SortOrder = {
   desc: 'desc'
 };
 
+exports.Prisma.NullableJsonNullValueInput = {
+  DbNull: Prisma.DbNull,
+  JsonNull: Prisma.JsonNull
+};
+
+exports.Prisma.JsonNullValueInput = {
+  JsonNull: Prisma.JsonNull
+};
+
 exports.Prisma.QueryMode = {
   default: 'default',
   insensitive: 'insensitive'
@@ -162,6 +423,12 @@ exports.Prisma.NullsOrder = {
   first: 'first',
   last: 'last'
 };
+
+exports.Prisma.JsonNullValueFilter = {
+  DbNull: Prisma.DbNull,
+  JsonNull: Prisma.JsonNull,
+  AnyNull: Prisma.AnyNull
+};
 exports.OddsFormat = exports.$Enums.OddsFormat = {
   AMERICAN: 'AMERICAN',
   DECIMAL: 'DECIMAL',
@@ -187,10 +454,72 @@ exports.ContextType = exports.$Enums.ContextType = {
   general: 'general'
 };
 
+exports.BetStatus = exports.$Enums.BetStatus = {
+  PENDING: 'PENDING',
+  WON: 'WON',
+  LOST: 'LOST',
+  VOID: 'VOID'
+};
+
+exports.BacktestStatus = exports.$Enums.BacktestStatus = {
+  RUNNING: 'RUNNING',
+  COMPLETED: 'COMPLETED',
+  FAILED: 'FAILED'
+};
+
+exports.WarehouseSyncStatus = exports.$Enums.WarehouseSyncStatus = {
+  RUNNING: 'RUNNING',
+  INCOMPLETE: 'INCOMPLETE',
+  CURRENT: 'CURRENT',
+  COMPLETED: 'COMPLETED'
+};
+
+exports.WatchlistEntityType = exports.$Enums.WatchlistEntityType = {
+  TEAM: 'TEAM',
+  LEAGUE: 'LEAGUE',
+  FIXTURE: 'FIXTURE'
+};
+
+exports.AlertEvent = exports.$Enums.AlertEvent = {
+  KICKOFF: 'KICKOFF',
+  GOAL: 'GOAL',
+  RED_CARD: 'RED_CARD',
+  LINEUPS_CONFIRMED: 'LINEUPS_CONFIRMED',
+  ODDS_DROP: 'ODDS_DROP'
+};
+
+exports.AlertChannel = exports.$Enums.AlertChannel = {
+  IN_APP: 'IN_APP',
+  EMAIL: 'EMAIL',
+  WEBHOOK: 'WEBHOOK'
+};
+
+exports.NotificationType = exports.$Enums.NotificationType = {
+  ALERT: 'ALERT'
+};
+
 exports.Prisma.ModelName = {
   User: 'User',
   Note: 'Note',
   NoteLink: 'NoteLink',
+  Bet: 'Bet',
+  Watchlist: 'Watchlist',
+  AlertRule: 'AlertRule',
+  AlertTrigger: 'AlertTrigger',
+  Notification: 'Notification',
+  OddsSnapshot: 'OddsSnapshot',
+  TeamRating: 'TeamRating',
+  TeamRatingHistory: 'TeamRatingHistory',
+  Backtest: 'Backtest',
+  BacktestBet: 'BacktestBet',
+  WarehouseTeam: 'WarehouseTeam',
+  WarehouseFixture: 'WarehouseFixture',
+  WarehouseScore: 'WarehouseScore',
+  WarehouseStatistic: 'WarehouseStatistic',
+  WarehouseLineup: 'WarehouseLineup',
+  WarehouseEvent: 'WarehouseEvent',
+  WarehouseSync: 'WarehouseSync',
+  CacheEntry: 'CacheEntry',
   PasswordReset: 'PasswordReset',
   SportsMonksType: 'SportsMonksType'
 };
@@ -202,10 +531,10 @@ const config = {
   "clientVersion": "7.2.0",
   "engineVersion": "0c8ef2ce45c83248ab3df073180d5eda9e8be7a3",
   "activeProvider": "postgresql",
-  "inlineSchema": "// This tells Prisma which database type to use\ndatasource db {\n  provider = \"postgresql\"\n  // Note: URL is now configured in prisma.config.ts\n}\n\n// This tells Prisma to generate a JavaScript/TypeScript client\ngenerator client {\n  provider = \"prisma-client-js\"\n  output   = \"../src/generated/prisma\"\n}\n\n// ============================================\n// ENUMS\n// ============================================\n\n// Odds display format preference\n// - AMERICAN: +150, -110 (US style)\n// - DECIMAL: 2.50, 1.91 (European style)\n// - FRACTIONAL: 3/2, 10/11 (UK style)\nenum OddsFormat {\n  AMERICAN\n  DECIMAL\n  FRACTIONAL\n}\n\n// Date display format preference\n// - US: MM/DD/YYYY (e.g., 01/25/2026)\n// - EU: DD/MM/YYYY (e.g., 25/01/2026)\nenum DateFormat {\n  US\n  EU\n}\n\n// Temperature unit preference\n// - FAHRENHEIT: °F (US style)\n// - CELSIUS: °C (International style)\nenum TemperatureUnit {\n  FAHRENHEIT\n  CELSIUS\n}\n\n// Defines the allowed context types for notes\n// These map to the categories users can tag notes with:\n//   - team: Team-related research (e.g., Arsenal form analysis)\n//   - fixture: Match-specific notes (e.g., Arsenal vs Chelsea preview)\n//   - player: Player-focused research (e.g., Haaland goal patterns)\n//   - league: League/competition notes (e.g., Premier League trends)\n//   - betting: Betting strategy/system notes (e.g., BTTS research)\n//   - general: Uncategorized notes\nenum ContextType {\n  team\n  fixture\n  player\n  league\n  betting\n  general\n}\n\n// ============================================\n// MODELS\n// ============================================\n\n// Our User table\nmodel User {\n  id        String   @id @default(uuid())\n  email     String   @unique\n  password  String\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  // ============================================\n  // USER PREFERENCES\n  // ============================================\n  // Odds format: how betting odds are displayed\n  // Default: AMERICAN (US-style odds like +150, -110)\n  oddsFormat OddsFormat @default(AMERICAN)\n\n  // Timezone: IANA timezone string (e.g., \"America/New_York\")\n  // Used for displaying match times in user's local time\n  // Default: Eastern Time (US)\n  timezone String @default(\"America/New_York\")\n\n  // Date format: how dates are displayed\n  // Default: US (MM/DD/YYYY)\n  dateFormat DateFormat @default(US) @map(\"date_format\")\n\n  // Temperature unit: how temperatures are displayed\n  // Default: FAHRENHEIT (US style)\n  temperatureUnit TemperatureUnit @default(FAHRENHEIT) @map(\"temperature_unit\")\n\n  // ============================================\n  // ACCOUNT RECOVERY (Optional)\n  // ============================================\n  // Security question for backup account recovery\n  // (in case user can't access their email)\n  securityQuestion String? // e.g., \"What was your first pet's name?\"\n  securityAnswer   String? // Hashed answer (like password)\n\n  // ============================================\n  // ADMIN ACCESS\n  // ============================================\n  // Admin users can access protected endpoints like /admin/types/sync\n  // Default is false - admins must be manually promoted via database\n  isAdmin Boolean @default(false) @map(\"is_admin\")\n\n  // ============================================\n  // RELATIONSHIPS\n  // ============================================\n  // A user can have many notes\n  notes Note[]\n\n  // A user can have many password reset requests\n  passwordResets PasswordReset[]\n}\n\n// Our Note table\nmodel Note {\n  id        String   @id @default(uuid())\n  title     String\n  content   String\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  // Relationship: Each note belongs to one user\n  userId String\n  user   User   @relation(fields: [userId], references: [id])\n\n  // Relationship: A note can have many context links\n  links NoteLink[]\n}\n\n// Junction table: Links notes to multiple contexts (teams, fixtures, etc.)\nmodel NoteLink {\n  id          String      @id @default(uuid())\n  noteId      String\n  note        Note        @relation(fields: [noteId], references: [id], onDelete: Cascade)\n  contextType ContextType\n  contextId   String // SportsMonks ID (empty string for general/category-only)\n  label       String? // Human-readable name (e.g., \"Arsenal\" instead of just \"19\")\n  isPrimary   Boolean     @default(false)\n  createdAt   DateTime    @default(now())\n\n  // Ensure a note doesn't link to the same context twice\n  @@unique([noteId, contextType, contextId])\n}\n\n// ============================================\n// PASSWORD RESET\n// ============================================\n// Stores password reset tokens for email-based account recovery.\n// Tokens are hashed (like passwords) for security.\n// Each token can only be used once and expires after 1 hour.\nmodel PasswordReset {\n  id String @id @default(uuid())\n\n  // The user requesting the password reset\n  userId String\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  // The reset token (hashed for security)\n  // The unhashed token is sent to the user's email\n  token String\n\n  // When this token expires (typically 1 hour from creation)\n  expiresAt DateTime\n\n  // Whether this token has been used\n  // Once used, it cannot be used again\n  used Boolean @default(false)\n\n  // Timestamps\n  createdAt DateTime @default(now())\n}\n\n// ============================================\n// SPORTSMONKS TYPES (Reference/Lookup Data)\n// ============================================\n// Stores all SportsMonks type definitions locally.\n// This follows SportsMonks best practice: fetch types once and store locally\n// instead of including .type on every API call.\n//\n// Types are used throughout the SportsMonks API to identify:\n// - Event types (Goal, Yellow Card, Substitution)\n// - Statistic types (Corners, Shots On Target, Possession)\n// - Injury/suspension types (Hamstring Injury, Red Card Suspension)\n// - Position types (Goalkeeper, Midfielder, Centre Back)\n// - Prediction types (BTTS Probability, Over/Under)\n// - And many more categories...\n//\n// The 'id' field uses SportsMonks' ID (not auto-generated) so we can\n// directly look up types by the IDs returned from API responses.\nmodel SportsMonksType {\n  // SportsMonks type ID (NOT auto-generated - we use their IDs)\n  id Int @id\n\n  // Parent type ID for hierarchical relationships\n  // Example: \"Hamstring Injury\" (id: 535) has parentId: 629 (\"Injury\")\n  parentId Int? @map(\"parent_id\")\n\n  // Human-readable name (e.g., \"Shots On Target\")\n  name String\n\n  // Kebab-case code (e.g., \"shots-on-target\")\n  code String\n\n  // UPPER_SNAKE_CASE constant (e.g., \"SHOTS_ON_TARGET\")\n  developerName String @map(\"developer_name\")\n\n  // Category this type belongs to:\n  // event, statistic, injury_suspension, position, prediction,\n  // standings, standing_rule, period, referee, lineup, metadata,\n  // stage_type, sub_event, tie_breaker_rule, timeline, transfer, highlight\n  modelType String @map(\"model_type\")\n\n  // Sub-grouping within modelType (nullable)\n  // Examples: \"goals\", \"cards\", \"subs\" for events\n  //           \"offensive\", \"defensive\" for statistics\n  group String?\n\n  // Statistical grouping for standings/stats (nullable)\n  // Values: \"overall\", \"home\", \"away\", \"offensive\", \"defensive\"\n  statGroup String? @map(\"stat_group\")\n\n  // When this type was last synced from SportsMonks\n  lastSyncedAt DateTime @default(now()) @map(\"last_synced_at\")\n\n  // Self-referencing relationship for parent/child hierarchy\n  parent   SportsMonksType?  @relation(\"TypeHierarchy\", fields: [parentId], references: [id])\n  children SportsMonksType[] @relation(\"TypeHierarchy\")\n\n  // Indexes for fast lookups\n  @@index([modelType])\n  @@index([code])\n  @@index([developerName])\n  // Use snake_case table name (PostgreSQL convention)\n  @@map(\"sportsmonks_types\")\n}\n"
+  "inlineSchema": "// This tells Prisma which database type to use\ndatasource db {\n  provider = \"postgresql\"\n  // Note: URL is now configured in prisma.config.ts\n}\n\n// This tells Prisma to generate a JavaScript/TypeScript client\ngenerator client {\n  provider = \"prisma-client-js\"\n  output   = \"../src/generated/prisma\"\n}\n\n// ============================================\n// ENUMS\n// ============================================\n\n// Odds display format preference\n// - AMERICAN: +150, -110 (US style)\n// - DECIMAL: 2.50, 1.91 (European style)\n// - FRACTIONAL: 3/2, 10/11 (UK style)\nenum OddsFormat {\n  AMERICAN\n  DECIMAL\n  FRACTIONAL\n}\n\n// Date display format preference\n// - US: MM/DD/YYYY (e.g., 01/25/2026)\n// - EU: DD/MM/YYYY (e.g., 25/01/2026)\nenum DateFormat {\n  US\n  EU\n}\n\n// Temperature unit preference\n// - FAHRENHEIT: °F (US style)\n// - CELSIUS: °C (International style)\nenum TemperatureUnit {\n  FAHRENHEIT\n  CELSIUS\n}\n\n// Defines the allowed context types for notes\n// These map to the categories users can tag notes with:\n//   - team: Team-related research (e.g., Arsenal form analysis)\n//   - fixture: Match-specific notes (e.g., Arsenal vs Chelsea preview)\n//   - player: Player-focused research (e.g., Haaland goal patterns)\n//   - league: League/competition notes (e.g., Premier League trends)\n//   - betting: Betting strategy/system notes (e.g., BTTS research)\n//   - general: Uncategorized notes\nenum ContextType {\n  team\n  fixture\n  player\n  league\n  betting\n  general\n}\n\n// Lifecycle of a recorded bet\n// - PENDING: placed, fixture not yet settled\n// - WON: selection won (profit = stake * (price - 1))\n// - LOST: selection lost (profit = -stake)\n// - VOID: stake returned (push on a whole line, abandoned match, etc.)\nenum BetStatus {\n  PENDING\n  WON\n  LOST\n  VOID\n}\n\n// Lifecycle of a strategy backtest run\n// - RUNNING: replaying fixtures in the background\n// - COMPLETED: results and simulated bets stored\n// - FAILED: stopped with an error (see Backtest.error)\nenum BacktestStatus {\n  RUNNING\n  COMPLETED\n  FAILED\n}\n\n// Where a season's warehouse ingestion has got to\nenum WarehouseSyncStatus {\n  RUNNING // Being ingested now\n  INCOMPLETE // Stopped early (error or restart) - resumes from syncedThrough\n  CURRENT // Ingested up to the last run; the season is still being played\n  COMPLETED // Finished season, fully ingested\n}\n\n// What a watchlist entry follows (all SportsMonks IDs)\nenum WatchlistEntityType {\n  TEAM\n  LEAGUE\n  FIXTURE\n}\n\n// What an alert rule fires on\nenum AlertEvent {\n  KICKOFF // The fixture is in play\n  GOAL // Goal, own goal or penalty scored\n  RED_CARD // Straight red or second yellow\n  LINEUPS_CONFIRMED // Official lineups published (metadata type 572)\n  ODDS_DROP // A price shortened by at least oddsDropPercent\n}\n\n// Where an alert is delivered\nenum AlertChannel {\n  IN_APP\n  EMAIL\n  WEBHOOK\n}\n\n// What put a message in the notification inbox\nenum NotificationType {\n  ALERT // A match alert delivered in-app\n}\n\n// ============================================\n// MODELS\n// ============================================\n\n// Our User table\nmodel User {\n  id        String   @id @default(uuid())\n  email     String   @unique\n  password  String\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  // ============================================\n  // USER PREFERENCES\n  // ============================================\n  // Odds format: how betting odds are displayed\n  // Default: AMERICAN (US-style odds like +150, -110)\n  oddsFormat OddsFormat @default(AMERICAN)\n\n  // Timezone: IANA timezone string (e.g., \"America/New_York\")\n  // Used for displaying match times in user's local time\n  // Default: Eastern Time (US)\n  timezone String @default(\"America/New_York\")\n\n  // Date format: how dates are displayed\n  // Default: US (MM/DD/YYYY)\n  dateFormat DateFormat @default(US) @map(\"date_format\")\n\n  // Temperature unit: how temperatures are displayed\n  // Default: FAHRENHEIT (US style)\n  temperatureUnit TemperatureUnit @default(FAHRENHEIT) @map(\"temperature_unit\")\n\n  // ============================================\n  // ACCOUNT RECOVERY (Optional)\n  // ============================================\n  // Security question for backup account recovery\n  // (in case user can't access their email)\n  securityQuestion String? // e.g., \"What was your first pet's name?\"\n  securityAnswer   String? // Hashed answer (like password)\n\n  // ============================================\n  // ADMIN ACCESS\n  // ============================================\n  // Admin users can access protected endpoints like /admin/types/sync\n  // Default is false - admins must be manually promoted via database\n  isAdmin Boolean @default(false) @map(\"is_admin\")\n\n  // ============================================\n  // RELATIONSHIPS\n  // ============================================\n  // A user can have many notes\n  notes Note[]\n\n  // A user can have many password reset requests\n  passwordResets PasswordReset[]\n\n  // A user can record many bets in their journal\n  bets Bet[]\n\n  // A user can run many strategy backtests\n  backtests Backtest[]\n\n  // A user can follow many teams, leagues and fixtures\n  watchlist Watchlist[]\n\n  // A user can have many match alert rules\n  alertRules AlertRule[]\n\n  // A user's in-app notification inbox\n  notifications Notification[]\n}\n\n// Our Note table\nmodel Note {\n  id        String   @id @default(uuid())\n  title     String\n  content   String\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  // Relationship: Each note belongs to one user\n  userId String\n  user   User   @relation(fields: [userId], references: [id])\n\n  // Relationship: A note can have many context links\n  links NoteLink[]\n\n  // Full-text search: title (weight A) + content (weight B), generated\n  // by Postgres (see migration add_note_search, services/noteSearch.ts)\n  searchVector Unsupported(\"tsvector\")?\n\n  @@index([searchVector], type: Gin)\n}\n\n// Junction table: Links notes to multiple contexts (teams, fixtures, etc.)\nmodel NoteLink {\n  id          String      @id @default(uuid())\n  noteId      String\n  note        Note        @relation(fields: [noteId], references: [id], onDelete: Cascade)\n  contextType ContextType\n  contextId   String // SportsMonks ID (empty string for general/category-only)\n  label       String? // Human-readable name (e.g., \"Arsenal\" instead of just \"19\")\n  isPrimary   Boolean     @default(false)\n  createdAt   DateTime    @default(now())\n\n  // Full-text search: label (weight C), generated by Postgres\n  searchVector Unsupported(\"tsvector\")?\n\n  // Ensure a note doesn't link to the same context twice\n  @@unique([noteId, contextType, contextId])\n  @@index([searchVector], type: Gin)\n}\n\n// ============================================\n// BET JOURNAL\n// ============================================\n// Records bets the user has placed elsewhere (BetSmoke never places bets).\n// Fixture, market and bookmaker IDs are SportsMonks IDs so a bet can be\n// matched back to fixture results and odds.\n//\n// Bets are settled automatically once the fixture reaches FT\n// (see src/services/settlement.ts), or manually via PUT /bets/:id.\nmodel Bet {\n  id String @id @default(uuid())\n\n  // The user who recorded this bet\n  userId String @map(\"user_id\")\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  // SportsMonks fixture the bet is on\n  fixtureId Int @map(\"fixture_id\")\n\n  // Fixture context, looked up from SportsMonks when the bet is recorded\n  // (used for league breakdowns in analytics and for display)\n  leagueId    Int?      @map(\"league_id\")\n  fixtureName String?   @map(\"fixture_name\") // e.g., \"Arsenal vs Chelsea\"\n  kickoffAt   DateTime? @map(\"kickoff_at\") // Used to schedule closing price capture\n\n  // SportsMonks odds market (e.g., 1 = Fulltime Result, 14 = BTTS)\n  marketId Int @map(\"market_id\")\n\n  // Selection label as shown by the bookmaker (e.g., \"1\", \"X\", \"Over 2.5\", \"Yes\")\n  selection String\n\n  // Total/handicap line for line markets (e.g., 2.5 for \"Over 2.5\")\n  // Optional - parsed from the selection label when not provided\n  line Float?\n\n  // SportsMonks bookmaker the bet was placed with\n  bookmakerId Int @map(\"bookmaker_id\")\n\n  // Decimal price taken (e.g., 2.10) and amount staked\n  price Float\n  stake Float\n\n  // When the bet was placed (defaults to when it was recorded)\n  placedAt DateTime @default(now()) @map(\"placed_at\")\n\n  // Closing line - the same selection's price at the same bookmaker,\n  // captured shortly before kickoff (null until captured)\n  closingPrice   Float?    @map(\"closing_price\")\n  closingPriceAt DateTime? @map(\"closing_price_at\")\n\n  // Settlement\n  status    BetStatus @default(PENDING)\n  profit    Float? // Net profit/loss once settled (null while pending)\n  settledAt DateTime? @map(\"settled_at\")\n\n  // Timestamps\n  createdAt DateTime @default(now()) @map(\"created_at\")\n  updatedAt DateTime @updatedAt @map(\"updated_at\")\n\n  @@index([userId])\n  @@index([status])\n  @@index([fixtureId])\n  @@index([kickoffAt])\n  @@map(\"bets\")\n}\n\n// ============================================\n// WATCHLIST\n// ============================================\n// Teams, leagues and fixtures a user follows. One row per followed\n// entity; the \"My fixtures\" feed (GET /watchlist/fixtures) only asks\n// SportsMonks about these.\nmodel Watchlist {\n  id String @id @default(uuid())\n\n  // The user following the entity\n  userId String @map(\"user_id\")\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  // SportsMonks team, league or fixture ID\n  entityType WatchlistEntityType @map(\"entity_type\")\n  entityId   Int                 @map(\"entity_id\")\n\n  // Display name (e.g., \"Arsenal\", \"Premier League\", \"Arsenal vs Chelsea\")\n  label String?\n\n  // Kickoff of a followed fixture, so the feed knows which date ranges\n  // it falls in (null for teams and leagues)\n  kickoffAt DateTime? @map(\"kickoff_at\")\n\n  createdAt DateTime @default(now()) @map(\"created_at\")\n\n  // Following the same entity twice is a no-op\n  @@unique([userId, entityType, entityId])\n  @@index([entityType, entityId])\n  @@map(\"watchlists\")\n}\n\n// ============================================\n// MATCH ALERTS\n// ============================================\n// AlertRule: what a user wants to hear about for one fixture or every\n// fixture of one team, and where to send it. AlertTrigger: one row per\n// alert fired, unique per rule + dedupeKey (e.g. \"goal:119002201\") so a\n// goal is never alerted twice, with the result of each channel.\nmodel AlertRule {\n  id String @id @default(uuid())\n\n  userId String @map(\"user_id\")\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  // Exactly one of fixtureId / teamId is set (SportsMonks IDs)\n  fixtureId Int? @map(\"fixture_id\")\n  teamId    Int? @map(\"team_id\")\n\n  // Fixture or team name, and a fixture's kickoff (looked up on create)\n  label     String?\n  kickoffAt DateTime? @map(\"kickoff_at\")\n\n  events     AlertEvent[]\n  channels   AlertChannel[]\n  webhookUrl String?        @map(\"webhook_url\")\n\n  // ODDS_DROP: minimum drop from the first stored price, in one market\n  oddsDropPercent Float? @map(\"odds_drop_percent\")\n  oddsMarketId    Int    @default(1) @map(\"odds_market_id\")\n\n  active Boolean @default(true)\n\n  triggers AlertTrigger[]\n\n  createdAt DateTime @default(now()) @map(\"created_at\")\n  updatedAt DateTime @updatedAt @map(\"updated_at\")\n\n  @@index([userId])\n  @@index([active])\n  @@map(\"alert_rules\")\n}\n\nmodel AlertTrigger {\n  id String @id @default(uuid())\n\n  ruleId String    @map(\"rule_id\")\n  rule   AlertRule @relation(fields: [ruleId], references: [id], onDelete: Cascade)\n\n  fixtureId Int        @map(\"fixture_id\")\n  event     AlertEvent\n  dedupeKey String     @map(\"dedupe_key\")\n\n  title   String\n  message String\n\n  // Event details (score, player, prices...) sent to webhooks as-is\n  data Json?\n\n  // One { channel, success, error? } per channel the alert went to\n  deliveries Json?\n\n  // The in-app notification for this alert (IN_APP channel)\n  notifications Notification[]\n\n  createdAt DateTime @default(now()) @map(\"created_at\")\n\n  @@unique([ruleId, dedupeKey])\n  @@index([ruleId, createdAt])\n  @@map(\"alert_triggers\")\n}\n\n// ============================================\n// NOTIFICATIONS\n// ============================================\n// The in-app inbox: one row per message for one user, unread until\n// readAt is set. Match alerts delivered IN_APP land here; the link to\n// the fired alert is cleared if its rule is deleted, the message stays.\nmodel Notification {\n  id String @id @default(uuid())\n\n  userId String @map(\"user_id\")\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  type    NotificationType\n  title   String\n  message String\n\n  // Frontend path the notification opens (e.g. \"/fixtures/19135049\")\n  link String?\n\n  triggerId String?       @map(\"trigger_id\")\n  trigger   AlertTrigger? @relation(fields: [triggerId], references: [id], onDelete: SetNull)\n\n  readAt    DateTime? @map(\"read_at\")\n  createdAt DateTime  @default(now()) @map(\"created_at\")\n\n  @@index([userId, createdAt])\n  @@index([userId, readAt])\n  @@map(\"notifications\")\n}\n\n// ============================================\n// ODDS SNAPSHOTS\n// ============================================\n// Historical pre-match odds for fixtures in watched leagues.\n// The snapshotter polls SportsMonks on a schedule and stores a row\n// only when a price changes, so each row is a point of line movement.\nmodel OddsSnapshot {\n  id String @id @default(uuid())\n\n  // SportsMonks IDs\n  fixtureId   Int @map(\"fixture_id\")\n  marketId    Int @map(\"market_id\")\n  bookmakerId Int @map(\"bookmaker_id\")\n\n  // Selection label as returned by SportsMonks (e.g., \"1\", \"Over\", \"Yes\")\n  label String\n\n  // Total/handicap for line markets (e.g., \"2.5\"), null otherwise\n  line String?\n\n  // Decimal price at the time of the snapshot\n  value Float\n\n  // When this price was seen\n  capturedAt DateTime @default(now()) @map(\"captured_at\")\n\n  @@index([fixtureId, marketId])\n  @@index([fixtureId, capturedAt])\n  @@map(\"odds_snapshots\")\n}\n\n// ============================================\n// TEAM RATINGS (ELO)\n// ============================================\n// Elo ratings built from finished results in the rated leagues.\n// TeamRating holds each team's current rating; TeamRatingHistory has\n// one row per team per rated fixture (rating before and after), which\n// is what the rating chart and league tables are built from.\nmodel TeamRating {\n  // SportsMonks team ID\n  teamId   Int    @id @map(\"team_id\")\n  teamName String @map(\"team_name\")\n\n  // Current rating and number of rated matches\n  rating  Float\n  matches Int   @default(0)\n\n  // League and kickoff of the team's most recent rated match\n  leagueId     Int      @map(\"league_id\")\n  lastPlayedAt DateTime @map(\"last_played_at\")\n\n  updatedAt DateTime @updatedAt @map(\"updated_at\")\n\n  @@index([leagueId])\n  @@map(\"team_ratings\")\n}\n\nmodel TeamRatingHistory {\n  id String @id @default(uuid())\n\n  // SportsMonks IDs\n  teamId     Int @map(\"team_id\")\n  fixtureId  Int @map(\"fixture_id\")\n  leagueId   Int @map(\"league_id\")\n  seasonId   Int @map(\"season_id\")\n  opponentId Int @map(\"opponent_id\")\n\n  // Result from this team's point of view (90-minute score)\n  isHome       Boolean @map(\"is_home\")\n  goalsFor     Int     @map(\"goals_for\")\n  goalsAgainst Int     @map(\"goals_against\")\n\n  // Pre-match win expectancy and the rating change\n  expected     Float\n  ratingBefore Float @map(\"rating_before\")\n  ratingAfter  Float @map(\"rating_after\")\n\n  playedAt DateTime @map(\"played_at\")\n\n  @@unique([teamId, fixtureId])\n  @@index([teamId, playedAt])\n  @@index([leagueId, seasonId])\n  @@map(\"team_rating_history\")\n}\n\n// ============================================\n// BACKTESTS\n// ============================================\n// A backtest replays a betting strategy (league/market/odds/edge filters\n// plus a stake rule) over finished fixtures, pricing SportsMonks\n// predictions against stored pre-match odds (see src/services/backtests.ts).\n// The run keeps the strategy and headline results; every simulated bet\n// is a BacktestBet row with the running bankroll.\nmodel Backtest {\n  id String @id @default(uuid())\n\n  // The user who ran this backtest\n  userId String @map(\"user_id\")\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  name String\n\n  // Strategy as submitted (filters + stake rule)\n  strategy Json\n\n  // Fixtures kicking off in this date range are replayed\n  startDate DateTime @map(\"start_date\")\n  endDate   DateTime @map(\"end_date\")\n\n  status BacktestStatus @default(RUNNING)\n  error  String?\n\n  // Results (filled in when the run completes)\n  fixturesScanned    Int    @default(0) @map(\"fixtures_scanned\")\n  betCount           Int    @default(0) @map(\"bet_count\")\n  won                Int    @default(0)\n  lost               Int    @default(0)\n  voided             Int    @default(0)\n  staked             Float  @default(0)\n  profit             Float  @default(0)\n  startingBankroll   Float  @map(\"starting_bankroll\")\n  finalBankroll      Float? @map(\"final_bankroll\")\n  maxDrawdown        Float? @map(\"max_drawdown\")\n  maxDrawdownPercent Float? @map(\"max_drawdown_percent\")\n\n  bets BacktestBet[]\n\n  createdAt   DateTime  @default(now()) @map(\"created_at\")\n  completedAt DateTime? @map(\"completed_at\")\n\n  @@index([userId])\n  @@map(\"backtests\")\n}\n\nmodel BacktestBet {\n  id String @id @default(uuid())\n\n  backtestId String   @map(\"backtest_id\")\n  backtest   Backtest @relation(fields: [backtestId], references: [id], onDelete: Cascade)\n\n  // SportsMonks fixture context\n  fixtureId   Int      @map(\"fixture_id\")\n  fixtureName String?  @map(\"fixture_name\")\n  leagueId    Int?     @map(\"league_id\")\n  kickoffAt   DateTime @map(\"kickoff_at\")\n\n  // Selection, as named by the value bet finder (e.g., \"Home\", \"Over 2.5\")\n  marketId   Int    @map(\"market_id\")\n  marketName String @map(\"market_name\")\n  selection  String\n  line       Float?\n\n  // Best price found and where it came from (\"snapshot\" or \"sportsmonks\")\n  bookmakerId Int    @map(\"bookmaker_id\")\n  price       Float\n  oddsSource  String @map(\"odds_source\")\n\n  // Model probability (0-1) and EV (%) at that price\n  probability Float\n  ev          Float\n\n  // Simulated stake, result and bankroll after settlement\n  stake    Float\n  status   BetStatus\n  profit   Float\n  bankroll Float\n\n  @@index([backtestId, kickoffAt])\n  @@map(\"backtest_bets\")\n}\n\n// ============================================\n// WAREHOUSE\n// ============================================\n// Local copy of fixtures, scores, statistics, lineups and events for the\n// warehouse leagues, so historical queries don't need SportsMonks (see\n// src/services/warehouse.ts). IDs are SportsMonks IDs. A fixture's\n// details are replaced as a whole each time it's ingested.\nmodel WarehouseTeam {\n  // SportsMonks team ID\n  id        Int     @id\n  name      String\n  shortCode String? @map(\"short_code\")\n  imagePath String? @map(\"image_path\")\n\n  updatedAt DateTime @updatedAt @map(\"updated_at\")\n\n  @@map(\"warehouse_teams\")\n}\n\nmodel WarehouseFixture {\n  // SportsMonks fixture ID\n  id Int @id\n\n  leagueId Int  @map(\"league_id\")\n  seasonId Int  @map(\"season_id\")\n  stageId  Int? @map(\"stage_id\")\n  roundId  Int? @map(\"round_id\")\n  venueId  Int? @map(\"venue_id\")\n\n  name       String // e.g., \"Arsenal vs Chelsea\"\n  startingAt DateTime? @map(\"starting_at\")\n\n  // Match state (e.g., state \"FT\", stateId 5)\n  stateId    Int     @map(\"state_id\")\n  state      String?\n  resultInfo String? @map(\"result_info\")\n\n  homeTeamId Int? @map(\"home_team_id\")\n  awayTeamId Int? @map(\"away_team_id\")\n\n  // 90-minute score, null until the match is finished\n  homeGoals Int? @map(\"home_goals\")\n  awayGoals Int? @map(\"away_goals\")\n\n  // SportsMonks ID of the referee (not the assistants), when known\n  refereeId Int? @map(\"referee_id\")\n\n  scores     WarehouseScore[]\n  statistics WarehouseStatistic[]\n  lineups    WarehouseLineup[]\n  events     WarehouseEvent[]\n\n  syncedAt DateTime @updatedAt @map(\"synced_at\")\n\n  @@index([leagueId, seasonId])\n  @@index([homeTeamId, startingAt])\n  @@index([awayTeamId, startingAt])\n  @@index([startingAt])\n  @@index([refereeId, startingAt])\n  @@map(\"warehouse_fixtures\")\n}\n\nmodel WarehouseScore {\n  // SportsMonks score ID\n  id        Int              @id\n  fixtureId Int              @map(\"fixture_id\")\n  fixture   WarehouseFixture @relation(fields: [fixtureId], references: [id], onDelete: Cascade)\n\n  teamId      Int    @map(\"team_id\")\n  typeId      Int    @map(\"type_id\")\n  description String // e.g., \"CURRENT\", \"1ST_HALF\", \"2ND_HALF\"\n  location    String // \"home\" or \"away\"\n  goals       Int\n\n  @@index([fixtureId])\n  @@map(\"warehouse_scores\")\n}\n\nmodel WarehouseStatistic {\n  // SportsMonks statistic ID\n  id        Int              @id\n  fixtureId Int              @map(\"fixture_id\")\n  fixture   WarehouseFixture @relation(fields: [fixtureId], references: [id], onDelete: Cascade)\n\n  teamId   Int?    @map(\"team_id\")\n  typeId   Int     @map(\"type_id\") // e.g., 34 = corners\n  location String? // \"home\" or \"away\"\n\n  // Numeric value (null when SportsMonks sends text)\n  value Float?\n\n  @@index([fixtureId])\n  @@index([teamId, typeId])\n  @@map(\"warehouse_statistics\")\n}\n\nmodel WarehouseLineup {\n  // SportsMonks lineup ID\n  id        Int              @id\n  fixtureId Int              @map(\"fixture_id\")\n  fixture   WarehouseFixture @relation(fields: [fixtureId], references: [id], onDelete: Cascade)\n\n  teamId            Int     @map(\"team_id\")\n  playerId          Int     @map(\"player_id\")\n  playerName        String? @map(\"player_name\")\n  typeId            Int?    @map(\"type_id\") // 11 = starting XI, 12 = bench\n  positionId        Int?    @map(\"position_id\")\n  formationPosition Int?    @map(\"formation_position\")\n  jerseyNumber      Int?    @map(\"jersey_number\")\n\n  @@index([fixtureId])\n  @@index([playerId])\n  @@map(\"warehouse_lineups\")\n}\n\nmodel WarehouseEvent {\n  // SportsMonks event ID\n  id        Int              @id\n  fixtureId Int              @map(\"fixture_id\")\n  fixture   WarehouseFixture @relation(fields: [fixtureId], references: [id], onDelete: Cascade)\n\n  teamId            Int?    @map(\"team_id\")\n  typeId            Int     @map(\"type_id\") // e.g., 14 = goal, 19 = yellow card\n  playerId          Int?    @map(\"player_id\")\n  playerName        String? @map(\"player_name\")\n  relatedPlayerId   Int?    @map(\"related_player_id\")\n  relatedPlayerName String? @map(\"related_player_name\")\n  minute            Int?\n  extraMinute       Int?    @map(\"extra_minute\")\n  result            String? // Score after a goal, e.g. \"1-0\"\n\n  @@index([fixtureId])\n  @@index([playerId])\n  @@map(\"warehouse_events\")\n}\n\n// One row per ingested season. Ingestion walks the season in date\n// windows and moves syncedThrough forward after each one, so a run\n// that stops early picks up where it left off.\nmodel WarehouseSync {\n  // SportsMonks season ID\n  seasonId Int @id @map(\"season_id\")\n  leagueId Int @map(\"league_id\")\n\n  // Season dates as given by SportsMonks\n  startDate DateTime @map(\"start_date\")\n  endDate   DateTime @map(\"end_date\")\n\n  status WarehouseSyncStatus @default(RUNNING)\n  error  String?\n\n  // Last day whose fixtures are stored (null until the first window is done)\n  syncedThrough DateTime? @map(\"synced_through\")\n\n  // Fixtures stored by all runs so far (re-ingested fixtures count again)\n  fixturesIngested Int @default(0) @map(\"fixtures_ingested\")\n\n  lastRunAt DateTime? @map(\"last_run_at\")\n  createdAt DateTime  @default(now()) @map(\"created_at\")\n  updatedAt DateTime  @updatedAt @map(\"updated_at\")\n\n  @@index([leagueId])\n  @@map(\"warehouse_syncs\")\n}\n\n// ============================================\n// CACHE ENTRIES\n// ============================================\n// Backing store for the Postgres cache backend (CACHE_BACKEND=postgres,\n// or when Redis is selected but unreachable). Lets cached SportsMonks\n// data such as corner averages and season dates survive restarts and\n// be shared between backend instances. See src/services/cacheBackends.ts.\nmodel CacheEntry {\n  key String @id\n\n  // Cached value (JSON-serialized)\n  value Json\n\n  // Entry is ignored (and purged) after this time; null = no expiry\n  expiresAt DateTime? @map(\"expires_at\")\n\n  updatedAt DateTime @updatedAt @map(\"updated_at\")\n\n  @@index([expiresAt])\n  @@map(\"cache_entries\")\n}\n\n// ============================================\n// PASSWORD RESET\n// ============================================\n// Stores password reset tokens for email-based account recovery.\n// Tokens are hashed (like passwords) for security.\n// Each token can only be used once and expires after 1 hour.\nmodel PasswordReset {\n  id String @id @default(uuid())\n\n  // The user requesting the password reset\n  userId String\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  // The reset token (hashed for security)\n  // The unhashed token is sent to the user's email\n  token String\n\n  // When this token expires (typically 1 hour from creation)\n  expiresAt DateTime\n\n  // Whether this token has been used\n  // Once used, it cannot be used again\n  used Boolean @default(false)\n\n  // Timestamps\n  createdAt DateTime @default(now())\n}\n\n// ============================================\n// SPORTSMONKS TYPES (Reference/Lookup Data)\n// ============================================\n// Stores all SportsMonks type definitions locally.\n// This follows SportsMonks best practice: fetch types once and store locally\n// instead of including .type on every API call.\n//\n// Types are used throughout the SportsMonks API to identify:\n// - Event types (Goal, Yellow Card, Substitution)\n// - Statistic types (Corners, Shots On Target, Possession)\n// - Injury/suspension types (Hamstring Injury, Red Card Suspension)\n// - Position types (Goalkeeper, Midfielder, Centre Back)\n// - Prediction types (BTTS Probability, Over/Under)\n// - And many more categories...\n//\n// The 'id' field uses SportsMonks' ID (not auto-generated) so we can\n// directly look up types by the IDs returned from API responses.\nmodel SportsMonksType {\n  // SportsMonks type ID (NOT auto-generated - we use their IDs)\n  id Int @id\n\n  // Parent type ID for hierarchical relationships\n  // Example: \"Hamstring Injury\" (id: 535) has parentId: 629 (\"Injury\")\n  parentId Int? @map(\"parent_id\")\n\n  // Human-readable name (e.g., \"Shots On Target\")\n  name String\n\n  // Kebab-case code (e.g., \"shots-on-target\")\n  code String\n\n  // UPPER_SNAKE_CASE constant (e.g., \"SHOTS_ON_TARGET\")\n  developerName String @map(\"developer_name\")\n\n  // Category this type belongs to:\n  // event, statistic, injury_suspension, position, prediction,\n  // standings, standing_rule, period, referee, lineup, metadata,\n  // stage_type, sub_event, tie_breaker_rule, timeline, transfer, highlight\n  modelType String @map(\"model_type\")\n\n  // Sub-grouping within modelType (nullable)\n  // Examples: \"goals\", \"cards\", \"subs\" for events\n  //           \"offensive\", \"defensive\" for statistics\n  group String?\n\n  // Statistical grouping for standings/stats (nullable)\n  // Values: \"overall\", \"home\", \"away\", \"offensive\", \"defensive\"\n  statGroup String? @map(\"stat_group\")\n\n  // When this type was last synced from SportsMonks\n  lastSyncedAt DateTime @default(now()) @map(\"last_synced_at\")\n\n  // Self-referencing relationship for parent/child hierarchy\n  parent   SportsMonksType?  @relation(\"TypeHierarchy\", fields: [parentId], references: [id])\n  children SportsMonksType[] @relation(\"TypeHierarchy\")\n\n  // Indexes for fast lookups\n  @@index([modelType])\n  @@index([code])\n  @@index([developerName])\n  // Use snake_case table name (PostgreSQL convention)\n  @@map(\"sportsmonks_types\")\n}\n"
 }
 
-config.runtimeDataModel = JSON.parse("{\"models\":{\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"password\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"oddsFormat\",\"kind\":\"enum\",\"type\":\"OddsFormat\"},{\"name\":\"timezone\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"dateFormat\",\"kind\":\"enum\",\"type\":\"DateFormat\",\"dbName\":\"date_format\"},{\"name\":\"temperatureUnit\",\"kind\":\"enum\",\"type\":\"TemperatureUnit\",\"dbName\":\"temperature_unit\"},{\"name\":\"securityQuestion\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"securityAnswer\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isAdmin\",\"kind\":\"scalar\",\"type\":\"Boolean\",\"dbName\":\"is_admin\"},{\"name\":\"notes\",\"kind\":\"object\",\"type\":\"Note\",\"relationName\":\"NoteToUser\"},{\"name\":\"passwordResets\",\"kind\":\"object\",\"type\":\"PasswordReset\",\"relationName\":\"PasswordResetToUser\"}],\"dbName\":null},\"Note\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"content\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"NoteToUser\"},{\"name\":\"links\",\"kind\":\"object\",\"type\":\"NoteLink\",\"relationName\":\"NoteToNoteLink\"}],\"dbName\":null},\"NoteLink\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"noteId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"note\",\"kind\":\"object\",\"type\":\"Note\",\"relationName\":\"NoteToNoteLink\"},{\"name\":\"contextType\",\"kind\":\"enum\",\"type\":\"ContextType\"},{\"name\":\"contextId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"label\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isPrimary\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"PasswordReset\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"PasswordResetToUser\"},{\"name\":\"token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"used\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"SportsMonksType\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"parentId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"parent_id\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"code\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"developerName\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"developer_name\"},{\"name\":\"modelType\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"model_type\"},{\"name\":\"group\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"statGroup\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"stat_group\"},{\"name\":\"lastSyncedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"last_synced_at\"},{\"name\":\"parent\",\"kind\":\"object\",\"type\":\"SportsMonksType\",\"relationName\":\"TypeHierarchy\"},{\"name\":\"children\",\"kind\":\"object\",\"type\":\"SportsMonksType\",\"relationName\":\"TypeHierarchy\"}],\"dbName\":\"sportsmonks_types\"}},\"enums\":{},\"types\":{}}")
+config.runtimeDataModel = JSON.parse("{\"models\":{\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"password\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"oddsFormat\",\"kind\":\"enum\",\"type\":\"OddsFormat\"},{\"name\":\"timezone\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"dateFormat\",\"kind\":\"enum\",\"type\":\"DateFormat\",\"dbName\":\"date_format\"},{\"name\":\"temperatureUnit\",\"kind\":\"enum\",\"type\":\"TemperatureUnit\",\"dbName\":\"temperature_unit\"},{\"name\":\"securityQuestion\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"securityAnswer\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isAdmin\",\"kind\":\"scalar\",\"type\":\"Boolean\",\"dbName\":\"is_admin\"},{\"name\":\"notes\",\"kind\":\"object\",\"type\":\"Note\",\"relationName\":\"NoteToUser\"},{\"name\":\"passwordResets\",\"kind\":\"object\",\"type\":\"PasswordReset\",\"relationName\":\"PasswordResetToUser\"},{\"name\":\"bets\",\"kind\":\"object\",\"type\":\"Bet\",\"relationName\":\"BetToUser\"},{\"name\":\"backtests\",\"kind\":\"object\",\"type\":\"Backtest\",\"relationName\":\"BacktestToUser\"},{\"name\":\"watchlist\",\"kind\":\"object\",\"type\":\"Watchlist\",\"relationName\":\"UserToWatchlist\"},{\"name\":\"alertRules\",\"kind\":\"object\",\"type\":\"AlertRule\",\"relationName\":\"AlertRuleToUser\"},{\"name\":\"notifications\",\"kind\":\"object\",\"type\":\"Notification\",\"relationName\":\"NotificationToUser\"}],\"dbName\":null},\"Note\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"content\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"NoteToUser\"},{\"name\":\"links\",\"kind\":\"object\",\"type\":\"NoteLink\",\"relationName\":\"NoteToNoteLink\"}],\"dbName\":null},\"NoteLink\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"noteId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"note\",\"kind\":\"object\",\"type\":\"Note\",\"relationName\":\"NoteToNoteLink\"},{\"name\":\"contextType\",\"kind\":\"enum\",\"type\":\"ContextType\"},{\"name\":\"contextId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"label\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isPrimary\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Bet\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"user_id\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"BetToUser\"},{\"name\":\"fixtureId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"fixture_id\"},{\"name\":\"leagueId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"league_id\"},{\"name\":\"fixtureName\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"fixture_name\"},{\"name\":\"kickoffAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"kickoff_at\"},{\"name\":\"marketId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"market_id\"},{\"name\":\"selection\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"line\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"bookmakerId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"bookmaker_id\"},{\"name\":\"price\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"stake\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"placedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"placed_at\"},{\"name\":\"closingPrice\",\"kind\":\"scalar\",\"type\":\"Float\",\"dbName\":\"closing_price\"},{\"name\":\"closingPriceAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"closing_price_at\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"BetStatus\"},{\"name\":\"profit\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"settledAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"settled_at\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"}],\"dbName\":\"bets\"},\"Watchlist\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"user_id\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"UserToWatchlist\"},{\"name\":\"entityType\",\"kind\":\"enum\",\"type\":\"WatchlistEntityType\",\"dbName\":\"entity_type\"},{\"name\":\"entityId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"entity_id\"},{\"name\":\"label\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"kickoffAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"kickoff_at\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"}],\"dbName\":\"watchlists\"},\"AlertRule\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"user_id\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"AlertRuleToUser\"},{\"name\":\"fixtureId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"fixture_id\"},{\"name\":\"teamId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"team_id\"},{\"name\":\"label\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"kickoffAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"kickoff_at\"},{\"name\":\"events\",\"kind\":\"enum\",\"type\":\"AlertEvent\"},{\"name\":\"channels\",\"kind\":\"enum\",\"type\":\"AlertChannel\"},{\"name\":\"webhookUrl\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"webhook_url\"},{\"name\":\"oddsDropPercent\",\"kind\":\"scalar\",\"type\":\"Float\",\"dbName\":\"odds_drop_percent\"},{\"name\":\"oddsMarketId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"odds_market_id\"},{\"name\":\"active\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"triggers\",\"kind\":\"object\",\"type\":\"AlertTrigger\",\"relationName\":\"AlertRuleToAlertTrigger\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"}],\"dbName\":\"alert_rules\"},\"AlertTrigger\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ruleId\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"rule_id\"},{\"name\":\"rule\",\"kind\":\"object\",\"type\":\"AlertRule\",\"relationName\":\"AlertRuleToAlertTrigger\"},{\"name\":\"fixtureId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"fixture_id\"},{\"name\":\"event\",\"kind\":\"enum\",\"type\":\"AlertEvent\"},{\"name\":\"dedupeKey\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"dedupe_key\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"message\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"data\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"deliveries\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"notifications\",\"kind\":\"object\",\"type\":\"Notification\",\"relationName\":\"AlertTriggerToNotification\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"}],\"dbName\":\"alert_triggers\"},\"Notification\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"user_id\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"NotificationToUser\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"NotificationType\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"message\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"link\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"triggerId\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"trigger_id\"},{\"name\":\"trigger\",\"kind\":\"object\",\"type\":\"AlertTrigger\",\"relationName\":\"AlertTriggerToNotification\"},{\"name\":\"readAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"read_at\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"}],\"dbName\":\"notifications\"},\"OddsSnapshot\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"fixtureId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"fixture_id\"},{\"name\":\"marketId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"market_id\"},{\"name\":\"bookmakerId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"bookmaker_id\"},{\"name\":\"label\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"line\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"value\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"capturedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"captured_at\"}],\"dbName\":\"odds_snapshots\"},\"TeamRating\":{\"fields\":[{\"name\":\"teamId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"team_id\"},{\"name\":\"teamName\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"team_name\"},{\"name\":\"rating\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"matches\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"leagueId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"league_id\"},{\"name\":\"lastPlayedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"last_played_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"}],\"dbName\":\"team_ratings\"},\"TeamRatingHistory\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"teamId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"team_id\"},{\"name\":\"fixtureId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"fixture_id\"},{\"name\":\"leagueId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"league_id\"},{\"name\":\"seasonId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"season_id\"},{\"name\":\"opponentId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"opponent_id\"},{\"name\":\"isHome\",\"kind\":\"scalar\",\"type\":\"Boolean\",\"dbName\":\"is_home\"},{\"name\":\"goalsFor\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"goals_for\"},{\"name\":\"goalsAgainst\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"goals_against\"},{\"name\":\"expected\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"ratingBefore\",\"kind\":\"scalar\",\"type\":\"Float\",\"dbName\":\"rating_before\"},{\"name\":\"ratingAfter\",\"kind\":\"scalar\",\"type\":\"Float\",\"dbName\":\"rating_after\"},{\"name\":\"playedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"played_at\"}],\"dbName\":\"team_rating_history\"},\"Backtest\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"user_id\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"BacktestToUser\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"strategy\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"startDate\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"start_date\"},{\"name\":\"endDate\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"end_date\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"BacktestStatus\"},{\"name\":\"error\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"fixturesScanned\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"fixtures_scanned\"},{\"name\":\"betCount\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"bet_count\"},{\"name\":\"won\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"lost\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"voided\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"staked\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"profit\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"startingBankroll\",\"kind\":\"scalar\",\"type\":\"Float\",\"dbName\":\"starting_bankroll\"},{\"name\":\"finalBankroll\",\"kind\":\"scalar\",\"type\":\"Float\",\"dbName\":\"final_bankroll\"},{\"name\":\"maxDrawdown\",\"kind\":\"scalar\",\"type\":\"Float\",\"dbName\":\"max_drawdown\"},{\"name\":\"maxDrawdownPercent\",\"kind\":\"scalar\",\"type\":\"Float\",\"dbName\":\"max_drawdown_percent\"},{\"name\":\"bets\",\"kind\":\"object\",\"type\":\"BacktestBet\",\"relationName\":\"BacktestToBacktestBet\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"completedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"completed_at\"}],\"dbName\":\"backtests\"},\"BacktestBet\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"backtestId\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"backtest_id\"},{\"name\":\"backtest\",\"kind\":\"object\",\"type\":\"Backtest\",\"relationName\":\"BacktestToBacktestBet\"},{\"name\":\"fixtureId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"fixture_id\"},{\"name\":\"fixtureName\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"fixture_name\"},{\"name\":\"leagueId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"league_id\"},{\"name\":\"kickoffAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"kickoff_at\"},{\"name\":\"marketId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"market_id\"},{\"name\":\"marketName\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"market_name\"},{\"name\":\"selection\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"line\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"bookmakerId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"bookmaker_id\"},{\"name\":\"price\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"oddsSource\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"odds_source\"},{\"name\":\"probability\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"ev\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"stake\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"BetStatus\"},{\"name\":\"profit\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"bankroll\",\"kind\":\"scalar\",\"type\":\"Float\"}],\"dbName\":\"backtest_bets\"},\"WarehouseTeam\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shortCode\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"short_code\"},{\"name\":\"imagePath\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"image_path\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"}],\"dbName\":\"warehouse_teams\"},\"WarehouseFixture\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"leagueId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"league_id\"},{\"name\":\"seasonId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"season_id\"},{\"name\":\"stageId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"stage_id\"},{\"name\":\"roundId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"round_id\"},{\"name\":\"venueId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"venue_id\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"startingAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"starting_at\"},{\"name\":\"stateId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"state_id\"},{\"name\":\"state\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"resultInfo\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"result_info\"},{\"name\":\"homeTeamId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"home_team_id\"},{\"name\":\"awayTeamId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"away_team_id\"},{\"name\":\"homeGoals\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"home_goals\"},{\"name\":\"awayGoals\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"away_goals\"},{\"name\":\"refereeId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"referee_id\"},{\"name\":\"scores\",\"kind\":\"object\",\"type\":\"WarehouseScore\",\"relationName\":\"WarehouseFixtureToWarehouseScore\"},{\"name\":\"statistics\",\"kind\":\"object\",\"type\":\"WarehouseStatistic\",\"relationName\":\"WarehouseFixtureToWarehouseStatistic\"},{\"name\":\"lineups\",\"kind\":\"object\",\"type\":\"WarehouseLineup\",\"relationName\":\"WarehouseFixtureToWarehouseLineup\"},{\"name\":\"events\",\"kind\":\"object\",\"type\":\"WarehouseEvent\",\"relationName\":\"WarehouseEventToWarehouseFixture\"},{\"name\":\"syncedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"synced_at\"}],\"dbName\":\"warehouse_fixtures\"},\"WarehouseScore\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"fixtureId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"fixture_id\"},{\"name\":\"fixture\",\"kind\":\"object\",\"type\":\"WarehouseFixture\",\"relationName\":\"WarehouseFixtureToWarehouseScore\"},{\"name\":\"teamId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"team_id\"},{\"name\":\"typeId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"type_id\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"location\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"goals\",\"kind\":\"scalar\",\"type\":\"Int\"}],\"dbName\":\"warehouse_scores\"},\"WarehouseStatistic\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"fixtureId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"fixture_id\"},{\"name\":\"fixture\",\"kind\":\"object\",\"type\":\"WarehouseFixture\",\"relationName\":\"WarehouseFixtureToWarehouseStatistic\"},{\"name\":\"teamId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"team_id\"},{\"name\":\"typeId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"type_id\"},{\"name\":\"location\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"value\",\"kind\":\"scalar\",\"type\":\"Float\"}],\"dbName\":\"warehouse_statistics\"},\"WarehouseLineup\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"fixtureId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"fixture_id\"},{\"name\":\"fixture\",\"kind\":\"object\",\"type\":\"WarehouseFixture\",\"relationName\":\"WarehouseFixtureToWarehouseLineup\"},{\"name\":\"teamId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"team_id\"},{\"name\":\"playerId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"player_id\"},{\"name\":\"playerName\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"player_name\"},{\"name\":\"typeId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"type_id\"},{\"name\":\"positionId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"position_id\"},{\"name\":\"formationPosition\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"formation_position\"},{\"name\":\"jerseyNumber\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"jersey_number\"}],\"dbName\":\"warehouse_lineups\"},\"WarehouseEvent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"fixtureId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"fixture_id\"},{\"name\":\"fixture\",\"kind\":\"object\",\"type\":\"WarehouseFixture\",\"relationName\":\"WarehouseEventToWarehouseFixture\"},{\"name\":\"teamId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"team_id\"},{\"name\":\"typeId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"type_id\"},{\"name\":\"playerId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"player_id\"},{\"name\":\"playerName\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"player_name\"},{\"name\":\"relatedPlayerId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"related_player_id\"},{\"name\":\"relatedPlayerName\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"related_player_name\"},{\"name\":\"minute\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"extraMinute\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"extra_minute\"},{\"name\":\"result\",\"kind\":\"scalar\",\"type\":\"String\"}],\"dbName\":\"warehouse_events\"},\"WarehouseSync\":{\"fields\":[{\"name\":\"seasonId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"season_id\"},{\"name\":\"leagueId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"league_id\"},{\"name\":\"startDate\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"start_date\"},{\"name\":\"endDate\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"end_date\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"WarehouseSyncStatus\"},{\"name\":\"error\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"syncedThrough\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"synced_through\"},{\"name\":\"fixturesIngested\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"fixtures_ingested\"},{\"name\":\"lastRunAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"last_run_at\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"}],\"dbName\":\"warehouse_syncs\"},\"CacheEntry\":{\"fields\":[{\"name\":\"key\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"value\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"expires_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"}],\"dbName\":\"cache_entries\"},\"PasswordReset\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"PasswordResetToUser\"},{\"name\":\"token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"used\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"SportsMonksType\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"parentId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"parent_id\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"code\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"developerName\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"developer_name\"},{\"name\":\"modelType\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"model_type\"},{\"name\":\"group\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"statGroup\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"stat_group\"},{\"name\":\"lastSyncedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"last_synced_at\"},{\"name\":\"parent\",\"kind\":\"object\",\"type\":\"SportsMonksType\",\"relationName\":\"TypeHierarchy\"},{\"name\":\"children\",\"kind\":\"object\",\"type\":\"SportsMonksType\",\"relationName\":\"TypeHierarchy\"}],\"dbName\":\"sportsmonks_types\"}},\"enums\":{},\"types\":{}}")
 defineDmmfProperty(exports.Prisma, config.runtimeDataModel)
 config.compilerWasm = {
       getRuntime: async () => require('./query_compiler_bg.js'),
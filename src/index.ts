@@ -10,9 +10,16 @@ import type { Request, Response } from 'express';
 
 import authRoutes from './routes/auth.js';  // Authentication routes
 import notesRoutes from './routes/notes.js';  // Notes CRUD routes
+import betsRoutes from './routes/bets.js';  // Bet journal CRUD routes
+import ratingsRoutes from './routes/ratings.js';  // Elo team ratings
+import backtestsRoutes from './routes/backtests.js';  // Strategy backtests
+import watchlistRoutes from './routes/watchlist.js';  // Followed teams, leagues and fixtures
+import alertsRoutes from './routes/alerts.js';  // Match alert rules
+import notificationsRoutes from './routes/notifications.js';  // In-app notification inbox
 import teamsRoutes from './routes/teams.js';  // SportsMonks team data
 import fixturesRoutes from './routes/fixtures.js';  // SportsMonks fixture data
 import playersRoutes from './routes/players.js';  // SportsMonks player data
+import refereesRoutes from './routes/referees.js';  // Referee profiles and tendencies
 import oddsRoutes from './routes/odds.js';  // SportsMonks odds data
 import standingsRoutes from './routes/standings.js';  // SportsMonks standings data
 import livescoresRoutes from './routes/livescores.js';  // SportsMonks live scores
@@ -20,8 +27,21 @@ import leaguesRoutes from './routes/leagues.js';  // SportsMonks leagues data
 import seasonsRoutes from './routes/seasons.js';  // SportsMonks seasons data
 import topscorersRoutes from './routes/topscorers.js';  // SportsMonks top scorers
 import predictionsRoutes from './routes/predictions.js';  // SportsMonks predictions
+import valueRoutes from './routes/value.js';  // Value bets (predictions vs odds)
+import modelsRoutes from './routes/models.js';  // In-house goal models
 import authMiddleware, { adminMiddleware } from './middleware/auth.js';  // Protects routes
+import cacheInfoMiddleware from './middleware/cacheInfo.js';  // fromCache/cacheInfo on responses
 import { loadTypesCache, getCacheStatus, syncTypesFromAPI } from './services/types.js';  // Types cache
+import { initCache } from './services/cache.js';  // Response cache backend
+import { getBudgetStatus } from './services/apiBudget.js';  // SportsMonks rate limit budget
+import { getCircuitStatus } from './services/apiClient.js';  // SportsMonks circuit breaker
+import { settlePendingBets } from './services/settlement.js';  // Bet settlement
+import { captureClosingLines } from './services/closingLines.js';  // Closing line capture
+import { snapshotWatchedLeagues } from './services/oddsSnapshots.js';  // Odds history
+import { updateRatings } from './services/eloRatings.js';  // Elo team ratings
+import { failInterruptedBacktests } from './services/backtests.js';  // Strategy backtests
+import { startBackfill, runNightlySync, markInterruptedSyncs, getWarehouseStatus } from './services/warehouse.js';  // Local data warehouse
+import { evaluateAlertRules } from './services/alerts.js';  // Match alerts
 
 // ============================================
 // CONFIGURATION
@@ -39,6 +59,51 @@ const getErrorMessage = (error: unknown) =>
 // Define the port (use .env value or default to 3001)
 const PORT = Number(process.env.PORT) || 3001;
 
+// How often pending bets are checked against final scores (default: every 15 minutes)
+const BET_SETTLEMENT_INTERVAL_MINUTES = Number(process.env.BET_SETTLEMENT_INTERVAL_MINUTES) || 15;
+
+// How often closing prices are captured (default: every 5 minutes), and how
+// close to kickoff a bet has to be before its closing price is captured (default: 15 minutes)
+const CLOSING_LINE_INTERVAL_MINUTES = Number(process.env.CLOSING_LINE_INTERVAL_MINUTES) || 5;
+const CLOSING_LINE_WINDOW_MINUTES = Number(process.env.CLOSING_LINE_WINDOW_MINUTES) || 15;
+
+// Odds snapshots for line movement: which leagues to watch (comma-separated IDs,
+// default Premier League, FA Cup, Carabao Cup), how often (default: every 60 minutes)
+// and how many days ahead to look for fixtures (default 7). Set the league list to "" to disable.
+const ODDS_SNAPSHOT_LEAGUE_IDS = (process.env.ODDS_SNAPSHOT_LEAGUE_IDS ?? '8,24,27')
+  .split(',')
+  .map(id => Number(id.trim()))
+  .filter(id => Number.isInteger(id) && id > 0);
+const ODDS_SNAPSHOT_INTERVAL_MINUTES = Number(process.env.ODDS_SNAPSHOT_INTERVAL_MINUTES) || 60;
+const ODDS_SNAPSHOT_DAYS_AHEAD = Number(process.env.ODDS_SNAPSHOT_DAYS_AHEAD) || 7;
+
+// Elo ratings: which leagues to rate (comma-separated IDs, default Premier League,
+// FA Cup, Carabao Cup), how many seasons back per league (default 3) and how often
+// new results are applied (default: every 6 hours). Set the league list to "" to disable.
+const ELO_LEAGUE_IDS = (process.env.ELO_LEAGUE_IDS ?? '8,24,27')
+  .split(',')
+  .map(id => Number(id.trim()))
+  .filter(id => Number.isInteger(id) && id > 0);
+const ELO_SEASONS_BACK = Number(process.env.ELO_SEASONS_BACK) || 3;
+const ELO_UPDATE_INTERVAL_HOURS = Number(process.env.ELO_UPDATE_INTERVAL_HOURS) || 6;
+
+// Data warehouse: which leagues to store locally (comma-separated IDs, default Premier
+// League, FA Cup, Carabao Cup), how many seasons back an admin backfill covers by
+// default (default 3) and the UTC hour of the nightly sync (default 3). Set the league
+// list to "" to disable the nightly sync.
+const WAREHOUSE_LEAGUE_IDS = (process.env.WAREHOUSE_LEAGUE_IDS ?? '8,24,27')
+  .split(',')
+  .map(id => Number(id.trim()))
+  .filter(id => Number.isInteger(id) && id > 0);
+const WAREHOUSE_SEASONS_BACK = Number(process.env.WAREHOUSE_SEASONS_BACK) || 3;
+const warehouseSyncHour = Number(process.env.WAREHOUSE_SYNC_HOUR_UTC ?? 3);
+const WAREHOUSE_SYNC_HOUR_UTC = Number.isInteger(warehouseSyncHour) && warehouseSyncHour >= 0 && warehouseSyncHour < 24
+  ? warehouseSyncHour
+  : 3;
+
+// How often match alert rules are evaluated (default: every 60 seconds)
+const ALERTS_INTERVAL_SECONDS = Number(process.env.ALERTS_INTERVAL_SECONDS) || 60;
+
 // ============================================
 // MIDDLEWARE
 // ============================================
@@ -49,6 +114,9 @@ app.use(express.json());
 // Enable CORS (so React frontend can call this API)
 app.use(cors());
 
+// Report SportsMonks cache hits on responses (see middleware/cacheInfo.ts)
+app.use(cacheInfoMiddleware);
+
 // ============================================
 // ROUTES
 // ============================================
@@ -88,6 +156,24 @@ app.use('/auth', authRoutes);
 // By putting authMiddleware here, ALL /notes/* routes are protected
 app.use('/notes', authMiddleware, notesRoutes);
 
+// Bets routes (protected - bet journal CRUD + settlement)
+app.use('/bets', authMiddleware, betsRoutes);
+
+// Ratings routes (protected - Elo team ratings stored in our database)
+app.use('/ratings', authMiddleware, ratingsRoutes);
+
+// Backtests routes (protected - strategy backtests stored per user)
+app.use('/backtests', authMiddleware, backtestsRoutes);
+
+// Watchlist routes (protected - followed teams/leagues/fixtures and the My fixtures feed)
+app.use('/watchlist', authMiddleware, watchlistRoutes);
+
+// Alerts routes (protected - match alert rules and the alerts they fired)
+app.use('/alerts', authMiddleware, alertsRoutes);
+
+// Notifications routes (protected - the user's in-app inbox)
+app.use('/notifications', authMiddleware, notificationsRoutes);
+
 // Teams routes (public - SportsMonks data proxy)
 // These don't require auth since they're just fetching public football data
 app.use('/teams', teamsRoutes);
@@ -100,6 +186,10 @@ app.use('/fixtures', fixturesRoutes);
 // Search players, get player details
 app.use('/players', playersRoutes);
 
+// Referees routes (protected - SportsMonks profile + warehouse matches)
+// Card, penalty and foul tendencies of a referee
+app.use('/referees', refereesRoutes);
+
 // Odds routes (public - SportsMonks data proxy)
 // Pre-match odds, bookmakers, betting markets
 app.use('/odds', oddsRoutes);
@@ -109,7 +199,8 @@ app.use('/odds', oddsRoutes);
 app.use('/standings', standingsRoutes);
 
 // Live scores routes (public - SportsMonks data proxy)
-// Real-time match scores for our subscribed leagues
+// Real-time match scores for our subscribed leagues, plus a
+// Server-Sent Events stream of in-play changes (/livescores/stream)
 app.use('/livescores', livescoresRoutes);
 
 // Leagues routes (public - SportsMonks data proxy)
@@ -128,6 +219,14 @@ app.use('/topscorers', topscorersRoutes);
 // AI prediction model performance/accuracy by league
 app.use('/predictions', predictionsRoutes);
 
+// Value bet routes (public - SportsMonks data proxy)
+// Predictions joined with best prices, ranked by expected value
+app.use('/value', valueRoutes);
+
+// Models routes (public - fitted from SportsMonks results)
+// In-house Poisson / Dixon-Coles goals model
+app.use('/models', modelsRoutes);
+
 // ============================================
 // PROTECTED TEST ROUTE
 // ============================================
@@ -199,6 +298,17 @@ app.get('/types/status', async (_req: Request, res: Response) => {
 // These routes require both authentication AND admin privileges.
 // Use: authMiddleware (verify JWT) -> adminMiddleware (verify isAdmin)
 
+// GET /admin/sportsmonks/budget - Remaining SportsMonks calls per entity
+// Also shows how many requests were coalesced, throttled or rejected,
+// and whether the circuit breaker is open
+app.get('/admin/sportsmonks/budget', authMiddleware, adminMiddleware, (_req: Request, res: Response) => {
+  res.json({
+    status: 'ok',
+    budget: getBudgetStatus(),
+    circuit: getCircuitStatus()
+  });
+});
+
 // POST /admin/types/sync - Sync types from SportsMonks API
 // Fetches latest types and updates our local database
 app.post('/admin/types/sync', authMiddleware, adminMiddleware, async (_req: Request, res: Response) => {
@@ -222,17 +332,226 @@ app.post('/admin/types/sync', authMiddleware, adminMiddleware, async (_req: Requ
   }
 });
 
+// POST /admin/ratings/rebuild - Recompute all Elo ratings from scratch
+// Use after changing ELO_LEAGUE_IDS / ELO_SEASONS_BACK
+app.post('/admin/ratings/rebuild', authMiddleware, adminMiddleware, async (_req: Request, res: Response) => {
+  try {
+    console.log('[Admin] Ratings rebuild requested');
+
+    const result = await updateRatings({
+      leagueIds: ELO_LEAGUE_IDS,
+      seasonsBack: ELO_SEASONS_BACK,
+      rebuild: true
+    });
+
+    res.json({
+      status: 'ok',
+      message: 'Ratings rebuilt successfully',
+      result
+    });
+  } catch (error) {
+    console.error('[Admin] Ratings rebuild failed:', getErrorMessage(error));
+    res.status(500).json({
+      status: 'error',
+      message: 'Failed to rebuild ratings',
+      error: getErrorMessage(error)
+    });
+  }
+});
+
+// GET /admin/warehouse - Row counts and per-season ingestion progress
+app.get('/admin/warehouse', authMiddleware, adminMiddleware, async (_req: Request, res: Response) => {
+  try {
+    res.json({
+      status: 'ok',
+      leagueIds: WAREHOUSE_LEAGUE_IDS,
+      warehouse: await getWarehouseStatus()
+    });
+  } catch (error) {
+    console.error('[Admin] Warehouse status failed:', getErrorMessage(error));
+    res.status(500).json({
+      status: 'error',
+      message: 'Failed to get warehouse status',
+      error: getErrorMessage(error)
+    });
+  }
+});
+
+// POST /admin/warehouse/backfill - Ingest past seasons in the background
+// Body: { seasonIds } or { leagueIds?, seasonsBack? } (default: the warehouse
+// leagues' last WAREHOUSE_SEASONS_BACK seasons). Partly ingested seasons resume.
+app.post('/admin/warehouse/backfill', authMiddleware, adminMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { seasonIds, leagueIds, seasonsBack } = (req.body || {}) as {
+      seasonIds?: unknown;
+      leagueIds?: unknown;
+      seasonsBack?: unknown;
+    };
+
+    const isIdList = (value: unknown): value is number[] =>
+      Array.isArray(value) && value.every(id => Number.isInteger(id) && id > 0);
+
+    if (seasonIds !== undefined && !isIdList(seasonIds)) {
+      return res.status(400).json({ status: 'error', message: 'seasonIds must be an array of season IDs' });
+    }
+    if (leagueIds !== undefined && !isIdList(leagueIds)) {
+      return res.status(400).json({ status: 'error', message: 'leagueIds must be an array of league IDs' });
+    }
+    if (seasonsBack !== undefined && !(Number.isInteger(seasonsBack) && (seasonsBack as number) > 0)) {
+      return res.status(400).json({ status: 'error', message: 'seasonsBack must be a positive integer' });
+    }
+
+    console.log('[Admin] Warehouse backfill requested');
+
+    const queued = await startBackfill({
+      seasonIds,
+      leagueIds: leagueIds ?? WAREHOUSE_LEAGUE_IDS,
+      seasonsBack: (seasonsBack as number | undefined) ?? WAREHOUSE_SEASONS_BACK
+    });
+
+    res.status(202).json({
+      status: 'ok',
+      message: `Backfilling ${queued.length} season(s)`,
+      seasonIds: queued
+    });
+  } catch (error) {
+    console.error('[Admin] Warehouse backfill failed:', getErrorMessage(error));
+    res.status(500).json({
+      status: 'error',
+      message: 'Failed to start warehouse backfill',
+      error: getErrorMessage(error)
+    });
+  }
+});
+
+// POST /admin/warehouse/sync - Run the nightly sync now (in the background)
+app.post('/admin/warehouse/sync', authMiddleware, adminMiddleware, (_req: Request, res: Response) => {
+  console.log('[Admin] Warehouse sync requested');
+
+  runNightlySync({ leagueIds: WAREHOUSE_LEAGUE_IDS }).catch((error) => {
+    console.error('[Warehouse] Manual sync failed:', getErrorMessage(error));
+  });
+
+  res.status(202).json({
+    status: 'ok',
+    message: 'Warehouse sync started'
+  });
+});
+
+// POST /admin/alerts/evaluate - Evaluate the match alert rules now
+app.post('/admin/alerts/evaluate', authMiddleware, adminMiddleware, async (_req: Request, res: Response) => {
+  try {
+    console.log('[Admin] Alert evaluation requested');
+
+    const result = await evaluateAlertRules();
+
+    res.json({
+      status: 'ok',
+      message: `Fired ${result.triggered} alert(s)`,
+      result
+    });
+  } catch (error) {
+    console.error('[Admin] Alert evaluation failed:', getErrorMessage(error));
+    res.status(500).json({
+      status: 'error',
+      message: 'Failed to evaluate alerts',
+      error: getErrorMessage(error)
+    });
+  }
+});
+
 // ============================================
 // START SERVER
 // ============================================
 
 const startServer = async () => {
   try {
+    // Connect the response cache (memory, Redis or Postgres - see CACHE_BACKEND)
+    await initCache();
+
     // Pre-load the SportsMonks types cache
     // This ensures fast type lookups from the first request
     console.log('Loading SportsMonks types cache...');
     await loadTypesCache();
 
+    // Backtests replay in-process, so any left RUNNING were cut off by a restart
+    const interrupted = await failInterruptedBacktests();
+    if (interrupted > 0) {
+      console.log(`[Backtest] Marked ${interrupted} interrupted run(s) as failed`);
+    }
+
+    // Warehouse seasons left RUNNING were cut off by a restart; the next sync resumes them
+    const interruptedSyncs = await markInterruptedSyncs();
+    if (interruptedSyncs > 0) {
+      console.log(`[Warehouse] Marked ${interruptedSyncs} interrupted season(s) as incomplete`);
+    }
+
+    // Settle pending bets on a schedule
+    // Each run checks fixtures with pending bets and settles those that reached FT
+    setInterval(() => {
+      settlePendingBets().catch((error) => {
+        console.error('[Settlement] Scheduled run failed:', getErrorMessage(error));
+      });
+    }, BET_SETTLEMENT_INTERVAL_MINUTES * 60 * 1000);
+
+    // Capture closing prices for bets on fixtures about to kick off
+    // Runs repeatedly inside the window so the last price before kickoff wins
+    setInterval(() => {
+      captureClosingLines({ windowMinutes: CLOSING_LINE_WINDOW_MINUTES }).catch((error) => {
+        console.error('[ClosingLines] Scheduled run failed:', getErrorMessage(error));
+      });
+    }, CLOSING_LINE_INTERVAL_MINUTES * 60 * 1000);
+
+    // Snapshot odds for upcoming fixtures in the watched leagues
+    if (ODDS_SNAPSHOT_LEAGUE_IDS.length > 0) {
+      setInterval(() => {
+        snapshotWatchedLeagues({
+          leagueIds: ODDS_SNAPSHOT_LEAGUE_IDS,
+          daysAhead: ODDS_SNAPSHOT_DAYS_AHEAD
+        }).catch((error) => {
+          console.error('[OddsSnapshots] Scheduled run failed:', getErrorMessage(error));
+        });
+      }, ODDS_SNAPSHOT_INTERVAL_MINUTES * 60 * 1000);
+    }
+
+    // Apply new results to the Elo ratings
+    if (ELO_LEAGUE_IDS.length > 0) {
+      setInterval(() => {
+        updateRatings({
+          leagueIds: ELO_LEAGUE_IDS,
+          seasonsBack: ELO_SEASONS_BACK
+        }).catch((error) => {
+          console.error('[EloRatings] Scheduled run failed:', getErrorMessage(error));
+        });
+      }, ELO_UPDATE_INTERVAL_HOURS * 60 * 60 * 1000);
+    }
+
+    // Evaluate match alert rules (goals, red cards, lineups, odds drops...)
+    setInterval(() => {
+      evaluateAlertRules().catch((error) => {
+        console.error('[Alerts] Scheduled run failed:', getErrorMessage(error));
+      });
+    }, ALERTS_INTERVAL_SECONDS * 1000);
+
+    // Nightly warehouse sync at WAREHOUSE_SYNC_HOUR_UTC: wait for the next
+    // occurrence of that hour, then run every 24 hours
+    if (WAREHOUSE_LEAGUE_IDS.length > 0) {
+      const runSync = () => {
+        runNightlySync({ leagueIds: WAREHOUSE_LEAGUE_IDS }).catch((error) => {
+          console.error('[Warehouse] Nightly sync failed:', getErrorMessage(error));
+        });
+      };
+
+      const nextRun = new Date();
+      nextRun.setUTCHours(WAREHOUSE_SYNC_HOUR_UTC, 0, 0, 0);
+      if (nextRun.getTime() <= Date.now()) nextRun.setUTCDate(nextRun.getUTCDate() + 1);
+
+      setTimeout(() => {
+        runSync();
+        setInterval(runSync, 24 * 60 * 60 * 1000);
+      }, nextRun.getTime() - Date.now());
+    }
+
     // Start the Express server
     app.listen(PORT, () => {
       console.log(`BetSmoke API running on http://localhost:${PORT}`);
@@ -249,5 +568,10 @@ const startServer = async () => {
   }
 };
 
-// Start the server
-startServer();
\ No newline at end of file
+// Start the server - tests import the app and listen on a port of
+// their own, without the background jobs (see tests/support/testApp.ts)
+if (process.env.NODE_ENV !== 'test') {
+  startServer();
+}
+
+export default app;
\ No newline at end of file
@@ -112,6 +112,28 @@ const authMiddleware = (req: Request, res: Response, next: NextFunction) => {
   }
 };
 
+// ============================================
+// STREAM AUTH MIDDLEWARE
+// ============================================
+// Same as authMiddleware, for streams opened with the browser's
+// EventSource, which can't set headers: the token may also be
+// passed as ?token=<token>. The Authorization header wins if both
+// are sent.
+//
+// Usage:
+//   router.get('/stream', streamAuthMiddleware, handler);
+// ============================================
+
+const streamAuthMiddleware = (req: Request, res: Response, next: NextFunction) => {
+  const queryToken = req.query.token;
+
+  if (!req.headers.authorization && typeof queryToken === 'string' && queryToken) {
+    req.headers.authorization = `Bearer ${queryToken}`;
+  }
+
+  return authMiddleware(req, res, next);
+};
+
 // ============================================
 // ADMIN MIDDLEWARE
 // ============================================
@@ -167,7 +189,8 @@ const adminMiddleware = async (req: Request, res: Response, next: NextFunction)
 // EXPORT THE MIDDLEWARE
 // ============================================
 // Default export: authMiddleware (for backward compatibility)
-// Named export: adminMiddleware (for admin routes)
+// Named exports: adminMiddleware (for admin routes),
+// streamAuthMiddleware (for EventSource streams)
 
 export default authMiddleware;
-export { adminMiddleware };
+export { adminMiddleware, streamAuthMiddleware };
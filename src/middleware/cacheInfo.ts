@@ -0,0 +1,57 @@
+// ============================================
+// CACHE INFO MIDDLEWARE
+// ============================================
+// Tells the client how fresh a SportsMonks-backed response is.
+// SportsMonks calls are cached transparently (see services/apiCache.ts);
+// this middleware counts how each call made while handling the request
+// was served, and adds to successful JSON object responses:
+//
+//   fromCache: true when every SportsMonks call came from the cache
+//   cacheInfo: { hits, stale, fallback, misses, cachedAt }
+//
+// fallback counts old data served because SportsMonks was unavailable,
+// and cachedAt is when the oldest data in the response was fetched.
+// Responses that made no SportsMonks calls, or that already report
+// fromCache themselves (e.g. corner averages), are left untouched.
+// ============================================
+
+import type { NextFunction, Request, Response } from 'express';
+import { trackCacheUsage } from '../services/apiCache.js';
+
+const cacheInfoMiddleware = (_req: Request, res: Response, next: NextFunction) => {
+  // Everything after this middleware runs with its own counters
+  trackCacheUsage((usage) => {
+    const json = res.json.bind(res);
+
+    res.json = (body?: any) => {
+      const calls = usage.hits + usage.stale + usage.fallback + usage.misses;
+
+      const addInfo = calls > 0
+        && res.statusCode < 400
+        && body !== null
+        && typeof body === 'object'
+        && !Array.isArray(body)
+        && !('fromCache' in body);
+
+      if (!addInfo) {
+        return json(body);
+      }
+
+      return json({
+        ...body,
+        fromCache: usage.misses === 0,
+        cacheInfo: {
+          hits: usage.hits,
+          stale: usage.stale,
+          fallback: usage.fallback,
+          misses: usage.misses,
+          cachedAt: usage.oldestFetchedAt ? new Date(usage.oldestFetchedAt).toISOString() : null
+        }
+      });
+    };
+
+    next();
+  });
+};
+
+export default cacheInfoMiddleware;
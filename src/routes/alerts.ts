@@ -0,0 +1,347 @@
+// ============================================
+// ALERTS ROUTES
+// ============================================
+// Match alert rules: goals, red cards, kickoff, confirmed lineups and
+// odds drops for one fixture or every fixture of a team, delivered
+// in-app, by email or to a webhook. The rules are evaluated on a
+// schedule (see services/alerts.ts).
+// All routes are protected by authMiddleware (applied in index.ts).
+// Users can only access their own rules and alerts.
+// ============================================
+
+import express from 'express';
+import type { Request, Response } from 'express';
+import prisma from '../db.js';
+import { lookupAlertTarget } from '../services/alerts.js';
+import { checkWebhookUrl } from '../services/alertChannels.js';
+import type { AlertChannel, AlertEvent } from '../generated/prisma/client.js';
+
+const router = express.Router();
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Unknown error';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const VALID_EVENTS: AlertEvent[] = ['KICKOFF', 'GOAL', 'RED_CARD', 'LINEUPS_CONFIRMED', 'ODDS_DROP'];
+const VALID_CHANNELS: AlertChannel[] = ['IN_APP', 'EMAIL', 'WEBHOOK'];
+
+// How many fired alerts GET /alerts/triggers returns at most
+const MAX_TRIGGERS = 100;
+
+type RuleInput = {
+  fixtureId?: number | string | null;
+  teamId?: number | string | null;
+  events?: unknown;
+  channels?: unknown;
+  webhookUrl?: string | null;
+  oddsDropPercent?: number | string | null;
+  oddsMarketId?: number | string;
+  active?: unknown;
+};
+
+// ============================================
+// HELPER: Validate rule fields
+// ============================================
+// Returns an error message for the first invalid field, or null if valid.
+// `existing` is the rule being updated: fields missing from the input
+// keep its values, so cross-field checks see the rule as it will be.
+
+const isPositiveInteger = (value: unknown) =>
+  Number.isInteger(Number(value)) && Number(value) > 0;
+
+const isListOf = <T extends string>(value: unknown, allowed: T[]): value is T[] =>
+  Array.isArray(value) && value.length > 0 && value.every(item => allowed.includes(item));
+
+const isWebhookUrl = (value: unknown) => {
+  if (typeof value !== 'string') return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+function validateRuleInput(
+  input: RuleInput,
+  existing?: { events: AlertEvent[]; channels: AlertChannel[]; webhookUrl: string | null; oddsDropPercent: number | null }
+): string | null {
+  if (!existing) {
+    const hasFixture = input.fixtureId !== undefined && input.fixtureId !== null;
+    const hasTeam = input.teamId !== undefined && input.teamId !== null;
+    if (hasFixture === hasTeam) return 'Provide either fixtureId or teamId';
+    if (hasFixture && !isPositiveInteger(input.fixtureId)) return 'fixtureId must be a positive integer';
+    if (hasTeam && !isPositiveInteger(input.teamId)) return 'teamId must be a positive integer';
+  }
+
+  if (input.events !== undefined || !existing) {
+    if (!isListOf(input.events, VALID_EVENTS)) return `events must be a list of: ${VALID_EVENTS.join(', ')}`;
+  }
+  if (input.channels !== undefined) {
+    if (!isListOf(input.channels, VALID_CHANNELS)) return `channels must be a list of: ${VALID_CHANNELS.join(', ')}`;
+  }
+  if (input.webhookUrl !== undefined && input.webhookUrl !== null && !isWebhookUrl(input.webhookUrl)) {
+    return 'webhookUrl must be an http(s) URL';
+  }
+  if (input.oddsDropPercent !== undefined && input.oddsDropPercent !== null) {
+    const percent = Number(input.oddsDropPercent);
+    if (!(percent > 0 && percent < 100)) return 'oddsDropPercent must be between 0 and 100';
+  }
+  if (input.oddsMarketId !== undefined && !isPositiveInteger(input.oddsMarketId)) {
+    return 'oddsMarketId must be a positive integer';
+  }
+  if (input.active !== undefined && typeof input.active !== 'boolean') {
+    return 'active must be true or false';
+  }
+
+  // The rule as it will be saved
+  const events = (input.events ?? existing?.events) as AlertEvent[];
+  const channels = (input.channels ?? existing?.channels ?? ['IN_APP']) as AlertChannel[];
+  const webhookUrl = input.webhookUrl !== undefined ? input.webhookUrl : existing?.webhookUrl;
+  const oddsDropPercent = input.oddsDropPercent !== undefined ? input.oddsDropPercent : existing?.oddsDropPercent;
+
+  if (channels.includes('WEBHOOK') && !webhookUrl) return 'webhookUrl is required for the WEBHOOK channel';
+  if (events.includes('ODDS_DROP') && (oddsDropPercent === undefined || oddsDropPercent === null)) {
+    return 'oddsDropPercent is required for ODDS_DROP alerts';
+  }
+
+  return null;
+}
+
+// ============================================
+// GET /alerts - List the user's alert rules
+// ============================================
+// Query: fixtureId, teamId (optional, rules for one fixture or team)
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Access denied. Not authenticated.' });
+    }
+
+    const { fixtureId, teamId } = req.query;
+    if (fixtureId !== undefined && !isPositiveInteger(fixtureId)) {
+      return res.status(400).json({ error: 'fixtureId must be a positive integer' });
+    }
+    if (teamId !== undefined && !isPositiveInteger(teamId)) {
+      return res.status(400).json({ error: 'teamId must be a positive integer' });
+    }
+
+    const rules = await prisma.alertRule.findMany({
+      where: {
+        userId,
+        ...(fixtureId ? { fixtureId: Number(fixtureId) } : {}),
+        ...(teamId ? { teamId: Number(teamId) } : {})
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json({
+      count: rules.length,
+      rules
+    });
+
+  } catch (error) {
+    console.error('Error fetching alert rules:', getErrorMessage(error));
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// ============================================
+// GET /alerts/triggers - Alerts fired for the user
+// ============================================
+// Newest first, with each channel's delivery result.
+// Query: limit (default 50, max 100)
+router.get('/triggers', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Access denied. Not authenticated.' });
+    }
+
+    const limit = Math.min(Number(req.query.limit) || 50, MAX_TRIGGERS);
+
+    const triggers = await prisma.alertTrigger.findMany({
+      where: { rule: { userId } },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      include: { rule: { select: { label: true, fixtureId: true, teamId: true } } }
+    });
+
+    res.json({
+      count: triggers.length,
+      triggers
+    });
+
+  } catch (error) {
+    console.error('Error fetching alert triggers:', getErrorMessage(error));
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// ============================================
+// POST /alerts - Create an alert rule
+// ============================================
+// Body: { fixtureId | teamId, events, channels?, webhookUrl?, oddsDropPercent?, oddsMarketId? }
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Access denied. Not authenticated.' });
+    }
+
+    const input = (req.body ?? {}) as RuleInput;
+    const validationError = validateRuleInput(input);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    if (input.webhookUrl) {
+      const webhookError = await checkWebhookUrl(input.webhookUrl);
+      if (webhookError) {
+        return res.status(400).json({ error: webhookError });
+      }
+    }
+
+    const fixtureId = input.fixtureId ? Number(input.fixtureId) : null;
+    const teamId = input.teamId ? Number(input.teamId) : null;
+    const { label, kickoffAt } = await lookupAlertTarget({ fixtureId, teamId });
+
+    const rule = await prisma.alertRule.create({
+      data: {
+        userId,
+        fixtureId,
+        teamId,
+        label,
+        kickoffAt,
+        events: [...new Set(input.events as AlertEvent[])],
+        channels: [...new Set((input.channels ?? ['IN_APP']) as AlertChannel[])],
+        webhookUrl: input.webhookUrl || null,
+        oddsDropPercent: input.oddsDropPercent ? Number(input.oddsDropPercent) : null,
+        ...(input.oddsMarketId ? { oddsMarketId: Number(input.oddsMarketId) } : {})
+      }
+    });
+
+    res.status(201).json({
+      message: 'Alert rule created',
+      rule
+    });
+
+  } catch (error) {
+    console.error('Error creating alert rule:', getErrorMessage(error));
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// ============================================
+// PUT /alerts/:id - Update an alert rule
+// ============================================
+// Body: any of { events, channels, webhookUrl, oddsDropPercent, oddsMarketId, active }
+// The target (fixtureId / teamId) can't change - create a new rule instead.
+router.put('/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Access denied. Not authenticated.' });
+    }
+
+    const existing = await prisma.alertRule.findUnique({
+      where: { id: req.params.id }
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Alert rule not found' });
+    }
+
+    if (existing.userId !== userId) {
+      return res.status(403).json({
+        error: 'Access denied. You can only update your own alert rules.'
+      });
+    }
+
+    const input = (req.body ?? {}) as RuleInput;
+    const validationError = validateRuleInput(input, existing);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    if (input.webhookUrl) {
+      const webhookError = await checkWebhookUrl(input.webhookUrl);
+      if (webhookError) {
+        return res.status(400).json({ error: webhookError });
+      }
+    }
+
+    const rule = await prisma.alertRule.update({
+      where: { id: existing.id },
+      data: {
+        ...(input.events !== undefined ? { events: [...new Set(input.events as AlertEvent[])] } : {}),
+        ...(input.channels !== undefined ? { channels: [...new Set(input.channels as AlertChannel[])] } : {}),
+        ...(input.webhookUrl !== undefined ? { webhookUrl: input.webhookUrl || null } : {}),
+        ...(input.oddsDropPercent !== undefined
+          ? { oddsDropPercent: input.oddsDropPercent === null ? null : Number(input.oddsDropPercent) }
+          : {}),
+        ...(input.oddsMarketId !== undefined ? { oddsMarketId: Number(input.oddsMarketId) } : {}),
+        ...(input.active !== undefined ? { active: input.active as boolean } : {})
+      }
+    });
+
+    res.json({
+      message: 'Alert rule updated',
+      rule
+    });
+
+  } catch (error) {
+    console.error('Error updating alert rule:', getErrorMessage(error));
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// ============================================
+// DELETE /alerts/:id - Delete an alert rule (and its fired alerts)
+// ============================================
+router.delete('/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Access denied. Not authenticated.' });
+    }
+
+    const existing = await prisma.alertRule.findUnique({
+      where: { id: req.params.id }
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Alert rule not found' });
+    }
+
+    if (existing.userId !== userId) {
+      return res.status(403).json({
+        error: 'Access denied. You can only delete your own alert rules.'
+      });
+    }
+
+    await prisma.alertRule.delete({
+      where: { id: existing.id }
+    });
+
+    res.json({
+      message: 'Alert rule deleted',
+      deletedRuleId: existing.id
+    });
+
+  } catch (error) {
+    console.error('Error deleting alert rule:', getErrorMessage(error));
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+export default router;
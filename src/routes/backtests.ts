@@ -0,0 +1,353 @@
+// ============================================
+// BACKTESTS ROUTES (Strategy Backtesting)
+// ============================================
+// Run betting strategies over past fixtures and keep the results.
+// All routes are protected by authMiddleware (applied in index.ts).
+// Users can only access their own backtests.
+//
+// A run is started with POST /backtests and replays in the background
+// (see services/backtests.ts) - poll GET /backtests/:id until its
+// status is COMPLETED or FAILED.
+// ============================================
+
+import express from 'express';
+import type { Request, Response } from 'express';
+import prisma from '../db.js';
+import {
+  MAX_RANGE_DAYS,
+  SUPPORTED_MARKET_IDS,
+  startBacktest,
+  withBacktestSummary,
+  type BacktestInput,
+  type StakeRule
+} from '../services/backtests.js';
+
+// Create a router
+const router = express.Router();
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Unknown error';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const STAKE_RULES = ['FLAT', 'PERCENT', 'KELLY'] as const;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type StrategyBody = {
+  leagueIds?: unknown;
+  marketIds?: unknown;
+  minOdds?: unknown;
+  maxOdds?: unknown;
+  minEdge?: unknown;
+  maxEdge?: unknown;
+  minProbability?: unknown;
+  stake?: {
+    rule?: unknown;
+    amount?: unknown;
+    percent?: unknown;
+    fraction?: unknown;
+    maxPercent?: unknown;
+  };
+  startingBankroll?: unknown;
+};
+
+// ============================================
+// HELPER: Validate and normalize a backtest request
+// ============================================
+// Returns { error } for the first invalid field, or { input } with
+// defaults applied (minEdge 0, flat 1-unit stakes, 100 bankroll).
+
+const has = (value: unknown) => value !== undefined && value !== null && value !== '';
+
+const isIdList = (value: unknown) =>
+  Array.isArray(value) && value.every(id => Number.isInteger(Number(id)) && Number(id) > 0);
+
+function parseBacktestInput(body: Record<string, any>): { error: string } | { input: BacktestInput } {
+  const { name, startDate, endDate } = body;
+  const strategy: StrategyBody = body.strategy || {};
+
+  // 1. Date range
+  if (!DATE_PATTERN.test(String(startDate)) || !DATE_PATTERN.test(String(endDate))) {
+    return { error: 'startDate and endDate are required (YYYY-MM-DD)' };
+  }
+
+  const start = new Date(`${startDate}T00:00:00Z`);
+  const end = new Date(`${endDate}T00:00:00Z`);
+
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+    return { error: 'startDate and endDate must be valid dates' };
+  }
+  if (end < start) {
+    return { error: 'endDate must be on or after startDate' };
+  }
+  if ((end.getTime() - start.getTime()) / DAY_MS + 1 > MAX_RANGE_DAYS) {
+    return { error: `Date range cannot exceed ${MAX_RANGE_DAYS} days` };
+  }
+  if (start > new Date()) {
+    return { error: 'startDate must be in the past' };
+  }
+
+  // 2. Filters
+  if (has(strategy.leagueIds) && !isIdList(strategy.leagueIds)) {
+    return { error: 'strategy.leagueIds must be an array of league IDs' };
+  }
+  if (has(strategy.marketIds)) {
+    if (!isIdList(strategy.marketIds)) {
+      return { error: 'strategy.marketIds must be an array of market IDs' };
+    }
+    const unsupported = (strategy.marketIds as unknown[]).find(id => !SUPPORTED_MARKET_IDS.includes(Number(id)));
+    if (unsupported !== undefined) {
+      return { error: `Market ${unsupported} is not supported (use ${SUPPORTED_MARKET_IDS.join(', ')})` };
+    }
+  }
+
+  for (const field of ['minOdds', 'maxOdds'] as const) {
+    if (has(strategy[field]) && !(Number(strategy[field]) > 1)) {
+      return { error: `strategy.${field} must be a decimal price greater than 1` };
+    }
+  }
+  if (has(strategy.minOdds) && has(strategy.maxOdds) && Number(strategy.minOdds) > Number(strategy.maxOdds)) {
+    return { error: 'strategy.minOdds cannot be above strategy.maxOdds' };
+  }
+
+  for (const field of ['minEdge', 'maxEdge'] as const) {
+    if (has(strategy[field]) && Number.isNaN(Number(strategy[field]))) {
+      return { error: `strategy.${field} must be a number (EV %)` };
+    }
+  }
+  if (has(strategy.minProbability)) {
+    const probability = Number(strategy.minProbability);
+    if (Number.isNaN(probability) || probability < 0 || probability > 1) {
+      return { error: 'strategy.minProbability must be between 0 and 1' };
+    }
+  }
+
+  // 3. Stake rule
+  const stakeBody = strategy.stake || { rule: 'FLAT', amount: 1 };
+  let stake: StakeRule;
+
+  if (stakeBody.rule === 'FLAT') {
+    const amount = has(stakeBody.amount) ? Number(stakeBody.amount) : 1;
+    if (!(amount > 0)) return { error: 'strategy.stake.amount must be greater than 0' };
+    stake = { rule: 'FLAT', amount };
+  } else if (stakeBody.rule === 'PERCENT') {
+    const percent = Number(stakeBody.percent);
+    if (!(percent > 0 && percent <= 100)) return { error: 'strategy.stake.percent must be between 0 and 100' };
+    stake = { rule: 'PERCENT', percent };
+  } else if (stakeBody.rule === 'KELLY') {
+    const fraction = has(stakeBody.fraction) ? Number(stakeBody.fraction) : 1;
+    if (!(fraction > 0 && fraction <= 1)) return { error: 'strategy.stake.fraction must be between 0 and 1' };
+    if (has(stakeBody.maxPercent) && !(Number(stakeBody.maxPercent) > 0 && Number(stakeBody.maxPercent) <= 100)) {
+      return { error: 'strategy.stake.maxPercent must be between 0 and 100' };
+    }
+    stake = {
+      rule: 'KELLY',
+      fraction,
+      ...(has(stakeBody.maxPercent) ? { maxPercent: Number(stakeBody.maxPercent) } : {})
+    };
+  } else {
+    return { error: `strategy.stake.rule must be one of: ${STAKE_RULES.join(', ')}` };
+  }
+
+  const startingBankroll = has(strategy.startingBankroll) ? Number(strategy.startingBankroll) : 100;
+  if (!(startingBankroll > 0)) {
+    return { error: 'strategy.startingBankroll must be greater than 0' };
+  }
+
+  // Only keep optional filters that were given, so the stored strategy stays readable
+  const optionalNumber = (field: 'minOdds' | 'maxOdds' | 'maxEdge' | 'minProbability') =>
+    has(strategy[field]) ? { [field]: Number(strategy[field]) } : {};
+
+  return {
+    input: {
+      name: typeof name === 'string' && name.trim() ? name.trim() : `Backtest ${startDate} to ${endDate}`,
+      startDate,
+      endDate,
+      strategy: {
+        leagueIds: has(strategy.leagueIds) ? (strategy.leagueIds as unknown[]).map(Number) : [],
+        marketIds: has(strategy.marketIds) ? (strategy.marketIds as unknown[]).map(Number) : [],
+        ...optionalNumber('minOdds'),
+        ...optionalNumber('maxOdds'),
+        minEdge: has(strategy.minEdge) ? Number(strategy.minEdge) : 0,
+        ...optionalNumber('maxEdge'),
+        ...optionalNumber('minProbability'),
+        stake,
+        startingBankroll
+      }
+    }
+  };
+}
+
+// ============================================
+// START A BACKTEST
+// POST /backtests
+// Body: { name?, startDate, endDate, strategy: { leagueIds?, marketIds?, minOdds?, maxOdds?,
+//         minEdge?, maxEdge?, minProbability?, stake?, startingBankroll? } }
+// ============================================
+// Responds 202 with the RUNNING backtest; results are filled in
+// once the replay finishes.
+
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    // 1. Get the userId from the token (set by authMiddleware)
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Access denied. Not authenticated.' });
+    }
+
+    // 2. Validate the strategy
+    const parsed = parseBacktestInput(req.body || {});
+
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    // 3. Store the run and start it in the background
+    const backtest = await startBacktest(userId, parsed.input);
+
+    res.status(202).json({
+      message: 'Backtest started',
+      backtest: withBacktestSummary(backtest)
+    });
+
+  } catch (error) {
+    console.error('Error starting backtest:', getErrorMessage(error));
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// ============================================
+// GET ALL BACKTESTS
+// GET /backtests
+// ============================================
+// The user's runs with their headline results (no individual bets),
+// most recent first.
+
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Access denied. Not authenticated.' });
+    }
+
+    const backtests = await prisma.backtest.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json({
+      count: backtests.length,
+      backtests: backtests.map(withBacktestSummary)
+    });
+
+  } catch (error) {
+    console.error('Error fetching backtests:', getErrorMessage(error));
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// ============================================
+// GET SINGLE BACKTEST
+// GET /backtests/:id
+// ============================================
+// The run plus every simulated bet in the order it was placed.
+
+router.get('/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    // 1. Get the userId from the token
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Access denied. Not authenticated.' });
+    }
+
+    // 2. Fetch the backtest with its bets
+    const backtest = await prisma.backtest.findUnique({
+      where: { id: req.params.id },
+      include: {
+        bets: { orderBy: [{ kickoffAt: 'asc' }, { fixtureId: 'asc' }] }
+      }
+    });
+
+    // 3. Check it exists and belongs to this user
+    if (!backtest) {
+      return res.status(404).json({ error: 'Backtest not found' });
+    }
+
+    if (backtest.userId !== userId) {
+      return res.status(403).json({ error: 'Access denied. This backtest belongs to another user.' });
+    }
+
+    // 4. Return the backtest
+    res.json({ backtest: withBacktestSummary(backtest) });
+
+  } catch (error) {
+    console.error('Error fetching backtest:', getErrorMessage(error));
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// ============================================
+// DELETE BACKTEST
+// DELETE /backtests/:id
+// ============================================
+// Deletes the run and its bets. A run that is still replaying
+// can't be deleted.
+
+router.delete('/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    // 1. Get the userId from the token
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Access denied. Not authenticated.' });
+    }
+
+    // 2. Find the backtest to check ownership
+    const existingBacktest = await prisma.backtest.findUnique({
+      where: { id: req.params.id }
+    });
+
+    if (!existingBacktest) {
+      return res.status(404).json({ error: 'Backtest not found' });
+    }
+
+    if (existingBacktest.userId !== userId) {
+      return res.status(403).json({
+        error: 'Access denied. You can only delete your own backtests.'
+      });
+    }
+
+    if (existingBacktest.status === 'RUNNING') {
+      return res.status(409).json({ error: 'Backtest is still running' });
+    }
+
+    // 3. Delete the backtest (bets cascade)
+    await prisma.backtest.delete({
+      where: { id: existingBacktest.id }
+    });
+
+    // 4. Return success message
+    res.json({
+      message: 'Backtest deleted successfully',
+      deletedBacktestId: existingBacktest.id
+    });
+
+  } catch (error) {
+    console.error('Error deleting backtest:', getErrorMessage(error));
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// ============================================
+// EXPORT THE ROUTER
+// ============================================
+
+export default router;
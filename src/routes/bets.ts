@@ -0,0 +1,530 @@
+// ============================================
+// BETS ROUTES (Bet Journal)
+// ============================================
+// CRUD operations for the user's bet journal.
+// All routes are protected by authMiddleware (applied in index.ts).
+// Users can only access their own bets.
+//
+// NOTE: BetSmoke does NOT place bets - this is a record of bets
+// placed elsewhere, settled against SportsMonks final scores.
+// ============================================
+
+import express from 'express';
+import type { Request, Response } from 'express';
+import prisma from '../db.js';
+import { getFixtureById } from '../services/sportsmonks.js';
+import { calculateProfit, settlePendingBets } from '../services/settlement.js';
+import { getBetAnalytics, analyticsToCsv } from '../services/analytics.js';
+import { getKickoffTime, withClv } from '../services/closingLines.js';
+
+// Create a router (a mini Express app for just these routes)
+const router = express.Router();
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Unknown error';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const VALID_STATUSES = ['PENDING', 'WON', 'LOST', 'VOID'] as const;
+
+type BetStatus = (typeof VALID_STATUSES)[number];
+
+type BetInput = {
+  fixtureId?: number | string;
+  marketId?: number | string;
+  selection?: string;
+  line?: number | string | null;
+  bookmakerId?: number | string;
+  price?: number | string;
+  stake?: number | string;
+  placedAt?: string;
+  status?: string;
+  profit?: number | string | null;
+  closingPrice?: number | string | null;
+};
+
+// ============================================
+// HELPER: Validate bet fields
+// ============================================
+// Returns an error message for the first invalid field, or null if valid.
+// When `partial` is true (updates), missing fields are skipped.
+
+const isPositiveInteger = (value: unknown) =>
+  Number.isInteger(Number(value)) && Number(value) > 0;
+
+function validateBetInput(input: BetInput, partial = false): string | null {
+  const has = (value: unknown) => value !== undefined && value !== null && value !== '';
+
+  if (!partial || has(input.fixtureId)) {
+    if (!isPositiveInteger(input.fixtureId)) return 'fixtureId must be a positive integer';
+  }
+  if (!partial || has(input.marketId)) {
+    if (!isPositiveInteger(input.marketId)) return 'marketId must be a positive integer';
+  }
+  if (!partial || has(input.bookmakerId)) {
+    if (!isPositiveInteger(input.bookmakerId)) return 'bookmakerId must be a positive integer';
+  }
+  if (!partial || input.selection !== undefined) {
+    if (typeof input.selection !== 'string' || input.selection.trim() === '') {
+      return 'selection is required';
+    }
+  }
+  if (!partial || has(input.price)) {
+    if (!(Number(input.price) > 1)) return 'price must be a decimal price greater than 1';
+  }
+  if (!partial || has(input.stake)) {
+    if (!(Number(input.stake) > 0)) return 'stake must be greater than 0';
+  }
+  if (has(input.line) && Number.isNaN(Number(input.line))) {
+    return 'line must be a number';
+  }
+  if (has(input.placedAt) && Number.isNaN(new Date(input.placedAt as string).getTime())) {
+    return 'placedAt must be a valid date';
+  }
+  if (has(input.status) && !VALID_STATUSES.includes(input.status as BetStatus)) {
+    return `status must be one of: ${VALID_STATUSES.join(', ')}`;
+  }
+  if (has(input.profit) && Number.isNaN(Number(input.profit))) {
+    return 'profit must be a number';
+  }
+  if (has(input.closingPrice) && !(Number(input.closingPrice) > 1)) {
+    return 'closingPrice must be a decimal price greater than 1';
+  }
+
+  return null;
+}
+
+// ============================================
+// HELPER: Look up fixture context
+// ============================================
+// Fetches the league, fixture name and kickoff time for a bet so analytics
+// can break results down by league and the closing line can be captured.
+// Best-effort: a SportsMonks failure shouldn't stop the user recording a bet
+// (settlement and the closing line job fill it in later).
+
+async function lookupFixtureContext(fixtureId: number) {
+  try {
+    const result = await getFixtureById(fixtureId);
+    return {
+      leagueId: result.data?.league_id ?? null,
+      fixtureName: result.data?.name ?? null,
+      kickoffAt: getKickoffTime(result.data)
+    };
+  } catch (error) {
+    console.error(`Error looking up fixture ${fixtureId} for bet:`, getErrorMessage(error));
+    return { leagueId: null, fixtureName: null, kickoffAt: null };
+  }
+}
+
+// ============================================
+// CREATE BET
+// POST /bets
+// Body: { fixtureId, marketId, selection, line?, bookmakerId, price, stake, placedAt? }
+// ============================================
+
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    // 1. Get the userId from the token (set by authMiddleware)
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Access denied. Not authenticated.' });
+    }
+
+    // 2. Validate the bet fields
+    const input = (req.body ?? {}) as BetInput;
+    const validationError = validateBetInput(input);
+
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    // 3. Look up the fixture's league and name
+    const fixtureContext = await lookupFixtureContext(Number(input.fixtureId));
+
+    // 4. Create the bet (always starts PENDING)
+    const bet = await prisma.bet.create({
+      data: {
+        userId,
+        fixtureId: Number(input.fixtureId),
+        ...fixtureContext,
+        marketId: Number(input.marketId),
+        selection: input.selection!.trim(),
+        line: input.line !== undefined && input.line !== null && input.line !== ''
+          ? Number(input.line)
+          : null,
+        bookmakerId: Number(input.bookmakerId),
+        price: Number(input.price),
+        stake: Number(input.stake),
+        ...(input.placedAt ? { placedAt: new Date(input.placedAt) } : {})
+      }
+    });
+
+    // 5. Return the created bet
+    res.status(201).json({
+      message: 'Bet recorded successfully',
+      bet: withClv(bet)
+    });
+
+  } catch (error) {
+    console.error('Error creating bet:', getErrorMessage(error));
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// ============================================
+// GET ALL BETS
+// GET /bets
+// Optional query params: ?status=PENDING&fixtureId=123
+// ============================================
+
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    // 1. Get the userId from the token
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Access denied. Not authenticated.' });
+    }
+
+    // 2. Get optional filter parameters from query string
+    const { status, fixtureId } = req.query as {
+      status?: string;
+      fixtureId?: string;
+    };
+
+    if (status && !VALID_STATUSES.includes(status as BetStatus)) {
+      return res.status(400).json({
+        error: `status must be one of: ${VALID_STATUSES.join(', ')}`
+      });
+    }
+
+    if (fixtureId && !isPositiveInteger(fixtureId)) {
+      return res.status(400).json({ error: 'fixtureId must be a positive integer' });
+    }
+
+    // 3. Fetch the user's bets (most recently placed first)
+    const bets = await prisma.bet.findMany({
+      where: {
+        userId,
+        ...(status ? { status: status as BetStatus } : {}),
+        ...(fixtureId ? { fixtureId: Number(fixtureId) } : {})
+      },
+      orderBy: { placedAt: 'desc' }
+    });
+
+    // 4. Return the bets
+    res.json({
+      count: bets.length,
+      bets: bets.map(withClv)
+    });
+
+  } catch (error) {
+    console.error('Error fetching bets:', getErrorMessage(error));
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// ============================================
+// BANKROLL & P&L ANALYTICS
+// GET /bets/analytics
+// Optional query params: ?startingBankroll=1000&format=csv
+// ============================================
+// Running bankroll, ROI, yield, strike rate, longest losing streak and
+// max drawdown, broken down by league, market, bookmaker and month.
+// Prices are formatted in the user's oddsFormat preference.
+// format=csv returns the same figures as a CSV download.
+// NOTE: Must come BEFORE /:id routes
+
+router.get('/analytics', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Access denied. Not authenticated.' });
+    }
+
+    const { startingBankroll, format } = req.query as {
+      startingBankroll?: string;
+      format?: string;
+    };
+
+    // Validate optional params
+    const bankroll = startingBankroll ? Number(startingBankroll) : 0;
+
+    if (Number.isNaN(bankroll) || bankroll < 0) {
+      return res.status(400).json({ error: 'startingBankroll must be a non-negative number' });
+    }
+
+    if (format && format !== 'json' && format !== 'csv') {
+      return res.status(400).json({ error: 'format must be json or csv' });
+    }
+
+    const analytics = await getBetAnalytics(userId, { startingBankroll: bankroll });
+
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', 'attachment; filename="bet-analytics.csv"');
+      return res.send(analyticsToCsv(analytics));
+    }
+
+    res.json(analytics);
+
+  } catch (error) {
+    console.error('Error computing bet analytics:', getErrorMessage(error));
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// ============================================
+// SETTLE PENDING BETS
+// POST /bets/settle
+// ============================================
+// Settles the user's pending bets right away instead of waiting
+// for the scheduled settlement run.
+// NOTE: Must come BEFORE /:id routes
+
+router.post('/settle', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Access denied. Not authenticated.' });
+    }
+
+    const result = await settlePendingBets({ userId });
+
+    res.json({
+      message: `Settled ${result.settled} of ${result.pendingBets} pending bets`,
+      result
+    });
+
+  } catch (error) {
+    console.error('Error settling bets:', getErrorMessage(error));
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// ============================================
+// GET SINGLE BET
+// GET /bets/:id
+// ============================================
+
+router.get('/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    // 1. Get the userId from the token
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Access denied. Not authenticated.' });
+    }
+
+    // 2. Fetch the bet
+    const bet = await prisma.bet.findUnique({
+      where: { id: req.params.id }
+    });
+
+    // 3. Check it exists and belongs to this user
+    if (!bet) {
+      return res.status(404).json({ error: 'Bet not found' });
+    }
+
+    if (bet.userId !== userId) {
+      return res.status(403).json({ error: 'Access denied. This bet belongs to another user.' });
+    }
+
+    // 4. Return the bet
+    res.json({ bet: withClv(bet) });
+
+  } catch (error) {
+    console.error('Error fetching bet:', getErrorMessage(error));
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// ============================================
+// UPDATE BET
+// PUT /bets/:id
+// Body: any of { fixtureId, marketId, selection, line, bookmakerId, price, stake, placedAt, status, profit, closingPrice }
+// ============================================
+// Setting status manually settles (or un-settles) the bet.
+// Profit is recalculated from stake/price unless provided explicitly.
+// Changing what was bet on (fixture, market, selection, line, bookmaker)
+// clears the captured closing price unless a new one is provided.
+
+router.put('/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    // 1. Get the userId from the token
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Access denied. Not authenticated.' });
+    }
+
+    // 2. Validate the provided fields
+    const input = (req.body ?? {}) as BetInput;
+
+    if (Object.keys(input).length === 0) {
+      return res.status(400).json({ error: 'Nothing to update.' });
+    }
+
+    const validationError = validateBetInput(input, true);
+
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    // 3. Find the bet to check ownership
+    const existingBet = await prisma.bet.findUnique({
+      where: { id: req.params.id }
+    });
+
+    if (!existingBet) {
+      return res.status(404).json({ error: 'Bet not found' });
+    }
+
+    if (existingBet.userId !== userId) {
+      return res.status(403).json({
+        error: 'Access denied. You can only edit your own bets.'
+      });
+    }
+
+    // 4. Build the update object
+    const data: {
+      fixtureId?: number;
+      leagueId?: number | null;
+      fixtureName?: string | null;
+      kickoffAt?: Date | null;
+      marketId?: number;
+      selection?: string;
+      line?: number | null;
+      bookmakerId?: number;
+      price?: number;
+      stake?: number;
+      placedAt?: Date;
+      status?: BetStatus;
+      profit?: number | null;
+      settledAt?: Date | null;
+      closingPrice?: number | null;
+      closingPriceAt?: Date | null;
+    } = {};
+
+    if (input.fixtureId && Number(input.fixtureId) !== existingBet.fixtureId) {
+      data.fixtureId = Number(input.fixtureId);
+      Object.assign(data, await lookupFixtureContext(data.fixtureId));
+    }
+    if (input.marketId) data.marketId = Number(input.marketId);
+    if (input.selection) data.selection = input.selection.trim();
+    if (input.line !== undefined) {
+      data.line = input.line === null || input.line === '' ? null : Number(input.line);
+    }
+    if (input.bookmakerId) data.bookmakerId = Number(input.bookmakerId);
+    if (input.price) data.price = Number(input.price);
+    if (input.stake) data.stake = Number(input.stake);
+    if (input.placedAt) data.placedAt = new Date(input.placedAt);
+
+    // 5. Work out the closing price
+    const selectionChanged =
+      (data.fixtureId !== undefined) ||
+      (data.marketId !== undefined && data.marketId !== existingBet.marketId) ||
+      (data.selection !== undefined && data.selection !== existingBet.selection) ||
+      (data.line !== undefined && data.line !== existingBet.line) ||
+      (data.bookmakerId !== undefined && data.bookmakerId !== existingBet.bookmakerId);
+
+    if (input.closingPrice !== undefined) {
+      const hasClosingPrice = input.closingPrice !== null && input.closingPrice !== '';
+      data.closingPrice = hasClosingPrice ? Number(input.closingPrice) : null;
+      data.closingPriceAt = hasClosingPrice ? new Date() : null;
+    } else if (selectionChanged) {
+      data.closingPrice = null;
+      data.closingPriceAt = null;
+    }
+
+    // 6. Work out settlement fields
+    const status = (input.status as BetStatus | undefined) || existingBet.status;
+    const stake = data.stake ?? existingBet.stake;
+    const price = data.price ?? existingBet.price;
+
+    if (status === 'PENDING') {
+      data.status = 'PENDING';
+      data.profit = null;
+      data.settledAt = null;
+    } else {
+      data.status = status;
+      data.profit = input.profit !== undefined && input.profit !== null && input.profit !== ''
+        ? Number(input.profit)
+        : calculateProfit(status, stake, price);
+      data.settledAt = existingBet.settledAt ?? new Date();
+    }
+
+    // 7. Update the bet
+    const bet = await prisma.bet.update({
+      where: { id: existingBet.id },
+      data
+    });
+
+    // 8. Return the updated bet
+    res.json({
+      message: 'Bet updated successfully',
+      bet: withClv(bet)
+    });
+
+  } catch (error) {
+    console.error('Error updating bet:', getErrorMessage(error));
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// ============================================
+// DELETE BET
+// DELETE /bets/:id
+// ============================================
+
+router.delete('/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    // 1. Get the userId from the token
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Access denied. Not authenticated.' });
+    }
+
+    // 2. Find the bet to check ownership
+    const existingBet = await prisma.bet.findUnique({
+      where: { id: req.params.id }
+    });
+
+    if (!existingBet) {
+      return res.status(404).json({ error: 'Bet not found' });
+    }
+
+    if (existingBet.userId !== userId) {
+      return res.status(403).json({
+        error: 'Access denied. You can only delete your own bets.'
+      });
+    }
+
+    // 3. Delete the bet
+    await prisma.bet.delete({
+      where: { id: existingBet.id }
+    });
+
+    // 4. Return success message
+    res.json({
+      message: 'Bet deleted successfully',
+      deletedBetId: existingBet.id
+    });
+
+  } catch (error) {
+    console.error('Error deleting bet:', getErrorMessage(error));
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// ============================================
+// EXPORT THE ROUTER
+// ============================================
+
+export default router;
@@ -32,6 +32,7 @@ import {
 // This adds human-readable type names (e.g., "Goal", "Corners") to API data
 // so the frontend doesn't need hardcoded type_id mappings
 import { enrichFixtureWithTypes } from '../services/types.js';
+import { sendApiError } from '../services/apiErrors.js';
 
 // Import auth middleware - all routes require authentication
 import authMiddleware from '../middleware/auth.js';
@@ -148,10 +149,7 @@ router.get('/date/:date', async (req: Request, res: Response) => {
     
   } catch (error) {
     console.error('Fixtures by date error:', getErrorMessage(error));
-    res.status(500).json({ 
-      error: 'Failed to get fixtures',
-      details: getErrorMessage(error)
-    });
+    sendApiError(res, error, 'Failed to get fixtures');
   }
 });
 
@@ -222,10 +220,7 @@ router.get('/between/:startDate/:endDate', async (req: Request, res: Response) =
     
   } catch (error) {
     console.error('Fixtures by date range error:', getErrorMessage(error));
-    res.status(500).json({ 
-      error: 'Failed to get fixtures',
-      details: getErrorMessage(error)
-    });
+    sendApiError(res, error, 'Failed to get fixtures');
   }
 });
 
@@ -299,10 +294,7 @@ router.get('/between/:startDate/:endDate/team/:teamId', async (req: Request, res
     
   } catch (error) {
     console.error('Team fixtures by date range error:', getErrorMessage(error));
-    res.status(500).json({ 
-      error: 'Failed to get fixtures',
-      details: getErrorMessage(error)
-    });
+    sendApiError(res, error, 'Failed to get fixtures');
   }
 });
 
@@ -343,10 +335,7 @@ router.get('/search/:query', async (req: Request, res: Response) => {
     
   } catch (error) {
     console.error('Fixture search error:', getErrorMessage(error));
-    res.status(500).json({ 
-      error: 'Failed to search fixtures',
-      details: getErrorMessage(error)
-    });
+    sendApiError(res, error, 'Failed to search fixtures');
   }
 });
 
@@ -394,10 +383,7 @@ router.get('/seasons/:seasonId', async (req: Request, res: Response) => {
     
   } catch (error) {
     console.error('Get stages error:', getErrorMessage(error));
-    res.status(500).json({ 
-      error: 'Failed to get stages',
-      details: getErrorMessage(error)
-    });
+    sendApiError(res, error, 'Failed to get stages');
   }
 });
 
@@ -444,10 +430,7 @@ router.get('/:id/predictions', async (req: Request, res: Response) => {
     
   } catch (error) {
     console.error('Get predictions error:', getErrorMessage(error));
-    res.status(500).json({ 
-      error: 'Failed to get predictions',
-      details: getErrorMessage(error)
-    });
+    sendApiError(res, error, 'Failed to get predictions');
   }
 });
 
@@ -503,10 +486,7 @@ router.get('/:id', async (req: Request, res: Response) => {
     
   } catch (error) {
     console.error('Get fixture error:', getErrorMessage(error));
-    res.status(500).json({ 
-      error: 'Failed to get fixture',
-      details: getErrorMessage(error)
-    });
+    sendApiError(res, error, 'Failed to get fixture');
   }
 });
 
@@ -16,6 +16,8 @@ import {
   getLeagueById,
   searchLeagues
 } from '../services/sportsmonks.js';
+import { sendApiError } from '../services/apiErrors.js';
+import { SORT_FIELDS, loadSeasonFixtures, buildTeamTable } from '../services/leagueTeamStats.js';
 
 // Import auth middleware - all routes require authentication
 import authMiddleware from '../middleware/auth.js';
@@ -55,10 +57,7 @@ router.get('/', async (_req: Request, res: Response) => {
 
   } catch (error) {
     console.error('Get all leagues error:', getErrorMessage(error));
-    res.status(500).json({
-      error: 'Failed to get leagues',
-      details: getErrorMessage(error)
-    });
+    sendApiError(res, error, 'Failed to get leagues');
   }
 });
 
@@ -96,10 +95,7 @@ router.get('/search/:query', async (req: Request, res: Response) => {
 
   } catch (error) {
     console.error('Search leagues error:', getErrorMessage(error));
-    res.status(500).json({
-      error: 'Failed to search leagues',
-      details: getErrorMessage(error)
-    });
+    sendApiError(res, error, 'Failed to search leagues');
   }
 });
 
@@ -144,10 +140,85 @@ router.get('/:id', async (req: Request, res: Response) => {
 
   } catch (error) {
     console.error('Get league by ID error:', getErrorMessage(error));
-    res.status(500).json({
-      error: 'Failed to get league',
-      details: getErrorMessage(error)
+    sendApiError(res, error, 'Failed to get league');
+  }
+});
+
+// ============================================
+// GET TEAM STATS FOR A LEAGUE SEASON
+// GET /leagues/:id/seasons/:seasonId/team-stats
+// Example: GET /leagues/8/seasons/23614/team-stats?sort=cornersFor&location=home
+// ============================================
+// Season statistics for every team in the season, for comparing teams
+// side by side. Averages are per game; rates are percentages. xG,
+// corners and cards are null when SportsMonks has no data for them.
+//
+// Query parameters:
+//   - location: "home" or "away" to count only those matches (default: all)
+//   - sort:     Any numeric column, e.g. points, goalsFor, xgFor, bttsRate (default: points)
+//   - order:    "asc" or "desc" (default: desc)
+//
+// Response:
+// {
+//   leagueId: 8,
+//   seasonId: 23614,
+//   source: "warehouse",          // or "sportsmonks"
+//   teams: [{
+//     teamId, teamName, played, won, drawn, lost, points,
+//     goalsFor, goalsAgainst, goalDifference, goalsForAverage, goalsAgainstAverage,
+//     xgFor, xgAgainst, cornersFor, cornersAgainst, yellowCards, redCards,
+//     bttsRate, over25Rate, cleanSheets, cleanSheetRate
+//   }]
+// }
+
+router.get('/:id/seasons/:seasonId/team-stats', async (req: Request, res: Response) => {
+  try {
+    const { id, seasonId } = req.params;
+    const { location, sort = 'points', order = 'desc' } = req.query as {
+      location?: string;
+      sort?: string;
+      order?: string;
+    };
+
+    // Validate IDs
+    if (isInvalidNumber(id)) {
+      return res.status(400).json({ error: 'League ID must be a number' });
+    }
+    if (isInvalidNumber(seasonId)) {
+      return res.status(400).json({ error: 'Season ID must be a number' });
+    }
+
+    // Validate filters and sorting
+    if (location !== undefined && location !== 'home' && location !== 'away') {
+      return res.status(400).json({ error: 'location must be "home" or "away"' });
+    }
+    if (!SORT_FIELDS.includes(sort)) {
+      return res.status(400).json({ error: `sort must be one of: ${SORT_FIELDS.join(', ')}` });
+    }
+    if (order !== 'asc' && order !== 'desc') {
+      return res.status(400).json({ error: 'order must be "asc" or "desc"' });
+    }
+
+    // Load the season's fixtures (cached per season)
+    const result = await loadSeasonFixtures(parseInt(id, 10), parseInt(seasonId, 10));
+    if (!result) {
+      return res.status(404).json({ error: `Season ${seasonId} not found in league ${id}` });
+    }
+
+    const { fixtures, ...season } = result.data;
+
+    res.json({
+      ...season,
+      location: location ?? null,
+      sort,
+      order,
+      teams: buildTeamTable(fixtures, { location, sort, order }),
+      fromCache: result.fromCache
     });
+
+  } catch (error) {
+    console.error('Get league team stats error:', getErrorMessage(error));
+    sendApiError(res, error, 'Failed to get league team stats');
   }
 });
 
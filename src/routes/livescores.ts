@@ -14,9 +14,11 @@ import {
   getLivescores,
   getLivescoresInplay
 } from '../services/sportsmonks.js';
+import { getLiveSnapshot, subscribe, type LiveUpdate } from '../services/livePoller.js';
+import { sendApiError } from '../services/apiErrors.js';
 
 // Import auth middleware - all routes require authentication
-import authMiddleware from '../middleware/auth.js';
+import authMiddleware, { streamAuthMiddleware } from '../middleware/auth.js';
 
 // Create a router
 const router = express.Router();
@@ -24,7 +26,86 @@ const router = express.Router();
 const getErrorMessage = (error: unknown) =>
   error instanceof Error ? error.message : 'Unknown error';
 
-// Apply auth middleware to all routes in this router
+// A comment line is sent this often so proxies don't close an idle stream
+const STREAM_HEARTBEAT_SECONDS = 25;
+
+// ============================================
+// LIVE UPDATES STREAM (Server-Sent Events)
+// GET /livescores/stream
+// Example: new EventSource('/livescores/stream?token=<jwt>')
+// ============================================
+// Pushes in-play changes as they're polled (see services/livePoller.ts),
+// instead of every client polling /livescores/inplay. Declared before
+// router.use(authMiddleware) because EventSource can't send headers:
+// the token may come as ?token= instead (streamAuthMiddleware).
+//
+// Events:
+//   event: snapshot  - once on connect
+//   data: { fixtures: [{ id, name, state, scores, events, ... }], polledAt }
+//
+//   event: update    - one per changed fixture
+//   data: {
+//     fixtureId: 19135049,
+//     changes: ["score", "events"],   // added, removed, score, state, events
+//     fixture: { id, state, scores, events, ... },   // null when removed
+//     score: { home: 1, away: 0 },
+//     newEvents: [{ id, type_id, minute, player_name, result, ... }],
+//     removedEventIds: [],
+//     polledAt: "2025-01-11T17:52:15.000Z"
+//   }
+
+router.get('/stream', streamAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    // Client went away - stop listening (the poller stops with the last
+    // one). Attached before the snapshot is fetched, which can take a
+    // full API call, so a client that leaves meanwhile is never subscribed.
+    let stopListening = () => {};
+    req.on('close', () => stopListening());
+
+    // Everything in play right now, so the client starts in sync
+    const snapshot = await getLiveSnapshot();
+
+    if (req.destroyed || res.writableEnded) {
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'   // Stop nginx buffering the stream
+    });
+
+    const send = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    // EventSource reconnects after this many milliseconds if the stream drops
+    res.write('retry: 5000\n\n');
+    send('snapshot', snapshot);
+
+    const unsubscribe = subscribe((updates: LiveUpdate[]) => {
+      for (const update of updates) {
+        send('update', update);
+      }
+    });
+
+    const heartbeat = setInterval(() => {
+      res.write(': heartbeat\n\n');
+    }, STREAM_HEARTBEAT_SECONDS * 1000);
+
+    stopListening = () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    };
+
+  } catch (error) {
+    console.error('Live stream error:', getErrorMessage(error));
+    sendApiError(res, error, 'Failed to open live stream');
+  }
+});
+
+// Apply auth middleware to all other routes in this router
 router.use(authMiddleware);
 
 // ============================================
@@ -51,10 +132,7 @@ router.get('/', async (_req: Request, res: Response) => {
 
   } catch (error) {
     console.error('Get live scores error:', getErrorMessage(error));
-    res.status(500).json({
-      error: 'Failed to get live scores',
-      details: getErrorMessage(error)
-    });
+    sendApiError(res, error, 'Failed to get live scores');
   }
 });
 
@@ -82,10 +160,7 @@ router.get('/inplay', async (_req: Request, res: Response) => {
 
   } catch (error) {
     console.error('Get in-play scores error:', getErrorMessage(error));
-    res.status(500).json({
-      error: 'Failed to get in-play scores',
-      details: getErrorMessage(error)
-    });
+    sendApiError(res, error, 'Failed to get in-play scores');
   }
 });
 
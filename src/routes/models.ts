@@ -0,0 +1,85 @@
+// ============================================
+// MODELS ROUTES (In-house goal models)
+// ============================================
+// Our own prediction models, fitted from SportsMonks results.
+// Compare with the SportsMonks predictions at /fixtures/:id/predictions.
+// ============================================
+
+import express from 'express';
+import type { Request, Response } from 'express';
+import { DEFAULT_XI, predictFixture } from '../services/poissonModel.js';
+import { sendApiError } from '../services/apiErrors.js';
+
+// Import auth middleware - all routes require authentication
+import authMiddleware from '../middleware/auth.js';
+
+// Create a router
+const router = express.Router();
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Unknown error';
+
+const isInvalidNumber = (value: string) => Number.isNaN(Number(value));
+
+// Apply auth middleware to all routes in this router
+router.use(authMiddleware);
+
+// ============================================
+// GET POISSON / DIXON-COLES PREDICTION
+// GET /models/poisson/fixtures/:id
+// Example: GET /models/poisson/fixtures/19134913?xi=0.0065
+// ============================================
+// Fits team attack/defence strengths on the fixture's league season
+// (results before kickoff, time-decayed) with the Dixon-Coles
+// low-score correction, then returns:
+//   - Expected goals for each team
+//   - Score matrix (0-10 goals each)
+//   - 1X2, double chance, BTTS and over/under probabilities (0-1)
+//   - The 10 most likely correct scores
+//
+// Query parameters (optional):
+//   - xi: Time decay per day (default 0.0065, 0 = all matches weighted equally)
+
+router.get('/poisson/fixtures/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    // 1. Validate
+    if (isInvalidNumber(id)) {
+      return res.status(400).json({
+        error: 'Fixture ID must be a number'
+      });
+    }
+
+    const xi = req.query.xi !== undefined ? Number(req.query.xi) : DEFAULT_XI;
+    if (Number.isNaN(xi) || xi < 0 || xi > 0.1) {
+      return res.status(400).json({
+        error: 'xi must be a number between 0 and 0.1'
+      });
+    }
+
+    // 2. Fit the season and predict the fixture
+    const prediction = await predictFixture(id, { xi });
+
+    if (!prediction) {
+      return res.status(404).json({
+        error: `Fixture ${id} not found or has no season/teams`
+      });
+    }
+
+    res.json({
+      message: `Poisson model prediction for fixture ${id}`,
+      ...prediction
+    });
+
+  } catch (error) {
+    console.error('Get Poisson prediction error:', getErrorMessage(error));
+    sendApiError(res, error, 'Failed to get Poisson model prediction');
+  }
+});
+
+// ============================================
+// EXPORT THE ROUTER
+// ============================================
+
+export default router;
@@ -10,6 +10,7 @@
 import express from 'express';
 import type { Request, Response } from 'express';
 import prisma from '../db.js';
+import { searchNotes } from '../services/noteSearch.js';
 
 // Create a router (a mini Express app for just these routes)
 const router = express.Router();
@@ -17,6 +18,23 @@ const router = express.Router();
 const getErrorMessage = (error: unknown) =>
   error instanceof Error ? error.message : 'Unknown error';
 
+// Search paging: results per page by default and at most
+const DEFAULT_SEARCH_LIMIT = 20;
+const MAX_SEARCH_LIMIT = 100;
+
+// Longest search query accepted
+const MAX_SEARCH_LENGTH = 200;
+
+// Checks if a string is a valid YYYY-MM-DD date
+// (a real calendar date - "2025-02-31" would otherwise roll over to March)
+function isValidDate(dateString: string) {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(dateString)) {
+    return false;
+  }
+  const date = new Date(dateString);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === dateString;
+}
+
 type NoteLinkInput = {
   contextType: string;
   contextId?: string;
@@ -193,6 +211,100 @@ router.get('/', async (req: Request, res: Response) => {
   }
 });
 
+// ============================================
+// SEARCH NOTES
+// GET /notes/search?q=saka injury
+// Optional query params: ?startDate=2025-01-01&endDate=2025-01-31
+//   &contextType=team&contextId=19&limit=20&offset=0
+// ============================================
+// Full-text search over titles, content and link labels (Postgres
+// text search, see services/noteSearch.ts), best matches first.
+// Dates filter on when the note was created.
+// NOTE: Must come BEFORE /:id routes
+
+router.get('/search', async (req: Request, res: Response) => {
+  try {
+    // 1. Get the userId from the token
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Access denied. Not authenticated.' });
+    }
+
+    // 2. Validate the query string
+    const { q, startDate, endDate, contextType, contextId, limit, offset } = req.query as {
+      q?: string;
+      startDate?: string;
+      endDate?: string;
+      contextType?: string;
+      contextId?: string;
+      limit?: string;
+      offset?: string;
+    };
+
+    // Repeated parameters (?q=a&q=b) arrive as arrays
+    const repeated = Object.entries({ q, startDate, endDate, contextType, contextId, limit, offset })
+      .find(([, value]) => value !== undefined && typeof value !== 'string');
+    if (repeated) {
+      return res.status(400).json({ error: `${repeated[0]} must be given once` });
+    }
+
+    const query = typeof q === 'string' ? q.trim() : '';
+    if (!query) {
+      return res.status(400).json({ error: 'Search query (q) is required' });
+    }
+    if (query.length > MAX_SEARCH_LENGTH) {
+      return res.status(400).json({ error: `Search query must be at most ${MAX_SEARCH_LENGTH} characters` });
+    }
+
+    if ((startDate && !isValidDate(startDate)) || (endDate && !isValidDate(endDate))) {
+      return res.status(400).json({
+        error: 'Invalid date format',
+        expected: 'YYYY-MM-DD'
+      });
+    }
+    if (startDate && endDate && new Date(startDate) > new Date(endDate)) {
+      return res.status(400).json({ error: 'Start date must be before end date' });
+    }
+
+    if (limit !== undefined && !(Number.isInteger(Number(limit)) && Number(limit) > 0)) {
+      return res.status(400).json({ error: 'limit must be a positive integer' });
+    }
+    if (offset !== undefined && !(Number.isInteger(Number(offset)) && Number(offset) >= 0)) {
+      return res.status(400).json({ error: 'offset must be a non-negative integer' });
+    }
+
+    const pageSize = Math.min(Number(limit) || DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT);
+    const skip = Number(offset) || 0;
+
+    // 3. Run the search
+    const { total, results } = await searchNotes({
+      userId,
+      query,
+      startDate,
+      endDate,
+      contextType,
+      contextId,
+      limit: pageSize,
+      offset: skip
+    });
+
+    // 4. Return the page of results
+    res.json({
+      query,
+      total,
+      count: results.length,
+      limit: pageSize,
+      offset: skip,
+      notes: results
+    });
+
+  } catch (error) {
+    console.error('Error searching notes:', getErrorMessage(error));
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
 // ============================================
 // GET SINGLE NOTE
 // GET /notes/:id
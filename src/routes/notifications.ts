@@ -0,0 +1,220 @@
+// ============================================
+// NOTIFICATIONS ROUTES
+// ============================================
+// The user's in-app notification inbox: list, unread count, mark read
+// and delete. Notifications are created by the app (match alerts on
+// the IN_APP channel), never through this API.
+// All routes are protected by authMiddleware (applied in index.ts).
+// Users can only access their own notifications.
+// ============================================
+
+import express from 'express';
+import type { Request, Response } from 'express';
+import prisma from '../db.js';
+import { getUnreadCount } from '../services/notifications.js';
+
+const router = express.Router();
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Unknown error';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+const isNonNegativeInteger = (value: unknown) =>
+  Number.isInteger(Number(value)) && Number(value) >= 0;
+
+// ============================================
+// GET /notifications - List the user's notifications
+// ============================================
+// Newest first.
+// Query: unread=true (unread only), limit (default 20, max 100), offset
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Access denied. Not authenticated.' });
+    }
+
+    const { unread, limit, offset } = req.query as {
+      unread?: string;
+      limit?: string;
+      offset?: string;
+    };
+
+    if (limit !== undefined && !(isNonNegativeInteger(limit) && Number(limit) > 0)) {
+      return res.status(400).json({ error: 'limit must be a positive integer' });
+    }
+    if (offset !== undefined && !isNonNegativeInteger(offset)) {
+      return res.status(400).json({ error: 'offset must be a non-negative integer' });
+    }
+
+    const where = {
+      userId,
+      ...(unread === 'true' ? { readAt: null } : {})
+    };
+    const take = Math.min(Number(limit) || DEFAULT_LIMIT, MAX_LIMIT);
+    const skip = Number(offset) || 0;
+
+    const [notifications, total, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take,
+        skip
+      }),
+      prisma.notification.count({ where }),
+      getUnreadCount(userId)
+    ]);
+
+    res.json({
+      total,
+      unreadCount,
+      count: notifications.length,
+      notifications
+    });
+
+  } catch (error) {
+    console.error('Error fetching notifications:', getErrorMessage(error));
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// ============================================
+// GET /notifications/unread-count - Unread badge count
+// ============================================
+// NOTE: Must come BEFORE /:id routes
+router.get('/unread-count', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Access denied. Not authenticated.' });
+    }
+
+    res.json({ unreadCount: await getUnreadCount(userId) });
+
+  } catch (error) {
+    console.error('Error counting notifications:', getErrorMessage(error));
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// ============================================
+// PATCH /notifications/read-all - Mark every notification read
+// ============================================
+// NOTE: Must come BEFORE /:id routes
+router.patch('/read-all', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Access denied. Not authenticated.' });
+    }
+
+    const { count } = await prisma.notification.updateMany({
+      where: { userId, readAt: null },
+      data: { readAt: new Date() }
+    });
+
+    res.json({
+      message: 'All notifications marked as read',
+      updated: count
+    });
+
+  } catch (error) {
+    console.error('Error marking notifications read:', getErrorMessage(error));
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// ============================================
+// PATCH /notifications/:id/read - Mark one notification read
+// ============================================
+// Already-read notifications keep their original readAt.
+router.patch('/:id/read', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Access denied. Not authenticated.' });
+    }
+
+    const existing = await prisma.notification.findUnique({
+      where: { id: req.params.id }
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Notification not found' });
+    }
+
+    if (existing.userId !== userId) {
+      return res.status(403).json({
+        error: 'Access denied. You can only update your own notifications.'
+      });
+    }
+
+    const notification = existing.readAt
+      ? existing
+      : await prisma.notification.update({
+        where: { id: existing.id },
+        data: { readAt: new Date() }
+      });
+
+    res.json({
+      message: 'Notification marked as read',
+      notification
+    });
+
+  } catch (error) {
+    console.error('Error marking notification read:', getErrorMessage(error));
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// ============================================
+// DELETE /notifications/:id - Delete a notification
+// ============================================
+router.delete('/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Access denied. Not authenticated.' });
+    }
+
+    const existing = await prisma.notification.findUnique({
+      where: { id: req.params.id }
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Notification not found' });
+    }
+
+    if (existing.userId !== userId) {
+      return res.status(403).json({
+        error: 'Access denied. You can only delete your own notifications.'
+      });
+    }
+
+    await prisma.notification.delete({
+      where: { id: existing.id }
+    });
+
+    res.json({
+      message: 'Notification deleted',
+      deletedNotificationId: existing.id
+    });
+
+  } catch (error) {
+    console.error('Error deleting notification:', getErrorMessage(error));
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+export default router;
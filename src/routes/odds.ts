@@ -2,7 +2,7 @@
 // ODDS ROUTES (SportsMonks Integration)
 // ============================================
 // These routes provide access to betting odds data from SportsMonks.
-// Includes: pre-match odds, bookmakers, and markets.
+// Includes: pre-match odds, best prices, odds history, bookmakers, and markets.
 // 
 // NOTE: This is for RESEARCH purposes only.
 // BetSmoke does NOT place bets or integrate with sportsbooks.
@@ -20,6 +20,12 @@ import {
   getMarketById,
   searchMarkets
 } from '../services/sportsmonks.js';
+import { getOddsHistory } from '../services/oddsSnapshots.js';
+import { aggregateBestLines } from '../services/bestLines.js';
+import { loadNameLookups } from '../services/referenceNames.js';
+import { applyFairOdds } from '../services/fairOdds.js';
+import { DEVIG_METHODS, type DevigMethod } from '../services/pricing.js';
+import { sendApiError } from '../services/apiErrors.js';
 
 // Import auth middleware - all routes require authentication
 import authMiddleware from '../middleware/auth.js';
@@ -32,6 +38,9 @@ const getErrorMessage = (error: unknown) =>
 
 const isInvalidNumber = (value: string) => Number.isNaN(Number(value));
 
+const isDevigMethod = (value: string): value is DevigMethod =>
+  DEVIG_METHODS.includes(value as DevigMethod);
+
 // Apply auth middleware to all routes in this router
 router.use(authMiddleware);
 
@@ -43,12 +52,19 @@ router.use(authMiddleware);
  * GET /odds/fixtures/:fixtureId
  * Get all pre-match odds for a fixture
  * 
- * Example: GET /odds/fixtures/18535517
+ * Optional query params:
+ * - devig: Margin removal method - multiplicative (default), additive, power, shin
+ * 
+ * Each odd includes its implied probability and margin-removed fair price;
+ * `books` lists the overround for each market/bookmaker/line.
+ * 
+ * Example: GET /odds/fixtures/18535517?devig=shin
  * Returns odds from all bookmakers for all markets
  */
-router.get('/fixtures/:fixtureId', async (req: Request, res: Response) => {
+router.get('/fixtures/:fixtureId', async (req: Request<{ fixtureId: string }>, res: Response) => {
   try {
     const { fixtureId } = req.params;
+    const { devig = 'multiplicative' } = req.query as { devig?: string };
     
     // Validate: ID must be a number
     if (isInvalidNumber(fixtureId)) {
@@ -57,22 +73,30 @@ router.get('/fixtures/:fixtureId', async (req: Request, res: Response) => {
       });
     }
     
+    if (!isDevigMethod(devig)) {
+      return res.status(400).json({
+        error: `devig must be one of: ${DEVIG_METHODS.join(', ')}`
+      });
+    }
+    
     // Call the SportsMonks service
     const result = await getOddsByFixture(fixtureId);
     
+    // Add implied probabilities, margins and fair prices
+    const { method, odds, books } = applyFairOdds(result.data || [], devig);
+    
     // Return the odds
     res.json({
-      message: `Found ${result.data?.length || 0} odds for fixture ${fixtureId}`,
+      message: `Found ${odds.length} odds for fixture ${fixtureId}`,
       fixtureId: parseInt(fixtureId),
-      odds: result.data || []
+      devigMethod: method,
+      odds,
+      books
     });
     
   } catch (error) {
     console.error('Get odds by fixture error:', getErrorMessage(error));
-    res.status(500).json({ 
-      error: 'Failed to get odds',
-      details: getErrorMessage(error)
-    });
+    sendApiError(res, error, 'Failed to get odds');
   }
 });
 
@@ -113,10 +137,7 @@ router.get('/fixtures/:fixtureId/bookmakers/:bookmakerId', async (req: Request,
     
   } catch (error) {
     console.error('Get odds by fixture and bookmaker error:', getErrorMessage(error));
-    res.status(500).json({ 
-      error: 'Failed to get odds',
-      details: getErrorMessage(error)
-    });
+    sendApiError(res, error, 'Failed to get odds');
   }
 });
 
@@ -131,12 +152,16 @@ router.get('/fixtures/:fixtureId/bookmakers/:bookmakerId', async (req: Request,
  * - 19: Away Team Exact Goals
  * - 44: Odd/Even
  * 
+ * Optional query params:
+ * - devig: Margin removal method - multiplicative (default), additive, power, shin
+ * 
  * Example: GET /odds/fixtures/18535517/markets/1
- * Returns only Fulltime Result (1X2) odds
+ * Returns only Fulltime Result (1X2) odds, with implied and fair probabilities
  */
-router.get('/fixtures/:fixtureId/markets/:marketId', async (req: Request, res: Response) => {
+router.get('/fixtures/:fixtureId/markets/:marketId', async (req: Request<{ fixtureId: string; marketId: string }>, res: Response) => {
   try {
     const { fixtureId, marketId } = req.params;
+    const { devig = 'multiplicative' } = req.query as { devig?: string };
     
     // Validate IDs
     if (isInvalidNumber(fixtureId)) {
@@ -151,23 +176,154 @@ router.get('/fixtures/:fixtureId/markets/:marketId', async (req: Request, res: R
       });
     }
     
+    if (!isDevigMethod(devig)) {
+      return res.status(400).json({
+        error: `devig must be one of: ${DEVIG_METHODS.join(', ')}`
+      });
+    }
+    
     // Call the SportsMonks service
     const result = await getOddsByFixtureAndMarket(fixtureId, marketId);
     
+    // Add implied probabilities, margins and fair prices
+    const { method, odds, books } = applyFairOdds(result.data || [], devig);
+    
     // Return the odds
     res.json({
-      message: `Found ${result.data?.length || 0} odds for fixture ${fixtureId} in market ${marketId}`,
+      message: `Found ${odds.length} odds for fixture ${fixtureId} in market ${marketId}`,
       fixtureId: parseInt(fixtureId),
       marketId: parseInt(marketId),
-      odds: result.data || []
+      devigMethod: method,
+      odds,
+      books
     });
     
   } catch (error) {
     console.error('Get odds by fixture and market error:', getErrorMessage(error));
-    res.status(500).json({ 
-      error: 'Failed to get odds',
-      details: getErrorMessage(error)
+    sendApiError(res, error, 'Failed to get odds');
+  }
+});
+
+// ============================================
+// BEST PRICE ROUTES
+// ============================================
+
+/**
+ * GET /odds/fixtures/:fixtureId/best
+ * Get the best available price for every market/selection across bookmakers
+ * 
+ * Optional query params:
+ * - marketId: Only this market (e.g., 1 = Fulltime Result)
+ * 
+ * For each selection returns the best price and the bookmaker(s) offering it,
+ * a consensus (median) price, and the best price's edge over consensus.
+ * 
+ * Example: GET /odds/fixtures/18535517/best?marketId=1
+ */
+router.get('/fixtures/:fixtureId/best', async (req: Request<{ fixtureId: string }>, res: Response) => {
+  try {
+    const { fixtureId } = req.params;
+    const { marketId } = req.query as { marketId?: string };
+    
+    // Validate IDs
+    if (isInvalidNumber(fixtureId)) {
+      return res.status(400).json({
+        error: 'Fixture ID must be a number'
+      });
+    }
+    
+    if (marketId && isInvalidNumber(marketId)) {
+      return res.status(400).json({
+        error: 'Market ID must be a number'
+      });
+    }
+    
+    // Get the current odds and the market/bookmaker names
+    const [result, names] = await Promise.all([
+      marketId ? getOddsByFixtureAndMarket(fixtureId, marketId) : getOddsByFixture(fixtureId),
+      loadNameLookups()
+    ]);
+    
+    // Group by market/selection and pick out the best prices
+    const markets = aggregateBestLines(result.data || [], names);
+    
+    // Return the best lines
+    res.json({
+      message: `Found best prices for ${markets.length} markets for fixture ${fixtureId}`,
+      fixtureId: parseInt(fixtureId),
+      markets
+    });
+    
+  } catch (error) {
+    console.error('Get best odds error:', getErrorMessage(error));
+    sendApiError(res, error, 'Failed to get best odds');
+  }
+});
+
+// ============================================
+// ODDS HISTORY ROUTES
+// ============================================
+
+/**
+ * GET /odds/fixtures/:fixtureId/history
+ * Get stored odds history (line movement) for a fixture
+ * 
+ * Optional query params:
+ * - marketId: Only this market (e.g., 1 = Fulltime Result)
+ * - bookmakerId: Only this bookmaker (e.g., 2 = bet365)
+ * 
+ * History only exists for fixtures in the watched leagues
+ * (see ODDS_SNAPSHOT_LEAGUE_IDS) - snapshots are taken on a schedule
+ * and a point is stored each time a price changes.
+ * 
+ * Example: GET /odds/fixtures/18535517/history?marketId=1
+ * Returns one series per bookmaker/selection with its price points
+ */
+router.get('/fixtures/:fixtureId/history', async (req: Request<{ fixtureId: string }>, res: Response) => {
+  try {
+    const { fixtureId } = req.params;
+    const { marketId, bookmakerId } = req.query as {
+      marketId?: string;
+      bookmakerId?: string;
+    };
+    
+    // Validate IDs
+    if (isInvalidNumber(fixtureId)) {
+      return res.status(400).json({
+        error: 'Fixture ID must be a number'
+      });
+    }
+    
+    if (marketId && isInvalidNumber(marketId)) {
+      return res.status(400).json({
+        error: 'Market ID must be a number'
+      });
+    }
+    
+    if (bookmakerId && isInvalidNumber(bookmakerId)) {
+      return res.status(400).json({
+        error: 'Bookmaker ID must be a number'
+      });
+    }
+    
+    // Load the stored snapshots
+    const series = await getOddsHistory(parseInt(fixtureId), {
+      marketId: marketId ? parseInt(marketId) : undefined,
+      bookmakerId: bookmakerId ? parseInt(bookmakerId) : undefined
     });
+    
+    // Return the history
+    res.json({
+      message: `Found ${series.length} odds series for fixture ${fixtureId}`,
+      fixtureId: parseInt(fixtureId),
+      marketId: marketId ? parseInt(marketId) : null,
+      bookmakerId: bookmakerId ? parseInt(bookmakerId) : null,
+      series
+    });
+    
+  } catch (error) {
+    console.error('Get odds history error:', getErrorMessage(error));
+    sendApiError(res, error, 'Failed to get odds history');
   }
 });
 
@@ -195,10 +351,7 @@ router.get('/bookmakers', async (_req: Request, res: Response) => {
     
   } catch (error) {
     console.error('Get all bookmakers error:', getErrorMessage(error));
-    res.status(500).json({ 
-      error: 'Failed to get bookmakers',
-      details: getErrorMessage(error)
-    });
+    sendApiError(res, error, 'Failed to get bookmakers');
   }
 });
 
@@ -237,10 +390,7 @@ router.get('/bookmakers/:id', async (req: Request, res: Response) => {
     
   } catch (error) {
     console.error('Get bookmaker by ID error:', getErrorMessage(error));
-    res.status(500).json({ 
-      error: 'Failed to get bookmaker',
-      details: getErrorMessage(error)
-    });
+    sendApiError(res, error, 'Failed to get bookmaker');
   }
 });
 
@@ -268,10 +418,7 @@ router.get('/markets', async (_req: Request, res: Response) => {
     
   } catch (error) {
     console.error('Get all markets error:', getErrorMessage(error));
-    res.status(500).json({ 
-      error: 'Failed to get markets',
-      details: getErrorMessage(error)
-    });
+    sendApiError(res, error, 'Failed to get markets');
   }
 });
 
@@ -305,10 +452,7 @@ router.get('/markets/search/:query', async (req: Request, res: Response) => {
     
   } catch (error) {
     console.error('Search markets error:', getErrorMessage(error));
-    res.status(500).json({ 
-      error: 'Failed to search markets',
-      details: getErrorMessage(error)
-    });
+    sendApiError(res, error, 'Failed to search markets');
   }
 });
 
@@ -347,10 +491,7 @@ router.get('/markets/:id', async (req: Request, res: Response) => {
     
   } catch (error) {
     console.error('Get market by ID error:', getErrorMessage(error));
-    res.status(500).json({ 
-      error: 'Failed to get market',
-      details: getErrorMessage(error)
-    });
+    sendApiError(res, error, 'Failed to get market');
   }
 });
 
@@ -7,6 +7,7 @@
 import express from 'express';
 import type { Request, Response } from 'express';
 import { searchPlayers, getPlayerById } from '../services/sportsmonks.js';
+import { sendApiError } from '../services/apiErrors.js';
 
 // Import auth middleware - all routes require authentication
 import authMiddleware from '../middleware/auth.js';
@@ -52,10 +53,7 @@ router.get('/search/:query', async (req: Request, res: Response) => {
     
   } catch (error) {
     console.error('Player search error:', getErrorMessage(error));
-    res.status(500).json({ 
-      error: 'Failed to search players',
-      details: getErrorMessage(error)
-    });
+    sendApiError(res, error, 'Failed to search players');
   }
 });
 
@@ -95,10 +93,7 @@ router.get('/:id', async (req: Request, res: Response) => {
     
   } catch (error) {
     console.error('Get player error:', getErrorMessage(error));
-    res.status(500).json({ 
-      error: 'Failed to get player',
-      details: getErrorMessage(error)
-    });
+    sendApiError(res, error, 'Failed to get player');
   }
 });
 
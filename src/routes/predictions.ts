@@ -8,6 +8,7 @@
 import express from 'express';
 import type { Request, Response } from 'express';
 import { getPredictabilityByLeague } from '../services/sportsmonks.js';
+import { sendApiError } from '../services/apiErrors.js';
 
 // Import auth middleware - all routes require authentication
 import authMiddleware from '../middleware/auth.js';
@@ -66,10 +67,7 @@ router.get('/predictability/leagues/:leagueId', async (req: Request, res: Respon
 
   } catch (error) {
     console.error('Get predictability by league error:', getErrorMessage(error));
-    res.status(500).json({
-      error: 'Failed to get prediction model performance',
-      details: getErrorMessage(error)
-    });
+    sendApiError(res, error, 'Failed to get prediction model performance');
   }
 });
 
@@ -0,0 +1,126 @@
+// ============================================
+// RATINGS ROUTES (Elo Team Ratings)
+// ============================================
+// Read-only access to the stored Elo ratings.
+// All routes are protected by authMiddleware (applied in index.ts).
+//
+// Ratings are updated by the scheduled job in index.ts
+// (see services/eloRatings.ts) - these routes never call SportsMonks.
+// ============================================
+
+import express from 'express';
+import type { Request, Response } from 'express';
+import {
+  getTeamRatingHistory,
+  getLeagueRatings,
+  getMatchupProbabilities
+} from '../services/eloRatings.js';
+
+// Create a router
+const router = express.Router();
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Unknown error';
+
+const isInvalidNumber = (value: string) => Number.isNaN(Number(value));
+
+// ============================================
+// GET TEAM RATING HISTORY
+// GET /ratings/teams/:id
+// Example: GET /ratings/teams/19
+// ============================================
+// Returns the team's current rating and one history entry per
+// rated match (rating before/after, result, win expectancy).
+
+router.get('/teams/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (isInvalidNumber(id)) {
+      return res.status(400).json({ error: 'Team ID must be a number' });
+    }
+
+    const result = await getTeamRatingHistory(Number(id));
+
+    if (!result) {
+      return res.status(404).json({ error: `No rating for team ${id}` });
+    }
+
+    res.json({
+      message: `Rating history for team ${id}`,
+      ...result
+    });
+
+  } catch (error) {
+    console.error('Get team rating error:', getErrorMessage(error));
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// ============================================
+// GET LEAGUE RATINGS TABLE
+// GET /ratings/leagues/:leagueId
+// Example: GET /ratings/leagues/8
+// ============================================
+// Current ratings for the teams in the league's most recent rated season,
+// highest first.
+
+router.get('/leagues/:leagueId', async (req: Request<{ leagueId: string }>, res: Response) => {
+  try {
+    const { leagueId } = req.params;
+
+    if (isInvalidNumber(leagueId)) {
+      return res.status(400).json({ error: 'League ID must be a number' });
+    }
+
+    const result = await getLeagueRatings(Number(leagueId));
+
+    res.json({
+      message: `Found ${result.teams.length} rated teams for league ${leagueId}`,
+      leagueId: Number(leagueId),
+      ...result
+    });
+
+  } catch (error) {
+    console.error('Get league ratings error:', getErrorMessage(error));
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// ============================================
+// GET MATCHUP PROBABILITIES
+// GET /ratings/matchup?homeTeamId=19&awayTeamId=18
+// ============================================
+// Rating-implied home/draw/away probabilities from current ratings.
+
+router.get('/matchup', async (req: Request, res: Response) => {
+  try {
+    const homeTeamId = String(req.query.homeTeamId ?? '');
+    const awayTeamId = String(req.query.awayTeamId ?? '');
+
+    if (!homeTeamId || !awayTeamId || isInvalidNumber(homeTeamId) || isInvalidNumber(awayTeamId)) {
+      return res.status(400).json({ error: 'homeTeamId and awayTeamId must be numbers' });
+    }
+
+    const result = await getMatchupProbabilities(Number(homeTeamId), Number(awayTeamId));
+
+    if (!result) {
+      return res.status(404).json({ error: 'One or both teams have no rating yet' });
+    }
+
+    res.json({
+      message: `Rating-implied probabilities for ${homeTeamId} vs ${awayTeamId}`,
+      ...result
+    });
+
+  } catch (error) {
+    console.error('Get matchup probabilities error:', getErrorMessage(error));
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// ============================================
+// EXPORT THE ROUTER
+// ============================================
+
+export default router;
@@ -0,0 +1,101 @@
+// ============================================
+// REFEREES ROUTES
+// ============================================
+// Referee profiles with their card, penalty and foul tendencies.
+// Profiles come from SportsMonks; the tendencies are aggregated from
+// matches stored in the warehouse (see services/referees.ts).
+// ============================================
+
+import express from 'express';
+import type { Request, Response } from 'express';
+import { getRefereeById } from '../services/sportsmonks.js';
+import { getRefereeStats } from '../services/referees.js';
+import { sendApiError } from '../services/apiErrors.js';
+
+// Import auth middleware - all routes require authentication
+import authMiddleware from '../middleware/auth.js';
+
+// Create a router
+const router = express.Router();
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Unknown error';
+
+const isInvalidNumber = (value: string) => Number.isNaN(Number(value));
+
+// Apply auth middleware to all routes in this router
+router.use(authMiddleware);
+
+// ============================================
+// GET REFEREE BY ID
+// GET /referees/:id
+// Example: GET /referees/14508?seasonId=23614
+// ============================================
+// Query parameters (all optional):
+//   - seasonId: Only matches in this season
+//   - leagueId: Only matches in this league
+//   - last:     Only the most recent N matches
+//
+// Response:
+// {
+//   referee: { id, name, display_name, image_path, country, ... },
+//   stats: {
+//     games: 12,
+//     results: { homeWins, draws, awayWins, homeWinRate, drawRate, awayWinRate },
+//     yellowCards: { total: 48, perGame: 4, homePerGame: 1.75, awayPerGame: 2.25 },
+//     redCards: { ... },
+//     penalties: { ... },
+//     fouls: { ..., games: 12 },      // Only matches with foul statistics
+//     recentFixtures: [{ fixtureId, name, startingAt, yellowCards, redCards, penalties, ... }]
+//   }
+// }
+
+router.get('/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const refereeId = req.params.id;
+    const { seasonId, leagueId, last } = req.query as Record<string, string | undefined>;
+
+    // Validate: IDs must be numbers
+    if (isInvalidNumber(refereeId)) {
+      return res.status(400).json({ error: 'Referee ID must be a number' });
+    }
+    if (seasonId !== undefined && isInvalidNumber(seasonId)) {
+      return res.status(400).json({ error: 'seasonId must be a number' });
+    }
+    if (leagueId !== undefined && isInvalidNumber(leagueId)) {
+      return res.status(400).json({ error: 'leagueId must be a number' });
+    }
+    if (last !== undefined && (!Number.isInteger(Number(last)) || Number(last) < 1)) {
+      return res.status(400).json({ error: 'last must be a positive whole number' });
+    }
+
+    // Profile from SportsMonks, tendencies from stored matches
+    const [profile, stats] = await Promise.all([
+      getRefereeById(refereeId),
+      getRefereeStats(Number(refereeId), {
+        seasonId: seasonId !== undefined ? Number(seasonId) : undefined,
+        leagueId: leagueId !== undefined ? Number(leagueId) : undefined,
+        last: last !== undefined ? Number(last) : undefined
+      })
+    ]);
+
+    if (!profile.data) {
+      return res.status(404).json({ error: `Referee with ID ${refereeId} not found` });
+    }
+
+    res.json({
+      referee: profile.data,
+      stats
+    });
+
+  } catch (error) {
+    console.error('Get referee error:', getErrorMessage(error));
+    sendApiError(res, error, 'Failed to get referee');
+  }
+});
+
+// ============================================
+// EXPORT THE ROUTER
+// ============================================
+
+export default router;
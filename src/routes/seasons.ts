@@ -12,6 +12,7 @@ import {
   getSeasonById,
   getSeasonsByLeague
 } from '../services/sportsmonks.js';
+import { sendApiError } from '../services/apiErrors.js';
 
 // Import auth middleware - all routes require authentication
 import authMiddleware from '../middleware/auth.js';
@@ -51,10 +52,7 @@ router.get('/', async (_req: Request, res: Response) => {
 
   } catch (error) {
     console.error('Get all seasons error:', getErrorMessage(error));
-    res.status(500).json({
-      error: 'Failed to get seasons',
-      details: getErrorMessage(error)
-    });
+    sendApiError(res, error, 'Failed to get seasons');
   }
 });
 
@@ -105,10 +103,7 @@ router.get('/leagues/:leagueId', async (req: Request, res: Response) => {
 
   } catch (error) {
     console.error('Get seasons by league error:', getErrorMessage(error));
-    res.status(500).json({
-      error: 'Failed to get seasons for league',
-      details: getErrorMessage(error)
-    });
+    sendApiError(res, error, 'Failed to get seasons for league');
   }
 });
 
@@ -152,10 +147,7 @@ router.get('/:id', async (req: Request, res: Response) => {
 
   } catch (error) {
     console.error('Get season by ID error:', getErrorMessage(error));
-    res.status(500).json({
-      error: 'Failed to get season',
-      details: getErrorMessage(error)
-    });
+    sendApiError(res, error, 'Failed to get season');
   }
 });
 
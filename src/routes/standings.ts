@@ -8,6 +8,7 @@
 import express from 'express';
 import type { Request, Response } from 'express';
 import { getStandingsBySeason } from '../services/sportsmonks.js';
+import { sendApiError } from '../services/apiErrors.js';
 
 // Import auth middleware - all routes require authentication
 import authMiddleware from '../middleware/auth.js';
@@ -59,10 +60,7 @@ router.get('/seasons/:seasonId', async (req: Request, res: Response) => {
 
   } catch (error) {
     console.error('Get standings by season error:', getErrorMessage(error));
-    res.status(500).json({
-      error: 'Failed to get standings',
-      details: getErrorMessage(error)
-    });
+    sendApiError(res, error, 'Failed to get standings');
   }
 });
 
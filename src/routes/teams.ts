@@ -26,6 +26,13 @@ import {
   getTeamFixturesWithStats
 } from '../services/sportsmonks.js';
 import cache from '../services/cache.js';
+import { sendApiError } from '../services/apiErrors.js';
+import {
+  DEFAULT_FORM_WINDOWS,
+  resolveStatTypes,
+  loadTeamSeasonStats,
+  summarizeStatType
+} from '../services/statAverages.js';
 
 // Import auth middleware - all routes require authentication
 import authMiddleware from '../middleware/auth.js';
@@ -93,10 +100,7 @@ router.get('/search/:query', async (req: Request, res: Response) => {
     
   } catch (error) {
     console.error('Team search error:', getErrorMessage(error));
-    res.status(500).json({ 
-      error: 'Failed to search teams',
-      details: getErrorMessage(error)
-    });
+    sendApiError(res, error, 'Failed to search teams');
   }
 });
 
@@ -200,10 +204,7 @@ router.get('/h2h/:team1Id/:team2Id', async (req: Request, res: Response) => {
     
   } catch (error) {
     console.error('Head-to-head error:', getErrorMessage(error));
-    res.status(500).json({ 
-      error: 'Failed to get head-to-head data',
-      details: getErrorMessage(error)
-    });
+    sendApiError(res, error, 'Failed to get head-to-head data');
   }
 });
 
@@ -251,10 +252,7 @@ router.get('/:id/stats/seasons/:seasonId', async (req: Request, res: Response) =
     
   } catch (error) {
     console.error('Get team stats by season error:', getErrorMessage(error));
-    res.status(500).json({ 
-      error: 'Failed to get team statistics for season',
-      details: getErrorMessage(error)
-    });
+    sendApiError(res, error, 'Failed to get team statistics for season');
   }
 });
 
@@ -293,10 +291,7 @@ router.get('/:id/stats', async (req: Request, res: Response) => {
     
   } catch (error) {
     console.error('Get team stats error:', getErrorMessage(error));
-    res.status(500).json({ 
-      error: 'Failed to get team statistics',
-      details: getErrorMessage(error)
-    });
+    sendApiError(res, error, 'Failed to get team statistics');
   }
 });
 
@@ -330,10 +325,7 @@ router.get('/:id/squad', async (req: Request, res: Response) => {
     
   } catch (error) {
     console.error('Get team squad error:', getErrorMessage(error));
-    res.status(500).json({ 
-      error: 'Failed to get team squad',
-      details: getErrorMessage(error)
-    });
+    sendApiError(res, error, 'Failed to get team squad');
   }
 });
 
@@ -374,10 +366,7 @@ router.get('/:id/squad/seasons/:seasonId', async (req: Request, res: Response) =
     
   } catch (error) {
     console.error('Get team squad by season error:', getErrorMessage(error));
-    res.status(500).json({ 
-      error: 'Failed to get team squad for season',
-      details: getErrorMessage(error)
-    });
+    sendApiError(res, error, 'Failed to get team squad for season');
   }
 });
 
@@ -445,7 +434,7 @@ router.get('/:id/fullsquad/seasons/:seasonId', async (req: Request, res: Respons
     };
     
     // Process each player to extract all stats
-    const playersWithStats = squadMembers.map((member: any) => {
+    const playersWithStats = squadMembers.map((member) => {
       const player = member.player || {};
       const statistics = player.statistics || [];
       
@@ -548,7 +537,7 @@ router.get('/:id/fullsquad/seasons/:seasonId', async (req: Request, res: Respons
     
     // Sort players by position, then by appearances/goals
     // Position order: GK (1), DEF (2), MID (3), FWD (4)
-    playersWithStats.sort((a: any, b: any) => {
+    playersWithStats.sort((a, b) => {
       // First sort by position
       if (a.positionId !== b.positionId) {
         return (a.positionId || 999) - (b.positionId || 999);
@@ -571,10 +560,7 @@ router.get('/:id/fullsquad/seasons/:seasonId', async (req: Request, res: Respons
     
   } catch (error) {
     console.error('Get team full squad error:', getErrorMessage(error));
-    res.status(500).json({ 
-      error: 'Failed to get team squad with statistics',
-      details: getErrorMessage(error)
-    });
+    sendApiError(res, error, 'Failed to get team squad with statistics');
   }
 });
 
@@ -617,7 +603,7 @@ router.get('/:id/topstats/seasons/:seasonId', async (req: Request, res: Response
     const APPEARANCES_TYPE_ID = 321;
     
     // Process each player to extract goals, assists, appearances
-    const playersWithStats = squadMembers.map((member: any) => {
+    const playersWithStats = squadMembers.map((member) => {
       const player = member.player || {};
       const statistics = player.statistics || [];
       
@@ -678,10 +664,7 @@ router.get('/:id/topstats/seasons/:seasonId', async (req: Request, res: Response
     
   } catch (error) {
     console.error('Get team top stats error:', getErrorMessage(error));
-    res.status(500).json({ 
-      error: 'Failed to get team top scorers and assists',
-      details: getErrorMessage(error)
-    });
+    sendApiError(res, error, 'Failed to get team top scorers and assists');
   }
 });
 
@@ -715,10 +698,7 @@ router.get('/:id/transfers', async (req: Request, res: Response) => {
     
   } catch (error) {
     console.error('Get team transfers error:', getErrorMessage(error));
-    res.status(500).json({ 
-      error: 'Failed to get team transfers',
-      details: getErrorMessage(error)
-    });
+    sendApiError(res, error, 'Failed to get team transfers');
   }
 });
 
@@ -753,10 +733,7 @@ router.get('/:id/seasons', async (req: Request, res: Response) => {
     
   } catch (error) {
     console.error('Get team seasons error:', getErrorMessage(error));
-    res.status(500).json({ 
-      error: 'Failed to get team seasons',
-      details: getErrorMessage(error)
-    });
+    sendApiError(res, error, 'Failed to get team seasons');
   }
 });
 
@@ -790,10 +767,7 @@ router.get('/:id/schedule', async (req: Request, res: Response) => {
     
   } catch (error) {
     console.error('Get team schedule error:', getErrorMessage(error));
-    res.status(500).json({ 
-      error: 'Failed to get team schedule',
-      details: getErrorMessage(error)
-    });
+    sendApiError(res, error, 'Failed to get team schedule');
   }
 });
 
@@ -829,10 +803,7 @@ router.get('/coaches/search/:query', async (req: Request, res: Response) => {
     
   } catch (error) {
     console.error('Coach search error:', getErrorMessage(error));
-    res.status(500).json({ 
-      error: 'Failed to search coaches',
-      details: getErrorMessage(error)
-    });
+    sendApiError(res, error, 'Failed to search coaches');
   }
 });
 
@@ -869,10 +840,7 @@ router.get('/coaches/:id', async (req: Request, res: Response) => {
     
   } catch (error) {
     console.error('Get coach error:', getErrorMessage(error));
-    res.status(500).json({ 
-      error: 'Failed to get coach',
-      details: getErrorMessage(error)
-    });
+    sendApiError(res, error, 'Failed to get coach');
   }
 });
 
@@ -913,7 +881,7 @@ router.get('/:id/corners/seasons/:seasonId', async (req: Request, res: Response)
     // CHECK CACHE FIRST
     // ============================================
     const cacheKey = cache.keys.corners(teamId, seasonId);
-    const cached = cache.get(cacheKey) as any;
+    const cached = await cache.get<any>(cacheKey);
     
     if (cached) {
       // Return cached data with cache info
@@ -929,7 +897,7 @@ router.get('/:id/corners/seasons/:seasonId', async (req: Request, res: Response)
     // We need the season start date to fetch fixtures
     // Cache season data separately (24h TTL) since it rarely changes
     const seasonCacheKey = cache.keys.season(seasonId);
-    let seasonData = cache.get(seasonCacheKey) as any;
+    let seasonData = await cache.get<any>(seasonCacheKey);
     
     if (!seasonData) {
       console.log(`[Corners] Fetching season ${seasonId} dates...`);
@@ -948,7 +916,7 @@ router.get('/:id/corners/seasons/:seasonId', async (req: Request, res: Response)
       };
       
       // Cache season data for 24 hours
-      cache.set(seasonCacheKey, seasonData, cache.TTL.SEASON);
+      await cache.set(seasonCacheKey, seasonData, cache.TTL.SEASON);
     }
     
     // ============================================
@@ -968,7 +936,7 @@ router.get('/:id/corners/seasons/:seasonId', async (req: Request, res: Response)
     // The fixtures endpoint returns ALL matches (including cups),
     // so we must filter to only include fixtures from the specified season.
     // This ensures Premier League stats don't include FA Cup / Carabao Cup games.
-    const fixtures = allFixtures.filter((f: any) => f.season_id === parseInt(seasonId, 10));
+    const fixtures = allFixtures.filter((f) => f.season_id === parseInt(seasonId, 10));
 
     console.log(`[Corners] Found ${allFixtures.length} total fixtures, ${fixtures.length} in season ${seasonId}`);
     
@@ -1075,7 +1043,7 @@ router.get('/:id/corners/seasons/:seasonId', async (req: Request, res: Response)
     // ============================================
     // CACHE AND RETURN
     // ============================================
-    cache.set(cacheKey, response, cache.TTL.CORNERS);
+    await cache.set(cacheKey, response, cache.TTL.CORNERS);
     
     res.json({
       ...response,
@@ -1084,10 +1052,7 @@ router.get('/:id/corners/seasons/:seasonId', async (req: Request, res: Response)
     
   } catch (error) {
     console.error('Get team corner averages error:', getErrorMessage(error));
-    res.status(500).json({ 
-      error: 'Failed to get team corner averages',
-      details: getErrorMessage(error)
-    });
+    sendApiError(res, error, 'Failed to get team corner averages');
   }
 });
 
@@ -1107,7 +1072,7 @@ router.delete('/:id/corners/seasons/:seasonId/cache', async (req: Request, res:
     const cacheKey = cache.keys.corners(teamId, seasonId);
     
     // Delete from cache
-    const deleted = cache.del(cacheKey);
+    const deleted = await cache.del(cacheKey);
     
     res.json({
       message: deleted > 0 
@@ -1123,6 +1088,85 @@ router.delete('/:id/corners/seasons/:seasonId/cache', async (req: Request, res:
   }
 });
 
+// ============================================
+// GET TEAM STATISTIC AVERAGES BY SEASON
+// GET /teams/:id/stat-averages/seasons/:seasonId
+// Example: GET /teams/1/stat-averages/seasons/23614?types=corners,42&last=5,10
+// ============================================
+// The corners averages for any statistic type in the types table.
+// Finished matches in the season only; a match without the statistic
+// isn't counted as a game for it. Uses caching (12h TTL).
+//
+// Query parameters:
+//   - types: Comma-separated type IDs or codes (default: corners, shots,
+//            shots on target, yellow cards, fouls, offsides, possession)
+//   - last:  Comma-separated form window sizes (default: 5,10)
+//
+// Response:
+// {
+//   teamId: 1,
+//   seasonId: 23614,
+//   source: "warehouse",          // or "sportsmonks"
+//   stats: [{
+//     typeId: 34, name: "Corners", code: "corners",
+//     for: { home: { total, games, average }, away: {...}, overall: {...} },
+//     against: { home: {...}, away: {...}, overall: {...} },
+//     form: [{ last: 5, games: 5, for: 5.2, against: 3.8 }],
+//     series: [{ fixtureId, startingAt, location, opponentId, opponentName, for: 7, against: 3 }]
+//   }],
+//   cachedAt: "2024-12-28T15:30:00Z"
+// }
+
+router.get('/:id/stat-averages/seasons/:seasonId', async (req: Request, res: Response) => {
+  try {
+    const { id: teamId, seasonId } = req.params;
+    const { types, last } = req.query as { types?: string; last?: string };
+
+    // Validate IDs
+    if (isInvalidNumber(teamId)) {
+      return res.status(400).json({ error: 'Team ID must be a number' });
+    }
+    if (isInvalidNumber(seasonId)) {
+      return res.status(400).json({ error: 'Season ID must be a number' });
+    }
+
+    // Validate form windows
+    const formWindows = last ? last.split(',').map(Number) : DEFAULT_FORM_WINDOWS;
+    if (formWindows.some(size => !Number.isInteger(size) || size < 1)) {
+      return res.status(400).json({ error: 'last must be comma-separated positive whole numbers' });
+    }
+
+    // Resolve statistic types
+    const resolved = await resolveStatTypes(types);
+    if (resolved.unknown.length > 0) {
+      return res.status(400).json({
+        error: `Unknown statistic type(s): ${resolved.unknown.join(', ')}`
+      });
+    }
+    if (resolved.types.length === 0) {
+      return res.status(400).json({ error: 'At least one statistic type is required' });
+    }
+
+    // Load the season's fixtures (cached per team and season)
+    const result = await loadTeamSeasonStats(parseInt(teamId, 10), parseInt(seasonId, 10));
+    if (!result) {
+      return res.status(404).json({ error: `Season ${seasonId} not found` });
+    }
+
+    const { fixtures, ...season } = result.data;
+
+    res.json({
+      ...season,
+      stats: resolved.types.map(type => summarizeStatType(fixtures, type, formWindows)),
+      fromCache: result.fromCache
+    });
+
+  } catch (error) {
+    console.error('Get team stat averages error:', getErrorMessage(error));
+    sendApiError(res, error, 'Failed to get team stat averages');
+  }
+});
+
 // ============================================
 // GET TEAM BY ID
 // GET /teams/:id
@@ -1159,10 +1203,7 @@ router.get('/:id', async (req: Request, res: Response) => {
     
   } catch (error) {
     console.error('Get team error:', getErrorMessage(error));
-    res.status(500).json({ 
-      error: 'Failed to get team',
-      details: getErrorMessage(error)
-    });
+    sendApiError(res, error, 'Failed to get team');
   }
 });
 
@@ -8,6 +8,7 @@
 import express from 'express';
 import type { Request, Response } from 'express';
 import { getTopScorersBySeason } from '../services/sportsmonks.js';
+import { sendApiError } from '../services/apiErrors.js';
 
 // Import auth middleware - all routes require authentication
 import authMiddleware from '../middleware/auth.js';
@@ -61,10 +62,7 @@ router.get('/seasons/:seasonId', async (req: Request, res: Response) => {
 
   } catch (error) {
     console.error('Get top scorers error:', getErrorMessage(error));
-    res.status(500).json({
-      error: 'Failed to get top scorers',
-      details: getErrorMessage(error)
-    });
+    sendApiError(res, error, 'Failed to get top scorers');
   }
 });
 
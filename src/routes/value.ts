@@ -0,0 +1,156 @@
+// ============================================
+// VALUE BET ROUTES (SportsMonks Integration)
+// ============================================
+// Ranks selections where the best bookmaker price beats the
+// SportsMonks prediction model (positive expected value).
+// ============================================
+
+import express from 'express';
+import type { Request, Response } from 'express';
+import { scanValueBets } from '../services/valueBets.js';
+import { sendApiError } from '../services/apiErrors.js';
+
+// Import auth middleware - all routes require authentication
+import authMiddleware from '../middleware/auth.js';
+
+// Create a router
+const router = express.Router();
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Unknown error';
+
+const isInvalidNumber = (value: string) => Number.isNaN(Number(value));
+
+// Every fixture in the range is fetched with its odds, so keep ranges short
+const MAX_RANGE_DAYS = 14;
+
+// Apply auth middleware to all routes in this router
+router.use(authMiddleware);
+
+// ============================================
+// HELPER: Validate Date Format
+// ============================================
+// Checks if a string is a valid YYYY-MM-DD date
+
+function isValidDate(dateString: string) {
+  const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+  if (!dateRegex.test(dateString)) {
+    return false;
+  }
+
+  const date = new Date(dateString);
+  return !Number.isNaN(date.getTime());
+}
+
+// "2025-01-11" (UTC), offset by a number of days from today
+const dateFromToday = (days: number) =>
+  new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+// ============================================
+// GET VALUE BETS
+// GET /value
+// Example: GET /value?startDate=2025-01-10&endDate=2025-01-12&leagueId=8&minEdge=5
+// ============================================
+// Query parameters (all optional):
+//   - startDate:     YYYY-MM-DD (default today)
+//   - endDate:       YYYY-MM-DD (default startDate + 3 days, max 14 days after startDate)
+//   - leagueId:      One or more league IDs, comma-separated (e.g., 8,24)
+//   - minEdge:       Minimum expected value in percent (default 0)
+//   - kellyFraction: Fraction of the Kelly stake to suggest, 0-1 (default 1)
+//
+// Each bet includes the model probability, best price (and bookmaker),
+// fair price, EV (%), full Kelly stake and the scaled stake.
+
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const startDate = String(req.query.startDate || dateFromToday(0));
+    const endDate = String(req.query.endDate || (req.query.startDate ? startDate : dateFromToday(3)));
+
+    // 1. Validate the date range
+    if (!isValidDate(startDate)) {
+      return res.status(400).json({
+        error: 'Invalid start date format',
+        expected: 'YYYY-MM-DD',
+        received: startDate
+      });
+    }
+
+    if (!isValidDate(endDate)) {
+      return res.status(400).json({
+        error: 'Invalid end date format',
+        expected: 'YYYY-MM-DD',
+        received: endDate
+      });
+    }
+
+    const rangeDays = (new Date(endDate).getTime() - new Date(startDate).getTime()) / (24 * 60 * 60 * 1000);
+    if (rangeDays < 0) {
+      return res.status(400).json({
+        error: 'End date must be on or after start date'
+      });
+    }
+
+    if (rangeDays > MAX_RANGE_DAYS) {
+      return res.status(400).json({
+        error: `Date range cannot exceed ${MAX_RANGE_DAYS} days`,
+        requested: rangeDays
+      });
+    }
+
+    // 2. Validate the filters
+    const leagueIds = req.query.leagueId
+      ? String(req.query.leagueId).split(',').map(id => id.trim()).filter(Boolean)
+      : [];
+
+    if (leagueIds.some(isInvalidNumber)) {
+      return res.status(400).json({
+        error: 'League IDs must be numbers'
+      });
+    }
+
+    const minEdge = req.query.minEdge !== undefined ? Number(req.query.minEdge) : 0;
+    if (Number.isNaN(minEdge)) {
+      return res.status(400).json({
+        error: 'minEdge must be a number'
+      });
+    }
+
+    const kellyFraction = req.query.kellyFraction !== undefined ? Number(req.query.kellyFraction) : 1;
+    if (Number.isNaN(kellyFraction) || kellyFraction <= 0 || kellyFraction > 1) {
+      return res.status(400).json({
+        error: 'kellyFraction must be a number between 0 and 1'
+      });
+    }
+
+    // 3. Scan the fixtures
+    const result = await scanValueBets({
+      startDate,
+      endDate,
+      leagueIds: leagueIds.map(Number),
+      minEdge,
+      kellyFraction
+    });
+
+    res.json({
+      message: `Found ${result.bets.length} value bets between ${startDate} and ${endDate}`,
+      startDate,
+      endDate,
+      leagueIds: leagueIds.map(Number),
+      minEdge,
+      kellyFraction,
+      fixturesScanned: result.fixturesScanned,
+      count: result.bets.length,
+      data: result.bets
+    });
+
+  } catch (error) {
+    console.error('Get value bets error:', getErrorMessage(error));
+    sendApiError(res, error, 'Failed to find value bets');
+  }
+});
+
+// ============================================
+// EXPORT THE ROUTER
+// ============================================
+
+export default router;
@@ -0,0 +1,249 @@
+// ============================================
+// WATCHLIST ROUTES
+// ============================================
+// The teams, leagues and fixtures a user follows, and the "My fixtures"
+// feed of upcoming matches built from them.
+// All routes are protected by authMiddleware (applied in index.ts).
+// Users can only see and remove their own entries.
+// ============================================
+
+import express from 'express';
+import type { Request, Response } from 'express';
+import prisma from '../db.js';
+import {
+  WATCHLIST_TYPES,
+  toApiType,
+  addToWatchlist,
+  getWatchlistCounts,
+  getWatchedFixtures
+} from '../services/watchlist.js';
+import type { WatchlistType, WatchlistEntityType } from '../services/watchlist.js';
+import { sendApiError } from '../services/apiErrors.js';
+
+const router = express.Router();
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Unknown error';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const VALID_TYPES = Object.keys(WATCHLIST_TYPES) as WatchlistType[];
+
+// The feed covers the next week unless asked otherwise
+const DEFAULT_FEED_DAYS = 7;
+
+// SportsMonks won't return more than 100 days of fixtures at once
+const MAX_FEED_DAYS = 100;
+
+const isValidType = (value: unknown): value is WatchlistType =>
+  typeof value === 'string' && (VALID_TYPES as string[]).includes(value);
+
+const isPositiveInteger = (value: unknown) =>
+  Number.isInteger(Number(value)) && Number(value) > 0;
+
+// ============================================
+// HELPER: Validate date format (YYYY-MM-DD)
+// ============================================
+function isValidDate(dateString: string) {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(dateString)) {
+    return false;
+  }
+  const date = new Date(dateString);
+  return date instanceof Date && !isNaN(date.getTime());
+}
+
+const addDays = (days: number) =>
+  new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+// An entry as the API returns it (lowercase type)
+const formatItem = <T extends { entityType: WatchlistEntityType }>(item: T) => ({
+  ...item,
+  entityType: toApiType(item.entityType)
+});
+
+// ============================================
+// GET /watchlist - List the user's watchlist
+// ============================================
+// Query: type (team | league | fixture, optional)
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Access denied. Not authenticated.' });
+    }
+
+    const type = req.query.type;
+    if (type !== undefined && !isValidType(type)) {
+      return res.status(400).json({ error: `type must be one of: ${VALID_TYPES.join(', ')}` });
+    }
+
+    const items = await prisma.watchlist.findMany({
+      where: {
+        userId,
+        ...(type ? { entityType: WATCHLIST_TYPES[type] } : {})
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json({
+      count: items.length,
+      items: items.map(formatItem)
+    });
+
+  } catch (error) {
+    console.error('Error fetching watchlist:', getErrorMessage(error));
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// ============================================
+// GET /watchlist/counts - How much the user follows
+// ============================================
+// Used by the navbar badge.
+router.get('/counts', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Access denied. Not authenticated.' });
+    }
+
+    res.json(await getWatchlistCounts(userId));
+
+  } catch (error) {
+    console.error('Error counting watchlist:', getErrorMessage(error));
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// ============================================
+// GET /watchlist/fixtures - My fixtures feed
+// ============================================
+// Query: startDate, endDate (YYYY-MM-DD, default today to a week from today)
+router.get('/fixtures', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Access denied. Not authenticated.' });
+    }
+
+    const startDate = typeof req.query.startDate === 'string' ? req.query.startDate : addDays(0);
+    const endDate = typeof req.query.endDate === 'string' ? req.query.endDate : addDays(DEFAULT_FEED_DAYS);
+
+    if (!isValidDate(startDate) || !isValidDate(endDate)) {
+      return res.status(400).json({
+        error: 'Invalid date format',
+        expected: 'YYYY-MM-DD'
+      });
+    }
+
+    if (new Date(startDate) > new Date(endDate)) {
+      return res.status(400).json({ error: 'Start date must be before end date' });
+    }
+
+    const days = Math.ceil((new Date(endDate).getTime() - new Date(startDate).getTime()) / (1000 * 60 * 60 * 24));
+    if (days > MAX_FEED_DAYS) {
+      return res.status(400).json({
+        error: 'Date range too large',
+        maxDays: MAX_FEED_DAYS,
+        requestedDays: days
+      });
+    }
+
+    const fixtures = await getWatchedFixtures(userId, startDate, endDate);
+
+    res.json({
+      startDate,
+      endDate,
+      count: fixtures.length,
+      fixtures
+    });
+
+  } catch (error) {
+    sendApiError(res, error, 'Failed to get watched fixtures');
+  }
+});
+
+// ============================================
+// POST /watchlist - Follow a team, league or fixture
+// ============================================
+// Body: { type: 'team' | 'league' | 'fixture', entityId, label? }
+// 201 when added, 200 when it was already on the watchlist.
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Access denied. Not authenticated.' });
+    }
+
+    const { type, entityId, label } = req.body ?? {};
+
+    if (!isValidType(type)) {
+      return res.status(400).json({ error: `type must be one of: ${VALID_TYPES.join(', ')}` });
+    }
+    if (!isPositiveInteger(entityId)) {
+      return res.status(400).json({ error: 'entityId must be a positive integer' });
+    }
+    if (label !== undefined && label !== null && typeof label !== 'string') {
+      return res.status(400).json({ error: 'label must be a string' });
+    }
+
+    const { item, created } = await addToWatchlist(userId, type, Number(entityId), label?.trim() || undefined);
+
+    res.status(created ? 201 : 200).json({
+      message: created ? 'Added to watchlist' : 'Already on watchlist',
+      item: formatItem(item)
+    });
+
+  } catch (error) {
+    console.error('Error adding to watchlist:', getErrorMessage(error));
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// ============================================
+// DELETE /watchlist/:id - Stop following something
+// ============================================
+router.delete('/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Access denied. Not authenticated.' });
+    }
+
+    const existing = await prisma.watchlist.findUnique({
+      where: { id: req.params.id }
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Watchlist entry not found' });
+    }
+
+    if (existing.userId !== userId) {
+      return res.status(403).json({
+        error: 'Access denied. You can only remove your own watchlist entries.'
+      });
+    }
+
+    await prisma.watchlist.delete({
+      where: { id: existing.id }
+    });
+
+    res.json({
+      message: 'Removed from watchlist',
+      deletedId: existing.id
+    });
+
+  } catch (error) {
+    console.error('Error removing from watchlist:', getErrorMessage(error));
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+export default router;
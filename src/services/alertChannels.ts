@@ -0,0 +1,287 @@
+// ============================================
+// ALERT CHANNELS
+// ============================================
+// Delivers a fired alert (see alerts.ts) to each channel on its rule:
+//   - IN_APP:  a notification in the user's inbox (notifications.ts)
+//   - EMAIL:   Mailjet, through services/email.ts
+//   - WEBHOOK: POSTs the alert as JSON to the rule's webhookUrl
+//
+// Webhook URLs are user-supplied, so they must resolve to public
+// addresses only (checkWebhookUrl): loopback, link-local, private and
+// unique-local hosts are refused when a rule is saved and again right
+// before each POST, which then connects to the checked address (so the
+// host can't be re-pointed in between). Redirects aren't followed.
+//
+// Adding a channel = a value in the AlertChannel enum plus a handler
+// here. A failing channel doesn't stop the others; every channel's
+// result is returned so it can be stored with the trigger.
+// ============================================
+
+import http from 'node:http';
+import https from 'node:https';
+import { lookup } from 'node:dns/promises';
+import { BlockList, isIP, type LookupFunction } from 'node:net';
+import { sendAlertEmail } from './email.js';
+import { createNotification } from './notifications.js';
+import type { AlertChannel, AlertEvent } from '../generated/prisma/client.js';
+
+// A fired alert, as every channel sees it
+type AlertMessage = {
+  triggerId: string;
+  ruleId: string;
+  userId: string;
+  email: string;
+  event: AlertEvent;
+  fixtureId: number;
+  title: string;
+  message: string;
+  data: Record<string, unknown>;
+  triggeredAt: string;
+};
+
+type AlertTarget = {
+  webhookUrl: string | null;
+};
+
+type DeliveryResult = {
+  channel: AlertChannel;
+  success: boolean;
+  error?: string;
+};
+
+// Throws when the alert couldn't be delivered
+type AlertChannelHandler = (alert: AlertMessage, target: AlertTarget) => Promise<void>;
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+// How long a webhook gets to respond
+const WEBHOOK_TIMEOUT_MS = Number(process.env.ALERT_WEBHOOK_TIMEOUT_MS) || 5000;
+
+// host:port pairs that may be webhook targets even though they're
+// internal (comma-separated, e.g. "hooks.internal:8080")
+const WEBHOOK_ALLOWED_HOSTS = (process.env.ALERT_WEBHOOK_ALLOWED_HOSTS ?? '')
+  .split(',')
+  .map(host => host.trim().toLowerCase())
+  .filter(Boolean);
+
+// Addresses a webhook may never reach
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],        // "this" network
+  ['10.0.0.0', 8],       // private
+  ['100.64.0.0', 10],    // carrier-grade NAT
+  ['127.0.0.0', 8],      // loopback
+  ['169.254.0.0', 16],   // link-local (cloud metadata services)
+  ['172.16.0.0', 12],    // private
+  ['192.168.0.0', 16],   // private
+  ['224.0.0.0', 4],      // multicast
+  ['240.0.0.0', 4]       // reserved, broadcast
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+// IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) are matched against the
+// IPv4 subnets above by BlockList itself
+for (const [network, prefix] of [
+  ['::', 128],           // unspecified
+  ['::1', 128],          // loopback
+  ['64:ff9b::', 96],     // IPv4/IPv6 translation
+  ['fc00::', 7],         // unique-local
+  ['fe80::', 10],        // link-local
+  ['ff00::', 8]          // multicast
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Unknown error';
+
+// ============================================
+// WEBHOOK URL CHECK
+// ============================================
+
+type WebhookAddress = {
+  url: URL;
+  address: string;
+  family: number;
+};
+
+/**
+ * Resolve a webhook URL to the address it will be POSTed to
+ * Refuses the URL if any address its host resolves to is loopback,
+ * link-local, private or unique-local (unless the host is in
+ * ALERT_WEBHOOK_ALLOWED_HOSTS).
+ * @param {string} webhookUrl - The URL to resolve
+ * @returns {Promise<object>} - { url, address, family }, or { error } when it's refused
+ */
+async function resolveWebhookAddress(webhookUrl: string): Promise<WebhookAddress | { error: string }> {
+  let url: URL;
+  try {
+    url = new URL(webhookUrl);
+  } catch {
+    return { error: 'webhookUrl must be an http(s) URL' };
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return { error: 'webhookUrl must be an http(s) URL' };
+  }
+
+  // IPv6 literals keep their brackets in url.hostname
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+
+  let addresses: { address: string; family: number }[];
+  try {
+    addresses = await lookup(hostname, { all: true, verbatim: true });
+  } catch {
+    return { error: 'webhookUrl host could not be resolved' };
+  }
+  if (addresses.length === 0) {
+    return { error: 'webhookUrl host could not be resolved' };
+  }
+
+  const allowed = WEBHOOK_ALLOWED_HOSTS.includes(url.host.toLowerCase());
+  const blocked = addresses.some(({ address }) =>
+    blockedAddresses.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4')
+  );
+  if (blocked && !allowed) {
+    return { error: 'webhookUrl must point to a public address' };
+  }
+
+  return { url, ...addresses[0] };
+}
+
+/**
+ * Check that a webhook URL only reaches public addresses
+ * @param {string} webhookUrl - The URL to check
+ * @returns {Promise<string|null>} - Why the URL is refused, or null if it's allowed
+ */
+async function checkWebhookUrl(webhookUrl: string): Promise<string | null> {
+  const resolved = await resolveWebhookAddress(webhookUrl);
+  return 'error' in resolved ? resolved.error : null;
+}
+
+/**
+ * POST a JSON body to a resolved webhook
+ * Connects to the address that was checked rather than resolving the
+ * host again, so a record that changes in between (DNS rebinding) can't
+ * send the request somewhere internal. Redirects aren't followed.
+ * @param {object} target - { url, address, family } from resolveWebhookAddress
+ * @param {string} body - JSON to send
+ * @returns {Promise<number>} - The response status code
+ */
+function postToWebhook(target: WebhookAddress, body: string): Promise<number> {
+  const { url, address, family } = target;
+
+  const pinnedLookup: LookupFunction = (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, [{ address, family }]);
+    } else {
+      callback(null, address, family);
+    }
+  };
+
+  return new Promise((resolve, reject) => {
+    const request = (url.protocol === 'https:' ? https : http).request(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Length': Buffer.byteLength(body),
+        'User-Agent': 'BetSmoke-Alerts'
+      },
+      lookup: pinnedLookup,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+    }, (response) => {
+      response.resume();
+      resolve(response.statusCode ?? 0);
+    });
+
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+// ============================================
+// CHANNELS
+// ============================================
+
+const channels: Record<AlertChannel, AlertChannelHandler> = {
+  IN_APP: async (alert) => {
+    await createNotification({
+      userId: alert.userId,
+      type: 'ALERT',
+      title: alert.title,
+      message: alert.message,
+      link: `/fixtures/${alert.fixtureId}`,
+      triggerId: alert.triggerId
+    });
+  },
+
+  EMAIL: async (alert) => {
+    const result = await sendAlertEmail(alert.email, alert.title, alert.message, alert.fixtureId);
+    if (!result.success) {
+      throw new Error(result.error || 'Email not sent');
+    }
+  },
+
+  WEBHOOK: async (alert, target) => {
+    if (!target.webhookUrl) {
+      throw new Error('No webhook URL');
+    }
+
+    // Checked again here: the host may resolve differently than when
+    // the rule was saved
+    const resolved = await resolveWebhookAddress(target.webhookUrl);
+    if ('error' in resolved) {
+      throw new Error(resolved.error);
+    }
+
+    const status = await postToWebhook(resolved, JSON.stringify({
+      id: alert.triggerId,
+      ruleId: alert.ruleId,
+      event: alert.event,
+      fixtureId: alert.fixtureId,
+      title: alert.title,
+      message: alert.message,
+      data: alert.data,
+      triggeredAt: alert.triggeredAt
+    }));
+
+    if (status < 200 || status >= 300) {
+      throw new Error(`Webhook responded with ${status}`);
+    }
+  }
+};
+
+/**
+ * Send an alert to each of its rule's channels
+ * @param {object} alert - The fired alert
+ * @param {string[]} ruleChannels - Channels on the rule
+ * @param {object} target - { webhookUrl }
+ * @returns {Promise<Array>} - { channel, success, error? } per channel
+ */
+async function deliverAlert(
+  alert: AlertMessage,
+  ruleChannels: AlertChannel[],
+  target: AlertTarget
+): Promise<DeliveryResult[]> {
+  return Promise.all(ruleChannels.map(async (channel): Promise<DeliveryResult> => {
+    try {
+      await channels[channel](alert, target);
+      return { channel, success: true };
+    } catch (error) {
+      console.error(`[Alerts] ${channel} delivery failed for trigger ${alert.triggerId}:`, getErrorMessage(error));
+      return { channel, success: false, error: getErrorMessage(error) };
+    }
+  }));
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+export type { AlertMessage, AlertTarget, DeliveryResult, AlertChannelHandler };
+
+export {
+  checkWebhookUrl,
+  deliverAlert
+};
@@ -0,0 +1,441 @@
+// ============================================
+// MATCH ALERTS SERVICE
+// ============================================
+// Evaluates the users' alert rules and fires alerts through the
+// channels on each rule (see alertChannels.ts). Run on a schedule by
+// index.ts (ALERTS_INTERVAL_SECONDS).
+//
+// Each run makes only the calls the active rules need:
+//   - KICKOFF / GOAL / RED_CARD: one uncached in-play request, matched
+//     to rules by fixture ID or by participating team
+//   - LINEUPS_CONFIRMED / ODDS_DROP: fixtures kicking off within
+//     ALERTS_LOOKAHEAD_HOURS - the fixture itself for fixture rules,
+//     the team's fixtures for team rules. Odds are snapshotted (see
+//     oddsSnapshots.ts) and compared with the first stored price.
+//
+// Every alert has a dedupe key ("kickoff", "goal:<event id>",
+// "odds:1:Home:"...) stored with the trigger, so each one fires once
+// per rule however many runs see it.
+// ============================================
+
+import prisma from '../db.js';
+import { getFixtureById, getLivescoresInplay, getTeamById, getTeamFixturesByDateRange } from './sportsmonks.js';
+import { getKickoffTime } from './closingLines.js';
+import { getOddsHistory, snapshotFixtureOdds } from './oddsSnapshots.js';
+import { deliverAlert } from './alertChannels.js';
+import type { AlertEvent, AlertRule } from '../generated/prisma/client.js';
+import type { Fixture } from '../types/sportsmonks.js';
+
+type RuleWithUser = AlertRule & { user: { email: string } };
+
+// An alert a rule wants to fire (if it hasn't already)
+type AlertCandidate = {
+  rule: RuleWithUser;
+  fixtureId: number;
+  event: AlertEvent;
+  dedupeKey: string;
+  title: string;
+  message: string;
+  data: Record<string, unknown>;
+};
+
+type EvaluationResult = {
+  rulesChecked: number;
+  fixturesChecked: number;
+  triggered: number;
+  deliveryFailures: number;
+};
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+// How far ahead pre-match rules (lineups, odds) look for fixtures
+const LOOKAHEAD_HOURS = Number(process.env.ALERTS_LOOKAHEAD_HOURS) || 24;
+
+const LIVE_EVENTS: AlertEvent[] = ['KICKOFF', 'GOAL', 'RED_CARD'];
+const PRE_MATCH_EVENTS: AlertEvent[] = ['LINEUPS_CONFIRMED', 'ODDS_DROP'];
+
+// SportsMonks event type IDs
+const EVENT_TYPES = {
+  GOAL: 14,
+  OWN_GOAL: 15,
+  PENALTY: 16,
+  RED_CARD: 20,
+  YELLOW_RED_CARD: 21     // Second yellow
+};
+
+const GOAL_EVENT_TYPE_IDS = [EVENT_TYPES.GOAL, EVENT_TYPES.OWN_GOAL, EVENT_TYPES.PENALTY];
+const RED_CARD_EVENT_TYPE_IDS = [EVENT_TYPES.RED_CARD, EVENT_TYPES.YELLOW_RED_CARD];
+
+// SportsMonks metadata type ID for "lineup confirmed"
+const LINEUP_CONFIRMED_TYPE_ID = 572;
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Unknown error';
+
+// "2025-01-11" (UTC) for SportsMonks date params
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+
+const hasAny = (rule: AlertRule, events: AlertEvent[]) =>
+  rule.events.some(event => events.includes(event));
+
+// Does the rule cover this fixture?
+const ruleMatchesFixture = (rule: AlertRule, fixture: Fixture) =>
+  rule.fixtureId === fixture.id
+  || (rule.teamId !== null && (fixture.participants ?? []).some(team => team.id === rule.teamId));
+
+const getFixtureName = (fixture: Fixture) => fixture.name || `Fixture ${fixture.id}`;
+
+const getTeamName = (fixture: Fixture, teamId: number | null | undefined) =>
+  fixture.participants?.find(team => team.id === teamId)?.name ?? null;
+
+// ============================================
+// RULE TARGETS
+// ============================================
+
+/**
+ * Look up a rule target's display name (and a fixture's kickoff).
+ * Best-effort, like the watchlist: a failed lookup leaves them empty.
+ * @param {object} target - { fixtureId } or { teamId }
+ * @returns {Promise<object>} - { label, kickoffAt }
+ */
+async function lookupAlertTarget(target: { fixtureId?: number | null; teamId?: number | null }) {
+  try {
+    if (target.fixtureId) {
+      const result = await getFixtureById(target.fixtureId);
+      return { label: result.data?.name ?? null, kickoffAt: getKickoffTime(result.data) };
+    }
+    if (target.teamId) {
+      const result = await getTeamById(target.teamId);
+      return { label: result.data?.name ?? null, kickoffAt: null };
+    }
+  } catch (error) {
+    console.error('[Alerts] Target lookup failed:', getErrorMessage(error));
+  }
+  return { label: null, kickoffAt: null };
+}
+
+// ============================================
+// LIVE ALERTS (kickoff, goals, red cards)
+// ============================================
+
+function getLiveCandidates(rule: RuleWithUser, fixture: Fixture): AlertCandidate[] {
+  const candidates: AlertCandidate[] = [];
+  const name = getFixtureName(fixture);
+  const base = { rule, fixtureId: fixture.id };
+
+  if (rule.events.includes('KICKOFF')) {
+    candidates.push({
+      ...base,
+      event: 'KICKOFF',
+      dedupeKey: 'kickoff',
+      title: `Kick-off: ${name}`,
+      message: `${name} has kicked off.`,
+      data: { state: fixture.state?.short_name ?? null }
+    });
+  }
+
+  for (const event of fixture.events ?? []) {
+    const minute = event.minute ? `${event.minute}${event.extra_minute ? `+${event.extra_minute}` : ''}'` : null;
+    const team = getTeamName(fixture, event.participant_id);
+    const data = {
+      eventId: event.id,
+      minute: event.minute ?? null,
+      player: event.player_name ?? null,
+      team,
+      result: event.result ?? null
+    };
+
+    if (rule.events.includes('GOAL') && GOAL_EVENT_TYPE_IDS.includes(event.type_id)) {
+      const kind = event.type_id === EVENT_TYPES.OWN_GOAL ? 'Own goal' : event.type_id === EVENT_TYPES.PENALTY ? 'Penalty' : 'Goal';
+      candidates.push({
+        ...base,
+        event: 'GOAL',
+        dedupeKey: `goal:${event.id}`,
+        title: `${kind}${team ? ` for ${team}` : ''}: ${name}${event.result ? ` ${event.result}` : ''}`,
+        message: [minute, event.player_name, `(${name}${event.result ? `, ${event.result}` : ''})`].filter(Boolean).join(' '),
+        data
+      });
+    }
+
+    if (rule.events.includes('RED_CARD') && RED_CARD_EVENT_TYPE_IDS.includes(event.type_id)) {
+      const kind = event.type_id === EVENT_TYPES.YELLOW_RED_CARD ? 'Second yellow' : 'Red card';
+      candidates.push({
+        ...base,
+        event: 'RED_CARD',
+        dedupeKey: `red:${event.id}`,
+        title: `${kind}${team ? ` for ${team}` : ''}: ${name}`,
+        message: [minute, event.player_name, `sent off (${name})`].filter(Boolean).join(' '),
+        data
+      });
+    }
+  }
+
+  return candidates;
+}
+
+// ============================================
+// PRE-MATCH ALERTS (lineups, odds drops)
+// ============================================
+
+/**
+ * Fixtures kicking off within the lookahead window for the pre-match rules
+ * @param {Array} rules - Rules with LINEUPS_CONFIRMED or ODDS_DROP
+ * @param {Date} now - Start of the window
+ * @returns {Promise<Map>} - Fixtures by ID
+ */
+async function getUpcomingFixtures(rules: RuleWithUser[], now: Date) {
+  const windowEnd = new Date(now.getTime() + LOOKAHEAD_HOURS * 60 * 60 * 1000);
+  const fixtures = new Map<number, Fixture>();
+
+  // Fixture rules: skip fixtures known to be outside the window
+  const fixtureIds = new Set(rules
+    .filter(rule => rule.fixtureId !== null
+      && (!rule.kickoffAt || (rule.kickoffAt > now && rule.kickoffAt <= windowEnd)))
+    .map(rule => rule.fixtureId as number));
+  const teamIds = new Set(rules.filter(rule => rule.teamId !== null).map(rule => rule.teamId as number));
+
+  // Uncached, like the in-play feed - lineups are checked every run
+  const results = await Promise.allSettled([
+    ...[...fixtureIds].map(async fixtureId => [(await getFixtureById(fixtureId, { cache: false })).data]),
+    ...[...teamIds].map(async teamId =>
+      (await getTeamFixturesByDateRange(toDateString(now), toDateString(windowEnd), teamId, { cache: false })).data ?? [])
+  ]);
+
+  for (const result of results) {
+    if (result.status === 'rejected') {
+      console.error('[Alerts] Failed to fetch upcoming fixtures:', getErrorMessage(result.reason));
+      continue;
+    }
+    for (const fixture of result.value) {
+      const kickoff = getKickoffTime(fixture);
+      if (fixture && kickoff && kickoff > now && kickoff <= windowEnd) {
+        fixtures.set(fixture.id, fixture);
+      }
+    }
+  }
+
+  return fixtures;
+}
+
+function getLineupCandidate(rule: RuleWithUser, fixture: Fixture): AlertCandidate | null {
+  const confirmed = (fixture.metadata ?? [])
+    .find(meta => meta.type_id === LINEUP_CONFIRMED_TYPE_ID)?.values?.confirmed;
+  if (confirmed !== true) return null;
+
+  const name = getFixtureName(fixture);
+  return {
+    rule,
+    fixtureId: fixture.id,
+    event: 'LINEUPS_CONFIRMED',
+    dedupeKey: 'lineups',
+    title: `Lineups confirmed: ${name}`,
+    message: `The official lineups for ${name} are out.`,
+    data: { startingAt: fixture.starting_at ?? null }
+  };
+}
+
+/**
+ * Selections whose price dropped by at least the rule's threshold since
+ * the first stored price. One alert per selection (the bookmaker with
+ * the biggest drop), not per bookmaker.
+ * @param {object} rule - An ODDS_DROP rule
+ * @param {object} fixture - The fixture
+ * @param {Array} history - getOddsHistory series for the fixture
+ * @returns {Array} - Candidates
+ */
+function getOddsDropCandidates(
+  rule: RuleWithUser,
+  fixture: Fixture,
+  history: Awaited<ReturnType<typeof getOddsHistory>>
+): AlertCandidate[] {
+  const threshold = rule.oddsDropPercent ?? 0;
+  const biggestDrops = new Map<string, { series: (typeof history)[number]; from: number; to: number; drop: number }>();
+
+  for (const series of history) {
+    if (series.marketId !== rule.oddsMarketId || series.points.length < 2) continue;
+
+    const from = series.points[0].value;
+    const to = series.points[series.points.length - 1].value;
+    const drop = ((from - to) / from) * 100;
+    if (drop < threshold) continue;
+
+    const key = `${series.marketId}:${series.label}:${series.line ?? ''}`;
+    if (!biggestDrops.has(key) || drop > biggestDrops.get(key)!.drop) {
+      biggestDrops.set(key, { series, from, to, drop });
+    }
+  }
+
+  const name = getFixtureName(fixture);
+  return [...biggestDrops.entries()].map(([key, { series, from, to, drop }]) => {
+    const selection = `${series.label}${series.line ? ` ${series.line}` : ''}`;
+    return {
+      rule,
+      fixtureId: fixture.id,
+      event: 'ODDS_DROP' as const,
+      dedupeKey: `odds:${key}`,
+      title: `Odds drop: ${selection} in ${name}`,
+      message: `${selection} shortened ${drop.toFixed(1)}% from ${from.toFixed(2)} to ${to.toFixed(2)} (bookmaker ${series.bookmakerId}).`,
+      data: {
+        marketId: series.marketId,
+        bookmakerId: series.bookmakerId,
+        label: series.label,
+        line: series.line,
+        from,
+        to,
+        dropPercent: Math.round(drop * 10) / 10
+      }
+    };
+  });
+}
+
+// ============================================
+// FIRE
+// ============================================
+
+/**
+ * Store and deliver an alert, unless the rule already fired it
+ * @param {object} candidate - The alert
+ * @returns {Promise<object|null>} - Delivery results, or null if already fired
+ */
+async function fireAlert(candidate: AlertCandidate) {
+  const { rule } = candidate;
+
+  let trigger;
+  try {
+    trigger = await prisma.alertTrigger.create({
+      data: {
+        ruleId: rule.id,
+        fixtureId: candidate.fixtureId,
+        event: candidate.event,
+        dedupeKey: candidate.dedupeKey,
+        title: candidate.title,
+        message: candidate.message,
+        data: candidate.data as object
+      }
+    });
+  } catch (error) {
+    // Unique (ruleId, dedupeKey): already fired
+    if ((error as { code?: string }).code === 'P2002') return null;
+    throw error;
+  }
+
+  const deliveries = await deliverAlert(
+    {
+      triggerId: trigger.id,
+      ruleId: rule.id,
+      userId: rule.userId,
+      email: rule.user.email,
+      event: trigger.event,
+      fixtureId: trigger.fixtureId,
+      title: trigger.title,
+      message: trigger.message,
+      data: candidate.data,
+      triggeredAt: trigger.createdAt.toISOString()
+    },
+    rule.channels,
+    { webhookUrl: rule.webhookUrl }
+  );
+
+  await prisma.alertTrigger.update({
+    where: { id: trigger.id },
+    data: { deliveries }
+  });
+
+  return deliveries;
+}
+
+// ============================================
+// EVALUATE
+// ============================================
+
+/**
+ * Check every active alert rule and fire the alerts that are due
+ * @returns {Promise<object>} - { rulesChecked, fixturesChecked, triggered, deliveryFailures }
+ */
+async function evaluateAlertRules(): Promise<EvaluationResult> {
+  const rules: RuleWithUser[] = await prisma.alertRule.findMany({
+    where: { active: true },
+    include: { user: { select: { email: true } } }
+  });
+
+  const result: EvaluationResult = { rulesChecked: rules.length, fixturesChecked: 0, triggered: 0, deliveryFailures: 0 };
+  if (rules.length === 0) return result;
+
+  const candidates: AlertCandidate[] = [];
+  const now = new Date();
+
+  // 1. Live: one in-play request for all the rules
+  const liveRules = rules.filter(rule => hasAny(rule, LIVE_EVENTS));
+  if (liveRules.length > 0) {
+    const inplay = await getLivescoresInplay({ cache: false });
+
+    for (const fixture of inplay.data ?? []) {
+      const matching = liveRules.filter(rule => ruleMatchesFixture(rule, fixture));
+      if (matching.length === 0) continue;
+
+      result.fixturesChecked++;
+      matching.forEach(rule => candidates.push(...getLiveCandidates(rule, fixture)));
+    }
+  }
+
+  // 2. Pre-match: lineups and odds for fixtures kicking off soon
+  const preMatchRules = rules.filter(rule => hasAny(rule, PRE_MATCH_EVENTS));
+  if (preMatchRules.length > 0) {
+    const fixtures = await getUpcomingFixtures(preMatchRules, now);
+
+    for (const fixture of fixtures.values()) {
+      const matching = preMatchRules.filter(rule => ruleMatchesFixture(rule, fixture));
+      if (matching.length === 0) continue;
+
+      result.fixturesChecked++;
+
+      for (const rule of matching.filter(rule => rule.events.includes('LINEUPS_CONFIRMED'))) {
+        const candidate = getLineupCandidate(rule, fixture);
+        if (candidate) candidates.push(candidate);
+      }
+
+      const oddsRules = matching.filter(rule => rule.events.includes('ODDS_DROP'));
+      if (oddsRules.length > 0) {
+        try {
+          await snapshotFixtureOdds(fixture.id, { cache: false });
+          const history = await getOddsHistory(fixture.id);
+          oddsRules.forEach(rule => candidates.push(...getOddsDropCandidates(rule, fixture, history)));
+        } catch (error) {
+          console.error(`[Alerts] Odds check failed for fixture ${fixture.id}:`, getErrorMessage(error));
+        }
+      }
+    }
+  }
+
+  // 3. Fire what hasn't fired yet (one at a time - channels may be slow)
+  for (const candidate of candidates) {
+    try {
+      const deliveries = await fireAlert(candidate);
+      if (!deliveries) continue;
+
+      result.triggered++;
+      result.deliveryFailures += deliveries.filter(delivery => !delivery.success).length;
+    } catch (error) {
+      console.error(`[Alerts] Failed to fire ${candidate.event} for rule ${candidate.rule.id}:`, getErrorMessage(error));
+    }
+  }
+
+  if (result.triggered > 0) {
+    console.log(`[Alerts] Fired ${result.triggered} alert(s) from ${result.rulesChecked} rule(s)`);
+  }
+
+  return result;
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+export type { EvaluationResult };
+
+export {
+  lookupAlertTarget,
+  evaluateAlertRules
+};
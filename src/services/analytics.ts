@@ -0,0 +1,360 @@
+// ============================================
+// BET ANALYTICS SERVICE
+// ============================================
+// Computes bankroll and P&L analytics over a user's bet journal.
+//
+// All figures are computed here (server-side) so the analytics page
+// and CSV exports always show the same numbers.
+//
+// Definitions:
+//   - Yield        = profit / total staked
+//   - ROI          = profit / starting bankroll (only when a bankroll is given)
+//   - Strike rate  = won / (won + lost) - voids are ignored
+//   - Max drawdown = largest peak-to-trough fall of the running bankroll
+//   - CLV          = price taken / closing price - 1 (bets with a captured close only)
+// ============================================
+
+import prisma from '../db.js';
+import { loadNameLookups, type NameLookups } from './referenceNames.js';
+import { formatPrice, type OddsFormat } from './pricing.js';
+import { calculateClv } from './closingLines.js';
+
+type AnalyticsBet = {
+  id: string;
+  fixtureId: number;
+  fixtureName?: string | null;
+  leagueId: number | null;
+  marketId: number;
+  bookmakerId: number;
+  selection: string;
+  price: number;
+  closingPrice: number | null;
+  stake: number;
+  status: string;
+  profit: number | null;
+  placedAt: Date;
+  settledAt: Date | null;
+};
+
+type BreakdownDimension = 'league' | 'market' | 'bookmaker' | 'month';
+
+type BreakdownRow = {
+  key: string;
+  label: string;
+  bets: number;
+  won: number;
+  lost: number;
+  void: number;
+  staked: number;
+  profit: number;
+  yield: number | null;
+  strikeRate: number | null;
+  averagePrice: number | null;
+  averagePriceFormatted: string | null;
+  clvBets: number;
+  averageClv: number | null;
+  beatCloseRate: number | null;
+};
+
+type AnalyticsOptions = {
+  startingBankroll?: number;
+  oddsFormat?: OddsFormat;
+  names?: NameLookups;
+};
+
+const SETTLED_STATUSES = ['WON', 'LOST', 'VOID'];
+
+// ============================================
+// HELPERS
+// ============================================
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Percentage of numerator / denominator, or null when undefined
+const percent = (numerator: number, denominator: number) =>
+  denominator > 0 ? round2((numerator / denominator) * 100) : null;
+
+// Settled bets are ordered by when they settled (that's when the bankroll moves)
+const settlementTime = (bet: AnalyticsBet) => (bet.settledAt ?? bet.placedAt).getTime();
+
+// "2025-01" style month key (UTC)
+const monthKey = (date: Date) => date.toISOString().slice(0, 7);
+
+/**
+ * Aggregate a group of bets into a single row of totals
+ */
+function summarizeGroup(
+  key: string,
+  label: string,
+  bets: AnalyticsBet[],
+  oddsFormat: OddsFormat
+): BreakdownRow {
+  const settled = bets.filter(b => SETTLED_STATUSES.includes(b.status));
+  const won = settled.filter(b => b.status === 'WON').length;
+  const lost = settled.filter(b => b.status === 'LOST').length;
+  const staked = settled.reduce((sum, b) => sum + b.stake, 0);
+  const profit = settled.reduce((sum, b) => sum + (b.profit ?? 0), 0);
+  const averagePrice = bets.length > 0
+    ? round2(bets.reduce((sum, b) => sum + b.price, 0) / bets.length)
+    : null;
+
+  // CLV only counts bets where a closing price was captured
+  const clvValues = bets
+    .map(b => calculateClv(b.price, b.closingPrice))
+    .filter((clv): clv is number => clv !== null);
+  const averageClv = clvValues.length > 0
+    ? round2(clvValues.reduce((sum, clv) => sum + clv, 0) / clvValues.length)
+    : null;
+
+  return {
+    key,
+    label,
+    bets: bets.length,
+    won,
+    lost,
+    void: settled.length - won - lost,
+    staked: round2(staked),
+    profit: round2(profit),
+    yield: percent(profit, staked),
+    strikeRate: percent(won, won + lost),
+    averagePrice,
+    averagePriceFormatted: formatPrice(averagePrice, oddsFormat),
+    clvBets: clvValues.length,
+    averageClv,
+    beatCloseRate: percent(clvValues.filter(clv => clv > 0).length, clvValues.length)
+  };
+}
+
+/**
+ * Group bets by a dimension and summarize each group
+ */
+function buildBreakdown(
+  bets: AnalyticsBet[],
+  dimension: BreakdownDimension,
+  names: NameLookups,
+  oddsFormat: OddsFormat
+): BreakdownRow[] {
+  const groups = new Map<string, AnalyticsBet[]>();
+
+  for (const bet of bets) {
+    let key: string;
+    if (dimension === 'league') key = bet.leagueId ? String(bet.leagueId) : 'unknown';
+    else if (dimension === 'market') key = String(bet.marketId);
+    else if (dimension === 'bookmaker') key = String(bet.bookmakerId);
+    else key = monthKey(bet.placedAt);
+
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(bet);
+  }
+
+  const labelFor = (key: string) => {
+    if (dimension === 'month') return key;
+    if (key === 'unknown') return 'Unknown';
+    const id = Number(key);
+    if (dimension === 'league') return names.leagues.get(id) || `League ${id}`;
+    if (dimension === 'market') return names.markets.get(id) || `Market ${id}`;
+    return names.bookmakers.get(id) || `Bookmaker ${id}`;
+  };
+
+  const rows = [...groups.entries()].map(([key, groupBets]) =>
+    summarizeGroup(key, labelFor(key), groupBets, oddsFormat)
+  );
+
+  // Months read chronologically, everything else by profit (best first)
+  if (dimension === 'month') {
+    rows.sort((a, b) => a.key.localeCompare(b.key));
+  } else {
+    rows.sort((a, b) => b.profit - a.profit);
+  }
+
+  return rows;
+}
+
+// ============================================
+// COMPUTE ANALYTICS
+// ============================================
+
+/**
+ * Compute bankroll and P&L analytics for a list of bets
+ * @param {object[]} bets - Bets from the journal
+ * @param {object} options
+ * @param {number} options.startingBankroll - Bankroll before the first bet (default 0)
+ * @param {string} options.oddsFormat - How to format prices (default AMERICAN)
+ * @param {object} options.names - League/market/bookmaker name lookups (optional)
+ * @returns {object} - Summary, bankroll history and breakdowns
+ *
+ * This is a pure function - it does no I/O, so it can be reused for exports.
+ */
+function computeBetAnalytics(bets: AnalyticsBet[], options: AnalyticsOptions = {}) {
+  const startingBankroll = options.startingBankroll ?? 0;
+  const oddsFormat = options.oddsFormat ?? 'AMERICAN';
+  const names = options.names ?? {
+    leagues: new Map(),
+    markets: new Map(),
+    bookmakers: new Map()
+  };
+
+  const settled = bets
+    .filter(b => SETTLED_STATUSES.includes(b.status))
+    .sort((a, b) => settlementTime(a) - settlementTime(b));
+  const pending = bets.filter(b => b.status === 'PENDING');
+
+  // ----------------------------------------
+  // Running bankroll, drawdown and streaks
+  // ----------------------------------------
+  let bankroll = startingBankroll;
+  let peak = startingBankroll;
+  let maxDrawdown = 0;
+  let maxDrawdownPercent: number | null = null;
+  let losingStreak = 0;
+  let longestLosingStreak = 0;
+
+  const bankrollHistory = settled.map(bet => {
+    bankroll += bet.profit ?? 0;
+
+    if (bankroll > peak) {
+      peak = bankroll;
+    }
+
+    const drawdown = peak - bankroll;
+    if (drawdown > maxDrawdown) {
+      maxDrawdown = drawdown;
+      maxDrawdownPercent = peak > 0 ? percent(drawdown, peak) : null;
+    }
+
+    // Voids don't break a streak - they don't win or lose
+    if (bet.status === 'LOST') {
+      losingStreak++;
+      longestLosingStreak = Math.max(longestLosingStreak, losingStreak);
+    } else if (bet.status === 'WON') {
+      losingStreak = 0;
+    }
+
+    return {
+      betId: bet.id,
+      fixtureId: bet.fixtureId,
+      date: new Date(settlementTime(bet)).toISOString(),
+      status: bet.status,
+      profit: round2(bet.profit ?? 0),
+      bankroll: round2(bankroll)
+    };
+  });
+
+  const overall = summarizeGroup('all', 'All bets', bets, oddsFormat);
+
+  return {
+    oddsFormat,
+    summary: {
+      totalBets: bets.length,
+      settledBets: settled.length,
+      pendingBets: pending.length,
+      won: overall.won,
+      lost: overall.lost,
+      void: overall.void,
+      totalStaked: overall.staked,
+      openStake: round2(pending.reduce((sum, b) => sum + b.stake, 0)),
+      profit: overall.profit,
+      roi: startingBankroll > 0 ? percent(overall.profit, startingBankroll) : null,
+      yield: overall.yield,
+      strikeRate: overall.strikeRate,
+      averagePrice: overall.averagePrice,
+      averagePriceFormatted: overall.averagePriceFormatted,
+      clvBets: overall.clvBets,
+      averageClv: overall.averageClv,
+      beatCloseRate: overall.beatCloseRate,
+      longestLosingStreak,
+      currentLosingStreak: losingStreak,
+      maxDrawdown: round2(maxDrawdown),
+      maxDrawdownPercent,
+      startingBankroll: round2(startingBankroll),
+      currentBankroll: round2(bankroll)
+    },
+    bankrollHistory,
+    breakdowns: {
+      league: buildBreakdown(bets, 'league', names, oddsFormat),
+      market: buildBreakdown(bets, 'market', names, oddsFormat),
+      bookmaker: buildBreakdown(bets, 'bookmaker', names, oddsFormat),
+      month: buildBreakdown(bets, 'month', names, oddsFormat)
+    }
+  };
+}
+
+// ============================================
+// USER ANALYTICS
+// ============================================
+
+/**
+ * Load a user's bets and compute their analytics
+ * @param {string} userId - The user ID
+ * @param {object} options
+ * @param {number} options.startingBankroll - Bankroll before the first bet (default 0)
+ * @returns {Promise<object>} - Analytics, with prices formatted in the user's oddsFormat
+ */
+async function getBetAnalytics(userId: string, options: { startingBankroll?: number } = {}) {
+  const [bets, user, names] = await Promise.all([
+    prisma.bet.findMany({ where: { userId } }),
+    prisma.user.findUnique({ where: { id: userId }, select: { oddsFormat: true } }),
+    loadNameLookups()
+  ]);
+
+  return computeBetAnalytics(bets, {
+    startingBankroll: options.startingBankroll,
+    oddsFormat: user?.oddsFormat ?? 'AMERICAN',
+    names
+  });
+}
+
+// ============================================
+// CSV EXPORT
+// ============================================
+
+/**
+ * Convert analytics breakdowns to CSV (one row per dimension/group)
+ * @param {object} analytics - Result of computeBetAnalytics
+ * @returns {string} - CSV text with a header row
+ */
+function analyticsToCsv(analytics: ReturnType<typeof computeBetAnalytics>): string {
+  const header = [
+    'dimension', 'key', 'label', 'bets', 'won', 'lost', 'void',
+    'staked', 'profit', 'yield', 'strike_rate', 'average_price',
+    'clv_bets', 'average_clv', 'beat_close_rate'
+  ];
+
+  const escape = (value: unknown) => {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const lines = [header.join(',')];
+
+  const overall = analytics.summary;
+  lines.push([
+    'all', 'all', 'All bets', overall.totalBets, overall.won, overall.lost, overall.void,
+    overall.totalStaked, overall.profit, overall.yield, overall.strikeRate,
+    overall.averagePriceFormatted, overall.clvBets, overall.averageClv, overall.beatCloseRate
+  ].map(escape).join(','));
+
+  for (const [dimension, rows] of Object.entries(analytics.breakdowns)) {
+    for (const row of rows) {
+      lines.push([
+        dimension, row.key, row.label, row.bets, row.won, row.lost, row.void,
+        row.staked, row.profit, row.yield, row.strikeRate, row.averagePriceFormatted,
+        row.clvBets, row.averageClv, row.beatCloseRate
+      ].map(escape).join(','));
+    }
+  }
+
+  return lines.join('\n');
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+export type { AnalyticsBet, BreakdownRow };
+
+export {
+  computeBetAnalytics,
+  getBetAnalytics,
+  analyticsToCsv
+};
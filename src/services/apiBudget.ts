@@ -0,0 +1,243 @@
+// ============================================
+// SPORTSMONKS REQUEST BUDGET
+// ============================================
+// Keeps us inside the SportsMonks rate limit (Standard Plan: a fixed
+// number of calls per entity per hour). Used by makeRequest and
+// makeRequestPaginated (sportsmonks.ts):
+//
+//   - Coalescing: identical requests already in flight share one API
+//     call (e.g. several users opening the same fixture page).
+//   - Budget tracking: every response carries
+//     rate_limit: { remaining, resets_in_seconds, requested_entity }
+//     which is recorded per entity ("Fixture", "Team", ...).
+//   - Throttling: once an entity is down to its reserve, its requests
+//     are queued and spaced out over the time left until the reset.
+//     A request that would have to wait longer than the maximum wait
+//     fails instead.
+//
+// Endpoints are matched to entities by their first path segment,
+// learned from responses (/fixtures/... → "Fixture").
+// ============================================
+
+import { SportsMonksRateLimitError } from './apiErrors.js';
+
+type RateLimitInfo = {
+  remaining?: number;
+  resets_in_seconds?: number;
+  requested_entity?: string;
+};
+
+type EntityBudget = {
+  entity: string;
+  remaining: number;
+  resetsAt: number;       // Epoch ms
+  updatedAt: number;      // Epoch ms
+  lastRequestAt: number;  // Epoch ms - last throttled request let through
+  queued: number;         // Requests waiting for a slot
+};
+
+type BudgetStatus = {
+  reserve: number;
+  maxWaitSeconds: number;
+  inFlight: number;
+  coalesced: number;
+  throttled: number;
+  rejected: number;
+  entities: Array<{
+    entity: string;
+    remaining: number;
+    resetsInSeconds: number;
+    queued: number;
+    throttling: boolean;
+    updatedAt: string;
+  }>;
+};
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+// Remaining calls at which an entity's requests start being spaced out (default 100)
+const RATE_LIMIT_RESERVE = Number(process.env.SPORTSMONKS_RATE_LIMIT_RESERVE) || 100;
+
+// Longest a request may be queued before it fails (seconds, default 30)
+const RATE_LIMIT_MAX_WAIT_SECONDS = Number(process.env.SPORTSMONKS_RATE_LIMIT_MAX_WAIT_SECONDS) || 30;
+
+// ============================================
+// STATE
+// ============================================
+
+const budgets = new Map<string, EntityBudget>();
+
+// First path segment → entity name (e.g. "fixtures" → "Fixture")
+const segmentEntities = new Map<string, string>();
+
+// Request key → the shared promise for that request
+const inFlight = new Map<string, Promise<unknown>>();
+
+// Queue tail per entity, so throttled requests go one at a time
+const queues = new Map<string, Promise<void>>();
+
+const counters = { coalesced: 0, throttled: 0, rejected: 0 };
+
+// ============================================
+// HELPERS
+// ============================================
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// "/fixtures/date/2025-01-11?filters=..." → "fixtures"
+const getSegment = (endpoint: string) => endpoint.split(/[/?]/).find(part => part !== '') ?? '';
+
+const isThrottling = (budget: EntityBudget, now = Date.now()) =>
+  budget.resetsAt > now && budget.remaining <= RATE_LIMIT_RESERVE;
+
+// Wait until this request may be sent (called one at a time per entity)
+async function waitForSlot(budget: EntityBudget) {
+  const now = Date.now();
+  if (!isThrottling(budget, now)) return;
+
+  const resetsIn = budget.resetsAt - now;
+
+  // Out of calls: wait for the reset, spread what's left otherwise
+  const wait = budget.remaining <= 0
+    ? resetsIn
+    : Math.max(0, budget.lastRequestAt + resetsIn / budget.remaining - now);
+
+  if (wait > RATE_LIMIT_MAX_WAIT_SECONDS * 1000) {
+    counters.rejected++;
+    throw new SportsMonksRateLimitError(
+      `SportsMonks rate limit reached for ${budget.entity} (resets in ${Math.ceil(resetsIn / 1000)}s)`,
+      resetsIn / 1000
+    );
+  }
+
+  if (wait > 0) {
+    counters.throttled++;
+    console.log(`[ApiBudget] Throttling ${budget.entity}: ${budget.remaining} calls left, waiting ${Math.round(wait)}ms`);
+    await sleep(wait);
+  }
+
+  // Count the call until the response reports the real figure
+  budget.lastRequestAt = Date.now();
+  budget.remaining = Math.max(0, budget.remaining - 1);
+}
+
+// ============================================
+// PUBLIC FUNCTIONS
+// ============================================
+
+/**
+ * Share one in-flight request between identical callers
+ * @param {string} key - Identifies the request (URL without the API token)
+ * @param {function} fn - Makes the request
+ * @returns {Promise<any>} - The shared response
+ *
+ * Example: coalesce('football:/fixtures/123|participants', () => fetchFromApi())
+ */
+function coalesce<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  const existing = inFlight.get(key);
+  if (existing) {
+    counters.coalesced++;
+    return existing as Promise<T>;
+  }
+
+  const request = fn().finally(() => inFlight.delete(key));
+  inFlight.set(key, request);
+  return request;
+}
+
+/**
+ * Wait until the endpoint's entity has budget for another call
+ * @param {string} endpoint - SportsMonks path about to be requested
+ * @returns {Promise<void>} - Resolves when the request may be sent; rejects
+ *                            if that would take longer than the maximum wait
+ */
+async function acquireBudget(endpoint: string): Promise<void> {
+  const entity = segmentEntities.get(getSegment(endpoint));
+  const budget = entity ? budgets.get(entity) : undefined;
+
+  // Unknown entity, or plenty left - no queueing
+  if (!budget || !isThrottling(budget)) return;
+
+  budget.queued++;
+  const slot = (queues.get(budget.entity) ?? Promise.resolve()).then(() => waitForSlot(budget));
+
+  // A rejected request must not block the ones behind it
+  queues.set(budget.entity, slot.catch(() => undefined));
+
+  try {
+    await slot;
+  } finally {
+    budget.queued--;
+  }
+}
+
+/**
+ * Record the rate_limit block from a SportsMonks response
+ * @param {string} endpoint - The SportsMonks path that was requested
+ * @param {object} rateLimit - { remaining, resets_in_seconds, requested_entity }
+ */
+function recordRateLimit(endpoint: string, rateLimit: RateLimitInfo | undefined) {
+  if (!rateLimit?.requested_entity || typeof rateLimit.remaining !== 'number') return;
+
+  const entity = rateLimit.requested_entity;
+  const now = Date.now();
+  const resetsAt = now + (rateLimit.resets_in_seconds ?? 0) * 1000;
+  const existing = budgets.get(entity);
+  const wasThrottling = existing !== undefined && isThrottling(existing, now);
+
+  segmentEntities.set(getSegment(endpoint), entity);
+
+  // Update in place - queued requests hold on to this object
+  if (existing) {
+    existing.remaining = rateLimit.remaining;
+    existing.resetsAt = resetsAt;
+    existing.updatedAt = now;
+  } else {
+    budgets.set(entity, { entity, remaining: rateLimit.remaining, resetsAt, updatedAt: now, lastRequestAt: 0, queued: 0 });
+  }
+
+  if (rateLimit.remaining <= RATE_LIMIT_RESERVE && !wasThrottling) {
+    console.warn(`[ApiBudget] ${entity} is down to ${rateLimit.remaining} calls - throttling until reset`);
+  }
+}
+
+/**
+ * Current budget per entity, for the admin endpoint
+ * @returns {object} - Settings, counters and each entity's remaining calls (lowest first)
+ */
+function getBudgetStatus(): BudgetStatus {
+  const now = Date.now();
+
+  return {
+    reserve: RATE_LIMIT_RESERVE,
+    maxWaitSeconds: RATE_LIMIT_MAX_WAIT_SECONDS,
+    inFlight: inFlight.size,
+    ...counters,
+    entities: [...budgets.values()]
+      .map(budget => ({
+        entity: budget.entity,
+        // Past the reset the window starts again, but we only learn the new figure on the next call
+        remaining: budget.remaining,
+        resetsInSeconds: Math.max(0, Math.ceil((budget.resetsAt - now) / 1000)),
+        queued: budget.queued,
+        throttling: isThrottling(budget, now),
+        updatedAt: new Date(budget.updatedAt).toISOString()
+      }))
+      .sort((a, b) => a.remaining - b.remaining)
+  };
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+export type { RateLimitInfo, BudgetStatus };
+
+export {
+  coalesce,
+  acquireBudget,
+  recordRateLimit,
+  getBudgetStatus
+};
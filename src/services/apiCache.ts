@@ -0,0 +1,240 @@
+// ============================================
+// SPORTSMONKS RESPONSE CACHE
+// ============================================
+// Caches raw SportsMonks responses for makeRequest / makeRequestPaginated
+// (sportsmonks.ts), so every service call is cached without the callers
+// knowing about it.
+//
+// Each endpoint gets a TTL policy by path:
+//   - fresh (ttl):    served from cache as-is
+//   - stale (staleTtl): served from cache straight away while a
+//                     background request refreshes it
+//   - older:          fetched from the API before responding
+//   - if that fetch fails because SportsMonks is down, slow or out of
+//     budget, an entry up to staleIfError seconds past its stale window
+//     is served instead of the error
+//
+// Cache usage is recorded per HTTP request (AsyncLocalStorage), so the
+// cacheInfo middleware can add fromCache/cacheInfo to route responses.
+// ============================================
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import cache from './cache.js';
+import { isOutageError } from './apiErrors.js';
+
+type CachePolicy = {
+  name: string;
+  pattern: RegExp;
+  ttl: number;        // Seconds a response is fresh
+  staleTtl: number;   // Extra seconds it may be served while revalidating
+  staleIfError: number; // Extra seconds after that it may be served during an outage
+};
+
+type CachedResponse = {
+  data: unknown;
+  fetchedAt: number;  // Epoch ms
+};
+
+type CacheUsage = {
+  hits: number;
+  stale: number;
+  fallback: number;
+  misses: number;
+  oldestFetchedAt: number | null;
+};
+
+type RequestDescriptor = {
+  endpoint: string;
+  includes: string[];
+  odds: boolean;       // ODDS_BASE_URL instead of the football API
+  paginated: boolean;  // All pages merged into { data }
+};
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Unknown error';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const MINUTE = 60;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// First matching pattern wins (matched against the endpoint path)
+const CACHE_POLICIES: CachePolicy[] = [
+  // Live data - only absorbs bursts of identical requests
+  { name: 'livescores', pattern: /^\/livescores/, ttl: 10, staleTtl: 0, staleIfError: 0 },
+
+  // Prices move - short, and never served stale (closing lines rely on it)
+  { name: 'odds', pattern: /^\/odds\//, ttl: MINUTE, staleTtl: 0, staleIfError: 0 },
+
+  // Fixtures change state, scores and lineups on matchdays
+  { name: 'fixtures', pattern: /^\/(fixtures|schedules)/, ttl: 5 * MINUTE, staleTtl: 5 * MINUTE, staleIfError: DAY },
+
+  { name: 'standings', pattern: /^\/(standings|predictions)/, ttl: 15 * MINUTE, staleTtl: HOUR, staleIfError: DAY },
+  { name: 'topscorers', pattern: /^\/topscorers/, ttl: HOUR, staleTtl: 6 * HOUR, staleIfError: DAY },
+
+  // Team, player and official details change a few times a season
+  {
+    name: 'teams',
+    pattern: /^\/(teams|squads|players|coaches|referees|transfers)/,
+    ttl: 6 * HOUR,
+    staleTtl: DAY,
+    staleIfError: DAY
+  },
+
+  // Reference data
+  {
+    name: 'reference',
+    pattern: /^\/(leagues|seasons|stages|bookmakers|markets)/,
+    ttl: DAY,
+    staleTtl: 7 * DAY,
+    staleIfError: 7 * DAY
+  }
+];
+
+const DEFAULT_POLICY: CachePolicy = {
+  name: 'default',
+  pattern: /.*/,
+  ttl: 5 * MINUTE,
+  staleTtl: 5 * MINUTE,
+  staleIfError: DAY
+};
+
+// ============================================
+// HELPERS
+// ============================================
+
+// Usage counters for the HTTP request being handled (if any)
+const usageStorage = new AsyncLocalStorage<CacheUsage>();
+
+// Keys currently being refreshed in the background
+const revalidating = new Set<string>();
+
+/**
+ * Find the TTL policy for an endpoint
+ * @param {string} endpoint - SportsMonks path (e.g., "/fixtures/date/2025-01-11")
+ * @returns {object} - The matching CachePolicy
+ */
+function getCachePolicy(endpoint: string): CachePolicy {
+  return CACHE_POLICIES.find(policy => policy.pattern.test(endpoint)) ?? DEFAULT_POLICY;
+}
+
+// Record how a SportsMonks call was served for the current HTTP request
+function recordUsage(outcome: 'hit' | 'stale' | 'fallback' | 'miss', fetchedAt: number) {
+  const usage = usageStorage.getStore();
+  if (!usage) return;
+
+  if (outcome === 'hit') usage.hits++;
+  else if (outcome === 'stale') usage.stale++;
+  else if (outcome === 'fallback') usage.fallback++;
+  else usage.misses++;
+
+  if (usage.oldestFetchedAt === null || fetchedAt < usage.oldestFetchedAt) {
+    usage.oldestFetchedAt = fetchedAt;
+  }
+}
+
+async function fetchAndStore<T>(key: string, policy: CachePolicy, fetchFn: () => Promise<T>) {
+  const data = await fetchFn();
+  await cache.set(key, { data, fetchedAt: Date.now() }, policy.ttl + policy.staleTtl + policy.staleIfError);
+  return data;
+}
+
+// Refresh a stale entry without making the caller wait
+function revalidate<T>(key: string, policy: CachePolicy, fetchFn: () => Promise<T>) {
+  if (revalidating.has(key)) return;
+  revalidating.add(key);
+
+  fetchAndStore(key, policy, fetchFn)
+    .catch((error) => {
+      console.error(`[ApiCache] Revalidation failed for ${key}:`, getErrorMessage(error));
+    })
+    .finally(() => revalidating.delete(key));
+}
+
+// ============================================
+// CACHED REQUEST
+// ============================================
+
+/**
+ * Serve a SportsMonks request from cache when possible
+ * @param {object} request - { endpoint, includes, odds, paginated } (used for the key and policy)
+ * @param {function} fetchFn - Makes the actual API request
+ * @returns {Promise<any>} - The (possibly cached) response
+ *
+ * Example:
+ *   const data = await cachedRequest(
+ *     { endpoint: '/leagues', includes: ['country'], odds: false, paginated: false },
+ *     () => fetchFromApi()
+ *   );
+ */
+async function cachedRequest<T>(request: RequestDescriptor, fetchFn: () => Promise<T>): Promise<T> {
+  const policy = getCachePolicy(request.endpoint);
+  const key = cache.keys.sportsmonks(
+    `${request.odds ? 'odds' : 'football'}${request.paginated ? ':all' : ''}`,
+    request.endpoint,
+    request.includes.join(';')
+  );
+
+  const entry = await cache.get<CachedResponse>(key);
+  const age = entry ? (Date.now() - entry.fetchedAt) / 1000 : Infinity;
+
+  // Fresh
+  if (entry && age < policy.ttl) {
+    recordUsage('hit', entry.fetchedAt);
+    return entry.data as T;
+  }
+
+  // Stale - serve it and refresh in the background
+  if (entry && age < policy.ttl + policy.staleTtl) {
+    recordUsage('stale', entry.fetchedAt);
+    revalidate(key, policy, fetchFn);
+    return entry.data as T;
+  }
+
+  // Missing or expired
+  try {
+    const data = await fetchAndStore(key, policy, fetchFn);
+    recordUsage('miss', Date.now());
+    return data;
+
+  } catch (error) {
+    // SportsMonks is down - old data beats an error page
+    if (entry && isOutageError(error) && age < policy.ttl + policy.staleTtl + policy.staleIfError) {
+      console.warn(`[ApiCache] Serving ${key} from ${Math.round(age / 60)} minutes ago: ${error.message}`);
+      recordUsage('fallback', entry.fetchedAt);
+      return entry.data as T;
+    }
+    throw error;
+  }
+}
+
+// ============================================
+// REQUEST TRACKING
+// ============================================
+
+/**
+ * Run a function with its own cache usage counters
+ * @param {function} fn - Receives the counters, which fill in as SportsMonks calls complete
+ *
+ * Example: trackCacheUsage((usage) => next())
+ */
+function trackCacheUsage(fn: (usage: CacheUsage) => void) {
+  const usage: CacheUsage = { hits: 0, stale: 0, fallback: 0, misses: 0, oldestFetchedAt: null };
+  usageStorage.run(usage, () => fn(usage));
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+export type { CachePolicy, CacheUsage };
+
+export {
+  CACHE_POLICIES,
+  getCachePolicy,
+  cachedRequest,
+  trackCacheUsage
+};
@@ -0,0 +1,265 @@
+// ============================================
+// SPORTSMONKS HTTP CLIENT
+// ============================================
+// The single place SportsMonks is actually called from (used by
+// makeRequest / makeRequestPaginated in sportsmonks.ts):
+//
+//   - Timeout:  each attempt is aborted after SPORTSMONKS_TIMEOUT_MS
+//   - Retries:  timeouts, network errors, 5xx and 429 are retried with
+//               exponential backoff (plus jitter); other 4xx are not
+//   - Circuit breaker: after SPORTSMONKS_CIRCUIT_THRESHOLD consecutive
+//               failures, calls fail fast for SPORTSMONKS_CIRCUIT_RESET_SECONDS.
+//               Then one trial call is let through - success closes the
+//               circuit, failure opens it again.
+//
+// Failures are thrown as the typed errors in apiErrors.ts. While the
+// circuit is open, apiCache.ts serves stale cached data where it can.
+// ============================================
+
+import { acquireBudget, recordRateLimit } from './apiBudget.js';
+import {
+  SportsMonksError,
+  SportsMonksRateLimitError,
+  SportsMonksRequestError,
+  SportsMonksTimeoutError,
+  SportsMonksUnavailableError,
+  SportsMonksUpstreamError
+} from './apiErrors.js';
+
+type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+type CircuitStatus = {
+  state: CircuitState;
+  consecutiveFailures: number;
+  threshold: number;
+  resetSeconds: number;
+  openedAt: string | null;
+  retryInSeconds: number;
+};
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Unknown error';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+// How long one attempt may take (default 10 seconds)
+const SPORTSMONKS_TIMEOUT_MS = Number(process.env.SPORTSMONKS_TIMEOUT_MS) || 10000;
+
+// Retries after the first attempt (default 2, "0" disables)
+const SPORTSMONKS_MAX_RETRIES = process.env.SPORTSMONKS_MAX_RETRIES !== undefined
+  ? Math.max(0, Number(process.env.SPORTSMONKS_MAX_RETRIES) || 0)
+  : 2;
+
+// First backoff delay, doubled on each retry (default 500ms)
+const SPORTSMONKS_RETRY_BASE_MS = Number(process.env.SPORTSMONKS_RETRY_BASE_MS) || 500;
+
+// Longest we'll wait before a retry, even if SportsMonks asks for more (ms)
+const MAX_RETRY_DELAY_MS = 10000;
+
+// Consecutive failures that open the circuit (default 5), and how long it
+// stays open before a trial call (default 30 seconds)
+const CIRCUIT_THRESHOLD = Number(process.env.SPORTSMONKS_CIRCUIT_THRESHOLD) || 5;
+const CIRCUIT_RESET_SECONDS = Number(process.env.SPORTSMONKS_CIRCUIT_RESET_SECONDS) || 30;
+
+// ============================================
+// CIRCUIT BREAKER
+// ============================================
+
+const circuit = {
+  state: 'CLOSED' as CircuitState,
+  consecutiveFailures: 0,
+  openedAt: 0,           // Epoch ms
+  trialInFlight: false   // HALF_OPEN lets exactly one call through
+};
+
+// Throw instead of calling SportsMonks while the circuit is open
+function enterCircuit() {
+  if (circuit.state === 'OPEN') {
+    const retryIn = circuit.openedAt + CIRCUIT_RESET_SECONDS * 1000 - Date.now();
+    if (retryIn > 0) {
+      throw new SportsMonksUnavailableError('SportsMonks is unavailable (circuit open)', retryIn / 1000);
+    }
+    circuit.state = 'HALF_OPEN';
+    console.log('[SportsMonks] Circuit half-open - sending a trial request');
+  }
+
+  if (circuit.state === 'HALF_OPEN') {
+    if (circuit.trialInFlight) {
+      throw new SportsMonksUnavailableError('SportsMonks is unavailable (checking recovery)', 1);
+    }
+    circuit.trialInFlight = true;
+  }
+}
+
+// SportsMonks answered (even with a 4xx/429) - it's up
+function recordSuccess() {
+  if (circuit.state !== 'CLOSED') {
+    console.log('[SportsMonks] Circuit closed - API is responding again');
+  }
+  circuit.state = 'CLOSED';
+  circuit.consecutiveFailures = 0;
+  circuit.trialInFlight = false;
+}
+
+// SportsMonks timed out, errored or was unreachable
+function recordFailure() {
+  circuit.consecutiveFailures++;
+  circuit.trialInFlight = false;
+
+  if (circuit.state === 'HALF_OPEN' || circuit.consecutiveFailures >= CIRCUIT_THRESHOLD) {
+    if (circuit.state !== 'OPEN') {
+      console.error(
+        `[SportsMonks] Circuit open after ${circuit.consecutiveFailures} failure(s) - ` +
+        `failing fast for ${CIRCUIT_RESET_SECONDS}s`
+      );
+    }
+    circuit.state = 'OPEN';
+    circuit.openedAt = Date.now();
+  }
+}
+
+/**
+ * Current circuit breaker state, for the admin endpoint
+ * @returns {object} - { state, consecutiveFailures, threshold, resetSeconds, openedAt, retryInSeconds }
+ */
+function getCircuitStatus(): CircuitStatus {
+  const retryIn = circuit.state === 'OPEN'
+    ? Math.max(0, Math.ceil((circuit.openedAt + CIRCUIT_RESET_SECONDS * 1000 - Date.now()) / 1000))
+    : 0;
+
+  return {
+    state: circuit.state,
+    consecutiveFailures: circuit.consecutiveFailures,
+    threshold: CIRCUIT_THRESHOLD,
+    resetSeconds: CIRCUIT_RESET_SECONDS,
+    openedAt: circuit.openedAt ? new Date(circuit.openedAt).toISOString() : null,
+    retryInSeconds: retryIn
+  };
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Seconds SportsMonks asks us to wait after a 429 (header, then rate_limit block)
+function getRetryAfter(response: globalThis.Response, data: any): number | undefined {
+  const header = Number(response.headers.get('retry-after'));
+  if (header > 0) return header;
+
+  const resetsIn = Number(data?.rate_limit?.resets_in_seconds);
+  return resetsIn > 0 ? resetsIn : undefined;
+}
+
+// One request, with the failure turned into a typed error
+async function attemptRequest(url: string, endpoint: string): Promise<any> {
+  let response: globalThis.Response;
+
+  try {
+    response = await fetch(url, { signal: AbortSignal.timeout(SPORTSMONKS_TIMEOUT_MS) });
+  } catch (error) {
+    if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+      throw new SportsMonksTimeoutError(SPORTSMONKS_TIMEOUT_MS);
+    }
+    throw new SportsMonksUpstreamError(`Could not reach SportsMonks: ${getErrorMessage(error)}`);
+  }
+
+  let data: any = null;
+  try {
+    data = await response.json();
+  } catch {
+    // Handled below - an error page or a truncated body
+  }
+
+  if (data) {
+    recordRateLimit(endpoint, data.rate_limit);
+  }
+
+  if (response.ok && data) {
+    return data;
+  }
+
+  const message = data?.message || `API error: ${response.status}`;
+
+  if (response.status === 429) {
+    throw new SportsMonksRateLimitError(message, getRetryAfter(response, data));
+  }
+  if (response.status >= 500 || !data) {
+    throw new SportsMonksUpstreamError(message, response.status);
+  }
+  throw new SportsMonksRequestError(message, response.status);
+}
+
+// ============================================
+// PUBLIC FUNCTIONS
+// ============================================
+
+/**
+ * GET a SportsMonks URL and parse the JSON body
+ * @param {string} url - Full URL including the API token
+ * @param {string} endpoint - The path, used for logs and the rate limit budget
+ * @returns {Promise<any>} - The parsed response
+ * @throws {SportsMonksError} - Once retries are used up, or straight away
+ *                              for 4xx responses and an open circuit
+ *
+ * Example: const data = await requestJson(`${BASE_URL}/leagues?api_token=...`, '/leagues');
+ */
+async function requestJson(url: string, endpoint: string): Promise<any> {
+  for (let attempt = 0; ; attempt++) {
+    // Budget first, so time spent queued doesn't hold the circuit's trial slot
+    await acquireBudget(endpoint);
+    enterCircuit();
+
+    try {
+      const data = await attemptRequest(url, endpoint);
+      recordSuccess();
+      return data;
+
+    } catch (error) {
+      const typed = error instanceof SportsMonksError
+        ? error
+        : new SportsMonksUpstreamError(getErrorMessage(error));
+
+      // 4xx and 429 mean SportsMonks is up, even though this call failed
+      const outage = typed instanceof SportsMonksTimeoutError || typed instanceof SportsMonksUpstreamError;
+      if (outage) {
+        recordFailure();
+      } else if (typed instanceof SportsMonksRequestError || typed instanceof SportsMonksRateLimitError) {
+        recordSuccess();
+      }
+
+      if (!typed.retryable || attempt >= SPORTSMONKS_MAX_RETRIES || circuit.state === 'OPEN') {
+        throw typed;
+      }
+
+      // Exponential backoff with jitter; honour Retry-After when it's short enough
+      const backoff = SPORTSMONKS_RETRY_BASE_MS * 2 ** attempt * (0.5 + Math.random());
+      const delay = Math.min(MAX_RETRY_DELAY_MS, Math.max(backoff, (typed.retryAfter ?? 0) * 1000));
+
+      // A rate limit reset further away than we'd wait isn't worth retrying
+      if (typed.retryAfter !== undefined && typed.retryAfter * 1000 > MAX_RETRY_DELAY_MS) {
+        throw typed;
+      }
+
+      console.warn(
+        `[SportsMonks] ${endpoint} failed (${typed.message}) - ` +
+        `retry ${attempt + 1}/${SPORTSMONKS_MAX_RETRIES} in ${Math.round(delay)}ms`
+      );
+      await sleep(delay);
+    }
+  }
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+export type { CircuitState, CircuitStatus };
+
+export {
+  requestJson,
+  getCircuitStatus
+};
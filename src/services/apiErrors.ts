@@ -0,0 +1,147 @@
+// ============================================
+// SPORTSMONKS ERRORS
+// ============================================
+// Typed errors thrown by the SportsMonks client (apiClient.ts), so
+// routes can answer with the right status instead of a generic 500:
+//
+//   SportsMonksTimeoutError      504  No response within the timeout
+//   SportsMonksUpstreamError     502  5xx, network failure or invalid JSON
+//   SportsMonksSchemaError       502  Response doesn't match our models
+//   SportsMonksRequestError      502  SportsMonks rejected the request (4xx)
+//                                404  ...because the resource doesn't exist
+//   SportsMonksRateLimitError    503  Rate limit used up (Retry-After set)
+//   SportsMonksUnavailableError  503  Circuit breaker open (Retry-After set)
+//
+// Routes call sendApiError(res, error, 'Failed to ...'); anything that
+// isn't a SportsMonks error is still a 500.
+// ============================================
+
+import type { Response } from 'express';
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Unknown error';
+
+// ============================================
+// ERROR CLASSES
+// ============================================
+
+class SportsMonksError extends Error {
+  status: number;          // HTTP status our API responds with
+  code: string;            // Machine-readable reason
+  retryable: boolean;      // Worth retrying the same request
+  retryAfter?: number;     // Seconds until a retry can succeed (if known)
+  upstreamStatus?: number; // Status SportsMonks returned (if any)
+
+  constructor(message: string, status: number, code: string, retryable: boolean) {
+    super(message);
+    this.name = 'SportsMonksError';
+    this.status = status;
+    this.code = code;
+    this.retryable = retryable;
+  }
+}
+
+class SportsMonksTimeoutError extends SportsMonksError {
+  constructor(timeoutMs: number) {
+    super(`SportsMonks did not respond within ${timeoutMs}ms`, 504, 'SPORTSMONKS_TIMEOUT', true);
+    this.name = 'SportsMonksTimeoutError';
+  }
+}
+
+class SportsMonksUpstreamError extends SportsMonksError {
+  constructor(message: string, upstreamStatus?: number) {
+    super(message, 502, 'SPORTSMONKS_BAD_GATEWAY', true);
+    this.name = 'SportsMonksUpstreamError';
+    this.upstreamStatus = upstreamStatus;
+  }
+}
+
+class SportsMonksSchemaError extends SportsMonksError {
+  constructor(message: string) {
+    super(message, 502, 'SPORTSMONKS_INVALID_RESPONSE', false);
+    this.name = 'SportsMonksSchemaError';
+  }
+}
+
+class SportsMonksRequestError extends SportsMonksError {
+  constructor(message: string, upstreamStatus: number) {
+    const notFound = upstreamStatus === 404;
+    super(message, notFound ? 404 : 502, notFound ? 'SPORTSMONKS_NOT_FOUND' : 'SPORTSMONKS_REJECTED', false);
+    this.name = 'SportsMonksRequestError';
+    this.upstreamStatus = upstreamStatus;
+  }
+}
+
+class SportsMonksRateLimitError extends SportsMonksError {
+  constructor(message: string, retryAfter?: number) {
+    super(message, 503, 'SPORTSMONKS_RATE_LIMITED', true);
+    this.name = 'SportsMonksRateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+class SportsMonksUnavailableError extends SportsMonksError {
+  constructor(message: string, retryAfter?: number) {
+    super(message, 503, 'SPORTSMONKS_UNAVAILABLE', false);
+    this.name = 'SportsMonksUnavailableError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * True when SportsMonks couldn't give us an answer (down, slow or out of
+ * budget) - as opposed to answering "no" to the request itself
+ * @param {unknown} error - Anything caught from a SportsMonks call
+ * @returns {boolean}
+ */
+function isOutageError(error: unknown): error is SportsMonksError {
+  return error instanceof SportsMonksError && !(error instanceof SportsMonksRequestError);
+}
+
+/**
+ * Send the error response for a failed route
+ * @param {object} res - Express response
+ * @param {unknown} error - What the route caught
+ * @param {string} message - User-facing message (e.g., "Failed to get fixture")
+ *
+ * Example (in a route's catch block):
+ *   console.error('Get fixture error:', getErrorMessage(error));
+ *   sendApiError(res, error, 'Failed to get fixture');
+ */
+function sendApiError(res: Response, error: unknown, message: string) {
+  if (error instanceof SportsMonksError) {
+    if (error.retryAfter !== undefined) {
+      res.set('Retry-After', String(Math.max(1, Math.ceil(error.retryAfter))));
+    }
+    return res.status(error.status).json({
+      error: message,
+      code: error.code,
+      details: error.message
+    });
+  }
+
+  return res.status(500).json({
+    error: message,
+    details: getErrorMessage(error)
+  });
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+export {
+  SportsMonksError,
+  SportsMonksTimeoutError,
+  SportsMonksUpstreamError,
+  SportsMonksSchemaError,
+  SportsMonksRequestError,
+  SportsMonksRateLimitError,
+  SportsMonksUnavailableError,
+  isOutageError,
+  sendApiError
+};
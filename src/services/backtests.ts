@@ -0,0 +1,478 @@
+// ============================================
+// BACKTEST SERVICE
+// ============================================
+// Replays a betting strategy over finished fixtures to see how it
+// would have done: bet count, P&L, ROI, yield and drawdown.
+//
+// A strategy is a set of filters on the selections the value bet
+// finder prices (league, market, odds band, model edge, probability)
+// plus a stake rule. For each finished fixture in the date range:
+//   1. Prices come from our stored odds snapshots (last price before
+//      kickoff) when we have them, otherwise from the pre-match odds
+//      SportsMonks still returns for the fixture
+//   2. Every predicted outcome is priced with findFixtureValueBets
+//   3. Selections passing the filters are bet - at most one per fixture
+//      market/line (the highest EV)
+//   4. Bets are graded against the 90-minute score
+//
+// Bets are then placed in kickoff order, so percentage and Kelly stakes
+// follow the running bankroll. Runs are slow (every fixture's odds are
+// fetched), so they happen in the background and are stored for later.
+// ============================================
+
+import prisma from '../db.js';
+import { getResultsWithPredictionsAndOdds } from './sportsmonks.js';
+import { PREDICTION_MARKETS, findFixtureValueBets, type PriceableOdd, type ValueBet } from './valueBets.js';
+import { FINISHED_STATES, getFinalScore, gradeSelection, calculateProfit } from './settlement.js';
+import { getKickoffTime } from './closingLines.js';
+import type { Fixture } from '../types/sportsmonks.js';
+
+type StakeRule =
+  | { rule: 'FLAT'; amount: number }
+  | { rule: 'PERCENT'; percent: number }
+  | { rule: 'KELLY'; fraction: number; maxPercent?: number };
+
+type Strategy = {
+  leagueIds: number[];
+  marketIds: number[];        // Empty = every market the finder prices
+  minOdds?: number;           // Decimal price band
+  maxOdds?: number;
+  minEdge: number;            // Minimum EV (%)
+  maxEdge?: number;
+  minProbability?: number;    // Model probability (0-1)
+  stake: StakeRule;
+  startingBankroll: number;
+};
+
+type BacktestInput = {
+  name: string;
+  startDate: string;
+  endDate: string;
+  strategy: Strategy;
+};
+
+type CandidateBet = {
+  fixtureId: number;
+  fixtureName: string | null;
+  leagueId: number | null;
+  kickoffAt: Date;
+  marketId: number;
+  marketName: string;
+  selection: string;
+  line: number | null;
+  bookmakerId: number;
+  price: number;
+  oddsSource: string;
+  probability: number;
+  ev: number;
+  kelly: number;
+  status: 'WON' | 'LOST' | 'VOID';
+};
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Unknown error';
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+// Fixtures are fetched a week at a time - odds make every page large,
+// so short windows keep memory use down
+const WINDOW_DAYS = 7;
+
+// Longest date range a single backtest may cover
+const MAX_RANGE_DAYS = 366;
+
+// Markets the value bet finder can price (correct score is 57)
+const SUPPORTED_MARKET_IDS = [...new Set([...PREDICTION_MARKETS.map(m => m.marketId), 57])];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// "2025-01-11" (UTC) for SportsMonks date params
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+
+// Double chance selections are named "Home/Draw" by the finder and "1X" by settlement
+const DOUBLE_CHANCE_CODES: Record<string, string> = {
+  'Home/Draw': '1X',
+  'Home/Away': '12',
+  'Draw/Away': 'X2'
+};
+
+// ============================================
+// STORED ODDS
+// ============================================
+
+/**
+ * Load the last stored price before kickoff for each selection
+ * @param {object[]} fixtures - Fixtures with their kickoff time
+ * @returns {Promise<Map>} - Fixture ID -> odds in SportsMonks shape (only fixtures with snapshots)
+ *
+ * Snapshot rows are converted back to { market_id, bookmaker_id, label, total, value }
+ * so they can be priced exactly like live odds.
+ */
+async function loadStoredOdds(fixtures: { id: number; kickoff: Date }[]) {
+  const kickoffs = new Map(fixtures.map(f => [f.id, f.kickoff]));
+
+  const snapshots = await prisma.oddsSnapshot.findMany({
+    where: { fixtureId: { in: [...kickoffs.keys()] } },
+    orderBy: { capturedAt: 'asc' }
+  });
+
+  // Later snapshots overwrite earlier ones, leaving the closing price
+  const latest = new Map<number, Map<string, PriceableOdd>>();
+  for (const snapshot of snapshots) {
+    if (snapshot.capturedAt >= kickoffs.get(snapshot.fixtureId)!) continue;
+
+    if (!latest.has(snapshot.fixtureId)) {
+      latest.set(snapshot.fixtureId, new Map());
+    }
+    latest.get(snapshot.fixtureId)!.set(
+      `${snapshot.marketId}:${snapshot.bookmakerId}:${snapshot.label}:${snapshot.line ?? ''}`,
+      {
+        market_id: snapshot.marketId,
+        bookmaker_id: snapshot.bookmakerId,
+        label: snapshot.label,
+        total: snapshot.line,
+        value: snapshot.value.toFixed(2)
+      }
+    );
+  }
+
+  return new Map([...latest].map(([fixtureId, odds]) => [fixtureId, [...odds.values()]]));
+}
+
+// ============================================
+// GRADING
+// ============================================
+
+/**
+ * Grade a priced selection against the final score
+ * @param {object} bet - { marketId, selection, line } as named by the value bet finder
+ * @param {object} score - Final score { home, away }
+ * @returns {string|null} - 'WON', 'LOST', 'VOID', or null if it can't be graded
+ */
+function gradeBacktestSelection(
+  bet: { marketId: number; selection: string; line: number | null },
+  score: { home: number; away: number }
+) {
+  // Correct score isn't graded by the journal settlement
+  if (bet.marketId === 57) {
+    return bet.selection === `${score.home}-${score.away}` ? 'WON' : 'LOST';
+  }
+
+  return gradeSelection({
+    marketId: bet.marketId,
+    selection: DOUBLE_CHANCE_CODES[bet.selection] ?? bet.selection,
+    line: bet.line
+  }, score);
+}
+
+// ============================================
+// SELECT BETS FOR A FIXTURE
+// ============================================
+
+/**
+ * Find the bets a strategy would have placed on a finished fixture
+ * @param {object} fixture - Fixture with participants, state, scores, predictions and odds
+ * @param {object} strategy - The strategy filters
+ * @param {object[]|undefined} storedOdds - Our closing snapshot odds for the fixture, if any
+ * @returns {object[]} - Graded candidate bets
+ */
+function selectFixtureBets(fixture: Fixture, strategy: Strategy, storedOdds?: PriceableOdd[]): CandidateBet[] {
+  const score = getFinalScore(fixture);
+  if (!fixture.state || !FINISHED_STATES.includes(fixture.state.state) || !score) return [];
+
+  // SportsMonks marks odds as stopped once the match starts - they were
+  // the last prices on offer before kickoff, so keep them
+  const odds = storedOdds ?? (fixture.odds || []).map(odd => ({ ...odd, stopped: false }));
+  const oddsSource = storedOdds ? 'snapshot' : 'sportsmonks';
+
+  const priced = findFixtureValueBets({ ...fixture, odds }).filter(bet => {
+    const price = parseFloat(bet.best.value);
+    return bet.kickoff
+      && (strategy.leagueIds.length === 0 || strategy.leagueIds.includes(bet.leagueId))
+      && (strategy.marketIds.length === 0 || strategy.marketIds.includes(bet.marketId))
+      && (strategy.minOdds === undefined || price >= strategy.minOdds)
+      && (strategy.maxOdds === undefined || price <= strategy.maxOdds)
+      && bet.ev >= strategy.minEdge
+      && (strategy.maxEdge === undefined || bet.ev <= strategy.maxEdge)
+      && (strategy.minProbability === undefined || bet.probability >= strategy.minProbability);
+  });
+
+  // One selection per market/line - the highest EV
+  const bestByMarket = new Map<string, ValueBet>();
+  for (const bet of priced) {
+    const key = `${bet.marketId}:${bet.line ?? ''}`;
+    if (!bestByMarket.has(key) || bet.ev > bestByMarket.get(key)!.ev) {
+      bestByMarket.set(key, bet);
+    }
+  }
+
+  const bets: CandidateBet[] = [];
+  for (const bet of bestByMarket.values()) {
+    const status = gradeBacktestSelection(bet, score);
+    if (!status || !bet.kickoff) continue;
+
+    bets.push({
+      fixtureId: bet.fixtureId,
+      fixtureName: bet.fixtureName ?? null,
+      leagueId: bet.leagueId ?? null,
+      kickoffAt: bet.kickoff,
+      marketId: bet.marketId,
+      marketName: bet.marketName,
+      selection: bet.selection,
+      line: bet.line,
+      bookmakerId: bet.best.bookmakerId,
+      price: parseFloat(bet.best.value),
+      oddsSource,
+      probability: bet.probability,
+      ev: bet.ev,
+      kelly: bet.kelly,
+      status
+    });
+  }
+
+  return bets;
+}
+
+// ============================================
+// STAKING & BANKROLL
+// ============================================
+
+/**
+ * Work out the stake for a bet
+ * @param {object} rule - The strategy's stake rule
+ * @param {number} bankroll - Bankroll before the bet
+ * @param {number} kelly - Full Kelly bankroll share for the bet
+ * @returns {number} - Stake (0 = skip the bet)
+ *
+ * Percentage and Kelly stakes stop once the bankroll is gone.
+ * Kelly is 0 for selections without a positive edge.
+ */
+function calculateStake(rule: StakeRule, bankroll: number, kelly: number) {
+  if (rule.rule === 'FLAT') return rule.amount;
+  if (bankroll <= 0) return 0;
+
+  if (rule.rule === 'PERCENT') return round2(bankroll * rule.percent / 100);
+
+  const share = Math.min(kelly * rule.fraction, (rule.maxPercent ?? 100) / 100);
+  return round2(bankroll * share);
+}
+
+/**
+ * Place bets in kickoff order and track the bankroll
+ * @param {object[]} candidates - Graded bets from selectFixtureBets
+ * @param {object} strategy - For the stake rule and starting bankroll
+ * @returns {object} - { bets, summary } with each bet's stake, profit and bankroll after
+ */
+function simulateBankroll(candidates: CandidateBet[], strategy: Strategy) {
+  const ordered = [...candidates].sort((a, b) =>
+    a.kickoffAt.getTime() - b.kickoffAt.getTime() || a.fixtureId - b.fixtureId
+  );
+
+  let bankroll = strategy.startingBankroll;
+  let peak = bankroll;
+  let maxDrawdown = 0;
+  let maxDrawdownPercent: number | null = null;
+  const counts = { won: 0, lost: 0, voided: 0 };
+  let staked = 0;
+
+  const bets = [];
+  for (const candidate of ordered) {
+    const stake = calculateStake(strategy.stake, bankroll, candidate.kelly);
+    if (!(stake > 0)) continue;
+
+    const profit = calculateProfit(candidate.status, stake, candidate.price);
+    bankroll = round2(bankroll + profit);
+    staked += stake;
+
+    if (candidate.status === 'WON') counts.won++;
+    else if (candidate.status === 'LOST') counts.lost++;
+    else counts.voided++;
+
+    if (bankroll > peak) peak = bankroll;
+    const drawdown = peak - bankroll;
+    if (drawdown > maxDrawdown) {
+      maxDrawdown = drawdown;
+      maxDrawdownPercent = peak > 0 ? round2((drawdown / peak) * 100) : null;
+    }
+
+    const { kelly, ...bet } = candidate;
+    bets.push({ ...bet, stake, profit, bankroll });
+  }
+
+  return {
+    bets,
+    summary: {
+      betCount: bets.length,
+      ...counts,
+      staked: round2(staked),
+      profit: round2(bankroll - strategy.startingBankroll),
+      finalBankroll: bankroll,
+      maxDrawdown: round2(maxDrawdown),
+      maxDrawdownPercent
+    }
+  };
+}
+
+// ============================================
+// RUN A BACKTEST
+// ============================================
+
+/**
+ * Replay a stored backtest run and save its results
+ * @param {string} backtestId - The RUNNING backtest to execute
+ * @returns {Promise<void>}
+ *
+ * Marks the run FAILED (with the error) if anything goes wrong.
+ */
+async function runBacktest(backtestId: string) {
+  const run = await prisma.backtest.findUnique({ where: { id: backtestId } });
+  if (!run) return;
+
+  const strategy = run.strategy as unknown as Strategy;
+  const startedAt = Date.now();
+
+  try {
+    const candidates: CandidateBet[] = [];
+    let fixturesScanned = 0;
+
+    // Only fixtures that have already kicked off can be replayed
+    const end = new Date(Math.min(run.endDate.getTime(), Date.now()));
+    let windowStart = run.startDate;
+
+    while (windowStart <= end) {
+      const windowEnd = new Date(Math.min(end.getTime(), windowStart.getTime() + (WINDOW_DAYS - 1) * DAY_MS));
+      const result = await getResultsWithPredictionsAndOdds(
+        toDateString(windowStart),
+        toDateString(windowEnd),
+        strategy.leagueIds
+      );
+      const fixtures = result.data || [];
+
+      const kickoffs = fixtures
+        .map(fixture => ({ id: fixture.id, kickoff: getKickoffTime(fixture) }))
+        .filter((f): f is { id: number; kickoff: Date } => f.kickoff !== null);
+      const storedOdds = await loadStoredOdds(kickoffs);
+
+      for (const fixture of fixtures) {
+        if (!fixture.state || !FINISHED_STATES.includes(fixture.state.state)) continue;
+        fixturesScanned++;
+        candidates.push(...selectFixtureBets(fixture, strategy, storedOdds.get(fixture.id)));
+      }
+
+      windowStart = new Date(windowEnd.getTime() + DAY_MS);
+    }
+
+    const { bets, summary } = simulateBankroll(candidates, strategy);
+
+    await prisma.$transaction([
+      prisma.backtestBet.createMany({
+        data: bets.map(bet => ({ ...bet, backtestId }))
+      }),
+      prisma.backtest.update({
+        where: { id: backtestId },
+        data: {
+          status: 'COMPLETED',
+          fixturesScanned,
+          ...summary,
+          completedAt: new Date()
+        }
+      })
+    ]);
+
+    console.log(
+      `[Backtest] ${backtestId}: ${fixturesScanned} fixtures, ${summary.betCount} bets, ` +
+      `profit ${summary.profit} (${Date.now() - startedAt}ms)`
+    );
+  } catch (error) {
+    console.error(`[Backtest] ${backtestId} failed:`, getErrorMessage(error));
+    await prisma.backtest.update({
+      where: { id: backtestId },
+      data: { status: 'FAILED', error: getErrorMessage(error), completedAt: new Date() }
+    });
+  }
+}
+
+/**
+ * Store a new backtest and start running it in the background
+ * @param {string} userId - The user running the backtest
+ * @param {object} input - { name, startDate, endDate, strategy }
+ * @returns {Promise<object>} - The stored RUNNING backtest
+ */
+async function startBacktest(userId: string, input: BacktestInput) {
+  const backtest = await prisma.backtest.create({
+    data: {
+      userId,
+      name: input.name,
+      strategy: input.strategy,
+      startDate: new Date(`${input.startDate}T00:00:00Z`),
+      endDate: new Date(`${input.endDate}T00:00:00Z`),
+      startingBankroll: input.strategy.startingBankroll
+    }
+  });
+
+  runBacktest(backtest.id).catch(error => {
+    console.error(`[Backtest] ${backtest.id} could not be saved:`, getErrorMessage(error));
+  });
+
+  return backtest;
+}
+
+/**
+ * Mark runs left RUNNING by a restart as failed
+ * @returns {Promise<number>} - Number of runs updated
+ */
+async function failInterruptedBacktests() {
+  const result = await prisma.backtest.updateMany({
+    where: { status: 'RUNNING' },
+    data: { status: 'FAILED', error: 'Interrupted by a server restart', completedAt: new Date() }
+  });
+  return result.count;
+}
+
+// ============================================
+// SUMMARIES
+// ============================================
+
+/**
+ * Add the derived percentages to a stored run
+ * @param {object} backtest - A Backtest row
+ * @returns {object} - The run plus roi, yield and strikeRate (percentages, null when undefined)
+ *
+ *   - ROI         = profit / starting bankroll
+ *   - Yield       = profit / total staked
+ *   - Strike rate = won / (won + lost)
+ */
+function withBacktestSummary<T extends { profit: number; staked: number; startingBankroll: number; won: number; lost: number }>(
+  backtest: T
+) {
+  const percent = (numerator: number, denominator: number) =>
+    denominator > 0 ? round2((numerator / denominator) * 100) : null;
+
+  return {
+    ...backtest,
+    roi: percent(backtest.profit, backtest.startingBankroll),
+    yield: percent(backtest.profit, backtest.staked),
+    strikeRate: percent(backtest.won, backtest.won + backtest.lost)
+  };
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+export type { Strategy, StakeRule, BacktestInput };
+
+export {
+  MAX_RANGE_DAYS,
+  SUPPORTED_MARKET_IDS,
+  selectFixtureBets,
+  simulateBankroll,
+  startBacktest,
+  runBacktest,
+  failInterruptedBacktests,
+  withBacktestSummary
+};
@@ -0,0 +1,144 @@
+// ============================================
+// BEST LINES SERVICE
+// ============================================
+// Compares pre-match prices across bookmakers.
+//
+// Odds are grouped by market and selection (the same selection line
+// from every bookmaker), then for each selection we report:
+//   - Best price:      highest decimal price and which bookmaker(s) offer it
+//   - Consensus price: median decimal price across bookmakers
+//   - Edge:            how far the best price is above consensus (%)
+//
+// Suspended (stopped) odds are ignored - they can't be taken.
+// ============================================
+
+import { normalizeSelection } from './closingLines.js';
+import { toOddsValue } from './pricing.js';
+import type { NameLookups } from './referenceNames.js';
+
+type AnyRecord = Record<string, any>;
+
+type BookmakerPrice = {
+  bookmakerId: number;
+  bookmakerName: string;
+  odd: AnyRecord;
+  price: number;
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Median of a list of numbers
+ * @param {number[]} values - Must not be empty
+ * @returns {number} - The middle value (average of the two middle values for even lengths)
+ */
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+}
+
+// ============================================
+// AGGREGATE BEST LINES
+// ============================================
+
+/**
+ * Group odds by market/selection and find the best and consensus prices
+ * @param {object[]} odds - Odds from getOddsByFixture (or one market)
+ * @param {object} names - Market/bookmaker name lookups (optional)
+ * @returns {object[]} - One entry per market, each with its selections
+ *
+ * Example: aggregateBestLines(odds)
+ * Returns: [{ marketId: 1, marketName: "Fulltime Result", selections: [
+ *   { label: "1", line: null, best: { value: "2.20", american: "+120", ... },
+ *     bestBookmakers: [{ id: 2, name: "bet365" }], consensus: { ... }, edge: 4.76, ... }
+ * ] }]
+ */
+function aggregateBestLines(odds: AnyRecord[], names?: Pick<NameLookups, 'markets' | 'bookmakers'>) {
+  // market -> selection key -> prices from each bookmaker
+  const markets = new Map<number, {
+    marketName: string;
+    selections: Map<string, { label: string; line: string | null; prices: BookmakerPrice[] }>;
+  }>();
+
+  for (const odd of odds) {
+    const price = parseFloat(odd.value ?? odd.dp3);
+    const label = odd.label || odd.name;
+    if (odd.stopped || !(price > 1) || !label || !odd.market_id || !odd.bookmaker_id) continue;
+
+    if (!markets.has(odd.market_id)) {
+      markets.set(odd.market_id, {
+        marketName: names?.markets.get(odd.market_id)
+          || odd.market_description
+          || `Market ${odd.market_id}`,
+        selections: new Map()
+      });
+    }
+
+    const lineValue = odd.total ?? odd.handicap;
+    const line = lineValue === null || lineValue === undefined ? null : String(lineValue);
+    const key = `${normalizeSelection(label)}:${line ?? ''}`;
+    const selections = markets.get(odd.market_id)!.selections;
+
+    if (!selections.has(key)) {
+      selections.set(key, { label: String(label), line, prices: [] });
+    }
+
+    selections.get(key)!.prices.push({
+      bookmakerId: odd.bookmaker_id,
+      bookmakerName: names?.bookmakers.get(odd.bookmaker_id)
+        || odd.bookmaker?.name
+        || `Bookmaker ${odd.bookmaker_id}`,
+      odd,
+      price
+    });
+  }
+
+  return [...markets.entries()].map(([marketId, market]) => ({
+    marketId,
+    marketName: market.marketName,
+    selections: [...market.selections.values()].map(selection => {
+      const bestPrice = Math.max(...selection.prices.map(p => p.price));
+      const bestOffers = selection.prices.filter(p => p.price === bestPrice);
+      const consensusPrice = round2(median(selection.prices.map(p => p.price)));
+
+      return {
+        label: selection.label,
+        line: selection.line,
+        bookmakerCount: new Set(selection.prices.map(p => p.bookmakerId)).size,
+
+        // Use the bookmaker's own odd so its american/fractional strings are kept
+        best: {
+          value: bestOffers[0].odd.value ?? bestPrice.toFixed(2),
+          american: bestOffers[0].odd.american ?? toOddsValue(bestPrice).american,
+          fractional: bestOffers[0].odd.fractional ?? toOddsValue(bestPrice).fractional
+        },
+        bestBookmakers: bestOffers.map(p => ({ id: p.bookmakerId, name: p.bookmakerName })),
+        consensus: toOddsValue(consensusPrice),
+
+        // How much better the best price is than consensus (%)
+        edge: round2((bestPrice / consensusPrice - 1) * 100),
+
+        // Every bookmaker's price, best first
+        prices: selection.prices
+          .sort((a, b) => b.price - a.price)
+          .map(p => ({ bookmakerId: p.bookmakerId, bookmakerName: p.bookmakerName, price: p.price }))
+      };
+    })
+  }));
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+export {
+  median,
+  aggregateBestLines
+};
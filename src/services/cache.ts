@@ -1,16 +1,40 @@
 // ============================================
 // CACHE SERVICE
 // ============================================
-// Simple in-memory caching using node-cache.
-// Used to reduce API calls to SportsMonks for data
-// that doesn't change frequently (like corner averages).
+// Key/value caching with a TTL, used to reduce API calls to SportsMonks
+// for data that doesn't change frequently (like corner averages).
+//
+// Storage is pluggable (see cacheBackends.ts), chosen by CACHE_BACKEND:
+//   - memory   (default) in-process node-cache
+//   - redis    shared Redis at REDIS_URL
+//   - postgres cache_entries table
+// If Redis is selected but can't be reached at startup, the Postgres
+// backend is used instead. All operations are async.
+//
+// A backend error never fails a request: reads count as a miss and
+// writes are skipped.
 //
 // Cache Keys:
 //   - corners:{teamId}:{seasonId}  → Team corner averages (12h TTL)
+//   - stats:{teamId}:{seasonId}    → Team per-fixture statistics for stat averages (12h TTL)
 //   - season:{seasonId}            → Season dates (24h TTL)
+//   - reference:{name}             → Leagues/markets/bookmakers lists (24h TTL)
+//   - value:{start}:{end}:{leagues} → Fixtures with predictions + odds for the value finder (10m TTL)
+//   - results:{seasonId}:{date}    → Finished season results for the goals model (1h TTL)
+//   - teamstats:{seasonId}         → A season's fixtures with statistics for league team tables (1h TTL)
+//   - sm:{api}:{endpoint}|{includes} → Raw SportsMonks responses (per-endpoint TTL, see apiCache.ts)
 // ============================================
 
-import NodeCache from 'node-cache';
+import { Redis } from 'ioredis';
+import {
+  createMemoryBackend,
+  createRedisBackend,
+  createPostgresBackend,
+  type CacheBackend
+} from './cacheBackends.js';
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Unknown error';
 
 // ============================================
 // CONFIGURATION
@@ -19,19 +43,21 @@ import NodeCache from 'node-cache';
 // Default TTL values (in seconds)
 const TTL = {
   CORNERS: 12 * 60 * 60,    // 12 hours for corner averages
+  STAT_AVERAGES: 12 * 60 * 60, // 12 hours for team statistic averages
   SEASON: 24 * 60 * 60,     // 24 hours for season dates (rarely change)
+  REFERENCE: 24 * 60 * 60,  // 24 hours for leagues/markets/bookmakers lists
+  VALUE: 10 * 60,           // 10 minutes for value finder scans (odds move)
+  RESULTS: 60 * 60,         // 1 hour for season results (new results on matchdays)
+  TEAM_STATS: 60 * 60,      // 1 hour for league team stats tables (same reason)
   DEFAULT: 6 * 60 * 60      // 6 hours fallback
 };
 
-// Create cache instance
-// - stdTTL: default time-to-live in seconds
-// - checkperiod: how often to check for expired keys (in seconds)
-// - useClones: false for better performance (we won't mutate cached objects)
-const cache = new NodeCache({
-  stdTTL: TTL.DEFAULT,
-  checkperiod: 600,  // Check every 10 minutes
-  useClones: false
-});
+// Backend selection (see header)
+const CACHE_BACKEND = (process.env.CACHE_BACKEND || 'memory').toLowerCase();
+const REDIS_URL = process.env.REDIS_URL;
+
+// How long to wait for Redis at startup before falling back to Postgres (ms)
+const REDIS_CONNECT_TIMEOUT = 5000;
 
 // ============================================
 // CACHE KEY BUILDERS
@@ -42,11 +68,114 @@ const keys = {
   // Key for team corner averages by season
   corners: (teamId: string | number, seasonId: string | number) =>
     `corners:${teamId}:${seasonId}`,
+
+  // Key for a team's per-fixture statistics by season (stat averages)
+  statAverages: (teamId: string | number, seasonId: string | number) =>
+    `stats:${teamId}:${seasonId}`,
   
   // Key for season data (dates, name, etc.)
-  season: (seasonId: string | number) => `season:${seasonId}`
+  season: (seasonId: string | number) => `season:${seasonId}`,
+
+  // Key for reference lists (e.g., "leagues", "markets", "bookmakers")
+  reference: (name: string) => `reference:${name}`,
+
+  // Key for value finder scans (leagues: sorted, comma-separated IDs or "all")
+  value: (startDate: string, endDate: string, leagues: string) =>
+    `value:${startDate}:${endDate}:${leagues}`,
+
+  // Key for a season's finished results up to a date (goals model input)
+  results: (seasonId: string | number, date: string) => `results:${seasonId}:${date}`,
+
+  // Key for a season's finished fixtures with statistics (league team stats)
+  teamStats: (seasonId: string | number) => `teamstats:${seasonId}`,
+
+  // Key for a raw SportsMonks response (api: "football", "odds", "football:all" for paginated)
+  sportsmonks: (api: string, endpoint: string, includes: string) =>
+    `sm:${api}:${endpoint}|${includes}`
 };
 
+// ============================================
+// BACKEND SELECTION
+// ============================================
+
+let redisClient: Redis | null = null;
+
+/**
+ * Create the backend named by CACHE_BACKEND
+ * @returns {object} - The CacheBackend to use until initCache() runs
+ */
+function createBackendFromEnv(): CacheBackend {
+  if (CACHE_BACKEND === 'redis') {
+    if (!REDIS_URL) {
+      console.warn('[Cache] CACHE_BACKEND=redis but REDIS_URL is not set - using Postgres');
+      return createPostgresBackend();
+    }
+
+    // lazyConnect: initCache() connects (and falls back if it can't)
+    redisClient = new Redis(REDIS_URL, { lazyConnect: true, maxRetriesPerRequest: 1 });
+    redisClient.on('error', (error) => {
+      console.error('[Cache] Redis error:', getErrorMessage(error));
+    });
+    return createRedisBackend(redisClient);
+  }
+
+  if (CACHE_BACKEND === 'postgres') {
+    return createPostgresBackend();
+  }
+
+  if (CACHE_BACKEND !== 'memory') {
+    console.warn(`[Cache] Unknown CACHE_BACKEND "${CACHE_BACKEND}" - using memory`);
+  }
+  return createMemoryBackend();
+}
+
+let backend = createBackendFromEnv();
+
+// Hit/miss counters for stats() (since startup or the last useBackend)
+let hits = 0;
+let misses = 0;
+
+/**
+ * Connect the selected backend (call once at startup)
+ * @returns {Promise<string>} - Name of the backend in use
+ *
+ * Redis that can't be reached within REDIS_CONNECT_TIMEOUT is
+ * swapped for the Postgres backend.
+ */
+async function initCache(): Promise<string> {
+  if (backend.name === 'redis' && redisClient) {
+    const client = redisClient;
+    try {
+      await Promise.race([
+        client.connect(),
+        new Promise((_, reject) =>
+          setTimeout(() => reject(new Error('Connection timed out')), REDIS_CONNECT_TIMEOUT)
+        )
+      ]);
+    } catch (error) {
+      console.warn(`[Cache] Redis unavailable (${getErrorMessage(error)}) - using Postgres`);
+      client.disconnect();
+      redisClient = null;
+      backend = createPostgresBackend();
+    }
+  }
+
+  console.log(`[Cache] Using ${backend.name} backend`);
+  return backend.name;
+}
+
+/**
+ * Replace the backend (e.g. with a Redis stand-in in tests)
+ * @param {object} next - The CacheBackend to use
+ * @returns {Promise<void>}
+ */
+async function useBackend(next: CacheBackend) {
+  await backend.close();
+  backend = next;
+  hits = 0;
+  misses = 0;
+}
+
 // ============================================
 // CACHE OPERATIONS
 // ============================================
@@ -54,13 +183,21 @@ const keys = {
 /**
  * Get a value from cache
  * @param {string} key - The cache key
- * @returns {any|undefined} - Cached value or undefined if not found/expired
+ * @returns {Promise<any|undefined>} - Cached value or undefined if not found/expired
  */
-function get<T = unknown>(key: string): T | undefined {
-  const value = cache.get(key);
+async function get<T = unknown>(key: string): Promise<T | undefined> {
+  let value: T | undefined;
+  try {
+    value = await backend.get(key) as T | undefined;
+  } catch (error) {
+    console.error(`[Cache] GET failed for ${key}:`, getErrorMessage(error));
+  }
+
   if (value !== undefined) {
+    hits++;
     console.log(`[Cache] HIT: ${key}`);
   } else {
+    misses++;
     console.log(`[Cache] MISS: ${key}`);
   }
   return value;
@@ -71,62 +208,74 @@ function get<T = unknown>(key: string): T | undefined {
  * @param {string} key - The cache key
  * @param {any} value - The value to cache
  * @param {number} ttl - Time-to-live in seconds (optional, uses default if not provided)
- * @returns {boolean} - True if successful
+ * @returns {Promise<boolean>} - True if successful
  */
-function set(key: string, value: unknown, ttl?: number): boolean {
-  const success = cache.set(key, value, ttl);
-  if (success) {
-    console.log(`[Cache] SET: ${key} (TTL: ${ttl || TTL.DEFAULT}s)`);
+async function set(key: string, value: unknown, ttl: number = TTL.DEFAULT): Promise<boolean> {
+  try {
+    const success = await backend.set(key, value, ttl);
+    if (success) {
+      console.log(`[Cache] SET: ${key} (TTL: ${ttl}s)`);
+    }
+    return success;
+  } catch (error) {
+    console.error(`[Cache] SET failed for ${key}:`, getErrorMessage(error));
+    return false;
   }
-  return success;
 }
 
 /**
  * Delete a specific key from cache
  * @param {string} key - The cache key to delete
- * @returns {number} - Number of deleted entries
+ * @returns {Promise<number>} - Number of deleted entries
  */
-function del(key: string): number {
-  const count = cache.del(key);
-  console.log(`[Cache] DEL: ${key} (deleted: ${count})`);
-  return count;
+async function del(key: string): Promise<number> {
+  try {
+    const count = await backend.del(key);
+    console.log(`[Cache] DEL: ${key} (deleted: ${count})`);
+    return count;
+  } catch (error) {
+    console.error(`[Cache] DEL failed for ${key}:`, getErrorMessage(error));
+    return 0;
+  }
 }
 
 /**
  * Clear all cached data
  * Use with caution - clears everything!
  */
-function flush() {
-  cache.flushAll();
+async function flush() {
+  await backend.flush();
   console.log('[Cache] FLUSH: All cache cleared');
 }
 
 /**
  * Get cache statistics
- * @returns {object} - Stats including hits, misses, keys count
+ * @returns {Promise<object>} - { backend, hits, misses, keys }
  */
-function stats() {
-  return cache.getStats();
+async function stats() {
+  return {
+    backend: backend.name,
+    hits,
+    misses,
+    keys: (await backend.listKeys()).length
+  };
 }
 
 /**
  * List all current cache keys
- * @returns {string[]} - Array of all keys currently in cache
+ * @returns {Promise<string[]>} - Array of all keys currently in cache
  */
-function listKeys(): string[] {
-  return cache.keys();
+async function listKeys(): Promise<string[]> {
+  return backend.listKeys();
 }
 
 /**
  * Get remaining TTL for a key
  * @param {string} key - The cache key
- * @returns {number} - Remaining TTL in seconds, or -1 if not found
+ * @returns {Promise<number>} - Remaining TTL in seconds, 0 if it never expires, or -1 if not found
  */
-function getTtl(key: string): number {
-  const ttl = cache.getTtl(key);
-  if (ttl === undefined) return -1;
-  // getTtl returns timestamp, convert to remaining seconds
-  return Math.round((ttl - Date.now()) / 1000);
+async function getTtl(key: string): Promise<number> {
+  return backend.getTtl(key);
 }
 
 // ============================================
@@ -154,7 +303,7 @@ async function getOrFetch<T>(
   ttl = TTL.DEFAULT
 ): Promise<T> {
   // Try cache first
-  const cached = get(key);
+  const cached = await get<T>(key);
   if (cached !== undefined) {
     return cached;
   }
@@ -163,7 +312,7 @@ async function getOrFetch<T>(
   const freshData = await fetchFn();
   
   // Cache the result
-  set(key, freshData, ttl);
+  await set(key, freshData, ttl);
   
   return freshData;
 }
@@ -191,7 +340,11 @@ export {
   getTtl,
   
   // Helper patterns
-  getOrFetch
+  getOrFetch,
+
+  // Backend setup
+  initCache,
+  useBackend
 };
 
 // Default export for convenience
@@ -205,5 +358,7 @@ export default {
   stats,
   listKeys,
   getTtl,
-  getOrFetch
+  getOrFetch,
+  initCache,
+  useBackend
 };
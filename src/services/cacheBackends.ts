@@ -0,0 +1,214 @@
+// ============================================
+// CACHE BACKENDS
+// ============================================
+// Storage implementations behind the cache service (cache.ts).
+// Each backend stores JSON-friendly values with a TTL in seconds:
+//
+//   - memory:   node-cache in this process (default). Fast, but empty
+//               after every restart and not shared between instances.
+//   - redis:    Shared between instances and survives deploys.
+//               Keys are namespaced with "betsmoke:cache:".
+//   - postgres: The cache_entries table. Slower than Redis, but needs
+//               nothing beyond the database we already run - used when
+//               Redis is selected but unreachable.
+//
+// Redis and Postgres return copies of what was stored (JSON round trip),
+// so Dates come back as ISO strings.
+// ============================================
+
+import NodeCache from 'node-cache';
+import prisma from '../db.js';
+
+type CacheBackendName = 'memory' | 'redis' | 'postgres';
+
+type CacheBackend = {
+  name: CacheBackendName;
+  get: (key: string) => Promise<unknown>;
+  set: (key: string, value: unknown, ttl: number) => Promise<boolean>;
+  del: (key: string) => Promise<number>;
+  flush: () => Promise<void>;
+  listKeys: () => Promise<string[]>;
+  getTtl: (key: string) => Promise<number>;
+  close: () => Promise<void>;
+};
+
+// The subset of the ioredis client we use - an in-memory stand-in
+// (e.g. ioredis-mock) with the same methods works too
+type RedisClient = {
+  get: (key: string) => Promise<string | null>;
+  set: (key: string, value: string, secondsToken: 'EX', seconds: number) => Promise<unknown>;
+  del: (...keys: string[]) => Promise<number>;
+  ttl: (key: string) => Promise<number>;
+  scan: (cursor: string, patternToken: 'MATCH', pattern: string, countToken: 'COUNT', count: number) =>
+    Promise<[string, string[]]>;
+  quit: () => Promise<unknown>;
+};
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+// Namespace for our keys, so flush never touches anything else in Redis
+const REDIS_PREFIX = 'betsmoke:cache:';
+
+// How often expired entries are removed (seconds)
+const CHECK_PERIOD = 600;
+
+// ============================================
+// MEMORY BACKEND
+// ============================================
+
+/**
+ * In-process cache (node-cache)
+ * @returns {object} - A CacheBackend
+ *
+ * useClones is off for speed - callers must not mutate cached objects.
+ */
+function createMemoryBackend(): CacheBackend {
+  const store = new NodeCache({
+    stdTTL: 0,
+    checkperiod: CHECK_PERIOD,
+    useClones: false
+  });
+
+  return {
+    name: 'memory',
+    get: async (key) => store.get(key),
+    set: async (key, value, ttl) => store.set(key, value, ttl),
+    del: async (key) => store.del(key),
+    flush: async () => store.flushAll(),
+    listKeys: async () => store.keys(),
+    getTtl: async (key) => {
+      // getTtl returns the expiry timestamp (ms), 0 for no expiry, undefined if missing
+      const expiresAt = store.getTtl(key);
+      if (expiresAt === undefined) return -1;
+      return expiresAt === 0 ? 0 : Math.round((expiresAt - Date.now()) / 1000);
+    },
+    close: async () => store.close()
+  };
+}
+
+// ============================================
+// REDIS BACKEND
+// ============================================
+
+/**
+ * Redis-backed cache
+ * @param {object} client - An ioredis client (or compatible stand-in)
+ * @returns {object} - A CacheBackend
+ *
+ * Example: createRedisBackend(new Redis(process.env.REDIS_URL))
+ */
+function createRedisBackend(client: RedisClient): CacheBackend {
+  // SCAN instead of KEYS so large keyspaces don't block Redis
+  const scanKeys = async () => {
+    const found: string[] = [];
+    let cursor = '0';
+    do {
+      const [next, batch] = await client.scan(cursor, 'MATCH', `${REDIS_PREFIX}*`, 'COUNT', 500);
+      found.push(...batch);
+      cursor = next;
+    } while (cursor !== '0');
+    return found;
+  };
+
+  return {
+    name: 'redis',
+    get: async (key) => {
+      const raw = await client.get(REDIS_PREFIX + key);
+      return raw === null ? undefined : JSON.parse(raw);
+    },
+    set: async (key, value, ttl) => {
+      await client.set(REDIS_PREFIX + key, JSON.stringify(value), 'EX', ttl);
+      return true;
+    },
+    del: async (key) => client.del(REDIS_PREFIX + key),
+    flush: async () => {
+      const found = await scanKeys();
+      if (found.length > 0) await client.del(...found);
+    },
+    listKeys: async () => (await scanKeys()).map(key => key.slice(REDIS_PREFIX.length)),
+    getTtl: async (key) => {
+      // TTL returns -2 for a missing key and -1 for no expiry
+      const ttl = await client.ttl(REDIS_PREFIX + key);
+      if (ttl === -2) return -1;
+      return ttl === -1 ? 0 : ttl;
+    },
+    close: async () => {
+      await client.quit();
+    }
+  };
+}
+
+// ============================================
+// POSTGRES BACKEND
+// ============================================
+
+/**
+ * Postgres-backed cache (cache_entries table)
+ * @returns {object} - A CacheBackend
+ *
+ * Values are stored as { v: value } so null and plain numbers/strings
+ * round-trip like objects do. Expired rows are ignored on read and
+ * purged every CHECK_PERIOD seconds.
+ */
+function createPostgresBackend(): CacheBackend {
+  const notExpired = () => ({
+    OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }]
+  });
+
+  const purgeTimer = setInterval(() => {
+    prisma.cacheEntry.deleteMany({ where: { expiresAt: { lte: new Date() } } }).catch((error) => {
+      console.error('[Cache] Postgres purge failed:', error instanceof Error ? error.message : error);
+    });
+  }, CHECK_PERIOD * 1000);
+
+  // Don't keep the process alive just for the purge
+  purgeTimer.unref();
+
+  return {
+    name: 'postgres',
+    get: async (key) => {
+      const entry = await prisma.cacheEntry.findFirst({ where: { key, ...notExpired() } });
+      return entry ? (entry.value as { v: unknown }).v : undefined;
+    },
+    set: async (key, value, ttl) => {
+      const data = {
+        value: { v: value } as object,
+        expiresAt: ttl > 0 ? new Date(Date.now() + ttl * 1000) : null
+      };
+      await prisma.cacheEntry.upsert({
+        where: { key },
+        create: { key, ...data },
+        update: data
+      });
+      return true;
+    },
+    del: async (key) => (await prisma.cacheEntry.deleteMany({ where: { key } })).count,
+    flush: async () => {
+      await prisma.cacheEntry.deleteMany();
+    },
+    listKeys: async () => {
+      const entries = await prisma.cacheEntry.findMany({ where: notExpired(), select: { key: true } });
+      return entries.map(entry => entry.key);
+    },
+    getTtl: async (key) => {
+      const entry = await prisma.cacheEntry.findFirst({ where: { key, ...notExpired() } });
+      if (!entry) return -1;
+      return entry.expiresAt ? Math.round((entry.expiresAt.getTime() - Date.now()) / 1000) : 0;
+    },
+    close: async () => clearInterval(purgeTimer)
+  };
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+export type { CacheBackend, CacheBackendName, RedisClient };
+
+export {
+  createMemoryBackend,
+  createRedisBackend,
+  createPostgresBackend
+};
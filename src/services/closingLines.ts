@@ -0,0 +1,253 @@
+// ============================================
+// CLOSING LINE SERVICE
+// ============================================
+// Captures closing prices for bets in the bet journal so we can
+// report closing line value (CLV) - how the price taken compares
+// with the price the same bookmaker offered just before kickoff.
+//
+// Each scheduled run looks at pending bets whose fixture kicks off
+// within the capture window and re-reads the current pre-match odds
+// for that fixture/market. Every run overwrites the previous capture,
+// so the stored closing price is the last one seen before kickoff.
+//
+// CLV is expressed as a percentage:
+//   clv = (price taken / closing price - 1) * 100
+// Positive CLV means the bet beat the close.
+// ============================================
+
+import prisma from '../db.js';
+import { getFixtureById, getOddsByFixtureAndMarket } from './sportsmonks.js';
+import type { Fixture, Odd } from '../types/sportsmonks.js';
+
+type ClosingLineBet = {
+  selection: string;
+  line?: number | null;
+  bookmakerId: number;
+};
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Unknown error';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+// Selection aliases for the Fulltime Result market
+// (users may record "Home" while SportsMonks labels it "1", or vice versa)
+const SELECTION_ALIASES: Record<string, string> = {
+  home: '1',
+  draw: 'x',
+  away: '2'
+};
+
+// ============================================
+// HELPERS
+// ============================================
+
+// Compare selections case/whitespace-insensitively, with 1X2 aliases ("Home" -> "1")
+const normalizeSelection = (value: unknown) => {
+  const text = String(value ?? '').trim().toLowerCase().replace(/\s+/g, ' ');
+  return SELECTION_ALIASES[text] ?? text;
+};
+
+/**
+ * Get a fixture's kickoff time
+ * @param {object} fixture - SportsMonks fixture
+ * @returns {Date|null} - Kickoff time, or null if the fixture has no start time
+ *
+ * Prefers starting_at_timestamp (unix seconds); falls back to
+ * starting_at, which SportsMonks returns in UTC ("2025-01-11 15:00:00").
+ */
+function getKickoffTime(fixture: Partial<Pick<Fixture, 'starting_at' | 'starting_at_timestamp'>> | null | undefined): Date | null {
+  if (typeof fixture?.starting_at_timestamp === 'number') {
+    return new Date(fixture.starting_at_timestamp * 1000);
+  }
+  if (typeof fixture?.starting_at === 'string') {
+    const kickoff = new Date(fixture.starting_at.replace(' ', 'T') + 'Z');
+    return Number.isNaN(kickoff.getTime()) ? null : kickoff;
+  }
+  return null;
+}
+
+/**
+ * Find the odd matching a bet's selection at the bet's bookmaker
+ * @param {object[]} odds - Odds for one fixture/market (from getOddsByFixtureAndMarket)
+ * @param {object} bet - { selection, line?, bookmakerId }
+ * @returns {object|null} - The matching odd, or null if the bookmaker no longer lists it
+ *
+ * Selections are matched against the odd's label/name, with or without
+ * the total appended ("Over" + total 2.5 matches "Over 2.5").
+ */
+function findMatchingOdd(odds: Odd[], bet: ClosingLineBet): Odd | null {
+  const selection = normalizeSelection(bet.selection);
+
+  for (const odd of odds) {
+    if (odd.bookmaker_id !== bet.bookmakerId) continue;
+
+    // Line markets: the total/handicap has to match too
+    const oddLine = odd.total ?? odd.handicap;
+    if (bet.line !== null && bet.line !== undefined && oddLine !== null && oddLine !== undefined) {
+      if (parseFloat(oddLine) !== bet.line) continue;
+    }
+
+    const labels = [odd.label, odd.name, odd.original_label].filter(Boolean);
+    const candidates = labels.flatMap(label =>
+      oddLine !== null && oddLine !== undefined ? [label, `${label} ${oddLine}`] : [label]
+    );
+
+    if (candidates.some(candidate => normalizeSelection(candidate) === selection)) {
+      return odd;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Calculate closing line value
+ * @param {number} price - Decimal price taken
+ * @param {number|null} closingPrice - Decimal closing price
+ * @returns {number|null} - CLV as a percentage, or null if no closing price
+ *
+ * Example: calculateClv(2.10, 1.95)
+ * Returns: 7.69
+ */
+function calculateClv(price: number, closingPrice: number | null | undefined): number | null {
+  if (!closingPrice || closingPrice <= 1) return null;
+  return Math.round((price / closingPrice - 1) * 10000) / 100;
+}
+
+/**
+ * Add the computed CLV to a bet for API responses
+ * @param {object} bet - Bet from the database
+ * @returns {object} - The bet with a `clv` field
+ */
+function withClv<T extends { price: number; closingPrice: number | null }>(bet: T) {
+  return { ...bet, clv: calculateClv(bet.price, bet.closingPrice) };
+}
+
+// ============================================
+// BACKFILL KICKOFF TIMES
+// ============================================
+// Kickoff is normally stored when the bet is recorded. If that lookup
+// failed, fetch it here so the bet can still get a closing price.
+
+async function backfillKickoffTimes() {
+  const bets = await prisma.bet.findMany({
+    where: { status: 'PENDING', kickoffAt: null, closingPrice: null },
+    select: { id: true, fixtureId: true }
+  });
+
+  const fixtureIds = [...new Set(bets.map(bet => bet.fixtureId))];
+
+  for (const fixtureId of fixtureIds) {
+    try {
+      const result = await getFixtureById(fixtureId);
+      const kickoffAt = getKickoffTime(result.data);
+      if (!kickoffAt) continue;
+
+      await prisma.bet.updateMany({
+        where: { fixtureId, kickoffAt: null },
+        data: { kickoffAt }
+      });
+    } catch (error) {
+      console.error(`[ClosingLines] Failed to look up kickoff for fixture ${fixtureId}:`, getErrorMessage(error));
+    }
+  }
+}
+
+// ============================================
+// CAPTURE CLOSING LINES
+// ============================================
+
+/**
+ * Capture closing prices for bets on fixtures that kick off soon
+ * @param {object} options
+ * @param {number} options.windowMinutes - Capture bets kicking off within this many minutes (default 15)
+ * @returns {Promise<object>} - Counts of bets in the window and prices captured
+ *
+ * Odds are fetched once per fixture/market, no matter how many bets
+ * reference it. A failure on one market is logged and does not stop the others.
+ */
+async function captureClosingLines(options: { windowMinutes?: number } = {}) {
+  const windowMinutes = options.windowMinutes ?? 15;
+
+  await backfillKickoffTimes();
+
+  const now = new Date();
+  const windowEnd = new Date(now.getTime() + windowMinutes * 60 * 1000);
+
+  const bets = await prisma.bet.findMany({
+    where: {
+      status: 'PENDING',
+      kickoffAt: { gt: now, lte: windowEnd }
+    }
+  });
+
+  // Group bets by fixture + market so each market is only fetched once
+  const betsByMarket = new Map<string, typeof bets>();
+  for (const bet of bets) {
+    const key = `${bet.fixtureId}:${bet.marketId}`;
+    if (!betsByMarket.has(key)) {
+      betsByMarket.set(key, []);
+    }
+    betsByMarket.get(key)!.push(bet);
+  }
+
+  let captured = 0;
+  let unmatched = 0;
+
+  for (const [key, marketBets] of betsByMarket) {
+    const { fixtureId, marketId } = marketBets[0];
+
+    try {
+      const result = await getOddsByFixtureAndMarket(fixtureId, marketId);
+      const odds = result.data || [];
+
+      for (const bet of marketBets) {
+        const odd = findMatchingOdd(odds, bet);
+        const closingPrice = odd ? parseFloat(odd.value ?? odd.dp3) : NaN;
+
+        if (!(closingPrice > 1)) {
+          unmatched++;
+          continue;
+        }
+
+        await prisma.bet.update({
+          where: { id: bet.id },
+          data: { closingPrice, closingPriceAt: new Date() }
+        });
+        captured++;
+      }
+    } catch (error) {
+      console.error(`[ClosingLines] Failed to capture odds for ${key}:`, getErrorMessage(error));
+    }
+  }
+
+  if (bets.length > 0) {
+    console.log(
+      `[ClosingLines] ${bets.length} bets kicking off within ${windowMinutes} minutes: ` +
+      `${captured} closing prices captured, ${unmatched} not found`
+    );
+  }
+
+  return {
+    betsInWindow: bets.length,
+    marketsChecked: betsByMarket.size,
+    captured,
+    unmatched
+  };
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+export {
+  normalizeSelection,
+  getKickoffTime,
+  findMatchingOdd,
+  calculateClv,
+  withClv,
+  captureClosingLines
+};
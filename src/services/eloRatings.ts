@@ -0,0 +1,467 @@
+// ============================================
+// ELO RATINGS SERVICE
+// ============================================
+// Team ratings built from finished results in the rated leagues.
+//
+// Each result moves both teams' ratings:
+//   change = K * G * (result - expected)
+//   - result:   1 win, 0.5 draw, 0 loss
+//   - expected: 1 / (1 + 10 ^ ((opponent - team - home) / 400)),
+//               where home is +HOME_ADVANTAGE for the home side
+//   - G:        goal-difference multiplier (World Football Elo):
+//               1 for 0-1 goals, 1.5 for 2, (11 + diff) / 8 for 3+
+//
+// Ratings are shared across competitions, so results from every rated
+// league are applied in kickoff order. New results are applied on top
+// of the stored ratings; if a new result is older than the latest one
+// already applied (e.g., a league was just added), everything is
+// rebuilt from scratch so the history stays in order.
+// ============================================
+
+import prisma from '../db.js';
+import { getSeasonsByLeague } from './sportsmonks.js';
+import { loadSeasonResults, type MatchResult } from './seasonResults.js';
+import type { Season } from '../types/sportsmonks.js';
+
+type RatedTeam = {
+  teamId: number;
+  teamName: string;
+  rating: number;
+  matches: number;
+  leagueId: number;
+  lastPlayedAt: Date;
+};
+
+type HistoryRow = {
+  teamId: number;
+  fixtureId: number;
+  leagueId: number;
+  seasonId: number;
+  opponentId: number;
+  isHome: boolean;
+  goalsFor: number;
+  goalsAgainst: number;
+  expected: number;
+  ratingBefore: number;
+  ratingAfter: number;
+  playedAt: Date;
+};
+
+type UpdateOptions = {
+  leagueIds: number[];
+  seasonsBack?: number;
+  rebuild?: boolean;
+};
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Unknown error';
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const round4 = (value: number) => Math.round(value * 10000) / 10000;
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+// Every team starts here the first time it's seen
+const INITIAL_RATING = 1500;
+
+// Maximum rating change per match (before the goal-difference multiplier)
+const K_FACTOR = 20;
+
+// Rating points added to the home side when computing expectations
+const HOME_ADVANTAGE = 65;
+
+// Draw probability between two equally expected sides; shrinks as the
+// expectancy gap grows (used for the 3-way split of the expectancy)
+const BASE_DRAW_PROBABILITY = 0.28;
+
+// ============================================
+// ELO MATH
+// ============================================
+
+/**
+ * Win expectancy for the home side
+ * @param {number} homeRating - Home team rating
+ * @param {number} awayRating - Away team rating
+ * @returns {number} - Expected score (0-1), counting a draw as half a win
+ */
+function expectedScore(homeRating: number, awayRating: number): number {
+  return 1 / (1 + Math.pow(10, (awayRating - homeRating - HOME_ADVANTAGE) / 400));
+}
+
+// Goal-difference multiplier: bigger wins move ratings more
+function goalDifferenceMultiplier(goalDifference: number): number {
+  const diff = Math.abs(goalDifference);
+  if (diff <= 1) return 1;
+  if (diff === 2) return 1.5;
+  return (11 + diff) / 8;
+}
+
+/**
+ * Rating-implied home/draw/away probabilities
+ * @param {number} homeRating - Home team rating
+ * @param {number} awayRating - Away team rating
+ * @returns {object} - { expected, home, draw, away } (0-1)
+ *
+ * Elo only gives an expected score (win + half a draw). The draw
+ * probability is estimated from how close the sides are, and the
+ * rest of the expectancy is split into wins:
+ *   draw = 0.28 * (1 - |2 * expected - 1|)
+ *   home = expected - draw / 2
+ *
+ * Example: winProbabilities(1600, 1500)
+ * Returns: { expected: 0.7211, home: 0.643, draw: 0.1562, away: 0.2008 }
+ */
+function winProbabilities(homeRating: number, awayRating: number) {
+  const expected = expectedScore(homeRating, awayRating);
+  const draw = BASE_DRAW_PROBABILITY * (1 - Math.abs(2 * expected - 1));
+
+  return {
+    expected: round4(expected),
+    home: round4(expected - draw / 2),
+    draw: round4(draw),
+    away: round4(1 - expected - draw / 2)
+  };
+}
+
+// ============================================
+// APPLY RESULTS
+// ============================================
+
+/**
+ * Apply results to a set of ratings, in order
+ * @param {object[]} matches - Results, oldest first
+ * @param {Map} teams - Current ratings by team ID (updated in place)
+ * @returns {object[]} - History rows (two per match)
+ */
+function applyResults(matches: MatchResult[], teams: Map<number, RatedTeam>) {
+  const history: HistoryRow[] = [];
+
+  const getTeam = (teamId: number, teamName: string, match: MatchResult) => {
+    if (!teams.has(teamId)) {
+      teams.set(teamId, {
+        teamId,
+        teamName,
+        rating: INITIAL_RATING,
+        matches: 0,
+        leagueId: match.leagueId,
+        lastPlayedAt: new Date(match.playedAt)
+      });
+    }
+    return teams.get(teamId)!;
+  };
+
+  for (const match of matches) {
+    const home = getTeam(match.homeTeamId, match.homeTeamName, match);
+    const away = getTeam(match.awayTeamId, match.awayTeamName, match);
+
+    const expected = expectedScore(home.rating, away.rating);
+    const result = match.homeGoals > match.awayGoals ? 1 : match.homeGoals === match.awayGoals ? 0.5 : 0;
+    const change = K_FACTOR * goalDifferenceMultiplier(match.homeGoals - match.awayGoals) * (result - expected);
+    const playedAt = new Date(match.playedAt);
+
+    const sides = [
+      { team: home, opponent: away, isHome: true, goalsFor: match.homeGoals, goalsAgainst: match.awayGoals, expected, change },
+      { team: away, opponent: home, isHome: false, goalsFor: match.awayGoals, goalsAgainst: match.homeGoals, expected: 1 - expected, change: -change }
+    ];
+
+    for (const side of sides) {
+      history.push({
+        teamId: side.team.teamId,
+        fixtureId: match.fixtureId,
+        leagueId: match.leagueId,
+        seasonId: match.seasonId,
+        opponentId: side.opponent.teamId,
+        isHome: side.isHome,
+        goalsFor: side.goalsFor,
+        goalsAgainst: side.goalsAgainst,
+        expected: side.expected,
+        ratingBefore: side.team.rating,
+        ratingAfter: side.team.rating + side.change,
+        playedAt
+      });
+    }
+
+    // Update after both history rows are built (both use pre-match ratings)
+    for (const side of sides) {
+      side.team.rating += side.change;
+      side.team.matches += 1;
+      side.team.teamName = side.isHome ? match.homeTeamName : match.awayTeamName;
+      side.team.leagueId = match.leagueId;
+      side.team.lastPlayedAt = playedAt;
+    }
+  }
+
+  return history;
+}
+
+// ============================================
+// LOAD RESULTS
+// ============================================
+
+/**
+ * Load finished results for the rated leagues
+ * @param {number[]} leagueIds - SportsMonks league IDs
+ * @param {number} seasonsBack - How many seasons per league (most recent first)
+ * @returns {Promise<object>} - { matches (oldest first), failedLeagues }
+ *
+ * A league that fails to load is logged and skipped.
+ */
+async function loadRatedResults(leagueIds: number[], seasonsBack: number) {
+  const now = new Date();
+  const matches: MatchResult[] = [];
+  const failedLeagues: number[] = [];
+
+  for (const leagueId of leagueIds) {
+    try {
+      const result = await getSeasonsByLeague(leagueId);
+      const seasons = (result.data?.seasons || [])
+        .filter((season): season is Season & { starting_at: string } =>
+          !!season.starting_at && new Date(season.starting_at) <= now
+        )
+        .sort((a, b) => b.starting_at.localeCompare(a.starting_at))
+        .slice(0, seasonsBack);
+
+      for (const season of seasons) {
+        // Finished seasons only need fetching up to their last day
+        const seasonEnd = season.ending_at ? new Date(`${season.ending_at}T23:59:59Z`) : now;
+        const before = seasonEnd < now ? seasonEnd : now;
+        matches.push(...await loadSeasonResults(leagueId, season.id, season.starting_at, before));
+      }
+    } catch (error) {
+      failedLeagues.push(leagueId);
+      console.error(`[EloRatings] Failed to load results for league ${leagueId}:`, getErrorMessage(error));
+    }
+  }
+
+  return {
+    matches: matches.sort((a, b) => a.playedAt.localeCompare(b.playedAt)),
+    failedLeagues
+  };
+}
+
+// ============================================
+// UPDATE RATINGS
+// ============================================
+
+/**
+ * Apply new results from the rated leagues and store the ratings
+ * @param {object} options
+ * @param {number[]} options.leagueIds - SportsMonks league IDs to rate
+ * @param {number} options.seasonsBack - Seasons per league to load (default 3)
+ * @param {boolean} options.rebuild - Recompute everything from scratch (default false)
+ * @returns {Promise<object>} - { rebuilt, matchesApplied, teamsRated }
+ */
+async function updateRatings(options: UpdateOptions) {
+  const seasonsBack = options.seasonsBack ?? 3;
+  const { matches, failedLeagues } = await loadRatedResults(options.leagueIds, seasonsBack);
+
+  // 1. Which results are new?
+  const [rated, latest] = await Promise.all([
+    prisma.teamRatingHistory.findMany({
+      where: { isHome: true },
+      select: { fixtureId: true }
+    }),
+    prisma.teamRatingHistory.findFirst({
+      orderBy: { playedAt: 'desc' },
+      select: { playedAt: true }
+    })
+  ]);
+
+  const ratedFixtures = new Set(rated.map(row => row.fixtureId));
+  const newMatches = matches.filter(m => !ratedFixtures.has(m.fixtureId));
+
+  // 2. Rebuild if asked to, or if a new result would land before the latest applied one
+  const outOfOrder = latest !== null && newMatches.some(m => new Date(m.playedAt) < latest.playedAt);
+  const rebuild = Boolean(options.rebuild) || outOfOrder;
+
+  // A rebuild replaces all stored history, so it needs every league's results
+  if (rebuild && failedLeagues.length > 0) {
+    throw new Error(`Cannot rebuild ratings: failed to load leagues ${failedLeagues.join(', ')}`);
+  }
+
+  const teams = new Map<number, RatedTeam>();
+  if (!rebuild) {
+    const current = await prisma.teamRating.findMany();
+    current.forEach(team => teams.set(team.teamId, { ...team }));
+  }
+
+  const toApply = rebuild ? matches : newMatches;
+  if (toApply.length === 0) {
+    return { rebuilt: false, matchesApplied: 0, teamsRated: teams.size };
+  }
+
+  const history = applyResults(toApply, teams);
+
+  // 3. Store history and current ratings
+  const ratingRows = [...teams.values()].map(team => ({
+    teamId: team.teamId,
+    teamName: team.teamName,
+    rating: team.rating,
+    matches: team.matches,
+    leagueId: team.leagueId,
+    lastPlayedAt: team.lastPlayedAt
+  }));
+
+  await prisma.$transaction([
+    ...(rebuild ? [prisma.teamRatingHistory.deleteMany(), prisma.teamRating.deleteMany()] : []),
+    prisma.teamRatingHistory.createMany({ data: history, skipDuplicates: true }),
+    ...ratingRows.map(row => prisma.teamRating.upsert({
+      where: { teamId: row.teamId },
+      create: row,
+      update: row
+    }))
+  ]);
+
+  console.log(
+    `[EloRatings] ${rebuild ? 'Rebuilt ratings from' : 'Applied'} ${toApply.length} results ` +
+    `(${teams.size} teams rated)`
+  );
+
+  return {
+    rebuilt: rebuild,
+    matchesApplied: toApply.length,
+    teamsRated: teams.size
+  };
+}
+
+// ============================================
+// READ RATINGS
+// ============================================
+
+/**
+ * Get a team's rating history
+ * @param {number} teamId - The SportsMonks team ID
+ * @returns {Promise<object|null>} - Current rating plus history (oldest first), or null if unrated
+ */
+async function getTeamRatingHistory(teamId: number) {
+  const [team, history] = await Promise.all([
+    prisma.teamRating.findUnique({ where: { teamId } }),
+    prisma.teamRatingHistory.findMany({
+      where: { teamId },
+      orderBy: { playedAt: 'asc' }
+    })
+  ]);
+
+  if (!team) return null;
+
+  return {
+    teamId: team.teamId,
+    teamName: team.teamName,
+    rating: round1(team.rating),
+    matches: team.matches,
+    lastPlayedAt: team.lastPlayedAt,
+    history: history.map(row => ({
+      fixtureId: row.fixtureId,
+      leagueId: row.leagueId,
+      seasonId: row.seasonId,
+      opponentId: row.opponentId,
+      isHome: row.isHome,
+      goalsFor: row.goalsFor,
+      goalsAgainst: row.goalsAgainst,
+      expected: round4(row.expected),
+      ratingBefore: round1(row.ratingBefore),
+      ratingAfter: round1(row.ratingAfter),
+      change: round1(row.ratingAfter - row.ratingBefore),
+      playedAt: row.playedAt
+    }))
+  };
+}
+
+/**
+ * Get the current ratings table for a league
+ * @param {number} leagueId - The SportsMonks league ID
+ * @returns {Promise<object>} - { seasonId, teams } with teams ranked by rating
+ *
+ * Teams are those with a rated match in the league's most recent
+ * rated season. Ratings are the teams' current (all-competition) ratings.
+ */
+async function getLeagueRatings(leagueId: number) {
+  const latest = await prisma.teamRatingHistory.findFirst({
+    where: { leagueId },
+    orderBy: { playedAt: 'desc' },
+    select: { seasonId: true }
+  });
+
+  if (!latest) return { seasonId: null, teams: [] };
+
+  const seasonRows = await prisma.teamRatingHistory.findMany({
+    where: { leagueId, seasonId: latest.seasonId },
+    distinct: ['teamId'],
+    select: { teamId: true }
+  });
+  const teamIds = seasonRows.map(row => row.teamId);
+
+  const [teams, recent] = await Promise.all([
+    prisma.teamRating.findMany({
+      where: { teamId: { in: teamIds } },
+      orderBy: { rating: 'desc' }
+    }),
+    // Last 5 rated matches per team, for the recent change column
+    prisma.teamRatingHistory.findMany({
+      where: { teamId: { in: teamIds } },
+      orderBy: { playedAt: 'desc' },
+      select: { teamId: true, ratingBefore: true }
+    })
+  ]);
+
+  const fiveAgo = new Map<number, number>();
+  const seen = new Map<number, number>();
+  for (const row of recent) {
+    const count = (seen.get(row.teamId) || 0) + 1;
+    seen.set(row.teamId, count);
+    if (count <= 5) fiveAgo.set(row.teamId, row.ratingBefore);
+  }
+
+  return {
+    seasonId: latest.seasonId,
+    teams: teams.map((team, index) => ({
+      rank: index + 1,
+      teamId: team.teamId,
+      teamName: team.teamName,
+      rating: round1(team.rating),
+      matches: team.matches,
+      lastFiveChange: fiveAgo.has(team.teamId) ? round1(team.rating - fiveAgo.get(team.teamId)!) : null,
+      lastPlayedAt: team.lastPlayedAt
+    }))
+  };
+}
+
+/**
+ * Rating-implied probabilities for a home/away pairing
+ * @param {number} homeTeamId - Home team ID
+ * @param {number} awayTeamId - Away team ID
+ * @returns {Promise<object|null>} - Ratings and probabilities, or null if either team is unrated
+ */
+async function getMatchupProbabilities(homeTeamId: number, awayTeamId: number) {
+  const ratings = await prisma.teamRating.findMany({
+    where: { teamId: { in: [homeTeamId, awayTeamId] } }
+  });
+
+  const home = ratings.find(r => r.teamId === homeTeamId);
+  const away = ratings.find(r => r.teamId === awayTeamId);
+  if (!home || !away) return null;
+
+  return {
+    homeTeam: { teamId: home.teamId, teamName: home.teamName, rating: round1(home.rating), matches: home.matches },
+    awayTeam: { teamId: away.teamId, teamName: away.teamName, rating: round1(away.rating), matches: away.matches },
+    homeAdvantage: HOME_ADVANTAGE,
+    probabilities: winProbabilities(home.rating, away.rating)
+  };
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+export {
+  INITIAL_RATING,
+  expectedScore,
+  winProbabilities,
+  applyResults,
+  updateRatings,
+  getTeamRatingHistory,
+  getLeagueRatings,
+  getMatchupProbabilities
+};
@@ -23,6 +23,15 @@ let mailjetClient: ReturnType<typeof Mailjet.apiConnect> | null = null;
 const getErrorMessage = (error: unknown) =>
   error instanceof Error ? error.message : 'Unknown error';
 
+// For text placed in an HTML body (team and player names, rule labels)
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
 const getMailjetClient = () => {
   if (!mailjetClient) {
     // Check if credentials are configured
@@ -164,10 +173,83 @@ If you didn't request this, you can safely ignore this email.
   }
 };
 
+// ============================================
+// SEND MATCH ALERT EMAIL
+// ============================================
+// Sends a match alert (goal, red card, lineups, odds move...).
+//
+// Parameters:
+//   - toEmail: The recipient's email address
+//   - title: Short summary, used as the subject
+//   - message: The alert text
+//   - fixtureId: Linked to on the frontend
+//
+// Returns: { success: boolean, error?: string }
+// ============================================
+
+export const sendAlertEmail = async (
+  toEmail: string,
+  title: string,
+  message: string,
+  fixtureId: number
+): Promise<{ success: boolean; devMode?: boolean; error?: string }> => {
+  const client = getMailjetClient();
+  const fixtureLink = `${process.env.FRONTEND_URL || 'http://localhost:5173'}/fixtures/${fixtureId}`;
+
+  // If Mailjet isn't configured, log the alert for development
+  if (!client) {
+    console.log('📧 [DEV MODE] Alert email would be sent to:', toEmail);
+    console.log('📧 [DEV MODE] Alert:', `${title} - ${message}`);
+    return { success: true, devMode: true };
+  }
+
+  try {
+    await client
+      .post('send', { version: 'v3.1' })
+      .request({
+        Messages: [
+          {
+            From: {
+              Email: process.env.MAILJET_FROM_EMAIL || 'noreply@betsmoke.com',
+              Name: process.env.MAILJET_FROM_NAME || 'BetSmoke'
+            },
+            To: [{ Email: toEmail }],
+            Subject: title,
+            TextPart: `${message}\n\nMatch: ${fixtureLink}\n\n- The BetSmoke Team`,
+            HTMLPart: `
+<!DOCTYPE html>
+<html>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <h2 style="color: #1f2937; margin-top: 0;">${escapeHtml(title)}</h2>
+  <p>${escapeHtml(message)}</p>
+  <p><a href="${escapeHtml(fixtureLink)}" style="color: #3b82f6;">View the match</a></p>
+  <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 30px 0;">
+  <p style="color: #9ca3af; font-size: 12px; margin-bottom: 0;">
+    You're receiving this because of a match alert you set up in BetSmoke.
+  </p>
+</body>
+</html>
+            `.trim()
+          }
+        ]
+      });
+
+    return { success: true };
+
+  } catch (error) {
+    console.error('❌ Failed to send alert email:', getErrorMessage(error));
+    return {
+      success: false,
+      error: getErrorMessage(error)
+    };
+  }
+};
+
 // ============================================
 // EXPORT
 // ============================================
 
 export default {
-  sendPasswordResetEmail
+  sendPasswordResetEmail,
+  sendAlertEmail
 };
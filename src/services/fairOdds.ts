@@ -0,0 +1,123 @@
+// ============================================
+// FAIR ODDS SERVICE
+// ============================================
+// Adds implied probabilities, bookmaker margin (overround) and
+// margin-removed fair prices to SportsMonks odds.
+//
+// Odds are split into "books" - one bookmaker's prices for every
+// outcome of one market line (e.g., bet365 Over/Under 2.5). The margin
+// is removed within each book using one of the de-vig methods in
+// pricing.ts. Books with a single outcome can't be de-vigged, so those
+// odds only get an implied probability.
+// ============================================
+
+import { devig, impliedProbability, overround, toOddsValue, type DevigMethod } from './pricing.js';
+import type { Odd } from '../types/sportsmonks.js';
+
+type BookSummary = {
+  marketId: number;
+  bookmakerId: number;
+  line: string | null;
+  outcomes: number;
+  overround: number | null;
+};
+
+const round4 = (value: number) => Math.round(value * 10000) / 10000;
+
+// ============================================
+// HELPERS
+// ============================================
+
+// Handicap books are keyed by the home side's handicap: home -0.5 and
+// away +0.5 are one book, home +0.5 and away -0.5 another
+const AWAY_LABELS = ['away', '2'];
+
+const bookLine = (odd: Odd) => {
+  if (odd.total !== null && odd.total !== undefined) return String(odd.total);
+  if (odd.handicap !== null && odd.handicap !== undefined) {
+    const handicap = parseFloat(odd.handicap);
+    const isAway = AWAY_LABELS.includes(String(odd.label ?? '').toLowerCase());
+    return String(isAway ? -handicap : handicap);
+  }
+  return null;
+};
+
+// ============================================
+// APPLY FAIR ODDS
+// ============================================
+
+/**
+ * Add implied probability, margin and fair prices to a list of odds
+ * @param {object[]} odds - Odds from getOddsByFixture / getOddsByFixtureAndMarket
+ * @param {string} method - De-vig method (default multiplicative)
+ * @returns {object} - { odds, books }
+ *   - odds: the same odds, each with impliedProbability, fairProbability and fairOdds
+ *   - books: one entry per market/bookmaker/line with its overround
+ *     (handicap lines are the home side's handicap)
+ *
+ * Example: applyFairOdds(odds, 'shin')
+ * Returns: { odds: [{ ..., impliedProbability: 0.4348, fairProbability: 0.4201,
+ *            fairOdds: { value: "2.38", american: "+138", fractional: "11/8" } }],
+ *            books: [{ marketId: 1, bookmakerId: 2, line: null, overround: 0.0414, ... }] }
+ */
+function applyFairOdds<T extends Odd>(odds: T[], method: DevigMethod = 'multiplicative') {
+  // Group priced, open odds into books
+  const books = new Map<string, T[]>();
+
+  for (const odd of odds) {
+    const price = parseFloat(odd.value ?? odd.dp3);
+    if (odd.stopped || !(price > 1) || !odd.market_id || !odd.bookmaker_id) continue;
+
+    const key = `${odd.market_id}:${odd.bookmaker_id}:${bookLine(odd) ?? ''}`;
+    if (!books.has(key)) books.set(key, []);
+    books.get(key)!.push(odd);
+  }
+
+  // Fair probability per odd (keyed by object, so the input order is kept)
+  const fairByOdd = new Map<T, number>();
+  const bookSummaries: BookSummary[] = [];
+
+  for (const bookOdds of books.values()) {
+    const prices = bookOdds.map(odd => parseFloat(odd.value ?? odd.dp3));
+    const complete = bookOdds.length >= 2;
+    const fair = complete ? devig(prices, method) : [];
+
+    bookOdds.forEach((odd, idx) => {
+      if (complete) fairByOdd.set(odd, fair[idx]);
+    });
+
+    bookSummaries.push({
+      marketId: bookOdds[0].market_id,
+      bookmakerId: bookOdds[0].bookmaker_id,
+      line: bookLine(bookOdds[0]),
+      outcomes: bookOdds.length,
+      overround: complete ? round4(overround(prices)) : null
+    });
+  }
+
+  const enrichedOdds = odds.map(odd => {
+    const price = parseFloat(odd.value ?? odd.dp3);
+    const fairProbability = fairByOdd.get(odd);
+
+    return {
+      ...odd,
+      impliedProbability: price > 1 ? round4(impliedProbability(price)) : null,
+      fairProbability: fairProbability !== undefined ? round4(fairProbability) : null,
+      fairOdds: fairProbability ? toOddsValue(1 / fairProbability) : null
+    };
+  });
+
+  return {
+    method,
+    odds: enrichedOdds,
+    books: bookSummaries
+  };
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+export {
+  applyFairOdds
+};
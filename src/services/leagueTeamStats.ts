@@ -0,0 +1,339 @@
+// ============================================
+// LEAGUE TEAM STATS SERVICE
+// ============================================
+// Season statistics for every team in a league season, side by side:
+// results, goals, xG (when SportsMonks has it), corners, cards, BTTS,
+// over 2.5 and clean sheets.
+//
+// The season's finished fixtures are loaded once - from the warehouse
+// when the season is stored there, otherwise from SportsMonks in
+// 100-day windows - and cached per season. Each request then
+// aggregates them per team, optionally home or away only, and sorts.
+// ============================================
+
+import prisma from '../db.js';
+import cache from './cache.js';
+import { getLeagueFixturesWithStats } from './sportsmonks.js';
+import { getSeasonDates } from './seasonResults.js';
+import { FINISHED_STATES, getFinalScore } from './settlement.js';
+import { getKickoffTime } from './closingLines.js';
+import { fetchSeasonInWindows, isSeasonStored, toNumber } from './warehouse.js';
+
+type AnyRecord = Record<string, any>;
+
+// One finished fixture. stats: typeId → [home value, away value]
+type SeasonFixture = {
+  fixtureId: number;
+  startingAt: string;
+  homeTeamId: number;
+  homeTeamName: string;
+  awayTeamId: number;
+  awayTeamName: string;
+  homeGoals: number;
+  awayGoals: number;
+  stats: Record<string, [number | null, number | null]>;
+};
+
+type SeasonFixtures = {
+  leagueId: number;
+  seasonId: number;
+  seasonName: string;
+  leagueName: string | null;
+  source: 'warehouse' | 'sportsmonks';
+  fixtures: SeasonFixture[];
+  cachedAt: string;
+};
+
+type TeamLocation = 'home' | 'away';
+
+type TeamSeasonRow = {
+  teamId: number;
+  teamName: string;
+  played: number;
+  won: number;
+  drawn: number;
+  lost: number;
+  points: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  goalDifference: number;
+  goalsForAverage: number | null;
+  goalsAgainstAverage: number | null;
+  xgFor: number | null;
+  xgAgainst: number | null;
+  cornersFor: number | null;
+  cornersAgainst: number | null;
+  yellowCards: number | null;
+  redCards: number | null;
+  bttsRate: number | null;
+  over25Rate: number | null;
+  cleanSheets: number;
+  cleanSheetRate: number | null;
+};
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+// SportsMonks statistic type IDs
+const STAT_TYPES = {
+  CORNERS: 34,
+  YELLOW_CARDS: 84,
+  RED_CARDS: 83,
+  EXPECTED_GOALS: 5304
+};
+
+// Columns the table can be sorted by
+const SORT_FIELDS = [
+  'points', 'played', 'won', 'drawn', 'lost', 'goalsFor', 'goalsAgainst', 'goalDifference',
+  'goalsForAverage', 'goalsAgainstAverage', 'xgFor', 'xgAgainst', 'cornersFor', 'cornersAgainst',
+  'yellowCards', 'redCards', 'bttsRate', 'over25Rate', 'cleanSheets', 'cleanSheetRate'
+] as const;
+
+type SortField = typeof SORT_FIELDS[number];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const percent = (numerator: number, denominator: number) =>
+  denominator > 0 ? round2((numerator / denominator) * 100) : null;
+
+// Average of the values that were recorded, null when none were
+const average = (values: Array<number | null | undefined>) => {
+  const recorded = values.filter((value): value is number => typeof value === 'number');
+  return recorded.length > 0 ? round2(recorded.reduce((sum, value) => sum + value, 0) / recorded.length) : null;
+};
+
+// ============================================
+// LOAD FIXTURES
+// ============================================
+
+// A stored season, when the warehouse has it
+async function loadFromWarehouse(seasonId: number): Promise<SeasonFixture[] | null> {
+  if (!await isSeasonStored(seasonId)) return null;
+
+  const fixtures = await prisma.warehouseFixture.findMany({
+    where: { seasonId, state: { in: FINISHED_STATES } },
+    include: { statistics: true },
+    orderBy: { startingAt: 'asc' }
+  });
+
+  const teamIds = [...new Set(fixtures.flatMap(f => [f.homeTeamId, f.awayTeamId]))]
+    .filter((id): id is number => id !== null);
+  const teams = await prisma.warehouseTeam.findMany({ where: { id: { in: teamIds } } });
+  const teamNames = new Map(teams.map(team => [team.id, team.name]));
+
+  const records: SeasonFixture[] = [];
+  for (const fixture of fixtures) {
+    const { homeTeamId, awayTeamId, homeGoals, awayGoals } = fixture;
+    if (homeTeamId === null || awayTeamId === null || homeGoals === null || awayGoals === null) continue;
+    if (!fixture.startingAt) continue;
+
+    const stats: SeasonFixture['stats'] = {};
+    for (const row of fixture.statistics) {
+      if (row.teamId !== homeTeamId && row.teamId !== awayTeamId) continue;
+      const pair = stats[row.typeId] ?? [null, null];
+      pair[row.teamId === homeTeamId ? 0 : 1] = row.value;
+      stats[row.typeId] = pair;
+    }
+
+    records.push({
+      fixtureId: fixture.id,
+      startingAt: fixture.startingAt.toISOString(),
+      homeTeamId,
+      homeTeamName: teamNames.get(homeTeamId) ?? `Team ${homeTeamId}`,
+      awayTeamId,
+      awayTeamName: teamNames.get(awayTeamId) ?? `Team ${awayTeamId}`,
+      homeGoals,
+      awayGoals,
+      stats
+    });
+  }
+
+  return records;
+}
+
+// The season from SportsMonks, in windows up to today (or the season's end)
+async function loadFromSportsMonks(
+  leagueId: number,
+  seasonId: number,
+  startDate: string,
+  endDate: string
+): Promise<SeasonFixture[]> {
+  const fixtures: AnyRecord[] = await fetchSeasonInWindows(startDate, endDate,
+    (start, end) => getLeagueFixturesWithStats(start, end, [leagueId]));
+
+  const records: SeasonFixture[] = [];
+  for (const fixture of fixtures) {
+    if (fixture.season_id !== seasonId || !FINISHED_STATES.includes(fixture.state?.state)) continue;
+
+    const home = fixture.participants?.find((p: AnyRecord) => p.meta?.location === 'home');
+    const away = fixture.participants?.find((p: AnyRecord) => p.meta?.location === 'away');
+    const score = getFinalScore(fixture);
+    const kickoff = getKickoffTime(fixture);
+    if (!home || !away || !score || !kickoff) continue;
+
+    const stats: SeasonFixture['stats'] = {};
+    for (const row of fixture.statistics || []) {
+      if (row.participant_id !== home.id && row.participant_id !== away.id) continue;
+      const pair = stats[row.type_id] ?? [null, null];
+      pair[row.participant_id === home.id ? 0 : 1] = toNumber(row.data?.value);
+      stats[row.type_id] = pair;
+    }
+
+    records.push({
+      fixtureId: fixture.id,
+      startingAt: kickoff.toISOString(),
+      homeTeamId: home.id,
+      homeTeamName: home.name,
+      awayTeamId: away.id,
+      awayTeamName: away.name,
+      homeGoals: score.home,
+      awayGoals: score.away,
+      stats
+    });
+  }
+
+  return records.sort((a, b) => a.startingAt.localeCompare(b.startingAt));
+}
+
+/**
+ * Load a league season's finished fixtures with statistics (cached)
+ * @param {number} leagueId - The SportsMonks league ID
+ * @param {number} seasonId - The SportsMonks season ID
+ * @returns {Promise<object|null>} - Season info and fixtures, or null if the season isn't the league's
+ */
+async function loadSeasonFixtures(
+  leagueId: number,
+  seasonId: number
+): Promise<{ data: SeasonFixtures; fromCache: boolean } | null> {
+  const cacheKey = cache.keys.teamStats(seasonId);
+  const cached = await cache.get<SeasonFixtures>(cacheKey);
+  if (cached) {
+    return cached.leagueId === leagueId ? { data: cached, fromCache: true } : null;
+  }
+
+  const season = await getSeasonDates(seasonId);
+  if (!season) return null;
+
+  // Older cached season dates don't carry the league
+  if (season.leagueId !== undefined && season.leagueId !== leagueId) return null;
+
+  const stored = await loadFromWarehouse(seasonId);
+  const fixtures = stored ?? await loadFromSportsMonks(leagueId, seasonId, season.startDate, season.endDate);
+
+  const data: SeasonFixtures = {
+    leagueId,
+    seasonId,
+    seasonName: season.name,
+    leagueName: season.leagueName ?? null,
+    source: stored ? 'warehouse' : 'sportsmonks',
+    fixtures,
+    cachedAt: new Date().toISOString()
+  };
+
+  await cache.set(cacheKey, data, cache.TTL.TEAM_STATS);
+  return { data, fromCache: false };
+}
+
+// ============================================
+// AGGREGATE
+// ============================================
+
+/**
+ * Aggregate a season's fixtures into one row per team
+ * @param {object[]} fixtures - Fixtures from loadSeasonFixtures
+ * @param {object} options - { location: 'home' | 'away' (optional), sort, order }
+ * @returns {object[]} - Team rows, sorted (ties broken by team name)
+ */
+function buildTeamTable(
+  fixtures: SeasonFixture[],
+  options: { location?: TeamLocation; sort: SortField; order: 'asc' | 'desc' }
+): TeamSeasonRow[] {
+  // Every match from each team's side: [team, opponent] values
+  const matches = new Map<number, { name: string; games: AnyRecord[] }>();
+
+  for (const fixture of fixtures) {
+    const sides: Array<[TeamLocation, number, string]> = [
+      ['home', fixture.homeTeamId, fixture.homeTeamName],
+      ['away', fixture.awayTeamId, fixture.awayTeamName]
+    ];
+
+    for (const [location, teamId, teamName] of sides) {
+      const team = matches.get(teamId) ?? { name: teamName, games: [] };
+      matches.set(teamId, team);
+      if (options.location && options.location !== location) continue;
+
+      const own = location === 'home' ? 0 : 1;
+      const stat = (typeId: number, side: number) => fixture.stats[typeId]?.[side] ?? null;
+
+      team.games.push({
+        goalsFor: own === 0 ? fixture.homeGoals : fixture.awayGoals,
+        goalsAgainst: own === 0 ? fixture.awayGoals : fixture.homeGoals,
+        xgFor: stat(STAT_TYPES.EXPECTED_GOALS, own),
+        xgAgainst: stat(STAT_TYPES.EXPECTED_GOALS, 1 - own),
+        cornersFor: stat(STAT_TYPES.CORNERS, own),
+        cornersAgainst: stat(STAT_TYPES.CORNERS, 1 - own),
+        yellowCards: stat(STAT_TYPES.YELLOW_CARDS, own),
+        redCards: stat(STAT_TYPES.RED_CARDS, own)
+      });
+    }
+  }
+
+  const rows: TeamSeasonRow[] = [...matches.entries()].map(([teamId, { name, games }]) => {
+    const won = games.filter(g => g.goalsFor > g.goalsAgainst).length;
+    const drawn = games.filter(g => g.goalsFor === g.goalsAgainst).length;
+    const goalsFor = games.reduce((sum, g) => sum + g.goalsFor, 0);
+    const goalsAgainst = games.reduce((sum, g) => sum + g.goalsAgainst, 0);
+    const cleanSheets = games.filter(g => g.goalsAgainst === 0).length;
+
+    return {
+      teamId,
+      teamName: name,
+      played: games.length,
+      won,
+      drawn,
+      lost: games.length - won - drawn,
+      points: won * 3 + drawn,
+      goalsFor,
+      goalsAgainst,
+      goalDifference: goalsFor - goalsAgainst,
+      goalsForAverage: average(games.map(g => g.goalsFor)),
+      goalsAgainstAverage: average(games.map(g => g.goalsAgainst)),
+      xgFor: average(games.map(g => g.xgFor)),
+      xgAgainst: average(games.map(g => g.xgAgainst)),
+      cornersFor: average(games.map(g => g.cornersFor)),
+      cornersAgainst: average(games.map(g => g.cornersAgainst)),
+      yellowCards: average(games.map(g => g.yellowCards)),
+      redCards: average(games.map(g => g.redCards)),
+      bttsRate: percent(games.filter(g => g.goalsFor > 0 && g.goalsAgainst > 0).length, games.length),
+      over25Rate: percent(games.filter(g => g.goalsFor + g.goalsAgainst > 2.5).length, games.length),
+      cleanSheets,
+      cleanSheetRate: percent(cleanSheets, games.length)
+    };
+  });
+
+  // Missing values (no xG, say) always sort last
+  const direction = options.order === 'asc' ? 1 : -1;
+  return rows.sort((a, b) => {
+    const left = a[options.sort];
+    const right = b[options.sort];
+    if (left !== right) {
+      if (left === null) return 1;
+      if (right === null) return -1;
+      return (left - right) * direction;
+    }
+    return a.teamName.localeCompare(b.teamName);
+  });
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+export type { SeasonFixture, SeasonFixtures, TeamSeasonRow, TeamLocation, SortField };
+
+export {
+  SORT_FIELDS,
+  loadSeasonFixtures,
+  buildTeamTable
+};
@@ -0,0 +1,295 @@
+// ============================================
+// LIVE POLLER SERVICE
+// ============================================
+// Fetches the in-play fixtures once every LIVE_POLL_INTERVAL_SECONDS
+// and pushes what changed to everyone listening (see the
+// /livescores/stream route), so clients don't each poll SportsMonks.
+//
+// Each poll is compared with the previous one, fixture by fixture:
+//   - added:   the fixture kicked off (wasn't in play last time)
+//   - removed: the fixture is no longer in play
+//   - score:   the CURRENT score changed
+//   - state:   the period changed (1st half -> HT -> 2nd half...)
+//   - events:  goals, cards or substitutions came in (or were removed,
+//              e.g. a goal ruled out by VAR)
+//
+// The poller only runs while someone is subscribed: the first
+// subscriber starts it and the last one to leave stops it.
+// ============================================
+
+import { getLivescoresInplay } from './sportsmonks.js';
+import { enrichEventsWithTypes } from './types.js';
+import type { Fixture, FixtureEvent } from '../types/sportsmonks.js';
+
+// The parts of an in-play fixture the clients need
+type LiveFixture = Pick<
+  Fixture,
+  'id' | 'name' | 'league_id' | 'season_id' | 'state_id' | 'starting_at' | 'participants' | 'state' | 'scores' | 'events'
+>;
+
+type LiveChange = 'added' | 'removed' | 'score' | 'state' | 'events';
+
+// What changed for one fixture between two polls. fixture is null for
+// a removed fixture.
+type LiveUpdate = {
+  fixtureId: number;
+  changes: LiveChange[];
+  fixture: LiveFixture | null;
+  score: { home: number | null; away: number | null } | null;
+  newEvents: FixtureEvent[];
+  removedEventIds: number[];
+  polledAt: string;
+};
+
+type LiveSnapshot = {
+  fixtures: LiveFixture[];
+  polledAt: string | null;
+};
+
+type LiveListener = (updates: LiveUpdate[]) => void;
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+// How often the in-play fixtures are fetched while anyone is listening
+const POLL_INTERVAL_SECONDS = Math.max(1, Number(process.env.LIVE_POLL_INTERVAL_SECONDS) || 15);
+
+// SportsMonks score type ID for the current score
+const CURRENT_SCORE_TYPE_ID = 1525;
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Unknown error';
+
+// ============================================
+// STATE
+// ============================================
+
+const listeners = new Set<LiveListener>();
+
+// The last poll's fixtures, by fixture ID
+let lastFixtures = new Map<number, LiveFixture>();
+let lastPolledAt: Date | null = null;
+
+let timer: ReturnType<typeof setInterval> | null = null;
+let currentPoll: Promise<LiveUpdate[]> | null = null;
+
+// ============================================
+// DIFFS
+// ============================================
+
+function toLiveFixture(fixture: Fixture): LiveFixture {
+  return {
+    id: fixture.id,
+    name: fixture.name,
+    league_id: fixture.league_id,
+    season_id: fixture.season_id,
+    state_id: fixture.state_id,
+    starting_at: fixture.starting_at,
+    participants: fixture.participants,
+    state: fixture.state,
+    scores: fixture.scores,
+    events: fixture.events
+  };
+}
+
+/**
+ * The CURRENT score of a fixture
+ * @param {object} fixture - A fixture with scores
+ * @returns {object} - { home, away } (null where there's no score yet)
+ */
+function getCurrentScore(fixture: LiveFixture) {
+  const score: { home: number | null; away: number | null } = { home: null, away: null };
+
+  for (const row of fixture.scores ?? []) {
+    if (row.type_id !== CURRENT_SCORE_TYPE_ID && row.description !== 'CURRENT') continue;
+    score[row.score.participant] = row.score.goals;
+  }
+
+  return score;
+}
+
+/**
+ * Compare two polls of the in-play fixtures
+ * @param {Map} previous - Fixtures from the last poll, by ID
+ * @param {Map} current - Fixtures from this poll, by ID
+ * @param {Date} polledAt - When this poll ran
+ * @returns {Array} - One update per fixture that changed
+ */
+function diffLiveFixtures(
+  previous: Map<number, LiveFixture>,
+  current: Map<number, LiveFixture>,
+  polledAt: Date
+): LiveUpdate[] {
+  const updates: LiveUpdate[] = [];
+
+  for (const [fixtureId, fixture] of current) {
+    const before = previous.get(fixtureId);
+    const score = getCurrentScore(fixture);
+
+    if (!before) {
+      updates.push({
+        fixtureId,
+        changes: ['added'],
+        fixture,
+        score,
+        newEvents: fixture.events ?? [],
+        removedEventIds: [],
+        polledAt: polledAt.toISOString()
+      });
+      continue;
+    }
+
+    const changes: LiveChange[] = [];
+
+    const previousScore = getCurrentScore(before);
+    if (score.home !== previousScore.home || score.away !== previousScore.away) {
+      changes.push('score');
+    }
+
+    if (fixture.state_id !== before.state_id) {
+      changes.push('state');
+    }
+
+    const previousEventIds = new Set((before.events ?? []).map(event => event.id));
+    const currentEventIds = new Set((fixture.events ?? []).map(event => event.id));
+    const newEvents = (fixture.events ?? []).filter(event => !previousEventIds.has(event.id));
+    const removedEventIds = [...previousEventIds].filter(id => !currentEventIds.has(id));
+    if (newEvents.length > 0 || removedEventIds.length > 0) {
+      changes.push('events');
+    }
+
+    if (changes.length > 0) {
+      updates.push({
+        fixtureId,
+        changes,
+        fixture,
+        score,
+        newEvents,
+        removedEventIds,
+        polledAt: polledAt.toISOString()
+      });
+    }
+  }
+
+  for (const fixtureId of previous.keys()) {
+    if (current.has(fixtureId)) continue;
+
+    updates.push({
+      fixtureId,
+      changes: ['removed'],
+      fixture: null,
+      score: null,
+      newEvents: [],
+      removedEventIds: [],
+      polledAt: polledAt.toISOString()
+    });
+  }
+
+  return updates;
+}
+
+// ============================================
+// POLLING
+// ============================================
+
+/**
+ * Fetch the in-play fixtures once and tell the listeners what changed
+ * @returns {Promise<Array>} - The updates that were broadcast
+ */
+async function pollLiveFixtures(): Promise<LiveUpdate[]> {
+  // A slow poll shouldn't overlap the next one
+  if (currentPoll) return currentPoll;
+
+  currentPoll = (async () => {
+    try {
+      // Uncached - the poll interval is the only limit on how fresh it is
+      const result = await getLivescoresInplay({ cache: false });
+      const polledAt = new Date();
+
+      const current = new Map<number, LiveFixture>();
+      for (const fixture of result.data ?? []) {
+        // Event names ("Goal", "Yellowcard"...) like the fixture routes send
+        await enrichEventsWithTypes(fixture.events ?? []);
+        current.set(fixture.id, toLiveFixture(fixture));
+      }
+
+      // The first poll is the baseline - there's nothing to compare with
+      const updates = lastPolledAt ? diffLiveFixtures(lastFixtures, current, polledAt) : [];
+
+      lastFixtures = current;
+      lastPolledAt = polledAt;
+
+      if (updates.length > 0) {
+        for (const listener of listeners) {
+          listener(updates);
+        }
+      }
+
+      return updates;
+    } catch (error) {
+      // Keep the last poll - clients carry on with what they have
+      console.error('[LivePoller] Poll failed:', getErrorMessage(error));
+      return [];
+    } finally {
+      currentPoll = null;
+    }
+  })();
+
+  return currentPoll;
+}
+
+/**
+ * The in-play fixtures as of the last poll. Polls first when the
+ * poller isn't running, since the last poll may be long out of date.
+ * @returns {Promise<object>} - { fixtures, polledAt }
+ */
+async function getLiveSnapshot(): Promise<LiveSnapshot> {
+  if (!timer || !lastPolledAt) {
+    await pollLiveFixtures();
+  }
+
+  return {
+    fixtures: [...lastFixtures.values()],
+    polledAt: lastPolledAt ? lastPolledAt.toISOString() : null
+  };
+}
+
+/**
+ * Listen for live updates. Starts the poller for the first listener
+ * and stops it when the last one unsubscribes.
+ * @param {Function} listener - Called with each poll's updates
+ * @returns {Function} - Unsubscribe
+ */
+function subscribe(listener: LiveListener) {
+  listeners.add(listener);
+
+  if (!timer) {
+    console.log(`[LivePoller] Started (every ${POLL_INTERVAL_SECONDS}s)`);
+    timer = setInterval(() => {
+      pollLiveFixtures();
+    }, POLL_INTERVAL_SECONDS * 1000);
+  }
+
+  return () => {
+    listeners.delete(listener);
+
+    if (listeners.size === 0 && timer) {
+      clearInterval(timer);
+      timer = null;
+      console.log('[LivePoller] Stopped (no listeners)');
+    }
+  };
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+export type { LiveFixture, LiveChange, LiveUpdate, LiveSnapshot, LiveListener };
+
+export {
+  pollLiveFixtures,
+  getLiveSnapshot,
+  subscribe
+};
@@ -0,0 +1,129 @@
+// ============================================
+// NOTE SEARCH SERVICE
+// ============================================
+// Full-text search over a user's notes with Postgres text search.
+// Note."searchVector" (title weighted A, content B) and
+// NoteLink."searchVector" (label, C) are generated columns with GIN
+// indexes (migration add_note_search), so a search never scans the text.
+//
+// Queries use websearch_to_tsquery syntax: words are ANDed, "quoted
+// phrases" match in order, `or` gives alternatives, -word excludes.
+// A note matches when its title/content or any link label matches; its
+// rank is the note's ts_rank plus its best label's. Snippets come from
+// ts_headline with matches wrapped in <mark></mark>.
+// ============================================
+
+import prisma from '../db.js';
+import { Prisma } from '../generated/prisma/client.js';
+
+// Must match the configuration the search vectors are generated with
+const SEARCH_CONFIG = Prisma.raw(`'english'::regconfig`);
+
+const TITLE_HEADLINE_OPTIONS = 'HighlightAll=true, StartSel=<mark>, StopSel=</mark>';
+const CONTENT_HEADLINE_OPTIONS =
+  'StartSel=<mark>, StopSel=</mark>, MinWords=15, MaxWords=35, MaxFragments=2, FragmentDelimiter=" … "';
+
+type NoteSearchOptions = {
+  userId: string;
+  query: string;
+  startDate?: string;   // YYYY-MM-DD, notes created on or after
+  endDate?: string;     // YYYY-MM-DD, notes created on or before
+  contextType?: string;
+  contextId?: string;
+  limit: number;
+  offset: number;
+};
+
+type NoteSearchRow = {
+  id: string;
+  rank: number;
+  titleHighlight: string;
+  snippet: string;
+};
+
+/**
+ * Search a user's notes
+ * @param {object} options - { userId, query, startDate?, endDate?, contextType?, contextId?, limit, offset }
+ * @returns {Promise<object>} - { total, results: notes with links, rank, titleHighlight and snippet }
+ */
+async function searchNotes(options: NoteSearchOptions) {
+  const { userId, query, startDate, endDate, contextType, contextId, limit, offset } = options;
+
+  const tsquery = Prisma.sql`websearch_to_tsquery(${SEARCH_CONFIG}, ${query})`;
+
+  const labelMatches = Prisma.sql`
+    SELECT 1 FROM "NoteLink" l
+    WHERE l."noteId" = n.id AND l."searchVector" @@ ${tsquery}`;
+
+  const conditions = [
+    Prisma.sql`n."userId" = ${userId}`,
+    Prisma.sql`(n."searchVector" @@ ${tsquery} OR EXISTS (${labelMatches}))`
+  ];
+  if (startDate) {
+    conditions.push(Prisma.sql`n."createdAt" >= ${startDate}::date`);
+  }
+  if (endDate) {
+    conditions.push(Prisma.sql`n."createdAt" < ${endDate}::date + 1`);
+  }
+  if (contextType || contextId) {
+    conditions.push(Prisma.sql`EXISTS (
+      SELECT 1 FROM "NoteLink" c
+      WHERE c."noteId" = n.id
+        ${contextType ? Prisma.sql`AND c."contextType"::text = ${contextType}` : Prisma.empty}
+        ${contextId ? Prisma.sql`AND c."contextId" = ${contextId}` : Prisma.empty}
+    )`);
+  }
+  const where = Prisma.join(conditions, ' AND ');
+
+  const [rows, counts] = await Promise.all([
+    prisma.$queryRaw<NoteSearchRow[]>`
+      SELECT
+        n.id,
+        (ts_rank(n."searchVector", ${tsquery}) + COALESCE((
+          SELECT max(ts_rank(l."searchVector", ${tsquery}))
+          FROM "NoteLink" l
+          WHERE l."noteId" = n.id
+        ), 0))::float8 AS rank,
+        ts_headline(${SEARCH_CONFIG}, n.title, ${tsquery}, ${TITLE_HEADLINE_OPTIONS}) AS "titleHighlight",
+        ts_headline(${SEARCH_CONFIG}, n.content, ${tsquery}, ${CONTENT_HEADLINE_OPTIONS}) AS snippet
+      FROM "Note" n
+      WHERE ${where}
+      ORDER BY rank DESC, n."updatedAt" DESC
+      LIMIT ${limit} OFFSET ${offset}`,
+    prisma.$queryRaw<{ total: number }[]>`
+      SELECT count(*)::int AS total FROM "Note" n WHERE ${where}`
+  ]);
+
+  // Full notes with their links, in rank order
+  const notes = await prisma.note.findMany({
+    where: { id: { in: rows.map(row => row.id) } },
+    include: { links: true }
+  });
+  const notesById = new Map(notes.map(note => [note.id, note]));
+
+  const results = rows.flatMap(row => {
+    const note = notesById.get(row.id);
+    if (!note) return [];
+    return [{
+      ...note,
+      rank: Math.round(row.rank * 10000) / 10000,
+      titleHighlight: row.titleHighlight,
+      snippet: row.snippet
+    }];
+  });
+
+  return {
+    total: counts[0]?.total ?? 0,
+    results
+  };
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+export type { NoteSearchOptions };
+
+export {
+  searchNotes
+};
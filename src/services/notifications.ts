@@ -0,0 +1,60 @@
+// ============================================
+// NOTIFICATIONS SERVICE
+// ============================================
+// The in-app notification inbox. Anything that wants to tell a user
+// something while they're away (today: match alerts on the IN_APP
+// channel, see alertChannels.ts) calls createNotification(); the
+// /notifications routes list and manage them.
+// ============================================
+
+import prisma from '../db.js';
+import type { NotificationType } from '../generated/prisma/client.js';
+
+type NewNotification = {
+  userId: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  link?: string | null;
+  triggerId?: string | null;
+};
+
+/**
+ * Add a notification to a user's inbox (unread)
+ * @param {object} notification - { userId, type, title, message, link?, triggerId? }
+ * @returns {Promise<object>} - The stored notification
+ */
+async function createNotification(notification: NewNotification) {
+  return prisma.notification.create({
+    data: {
+      userId: notification.userId,
+      type: notification.type,
+      title: notification.title,
+      message: notification.message,
+      link: notification.link ?? null,
+      triggerId: notification.triggerId ?? null
+    }
+  });
+}
+
+/**
+ * How many of a user's notifications are unread
+ * @param {string} userId - The user
+ * @returns {Promise<number>}
+ */
+async function getUnreadCount(userId: string) {
+  return prisma.notification.count({
+    where: { userId, readAt: null }
+  });
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+export type { NewNotification };
+
+export {
+  createNotification,
+  getUnreadCount
+};
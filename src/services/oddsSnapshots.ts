@@ -0,0 +1,224 @@
+// ============================================
+// ODDS SNAPSHOT SERVICE
+// ============================================
+// Stores pre-match odds history so we can see how lines move.
+//
+// SportsMonks only returns the current pre-match odds. On a schedule,
+// the snapshotter fetches upcoming fixtures in the watched leagues,
+// reads their odds, and stores a row per fixture/market/bookmaker/selection
+// whenever the price differs from the last stored one.
+//
+// Only changes are stored, so the history for a selection is the list
+// of price moves (plus the first price seen).
+// ============================================
+
+import prisma from '../db.js';
+import { getLeagueFixturesByDateRange, getOddsByFixture } from './sportsmonks.js';
+import { getKickoffTime } from './closingLines.js';
+import type { Odd } from '../types/sportsmonks.js';
+
+type SnapshotRow = {
+  fixtureId: number;
+  marketId: number;
+  bookmakerId: number;
+  label: string;
+  line: string | null;
+  value: number;
+};
+
+type HistoryFilters = {
+  marketId?: number;
+  bookmakerId?: number;
+};
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Unknown error';
+
+// ============================================
+// HELPERS
+// ============================================
+
+// "2025-01-11" (UTC) for SportsMonks date params
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+
+// One key per selection line, used to compare with the last stored price
+const selectionKey = (row: Omit<SnapshotRow, 'value' | 'fixtureId'>) =>
+  `${row.marketId}:${row.bookmakerId}:${row.label}:${row.line ?? ''}`;
+
+/**
+ * Convert SportsMonks odds into snapshot rows
+ * @param {number} fixtureId - The fixture the odds belong to
+ * @param {object[]} odds - Odds from getOddsByFixture
+ * @returns {object[]} - Rows with a valid decimal price
+ */
+function toSnapshotRows(fixtureId: number, odds: Odd[]): SnapshotRow[] {
+  const rows: SnapshotRow[] = [];
+
+  for (const odd of odds) {
+    const value = parseFloat(odd.value ?? odd.dp3);
+    const label = odd.label || odd.name;
+    if (!(value > 1) || !label || !odd.market_id || !odd.bookmaker_id) continue;
+
+    const line = odd.total ?? odd.handicap;
+    rows.push({
+      fixtureId,
+      marketId: odd.market_id,
+      bookmakerId: odd.bookmaker_id,
+      label,
+      line: line === null || line === undefined ? null : String(line),
+      value
+    });
+  }
+
+  return rows;
+}
+
+// ============================================
+// SNAPSHOT A FIXTURE
+// ============================================
+
+/**
+ * Store the current odds for a fixture (changed prices only)
+ * @param {number} fixtureId - The SportsMonks fixture ID
+ * @param {object} options - { cache: false } to fetch fresh odds
+ * @returns {Promise<number>} - Number of rows stored
+ */
+async function snapshotFixtureOdds(fixtureId: number, options: { cache?: boolean } = {}): Promise<number> {
+  const result = await getOddsByFixture(fixtureId, options);
+  const rows = toSnapshotRows(fixtureId, result.data || []);
+  if (rows.length === 0) return 0;
+
+  // Latest stored price for each selection line
+  const latest = await prisma.oddsSnapshot.findMany({
+    where: { fixtureId },
+    orderBy: { capturedAt: 'desc' },
+    distinct: ['marketId', 'bookmakerId', 'label', 'line'],
+    select: { marketId: true, bookmakerId: true, label: true, line: true, value: true }
+  });
+
+  const lastValues = new Map(latest.map(row => [selectionKey(row), row.value]));
+  const changed = rows.filter(row => lastValues.get(selectionKey(row)) !== row.value);
+
+  if (changed.length === 0) return 0;
+
+  const capturedAt = new Date();
+  await prisma.oddsSnapshot.createMany({
+    data: changed.map(row => ({ ...row, capturedAt }))
+  });
+
+  return changed.length;
+}
+
+// ============================================
+// SNAPSHOT WATCHED LEAGUES
+// ============================================
+
+/**
+ * Snapshot odds for all upcoming fixtures in the watched leagues
+ * @param {object} options
+ * @param {number[]} options.leagueIds - SportsMonks league IDs to watch
+ * @param {number} options.daysAhead - How far ahead to look for fixtures (default 7)
+ * @returns {Promise<object>} - Counts of fixtures checked and rows stored
+ *
+ * A failure on one fixture is logged and does not stop the others.
+ */
+async function snapshotWatchedLeagues(options: { leagueIds: number[]; daysAhead?: number }) {
+  const daysAhead = options.daysAhead ?? 7;
+  const now = new Date();
+  const end = new Date(now.getTime() + daysAhead * 24 * 60 * 60 * 1000);
+
+  const result = await getLeagueFixturesByDateRange(
+    toDateString(now),
+    toDateString(end),
+    options.leagueIds
+  );
+
+  // Pre-match odds only - skip fixtures that already kicked off
+  const fixtures = (result.data || []).filter(fixture => {
+    const kickoff = getKickoffTime(fixture);
+    return kickoff !== null && kickoff > now;
+  });
+
+  let stored = 0;
+  let failed = 0;
+
+  for (const fixture of fixtures) {
+    try {
+      stored += await snapshotFixtureOdds(fixture.id);
+    } catch (error) {
+      failed++;
+      console.error(`[OddsSnapshots] Failed to snapshot fixture ${fixture.id}:`, getErrorMessage(error));
+    }
+  }
+
+  console.log(
+    `[OddsSnapshots] Checked ${fixtures.length} upcoming fixtures in leagues ` +
+    `${options.leagueIds.join(', ')}: ${stored} price changes stored`
+  );
+
+  return {
+    fixturesChecked: fixtures.length,
+    fixturesFailed: failed,
+    pricesStored: stored
+  };
+}
+
+// ============================================
+// ODDS HISTORY
+// ============================================
+
+/**
+ * Get the stored odds history for a fixture, grouped into series
+ * @param {number} fixtureId - The SportsMonks fixture ID
+ * @param {object} filters - Optional { marketId, bookmakerId }
+ * @returns {Promise<object[]>} - One series per market/bookmaker/selection,
+ *                                each with points ordered oldest first
+ *
+ * Example: getOddsHistory(18535517, { marketId: 1 })
+ * Returns: [{ marketId: 1, bookmakerId: 2, label: "1", line: null,
+ *             points: [{ value: 2.1, capturedAt: "..." }, ...] }, ...]
+ */
+async function getOddsHistory(fixtureId: number, filters: HistoryFilters = {}) {
+  const snapshots = await prisma.oddsSnapshot.findMany({
+    where: {
+      fixtureId,
+      ...(filters.marketId ? { marketId: filters.marketId } : {}),
+      ...(filters.bookmakerId ? { bookmakerId: filters.bookmakerId } : {})
+    },
+    orderBy: { capturedAt: 'asc' }
+  });
+
+  const series = new Map<string, {
+    marketId: number;
+    bookmakerId: number;
+    label: string;
+    line: string | null;
+    points: Array<{ value: number; capturedAt: Date }>;
+  }>();
+
+  for (const snapshot of snapshots) {
+    const key = selectionKey(snapshot);
+    if (!series.has(key)) {
+      series.set(key, {
+        marketId: snapshot.marketId,
+        bookmakerId: snapshot.bookmakerId,
+        label: snapshot.label,
+        line: snapshot.line,
+        points: []
+      });
+    }
+    series.get(key)!.points.push({ value: snapshot.value, capturedAt: snapshot.capturedAt });
+  }
+
+  return [...series.values()];
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+export {
+  snapshotFixtureOdds,
+  snapshotWatchedLeagues,
+  getOddsHistory
+};
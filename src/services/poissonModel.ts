@@ -0,0 +1,450 @@
+// ============================================
+// POISSON / DIXON-COLES GOALS MODEL
+// ============================================
+// Our own goals model, fitted per league season from finished fixtures.
+//
+// Each team gets an attack and a defence strength. Expected goals:
+//   home xG = homeAdvantage * attack(home) * defence(away)
+//   away xG =                 attack(away) * defence(home)
+// (defence > 1 means the team concedes more than average).
+//
+// Fitting is weighted maximum likelihood. Older matches count less:
+//   weight = exp(-xi * days before the reference date)
+// xi = 0.0065/day (the Dixon-Coles paper's value) halves a match's
+// weight roughly every 107 days.
+//
+// Independent Poisson scores under-predict 0-0 and 1-1 and over-predict
+// 1-0 and 0-1. Dixon-Coles corrects the four low scores with a
+// factor tau(x, y) controlled by a single parameter, rho. Strengths are
+// fitted first, then rho is fitted with the strengths held fixed.
+// ============================================
+
+import { getFixtureById } from './sportsmonks.js';
+import { getKickoffTime } from './closingLines.js';
+import { getSeasonDates, loadSeasonResults, type MatchResult } from './seasonResults.js';
+
+type TeamStrength = {
+  attack: number;
+  defence: number;
+  matches: number;
+};
+
+type FittedModel = {
+  teams: Map<number, TeamStrength>;
+  homeAdvantage: number;
+  rho: number;
+  matchesUsed: number;
+  iterations: number;
+};
+
+type FitOptions = {
+  referenceDate?: Date;
+  xi?: number;
+};
+
+const round4 = (value: number) => Math.round(value * 10000) / 10000;
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+// Time decay per day (Dixon & Coles, 1997)
+const DEFAULT_XI = 0.0065;
+
+// Score matrix size (0-10 goals each); the tail beyond is negligible
+const MAX_GOALS = 10;
+
+// Strength fitting stops when no parameter moves more than this
+const TOLERANCE = 1e-6;
+const MAX_ITERATIONS = 500;
+
+// Search range for rho (fitted values are usually around -0.1)
+const RHO_BOUNDS = [-0.3, 0.3];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// HELPERS
+// ============================================
+
+// P(X = k) for X ~ Poisson(lambda)
+function poissonProbability(lambda: number, k: number): number {
+  let probability = Math.exp(-lambda);
+  for (let i = 1; i <= k; i++) {
+    probability *= lambda / i;
+  }
+  return probability;
+}
+
+/**
+ * Dixon-Coles low-score correction factor
+ * @param {number} x - Home goals
+ * @param {number} y - Away goals
+ * @param {number} lambda - Home expected goals
+ * @param {number} mu - Away expected goals
+ * @param {number} rho - Dependence parameter
+ * @returns {number} - Multiplier for the independent Poisson probability
+ */
+function tau(x: number, y: number, lambda: number, mu: number, rho: number): number {
+  if (x === 0 && y === 0) return 1 - lambda * mu * rho;
+  if (x === 0 && y === 1) return 1 + lambda * rho;
+  if (x === 1 && y === 0) return 1 + mu * rho;
+  if (x === 1 && y === 1) return 1 - rho;
+  return 1;
+}
+
+// ============================================
+// FIT TEAM STRENGTHS
+// ============================================
+
+/**
+ * Fit attack/defence strengths and home advantage (weighted Poisson MLE)
+ * @param {object[]} matches - Finished matches
+ * @param {number[]} weights - Time-decay weight per match
+ * @returns {object} - { teams, homeAdvantage, iterations }
+ *
+ * Each parameter's maximum-likelihood value given the others has a
+ * closed form (goals scored / goals expected at strength 1), so we
+ * update them in turn until nothing moves. Attack is normalized to a
+ * mean of 1 so the strengths are identifiable.
+ */
+function fitStrengths(matches: MatchResult[], weights: number[]) {
+  const teamIds = [...new Set(matches.flatMap(m => [m.homeTeamId, m.awayTeamId]))];
+  const attack = new Map(teamIds.map(id => [id, 1]));
+  const defence = new Map(teamIds.map(id => [id, 1]));
+  let homeAdvantage = 1;
+  let iterations = 0;
+
+  for (; iterations < MAX_ITERATIONS; iterations++) {
+    let maxChange = 0;
+    const update = (map: Map<number, number>, id: number, value: number) => {
+      maxChange = Math.max(maxChange, Math.abs(value - map.get(id)!));
+      map.set(id, value);
+    };
+
+    // Home advantage
+    let homeGoals = 0;
+    let homeExpected = 0;
+    matches.forEach((m, i) => {
+      homeGoals += weights[i] * m.homeGoals;
+      homeExpected += weights[i] * attack.get(m.homeTeamId)! * defence.get(m.awayTeamId)!;
+    });
+    const newHomeAdvantage = homeExpected > 0 ? homeGoals / homeExpected : 1;
+    maxChange = Math.max(maxChange, Math.abs(newHomeAdvantage - homeAdvantage));
+    homeAdvantage = newHomeAdvantage;
+
+    // Attack: goals scored / goals expected from an average attack
+    const scored = new Map(teamIds.map(id => [id, 0]));
+    const attackExposure = new Map(teamIds.map(id => [id, 0]));
+    matches.forEach((m, i) => {
+      const w = weights[i];
+      scored.set(m.homeTeamId, scored.get(m.homeTeamId)! + w * m.homeGoals);
+      scored.set(m.awayTeamId, scored.get(m.awayTeamId)! + w * m.awayGoals);
+      attackExposure.set(m.homeTeamId, attackExposure.get(m.homeTeamId)! + w * homeAdvantage * defence.get(m.awayTeamId)!);
+      attackExposure.set(m.awayTeamId, attackExposure.get(m.awayTeamId)! + w * defence.get(m.homeTeamId)!);
+    });
+    teamIds.forEach(id => {
+      if (attackExposure.get(id)! > 0) update(attack, id, scored.get(id)! / attackExposure.get(id)!);
+    });
+
+    // Defence: goals conceded / goals expected against an average defence
+    const conceded = new Map(teamIds.map(id => [id, 0]));
+    const defenceExposure = new Map(teamIds.map(id => [id, 0]));
+    matches.forEach((m, i) => {
+      const w = weights[i];
+      conceded.set(m.homeTeamId, conceded.get(m.homeTeamId)! + w * m.awayGoals);
+      conceded.set(m.awayTeamId, conceded.get(m.awayTeamId)! + w * m.homeGoals);
+      defenceExposure.set(m.homeTeamId, defenceExposure.get(m.homeTeamId)! + w * attack.get(m.awayTeamId)!);
+      defenceExposure.set(m.awayTeamId, defenceExposure.get(m.awayTeamId)! + w * homeAdvantage * attack.get(m.homeTeamId)!);
+    });
+    teamIds.forEach(id => {
+      if (defenceExposure.get(id)! > 0) update(defence, id, conceded.get(id)! / defenceExposure.get(id)!);
+    });
+
+    // Normalize: mean attack = 1 (expected goals are unchanged)
+    const meanAttack = teamIds.reduce((sum, id) => sum + attack.get(id)!, 0) / teamIds.length;
+    if (meanAttack > 0) {
+      teamIds.forEach(id => {
+        attack.set(id, attack.get(id)! / meanAttack);
+        defence.set(id, defence.get(id)! * meanAttack);
+      });
+    }
+
+    if (maxChange < TOLERANCE) break;
+  }
+
+  const matchCounts = new Map<number, number>();
+  for (const m of matches) {
+    matchCounts.set(m.homeTeamId, (matchCounts.get(m.homeTeamId) || 0) + 1);
+    matchCounts.set(m.awayTeamId, (matchCounts.get(m.awayTeamId) || 0) + 1);
+  }
+
+  const teams = new Map<number, TeamStrength>(teamIds.map(id => [id, {
+    attack: attack.get(id)!,
+    defence: defence.get(id)!,
+    matches: matchCounts.get(id) || 0
+  }]));
+
+  return { teams, homeAdvantage, iterations };
+}
+
+// ============================================
+// FIT RHO (DIXON-COLES CORRECTION)
+// ============================================
+
+/**
+ * Fit the Dixon-Coles rho with team strengths held fixed
+ * @param {object[]} matches - Finished matches
+ * @param {number[]} weights - Time-decay weight per match
+ * @param {function} expectedGoals - (match) => { lambda, mu }
+ * @returns {number} - rho maximizing the weighted log-likelihood
+ *
+ * Only tau depends on rho, and log(tau) is concave in rho, so a
+ * golden-section search over the range where every tau stays
+ * positive finds the maximum.
+ */
+function fitRho(
+  matches: MatchResult[],
+  weights: number[],
+  expectedGoals: (match: MatchResult) => { lambda: number; mu: number }
+): number {
+  let [low, high] = RHO_BOUNDS;
+  const lowScoring = matches
+    .map((m, i) => ({ ...m, weight: weights[i], ...expectedGoals(m) }))
+    .filter(m => m.homeGoals <= 1 && m.awayGoals <= 1);
+
+  if (lowScoring.length === 0) return 0;
+
+  // Keep every tau > 0
+  for (const m of lowScoring) {
+    if (m.homeGoals === 0 && m.awayGoals === 0 && m.lambda * m.mu > 0) high = Math.min(high, 1 / (m.lambda * m.mu));
+    if (m.homeGoals === 0 && m.awayGoals === 1 && m.lambda > 0) low = Math.max(low, -1 / m.lambda);
+    if (m.homeGoals === 1 && m.awayGoals === 0 && m.mu > 0) low = Math.max(low, -1 / m.mu);
+  }
+  low += 1e-6;
+  high -= 1e-6;
+
+  const logLikelihood = (rho: number) => lowScoring.reduce(
+    (sum, m) => sum + m.weight * Math.log(tau(m.homeGoals, m.awayGoals, m.lambda, m.mu, rho)),
+    0
+  );
+
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let a = low;
+  let b = high;
+  for (let i = 0; i < 100 && b - a > 1e-8; i++) {
+    const c = b - ratio * (b - a);
+    const d = a + ratio * (b - a);
+    if (logLikelihood(c) > logLikelihood(d)) b = d;
+    else a = c;
+  }
+
+  return (a + b) / 2;
+}
+
+// ============================================
+// FIT MODEL
+// ============================================
+
+/**
+ * Fit the Dixon-Coles model to a set of finished matches
+ * @param {object[]} matches - Finished matches (home/away team IDs, goals, date)
+ * @param {object} options
+ * @param {Date} options.referenceDate - Matches are decayed relative to this date (default now)
+ * @param {number} options.xi - Time decay per day (default 0.0065, 0 = no decay)
+ * @returns {object} - { teams, homeAdvantage, rho, matchesUsed, iterations }
+ */
+function fitDixonColes(matches: MatchResult[], options: FitOptions = {}): FittedModel {
+  const referenceDate = options.referenceDate ?? new Date();
+  const xi = options.xi ?? DEFAULT_XI;
+
+  const weights = matches.map(m => {
+    const daysAgo = Math.max(0, (referenceDate.getTime() - new Date(m.playedAt).getTime()) / DAY_MS);
+    return Math.exp(-xi * daysAgo);
+  });
+
+  const { teams, homeAdvantage, iterations } = fitStrengths(matches, weights);
+
+  const rho = fitRho(matches, weights, m => ({
+    lambda: homeAdvantage * teams.get(m.homeTeamId)!.attack * teams.get(m.awayTeamId)!.defence,
+    mu: teams.get(m.awayTeamId)!.attack * teams.get(m.homeTeamId)!.defence
+  }));
+
+  return {
+    teams,
+    homeAdvantage,
+    rho,
+    matchesUsed: matches.length,
+    iterations
+  };
+}
+
+// ============================================
+// SCORE MATRIX AND MARKET PROBABILITIES
+// ============================================
+
+/**
+ * Build the score probability matrix and derived market probabilities
+ * @param {number} lambda - Home expected goals
+ * @param {number} mu - Away expected goals
+ * @param {number} rho - Dixon-Coles dependence parameter
+ * @returns {object} - { scoreMatrix, probabilities, correctScores }
+ *   - scoreMatrix[home goals][away goals], 0-10 each, normalized to sum to 1
+ *   - probabilities: 1X2, double chance, BTTS, over/under 0.5-5.5 (0-1)
+ *   - correctScores: the 10 most likely scores
+ *
+ * Example: scoreProbabilities(1.6, 1.1, -0.08)
+ * Returns: { probabilities: { home: 0.4712, draw: 0.2651, away: 0.2637, ... }, ... }
+ */
+function scoreProbabilities(lambda: number, mu: number, rho: number) {
+  const matrix: number[][] = [];
+  let total = 0;
+
+  for (let x = 0; x <= MAX_GOALS; x++) {
+    matrix.push([]);
+    for (let y = 0; y <= MAX_GOALS; y++) {
+      const p = tau(x, y, lambda, mu, rho) * poissonProbability(lambda, x) * poissonProbability(mu, y);
+      matrix[x].push(p);
+      total += p;
+    }
+  }
+
+  let home = 0;
+  let draw = 0;
+  let away = 0;
+  let bttsYes = 0;
+  const totalGoals = new Array(2 * MAX_GOALS + 1).fill(0);
+  const scores: Array<{ score: string; probability: number }> = [];
+
+  for (let x = 0; x <= MAX_GOALS; x++) {
+    for (let y = 0; y <= MAX_GOALS; y++) {
+      const p = matrix[x][y] / total;
+      matrix[x][y] = p;
+
+      if (x > y) home += p;
+      else if (x === y) draw += p;
+      else away += p;
+
+      if (x > 0 && y > 0) bttsYes += p;
+      totalGoals[x + y] += p;
+      scores.push({ score: `${x}-${y}`, probability: p });
+    }
+  }
+
+  // Over/under lines 0.5 - 5.5
+  const overUnder: Record<string, { over: number; under: number }> = {};
+  let under = 0;
+  for (let goals = 0; goals <= 5; goals++) {
+    under += totalGoals[goals];
+    overUnder[`${goals}.5`] = { over: round4(1 - under), under: round4(under) };
+  }
+
+  return {
+    scoreMatrix: matrix.map(row => row.map(round4)),
+    probabilities: {
+      home: round4(home),
+      draw: round4(draw),
+      away: round4(away),
+      homeOrDraw: round4(home + draw),
+      homeOrAway: round4(home + away),
+      drawOrAway: round4(draw + away),
+      bttsYes: round4(bttsYes),
+      bttsNo: round4(1 - bttsYes),
+      overUnder
+    },
+    correctScores: scores
+      .sort((a, b) => b.probability - a.probability)
+      .slice(0, 10)
+      .map(s => ({ score: s.score, probability: round4(s.probability) }))
+  };
+}
+
+// ============================================
+// PREDICT A FIXTURE
+// ============================================
+
+/**
+ * Fit the model on the fixture's season and predict the fixture
+ * @param {number|string} fixtureId - The SportsMonks fixture ID
+ * @param {object} options
+ * @param {number} options.xi - Time decay per day (default 0.0065)
+ * @returns {Promise<object|null>} - Prediction, or null if the fixture doesn't exist
+ *
+ * Only matches played before kickoff are used, so predictions for
+ * finished fixtures can be compared with their results.
+ * homeTeam/awayTeam.matches is 0 when a team has no results yet this
+ * season (its strengths then default to average).
+ */
+async function predictFixture(fixtureId: number | string, options: { xi?: number } = {}) {
+  const xi = options.xi ?? DEFAULT_XI;
+
+  // 1. Fixture, teams and season
+  const fixtureResult = await getFixtureById(fixtureId);
+  const fixture = fixtureResult.data;
+  if (!fixture) return null;
+
+  const home = fixture.participants?.find(p => p.meta?.location === 'home');
+  const away = fixture.participants?.find(p => p.meta?.location === 'away');
+  const season = await getSeasonDates(fixture.season_id);
+  if (!home || !away || !season) return null;
+
+  // 2. Results before kickoff (or now, if kickoff is unknown or in the future)
+  const now = new Date();
+  const kickoff = getKickoffTime(fixture);
+  const referenceDate = kickoff && kickoff < now ? kickoff : now;
+  const matches = await loadSeasonResults(fixture.league_id, fixture.season_id, season.startDate, referenceDate);
+
+  // 3. Fit and predict
+  const model = fitDixonColes(matches, { referenceDate, xi });
+  const average: TeamStrength = { attack: 1, defence: 1, matches: 0 };
+  const homeStrength = model.teams.get(home.id) ?? average;
+  const awayStrength = model.teams.get(away.id) ?? average;
+
+  const lambda = model.homeAdvantage * homeStrength.attack * awayStrength.defence;
+  const mu = awayStrength.attack * homeStrength.defence;
+
+  return {
+    fixtureId: fixture.id,
+    fixtureName: fixture.name,
+    leagueId: fixture.league_id,
+    seasonId: fixture.season_id,
+    seasonName: season.name,
+    model: {
+      xi,
+      matchesUsed: model.matchesUsed,
+      homeAdvantage: round4(model.homeAdvantage),
+      rho: round4(model.rho),
+      referenceDate
+    },
+    homeTeam: {
+      id: home.id,
+      name: home.name,
+      attack: round4(homeStrength.attack),
+      defence: round4(homeStrength.defence),
+      matches: homeStrength.matches
+    },
+    awayTeam: {
+      id: away.id,
+      name: away.name,
+      attack: round4(awayStrength.attack),
+      defence: round4(awayStrength.defence),
+      matches: awayStrength.matches
+    },
+    expectedGoals: {
+      home: round4(lambda),
+      away: round4(mu)
+    },
+    ...scoreProbabilities(lambda, mu, model.rho)
+  };
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+export {
+  DEFAULT_XI,
+  fitDixonColes,
+  scoreProbabilities,
+  predictFixture
+};
@@ -0,0 +1,217 @@
+// ============================================
+// PRICING SERVICE
+// ============================================
+// Pure helpers for working with betting prices.
+// BetSmoke stores and computes everything in DECIMAL odds;
+// these helpers convert to the user's preferred display format
+// (the same formats as the User.oddsFormat preference) and
+// remove the bookmaker margin to get fair prices.
+//
+// De-vig methods (all take a complete book - every outcome of a market):
+//   - multiplicative: scale implied probabilities so they sum to 1
+//   - additive:       subtract an equal share of the margin from each outcome
+//   - power:          raise implied probabilities to a power k so they sum to 1
+//   - shin:           Shin (1993) model - assumes the margin protects against
+//                     insider money, so longshots carry more of it
+// ============================================
+
+type OddsFormat = 'AMERICAN' | 'DECIMAL' | 'FRACTIONAL';
+
+type DevigMethod = 'multiplicative' | 'additive' | 'power' | 'shin';
+
+const DEVIG_METHODS: DevigMethod[] = ['multiplicative', 'additive', 'power', 'shin'];
+
+// ============================================
+// FORMAT CONVERSIONS
+// ============================================
+
+/**
+ * Convert a decimal price to American odds
+ * @param {number} decimal - Decimal price (e.g., 2.50)
+ * @returns {string} - American odds (e.g., "+150", "-200")
+ *
+ * Example: toAmerican(2.5) → "+150", toAmerican(1.5) → "-200"
+ */
+function toAmerican(decimal: number): string {
+  if (decimal >= 2) {
+    return `+${Math.round((decimal - 1) * 100)}`;
+  }
+  return `${Math.round(-100 / (decimal - 1))}`;
+}
+
+/**
+ * Convert a decimal price to fractional odds
+ * @param {number} decimal - Decimal price (e.g., 2.50)
+ * @returns {string} - Fractional odds reduced to lowest terms (e.g., "3/2")
+ *
+ * Uses a continued-fraction approximation so prices like 1.91
+ * come out as familiar fractions (10/11) rather than 91/100.
+ */
+function toFractional(decimal: number): string {
+  const value = decimal - 1;
+  if (value <= 0) return '0/1';
+
+  // Continued fraction approximation with bounded denominator
+  let [h1, h0] = [1, 0];
+  let [k1, k0] = [0, 1];
+  let x = value;
+
+  for (let i = 0; i < 20; i++) {
+    const a = Math.floor(x);
+    [h1, h0] = [a * h1 + h0, h1];
+    [k1, k0] = [a * k1 + k0, k1];
+
+    if (Math.abs(value - h1 / k1) < 0.005 || k1 > 100) break;
+    x = 1 / (x - a);
+  }
+
+  return `${h1}/${k1}`;
+}
+
+/**
+ * Format a decimal price in the given odds format
+ * @param {number|null} decimal - Decimal price
+ * @param {string} format - AMERICAN, DECIMAL or FRACTIONAL (defaults to AMERICAN like User.oddsFormat)
+ * @returns {string|null} - Formatted price, or null if no price
+ */
+function formatPrice(decimal: number | null | undefined, format: OddsFormat = 'AMERICAN'): string | null {
+  if (decimal === null || decimal === undefined || !(decimal > 1)) return null;
+
+  switch (format) {
+    case 'DECIMAL':
+      return decimal.toFixed(2);
+    case 'FRACTIONAL':
+      return toFractional(decimal);
+    case 'AMERICAN':
+    default:
+      return toAmerican(decimal);
+  }
+}
+
+/**
+ * Express a decimal price in all three formats, shaped like a SportsMonks odd
+ * @param {number} decimal - Decimal price
+ * @returns {object} - { value, american, fractional }
+ *
+ * Lets computed prices (consensus, fair odds) be displayed with the same
+ * frontend formatter as raw SportsMonks odds.
+ *
+ * Example: toOddsValue(2.5) → { value: "2.50", american: "+150", fractional: "3/2" }
+ */
+function toOddsValue(decimal: number) {
+  return {
+    value: decimal.toFixed(2),
+    american: toAmerican(decimal),
+    fractional: toFractional(decimal)
+  };
+}
+
+// ============================================
+// IMPLIED PROBABILITY & MARGIN
+// ============================================
+
+/**
+ * Implied probability of a decimal price
+ * @param {number} decimal - Decimal price (e.g., 2.00)
+ * @returns {number} - Probability between 0 and 1 (e.g., 0.5)
+ */
+function impliedProbability(decimal: number): number {
+  return 1 / decimal;
+}
+
+/**
+ * Bookmaker margin (overround) of a complete book
+ * @param {number[]} prices - Decimal prices for every outcome of a market
+ * @returns {number} - Overround as a fraction (e.g., 0.05 = 5% margin)
+ *
+ * Example: overround([1.91, 1.91]) → 0.0471
+ */
+function overround(prices: number[]): number {
+  return prices.reduce((sum, price) => sum + impliedProbability(price), 0) - 1;
+}
+
+// ============================================
+// DE-VIG (MARGIN REMOVAL)
+// ============================================
+
+// Bisection solver for the power and Shin methods.
+// fn must be decreasing on [low, high] and cross zero in that range.
+function solveDecreasing(fn: (x: number) => number, low: number, high: number): number {
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2;
+    if (fn(mid) > 0) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+    if (high - low < 1e-10) break;
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Remove the bookmaker margin from a complete book
+ * @param {number[]} prices - Decimal prices for every outcome of a market
+ * @param {string} method - multiplicative, additive, power or shin (default multiplicative)
+ * @returns {number[]} - Fair probabilities in the same order, summing to 1
+ *
+ * Books with no margin (or a negative one, e.g., best prices across
+ * bookmakers) are only normalized - there is nothing to remove.
+ *
+ * Example: devig([1.8, 2.05], 'multiplicative') → [0.5325, 0.4675]
+ */
+function devig(prices: number[], method: DevigMethod = 'multiplicative'): number[] {
+  const implied = prices.map(impliedProbability);
+  const booksum = implied.reduce((sum, p) => sum + p, 0);
+
+  if (booksum <= 1 || method === 'multiplicative') {
+    return implied.map(p => p / booksum);
+  }
+
+  if (method === 'additive') {
+    // Equal share of the margin from each outcome. Longshots can go
+    // negative, so clamp at 0 and renormalize.
+    const share = (booksum - 1) / implied.length;
+    const fair = implied.map(p => Math.max(p - share, 0));
+    const total = fair.reduce((sum, p) => sum + p, 0);
+    return fair.map(p => p / total);
+  }
+
+  if (method === 'power') {
+    // Find k > 1 where sum(p^k) = 1 (the sum falls as k rises)
+    const k = solveDecreasing(
+      x => implied.reduce((sum, p) => sum + Math.pow(p, x), 0) - 1,
+      1,
+      100
+    );
+    return implied.map(p => Math.pow(p, k));
+  }
+
+  // Shin: find the insider share z in [0, 1) where the fair probabilities sum to 1
+  const shinProbabilities = (z: number) =>
+    implied.map(p => (Math.sqrt(z * z + 4 * (1 - z) * (p * p) / booksum) - z) / (2 * (1 - z)));
+
+  const z = solveDecreasing(
+    x => shinProbabilities(x).reduce((sum, p) => sum + p, 0) - 1,
+    0,
+    0.999
+  );
+  return shinProbabilities(z);
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+export type { OddsFormat, DevigMethod };
+
+export {
+  DEVIG_METHODS,
+  toAmerican,
+  toFractional,
+  toOddsValue,
+  formatPrice,
+  impliedProbability,
+  overround,
+  devig
+};
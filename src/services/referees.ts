@@ -0,0 +1,200 @@
+// ============================================
+// REFEREES SERVICE
+// ============================================
+// A referee's tendencies for card and penalty markets, aggregated from
+// the finished matches they took charge of in the warehouse:
+//   - yellow and red cards per game (from match events)
+//   - penalties awarded per game (scored or missed)
+//   - fouls per game (from match statistics)
+//   - home/away split of each, plus home win/draw/away win rates
+//
+// Only stored seasons count, so a referee's numbers cover the
+// warehouse leagues and seasons (see warehouse.ts). The referee's
+// profile (name, photo, country) comes from SportsMonks.
+// ============================================
+
+import prisma from '../db.js';
+import { FINISHED_STATES } from './settlement.js';
+
+type RefereeFilters = {
+  seasonId?: number;
+  leagueId?: number;
+  last?: number;          // Only the most recent N matches
+};
+
+// Home and away counts of one kind of event or statistic
+type SideSplit = {
+  total: number;
+  perGame: number | null;
+  homePerGame: number | null;
+  awayPerGame: number | null;
+};
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+// SportsMonks event type IDs
+const EVENT_TYPES = {
+  PENALTY: 16,            // Penalty scored
+  MISSED_PENALTY: 17,
+  YELLOW_CARD: 19,
+  RED_CARD: 20,
+  YELLOW_RED_CARD: 21     // Second yellow
+};
+
+// SportsMonks statistic type ID for fouls
+const FOULS_TYPE_ID = 56;
+
+// Recent matches listed with the aggregates
+const RECENT_FIXTURES = 10;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const perGame = (total: number, games: number) => (games > 0 ? round2(total / games) : null);
+
+const percent = (numerator: number, denominator: number) =>
+  denominator > 0 ? round2((numerator / denominator) * 100) : null;
+
+// ============================================
+// AGGREGATE
+// ============================================
+
+function toSideSplit(home: number, away: number, games: number): SideSplit {
+  return {
+    total: home + away,
+    perGame: perGame(home + away, games),
+    homePerGame: perGame(home, games),
+    awayPerGame: perGame(away, games)
+  };
+}
+
+/**
+ * Aggregate a referee's finished matches from the warehouse
+ * @param {number} refereeId - The SportsMonks referee ID
+ * @param {object} filters - { seasonId, leagueId, last } (all optional)
+ * @returns {Promise<object>} - { games, results, yellowCards, redCards, penalties, fouls, recentFixtures }
+ */
+async function getRefereeStats(refereeId: number, filters: RefereeFilters = {}) {
+  // 1. The referee's finished matches, most recent first
+  const fixtures = await prisma.warehouseFixture.findMany({
+    where: {
+      refereeId,
+      state: { in: FINISHED_STATES },
+      ...(filters.seasonId !== undefined && { seasonId: filters.seasonId }),
+      ...(filters.leagueId !== undefined && { leagueId: filters.leagueId })
+    },
+    include: {
+      events: {
+        where: { typeId: { in: Object.values(EVENT_TYPES) } }
+      },
+      statistics: {
+        where: { typeId: FOULS_TYPE_ID }
+      }
+    },
+    orderBy: { startingAt: 'desc' },
+    ...(filters.last !== undefined && { take: filters.last })
+  });
+
+  const teamIds = [...new Set(fixtures.flatMap(f => [f.homeTeamId, f.awayTeamId]))]
+    .filter((id): id is number => id !== null);
+  const teams = await prisma.warehouseTeam.findMany({ where: { id: { in: teamIds } } });
+  const teamNames = new Map(teams.map(team => [team.id, team.name]));
+
+  // 2. Count each match's events and fouls by side
+  const totals = {
+    yellow: [0, 0],
+    red: [0, 0],
+    penalties: [0, 0],
+    fouls: [0, 0]
+  };
+  let foulGames = 0;
+  let homeWins = 0;
+  let draws = 0;
+  let awayWins = 0;
+
+  const recentFixtures = fixtures.map((fixture) => {
+    const side = (teamId: number | null) =>
+      (teamId === fixture.homeTeamId ? 0 : teamId === fixture.awayTeamId ? 1 : null);
+
+    const counts = { yellow: [0, 0], red: [0, 0], penalties: [0, 0] };
+    for (const event of fixture.events) {
+      const index = side(event.teamId);
+      if (index === null) continue;
+
+      if (event.typeId === EVENT_TYPES.YELLOW_CARD) counts.yellow[index]++;
+      else if (event.typeId === EVENT_TYPES.RED_CARD || event.typeId === EVENT_TYPES.YELLOW_RED_CARD) counts.red[index]++;
+      else counts.penalties[index]++;
+    }
+
+    // Fouls only count towards matches that recorded them
+    const fouls = [0, 0];
+    for (const stat of fixture.statistics) {
+      const index = side(stat.teamId);
+      if (index !== null && stat.value !== null) fouls[index] += stat.value;
+    }
+    if (fixture.statistics.length > 0) {
+      foulGames++;
+      totals.fouls[0] += fouls[0];
+      totals.fouls[1] += fouls[1];
+    }
+
+    for (const key of ['yellow', 'red', 'penalties'] as const) {
+      totals[key][0] += counts[key][0];
+      totals[key][1] += counts[key][1];
+    }
+
+    if (fixture.homeGoals !== null && fixture.awayGoals !== null) {
+      if (fixture.homeGoals > fixture.awayGoals) homeWins++;
+      else if (fixture.homeGoals < fixture.awayGoals) awayWins++;
+      else draws++;
+    }
+
+    return {
+      fixtureId: fixture.id,
+      name: fixture.name,
+      leagueId: fixture.leagueId,
+      seasonId: fixture.seasonId,
+      startingAt: fixture.startingAt,
+      homeTeamId: fixture.homeTeamId,
+      homeTeamName: fixture.homeTeamId !== null ? teamNames.get(fixture.homeTeamId) ?? null : null,
+      awayTeamId: fixture.awayTeamId,
+      awayTeamName: fixture.awayTeamId !== null ? teamNames.get(fixture.awayTeamId) ?? null : null,
+      homeGoals: fixture.homeGoals,
+      awayGoals: fixture.awayGoals,
+      yellowCards: counts.yellow[0] + counts.yellow[1],
+      redCards: counts.red[0] + counts.red[1],
+      penalties: counts.penalties[0] + counts.penalties[1]
+    };
+  });
+
+  // 3. Per-game rates
+  const games = fixtures.length;
+
+  return {
+    games,
+    results: {
+      homeWins,
+      draws,
+      awayWins,
+      homeWinRate: percent(homeWins, games),
+      drawRate: percent(draws, games),
+      awayWinRate: percent(awayWins, games)
+    },
+    yellowCards: toSideSplit(totals.yellow[0], totals.yellow[1], games),
+    redCards: toSideSplit(totals.red[0], totals.red[1], games),
+    penalties: toSideSplit(totals.penalties[0], totals.penalties[1], games),
+    fouls: { ...toSideSplit(totals.fouls[0], totals.fouls[1], foulGames), games: foulGames },
+    recentFixtures: recentFixtures.slice(0, RECENT_FIXTURES)
+  };
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+export type { RefereeFilters, SideSplit };
+
+export {
+  getRefereeStats
+};
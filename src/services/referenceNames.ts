@@ -0,0 +1,80 @@
+// ============================================
+// REFERENCE NAMES SERVICE
+// ============================================
+// ID -> name lookups for SportsMonks leagues, markets and bookmakers.
+//
+// Odds and bets only carry IDs; these lists turn them into labels.
+// Each list is fetched once and cached for 24 hours. Lookups are
+// best-effort: if SportsMonks is unavailable an empty map is returned
+// and callers fall back to "Market 12" style labels.
+// ============================================
+
+import cache from './cache.js';
+import { getAllLeagues, getAllMarkets, getAllBookmakers } from './sportsmonks.js';
+
+type NameLookups = {
+  leagues: Map<number, string>;
+  markets: Map<number, string>;
+  bookmakers: Map<number, string>;
+};
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Unknown error';
+
+// ============================================
+// LOAD A REFERENCE LIST
+// ============================================
+
+/**
+ * Load one reference list as an ID -> name map
+ * @param {string} name - Cache name (e.g., "leagues", "markets", "bookmakers")
+ * @param {function} fetchFn - SportsMonks function returning { data: [{ id, name }] }
+ * @returns {Promise<Map>} - ID -> name map (empty if the fetch failed)
+ */
+async function loadReferenceNames(
+  name: string,
+  fetchFn: () => Promise<{ data?: Array<{ id: number; name: string }> }>
+): Promise<Map<number, string>> {
+  try {
+    const items = await cache.getOrFetch<Array<{ id: number; name: string }>>(
+      cache.keys.reference(name),
+      async () => {
+        const result = await fetchFn();
+        return (result.data || []).map(item => ({ id: item.id, name: item.name }));
+      },
+      cache.TTL.REFERENCE
+    );
+    return new Map(items.map(item => [item.id, item.name]));
+  } catch (error) {
+    console.error(`[ReferenceNames] Failed to load ${name} names:`, getErrorMessage(error));
+    return new Map();
+  }
+}
+
+// ============================================
+// LOAD ALL LOOKUPS
+// ============================================
+
+/**
+ * Load league, market and bookmaker name lookups
+ * @returns {Promise<object>} - { leagues, markets, bookmakers } ID -> name maps
+ */
+async function loadNameLookups(): Promise<NameLookups> {
+  const [leagues, markets, bookmakers] = await Promise.all([
+    loadReferenceNames('leagues', getAllLeagues),
+    loadReferenceNames('markets', getAllMarkets),
+    loadReferenceNames('bookmakers', getAllBookmakers)
+  ]);
+  return { leagues, markets, bookmakers };
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+export type { NameLookups };
+
+export {
+  loadReferenceNames,
+  loadNameLookups
+};
@@ -0,0 +1,150 @@
+// ============================================
+// SEASON RESULTS SERVICE
+// ============================================
+// Loads a league season's finished results as plain match records
+// (teams, 90-minute score, kickoff) for the goals model and ratings.
+//
+// SportsMonks limits fixtures/between to 100 days per request, so a
+// season is fetched in windows. Results are cached per season and
+// end date.
+// ============================================
+
+import cache from './cache.js';
+import { getLeagueResultsByDateRange, getSeasonById } from './sportsmonks.js';
+import { FINISHED_STATES, getFinalScore } from './settlement.js';
+import { getKickoffTime } from './closingLines.js';
+
+type AnyRecord = Record<string, any>;
+
+type MatchResult = {
+  fixtureId: number;
+  leagueId: number;
+  seasonId: number;
+  homeTeamId: number;
+  homeTeamName: string;
+  awayTeamId: number;
+  awayTeamName: string;
+  homeGoals: number;
+  awayGoals: number;
+  playedAt: string;
+};
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+// SportsMonks fixtures/between is limited to 100 days per request
+const MAX_RANGE_DAYS = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// "2025-01-11" (UTC) for SportsMonks date params
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+
+// ============================================
+// SEASON DATES
+// ============================================
+
+/**
+ * Get a season's dates (cached like the corners endpoint)
+ * @param {number|string} seasonId - The SportsMonks season ID
+ * @returns {Promise<object|null>} - { id, name, startDate, endDate, leagueId, leagueName } or null
+ */
+async function getSeasonDates(seasonId: number | string) {
+  const seasonCacheKey = cache.keys.season(seasonId);
+  let seasonData = await cache.get<AnyRecord>(seasonCacheKey);
+
+  if (!seasonData) {
+    const seasonResult = await getSeasonById(seasonId);
+    if (!seasonResult.data) return null;
+
+    seasonData = {
+      id: seasonResult.data.id,
+      name: seasonResult.data.name,
+      startDate: seasonResult.data.starting_at,
+      endDate: seasonResult.data.ending_at,
+      leagueId: seasonResult.data.league_id,
+      leagueName: seasonResult.data.league?.name
+    };
+    await cache.set(seasonCacheKey, seasonData, cache.TTL.SEASON);
+  }
+
+  return seasonData;
+}
+
+// ============================================
+// LOAD SEASON RESULTS
+// ============================================
+
+/**
+ * Load a season's finished results played before a date
+ * @param {number} leagueId - The SportsMonks league ID
+ * @param {number} seasonId - The SportsMonks season ID
+ * @param {string} startDate - Season start (YYYY-MM-DD)
+ * @param {Date} before - Only matches kicking off before this time
+ * @returns {Promise<object[]>} - Results with the 90-minute score, oldest first
+ */
+async function loadSeasonResults(
+  leagueId: number,
+  seasonId: number,
+  startDate: string,
+  before: Date
+): Promise<MatchResult[]> {
+  const endDate = toDateString(before);
+
+  const results = await cache.getOrFetch<MatchResult[]>(
+    cache.keys.results(seasonId, endDate),
+    async () => {
+      const fixtures: AnyRecord[] = [];
+      let windowStart = new Date(`${startDate}T00:00:00Z`);
+      const end = new Date(`${endDate}T00:00:00Z`);
+
+      while (windowStart <= end) {
+        const windowEnd = new Date(Math.min(end.getTime(), windowStart.getTime() + (MAX_RANGE_DAYS - 1) * DAY_MS));
+        const result = await getLeagueResultsByDateRange(toDateString(windowStart), toDateString(windowEnd), [leagueId]);
+        fixtures.push(...(result.data || []));
+        windowStart = new Date(windowEnd.getTime() + DAY_MS);
+      }
+
+      const matches: MatchResult[] = [];
+      for (const fixture of fixtures) {
+        if (fixture.season_id !== seasonId || !FINISHED_STATES.includes(fixture.state?.state)) continue;
+
+        const home = fixture.participants?.find((p: AnyRecord) => p.meta?.location === 'home');
+        const away = fixture.participants?.find((p: AnyRecord) => p.meta?.location === 'away');
+        const score = getFinalScore(fixture);
+        const kickoff = getKickoffTime(fixture);
+        if (!home || !away || !score || !kickoff) continue;
+
+        matches.push({
+          fixtureId: fixture.id,
+          leagueId,
+          seasonId,
+          homeTeamId: home.id,
+          homeTeamName: home.name,
+          awayTeamId: away.id,
+          awayTeamName: away.name,
+          homeGoals: score.home,
+          awayGoals: score.away,
+          playedAt: kickoff.toISOString()
+        });
+      }
+
+      return matches.sort((a, b) => a.playedAt.localeCompare(b.playedAt));
+    },
+    cache.TTL.RESULTS
+  );
+
+  return results.filter(m => new Date(m.playedAt) < before);
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+export type { MatchResult };
+
+export {
+  getSeasonDates,
+  loadSeasonResults
+};
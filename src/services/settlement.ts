@@ -0,0 +1,293 @@
+// ============================================
+// BET SETTLEMENT SERVICE
+// ============================================
+// Settles bets from the bet journal against final scores.
+//
+// Pending bets are grouped by fixture, each fixture is fetched once
+// through getFixtureById, and once the match state reaches FT every
+// bet on that fixture is graded and its profit recorded.
+//
+// Only markets that can be graded from the final score alone are
+// settled automatically. Anything else stays PENDING and can be
+// settled manually via PUT /bets/:id.
+// ============================================
+
+import prisma from '../db.js';
+import { getFixtureById } from './sportsmonks.js';
+import type { Fixture } from '../types/sportsmonks.js';
+
+type BetOutcome = 'WON' | 'LOST' | 'VOID';
+
+type FinalScore = {
+  home: number;
+  away: number;
+};
+
+type GradableBet = {
+  marketId: number;
+  selection: string;
+  line?: number | null;
+};
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Unknown error';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+// Match states that mean the result is final
+// AET / FT_PEN are included so cup ties still settle - 90-minute markets
+// are graded on the regular-time score (see getFinalScore)
+const FINISHED_STATES = ['FT', 'AET', 'FT_PEN'];
+
+// Markets we can grade from the final score
+// (IDs match the SportsMonks odds markets used on the frontend)
+const MARKETS = {
+  FULLTIME_RESULT: [1, 28075],   // 1X2
+  OVER_UNDER: [12],              // Over/Under Goals
+  BTTS: [14],                    // Both Teams to Score
+  DOUBLE_CHANCE: [63],           // 1X / X2 / 12
+  EXACT_GOALS: [97],             // Exact total goals
+  ODD_EVEN: [99]                 // Odd/Even total goals
+};
+
+// ============================================
+// HELPER: Extract the final score
+// ============================================
+// SportsMonks scores are an array of { description, score: { goals, participant } }.
+// "CURRENT" is the live/final score (including extra time).
+// "2ND_HALF" is the cumulative score at 90 minutes.
+//
+// For matches decided in extra time we use the 90-minute score,
+// since standard betting markets settle on regular time.
+
+function getFinalScore(fixture: Pick<Fixture, 'scores' | 'state'>): FinalScore | null {
+  const scores = fixture.scores || [];
+  const state = fixture.state?.state;
+
+  const findGoals = (description: string, participant: string) =>
+    scores.find(s => s.description === description && s.score?.participant === participant)
+      ?.score?.goals;
+
+  const descriptions = state === 'FT' ? ['CURRENT', '2ND_HALF'] : ['2ND_HALF', 'CURRENT'];
+
+  for (const description of descriptions) {
+    const home = findGoals(description, 'home');
+    const away = findGoals(description, 'away');
+    if (typeof home === 'number' && typeof away === 'number') {
+      return { home, away };
+    }
+  }
+
+  return null;
+}
+
+// ============================================
+// HELPER: Parse a line from a selection label
+// ============================================
+// "Over 2.5" -> 2.5, "Under 3" -> 3, "Yes" -> null
+
+function parseLine(selection: string): number | null {
+  const match = selection.match(/(\d+(?:\.\d+)?)/);
+  return match ? parseFloat(match[1]) : null;
+}
+
+// ============================================
+// GRADE A SELECTION
+// ============================================
+
+/**
+ * Grade a single selection against a final score.
+ * @param {object} bet - { marketId, selection, line? }
+ * @param {object} score - Final score { home, away }
+ * @returns {string|null} - 'WON', 'LOST', 'VOID', or null if the market can't be graded
+ *
+ * Example: gradeSelection({ marketId: 1, selection: '1' }, { home: 2, away: 1 })
+ * Returns: 'WON'
+ */
+function gradeSelection(bet: GradableBet, score: FinalScore): BetOutcome | null {
+  const selection = bet.selection.trim().toLowerCase();
+  const totalGoals = score.home + score.away;
+  const result = score.home > score.away ? '1' : score.home < score.away ? '2' : 'x';
+
+  // Fulltime Result (1X2)
+  if (MARKETS.FULLTIME_RESULT.includes(bet.marketId)) {
+    let picked: string | null = null;
+    if (selection === '1' || selection === 'home') picked = '1';
+    if (selection === 'x' || selection === 'draw') picked = 'x';
+    if (selection === '2' || selection === 'away') picked = '2';
+    if (!picked) return null;
+    return picked === result ? 'WON' : 'LOST';
+  }
+
+  // Double Chance
+  if (MARKETS.DOUBLE_CHANCE.includes(bet.marketId)) {
+    const covered: Record<string, string[]> = {
+      '1x': ['1', 'x'],
+      'x2': ['x', '2'],
+      '12': ['1', '2']
+    };
+    const outcomes = covered[selection.replace(/\s|\//g, '')];
+    if (!outcomes) return null;
+    return outcomes.includes(result) ? 'WON' : 'LOST';
+  }
+
+  // Both Teams to Score
+  if (MARKETS.BTTS.includes(bet.marketId)) {
+    const bothScored = score.home > 0 && score.away > 0;
+    if (selection === 'yes') return bothScored ? 'WON' : 'LOST';
+    if (selection === 'no') return bothScored ? 'LOST' : 'WON';
+    return null;
+  }
+
+  // Over/Under Goals
+  // Half lines (2.5) always settle; whole lines (3) push when equal.
+  // Quarter lines (2.25, 2.75) are split bets and are left for manual settlement.
+  if (MARKETS.OVER_UNDER.includes(bet.marketId)) {
+    const line = bet.line ?? parseLine(selection);
+    if (line === null || (line * 4) % 2 === 1) return null;
+
+    const isOver = selection.startsWith('over') || selection.startsWith('more');
+    const isUnder = selection.startsWith('under') || selection.startsWith('less');
+    if (!isOver && !isUnder) return null;
+
+    if (totalGoals === line) return 'VOID';
+    const overWins = totalGoals > line;
+    return (isOver ? overWins : !overWins) ? 'WON' : 'LOST';
+  }
+
+  // Exact Goals ("0", "1", ..., "6+")
+  if (MARKETS.EXACT_GOALS.includes(bet.marketId)) {
+    const exact = selection.match(/^(\d+)(\+)?/);
+    if (!exact) return null;
+    const goals = parseInt(exact[1], 10);
+    const won = exact[2] ? totalGoals >= goals : totalGoals === goals;
+    return won ? 'WON' : 'LOST';
+  }
+
+  // Odd/Even
+  if (MARKETS.ODD_EVEN.includes(bet.marketId)) {
+    if (selection === 'odd') return totalGoals % 2 === 1 ? 'WON' : 'LOST';
+    if (selection === 'even') return totalGoals % 2 === 0 ? 'WON' : 'LOST';
+    return null;
+  }
+
+  // Unsupported market - needs manual settlement
+  return null;
+}
+
+/**
+ * Calculate net profit for a settled bet.
+ * @param {string} status - WON, LOST or VOID
+ * @param {number} stake - Amount staked
+ * @param {number} price - Decimal price taken
+ * @returns {number} - Net profit (negative for a loss)
+ */
+function calculateProfit(status: BetOutcome, stake: number, price: number): number {
+  if (status === 'WON') return parseFloat((stake * (price - 1)).toFixed(2));
+  if (status === 'LOST') return -stake;
+  return 0;
+}
+
+// ============================================
+// SETTLE PENDING BETS
+// ============================================
+
+/**
+ * Settle all pending bets whose fixtures have finished.
+ * @param {object} options
+ * @param {string} options.userId - Only settle this user's bets (optional, default: all users)
+ * @returns {Promise<object>} - Counts of checked fixtures and settled/skipped bets
+ *
+ * Each fixture is fetched once, no matter how many bets reference it.
+ * A failure on one fixture is logged and does not stop the others.
+ */
+async function settlePendingBets(options: { userId?: string } = {}) {
+  const pendingBets = await prisma.bet.findMany({
+    where: {
+      status: 'PENDING',
+      ...(options.userId ? { userId: options.userId } : {})
+    }
+  });
+
+  // Group bets by fixture so each fixture is only fetched once
+  const betsByFixture = new Map<number, typeof pendingBets>();
+  for (const bet of pendingBets) {
+    if (!betsByFixture.has(bet.fixtureId)) {
+      betsByFixture.set(bet.fixtureId, []);
+    }
+    betsByFixture.get(bet.fixtureId)!.push(bet);
+  }
+
+  let settled = 0;
+  let unsupported = 0;
+  let fixturesFinished = 0;
+
+  for (const [fixtureId, bets] of betsByFixture) {
+    try {
+      const result = await getFixtureById(fixtureId);
+      const fixture = result.data;
+
+      // Not finished yet - try again next run
+      if (!fixture?.state || !FINISHED_STATES.includes(fixture.state.state)) continue;
+
+      const score = getFinalScore(fixture);
+      if (!score) continue;
+
+      fixturesFinished++;
+
+      for (const bet of bets) {
+        const status = gradeSelection(bet, score);
+
+        if (!status) {
+          unsupported++;
+          continue;
+        }
+
+        // Only while still pending - the user may have settled or voided
+        // it by hand since it was read
+        const updated = await prisma.bet.updateMany({
+          where: { id: bet.id, status: 'PENDING' },
+          data: {
+            status,
+            profit: calculateProfit(status, bet.stake, bet.price),
+            settledAt: new Date(),
+            // Fill in fixture context if it couldn't be looked up when the bet was recorded
+            leagueId: bet.leagueId ?? fixture.league_id ?? null,
+            fixtureName: bet.fixtureName ?? fixture.name ?? null
+          }
+        });
+        if (updated.count === 0) continue;
+        settled++;
+      }
+    } catch (error) {
+      console.error(`[Settlement] Failed to settle fixture ${fixtureId}:`, getErrorMessage(error));
+    }
+  }
+
+  console.log(
+    `[Settlement] Checked ${betsByFixture.size} fixtures (${fixturesFinished} finished): ` +
+    `${settled} bets settled, ${unsupported} need manual settlement`
+  );
+
+  return {
+    pendingBets: pendingBets.length,
+    fixturesChecked: betsByFixture.size,
+    fixturesFinished,
+    settled,
+    unsupported
+  };
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+export {
+  FINISHED_STATES,
+  getFinalScore,
+  gradeSelection,
+  calculateProfit,
+  settlePendingBets
+};
@@ -6,15 +6,44 @@
 // the API details (base URL, authentication, error handling).
 // ============================================
 
+import { cachedRequest } from './apiCache.js';
+import { coalesce } from './apiBudget.js';
+import { requestJson } from './apiClient.js';
+import { z } from 'zod';
+import {
+  BookmakerSchema,
+  CoachSchema,
+  FixtureSchema,
+  LeagueSchema,
+  MarketSchema,
+  OddSchema,
+  ParticipantSchema,
+  PlayerSchema,
+  PredictabilitySchema,
+  RefereeSchema,
+  SeasonSchema,
+  SquadMemberSchema,
+  StageSchema,
+  StandingSchema,
+  TopScorerSchema,
+  TransferSchema,
+  validateResponse
+} from './sportsmonksSchemas.js';
+import type { SportsMonksResponse } from '../types/sportsmonks.js';
+
 // ============================================
 // CONFIGURATION
 // ============================================
 
+// Root of the SportsMonks API - point SPORTSMONKS_API_URL at the local
+// stub server (tests/support/sportsmonksStub.ts) to work offline
+const API_URL = process.env.SPORTSMONKS_API_URL || 'https://api.sportmonks.com/v3';
+
 // Base URL for SportsMonks Football API requests
-const BASE_URL = 'https://api.sportmonks.com/v3/football';
+const BASE_URL = `${API_URL}/football`;
 
 // Base URL for SportsMonks Odds API requests (bookmakers, markets)
-const ODDS_BASE_URL = 'https://api.sportmonks.com/v3/odds';
+const ODDS_BASE_URL = `${API_URL}/odds`;
 
 // Get the API key from environment variables
 const API_KEY = process.env.SPORTSMONKS_API_KEY;
@@ -26,6 +55,14 @@ if (!API_KEY) {
 const getErrorMessage = (error: unknown) =>
   error instanceof Error ? error.message : 'Unknown error';
 
+type RequestOptions = {
+  cache?: boolean;  // false = always call the API (default: cached)
+};
+
+// How the data field of a response is checked (see sportsmonksSchemas.ts)
+const one = <T>(schema: z.ZodType<T>) => schema;
+const many = <T>(schema: z.ZodType<T>) => z.array(schema);
+
 type IncludeOptions = {
   includeOdds?: boolean;
   includeSidelined?: boolean;
@@ -36,12 +73,19 @@ type IncludeOptions = {
 // ============================================
 // This private helper handles the actual HTTP requests to SportsMonks.
 // It automatically adds the API token and handles errors.
-
-async function makeRequest(
+// Responses are cached per endpoint (see apiCache.ts) unless
+// options.cache is false. Identical requests in flight share one call,
+// and calls wait when the rate limit is nearly used up (see apiBudget.ts).
+// Failures are thrown as typed SportsMonks errors (see apiErrors.ts), and
+// the data is checked against the schema before it's cached.
+
+async function makeRequest<T>(
+  schema: z.ZodType<T>,
   endpoint: string,
   includes: string[] = [],
-  useOddsBaseUrl = false
-): Promise<any> {
+  useOddsBaseUrl = false,
+  options: RequestOptions = {}
+): Promise<SportsMonksResponse<T>> {
   // Build the full URL
   // Use ODDS_BASE_URL for bookmakers/markets, BASE_URL for everything else
   const baseUrl = useOddsBaseUrl ? ODDS_BASE_URL : BASE_URL;
@@ -58,28 +102,29 @@ async function makeRequest(
     url += `&include=${includes.join(';')}`;
   }
 
-  console.log(`[SportsMonks] Requesting: ${endpoint}`); // Log for debugging
+  const requestKey = `${useOddsBaseUrl ? 'odds' : 'football'}:${endpoint}|${includes.join(';')}`;
 
-  try {
-    // Make the HTTP request using fetch (built into Node 18+)
-    const response = await fetch(url);
+  const fetchFromApi = () => coalesce(requestKey, async () => {
+    console.log(`[SportsMonks] Requesting: ${endpoint}`); // Log for debugging
 
-    // Parse the JSON response
-    const data = await response.json();
+    try {
+      // Timeouts, retries, rate limit budget and the circuit breaker
+      // are handled by the client (see apiClient.ts)
+      const data = await requestJson(url, endpoint);
+      return validateResponse(schema, data, endpoint);
 
-    // Check if SportsMonks returned an error
-    if (!response.ok) {
-      throw new Error(data.message || `API error: ${response.status}`);
+    } catch (error) {
+      // Log the error and re-throw for the route to handle
+      console.error(`[SportsMonks] Error: ${getErrorMessage(error)}`);
+      throw error;
     }
+  });
 
-    // Return the data
-    return data;
-
-  } catch (error) {
-    // Log the error and re-throw for the route to handle
-    console.error(`[SportsMonks] Error: ${getErrorMessage(error)}`);
-    throw error;
+  if (options.cache === false) {
+    return fetchFromApi();
   }
+
+  return cachedRequest({ endpoint, includes, odds: useOddsBaseUrl, paginated: false }, fetchFromApi);
 }
 
 // ============================================
@@ -88,61 +133,70 @@ async function makeRequest(
 // Fetches ALL pages of results from SportsMonks API.
 // Use this for endpoints that may return many results (fixtures by date range).
 // SportsMonks returns max 50 results per page.
+// The merged result is validated and cached like makeRequest's.
 
-async function makeRequestPaginated(
+async function makeRequestPaginated<T>(
+  schema: z.ZodType<T>,
   endpoint: string,
   includes: string[] = [],
-  useOddsBaseUrl = false
-): Promise<{ data: any[] }> {
+  useOddsBaseUrl = false,
+  options: RequestOptions = {}
+): Promise<{ data: T[] }> {
   const baseUrl = useOddsBaseUrl ? ODDS_BASE_URL : BASE_URL;
-  let allData: any[] = [];
-  let currentPage = 1;
-  let hasMore = true;
+  const requestKey = `${useOddsBaseUrl ? 'odds' : 'football'}:all:${endpoint}|${includes.join(';')}`;
 
-  console.log(`[SportsMonks] Requesting (paginated): ${endpoint}`);
+  const fetchAllPages = () => coalesce(requestKey, async () => {
+    let allData: unknown[] = [];
+    let currentPage = 1;
+    let hasMore = true;
 
-  while (hasMore) {
-    // Build URL with pagination params
-    let url = `${baseUrl}${endpoint}`;
-    const separator = url.includes('?') ? '&' : '?';
-    url += `${separator}api_token=${API_KEY}&per_page=50&page=${currentPage}`;
+    console.log(`[SportsMonks] Requesting (paginated): ${endpoint}`);
 
-    if (includes.length > 0) {
-      url += `&include=${includes.join(';')}`;
-    }
-
-    try {
-      const response = await fetch(url);
-      const data = await response.json();
+    while (hasMore) {
+      // Build URL with pagination params
+      let url = `${baseUrl}${endpoint}`;
+      const separator = url.includes('?') ? '&' : '?';
+      url += `${separator}api_token=${API_KEY}&per_page=50&page=${currentPage}`;
 
-      if (!response.ok) {
-        throw new Error(data.message || `API error: ${response.status}`);
+      if (includes.length > 0) {
+        url += `&include=${includes.join(';')}`;
       }
 
-      // Add this page's data to our collection
-      if (data.data && Array.isArray(data.data)) {
-        allData = allData.concat(data.data);
-      }
+      try {
+        const data = await requestJson(url, endpoint);
 
-      // Check if there are more pages
-      hasMore = data.pagination?.has_more === true;
-      currentPage++;
+        // Add this page's data to our collection
+        if (data.data && Array.isArray(data.data)) {
+          allData = allData.concat(data.data);
+        }
 
-      // Log progress for large requests
-      if (hasMore) {
-        console.log(`[SportsMonks] Fetched page ${currentPage - 1}, ${allData.length} items so far...`);
-      }
+        // Check if there are more pages
+        hasMore = data.pagination?.has_more === true;
+        currentPage++;
 
-    } catch (error) {
-      console.error(`[SportsMonks] Error on page ${currentPage}: ${getErrorMessage(error)}`);
-      throw error;
+        // Log progress for large requests
+        if (hasMore) {
+          console.log(`[SportsMonks] Fetched page ${currentPage - 1}, ${allData.length} items so far...`);
+        }
+
+      } catch (error) {
+        console.error(`[SportsMonks] Error on page ${currentPage}: ${getErrorMessage(error)}`);
+        throw error;
+      }
     }
-  }
 
-  console.log(`[SportsMonks] Completed: ${allData.length} total items from ${currentPage - 1} page(s)`);
+    console.log(`[SportsMonks] Completed: ${allData.length} total items from ${currentPage - 1} page(s)`);
 
-  // Return in the same format as makeRequest
-  return { data: allData };
+    // Return in the same format as makeRequest
+    const validated = validateResponse(z.array(schema), { data: allData }, endpoint);
+    return { data: validated.data ?? [] };
+  });
+
+  if (options.cache === false) {
+    return fetchAllPages();
+  }
+
+  return cachedRequest({ endpoint, includes, odds: useOddsBaseUrl, paginated: true }, fetchAllPages);
 }
 
 // ============================================
@@ -167,7 +221,7 @@ async function searchTeams(searchQuery: string) {
   // Make the request with some useful includes
   // - country: Which country the team is from
   // - venue: The team's home stadium
-  return makeRequest(endpoint, ['country', 'venue']);
+  return makeRequest(many(ParticipantSchema), endpoint, ['country', 'venue']);
 }
 
 /**
@@ -187,7 +241,7 @@ async function getTeamById(teamId: number | string) {
   // - country: Team's country
   // - venue: Home stadium
   // - activeSeasons: Current seasons they're playing in
-  return makeRequest(endpoint, ['country', 'venue', 'activeSeasons']);
+  return makeRequest(one(ParticipantSchema), endpoint, ['country', 'venue', 'activeSeasons']);
 }
 
 /**
@@ -240,7 +294,7 @@ async function getHeadToHead(
     includes.push('sidelined.type');
   }
 
-  return makeRequest(endpoint, includes);
+  return makeRequest(many(FixtureSchema), endpoint, includes);
 }
 
 // ============================================
@@ -267,6 +321,7 @@ async function getHeadToHead(
  * @param {object} options - Optional includes
  * @param {boolean} options.includeOdds - Include pre-match odds
  * @param {boolean} options.includeSidelined - Include injured/suspended players
+ * @param {boolean} options.cache - false = always call the API
  * @returns {Promise<object>} - The fixture details with scores, lineups, stats, etc.
  * 
  * Example: getFixtureById(18535517, { includeOdds: true })
@@ -274,7 +329,7 @@ async function getHeadToHead(
  */
 async function getFixtureById(
   fixtureId: number | string,
-  options: IncludeOptions = {}
+  options: IncludeOptions & RequestOptions = {}
 ) {
   // API: GET /fixtures/{fixture_id}
   const endpoint = `/fixtures/${fixtureId}`;
@@ -290,6 +345,7 @@ async function getFixtureById(
   // - season: Season info
   // - state: Match state (scheduled, live, finished)
   // - metadata: Formations, kit colors, attendance, etc.
+  // - referees.referee: Match officials with their names
   // - weatherReport: Weather conditions (separate from metadata)
   // NOTE: We no longer include .type - types are stored locally per SportsMonks best practice
   const includes = [
@@ -303,6 +359,7 @@ async function getFixtureById(
     'season',
     'state',
     'metadata',      // Formations, kit colors, attendance, etc.
+    'referees.referee', // Officials (type_id 6 = referee)
     'weatherReport'  // Weather conditions (available ~24-48hrs before kickoff)
   ];
   
@@ -325,7 +382,7 @@ async function getFixtureById(
     includes.push('sidelined.type');
   }
   
-  return makeRequest(endpoint, includes);
+  return makeRequest(one(FixtureSchema), endpoint, includes, false, options);
 }
 
 /**
@@ -381,7 +438,7 @@ async function getFixturesByDate(date: string, options: IncludeOptions = {}) {
     includes.push('sidelined.type');
   }
 
-  return makeRequest(endpoint, includes);
+  return makeRequest(many(FixtureSchema), endpoint, includes);
 }
 
 /**
@@ -446,7 +503,7 @@ async function getFixturesByDateRange(
   }
 
   // Use paginated request to fetch ALL fixtures across multiple pages
-  return makeRequestPaginated(endpoint, includes);
+  return makeRequestPaginated(FixtureSchema, endpoint, includes);
 }
 
 /**
@@ -469,6 +526,7 @@ async function getFixturesByDateRange(
  * @param {object} options - Optional includes
  * @param {boolean} options.includeOdds - Include pre-match odds
  * @param {boolean} options.includeSidelined - Include injured/suspended players
+ * @param {boolean} options.cache - false = always call the API
  * @returns {Promise<object>} - The team's fixtures in the date range
  * 
  * NOTE: Maximum date range is 100 days (SportsMonks limit)
@@ -477,7 +535,7 @@ async function getTeamFixturesByDateRange(
   startDate: string,
   endDate: string,
   teamId: number | string,
-  options: IncludeOptions = {}
+  options: IncludeOptions & RequestOptions = {}
 ) {
   // API: GET /fixtures/between/{start_date}/{end_date}/{team_id}
   const endpoint = `/fixtures/between/${startDate}/${endDate}/${teamId}`;
@@ -508,7 +566,162 @@ async function getTeamFixturesByDateRange(
   }
 
   // Use paginated request for large date ranges (e.g., full seasons)
-  return makeRequestPaginated(endpoint, includes);
+  return makeRequestPaginated(FixtureSchema, endpoint, includes, false, options);
+}
+
+/**
+ * Get fixtures for specific leagues within a date range
+ * @param {string} startDate - Start date in YYYY-MM-DD format
+ * @param {string} endDate - End date in YYYY-MM-DD format
+ * @param {Array<number|string>} leagueIds - SportsMonks league IDs
+ * @returns {Promise<object>} - Fixtures in those leagues (with state only)
+ *
+ * NOTE: Maximum date range is 100 days (SportsMonks limit)
+ *
+ * Example: getLeagueFixturesByDateRange("2025-01-10", "2025-01-17", [8, 24])
+ * Returns: { data: [{ id: 12345, league_id: 8, starting_at: "...", state: {...} }, ...] }
+ */
+async function getLeagueFixturesByDateRange(
+  startDate: string,
+  endDate: string,
+  leagueIds: Array<number | string>
+) {
+  // API: GET /fixtures/between/{start_date}/{end_date}?filters=fixtureLeagues:{ids}
+  const endpoint = `/fixtures/between/${startDate}/${endDate}?filters=fixtureLeagues:${leagueIds.join(',')}`;
+
+  // Only the match state is needed (to skip fixtures that already started)
+  return makeRequestPaginated(FixtureSchema, endpoint, ['state']);
+}
+
+/**
+ * Get results for specific leagues within a date range
+ * @param {string} startDate - Start date in YYYY-MM-DD format
+ * @param {string} endDate - End date in YYYY-MM-DD format
+ * @param {Array<number|string>} leagueIds - SportsMonks league IDs
+ * @returns {Promise<object>} - Fixtures with participants, scores and state
+ *
+ * NOTE: Maximum date range is 100 days (SportsMonks limit)
+ *
+ * Example: getLeagueResultsByDateRange("2024-08-16", "2024-11-23", [8])
+ */
+async function getLeagueResultsByDateRange(
+  startDate: string,
+  endDate: string,
+  leagueIds: Array<number | string>
+) {
+  // API: GET /fixtures/between/{start_date}/{end_date}?filters=fixtureLeagues:{ids}
+  const endpoint = `/fixtures/between/${startDate}/${endDate}?filters=fixtureLeagues:${leagueIds.join(',')}`;
+
+  // Teams (home/away), scores and state (to keep finished matches only)
+  return makeRequestPaginated(FixtureSchema, endpoint, ['participants', 'scores', 'state']);
+}
+
+/**
+ * Get a league's fixtures in a date range with team statistics
+ * @param {string} startDate - Start date in YYYY-MM-DD format
+ * @param {string} endDate - End date in YYYY-MM-DD format
+ * @param {Array<number|string>} leagueIds - SportsMonks league IDs
+ * @returns {Promise<object>} - Fixtures with participants, state, scores and statistics
+ *
+ * NOTE: Maximum date range is 100 days (SportsMonks limit)
+ *
+ * Example: getLeagueFixturesWithStats("2024-08-16", "2024-11-23", [8])
+ */
+async function getLeagueFixturesWithStats(
+  startDate: string,
+  endDate: string,
+  leagueIds: Array<number | string>
+) {
+  // API: GET /fixtures/between/{start_date}/{end_date}?filters=fixtureLeagues:{ids}
+  const endpoint = `/fixtures/between/${startDate}/${endDate}?filters=fixtureLeagues:${leagueIds.join(',')}`;
+
+  // Scores for goals/BTTS/clean sheets, statistics for corners, cards and xG
+  return makeRequestPaginated(FixtureSchema, endpoint, ['participants', 'state', 'scores', 'statistics']);
+}
+
+/**
+ * Get fixtures in a date range with predictions and pre-match odds
+ * @param {string} startDate - Start date in YYYY-MM-DD format
+ * @param {string} endDate - End date in YYYY-MM-DD format
+ * @param {Array<number|string>} leagueIds - Only these leagues (optional, default: all)
+ * @returns {Promise<object>} - Fixtures with participants, league, state, predictions and odds
+ *
+ * Used by the value bet finder - one paginated request instead of
+ * separate prediction and odds calls for every fixture.
+ *
+ * Example: getFixturesWithPredictionsAndOdds("2025-01-10", "2025-01-12", [8])
+ */
+async function getFixturesWithPredictionsAndOdds(
+  startDate: string,
+  endDate: string,
+  leagueIds: Array<number | string> = []
+) {
+  // API: GET /fixtures/between/{start_date}/{end_date}[?filters=fixtureLeagues:{ids}]
+  const filter = leagueIds.length > 0 ? `?filters=fixtureLeagues:${leagueIds.join(',')}` : '';
+  const endpoint = `/fixtures/between/${startDate}/${endDate}${filter}`;
+
+  return makeRequestPaginated(FixtureSchema, endpoint, ['participants', 'league', 'state', 'predictions', 'odds']);
+}
+
+/**
+ * Get fixtures in a date range with scores, predictions and pre-match odds
+ * @param {string} startDate - Start date in YYYY-MM-DD format
+ * @param {string} endDate - End date in YYYY-MM-DD format
+ * @param {Array<number|string>} leagueIds - Only these leagues (optional, default: all)
+ * @returns {Promise<object>} - Fixtures with participants, league, state, scores, predictions and odds
+ *
+ * Used by the backtester to replay past fixtures - the same data as
+ * the value bet finder plus the scores needed to settle each bet.
+ * Not cached - a long replay would fill the cache with windows that
+ * are only read once.
+ *
+ * Example: getResultsWithPredictionsAndOdds("2024-08-16", "2024-08-22", [8])
+ */
+async function getResultsWithPredictionsAndOdds(
+  startDate: string,
+  endDate: string,
+  leagueIds: Array<number | string> = []
+) {
+  // API: GET /fixtures/between/{start_date}/{end_date}[?filters=fixtureLeagues:{ids}]
+  const filter = leagueIds.length > 0 ? `?filters=fixtureLeagues:${leagueIds.join(',')}` : '';
+  const endpoint = `/fixtures/between/${startDate}/${endDate}${filter}`;
+
+  return makeRequestPaginated(
+    FixtureSchema,
+    endpoint,
+    ['participants', 'league', 'state', 'scores', 'predictions', 'odds'],
+    false,
+    { cache: false }
+  );
+}
+
+/**
+ * Get a league's fixtures in a date range with everything the warehouse stores
+ * @param {string} startDate - Start date in YYYY-MM-DD format
+ * @param {string} endDate - End date in YYYY-MM-DD format (at most 100 days after startDate)
+ * @param {Array<number|string>} leagueIds - Only these leagues
+ * @returns {Promise<object>} - Fixtures with participants, state, scores, statistics, lineups, events and referees
+ *
+ * Used by warehouse ingestion. Not cached - each window is read once
+ * and stored in Postgres.
+ *
+ * Example: getLeagueFixturesWithDetails("2024-08-16", "2024-08-29", [8])
+ */
+async function getLeagueFixturesWithDetails(
+  startDate: string,
+  endDate: string,
+  leagueIds: Array<number | string>
+) {
+  // API: GET /fixtures/between/{start_date}/{end_date}?filters=fixtureLeagues:{ids}
+  const endpoint = `/fixtures/between/${startDate}/${endDate}?filters=fixtureLeagues:${leagueIds.join(',')}`;
+
+  return makeRequestPaginated(
+    FixtureSchema,
+    endpoint,
+    ['participants', 'state', 'scores', 'statistics', 'lineups', 'events', 'referees'],
+    false,
+    { cache: false }
+  );
 }
 
 // ============================================
@@ -560,7 +773,7 @@ async function searchFixtures(searchQuery: string, options: IncludeOptions = {})
     includes.push('sidelined.type');
   }
 
-  return makeRequest(endpoint, includes);
+  return makeRequest(many(FixtureSchema), endpoint, includes);
 }
 
 // ============================================
@@ -583,7 +796,7 @@ async function searchPlayers(searchQuery: string) {
   // - teams: Current and past teams the player has played for
   // - position: Player's position (e.g., Forward, Midfielder)
   // - nationality: Player's country
-  return makeRequest(endpoint, ['teams', 'position', 'nationality']);
+  return makeRequest(many(PlayerSchema), endpoint, ['teams', 'position', 'nationality']);
 }
 
 /**
@@ -603,7 +816,7 @@ async function getPlayerById(playerId: number | string) {
   // - position: Playing position
   // - nationality: Country
   // - statistics: Season statistics (goals, assists, etc.)
-  return makeRequest(endpoint, [
+  return makeRequest(one(PlayerSchema), endpoint, [
     'teams',
     'position',
     'nationality',
@@ -618,15 +831,16 @@ async function getPlayerById(playerId: number | string) {
 /**
  * Get all pre-match odds for a fixture
  * @param {number|string} fixtureId - The SportsMonks fixture ID
+ * @param {object} options - { cache: false } to skip the response cache
  * @returns {Promise<object>} - All odds from all bookmakers/markets for this fixture
  * 
  * Example: getOddsByFixture(18535517)
  * Returns: { data: [{ id: 123, market_id: 1, bookmaker_id: 2, value: "1.95", ... }, ...] }
  */
-async function getOddsByFixture(fixtureId: number | string) {
+async function getOddsByFixture(fixtureId: number | string, options: RequestOptions = {}) {
   // API: GET /odds/pre-match/fixtures/{fixture_id}
   const endpoint = `/odds/pre-match/fixtures/${fixtureId}`;
-  return makeRequest(endpoint);
+  return makeRequest(many(OddSchema), endpoint, [], false, options);
 }
 
 /**
@@ -643,7 +857,7 @@ async function getOddsByFixtureAndBookmaker(
 ) {
   // API: GET /odds/pre-match/fixtures/{fixture_id}/bookmakers/{bookmaker_id}
   const endpoint = `/odds/pre-match/fixtures/${fixtureId}/bookmakers/${bookmakerId}`;
-  return makeRequest(endpoint);
+  return makeRequest(many(OddSchema), endpoint);
 }
 
 /**
@@ -667,7 +881,7 @@ async function getOddsByFixtureAndMarket(
 ) {
   // API: GET /odds/pre-match/fixtures/{fixture_id}/markets/{market_id}
   const endpoint = `/odds/pre-match/fixtures/${fixtureId}/markets/${marketId}`;
-  return makeRequest(endpoint);
+  return makeRequest(many(OddSchema), endpoint);
 }
 
 // ============================================
@@ -684,7 +898,7 @@ async function getOddsByFixtureAndMarket(
 async function getAllBookmakers() {
   // API: GET /bookmakers (uses ODDS base URL)
   const endpoint = `/bookmakers`;
-  return makeRequest(endpoint, [], true); // true = use ODDS_BASE_URL
+  return makeRequest(many(BookmakerSchema), endpoint, [], true); // true = use ODDS_BASE_URL
 }
 
 /**
@@ -697,7 +911,7 @@ async function getAllBookmakers() {
 async function getBookmakerById(bookmakerId: number | string) {
   // API: GET /bookmakers/{id} (uses ODDS base URL)
   const endpoint = `/bookmakers/${bookmakerId}`;
-  return makeRequest(endpoint, [], true);
+  return makeRequest(one(BookmakerSchema), endpoint, [], true);
 }
 
 // ============================================
@@ -714,7 +928,7 @@ async function getBookmakerById(bookmakerId: number | string) {
 async function getAllMarkets() {
   // API: GET /markets (uses ODDS base URL)
   const endpoint = `/markets`;
-  return makeRequest(endpoint, [], true);
+  return makeRequest(many(MarketSchema), endpoint, [], true);
 }
 
 /**
@@ -727,7 +941,7 @@ async function getAllMarkets() {
 async function getMarketById(marketId: number | string) {
   // API: GET /markets/{id} (uses ODDS base URL)
   const endpoint = `/markets/${marketId}`;
-  return makeRequest(endpoint, [], true);
+  return makeRequest(one(MarketSchema), endpoint, [], true);
 }
 
 /**
@@ -741,7 +955,7 @@ async function getMarketById(marketId: number | string) {
 async function searchMarkets(searchQuery: string) {
   // API: GET /markets/search/{query} (uses ODDS base URL)
   const endpoint = `/markets/search/${encodeURIComponent(searchQuery)}`;
-  return makeRequest(endpoint, [], true);
+  return makeRequest(many(MarketSchema), endpoint, [], true);
 }
 
 // ============================================
@@ -772,7 +986,7 @@ async function getTeamWithStats(teamId: number | string) {
   // - venue: Home stadium
   // - activeSeasons: Current seasons the team is in
   // - sidelined: Injured/suspended players
-  return makeRequest(endpoint, [
+  return makeRequest(one(ParticipantSchema), endpoint, [
     'statistics.details',
     'coaches',
     'venue',
@@ -799,7 +1013,7 @@ async function getTeamStatsBySeason(teamId: number | string, seasonId: number |
   // Include statistics with details
   // - statistics.details: The actual stat values
   // NOTE: Type names (e.g., "Scoring Minutes") are looked up from local database
-  return makeRequest(endpoint, [
+  return makeRequest(one(ParticipantSchema), endpoint, [
     'statistics.details'
   ]);
 }
@@ -816,7 +1030,7 @@ async function getTeamSquad(teamId: number | string) {
   const endpoint = `/squads/teams/${teamId}`;
   
   // Include player details
-  return makeRequest(endpoint, ['player']);
+  return makeRequest(many(SquadMemberSchema), endpoint, ['player']);
 }
 
 /**
@@ -832,7 +1046,7 @@ async function getTeamSquadBySeason(seasonId: number | string, teamId: number |
   const endpoint = `/squads/seasons/${seasonId}/teams/${teamId}`;
   
   // Include player details and performance stats
-  return makeRequest(endpoint, ['player', 'details']);
+  return makeRequest(many(SquadMemberSchema), endpoint, ['player', 'details']);
 }
 
 /**
@@ -847,7 +1061,7 @@ async function getTeamTransfers(teamId: number | string) {
   const endpoint = `/transfers/teams/${teamId}`;
   
   // Include player and team details
-  return makeRequest(endpoint, ['player', 'fromTeam', 'toTeam']);
+  return makeRequest(many(TransferSchema), endpoint, ['player', 'fromTeam', 'toTeam']);
 }
 
 /**
@@ -864,7 +1078,7 @@ async function getTeamSeasons(teamId: number | string) {
   const endpoint = `/seasons/teams/${teamId}`;
   
   // Include league info for context
-  return makeRequest(endpoint, ['league']);
+  return makeRequest(many(SeasonSchema), endpoint, ['league']);
 }
 
 /**
@@ -879,7 +1093,7 @@ async function getTeamSchedule(teamId: number | string) {
   const endpoint = `/schedules/teams/${teamId}`;
   
   // Include useful fixture details
-  return makeRequest(endpoint, ['participants', 'venue', 'league']);
+  return makeRequest(many(StageSchema), endpoint, ['participants', 'venue', 'league']);
 }
 
 // ============================================
@@ -898,7 +1112,7 @@ async function getCoachById(coachId: number | string) {
   const endpoint = `/coaches/${coachId}`;
   
   // Include team and career info
-  return makeRequest(endpoint, ['teams', 'nationality']);
+  return makeRequest(one(CoachSchema), endpoint, ['teams', 'nationality']);
 }
 
 /**
@@ -912,7 +1126,25 @@ async function searchCoaches(searchQuery: string) {
   // API: GET /coaches/search/{query}
   const endpoint = `/coaches/search/${encodeURIComponent(searchQuery)}`;
   
-  return makeRequest(endpoint, ['teams', 'nationality']);
+  return makeRequest(many(CoachSchema), endpoint, ['teams', 'nationality']);
+}
+
+// ============================================
+// REFEREE FUNCTIONS
+// ============================================
+
+/**
+ * Get referee details by ID
+ * @param {number|string} refereeId - The SportsMonks referee ID
+ * @returns {Promise<object>} - Referee details with country
+ *
+ * Example: getRefereeById(14508) // Michael Oliver
+ */
+async function getRefereeById(refereeId: number | string) {
+  // API: GET /referees/{referee_id}
+  const endpoint = `/referees/${refereeId}`;
+
+  return makeRequest(one(RefereeSchema), endpoint, ['country']);
 }
 
 // ============================================
@@ -935,7 +1167,7 @@ async function getStandingsBySeason(seasonId: number | string) {
   // - participant: Team name, logo, etc.
   // - form: Recent match results (W/D/L)
   // - details: Stats like GF (133), GA (134), GD (179), P (129), W (130), D (131), L (132)
-  return makeRequest(endpoint, ['participant', 'form', 'details']);
+  return makeRequest(many(StandingSchema), endpoint, ['participant', 'form', 'details']);
 }
 
 // ============================================
@@ -954,20 +1186,22 @@ async function getLivescores() {
 
   // Include participants (teams), scores, league info, and STATE
   // State is critical - it tells us if match is in 1H, 2H, HT, ET, FT, etc.
-  return makeRequest(endpoint, ['participants', 'scores', 'league', 'state']);
+  return makeRequest(many(FixtureSchema), endpoint, ['participants', 'scores', 'league', 'state']);
 }
 
 /**
  * Get only matches currently in play
+ * @param {object} options - { cache } - the live poller passes cache: false,
+ *                           since it sets its own pace (see livePoller.ts)
  * @returns {Promise<object>} - Fixtures that are actively being played right now
  */
-async function getLivescoresInplay() {
+async function getLivescoresInplay(options: RequestOptions = {}) {
   // API: GET /livescores/inplay
   const endpoint = '/livescores/inplay';
 
   // Include participants (teams), scores, league, state, and events (goals, cards)
   // State is critical - it tells us the match period (1H, 2H, HT, ET, etc.)
-  return makeRequest(endpoint, ['participants', 'scores', 'league', 'state', 'events']);
+  return makeRequest(many(FixtureSchema), endpoint, ['participants', 'scores', 'league', 'state', 'events'], false, options);
 }
 
 // ============================================
@@ -988,7 +1222,7 @@ async function getAllLeagues() {
   const endpoint = '/leagues';
 
   // Include country and current season info
-  return makeRequest(endpoint, ['country', 'currentSeason']);
+  return makeRequest(many(LeagueSchema), endpoint, ['country', 'currentSeason']);
 }
 
 /**
@@ -1003,7 +1237,7 @@ async function getLeagueById(leagueId: number | string) {
   const endpoint = `/leagues/${leagueId}`;
 
   // Include country, current season, and seasons list
-  return makeRequest(endpoint, ['country', 'currentSeason', 'seasons']);
+  return makeRequest(one(LeagueSchema), endpoint, ['country', 'currentSeason', 'seasons']);
 }
 
 /**
@@ -1017,7 +1251,7 @@ async function searchLeagues(searchQuery: string) {
   // API: GET /leagues/search/{query}
   const endpoint = `/leagues/search/${encodeURIComponent(searchQuery)}`;
 
-  return makeRequest(endpoint, ['country']);
+  return makeRequest(many(LeagueSchema), endpoint, ['country']);
 }
 
 // ============================================
@@ -1033,7 +1267,7 @@ async function getAllSeasons() {
   const endpoint = '/seasons';
 
   // Include league info
-  return makeRequest(endpoint, ['league']);
+  return makeRequest(many(SeasonSchema), endpoint, ['league']);
 }
 
 /**
@@ -1048,7 +1282,7 @@ async function getSeasonById(seasonId: number | string) {
   const endpoint = `/seasons/${seasonId}`;
 
   // Include league and stages
-  return makeRequest(endpoint, ['league', 'stages']);
+  return makeRequest(one(SeasonSchema), endpoint, ['league', 'stages']);
 }
 
 /**
@@ -1064,7 +1298,7 @@ async function getSeasonsByLeague(leagueId: number | string) {
   const endpoint = `/leagues/${leagueId}`;
 
   // Include seasons in the league response
-  return makeRequest(endpoint, ['seasons']);
+  return makeRequest(one(LeagueSchema), endpoint, ['seasons']);
 }
 
 // ============================================
@@ -1083,7 +1317,7 @@ async function getTopScorersBySeason(seasonId: number | string) {
   const endpoint = `/topscorers/seasons/${seasonId}`;
 
   // Include player details and team info
-  return makeRequest(endpoint, ['player', 'participant']);
+  return makeRequest(many(TopScorerSchema), endpoint, ['player', 'participant']);
 }
 
 // ============================================
@@ -1114,7 +1348,7 @@ async function getTeamSquadWithStats(seasonId: number | string, teamId: number |
   // Include player details with their statistics
   // - player: Basic player info (name, image, position)
   // - player.statistics.details: Season stats (goals, assists, etc.)
-  return makeRequest(endpoint, [
+  return makeRequest(many(SquadMemberSchema), endpoint, [
     'player',
     'player.statistics.details'
   ]);
@@ -1149,7 +1383,7 @@ async function getFixturePredictions(fixtureId: number | string) {
 
   // Include predictions
   // NOTE: Type info (name, code, etc.) is looked up from local database
-  return makeRequest(endpoint, ['predictions']);
+  return makeRequest(one(FixtureSchema), endpoint, ['predictions']);
 }
 
 /**
@@ -1177,7 +1411,7 @@ async function getPredictabilityByLeague(leagueId: number | string) {
   const endpoint = `/predictions/predictability/leagues/${leagueId}`;
   
   // No includes needed for this endpoint
-  return makeRequest(endpoint);
+  return makeRequest(many(PredictabilitySchema), endpoint);
 }
 
 // ============================================
@@ -1214,7 +1448,7 @@ async function getStagesBySeason(seasonId: number | string) {
   // - fixtures.scores: Match results
   // - fixtures.venue: Stadium info
   // - fixtures.state: Match state (scheduled, finished, etc.)
-  return makeRequest(endpoint, [
+  return makeRequest(many(StageSchema), endpoint, [
     'fixtures.participants',
     'fixtures.scores',
     'fixtures.venue',
@@ -1258,7 +1492,7 @@ async function getTeamFixturesWithStats(
   //
   // NOTE: Use makeRequestPaginated to fetch ALL fixtures across multiple pages
   // SportsMonks returns max 25 results per page by default
-  return makeRequestPaginated(endpoint, [
+  return makeRequestPaginated(FixtureSchema, endpoint, [
     'statistics',
     'participants',
     'state',
@@ -1281,6 +1515,12 @@ export {
   getFixturesByDate,
   getFixturesByDateRange,
   getTeamFixturesByDateRange,
+  getLeagueFixturesByDateRange,
+  getLeagueResultsByDateRange,
+  getLeagueFixturesWithStats,
+  getFixturesWithPredictionsAndOdds,
+  getResultsWithPredictionsAndOdds,
+  getLeagueFixturesWithDetails,
   searchFixtures,
   
   // Player functions
@@ -1314,6 +1554,9 @@ export {
   getCoachById,
   searchCoaches,
 
+  // Referee functions
+  getRefereeById,
+
   // Standings functions
   getStandingsBySeason,
 
@@ -0,0 +1,648 @@
+// ============================================
+// SPORTSMONKS RESPONSE SCHEMAS
+// ============================================
+// Runtime checks for SportsMonks payloads, so an upstream shape change
+// fails at the boundary (makeRequest) instead of deep inside a route.
+//
+// Each schema is declared as z.ZodType<T> for the matching shared type
+// (types/sportsmonks.ts), so TypeScript flags any drift between the
+// two. Objects are loose: fields we don't model pass through untouched.
+//
+// SPORTSMONKS_VALIDATION controls what a mismatch does:
+//   - strict (default): throw SportsMonksSchemaError (502)
+//   - warn:   log the problems and use the payload anyway
+//   - off:    skip validation
+// ============================================
+
+import { z } from 'zod';
+import { SportsMonksSchemaError } from './apiErrors.js';
+import type {
+  Bookmaker,
+  Coach,
+  Country,
+  Fixture,
+  FixtureEvent,
+  FixtureMetadata,
+  FixtureReferee,
+  League,
+  Lineup,
+  Market,
+  Odd,
+  Participant,
+  Player,
+  Predictability,
+  Prediction,
+  Referee,
+  Score,
+  Season,
+  SeasonStatistic,
+  Sidelined,
+  SportsMonksResponse,
+  SportsMonksType,
+  SquadMember,
+  Stage,
+  Standing,
+  StandingDetail,
+  StandingForm,
+  State,
+  Statistic,
+  StatisticDetail,
+  TopScorer,
+  Transfer,
+  Venue,
+  WeatherReport
+} from '../types/sportsmonks.js';
+
+type ValidationMode = 'strict' | 'warn' | 'off';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const VALIDATION_MODE: ValidationMode = (['strict', 'warn', 'off'] as const)
+  .find(mode => mode === process.env.SPORTSMONKS_VALIDATION) ?? 'strict';
+
+// How many problems to list in logs and error messages
+const MAX_REPORTED_ISSUES = 5;
+
+// ============================================
+// FIELD HELPERS
+// ============================================
+
+const id = z.number().int();
+const text = z.string();
+
+// ============================================
+// REFERENCE ENTITIES
+// ============================================
+
+const CountrySchema: z.ZodType<Country> = z.looseObject({
+  id,
+  name: text,
+  official_name: text.nullish(),
+  fifa_name: text.nullish(),
+  iso2: text.nullish(),
+  iso3: text.nullish(),
+  image_path: text.nullish()
+});
+
+const VenueSchema: z.ZodType<Venue> = z.looseObject({
+  id,
+  name: text,
+  country_id: id.nullish(),
+  city_id: id.nullish(),
+  address: text.nullish(),
+  city_name: text.nullish(),
+  capacity: z.number().nullish(),
+  image_path: text.nullish(),
+  surface: text.nullish()
+});
+
+const StateSchema: z.ZodType<State> = z.looseObject({
+  id,
+  state: text,
+  name: text,
+  short_name: text.nullish(),
+  developer_name: text.nullish()
+});
+
+const TypeSchema: z.ZodType<SportsMonksType> = z.looseObject({
+  id,
+  name: text,
+  code: text.nullish(),
+  developer_name: text.nullish(),
+  model_type: text.nullish()
+});
+
+// ============================================
+// COMPETITIONS
+// ============================================
+// League, Season, Stage and Fixture include each other, hence z.lazy
+
+const LeagueSchema: z.ZodType<League> = z.looseObject({
+  id,
+  name: text,
+  sport_id: id.optional(),
+  country_id: id.nullish(),
+  active: z.boolean().optional(),
+  short_code: text.nullish(),
+  image_path: text.nullish(),
+  type: text.nullish(),
+  sub_type: text.nullish(),
+  last_played_at: text.nullish(),
+  category: z.number().nullish(),
+  country: CountrySchema.optional(),
+  currentSeason: z.lazy(() => SeasonSchema).nullish(),
+  seasons: z.array(z.lazy(() => SeasonSchema)).optional()
+});
+
+const SeasonSchema: z.ZodType<Season> = z.looseObject({
+  id,
+  name: text,
+  league_id: id,
+  sport_id: id.optional(),
+  finished: z.boolean().optional(),
+  pending: z.boolean().optional(),
+  is_current: z.boolean().optional(),
+  starting_at: text.nullish(),
+  ending_at: text.nullish(),
+  standings_recalculated_at: text.nullish(),
+  games_in_current_week: z.boolean().optional(),
+  league: z.lazy(() => LeagueSchema).optional(),
+  stages: z.array(z.lazy(() => StageSchema)).optional()
+});
+
+const StageSchema: z.ZodType<Stage> = z.looseObject({
+  id,
+  name: text,
+  league_id: id,
+  season_id: id,
+  sport_id: id.optional(),
+  type_id: id.nullish(),
+  sort_order: z.number().nullish(),
+  finished: z.boolean().optional(),
+  is_current: z.boolean().optional(),
+  starting_at: text.nullish(),
+  ending_at: text.nullish(),
+  games_in_current_week: z.boolean().optional(),
+  fixtures: z.array(z.lazy(() => FixtureSchema)).optional()
+});
+
+// ============================================
+// STATISTICS
+// ============================================
+
+const StatisticSchema: z.ZodType<Statistic> = z.looseObject({
+  id,
+  type_id: id,
+  fixture_id: id.optional(),
+  participant_id: id.optional(),
+  location: z.enum(['home', 'away']).nullish(),
+  data: z.looseObject({
+    value: z.union([z.number(), z.string()]).nullable()
+  }),
+  typeName: text.optional(),
+  type: TypeSchema.optional()
+});
+
+const StatisticDetailSchema: z.ZodType<StatisticDetail> = z.looseObject({
+  id,
+  type_id: id,
+  value: z.unknown(),
+  typeName: text.optional()
+});
+
+const SeasonStatisticSchema: z.ZodType<SeasonStatistic> = z.looseObject({
+  id,
+  season_id: id,
+  has_values: z.boolean().optional(),
+  team_id: id.nullish(),
+  player_id: id.nullish(),
+  details: z.array(StatisticDetailSchema).optional()
+});
+
+// ============================================
+// TEAMS AND PLAYERS
+// ============================================
+
+const CoachSchema: z.ZodType<Coach> = z.looseObject({
+  id,
+  name: text,
+  common_name: text.nullish(),
+  firstname: text.nullish(),
+  lastname: text.nullish(),
+  display_name: text.nullish(),
+  image_path: text.nullish(),
+  date_of_birth: text.nullish(),
+  nationality_id: id.nullish(),
+  nationality: CountrySchema.nullish(),
+  teams: z.array(z.looseObject({
+    id,
+    team_id: id,
+    coach_id: id,
+    start: text.nullish(),
+    end: text.nullish()
+  })).optional()
+});
+
+const RefereeSchema: z.ZodType<Referee> = z.looseObject({
+  id,
+  name: text,
+  sport_id: id.optional(),
+  country_id: id.nullish(),
+  city_id: id.nullish(),
+  common_name: text.nullish(),
+  firstname: text.nullish(),
+  lastname: text.nullish(),
+  display_name: text.nullish(),
+  image_path: text.nullish(),
+  date_of_birth: text.nullish(),
+  gender: text.nullish()
+});
+
+const FixtureRefereeSchema: z.ZodType<FixtureReferee> = z.looseObject({
+  id,
+  fixture_id: id,
+  referee_id: id,
+  type_id: id,
+  referee: RefereeSchema.optional()
+});
+
+const ParticipantSchema: z.ZodType<Participant> = z.looseObject({
+  id,
+  name: text,
+  sport_id: id.optional(),
+  country_id: id.nullish(),
+  venue_id: id.nullish(),
+  gender: text.nullish(),
+  short_code: text.nullish(),
+  image_path: text.nullish(),
+  founded: z.number().nullish(),
+  type: text.nullish(),
+  placeholder: z.boolean().optional(),
+  last_played_at: text.nullish(),
+  meta: z.looseObject({
+    location: z.enum(['home', 'away']),
+    winner: z.boolean().nullish(),
+    position: z.number().nullish()
+  }).optional(),
+  country: CountrySchema.optional(),
+  venue: VenueSchema.optional(),
+  activeSeasons: z.array(SeasonSchema).optional(),
+  statistics: z.array(SeasonStatisticSchema).optional(),
+  coaches: z.array(CoachSchema).optional()
+});
+
+const PlayerSchema: z.ZodType<Player> = z.looseObject({
+  id,
+  name: text,
+  sport_id: id.optional(),
+  country_id: id.nullish(),
+  nationality_id: id.nullish(),
+  city_id: id.nullish(),
+  position_id: id.nullish(),
+  detailed_position_id: id.nullish(),
+  type_id: id.nullish(),
+  common_name: text.nullish(),
+  firstname: text.nullish(),
+  lastname: text.nullish(),
+  display_name: text.nullish(),
+  image_path: text.nullish(),
+  height: z.number().nullish(),
+  weight: z.number().nullish(),
+  date_of_birth: text.nullish(),
+  gender: text.nullish(),
+  position: TypeSchema.nullish(),
+  nationality: CountrySchema.nullish(),
+  teams: z.array(z.lazy(() => SquadMemberSchema)).optional(),
+  statistics: z.array(SeasonStatisticSchema).optional()
+});
+
+const SquadMemberSchema: z.ZodType<SquadMember> = z.looseObject({
+  id,
+  player_id: id,
+  team_id: id,
+  transfer_id: id.nullish(),
+  position_id: id.nullish(),
+  detailed_position_id: id.nullish(),
+  jersey_number: z.number().nullish(),
+  start: text.nullish(),
+  end: text.nullish(),
+  captain: z.boolean().nullish(),
+  player: PlayerSchema.optional(),
+  details: z.array(StatisticDetailSchema).optional()
+});
+
+const TransferSchema: z.ZodType<Transfer> = z.looseObject({
+  id,
+  player_id: id,
+  from_team_id: id.nullish(),
+  to_team_id: id.nullish(),
+  type_id: id.nullish(),
+  date: text.nullish(),
+  amount: z.number().nullish(),
+  completed: z.boolean().nullish(),
+  player: PlayerSchema.optional(),
+  fromTeam: ParticipantSchema.optional(),
+  toTeam: ParticipantSchema.optional()
+});
+
+// ============================================
+// FIXTURE DETAILS
+// ============================================
+
+const ScoreSchema: z.ZodType<Score> = z.looseObject({
+  id,
+  fixture_id: id,
+  type_id: id,
+  participant_id: id,
+  description: text,
+  score: z.looseObject({
+    goals: z.number(),
+    participant: z.enum(['home', 'away'])
+  })
+});
+
+const FixtureEventSchema: z.ZodType<FixtureEvent> = z.looseObject({
+  id,
+  fixture_id: id,
+  type_id: id,
+  participant_id: id.nullish(),
+  player_id: id.nullish(),
+  related_player_id: id.nullish(),
+  player_name: text.nullish(),
+  related_player_name: text.nullish(),
+  result: text.nullish(),
+  info: text.nullish(),
+  addition: text.nullish(),
+  minute: z.number().nullish(),
+  extra_minute: z.number().nullish(),
+  injured: z.boolean().nullish(),
+  on_bench: z.boolean().nullish(),
+  sort_order: z.number().nullish(),
+  typeName: text.optional(),
+  type: TypeSchema.optional()
+});
+
+const LineupSchema: z.ZodType<Lineup> = z.looseObject({
+  id,
+  fixture_id: id,
+  player_id: id,
+  team_id: id,
+  type_id: id.nullish(),
+  position_id: id.nullish(),
+  formation_field: text.nullish(),
+  formation_position: z.number().nullish(),
+  player_name: text.nullish(),
+  jersey_number: z.number().nullish()
+});
+
+const FixtureMetadataSchema: z.ZodType<FixtureMetadata> = z.looseObject({
+  id,
+  type_id: id,
+  metadatable_id: id.nullish(),
+  value_type: text.nullish(),
+  values: z.record(z.string(), z.unknown()).nullable()
+});
+
+const measurements = z.record(z.string(), z.number().nullable()).nullish();
+
+const WeatherReportSchema: z.ZodType<WeatherReport> = z.looseObject({
+  id: id.optional(),
+  fixture_id: id.optional(),
+  venue_id: id.nullish(),
+  temperature: measurements,
+  feels_like: measurements,
+  wind: measurements,
+  humidity: z.union([text, z.number()]).nullish(),
+  pressure: z.number().nullish(),
+  clouds: z.union([text, z.number()]).nullish(),
+  description: text.nullish(),
+  icon: text.nullish(),
+  type: text.nullish(),
+  metric: text.nullish(),
+  current: z.record(z.string(), z.unknown()).nullish()
+});
+
+const SidelinedSchema: z.ZodType<Sidelined> = z.looseObject({
+  id,
+  fixture_id: id.optional(),
+  participant_id: id.optional(),
+  sideline_id: id.optional(),
+  player: PlayerSchema.optional(),
+  sideline: z.looseObject({
+    id,
+    player_id: id,
+    type_id: id.nullish(),
+    category: text.nullish(),
+    start_date: text.nullish(),
+    end_date: text.nullish(),
+    games_missed: z.number().nullish(),
+    completed: z.boolean().nullish()
+  }).optional(),
+  type: TypeSchema.optional()
+});
+
+// ============================================
+// ODDS AND PREDICTIONS
+// ============================================
+
+const BookmakerSchema: z.ZodType<Bookmaker> = z.looseObject({
+  id,
+  name: text,
+  legacy_id: id.nullish()
+});
+
+const MarketSchema: z.ZodType<Market> = z.looseObject({
+  id,
+  name: text,
+  legacy_id: id.nullish(),
+  developer_name: text.nullish(),
+  has_winning_calculations: z.boolean().optional()
+});
+
+const OddSchema: z.ZodType<Odd> = z.looseObject({
+  id,
+  fixture_id: id,
+  market_id: id,
+  bookmaker_id: id,
+  label: text,
+  value: text,
+  name: text.nullish(),
+  sort_order: z.number().nullish(),
+  market_description: text.nullish(),
+  probability: text.nullish(),
+  dp3: text.nullish(),
+  fractional: text.nullish(),
+  american: text.nullish(),
+  winning: z.boolean().nullish(),
+  stopped: z.boolean().nullish(),
+  total: text.nullish(),
+  handicap: text.nullish(),
+  participants: text.nullish(),
+  created_at: text.nullish(),
+  updated_at: text.nullish(),
+  original_label: text.nullish(),
+  latest_bookmaker_update: text.nullish(),
+  bookmaker: BookmakerSchema.optional(),
+  market: MarketSchema.optional()
+});
+
+const PredictionSchema: z.ZodType<Prediction> = z.looseObject({
+  id,
+  fixture_id: id,
+  type_id: id,
+  predictions: z.record(z.string(), z.unknown()),
+  type: TypeSchema.optional()
+});
+
+const PredictabilitySchema: z.ZodType<Predictability> = z.looseObject({
+  id: id.optional(),
+  league_id: id.optional(),
+  type_id: id,
+  data: z.record(z.string(), z.unknown())
+});
+
+// ============================================
+// FIXTURES AND STANDINGS
+// ============================================
+
+const FixtureSchema: z.ZodType<Fixture> = z.looseObject({
+  id,
+  name: text,
+  sport_id: id.optional(),
+  league_id: id,
+  season_id: id,
+  stage_id: id.nullish(),
+  group_id: id.nullish(),
+  aggregate_id: id.nullish(),
+  round_id: id.nullish(),
+  state_id: id,
+  venue_id: id.nullish(),
+  starting_at: text.nullable(),
+  starting_at_timestamp: z.number().nullish(),
+  result_info: text.nullish(),
+  leg: text.nullish(),
+  details: text.nullish(),
+  length: z.number().nullish(),
+  placeholder: z.boolean().optional(),
+  has_odds: z.boolean().optional(),
+  has_premium_odds: z.boolean().optional(),
+  participants: z.array(ParticipantSchema).optional(),
+  scores: z.array(ScoreSchema).optional(),
+  state: StateSchema.optional(),
+  league: LeagueSchema.optional(),
+  season: SeasonSchema.optional(),
+  venue: VenueSchema.nullish(),
+  statistics: z.array(StatisticSchema).optional(),
+  lineups: z.array(LineupSchema).optional(),
+  events: z.array(FixtureEventSchema).optional(),
+  sidelined: z.array(SidelinedSchema).optional(),
+  odds: z.array(OddSchema).optional(),
+  predictions: z.array(PredictionSchema).optional(),
+  metadata: z.array(FixtureMetadataSchema).optional(),
+  referees: z.array(FixtureRefereeSchema).optional(),
+  weatherreport: WeatherReportSchema.nullish()
+});
+
+const StandingFormSchema: z.ZodType<StandingForm> = z.looseObject({
+  id,
+  fixture_id: id,
+  form: text,
+  sort_order: z.number().nullish()
+});
+
+const StandingDetailSchema: z.ZodType<StandingDetail> = z.looseObject({
+  id,
+  type_id: id,
+  value: z.number()
+});
+
+const StandingSchema: z.ZodType<Standing> = z.looseObject({
+  id,
+  participant_id: id,
+  league_id: id,
+  season_id: id,
+  stage_id: id.nullish(),
+  group_id: id.nullish(),
+  round_id: id.nullish(),
+  position: z.number(),
+  points: z.number(),
+  result: text.nullish(),
+  participant: ParticipantSchema.optional(),
+  form: z.array(StandingFormSchema).optional(),
+  details: z.array(StandingDetailSchema).optional()
+});
+
+const TopScorerSchema: z.ZodType<TopScorer> = z.looseObject({
+  id,
+  season_id: id,
+  player_id: id,
+  type_id: id,
+  position: z.number(),
+  total: z.number(),
+  participant_id: id.nullish(),
+  player: PlayerSchema.optional(),
+  participant: ParticipantSchema.optional()
+});
+
+// ============================================
+// VALIDATION
+// ============================================
+
+/**
+ * Check a SportsMonks response's data against a schema
+ * @param {object} schema - Schema for the data field (e.g., z.array(FixtureSchema))
+ * @param {object} response - The parsed SportsMonks response
+ * @param {string} endpoint - For logs and the error message
+ * @returns {object} - The response, unchanged (not a parsed copy)
+ * @throws {SportsMonksSchemaError} - In strict mode, when the data doesn't match
+ *
+ * A response without data ("No result(s) found") is always valid.
+ */
+function validateResponse<T>(
+  schema: z.ZodType<T>,
+  response: SportsMonksResponse<unknown>,
+  endpoint: string
+): SportsMonksResponse<T> {
+  if (VALIDATION_MODE === 'off' || response?.data === undefined || response.data === null) {
+    return response as SportsMonksResponse<T>;
+  }
+
+  const result = schema.safeParse(response.data);
+
+  if (!result.success) {
+    const issues = result.error.issues
+      .slice(0, MAX_REPORTED_ISSUES)
+      .map(issue => `data.${issue.path.join('.')}: ${issue.message}`);
+    const more = result.error.issues.length - issues.length;
+    const summary = issues.join('; ') + (more > 0 ? ` (+${more} more)` : '');
+
+    if (VALIDATION_MODE === 'strict') {
+      throw new SportsMonksSchemaError(`Unexpected SportsMonks response for ${endpoint}: ${summary}`);
+    }
+    console.warn(`[SportsMonks] Unexpected response shape for ${endpoint}: ${summary}`);
+  }
+
+  return response as SportsMonksResponse<T>;
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+export type { ValidationMode };
+
+export {
+  VALIDATION_MODE,
+  CountrySchema,
+  VenueSchema,
+  StateSchema,
+  LeagueSchema,
+  SeasonSchema,
+  StageSchema,
+  StatisticSchema,
+  SeasonStatisticSchema,
+  CoachSchema,
+  RefereeSchema,
+  FixtureRefereeSchema,
+  ParticipantSchema,
+  PlayerSchema,
+  SquadMemberSchema,
+  TransferSchema,
+  ScoreSchema,
+  FixtureEventSchema,
+  LineupSchema,
+  FixtureMetadataSchema,
+  WeatherReportSchema,
+  SidelinedSchema,
+  BookmakerSchema,
+  MarketSchema,
+  OddSchema,
+  PredictionSchema,
+  PredictabilitySchema,
+  FixtureSchema,
+  StandingSchema,
+  TopScorerSchema,
+  validateResponse
+};
@@ -0,0 +1,310 @@
+// ============================================
+// STAT AVERAGES SERVICE
+// ============================================
+// Averages any SportsMonks statistic type (corners, shots, cards,
+// fouls, possession...) for a team over a season - the generalized
+// form of the corners endpoint.
+//
+// A team's season is loaded once as per-fixture records holding every
+// statistic for both sides, then summarized per requested type:
+//   - for (the team's value) and against (the opponent's value)
+//   - home / away / overall totals, games and averages
+//   - form over the last N fixtures
+//   - the per-fixture series, oldest first
+//
+// Records come from the warehouse when the season has been stored
+// there, otherwise from SportsMonks. They're cached per team and season.
+// ============================================
+
+import prisma from '../db.js';
+import cache from './cache.js';
+import { getTeamFixturesWithStats } from './sportsmonks.js';
+import { getSeasonDates } from './seasonResults.js';
+import { FINISHED_STATES } from './settlement.js';
+import { getKickoffTime } from './closingLines.js';
+import { getTypeByCode, getTypeById } from './types.js';
+import { fetchSeasonInWindows, isSeasonStored, toNumber } from './warehouse.js';
+
+type AnyRecord = Record<string, any>;
+
+// One finished fixture from the team's point of view.
+// stats: typeId → [team value, opponent value] (null when not recorded)
+type FixtureStats = {
+  fixtureId: number;
+  startingAt: string;
+  location: 'home' | 'away';
+  opponentId: number | null;
+  opponentName: string | null;
+  stats: Record<string, [number | null, number | null]>;
+};
+
+type TeamSeasonStats = {
+  teamId: number;
+  seasonId: number;
+  seasonName: string;
+  leagueName: string | null;
+  source: 'warehouse' | 'sportsmonks';
+  fixtures: FixtureStats[];
+  cachedAt: string;
+};
+
+type StatType = {
+  id: number;
+  name: string;
+  code: string;
+};
+
+type Split = {
+  total: number;
+  games: number;
+  average: number;
+};
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+// Types summarized when none are asked for: corners, shots total,
+// shots on target, yellow cards, fouls, offsides, ball possession
+const DEFAULT_TYPE_IDS = [34, 42, 86, 84, 56, 51, 45];
+
+// Form windows (last N fixtures) when none are asked for
+const DEFAULT_FORM_WINDOWS = [5, 10];
+
+const round = (value: number) => parseFloat(value.toFixed(2));
+
+// ============================================
+// STATISTIC TYPES
+// ============================================
+
+/**
+ * Resolve the statistic types asked for
+ * @param {string} [types] - Comma-separated type IDs or codes (e.g. "34,shots-on-target")
+ * @returns {Promise<object>} - { types, unknown } - unknown lists what couldn't be resolved
+ */
+async function resolveStatTypes(types?: string): Promise<{ types: StatType[]; unknown: string[] }> {
+  // Defaults are always summarized, named from the types table when it's synced
+  if (!types?.trim()) {
+    const defaults = await Promise.all(DEFAULT_TYPE_IDS.map(async (id) => {
+      const type = await getTypeById(id);
+      return { id, name: type?.name ?? `Unknown (${id})`, code: type?.code ?? String(id) };
+    }));
+    return { types: defaults, unknown: [] };
+  }
+
+  const resolved: StatType[] = [];
+  const unknown: string[] = [];
+
+  for (const value of types.split(',').map(v => v.trim()).filter(Boolean)) {
+    const type = /^\d+$/.test(value) ? await getTypeById(Number(value)) : await getTypeByCode(value);
+
+    if (!type || type.modelType !== 'statistic') {
+      unknown.push(value);
+    } else if (!resolved.some(existing => existing.id === type.id)) {
+      resolved.push({ id: type.id, name: type.name, code: type.code });
+    }
+  }
+
+  return { types: resolved, unknown };
+}
+
+// ============================================
+// LOAD FIXTURES
+// ============================================
+
+// A stored season, when the warehouse has it
+async function loadFromWarehouse(teamId: number, seasonId: number): Promise<FixtureStats[] | null> {
+  if (!await isSeasonStored(seasonId)) return null;
+
+  const fixtures = await prisma.warehouseFixture.findMany({
+    where: {
+      seasonId,
+      state: { in: FINISHED_STATES },
+      OR: [{ homeTeamId: teamId }, { awayTeamId: teamId }]
+    },
+    include: { statistics: true },
+    orderBy: { startingAt: 'asc' }
+  });
+
+  const opponentIds = fixtures.map(f => (f.homeTeamId === teamId ? f.awayTeamId : f.homeTeamId))
+    .filter((id): id is number => id !== null);
+  const teams = await prisma.warehouseTeam.findMany({ where: { id: { in: opponentIds } } });
+  const teamNames = new Map(teams.map(team => [team.id, team.name]));
+
+  return fixtures.filter(f => f.startingAt).map((fixture) => {
+    const location = fixture.homeTeamId === teamId ? 'home' : 'away';
+    const opponentId = location === 'home' ? fixture.awayTeamId : fixture.homeTeamId;
+
+    const stats: FixtureStats['stats'] = {};
+    for (const row of fixture.statistics) {
+      if (row.teamId === null) continue;
+      const pair = stats[row.typeId] ?? [null, null];
+      pair[row.teamId === teamId ? 0 : 1] = row.value;
+      stats[row.typeId] = pair;
+    }
+
+    return {
+      fixtureId: fixture.id,
+      startingAt: fixture.startingAt!.toISOString(),
+      location,
+      opponentId,
+      opponentName: opponentId !== null ? teamNames.get(opponentId) ?? null : null,
+      stats
+    };
+  });
+}
+
+// The season from SportsMonks, in windows up to today (or the season's end)
+async function loadFromSportsMonks(
+  teamId: number,
+  seasonId: number,
+  startDate: string,
+  endDate: string
+): Promise<FixtureStats[]> {
+  const fixtures: AnyRecord[] = await fetchSeasonInWindows(startDate, endDate,
+    (start, end) => getTeamFixturesWithStats(start, end, teamId));
+
+  const records: FixtureStats[] = [];
+
+  // The team endpoint returns every competition - keep this season's finished matches
+  for (const fixture of fixtures) {
+    if (fixture.season_id !== seasonId || !FINISHED_STATES.includes(fixture.state?.state)) continue;
+
+    const team = fixture.participants?.find((p: AnyRecord) => p.id === teamId);
+    const opponent = fixture.participants?.find((p: AnyRecord) => p.id !== teamId);
+    const location = team?.meta?.location;
+    const kickoff = getKickoffTime(fixture);
+    if ((location !== 'home' && location !== 'away') || !kickoff) continue;
+
+    const stats: FixtureStats['stats'] = {};
+    for (const row of fixture.statistics || []) {
+      if (row.participant_id == null) continue;
+      const pair = stats[row.type_id] ?? [null, null];
+      pair[row.participant_id === teamId ? 0 : 1] = toNumber(row.data?.value);
+      stats[row.type_id] = pair;
+    }
+
+    records.push({
+      fixtureId: fixture.id,
+      startingAt: kickoff.toISOString(),
+      location,
+      opponentId: opponent?.id ?? null,
+      opponentName: opponent?.name ?? null,
+      stats
+    });
+  }
+
+  return records.sort((a, b) => a.startingAt.localeCompare(b.startingAt));
+}
+
+/**
+ * Load a team's finished fixtures in a season with every statistic (cached)
+ * @param {number} teamId - The SportsMonks team ID
+ * @param {number} seasonId - The SportsMonks season ID
+ * @returns {Promise<object|null>} - Season info and fixtures (oldest first), or null if the season doesn't exist
+ */
+async function loadTeamSeasonStats(
+  teamId: number,
+  seasonId: number
+): Promise<{ data: TeamSeasonStats; fromCache: boolean } | null> {
+  const cacheKey = cache.keys.statAverages(teamId, seasonId);
+  const cached = await cache.get<TeamSeasonStats>(cacheKey);
+  if (cached) return { data: cached, fromCache: true };
+
+  const season = await getSeasonDates(seasonId);
+  if (!season) return null;
+
+  const stored = await loadFromWarehouse(teamId, seasonId);
+  const fixtures = stored ?? await loadFromSportsMonks(teamId, seasonId, season.startDate, season.endDate);
+
+  const data: TeamSeasonStats = {
+    teamId,
+    seasonId,
+    seasonName: season.name,
+    leagueName: season.leagueName ?? null,
+    source: stored ? 'warehouse' : 'sportsmonks',
+    fixtures,
+    cachedAt: new Date().toISOString()
+  };
+
+  await cache.set(cacheKey, data, cache.TTL.STAT_AVERAGES);
+  return { data, fromCache: false };
+}
+
+// ============================================
+// SUMMARIZE
+// ============================================
+
+function toSplit(values: number[]): Split {
+  const total = round(values.reduce((sum, value) => sum + value, 0));
+  return {
+    total,
+    games: values.length,
+    average: values.length > 0 ? round(total / values.length) : 0
+  };
+}
+
+// Home / away / overall splits for one side (0 = for, 1 = against).
+// Fixtures without the statistic don't count as games.
+function toSplits(fixtures: FixtureStats[], typeId: number, side: 0 | 1) {
+  const valuesAt = (location?: string) => fixtures
+    .filter(f => !location || f.location === location)
+    .map(f => f.stats[typeId]?.[side])
+    .filter((value): value is number => typeof value === 'number');
+
+  return {
+    home: toSplit(valuesAt('home')),
+    away: toSplit(valuesAt('away')),
+    overall: toSplit(valuesAt())
+  };
+}
+
+/**
+ * Summarize one statistic type over a team's season
+ * @param {object[]} fixtures - Records from loadTeamSeasonStats, oldest first
+ * @param {object} type - { id, name, code }
+ * @param {number[]} formWindows - Sizes of the last-N form windows
+ * @returns {object} - { typeId, name, code, for, against, form, series }
+ */
+function summarizeStatType(fixtures: FixtureStats[], type: StatType, formWindows: number[]) {
+  const recorded = fixtures.filter(f => f.stats[type.id]);
+
+  return {
+    typeId: type.id,
+    name: type.name,
+    code: type.code,
+    for: toSplits(recorded, type.id, 0),
+    against: toSplits(recorded, type.id, 1),
+    form: formWindows.map((last) => {
+      const window = recorded.slice(-last);
+      return {
+        last,
+        games: window.length,
+        for: toSplits(window, type.id, 0).overall.average,
+        against: toSplits(window, type.id, 1).overall.average
+      };
+    }),
+    series: recorded.map(f => ({
+      fixtureId: f.fixtureId,
+      startingAt: f.startingAt,
+      location: f.location,
+      opponentId: f.opponentId,
+      opponentName: f.opponentName,
+      for: f.stats[type.id][0],
+      against: f.stats[type.id][1]
+    }))
+  };
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+export type { FixtureStats, TeamSeasonStats, StatType };
+
+export {
+  DEFAULT_FORM_WINDOWS,
+  resolveStatTypes,
+  loadTeamSeasonStats,
+  summarizeStatType
+};
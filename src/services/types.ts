@@ -208,7 +208,7 @@ const getCacheStatus = async (): Promise<{
 // ============================================
 // These functions sync types from the SportsMonks API to our database.
 
-const TYPES_API_URL = 'https://api.sportmonks.com/v3/core/types';
+const TYPES_API_URL = `${process.env.SPORTSMONKS_API_URL || 'https://api.sportmonks.com/v3'}/core/types`;
 
 /**
  * Fetch all types from SportsMonks API (handles pagination).
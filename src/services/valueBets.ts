@@ -0,0 +1,344 @@
+// ============================================
+// VALUE BETS SERVICE
+// ============================================
+// Joins SportsMonks model predictions with bookmaker prices to find
+// selections where the best available price beats the model.
+//
+// For each prediction type we know the matching odds market and how
+// each predicted outcome maps to an odd's label. Per selection:
+//   - Probability: model probability (SportsMonks gives percentages)
+//   - Fair price:  1 / probability
+//   - EV:          expected value of a 1-unit stake at the best price (%)
+//                  ev = (probability * price - 1) * 100
+//   - Kelly:       bankroll share the Kelly criterion would stake
+//                  kelly = (probability * price - 1) / (price - 1)
+//
+// Suspended (stopped) odds are ignored - they can't be taken.
+// ============================================
+
+import cache from './cache.js';
+import { getFixturesWithPredictionsAndOdds } from './sportsmonks.js';
+import { getKickoffTime, normalizeSelection } from './closingLines.js';
+import { toOddsValue } from './pricing.js';
+import { loadNameLookups } from './referenceNames.js';
+import type { Fixture, Odd, Participant, Prediction } from '../types/sportsmonks.js';
+
+type SelectionMapping = {
+  key: string;        // Key in the prediction's `predictions` object
+  label: string;      // Label shown in responses
+  oddLabels: string[]; // Normalized odd labels that match this outcome
+};
+
+type PredictionMarket = {
+  typeId: number;
+  marketId: number;
+  name: string;
+  total?: number;
+  selections: SelectionMapping[];
+};
+
+// The odd fields pricing needs - odds rebuilt from our snapshots
+// (backtests.ts) have only these
+type PriceableOdd = Pick<Odd, 'market_id' | 'bookmaker_id' | 'label' | 'value'> & Partial<Odd>;
+
+type PriceableFixture = Omit<Fixture, 'odds'> & { odds?: PriceableOdd[] };
+
+type ValueBetTeam = Pick<Participant, 'id' | 'name' | 'image_path'>;
+
+type ValueBet = {
+  fixtureId: number;
+  fixtureName: string;
+  startingAt: string | null;
+  kickoff: Date | null;
+  leagueId: number;
+  leagueName: string | null;
+  homeTeam: ValueBetTeam | null;
+  awayTeam: ValueBetTeam | null;
+  predictionTypeId: number;
+  marketId: number;
+  marketName: string;
+  selection: string;
+  line: number | null;
+  probability: number;
+  best: {
+    value: string;
+    american: string;
+    fractional: string;
+    bookmakerId: number;
+    bookmakerName: string;
+  };
+  bookmakerCount: number;
+  fair: ReturnType<typeof toOddsValue>;
+  ev: number;
+  kelly: number;
+};
+
+type ScanOptions = {
+  startDate: string;
+  endDate: string;
+  leagueIds?: number[];
+  minEdge?: number;
+  kellyFraction?: number;
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const round4 = (value: number) => Math.round(value * 10000) / 10000;
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+// Over/Under predictions answer "yes" for over and "no" for under
+const overUnder = (typeId: number, total: number): PredictionMarket => ({
+  typeId,
+  marketId: 12,
+  name: `Over/Under ${total}`,
+  total,
+  selections: [
+    { key: 'yes', label: `Over ${total}`, oddLabels: ['over'] },
+    { key: 'no', label: `Under ${total}`, oddLabels: ['under'] }
+  ]
+});
+
+// Prediction type ID -> odds market, with the outcome/label mapping.
+// Odd labels are compared after normalizeSelection ("Home" -> "1").
+const PREDICTION_MARKETS: PredictionMarket[] = [
+  {
+    typeId: 237,
+    marketId: 1,
+    name: 'Fulltime Result',
+    selections: [
+      { key: 'home', label: 'Home', oddLabels: ['1'] },
+      { key: 'draw', label: 'Draw', oddLabels: ['x'] },
+      { key: 'away', label: 'Away', oddLabels: ['2'] }
+    ]
+  },
+  {
+    typeId: 239,
+    marketId: 63,
+    name: 'Double Chance',
+    selections: [
+      { key: 'draw_home', label: 'Home/Draw', oddLabels: ['1x', 'home/draw', 'draw/home'] },
+      { key: 'home_away', label: 'Home/Away', oddLabels: ['12', 'home/away', 'away/home'] },
+      { key: 'draw_away', label: 'Draw/Away', oddLabels: ['x2', 'draw/away', 'away/draw'] }
+    ]
+  },
+  {
+    typeId: 231,
+    marketId: 14,
+    name: 'Both Teams To Score',
+    selections: [
+      { key: 'yes', label: 'Yes', oddLabels: ['yes'] },
+      { key: 'no', label: 'No', oddLabels: ['no'] }
+    ]
+  },
+  overUnder(234, 1.5),
+  overUnder(235, 2.5),
+  overUnder(236, 3.5),
+  overUnder(1679, 4.5)
+];
+
+// Correct score predictions come as a { "1-0": 12.5, ... } map, so the
+// selections are built per fixture. Market ID 57 is the SportsMonks
+// "Correct Score" market.
+const CORRECT_SCORE_TYPE_ID = 240;
+const CORRECT_SCORE_MARKET_ID = 57;
+
+// ============================================
+// HELPERS
+// ============================================
+
+// "1:0" and "1 - 0" both become "1-0"
+const normalizeScore = (value: unknown) =>
+  normalizeSelection(value).replace(/\s*[:-]\s*/g, '-');
+
+const getParticipant = (fixture: PriceableFixture, location: 'home' | 'away') =>
+  (fixture.participants || []).find(team => team.meta?.location === location);
+
+/**
+ * Build the market mapping for a correct score prediction
+ * @param {object} scores - Score -> percentage map from the prediction
+ * @returns {object} - A PredictionMarket with one selection per score
+ *
+ * "Other" buckets are skipped - they don't map to a single odd.
+ */
+function correctScoreMarket(scores: Record<string, unknown>): PredictionMarket {
+  return {
+    typeId: CORRECT_SCORE_TYPE_ID,
+    marketId: CORRECT_SCORE_MARKET_ID,
+    name: 'Correct Score',
+    selections: Object.keys(scores)
+      .filter(score => !score.startsWith('Other'))
+      .map(score => ({ key: score, label: score, oddLabels: [normalizeScore(score)] }))
+  };
+}
+
+/**
+ * Find the open odds for one predicted outcome
+ * @param {object[]} odds - All odds for the fixture
+ * @param {object} market - The prediction's market mapping
+ * @param {object} selection - The outcome to match
+ * @returns {object[]} - Matching odds from every bookmaker
+ */
+function findSelectionOdds(odds: PriceableOdd[], market: PredictionMarket, selection: SelectionMapping) {
+  const normalize = market.typeId === CORRECT_SCORE_TYPE_ID ? normalizeScore : normalizeSelection;
+
+  return odds.filter(odd => {
+    const price = parseFloat(odd.value ?? odd.dp3);
+    if (odd.stopped || !(price > 1) || odd.market_id !== market.marketId) return false;
+
+    if (market.total !== undefined && (!odd.total || parseFloat(odd.total) !== market.total)) return false;
+
+    const labels = [odd.label, odd.name, odd.original_label].filter(Boolean);
+    return labels.some(label => selection.oddLabels.includes(normalize(label)));
+  });
+}
+
+// ============================================
+// FIND VALUE BETS FOR ONE FIXTURE
+// ============================================
+
+/**
+ * Price every predicted outcome of a fixture against the best odds
+ * @param {object} fixture - Fixture with participants, league, predictions and odds
+ * @param {object} names - Bookmaker name lookup (optional)
+ * @returns {object[]} - One entry per outcome that has both a probability and a price
+ *
+ * Example: findFixtureValueBets(fixture)
+ * Returns: [{ fixtureId: 19134913, marketId: 1, selection: "Home", probability: 0.52,
+ *             best: { value: "2.10", ..., bookmakerId: 2, bookmakerName: "bet365" },
+ *             fair: { value: "1.92", ... }, ev: 9.2, kelly: 0.0836 }, ...]
+ */
+function findFixtureValueBets(fixture: PriceableFixture, names?: { bookmakers: Map<number, string> }): ValueBet[] {
+  const odds = fixture.odds || [];
+  const predictions: Prediction[] = fixture.predictions || [];
+  if (odds.length === 0 || predictions.length === 0) return [];
+
+  const home = getParticipant(fixture, 'home');
+  const away = getParticipant(fixture, 'away');
+  const bets: ValueBet[] = [];
+
+  for (const prediction of predictions) {
+    const values = prediction.predictions || {};
+    const scores = (values.scores || {}) as Record<string, unknown>;
+    const market = prediction.type_id === CORRECT_SCORE_TYPE_ID
+      ? correctScoreMarket(scores)
+      : PREDICTION_MARKETS.find(m => m.typeId === prediction.type_id);
+    if (!market) continue;
+
+    const probabilities = prediction.type_id === CORRECT_SCORE_TYPE_ID ? scores : values;
+
+    for (const selection of market.selections) {
+      const probability = parseFloat(String(probabilities[selection.key])) / 100;
+      if (!(probability > 0 && probability < 1)) continue;
+
+      const selectionOdds = findSelectionOdds(odds, market, selection);
+      if (selectionOdds.length === 0) continue;
+
+      // Best price across bookmakers
+      const bestOdd = selectionOdds.reduce((best, odd) =>
+        parseFloat(odd.value ?? odd.dp3) > parseFloat(best.value ?? best.dp3) ? odd : best
+      );
+      const price = parseFloat(bestOdd.value ?? bestOdd.dp3);
+      const edge = probability * price - 1;
+
+      bets.push({
+        fixtureId: fixture.id,
+        fixtureName: fixture.name,
+        startingAt: fixture.starting_at ?? null,
+        kickoff: getKickoffTime(fixture),
+        leagueId: fixture.league_id,
+        leagueName: fixture.league?.name ?? null,
+        homeTeam: home ? { id: home.id, name: home.name, image_path: home.image_path } : null,
+        awayTeam: away ? { id: away.id, name: away.name, image_path: away.image_path } : null,
+        predictionTypeId: market.typeId,
+        marketId: market.marketId,
+        marketName: market.name,
+        selection: selection.label,
+        line: market.total ?? null,
+        probability: round4(probability),
+
+        // Use the bookmaker's own odd so its american/fractional strings are kept
+        best: {
+          value: bestOdd.value ?? price.toFixed(2),
+          american: bestOdd.american ?? toOddsValue(price).american,
+          fractional: bestOdd.fractional ?? toOddsValue(price).fractional,
+          bookmakerId: bestOdd.bookmaker_id,
+          bookmakerName: names?.bookmakers.get(bestOdd.bookmaker_id)
+            || bestOdd.bookmaker?.name
+            || `Bookmaker ${bestOdd.bookmaker_id}`
+        },
+        bookmakerCount: new Set(selectionOdds.map(odd => odd.bookmaker_id)).size,
+        fair: toOddsValue(1 / probability),
+        ev: round2(edge * 100),
+        kelly: edge > 0 ? round4(edge / (price - 1)) : 0
+      });
+    }
+  }
+
+  return bets;
+}
+
+// ============================================
+// SCAN A DATE RANGE
+// ============================================
+
+/**
+ * Find value bets across all fixtures in a date range
+ * @param {object} options
+ * @param {string} options.startDate - YYYY-MM-DD
+ * @param {string} options.endDate - YYYY-MM-DD
+ * @param {number[]} options.leagueIds - Only these leagues (optional)
+ * @param {number} options.minEdge - Minimum EV in percent (default 0 = positive EV only)
+ * @param {number} options.kellyFraction - Fraction of Kelly to stake (default 1 = full Kelly)
+ * @returns {Promise<object>} - { fixturesScanned, bets } with bets sorted by EV, best first
+ *
+ * The priced selections for a range are cached for 10 minutes, so
+ * changing the edge or Kelly filters doesn't hit SportsMonks again.
+ * Fixtures that have already kicked off are dropped.
+ */
+async function scanValueBets(options: ScanOptions) {
+  const leagueIds = [...(options.leagueIds || [])].sort((a, b) => a - b);
+  const minEdge = options.minEdge ?? 0;
+  const kellyFraction = options.kellyFraction ?? 1;
+
+  const scan = await cache.getOrFetch(
+    cache.keys.value(options.startDate, options.endDate, leagueIds.join(',') || 'all'),
+    async () => {
+      const [result, names] = await Promise.all([
+        getFixturesWithPredictionsAndOdds(options.startDate, options.endDate, leagueIds),
+        loadNameLookups()
+      ]);
+      const fixtures = result.data || [];
+
+      return {
+        fixturesScanned: fixtures.length,
+        bets: fixtures.flatMap(fixture => findFixtureValueBets(fixture, names))
+      };
+    },
+    cache.TTL.VALUE
+  );
+
+  const now = new Date();
+  const bets = scan.bets
+    .filter(bet => bet.ev >= minEdge && (!bet.kickoff || new Date(bet.kickoff) > now))
+    .map(bet => ({ ...bet, stake: round4(bet.kelly * kellyFraction) }))
+    .sort((a, b) => b.ev - a.ev);
+
+  return {
+    fixturesScanned: scan.fixturesScanned,
+    bets
+  };
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+export type { PriceableOdd, ValueBet };
+
+export {
+  PREDICTION_MARKETS,
+  findFixtureValueBets,
+  scanValueBets
+};
@@ -0,0 +1,505 @@
+// ============================================
+// WAREHOUSE SERVICE
+// ============================================
+// Keeps a local copy of the warehouse leagues' fixtures - scores,
+// statistics, lineups, events and referees - in normalized Postgres tables
+// (warehouse_* in schema.prisma), so historical questions can be
+// answered without calling SportsMonks.
+//
+// Ingestion works one season at a time, walking it in date windows
+// (SportsMonks fixtures/between, at most 100 days per call):
+//   1. Each window's fixtures are stored, replacing anything already
+//      stored for them
+//   2. The season's WarehouseSync row moves syncedThrough to the end of
+//      the window, so a run that fails or is cut off by a restart
+//      resumes at the next window instead of starting over
+//   3. A season that has ended and is stored to its last day is
+//      COMPLETED; one still being played stays CURRENT
+//
+// Backfills (past seasons) are started by an admin. The nightly sync
+// resumes unfinished backfills and brings current seasons up to date,
+// re-reading the last few days to pick up late results and corrections.
+//
+// Services that answer from the warehouse when a season is stored and
+// from SportsMonks otherwise (statAverages.ts, leagueTeamStats.ts) use
+// isSeasonStored(), fetchSeasonInWindows() and toNumber() from here.
+// ============================================
+
+import prisma from '../db.js';
+import { getLeagueFixturesWithDetails, getSeasonById, getSeasonsByLeague } from './sportsmonks.js';
+import { getFinalScore } from './settlement.js';
+import { getKickoffTime } from './closingLines.js';
+import type { Fixture, Season } from '../types/sportsmonks.js';
+
+type SyncOptions = {
+  incremental?: boolean;  // Re-read the days before syncedThrough (nightly sync)
+};
+
+type SeasonSelection = {
+  seasonIds?: number[];   // These seasons...
+  leagueIds?: number[];   // ...or the most recent seasons of these leagues
+  seasonsBack?: number;   // How many per league (default 3)
+};
+
+type SyncResult = {
+  seasonId: number;
+  status: string;
+  fixturesIngested: number;
+  syncedThrough: Date | null;
+  error: string | null;
+};
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Unknown error';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+// Days of fixtures per SportsMonks call (default 14, at most 100). Smaller
+// windows mean less work is repeated when a run stops early.
+const WINDOW_DAYS = Math.min(100, Math.max(1, Number(process.env.WAREHOUSE_WINDOW_DAYS) || 14));
+
+// Days before syncedThrough the nightly sync reads again
+const INCREMENTAL_LOOKBACK_DAYS = 3;
+
+// SportsMonks fixtures/between is limited to 100 days per request
+const MAX_RANGE_DAYS = 100;
+
+// Sync statuses of seasons stored far enough to answer from
+const USABLE_SYNC_STATUSES = ['CURRENT', 'COMPLETED'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// "2025-01-11" (UTC) for SportsMonks date params
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+
+const toDate = (dateString: string) => new Date(`${dateString}T00:00:00Z`);
+
+// Fixture official type of the referee (7/8 are assistants, 9 the fourth official)
+const REFEREE_TYPE_ID = 6;
+
+// Seasons being ingested by this process, so one can't run twice at once
+const activeSeasons = new Set<number>();
+
+// ============================================
+// NORMALIZE
+// ============================================
+
+// Statistic values are usually numbers, sometimes numeric strings ("58%")
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return value;
+  const parsed = parseFloat(typeof value === 'string' ? value : '');
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Turn a SportsMonks fixture into warehouse rows
+ * @param {object} fixture - Fixture with participants, state, scores, statistics, lineups, events and referees
+ * @returns {object} - { fixture, teams, scores, statistics, lineups, events }
+ */
+function toWarehouseRows(fixture: Fixture) {
+  const home = fixture.participants?.find(p => p.meta?.location === 'home');
+  const away = fixture.participants?.find(p => p.meta?.location === 'away');
+  const score = getFinalScore(fixture);
+
+  return {
+    fixture: {
+      id: fixture.id,
+      leagueId: fixture.league_id,
+      seasonId: fixture.season_id,
+      stageId: fixture.stage_id ?? null,
+      roundId: fixture.round_id ?? null,
+      venueId: fixture.venue_id ?? null,
+      name: fixture.name,
+      startingAt: getKickoffTime(fixture),
+      stateId: fixture.state_id,
+      state: fixture.state?.state ?? null,
+      resultInfo: fixture.result_info ?? null,
+      homeTeamId: home?.id ?? null,
+      awayTeamId: away?.id ?? null,
+      homeGoals: score?.home ?? null,
+      awayGoals: score?.away ?? null,
+      refereeId: fixture.referees?.find(official => official.type_id === REFEREE_TYPE_ID)?.referee_id ?? null
+    },
+    teams: (fixture.participants || []).map(team => ({
+      id: team.id,
+      name: team.name,
+      shortCode: team.short_code ?? null,
+      imagePath: team.image_path ?? null
+    })),
+    scores: (fixture.scores || []).map(row => ({
+      id: row.id,
+      fixtureId: fixture.id,
+      teamId: row.participant_id,
+      typeId: row.type_id,
+      description: row.description,
+      location: row.score.participant,
+      goals: row.score.goals
+    })),
+    statistics: (fixture.statistics || []).map(row => ({
+      id: row.id,
+      fixtureId: fixture.id,
+      teamId: row.participant_id ?? null,
+      typeId: row.type_id,
+      location: row.location ?? null,
+      value: toNumber(row.data?.value)
+    })),
+    lineups: (fixture.lineups || []).map(row => ({
+      id: row.id,
+      fixtureId: fixture.id,
+      teamId: row.team_id,
+      playerId: row.player_id,
+      playerName: row.player_name ?? null,
+      typeId: row.type_id ?? null,
+      positionId: row.position_id ?? null,
+      formationPosition: row.formation_position ?? null,
+      jerseyNumber: row.jersey_number ?? null
+    })),
+    events: (fixture.events || []).map(row => ({
+      id: row.id,
+      fixtureId: fixture.id,
+      teamId: row.participant_id ?? null,
+      typeId: row.type_id,
+      playerId: row.player_id ?? null,
+      playerName: row.player_name ?? null,
+      relatedPlayerId: row.related_player_id ?? null,
+      relatedPlayerName: row.related_player_name ?? null,
+      minute: row.minute ?? null,
+      extraMinute: row.extra_minute ?? null,
+      result: row.result ?? null
+    }))
+  };
+}
+
+// ============================================
+// STORE
+// ============================================
+
+/**
+ * Store fixtures and their details, replacing what's stored for them
+ * @param {object[]} fixtures - Fixtures from getLeagueFixturesWithDetails
+ * @returns {Promise<number>} - Number of fixtures stored
+ */
+async function storeFixtures(fixtures: Fixture[]): Promise<number> {
+  if (fixtures.length === 0) return 0;
+
+  const rows = fixtures.map(toWarehouseRows);
+  const fixtureIds = rows.map(row => row.fixture.id);
+
+  // The same team appears in many fixtures - store each once
+  const teams = new Map(rows.flatMap(row => row.teams).map(team => [team.id, team]));
+
+  await prisma.$transaction([
+    ...[...teams.values()].map(team => prisma.warehouseTeam.upsert({
+      where: { id: team.id },
+      create: team,
+      update: team
+    })),
+    ...rows.map(row => prisma.warehouseFixture.upsert({
+      where: { id: row.fixture.id },
+      create: row.fixture,
+      update: row.fixture
+    })),
+
+    // Details are replaced, so anything SportsMonks removed goes too
+    prisma.warehouseScore.deleteMany({ where: { fixtureId: { in: fixtureIds } } }),
+    prisma.warehouseStatistic.deleteMany({ where: { fixtureId: { in: fixtureIds } } }),
+    prisma.warehouseLineup.deleteMany({ where: { fixtureId: { in: fixtureIds } } }),
+    prisma.warehouseEvent.deleteMany({ where: { fixtureId: { in: fixtureIds } } }),
+    prisma.warehouseScore.createMany({ data: rows.flatMap(row => row.scores), skipDuplicates: true }),
+    prisma.warehouseStatistic.createMany({ data: rows.flatMap(row => row.statistics), skipDuplicates: true }),
+    prisma.warehouseLineup.createMany({ data: rows.flatMap(row => row.lineups), skipDuplicates: true }),
+    prisma.warehouseEvent.createMany({ data: rows.flatMap(row => row.events), skipDuplicates: true })
+  ]);
+
+  return rows.length;
+}
+
+// ============================================
+// SYNC A SEASON
+// ============================================
+
+/**
+ * Ingest a season's fixtures, continuing from where the last run stopped
+ * @param {number} seasonId - The SportsMonks season ID
+ * @param {object} options
+ * @param {boolean} options.incremental - Also re-read the last few synced days (default false)
+ * @returns {Promise<object>} - { seasonId, status, fixturesIngested, syncedThrough, error }
+ *
+ * Failures are stored on the season's sync row (status INCOMPLETE) rather
+ * than thrown, so the next run can resume.
+ *
+ * Example: syncSeason(23614)
+ */
+async function syncSeason(seasonId: number, options: SyncOptions = {}): Promise<SyncResult> {
+  if (activeSeasons.has(seasonId)) {
+    throw new Error(`Season ${seasonId} is already being ingested`);
+  }
+  activeSeasons.add(seasonId);
+
+  let fixturesIngested = 0;
+  let syncedThrough: Date | null = null;
+
+  try {
+    // 1. Season dates
+    const result = await getSeasonById(seasonId);
+    const season = result.data;
+    if (!season?.starting_at || !season.ending_at) {
+      throw new Error(`Season ${seasonId} not found or has no dates`);
+    }
+
+    const startDate = toDate(season.starting_at);
+    const endDate = toDate(season.ending_at);
+
+    const existing = await prisma.warehouseSync.findUnique({ where: { seasonId } });
+    syncedThrough = existing?.syncedThrough ?? null;
+
+    await prisma.warehouseSync.upsert({
+      where: { seasonId },
+      create: { seasonId, leagueId: season.league_id, startDate, endDate, lastRunAt: new Date() },
+      update: { leagueId: season.league_id, startDate, endDate, status: 'RUNNING', error: null, lastRunAt: new Date() }
+    });
+
+    // 2. Where to start: the day after the last synced one (minus the
+    //    lookback for incremental runs), or the start of the season
+    const today = toDate(toDateString(new Date()));
+    let from = syncedThrough ? new Date(syncedThrough.getTime() + DAY_MS) : startDate;
+    if (options.incremental && syncedThrough) {
+      from = new Date(Math.min(from.getTime(), today.getTime() - INCREMENTAL_LOOKBACK_DAYS * DAY_MS));
+    }
+    if (from < startDate) from = startDate;
+
+    const to = endDate < today ? endDate : today;
+
+    // 3. Window by window, recording progress after each one
+    for (let windowStart = from; windowStart <= to;) {
+      const windowEnd = new Date(Math.min(to.getTime(), windowStart.getTime() + (WINDOW_DAYS - 1) * DAY_MS));
+
+      const fixtures = await getLeagueFixturesWithDetails(
+        toDateString(windowStart),
+        toDateString(windowEnd),
+        [season.league_id]
+      );
+      const stored = await storeFixtures((fixtures.data || []).filter(f => f.season_id === seasonId));
+
+      fixturesIngested += stored;
+      if (!syncedThrough || windowEnd > syncedThrough) syncedThrough = windowEnd;
+
+      await prisma.warehouseSync.update({
+        where: { seasonId },
+        data: { syncedThrough, fixturesIngested: { increment: stored } }
+      });
+
+      windowStart = new Date(windowEnd.getTime() + DAY_MS);
+    }
+
+    // 4. Done for now - finished seasons are complete once stored to their last day
+    const complete = endDate < today && syncedThrough !== null && syncedThrough >= endDate;
+    const status = complete ? 'COMPLETED' : 'CURRENT';
+
+    await prisma.warehouseSync.update({ where: { seasonId }, data: { status } });
+
+    console.log(
+      `[Warehouse] Season ${seasonId}: ${fixturesIngested} fixtures stored, ` +
+      `synced through ${syncedThrough ? toDateString(syncedThrough) : '-'} (${status})`
+    );
+
+    return { seasonId, status, fixturesIngested, syncedThrough, error: null };
+  } catch (error) {
+    console.error(`[Warehouse] Season ${seasonId} stopped:`, getErrorMessage(error));
+
+    // The row may not exist yet if the season itself couldn't be loaded
+    await prisma.warehouseSync.updateMany({
+      where: { seasonId },
+      data: { status: 'INCOMPLETE', error: getErrorMessage(error) }
+    });
+
+    return { seasonId, status: 'INCOMPLETE', fixturesIngested, syncedThrough, error: getErrorMessage(error) };
+  } finally {
+    activeSeasons.delete(seasonId);
+  }
+}
+
+// ============================================
+// BACKFILLS AND THE NIGHTLY SYNC
+// ============================================
+
+/**
+ * Work out which seasons a backfill covers
+ * @param {object} selection - { seasonIds } or { leagueIds, seasonsBack }
+ * @returns {Promise<number[]>} - Season IDs, most recent first per league
+ *
+ * Seasons that haven't started yet are left out.
+ */
+async function resolveSeasons(selection: SeasonSelection): Promise<number[]> {
+  if (selection.seasonIds && selection.seasonIds.length > 0) {
+    return [...new Set(selection.seasonIds)];
+  }
+
+  const now = new Date();
+  const seasonIds: number[] = [];
+
+  for (const leagueId of selection.leagueIds || []) {
+    const result = await getSeasonsByLeague(leagueId);
+    const seasons: Season[] = (result.data?.seasons || [])
+      .filter(season => season.starting_at && new Date(season.starting_at) <= now)
+      .sort((a, b) => String(b.starting_at).localeCompare(String(a.starting_at)))
+      .slice(0, selection.seasonsBack ?? 3);
+
+    seasonIds.push(...seasons.map(season => season.id));
+  }
+
+  return seasonIds;
+}
+
+// Sync seasons one after the other (they share the rate limit)
+async function syncSeasons(seasonIds: number[], options: SyncOptions = {}): Promise<SyncResult[]> {
+  const results: SyncResult[] = [];
+  for (const seasonId of seasonIds) {
+    if (activeSeasons.has(seasonId)) continue;
+    results.push(await syncSeason(seasonId, options));
+  }
+  return results;
+}
+
+/**
+ * Start backfilling seasons in the background
+ * @param {object} selection - { seasonIds } or { leagueIds, seasonsBack }
+ * @returns {Promise<number[]>} - The season IDs queued (ones already running are skipped)
+ *
+ * Seasons already COMPLETED are checked again but have nothing left to
+ * fetch; partly ingested ones resume where they stopped.
+ *
+ * Example: startBackfill({ leagueIds: [8], seasonsBack: 3 })
+ */
+async function startBackfill(selection: SeasonSelection): Promise<number[]> {
+  const seasonIds = (await resolveSeasons(selection)).filter(id => !activeSeasons.has(id));
+
+  syncSeasons(seasonIds).catch(error => {
+    console.error('[Warehouse] Backfill failed:', getErrorMessage(error));
+  });
+
+  return seasonIds;
+}
+
+/**
+ * Nightly sync: resume unfinished seasons and bring current ones up to date
+ * @param {object} options
+ * @param {number[]} options.leagueIds - Warehouse leagues (their current seasons are synced)
+ * @returns {Promise<object[]>} - One result per season synced
+ */
+async function runNightlySync(options: { leagueIds: number[] }): Promise<SyncResult[]> {
+  // 1. Seasons already in the warehouse that aren't finished
+  const unfinished = await prisma.warehouseSync.findMany({
+    where: { status: { in: ['INCOMPLETE', 'CURRENT'] } },
+    select: { seasonId: true }
+  });
+
+  // 2. The warehouse leagues' current seasons (new ones start here)
+  const current: number[] = [];
+  for (const leagueId of options.leagueIds) {
+    try {
+      const result = await getSeasonsByLeague(leagueId);
+      current.push(...(result.data?.seasons || []).filter(season => season.is_current).map(season => season.id));
+    } catch (error) {
+      console.error(`[Warehouse] Failed to load seasons for league ${leagueId}:`, getErrorMessage(error));
+    }
+  }
+
+  const seasonIds = [...new Set([...unfinished.map(row => row.seasonId), ...current])];
+  return syncSeasons(seasonIds, { incremental: true });
+}
+
+/**
+ * Mark seasons left RUNNING by a restart as incomplete (they resume on the next sync)
+ * @returns {Promise<number>} - Number of seasons updated
+ */
+async function markInterruptedSyncs() {
+  const result = await prisma.warehouseSync.updateMany({
+    where: { status: 'RUNNING' },
+    data: { status: 'INCOMPLETE', error: 'Interrupted by a server restart' }
+  });
+  return result.count;
+}
+
+// ============================================
+// READING
+// ============================================
+
+/**
+ * Whether a season is stored far enough to answer from
+ * @param {number} seasonId - The SportsMonks season ID
+ * @returns {Promise<boolean>} - True once the season is CURRENT or COMPLETED
+ */
+async function isSeasonStored(seasonId: number): Promise<boolean> {
+  const sync = await prisma.warehouseSync.findUnique({ where: { seasonId } });
+  return sync !== null && USABLE_SYNC_STATUSES.includes(sync.status);
+}
+
+/**
+ * Fetch a season that isn't stored from SportsMonks, in 100-day windows
+ * up to today (or the season's end)
+ * @param {string} startDate - Season start, YYYY-MM-DD
+ * @param {string} endDate - Season end, YYYY-MM-DD
+ * @param {function} fetchWindow - (start, end) => a fixtures/between response for that window
+ * @returns {Promise<Array>} - Every window's fixtures, in window order
+ */
+async function fetchSeasonInWindows<T>(
+  startDate: string,
+  endDate: string,
+  fetchWindow: (start: string, end: string) => Promise<{ data?: T[] | null }>
+): Promise<T[]> {
+  const fixtures: T[] = [];
+  const end = new Date(Math.min(Date.now(), toDate(endDate).getTime()));
+
+  for (let windowStart = toDate(startDate); windowStart <= end;) {
+    const windowEnd = new Date(Math.min(end.getTime(), windowStart.getTime() + (MAX_RANGE_DAYS - 1) * DAY_MS));
+    const result = await fetchWindow(toDateString(windowStart), toDateString(windowEnd));
+    fixtures.push(...(result.data || []));
+    windowStart = new Date(windowEnd.getTime() + DAY_MS);
+  }
+
+  return fixtures;
+}
+
+// ============================================
+// STATUS
+// ============================================
+
+/**
+ * What's in the warehouse
+ * @returns {Promise<object>} - { counts, seasons } with one entry per ingested season
+ */
+async function getWarehouseStatus() {
+  const [fixtures, teams, statistics, lineups, events, seasons] = await Promise.all([
+    prisma.warehouseFixture.count(),
+    prisma.warehouseTeam.count(),
+    prisma.warehouseStatistic.count(),
+    prisma.warehouseLineup.count(),
+    prisma.warehouseEvent.count(),
+    prisma.warehouseSync.findMany({ orderBy: [{ leagueId: 'asc' }, { startDate: 'desc' }] })
+  ]);
+
+  return {
+    counts: { fixtures, teams, statistics, lineups, events },
+    seasons
+  };
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+export type { SyncResult, SeasonSelection };
+
+export {
+  syncSeason,
+  startBackfill,
+  runNightlySync,
+  markInterruptedSyncs,
+  getWarehouseStatus,
+  isSeasonStored,
+  fetchSeasonInWindows,
+  toNumber
+};
@@ -0,0 +1,217 @@
+// ============================================
+// WATCHLIST SERVICE
+// ============================================
+// The teams, leagues and fixtures a user follows, and the "My fixtures"
+// feed built from them. The feed only asks SportsMonks about followed
+// entities:
+//   - one team fixtures call per followed team
+//   - one date range call, and only when a followed league (or a
+//     followed fixture kicking off in the range) needs it
+// Each fixture in the feed says why it's there (watchedBecause).
+// ============================================
+
+import prisma from '../db.js';
+import {
+  getFixtureById,
+  getFixturesByDateRange,
+  getLeagueById,
+  getTeamById,
+  getTeamFixturesByDateRange
+} from './sportsmonks.js';
+import { getKickoffTime } from './closingLines.js';
+import type { Fixture } from '../types/sportsmonks.js';
+
+// Entity types as the API takes them
+const WATCHLIST_TYPES = {
+  team: 'TEAM',
+  league: 'LEAGUE',
+  fixture: 'FIXTURE'
+} as const;
+
+type WatchlistType = keyof typeof WATCHLIST_TYPES;
+
+type WatchlistEntityType = (typeof WATCHLIST_TYPES)[WatchlistType];
+
+// Why a fixture is in the feed
+type WatchReason = {
+  type: WatchlistType;
+  entityId: number;
+  label: string | null;
+};
+
+type WatchedFixture = Fixture & { watchedBecause: WatchReason[] };
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Unknown error';
+
+const toApiType = (entityType: WatchlistEntityType) =>
+  entityType.toLowerCase() as WatchlistType;
+
+// ============================================
+// ENTRIES
+// ============================================
+
+/**
+ * Look up a display name (and a fixture's kickoff) for a new entry.
+ * Best-effort: a SportsMonks failure shouldn't stop the user following
+ * something, it just leaves the label empty.
+ * @param {string} type - team, league or fixture
+ * @param {number} entityId - SportsMonks ID
+ * @returns {Promise<object>} - { label, kickoffAt }
+ */
+async function lookupEntity(type: WatchlistType, entityId: number) {
+  try {
+    if (type === 'team') {
+      const result = await getTeamById(entityId);
+      return { label: result.data?.name ?? null, kickoffAt: null };
+    }
+    if (type === 'league') {
+      const result = await getLeagueById(entityId);
+      return { label: result.data?.name ?? null, kickoffAt: null };
+    }
+
+    const result = await getFixtureById(entityId);
+    return { label: result.data?.name ?? null, kickoffAt: getKickoffTime(result.data) };
+  } catch (error) {
+    console.error(`Error looking up ${type} ${entityId} for watchlist:`, getErrorMessage(error));
+    return { label: null, kickoffAt: null };
+  }
+}
+
+/**
+ * Follow a team, league or fixture (following it again is a no-op)
+ * @param {string} userId - The user
+ * @param {string} type - team, league or fixture
+ * @param {number} entityId - SportsMonks ID
+ * @param {string} label - Display name (looked up when not given)
+ * @returns {Promise<object>} - { item, created }
+ */
+async function addToWatchlist(userId: string, type: WatchlistType, entityId: number, label?: string) {
+  const entityType = WATCHLIST_TYPES[type];
+
+  const existing = await prisma.watchlist.findUnique({
+    where: { userId_entityType_entityId: { userId, entityType, entityId } }
+  });
+  if (existing) {
+    return { item: existing, created: false };
+  }
+
+  // Fixtures are always looked up - the feed needs their kickoff
+  const lookup = label && type !== 'fixture'
+    ? { label, kickoffAt: null }
+    : await lookupEntity(type, entityId);
+
+  const item = await prisma.watchlist.create({
+    data: {
+      userId,
+      entityType,
+      entityId,
+      label: label || lookup.label,
+      kickoffAt: lookup.kickoffAt
+    }
+  });
+
+  return { item, created: true };
+}
+
+/**
+ * How many teams, leagues and fixtures a user follows
+ * @param {string} userId - The user
+ * @returns {Promise<object>} - { teams, leagues, fixtures, total }
+ */
+async function getWatchlistCounts(userId: string) {
+  const groups = await prisma.watchlist.groupBy({
+    by: ['entityType'],
+    where: { userId },
+    _count: { _all: true }
+  });
+
+  const countOf = (entityType: WatchlistEntityType) =>
+    groups.find(group => group.entityType === entityType)?._count._all ?? 0;
+
+  const counts = {
+    teams: countOf('TEAM'),
+    leagues: countOf('LEAGUE'),
+    fixtures: countOf('FIXTURE')
+  };
+
+  return { ...counts, total: counts.teams + counts.leagues + counts.fixtures };
+}
+
+// ============================================
+// MY FIXTURES FEED
+// ============================================
+
+/**
+ * Fixtures of the user's followed teams, leagues and fixtures in a date range
+ * @param {string} userId - The user
+ * @param {string} startDate - YYYY-MM-DD
+ * @param {string} endDate - YYYY-MM-DD (at most 100 days after startDate)
+ * @returns {Promise<Array>} - Fixtures by kickoff, each with watchedBecause
+ */
+async function getWatchedFixtures(userId: string, startDate: string, endDate: string): Promise<WatchedFixture[]> {
+  const items = await prisma.watchlist.findMany({ where: { userId } });
+
+  const teams = items.filter(item => item.entityType === 'TEAM');
+  const leagues = items.filter(item => item.entityType === 'LEAGUE');
+
+  // Followed fixtures outside the range don't need a call (kickoff
+  // unknown = the lookup failed, so check the range anyway)
+  const rangeStart = new Date(`${startDate}T00:00:00Z`);
+  const rangeEnd = new Date(`${endDate}T23:59:59.999Z`);
+  const fixtures = items.filter(item => item.entityType === 'FIXTURE'
+    && (!item.kickoffAt || (item.kickoffAt >= rangeStart && item.kickoffAt <= rangeEnd)));
+
+  const needsDateRange = leagues.length > 0 || fixtures.length > 0;
+
+  // 1. Only the calls the followed entities need, in parallel
+  const [teamResults, rangeResult] = await Promise.all([
+    Promise.all(teams.map(team => getTeamFixturesByDateRange(startDate, endDate, team.entityId))),
+    needsDateRange ? getFixturesByDateRange(startDate, endDate) : Promise.resolve(null)
+  ]);
+
+  // 2. Merge by fixture, collecting every reason it's in the feed
+  const feed = new Map<number, WatchedFixture>();
+  const addFixture = (fixture: Fixture, reason: WatchReason) => {
+    const entry = feed.get(fixture.id) ?? { ...fixture, watchedBecause: [] };
+    entry.watchedBecause.push(reason);
+    feed.set(fixture.id, entry);
+  };
+  const toReason = (item: (typeof items)[number]): WatchReason => ({
+    type: toApiType(item.entityType),
+    entityId: item.entityId,
+    label: item.label
+  });
+
+  teams.forEach((team, index) => {
+    for (const fixture of teamResults[index].data ?? []) {
+      addFixture(fixture, toReason(team));
+    }
+  });
+
+  for (const fixture of rangeResult?.data ?? []) {
+    const league = leagues.find(item => item.entityId === fixture.league_id);
+    if (league) addFixture(fixture, toReason(league));
+
+    const followed = fixtures.find(item => item.entityId === fixture.id);
+    if (followed) addFixture(fixture, toReason(followed));
+  }
+
+  // 3. Soonest kickoff first
+  return [...feed.values()].sort((a, b) =>
+    (a.starting_at ?? '').localeCompare(b.starting_at ?? '') || a.id - b.id);
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+export type { WatchlistType, WatchlistEntityType, WatchReason, WatchedFixture };
+
+export {
+  WATCHLIST_TYPES,
+  toApiType,
+  addToWatchlist,
+  getWatchlistCounts,
+  getWatchedFixtures
+};
@@ -0,0 +1,594 @@
+// ============================================
+// SPORTSMONKS DOMAIN TYPES
+// ============================================
+// The SportsMonks v3 entities our API passes through, shared by the
+// backend (services/sportsmonks.ts) and the frontend (imported as
+// "@shared/sportsmonks"). Plain types only - no imports or runtime
+// code, so the frontend can use them without pulling in the backend.
+//
+// Payloads are checked against matching schemas when they arrive
+// (services/sportsmonksSchemas.ts), so keep the two in step.
+//
+// Conventions:
+//   - Base fields SportsMonks always sends are required.
+//   - Fields it may omit or null are optional and nullable.
+//   - Relations only appear when requested with include=..., so they
+//     are always optional.
+//   - typeName is added by our enrichment (services/types.ts).
+// ============================================
+
+// ============================================
+// RESPONSE ENVELOPE
+// ============================================
+
+type Pagination = {
+  count: number;
+  per_page: number;
+  current_page: number;
+  next_page: string | null;
+  has_more: boolean;
+};
+
+type RateLimit = {
+  resets_in_seconds: number;
+  remaining: number;
+  requested_entity: string;
+};
+
+// data is missing when nothing matched ("No result(s) found ...")
+type SportsMonksResponse<T> = {
+  data?: T;
+  message?: string;
+  pagination?: Pagination;
+  rate_limit?: RateLimit;
+  timezone?: string;
+};
+
+// ============================================
+// REFERENCE ENTITIES
+// ============================================
+
+type Country = {
+  id: number;
+  name: string;
+  official_name?: string | null;
+  fifa_name?: string | null;
+  iso2?: string | null;
+  iso3?: string | null;
+  image_path?: string | null;
+};
+
+type Venue = {
+  id: number;
+  name: string;
+  country_id?: number | null;
+  city_id?: number | null;
+  address?: string | null;
+  city_name?: string | null;
+  capacity?: number | null;
+  image_path?: string | null;
+  surface?: string | null;
+};
+
+// A fixture state, e.g. { state: "FT", name: "Full Time" }
+type State = {
+  id: number;
+  state: string;
+  name: string;
+  short_name?: string | null;
+  developer_name?: string | null;
+};
+
+// A SportsMonks type (from a nested include like sidelined.type)
+type SportsMonksType = {
+  id: number;
+  name: string;
+  code?: string | null;
+  developer_name?: string | null;
+  model_type?: string | null;
+};
+
+// ============================================
+// COMPETITIONS
+// ============================================
+
+type League = {
+  id: number;
+  name: string;
+  sport_id?: number;
+  country_id?: number | null;
+  active?: boolean;
+  short_code?: string | null;
+  image_path?: string | null;
+  type?: string | null;
+  sub_type?: string | null;
+  last_played_at?: string | null;
+  category?: number | null;
+  country?: Country;
+  currentSeason?: Season | null;
+  seasons?: Season[];
+};
+
+type Season = {
+  id: number;
+  name: string;
+  league_id: number;
+  sport_id?: number;
+  finished?: boolean;
+  pending?: boolean;
+  is_current?: boolean;
+  starting_at?: string | null;
+  ending_at?: string | null;
+  standings_recalculated_at?: string | null;
+  games_in_current_week?: boolean;
+  league?: League;
+  stages?: Stage[];
+};
+
+type Stage = {
+  id: number;
+  name: string;
+  league_id: number;
+  season_id: number;
+  sport_id?: number;
+  type_id?: number | null;
+  sort_order?: number | null;
+  finished?: boolean;
+  is_current?: boolean;
+  starting_at?: string | null;
+  ending_at?: string | null;
+  games_in_current_week?: boolean;
+  fixtures?: Fixture[];
+};
+
+// ============================================
+// TEAMS AND PLAYERS
+// ============================================
+
+// How a team takes part in a fixture (participants include)
+type ParticipantMeta = {
+  location: 'home' | 'away';
+  winner?: boolean | null;
+  position?: number | null;
+};
+
+// A team - called a participant inside fixtures and standings
+type Participant = {
+  id: number;
+  name: string;
+  sport_id?: number;
+  country_id?: number | null;
+  venue_id?: number | null;
+  gender?: string | null;
+  short_code?: string | null;
+  image_path?: string | null;
+  founded?: number | null;
+  type?: string | null;
+  placeholder?: boolean;
+  last_played_at?: string | null;
+  meta?: ParticipantMeta;
+  country?: Country;
+  venue?: Venue;
+  activeSeasons?: Season[];
+  statistics?: SeasonStatistic[];
+  coaches?: Coach[];
+};
+
+type Player = {
+  id: number;
+  name: string;
+  sport_id?: number;
+  country_id?: number | null;
+  nationality_id?: number | null;
+  city_id?: number | null;
+  position_id?: number | null;
+  detailed_position_id?: number | null;
+  type_id?: number | null;
+  common_name?: string | null;
+  firstname?: string | null;
+  lastname?: string | null;
+  display_name?: string | null;
+  image_path?: string | null;
+  height?: number | null;
+  weight?: number | null;
+  date_of_birth?: string | null;
+  gender?: string | null;
+  position?: SportsMonksType | null;
+  nationality?: Country | null;
+  teams?: SquadMember[];
+  statistics?: SeasonStatistic[];
+};
+
+// A player's place in a squad (squads endpoints and player.teams)
+type SquadMember = {
+  id: number;
+  player_id: number;
+  team_id: number;
+  transfer_id?: number | null;
+  position_id?: number | null;
+  detailed_position_id?: number | null;
+  jersey_number?: number | null;
+  start?: string | null;
+  end?: string | null;
+  captain?: boolean | null;
+  player?: Player;
+  details?: StatisticDetail[];
+};
+
+type Coach = {
+  id: number;
+  name: string;
+  common_name?: string | null;
+  firstname?: string | null;
+  lastname?: string | null;
+  display_name?: string | null;
+  image_path?: string | null;
+  date_of_birth?: string | null;
+  nationality_id?: number | null;
+  nationality?: Country | null;
+  teams?: Array<{ id: number; team_id: number; coach_id: number; start?: string | null; end?: string | null }>;
+};
+
+// A match official
+type Referee = {
+  id: number;
+  name: string;
+  sport_id?: number;
+  country_id?: number | null;
+  city_id?: number | null;
+  common_name?: string | null;
+  firstname?: string | null;
+  lastname?: string | null;
+  display_name?: string | null;
+  image_path?: string | null;
+  date_of_birth?: string | null;
+  gender?: string | null;
+};
+
+// An official's role in a fixture (type_id 6 = referee, 7/8 = assistant
+// referees, 9 = fourth official)
+type FixtureReferee = {
+  id: number;
+  fixture_id: number;
+  referee_id: number;
+  type_id: number;
+  referee?: Referee;
+};
+
+type Transfer = {
+  id: number;
+  player_id: number;
+  from_team_id?: number | null;
+  to_team_id?: number | null;
+  type_id?: number | null;
+  date?: string | null;
+  amount?: number | null;
+  completed?: boolean | null;
+  player?: Player;
+  fromTeam?: Participant;
+  toTeam?: Participant;
+};
+
+// ============================================
+// FIXTURE DETAILS
+// ============================================
+
+// A score line for one team, e.g. type "CURRENT" or "1ST_HALF"
+type Score = {
+  id: number;
+  fixture_id: number;
+  type_id: number;
+  participant_id: number;
+  description: string;
+  score: {
+    goals: number;
+    participant: 'home' | 'away';
+  };
+};
+
+// One team's value for a match statistic (type_id 34 = corners, ...)
+type Statistic = {
+  id: number;
+  type_id: number;
+  fixture_id?: number;
+  participant_id?: number;
+  location?: 'home' | 'away' | null;
+  data: {
+    value: number | string | null;
+  };
+  typeName?: string;
+  type?: SportsMonksType;
+};
+
+// A season statistic value (statistics.details includes) - the value
+// shape depends on the type (e.g. { total, home, away } or { all: {...} })
+type StatisticDetail = {
+  id: number;
+  type_id: number;
+  value: unknown;
+  typeName?: string;
+};
+
+// A team's or player's statistics for one season
+type SeasonStatistic = {
+  id: number;
+  season_id: number;
+  has_values?: boolean;
+  team_id?: number | null;
+  player_id?: number | null;
+  details?: StatisticDetail[];
+};
+
+type FixtureEvent = {
+  id: number;
+  fixture_id: number;
+  type_id: number;
+  participant_id?: number | null;
+  player_id?: number | null;
+  related_player_id?: number | null;
+  player_name?: string | null;
+  related_player_name?: string | null;
+  result?: string | null;
+  info?: string | null;
+  addition?: string | null;
+  minute?: number | null;
+  extra_minute?: number | null;
+  injured?: boolean | null;
+  on_bench?: boolean | null;
+  sort_order?: number | null;
+  typeName?: string;
+  type?: SportsMonksType;
+};
+
+type Lineup = {
+  id: number;
+  fixture_id: number;
+  player_id: number;
+  team_id: number;
+  type_id?: number | null;
+  position_id?: number | null;
+  formation_field?: string | null;
+  formation_position?: number | null;
+  player_name?: string | null;
+  jersey_number?: number | null;
+};
+
+// Extra fixture facts keyed by type_id (159 = formations, 572 = lineups
+// confirmed, 578 = attendance); the values shape depends on the type
+type FixtureMetadata = {
+  id: number;
+  type_id: number;
+  metadatable_id?: number | null;
+  value_type?: string | null;
+  values: Record<string, unknown> | null;
+};
+
+// Forecast for the venue (weatherReport include), when available
+type WeatherReport = {
+  id?: number;
+  fixture_id?: number;
+  venue_id?: number | null;
+  temperature?: Record<string, number | null> | null;
+  feels_like?: Record<string, number | null> | null;
+  wind?: Record<string, number | null> | null;
+  humidity?: string | number | null;
+  pressure?: number | null;
+  clouds?: string | number | null;
+  description?: string | null;
+  icon?: string | null;
+  type?: string | null;
+  metric?: string | null;
+  current?: Record<string, unknown> | null;
+};
+
+type Sidelined = {
+  id: number;
+  fixture_id?: number;
+  participant_id?: number;
+  sideline_id?: number;
+  player?: Player;
+  sideline?: {
+    id: number;
+    player_id: number;
+    type_id?: number | null;
+    category?: string | null;
+    start_date?: string | null;
+    end_date?: string | null;
+    games_missed?: number | null;
+    completed?: boolean | null;
+  };
+  type?: SportsMonksType;
+};
+
+// ============================================
+// ODDS AND PREDICTIONS
+// ============================================
+
+type Bookmaker = {
+  id: number;
+  name: string;
+  legacy_id?: number | null;
+};
+
+type Market = {
+  id: number;
+  name: string;
+  legacy_id?: number | null;
+  developer_name?: string | null;
+  has_winning_calculations?: boolean;
+};
+
+// One price from one bookmaker (prices are decimal strings, e.g. "2.10")
+type Odd = {
+  id: number;
+  fixture_id: number;
+  market_id: number;
+  bookmaker_id: number;
+  label: string;
+  value: string;
+  name?: string | null;
+  sort_order?: number | null;
+  market_description?: string | null;
+  probability?: string | null;
+  dp3?: string | null;
+  fractional?: string | null;
+  american?: string | null;
+  winning?: boolean | null;
+  stopped?: boolean | null;
+  total?: string | null;
+  handicap?: string | null;
+  participants?: string | null;
+  created_at?: string | null;
+  updated_at?: string | null;
+  original_label?: string | null;
+  latest_bookmaker_update?: string | null;
+  bookmaker?: Bookmaker;
+  market?: Market;
+};
+
+// A SportsMonks prediction; the predictions shape depends on type_id
+// (e.g. { home: 45.2, draw: 27.1, away: 27.7 } for fulltime result)
+type Prediction = {
+  id: number;
+  fixture_id: number;
+  type_id: number;
+  predictions: Record<string, unknown>;
+  type?: SportsMonksType;
+};
+
+// Prediction model performance for a league
+type Predictability = {
+  id?: number;
+  league_id?: number;
+  type_id: number;
+  data: Record<string, unknown>;
+};
+
+// ============================================
+// FIXTURES AND STANDINGS
+// ============================================
+
+type Fixture = {
+  id: number;
+  name: string;
+  sport_id?: number;
+  league_id: number;
+  season_id: number;
+  stage_id?: number | null;
+  group_id?: number | null;
+  aggregate_id?: number | null;
+  round_id?: number | null;
+  state_id: number;
+  venue_id?: number | null;
+  starting_at: string | null;
+  starting_at_timestamp?: number | null;
+  result_info?: string | null;
+  leg?: string | null;
+  details?: string | null;
+  length?: number | null;
+  placeholder?: boolean;
+  has_odds?: boolean;
+  has_premium_odds?: boolean;
+  participants?: Participant[];
+  scores?: Score[];
+  state?: State;
+  league?: League;
+  season?: Season;
+  venue?: Venue | null;
+  statistics?: Statistic[];
+  lineups?: Lineup[];
+  events?: FixtureEvent[];
+  sidelined?: Sidelined[];
+  odds?: Odd[];
+  predictions?: Prediction[];
+  metadata?: FixtureMetadata[];
+  referees?: FixtureReferee[];
+  // The weatherReport include comes back under a lowercase key
+  weatherreport?: WeatherReport | null;
+};
+
+type StandingForm = {
+  id: number;
+  fixture_id: number;
+  form: string;
+  sort_order?: number | null;
+};
+
+type StandingDetail = {
+  id: number;
+  type_id: number;
+  value: number;
+};
+
+type Standing = {
+  id: number;
+  participant_id: number;
+  league_id: number;
+  season_id: number;
+  stage_id?: number | null;
+  group_id?: number | null;
+  round_id?: number | null;
+  position: number;
+  points: number;
+  result?: string | null;
+  participant?: Participant;
+  form?: StandingForm[];
+  details?: StandingDetail[];
+};
+
+// A top scorers entry (type_id 208 = goals, 209 = assists, ...)
+type TopScorer = {
+  id: number;
+  season_id: number;
+  player_id: number;
+  type_id: number;
+  position: number;
+  total: number;
+  participant_id?: number | null;
+  player?: Player;
+  participant?: Participant;
+};
+
+// ============================================
+// EXPORTS
+// ============================================
+
+export type {
+  Pagination,
+  RateLimit,
+  SportsMonksResponse,
+  Country,
+  Venue,
+  State,
+  SportsMonksType,
+  League,
+  Season,
+  Stage,
+  ParticipantMeta,
+  Participant,
+  Player,
+  SquadMember,
+  Coach,
+  Referee,
+  FixtureReferee,
+  Transfer,
+  Score,
+  Statistic,
+  StatisticDetail,
+  SeasonStatistic,
+  FixtureEvent,
+  Lineup,
+  FixtureMetadata,
+  WeatherReport,
+  Sidelined,
+  Bookmaker,
+  Market,
+  Odd,
+  Prediction,
+  Predictability,
+  Fixture,
+  StandingForm,
+  StandingDetail,
+  Standing,
+  TopScorer
+};
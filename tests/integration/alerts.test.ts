@@ -0,0 +1,318 @@
+// ============================================
+// ALERTS ROUTES
+// ============================================
+// Rules are evaluated with POST /admin/alerts/evaluate rather than the
+// schedule. The recorded in-play feed has Liverpool 1-0 Chelsea (a
+// Salah goal); the pre-match tests stub Liverpool v Chelsea as kicking
+// off in two hours with confirmed lineups. Webhooks go to a local
+// server that records what it receives; being on loopback, its exact
+// host:port is let through with ALERT_WEBHOOK_ALLOWED_HOSTS.
+// ============================================
+
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { readFile } from 'node:fs/promises';
+import dns from 'node:dns';
+import { syncBuiltinESMExports } from 'node:module';
+import { startTestApp, type TestApp } from '../support/testApp.js';
+
+const INPLAY = '/football/livescores/inplay';
+const FIXTURE_ID = 19135049;
+const LIVERPOOL = 8;
+
+const RECORDED_FIXTURE = new URL('../fixtures/sportsmonks/football/fixtures/19135048.json', import.meta.url);
+
+// "2025-01-11 15:00:00" style, as SportsMonks sends starting_at
+const toStartingAt = (date: Date) => date.toISOString().slice(0, 19).replace('T', ' ');
+
+const homeOdd = (value: string) => ({
+  id: 139871901,
+  fixture_id: FIXTURE_ID,
+  market_id: 1,
+  bookmaker_id: 2,
+  label: 'Home',
+  name: 'Home',
+  value,
+  market_description: 'Full Time Result',
+  stopped: false,
+  total: null,
+  handicap: null
+});
+
+describe('/alerts', () => {
+  let app: TestApp;
+  let adminToken: string;
+  let webhook: Server;
+  let webhookUrl: string;
+  const received: any[] = [];
+
+  const evaluate = () => app.request('/admin/alerts/evaluate', { method: 'POST', token: adminToken });
+
+  before(async () => {
+    webhook = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received.push(JSON.parse(body));
+        res.writeHead(204).end();
+      });
+    });
+    await new Promise<void>(resolve => webhook.listen(0, '127.0.0.1', resolve));
+    const webhookHost = `127.0.0.1:${(webhook.address() as AddressInfo).port}`;
+    webhookUrl = `http://${webhookHost}/hook`;
+
+    // Read when the app is imported. The short timeout is for the
+    // rebinding test, whose POST goes to an address nothing answers on.
+    process.env.ALERT_WEBHOOK_ALLOWED_HOSTS = webhookHost;
+    process.env.ALERT_WEBHOOK_TIMEOUT_MS = '1000';
+
+    app = await startTestApp();
+    ({ token: adminToken } = await app.createUser({ admin: true }));
+  });
+
+  after(async () => {
+    await new Promise(resolve => webhook.close(resolve));
+    await app.close();
+  });
+
+  it('validates rules', async () => {
+    const { token } = await app.createUser();
+    const create = (body: unknown) => app.request('/alerts', { method: 'POST', token, body });
+
+    const noTarget = await create({ events: ['GOAL'] });
+    const badEvent = await create({ teamId: LIVERPOOL, events: ['CORNER'] });
+    const noWebhook = await create({ teamId: LIVERPOOL, events: ['GOAL'], channels: ['WEBHOOK'] });
+    const noPercent = await create({ teamId: LIVERPOOL, events: ['ODDS_DROP'] });
+
+    assert.equal(noTarget.body.error, 'Provide either fixtureId or teamId');
+    assert.match(badEvent.body.error, /^events must be a list of/);
+    assert.equal(noWebhook.body.error, 'webhookUrl is required for the WEBHOOK channel');
+    assert.equal(noPercent.body.error, 'oddsDropPercent is required for ODDS_DROP alerts');
+  });
+
+  it('refuses webhooks to internal addresses', async () => {
+    const { token } = await app.createUser();
+    const create = (url: string) => app.request('/alerts', {
+      method: 'POST',
+      token,
+      body: { teamId: LIVERPOOL, events: ['GOAL'], channels: ['WEBHOOK'], webhookUrl: url }
+    });
+
+    const loopback = await create('http://127.0.0.1/hook');
+    const metadata = await create('http://169.254.169.254/latest/meta-data');
+    const privateNetwork = await create('http://192.168.1.10:8080/hook');
+    const ipv6Loopback = await create('http://[::1]/hook');
+
+    for (const res of [loopback, metadata, privateNetwork, ipv6Loopback]) {
+      assert.equal(res.status, 400);
+      assert.equal(res.body.error, 'webhookUrl must point to a public address');
+    }
+
+    // Nor can an existing rule be pointed at one
+    const created = await create(webhookUrl);
+    const updated = await app.request(`/alerts/${created.body.rule.id}`, {
+      method: 'PUT',
+      token,
+      body: { webhookUrl: 'http://localhost:5432/' }
+    });
+
+    assert.equal(created.status, 201);
+    assert.equal(updated.status, 400);
+
+    await app.request(`/alerts/${created.body.rule.id}`, { method: 'DELETE', token });
+  });
+
+  it('only lets the owner change a rule', async () => {
+    const owner = await app.createUser();
+    const other = await app.createUser();
+    const created = await app.request('/alerts', {
+      method: 'POST',
+      token: owner.token,
+      body: { teamId: LIVERPOOL, events: ['GOAL'] }
+    });
+
+    const denied = await app.request(`/alerts/${created.body.rule.id}`, {
+      method: 'PUT',
+      token: other.token,
+      body: { active: false }
+    });
+    const paused = await app.request(`/alerts/${created.body.rule.id}`, {
+      method: 'PUT',
+      token: owner.token,
+      body: { active: false }
+    });
+
+    assert.equal(created.status, 201);
+    assert.deepEqual(created.body.rule.channels, ['IN_APP']);
+    assert.equal(denied.status, 403);
+    assert.equal(paused.body.rule.active, false);
+
+    await app.request(`/alerts/${created.body.rule.id}`, { method: 'DELETE', token: owner.token });
+  });
+
+  it('fires kickoff, goal and red card alerts once each', async () => {
+    const { token } = await app.createUser();
+    const created = await app.request('/alerts', {
+      method: 'POST',
+      token,
+      body: { teamId: LIVERPOOL, events: ['KICKOFF', 'GOAL', 'RED_CARD'], channels: ['IN_APP', 'WEBHOOK'], webhookUrl }
+    });
+    assert.equal(created.body.rule.label, null);
+
+    const first = await evaluate();
+    assert.equal(first.body.result.triggered, 2);
+    assert.deepEqual(received.map(alert => alert.event), ['KICKOFF', 'GOAL']);
+    assert.equal(received[1].data.player, 'Mohamed Salah');
+
+    // Nothing new in the feed - nothing fires again
+    const second = await evaluate();
+    assert.equal(second.body.result.triggered, 0);
+
+    // Chelsea have a man sent off
+    const inplay = await app.request('/livescores/inplay', { token });
+    const fixture = inplay.body.fixtures[0];
+    try {
+      app.stub.intercept(INPLAY, {
+        body: {
+          data: [{
+            ...fixture,
+            events: [...fixture.events, { id: 119002210, fixture_id: FIXTURE_ID, type_id: 20, participant_id: 18, player_name: 'Moises Caicedo', minute: 38 }]
+          }]
+        }
+      });
+
+      const third = await evaluate();
+      assert.equal(third.body.result.triggered, 1);
+      assert.equal(received[2].event, 'RED_CARD');
+      assert.equal(received[2].title, 'Red card for Chelsea: Liverpool vs Chelsea');
+    } finally {
+      app.stub.clearIntercepts();
+    }
+
+    const triggers = await app.request('/alerts/triggers', { token });
+    assert.equal(triggers.body.count, 3);
+    assert.deepEqual(triggers.body.triggers[0].deliveries, [
+      { channel: 'IN_APP', success: true },
+      { channel: 'WEBHOOK', success: true }
+    ]);
+
+    await app.request(`/alerts/${created.body.rule.id}`, { method: 'DELETE', token });
+  });
+
+  it('fires lineup and odds drop alerts before kickoff', async () => {
+    const { token } = await app.createUser();
+    const recorded = JSON.parse(await readFile(RECORDED_FIXTURE, 'utf8')).responses[0].body.data;
+
+    try {
+      app.stub.intercept(`/football/fixtures/${FIXTURE_ID}`, {
+        body: {
+          data: {
+            ...recorded,
+            id: FIXTURE_ID,
+            name: 'Liverpool vs Chelsea',
+            starting_at: toStartingAt(new Date(Date.now() + 2 * 60 * 60 * 1000)),
+            starting_at_timestamp: undefined,
+            metadata: [{ id: 1, metadatable_id: FIXTURE_ID, type_id: 572, value_type: 'object', values: { confirmed: true } }]
+          }
+        }
+      });
+      app.stub.intercept(`/football/odds/pre-match/fixtures/${FIXTURE_ID}`, { body: { data: [homeOdd('2.00')] } });
+
+      const created = await app.request('/alerts', {
+        method: 'POST',
+        token,
+        body: { fixtureId: FIXTURE_ID, events: ['LINEUPS_CONFIRMED', 'ODDS_DROP'], oddsDropPercent: 10 }
+      });
+      assert.equal(created.body.rule.label, 'Liverpool vs Chelsea');
+
+      // Lineups are out; the first price is only the baseline
+      const first = await evaluate();
+      assert.equal(first.body.result.triggered, 1);
+
+      // Home shortens 2.00 -> 1.70 (15%)
+      app.stub.intercept(`/football/odds/pre-match/fixtures/${FIXTURE_ID}`, { body: { data: [homeOdd('1.70')] } });
+      const second = await evaluate();
+      assert.equal(second.body.result.triggered, 1);
+
+      const triggers = await app.request('/alerts/triggers', { token });
+      assert.deepEqual(triggers.body.triggers.map((trigger: any) => trigger.event), ['ODDS_DROP', 'LINEUPS_CONFIRMED']);
+      assert.equal(triggers.body.triggers[0].data.dropPercent, 15);
+    } finally {
+      app.stub.clearIntercepts();
+    }
+  });
+
+  it('sees lineups confirmed since the fixture was last fetched', async () => {
+    const { token } = await app.createUser();
+    const recorded = JSON.parse(await readFile(RECORDED_FIXTURE, 'utf8')).responses[0].body.data;
+    const fixtureId = FIXTURE_ID + 1;
+    const fixture = (confirmed: boolean) => ({
+      body: {
+        data: {
+          ...recorded,
+          id: fixtureId,
+          name: 'Liverpool vs Chelsea',
+          starting_at: toStartingAt(new Date(Date.now() + 2 * 60 * 60 * 1000)),
+          starting_at_timestamp: undefined,
+          metadata: [{ id: 1, metadatable_id: fixtureId, type_id: 572, value_type: 'object', values: { confirmed } }]
+        }
+      }
+    });
+
+    try {
+      // Creating the rule caches the fixture, lineups not out yet
+      app.stub.intercept(`/football/fixtures/${fixtureId}`, fixture(false));
+      await app.request('/alerts', { method: 'POST', token, body: { fixtureId, events: ['LINEUPS_CONFIRMED'] } });
+
+      const first = await evaluate();
+      assert.equal(first.body.result.triggered, 0);
+
+      app.stub.intercept(`/football/fixtures/${fixtureId}`, fixture(true));
+      const second = await evaluate();
+      assert.equal(second.body.result.triggered, 1);
+    } finally {
+      app.stub.clearIntercepts();
+    }
+  });
+
+  it('posts to the checked address when the host is re-pointed (DNS rebinding)', async () => {
+    const { token } = await app.createUser();
+    const port = (webhook.address() as AddressInfo).port;
+    const before = received.length;
+
+    // The check sees a public address (TEST-NET-3); any later lookup,
+    // like the one an HTTP client would make, gets loopback - where the
+    // webhook server listens
+    const originalLookup = dns.lookup;
+    const resolveChecked = mock.method(dns.promises, 'lookup', async (hostname: string, options: any) =>
+      hostname === 'rebind.example' ? [{ address: '203.0.113.10', family: 4 }] : originalLookup.call(dns, hostname, options));
+    const resolveLater = mock.method(dns, 'lookup', (hostname: string, options: any, callback: any) =>
+      hostname === 'rebind.example'
+        ? (options.all ? callback(null, [{ address: '127.0.0.1', family: 4 }]) : callback(null, '127.0.0.1', 4))
+        : originalLookup(hostname, options, callback));
+    syncBuiltinESMExports();
+
+    try {
+      const created = await app.request('/alerts', {
+        method: 'POST',
+        token,
+        body: { teamId: LIVERPOOL, events: ['GOAL'], channels: ['WEBHOOK'], webhookUrl: `http://rebind.example:${port}/hook` }
+      });
+      assert.equal(created.status, 201);
+
+      await evaluate();
+
+      const triggers = await app.request('/alerts/triggers', { token });
+      assert.equal(triggers.body.triggers[0].deliveries[0].success, false);
+      assert.equal(received.length, before);
+
+      await app.request(`/alerts/${created.body.rule.id}`, { method: 'DELETE', token });
+    } finally {
+      resolveChecked.mock.restore();
+      resolveLater.mock.restore();
+      syncBuiltinESMExports();
+    }
+  });
+});
@@ -0,0 +1,56 @@
+// ============================================
+// AUTH ROUTES
+// ============================================
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestApp, type TestApp } from '../support/testApp.js';
+
+describe('/auth', () => {
+  let app: TestApp;
+
+  before(async () => {
+    app = await startTestApp();
+  });
+
+  after(() => app.close());
+
+  it('registers, logs in and returns the profile', async () => {
+    const user = await app.createUser();
+
+    const res = await app.request('/auth/me', { token: user.token });
+
+    assert.equal(res.status, 200);
+    assert.equal(res.body.user.email, user.email);
+    assert.equal(res.body.user.password, undefined);
+  });
+
+  it('refuses a duplicate email', async () => {
+    const user = await app.createUser();
+
+    const res = await app.request('/auth/register', {
+      method: 'POST',
+      body: { email: user.email, password: 'another-password' }
+    });
+
+    assert.equal(res.status, 400);
+    assert.equal(res.body.error, 'Email already registered');
+  });
+
+  it('refuses a wrong password', async () => {
+    const user = await app.createUser();
+
+    const res = await app.request('/auth/login', {
+      method: 'POST',
+      body: { email: user.email, password: 'wrong-password' }
+    });
+
+    assert.equal(res.status, 401);
+  });
+
+  it('refuses an invalid token', async () => {
+    const res = await app.request('/auth/me', { token: 'not-a-jwt' });
+
+    assert.equal(res.status, 401);
+  });
+});
@@ -0,0 +1,122 @@
+// ============================================
+// BACKTESTS
+// ============================================
+// The bankroll simulation in backtests.ts: stakes, P&L, drawdown and
+// the ROI/yield summary, checked against runs worked out by hand.
+// ============================================
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestApp, type TestApp } from '../support/testApp.js';
+
+// Loaded once startTestApp() has set DATABASE_URL
+type BacktestsModule = typeof import('../../src/services/backtests.js');
+type Strategy = import('../../src/services/backtests.js').Strategy;
+type CandidateBet = Parameters<BacktestsModule['simulateBankroll']>[0][number];
+
+describe('backtests', () => {
+  let app: TestApp;
+  let backtests: BacktestsModule;
+
+  before(async () => {
+    app = await startTestApp();
+    backtests = await import('../../src/services/backtests.js');
+  });
+
+  after(() => app.close());
+
+  const candidate = (day: number, status: CandidateBet['status'], price: number, kelly: number): CandidateBet => ({
+    fixtureId: 19135000 + day,
+    fixtureName: null,
+    leagueId: 8,
+    kickoffAt: new Date(Date.UTC(2025, 0, day, 15)),
+    marketId: 1,
+    marketName: 'Fulltime Result',
+    selection: 'Home',
+    line: null,
+    bookmakerId: 2,
+    price,
+    oddsSource: 'snapshot',
+    probability: 0.5,
+    ev: 5,
+    kelly,
+    status
+  });
+
+  // Out of order on purpose - bets are placed in kickoff order
+  const candidates = [
+    candidate(5, 'WON', 3, 0.08),
+    candidate(1, 'WON', 2, 0.1),
+    candidate(3, 'LOST', 1.8, 0),
+    candidate(2, 'LOST', 2.5, 0.04),
+    candidate(4, 'VOID', 2, 0.06)
+  ];
+
+  const strategy = (stake: Strategy['stake']): Strategy => ({
+    leagueIds: [8],
+    marketIds: [],
+    minEdge: 0,
+    stake,
+    startingBankroll: 100
+  });
+
+  it('tracks the bankroll and drawdown with flat stakes', () => {
+    const { bets, summary } = backtests.simulateBankroll(candidates, strategy({ rule: 'FLAT', amount: 10 }));
+
+    assert.deepEqual(bets.map(bet => [bet.stake, bet.profit, bet.bankroll]), [
+      [10, 10, 110],
+      [10, -10, 100],
+      [10, -10, 90],
+      [10, 0, 90],
+      [10, 20, 110]
+    ]);
+    assert.deepEqual(summary, {
+      betCount: 5,
+      won: 2,
+      lost: 2,
+      voided: 1,
+      staked: 50,
+      profit: 10,
+      finalBankroll: 110,
+      maxDrawdown: 20,            // 110 -> 90
+      maxDrawdownPercent: 18.18   // 20 / 110
+    });
+
+    const { roi, yield: yieldPercent, strikeRate } = backtests.withBacktestSummary({ ...summary, startingBankroll: 100 });
+    assert.deepEqual([roi, yieldPercent, strikeRate], [10, 20, 50]);
+  });
+
+  it('stakes a share of the running bankroll', () => {
+    const { bets, summary } = backtests.simulateBankroll(candidates, strategy({ rule: 'PERCENT', percent: 10 }));
+
+    assert.deepEqual(bets.map(bet => [bet.stake, bet.bankroll]), [
+      [10, 110],
+      [11, 99],
+      [9.9, 89.1],
+      [8.91, 89.1],
+      [8.91, 106.92]
+    ]);
+    assert.equal(summary.staked, 48.72);
+    assert.equal(summary.maxDrawdown, 20.9);
+    assert.equal(summary.maxDrawdownPercent, 19);
+  });
+
+  it('caps Kelly stakes and skips bets without an edge', () => {
+    // Half Kelly, at most 5% of the bankroll
+    const { bets, summary } = backtests.simulateBankroll(
+      candidates,
+      strategy({ rule: 'KELLY', fraction: 0.5, maxPercent: 5 })
+    );
+
+    assert.deepEqual(bets.map(bet => [bet.fixtureId, bet.stake, bet.bankroll]), [
+      [19135001, 5, 105],          // min(0.05, 0.05) of 100
+      [19135002, 2.1, 102.9],      // 0.02 of 105
+      [19135004, 3.09, 102.9],     // 0.03 of 102.90
+      [19135005, 4.12, 111.14]     // 0.04 of 102.90
+    ]);
+    assert.equal(summary.betCount, 4);
+    assert.equal(summary.staked, 14.31);
+    assert.equal(summary.maxDrawdown, 2.1);
+    assert.equal(summary.maxDrawdownPercent, 2);
+  });
+});
@@ -0,0 +1,315 @@
+// ============================================
+// BETS ROUTES
+// ============================================
+// The /bets routes, plus the grading rules settlement.ts applies when
+// it settles finished fixtures.
+// ============================================
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestApp, type TestApp } from '../support/testApp.js';
+
+// Loaded once startTestApp() has set DATABASE_URL
+type SettlementModule = typeof import('../../src/services/settlement.js');
+type AnalyticsModule = typeof import('../../src/services/analytics.js');
+type AnalyticsBet = import('../../src/services/analytics.js').AnalyticsBet;
+type ClosingLinesModule = typeof import('../../src/services/closingLines.js');
+type PrismaClient = typeof import('../../src/db.js')['default'];
+
+describe('/bets', () => {
+  let app: TestApp;
+
+  before(async () => {
+    app = await startTestApp();
+  });
+
+  after(() => app.close());
+
+  const bet = {
+    fixtureId: 19135048,
+    marketId: 1,
+    selection: 'Home',
+    bookmakerId: 2,
+    price: 1.91,
+    stake: 10
+  };
+
+  it('records a bet with its fixture context', async () => {
+    const { token } = await app.createUser();
+
+    const res = await app.request('/bets', { method: 'POST', token, body: bet });
+
+    assert.equal(res.status, 201);
+    assert.equal(res.body.bet.status, 'PENDING');
+    assert.equal(res.body.bet.leagueId, 8);
+    assert.equal(res.body.bet.fixtureName, 'Arsenal vs Chelsea');
+  });
+
+  it('validates the price', async () => {
+    const { token } = await app.createUser();
+
+    const res = await app.request('/bets', { method: 'POST', token, body: { ...bet, price: 1 } });
+
+    assert.equal(res.status, 400);
+    assert.equal(res.body.error, 'price must be a decimal price greater than 1');
+  });
+
+  it('rejects a request with no body', async () => {
+    const { token } = await app.createUser();
+
+    const created = await app.request('/bets', { method: 'POST', token });
+    assert.equal(created.status, 400);
+    assert.equal(created.body.error, 'fixtureId must be a positive integer');
+
+    const { body } = await app.request('/bets', { method: 'POST', token, body: bet });
+    const updated = await app.request(`/bets/${body.bet.id}`, { method: 'PUT', token });
+    assert.equal(updated.status, 400);
+  });
+
+  it('only lists your own bets', async () => {
+    const owner = await app.createUser();
+    const other = await app.createUser();
+
+    await app.request('/bets', { method: 'POST', token: owner.token, body: bet });
+
+    const res = await app.request('/bets', { token: other.token });
+
+    assert.equal(res.status, 200);
+    assert.equal(res.body.bets.length, 0);
+  });
+
+  describe('closing line value', () => {
+    let closingLines: ClosingLinesModule;
+    let prisma: PrismaClient;
+
+    before(async () => {
+      closingLines = await import('../../src/services/closingLines.js');
+      ({ default: prisma } = await import('../../src/db.js'));
+    });
+
+    it('compares the price taken with the closing price', () => {
+      assert.equal(closingLines.calculateClv(2.1, 1.95), 7.69);
+      assert.equal(closingLines.calculateClv(1.8, 2), -10);
+      assert.equal(closingLines.calculateClv(2, 2), 0);
+
+      // No usable close
+      assert.equal(closingLines.calculateClv(2, null), null);
+      assert.equal(closingLines.calculateClv(2, 1), null);
+    });
+
+    it('reports CLV on a bet once its close is captured', async () => {
+      const { token } = await app.createUser();
+      const { body } = await app.request('/bets', { method: 'POST', token, body: bet });
+      assert.equal(body.bet.clv, null);
+
+      await prisma.bet.update({ where: { id: body.bet.id }, data: { closingPrice: 1.8 } });
+      const res = await app.request(`/bets/${body.bet.id}`, { token });
+
+      // 1.91 / 1.80 - 1
+      assert.equal(res.status, 200);
+      assert.equal(res.body.bet.clv, 6.11);
+    });
+  });
+
+  describe('grading', () => {
+    let settlement: SettlementModule;
+
+    before(async () => {
+      settlement = await import('../../src/services/settlement.js');
+    });
+
+    const grade = (marketId: number, selection: string, home: number, away: number, line?: number) =>
+      settlement.gradeSelection({ marketId, selection, line }, { home, away });
+
+    const scores = (entries: Array<[string, number, number]>) =>
+      entries.flatMap(([description, home, away]) => [
+        { description, score: { goals: home, participant: 'home' } },
+        { description, score: { goals: away, participant: 'away' } }
+      ]);
+
+    it('grades the fulltime result under both market ids', () => {
+      for (const marketId of [1, 28075]) {
+        assert.equal(grade(marketId, 'Home', 2, 1), 'WON');
+        assert.equal(grade(marketId, '1', 2, 1), 'WON');
+        assert.equal(grade(marketId, 'Draw', 2, 1), 'LOST');
+        assert.equal(grade(marketId, 'X', 1, 1), 'WON');
+        assert.equal(grade(marketId, 'Away', 0, 3), 'WON');
+        assert.equal(grade(marketId, 'Arsenal', 2, 1), null);
+      }
+    });
+
+    it('grades over/under goals and pushes on whole lines', () => {
+      assert.equal(grade(12, 'Over 2.5', 2, 1), 'WON');
+      assert.equal(grade(12, 'Under 2.5', 2, 1), 'LOST');
+      assert.equal(grade(12, 'Under 2.5', 1, 1), 'WON');
+
+      // Whole line hit exactly - stake returned either way
+      assert.equal(grade(12, 'Over 3', 2, 1), 'VOID');
+      assert.equal(grade(12, 'Under 3', 2, 1), 'VOID');
+      assert.equal(grade(12, 'Over 3', 3, 1), 'WON');
+
+      // The bet's own line wins over the label
+      assert.equal(grade(12, 'Over', 1, 1, 2), 'VOID');
+      assert.equal(grade(12, 'Under', 1, 1, 2.5), 'WON');
+
+      // Quarter lines are left for manual settlement
+      assert.equal(grade(12, 'Over 2.25', 2, 1), null);
+      assert.equal(grade(12, 'Under 2.75', 2, 1), null);
+    });
+
+    it('grades both teams to score', () => {
+      assert.equal(grade(14, 'Yes', 2, 1), 'WON');
+      assert.equal(grade(14, 'No', 2, 1), 'LOST');
+      assert.equal(grade(14, 'Yes', 2, 0), 'LOST');
+      assert.equal(grade(14, 'No', 0, 0), 'WON');
+    });
+
+    it('grades double chance', () => {
+      assert.equal(grade(63, '1X', 1, 1), 'WON');
+      assert.equal(grade(63, 'X/2', 2, 1), 'LOST');
+      assert.equal(grade(63, '12', 1, 1), 'LOST');
+      assert.equal(grade(63, '12', 0, 1), 'WON');
+    });
+
+    it('grades exact goals, with the top band open-ended', () => {
+      assert.equal(grade(97, '3', 2, 1), 'WON');
+      assert.equal(grade(97, '2', 2, 1), 'LOST');
+      assert.equal(grade(97, '6+', 4, 3), 'WON');
+      assert.equal(grade(97, '6+', 3, 2), 'LOST');
+    });
+
+    it('grades odd/even goals', () => {
+      assert.equal(grade(99, 'Odd', 2, 1), 'WON');
+      assert.equal(grade(99, 'Even', 2, 1), 'LOST');
+      assert.equal(grade(99, 'Even', 0, 0), 'WON');
+    });
+
+    it('leaves unsupported markets ungraded', () => {
+      assert.equal(grade(80, 'Over 9.5', 2, 1), null);
+    });
+
+    it('settles on the 90-minute score when the match went to extra time', () => {
+      const played = scores([['1ST_HALF', 1, 0], ['2ND_HALF', 1, 1], ['CURRENT', 2, 1]]);
+
+      assert.deepEqual(settlement.getFinalScore({ scores: played, state: { state: 'FT' } }), { home: 2, away: 1 });
+      assert.deepEqual(settlement.getFinalScore({ scores: played, state: { state: 'AET' } }), { home: 1, away: 1 });
+      assert.deepEqual(settlement.getFinalScore({ scores: played, state: { state: 'FT_PEN' } }), { home: 1, away: 1 });
+
+      // No CURRENT entry yet - fall back to the 90-minute score
+      assert.deepEqual(
+        settlement.getFinalScore({ scores: scores([['2ND_HALF', 0, 2]]), state: { state: 'FT' } }),
+        { home: 0, away: 2 }
+      );
+      assert.equal(settlement.getFinalScore({ scores: [], state: { state: 'FT' } }), null);
+    });
+
+    it('works out the profit', () => {
+      assert.equal(settlement.calculateProfit('WON', 10, 1.91), 9.1);
+      assert.equal(settlement.calculateProfit('WON', 7.5, 2.375), 10.31);
+      assert.equal(settlement.calculateProfit('LOST', 10, 1.91), -10);
+      assert.equal(settlement.calculateProfit('VOID', 10, 1.91), 0);
+    });
+  });
+
+  describe('analytics', () => {
+    let analytics: AnalyticsModule;
+
+    before(async () => {
+      analytics = await import('../../src/services/analytics.js');
+    });
+
+    const journalBet = (id: string, day: number, fields: Partial<AnalyticsBet>): AnalyticsBet => ({
+      id,
+      fixtureId: 19135048,
+      leagueId: 8,
+      marketId: 1,
+      bookmakerId: 2,
+      selection: 'Home',
+      price: 2,
+      closingPrice: null,
+      stake: 10,
+      status: 'PENDING',
+      profit: null,
+      placedAt: new Date(Date.UTC(2025, 0, day)),
+      settledAt: fields.status && fields.status !== 'PENDING' ? new Date(Date.UTC(2025, 0, day, 22)) : null,
+      ...fields
+    });
+
+    // Bankroll 100 -> 110 -> 100 -> 80 -> 80 -> 105, one bet still open
+    const journal = [
+      journalBet('b1', 1, { status: 'WON', price: 2, profit: 10, closingPrice: 1.6 }),
+      journalBet('b2', 2, { status: 'LOST', price: 1.9, profit: -10, closingPrice: 2 }),
+      journalBet('b3', 3, { status: 'LOST', price: 2.5, stake: 20, profit: -20 }),
+      journalBet('b4', 4, { status: 'VOID', price: 1.5, profit: 0 }),
+      journalBet('b5', 5, { status: 'WON', price: 3.5, profit: 25 }),
+      journalBet('b6', 6, { price: 2.2, stake: 5 })
+    ];
+
+    it('works out profit, ROI, yield and drawdown', () => {
+      const { summary, bankrollHistory } = analytics.computeBetAnalytics(journal, { startingBankroll: 100 });
+
+      assert.deepEqual(bankrollHistory.map(point => point.bankroll), [110, 100, 80, 80, 105]);
+      assert.deepEqual(
+        {
+          totalBets: summary.totalBets,
+          settledBets: summary.settledBets,
+          won: summary.won,
+          lost: summary.lost,
+          void: summary.void,
+          totalStaked: summary.totalStaked,
+          openStake: summary.openStake,
+          profit: summary.profit,
+          roi: summary.roi,
+          yield: summary.yield,
+          strikeRate: summary.strikeRate,
+          averagePrice: summary.averagePrice,
+          maxDrawdown: summary.maxDrawdown,
+          maxDrawdownPercent: summary.maxDrawdownPercent,
+          longestLosingStreak: summary.longestLosingStreak,
+          currentLosingStreak: summary.currentLosingStreak,
+          currentBankroll: summary.currentBankroll
+        },
+        {
+          totalBets: 6,
+          settledBets: 5,
+          won: 2,
+          lost: 2,
+          void: 1,
+          totalStaked: 60,
+          openStake: 5,
+          profit: 5,
+          roi: 5,             // 5 / 100
+          yield: 8.33,        // 5 / 60
+          strikeRate: 50,     // voids left out
+          averagePrice: 2.27, // 13.6 / 6, open bet included
+          maxDrawdown: 30,    // 110 -> 80
+          maxDrawdownPercent: 27.27,
+          longestLosingStreak: 2,
+          currentLosingStreak: 0,
+          currentBankroll: 105
+        }
+      );
+    });
+
+    it('averages CLV over the bets with a closing price', () => {
+      const { summary } = analytics.computeBetAnalytics(journal);
+
+      // 2 / 1.6 = +25%, 1.9 / 2 = -5%
+      assert.equal(summary.clvBets, 2);
+      assert.equal(summary.averageClv, 10);
+      assert.equal(summary.beatCloseRate, 50);
+      assert.equal(summary.roi, null);
+    });
+
+    it('breaks the figures down by month', () => {
+      const february = journalBet('b7', 32, { status: 'LOST', profit: -10 });
+
+      const { breakdowns } = analytics.computeBetAnalytics([...journal, february]);
+
+      assert.deepEqual(
+        breakdowns.month.map(row => [row.key, row.bets, row.staked, row.profit, row.yield]),
+        [['2025-01', 6, 60, 5, 8.33], ['2025-02', 1, 10, -10, -100]]
+      );
+    });
+  });
+});
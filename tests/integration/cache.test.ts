@@ -0,0 +1,182 @@
+// ============================================
+// CACHE BACKENDS
+// ============================================
+// The cache service (cache.ts) against the Redis backend, using an
+// in-memory Redis stand-in, and the Postgres backend, using the test
+// database's cache_entries table. The app itself runs on the memory
+// backend; each block here swaps its backend in with useBackend().
+// ============================================
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestApp, type TestApp } from '../support/testApp.js';
+import { createRedisStub, type RedisStub } from '../support/redisStub.js';
+
+// Loaded once startTestApp() has set DATABASE_URL
+type CacheModule = typeof import('../../src/services/cache.js');
+type BackendsModule = typeof import('../../src/services/cacheBackends.js');
+type PrismaClient = typeof import('../../src/db.js')['default'];
+
+describe('cache backends', () => {
+  let app: TestApp;
+  let cache: CacheModule;
+  let backends: BackendsModule;
+  let prisma: PrismaClient;
+  let redis: RedisStub;
+
+  before(async () => {
+    app = await startTestApp();
+    cache = await import('../../src/services/cache.js');
+    backends = await import('../../src/services/cacheBackends.js');
+    ({ default: prisma } = await import('../../src/db.js'));
+  });
+
+  after(() => app.close());
+
+  // The same behaviour from both shared backends
+  for (const name of ['redis', 'postgres'] as const) {
+    describe(name, () => {
+      before(async () => {
+        redis = createRedisStub();
+        await cache.useBackend(name === 'redis' ? backends.createRedisBackend(redis) : backends.createPostgresBackend());
+      });
+
+      it('sets, gets and deletes values', async () => {
+        const kickoff = new Date('2025-01-11T17:30:00.000Z');
+
+        await cache.set('season:23614', { id: 23614, name: '2024/2025', startsAt: kickoff }, 60);
+        await cache.set('reference:count', 42, 60);
+        await cache.set('reference:empty', null, 60);
+
+        assert.deepEqual(await cache.get('season:23614'), { id: 23614, name: '2024/2025', startsAt: kickoff.toISOString() });
+        assert.equal(await cache.get('reference:count'), 42);
+        assert.equal(await cache.get('reference:empty'), null);
+        assert.equal(await cache.get('season:missing'), undefined);
+
+        assert.equal(await cache.del('reference:count'), 1);
+        assert.equal(await cache.del('reference:count'), 0);
+        assert.equal(await cache.get('reference:count'), undefined);
+      });
+
+      it('lists keys and counts hits and misses', async () => {
+        await cache.set('corners:8:23614', { average: 5.4 }, 60);
+
+        assert.deepEqual((await cache.listKeys()).sort(), ['corners:8:23614', 'reference:empty', 'season:23614']);
+        assert.deepEqual(await cache.stats(), { backend: name, hits: 3, misses: 2, keys: 3 });
+      });
+
+      it('reports the time left on a key', async () => {
+        const ttl = await cache.getTtl('corners:8:23614');
+
+        assert.ok(ttl > 55 && ttl <= 60, `ttl was ${ttl}`);
+        assert.equal(await cache.getTtl('corners:missing'), -1);
+      });
+
+      it('flushes every key', async () => {
+        await cache.flush();
+
+        assert.deepEqual(await cache.listKeys(), []);
+        assert.equal(await cache.get('season:23614'), undefined);
+      });
+    });
+  }
+
+  describe('redis keys', () => {
+    before(async () => {
+      redis = createRedisStub();
+      await cache.useBackend(backends.createRedisBackend(redis));
+    });
+
+    it('namespaces keys with the betsmoke prefix', async () => {
+      await cache.set('season:23614', { id: 23614 }, 60);
+
+      assert.deepEqual([...redis.store.keys()], ['betsmoke:cache:season:23614']);
+      assert.equal(redis.store.get('betsmoke:cache:season:23614')?.value, '{"id":23614}');
+    });
+
+    it('follows the SCAN cursor and leaves other keys alone on flush', async () => {
+      // More keys than one SCAN page, next to someone else's key
+      const names = ['corners:1:1', 'corners:2:1', 'corners:3:1', 'corners:4:1', 'corners:5:1'];
+      for (const key of names) {
+        await cache.set(key, 1, 60);
+      }
+      await redis.set('sessions:abc', 'not ours', 'EX', 60);
+
+      assert.deepEqual((await cache.listKeys()).sort(), [...names, 'season:23614']);
+
+      await cache.flush();
+
+      assert.deepEqual(await cache.listKeys(), []);
+      assert.deepEqual([...redis.store.keys()], ['sessions:abc']);
+    });
+  });
+
+  describe('postgres expiry', () => {
+    before(async () => {
+      await cache.useBackend(backends.createPostgresBackend());
+    });
+
+    it('ignores entries past their expiry', async () => {
+      await cache.set('season:23614', { id: 23614 }, 60);
+      await cache.set('season:old', { id: 1 }, 60);
+      await prisma.cacheEntry.update({ where: { key: 'season:old' }, data: { expiresAt: new Date(Date.now() - 1000) } });
+
+      assert.equal(await cache.get('season:old'), undefined);
+      assert.equal(await cache.getTtl('season:old'), -1);
+      assert.deepEqual(await cache.listKeys(), ['season:23614']);
+
+      // Setting it again revives it
+      await cache.set('season:old', { id: 2 }, 60);
+      assert.deepEqual(await cache.get('season:old'), { id: 2 });
+    });
+
+    it('keeps entries with no TTL', async () => {
+      await cache.set('reference:leagues', ['Premier League'], 0);
+
+      const row = await prisma.cacheEntry.findUnique({ where: { key: 'reference:leagues' } });
+
+      assert.equal(row?.expiresAt, null);
+      assert.equal(await cache.getTtl('reference:leagues'), 0);
+
+      await cache.flush();
+    });
+  });
+
+  describe('backend selection', () => {
+    const saved = { CACHE_BACKEND: process.env.CACHE_BACKEND, REDIS_URL: process.env.REDIS_URL };
+
+    after(() => {
+      Object.assign(process.env, saved);
+      if (saved.REDIS_URL === undefined) delete process.env.REDIS_URL;
+    });
+
+    // A separate copy of cache.ts, so it reads the environment afresh
+    const loadCache = async (copy: string): Promise<CacheModule> =>
+      import(`../../src/services/cache.js?${copy}`);
+
+    it('falls back to Postgres when Redis is unreachable', async () => {
+      // Nothing listens on port 1
+      process.env.CACHE_BACKEND = 'redis';
+      process.env.REDIS_URL = 'redis://127.0.0.1:1';
+
+      const fallback = await loadCache('unreachable');
+      const backendName = await fallback.initCache();
+      await fallback.set('season:23614', { id: 23614 }, 60);
+
+      assert.equal(backendName, 'postgres');
+      assert.deepEqual(await fallback.get('season:23614'), { id: 23614 });
+      assert.ok(await prisma.cacheEntry.findUnique({ where: { key: 'season:23614' } }));
+
+      await fallback.flush();
+    });
+
+    it('uses Postgres when Redis is selected without a REDIS_URL', async () => {
+      process.env.CACHE_BACKEND = 'redis';
+      delete process.env.REDIS_URL;
+
+      const fallback = await loadCache('no-url');
+
+      assert.equal(await fallback.initCache(), 'postgres');
+    });
+  });
+});
@@ -0,0 +1,101 @@
+// ============================================
+// LEAGUES, SEASONS, TOP SCORERS AND PREDICTABILITY ROUTES
+// ============================================
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestApp, type TestApp } from '../support/testApp.js';
+
+describe('competition routes', () => {
+  let app: TestApp;
+  let token: string;
+
+  before(async () => {
+    app = await startTestApp();
+    ({ token } = await app.createUser());
+  });
+
+  after(() => app.close());
+
+  it('GET /leagues lists leagues with their current season', async () => {
+    const res = await app.request('/leagues', { token });
+
+    assert.equal(res.status, 200);
+    assert.equal(res.body.count, 2);
+    assert.equal(res.body.leagues[0].currentSeason.name, '2024/2025');
+  });
+
+  it('GET /leagues/:id returns a league with its seasons', async () => {
+    const res = await app.request('/leagues/8', { token });
+
+    assert.equal(res.status, 200);
+    assert.equal(res.body.league.name, 'Premier League');
+    assert.equal(res.body.league.seasons.length, 2);
+  });
+
+  it('GET /seasons/:id returns a season with its stages', async () => {
+    const res = await app.request('/seasons/23614', { token });
+
+    assert.equal(res.status, 200);
+    assert.equal(res.body.season.league.name, 'Premier League');
+    assert.equal(res.body.season.stages[0].name, 'Regular Season');
+  });
+
+  it('GET /topscorers/seasons/:id ranks the scorers', async () => {
+    const res = await app.request('/topscorers/seasons/23614', { token });
+
+    assert.equal(res.status, 200);
+    assert.deepEqual(
+      res.body.topscorers.map((scorer: any) => [scorer.player.name, scorer.total]),
+      [['Mohamed Salah', 17], ['Cole Palmer', 12], ['Bukayo Saka', 5]]
+    );
+  });
+
+  it('GET /predictions/predictability/leagues/:id returns model performance', async () => {
+    const res = await app.request('/predictions/predictability/leagues/8', { token });
+
+    assert.equal(res.status, 200);
+    assert.equal(res.body.leagueId, 8);
+    assert.equal(res.body.data.length, 2);
+  });
+
+  it('GET /leagues/:id/seasons/:seasonId/team-stats compares every team', async () => {
+    const res = await app.request('/leagues/8/seasons/23614/team-stats', { token });
+
+    assert.equal(res.status, 200);
+    assert.equal(res.body.source, 'sportsmonks');
+    assert.deepEqual(res.body.teams.map((team: any) => [team.teamName, team.points]), [['Arsenal', 4], ['Chelsea', 1]]);
+
+    const [arsenal] = res.body.teams;
+    assert.equal(arsenal.played, 2);
+    assert.equal(arsenal.goalDifference, 1);
+    assert.equal(arsenal.cornersFor, 6);
+    assert.equal(arsenal.bttsRate, 100);
+    assert.equal(arsenal.over25Rate, 50);
+    assert.equal(arsenal.cleanSheetRate, 0);
+    assert.equal(arsenal.xgFor, null);
+  });
+
+  it('GET /leagues/:id/seasons/:seasonId/team-stats filters and sorts', async () => {
+    const res = await app.request('/leagues/8/seasons/23614/team-stats?location=away&sort=cornersAgainst&order=asc', { token });
+
+    assert.equal(res.status, 200);
+    assert.equal(res.body.fromCache, true);
+    assert.deepEqual(
+      res.body.teams.map((team: any) => [team.teamName, team.played, team.cornersAgainst]),
+      [['Arsenal', 1, 4], ['Chelsea', 1, 7]]
+    );
+  });
+
+  it('GET /leagues/:id/seasons/:seasonId/team-stats rejects unknown sort columns', async () => {
+    const res = await app.request('/leagues/8/seasons/23614/team-stats?sort=name', { token });
+
+    assert.equal(res.status, 400);
+  });
+
+  it('GET /leagues/:id/seasons/:seasonId/team-stats 404s for another league\'s season', async () => {
+    const res = await app.request('/leagues/9/seasons/23614/team-stats', { token });
+
+    assert.equal(res.status, 404);
+  });
+});
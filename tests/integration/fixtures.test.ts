@@ -0,0 +1,90 @@
+// ============================================
+// FIXTURES ROUTES
+// ============================================
+// Runs against the SportsMonks stub (tests/fixtures/sportsmonks) and a
+// throwaway database - see tests/support/testApp.ts
+// ============================================
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestApp, type TestApp } from '../support/testApp.js';
+
+describe('/fixtures', () => {
+  let app: TestApp;
+  let token: string;
+
+  before(async () => {
+    app = await startTestApp();
+    ({ token } = await app.createUser());
+  });
+
+  after(() => app.close());
+
+  it('requires a token', async () => {
+    const res = await app.request('/fixtures/19135048');
+
+    assert.equal(res.status, 401);
+  });
+
+  it('returns a fixture with its default includes', async () => {
+    const res = await app.request('/fixtures/19135048', { token });
+
+    assert.equal(res.status, 200);
+    assert.equal(res.body.fixture.name, 'Arsenal vs Chelsea');
+    assert.equal(res.body.fixture.state.short_name, 'FT');
+    assert.deepEqual(
+      res.body.fixture.participants.map((team: any) => [team.name, team.meta.location]),
+      [['Arsenal', 'home'], ['Chelsea', 'away']]
+    );
+    assert.equal(res.body.fixture.events.length, 4);
+  });
+
+  it('asks SportsMonks for the documented includes', async () => {
+    const call = app.stub.requests.find(request => request.path === '/football/fixtures/19135048');
+
+    assert.ok(call);
+    assert.equal(
+      call.query.include,
+      'participants;scores;statistics;lineups;events;venue;league;season;state;metadata;referees.referee;weatherReport'
+    );
+  });
+
+  it('404s when SportsMonks has no such fixture', async () => {
+    const res = await app.request('/fixtures/1', { token });
+
+    assert.equal(res.status, 404);
+    assert.equal(res.body.error, 'Fixture with ID 1 not found');
+  });
+
+  it('rejects a non-numeric fixture ID', async () => {
+    const res = await app.request('/fixtures/abc', { token });
+
+    assert.equal(res.status, 400);
+  });
+
+  it('reports a SportsMonks outage as a 502', async () => {
+    app.stub.intercept('/football/fixtures/19135099', { status: 500, body: { message: 'Server Error' } });
+
+    const res = await app.request('/fixtures/19135099', { token });
+    app.stub.clearIntercepts();
+
+    assert.equal(res.status, 502);
+    assert.equal(res.body.code, 'SPORTSMONKS_BAD_GATEWAY');
+  });
+
+  it('lists the fixtures on a date', async () => {
+    const res = await app.request('/fixtures/date/2025-01-11', { token });
+
+    assert.equal(res.status, 200);
+    assert.deepEqual(
+      res.body.fixtures.map((fixture: any) => fixture.name),
+      ['Arsenal vs Chelsea', 'Liverpool vs Chelsea']
+    );
+  });
+
+  it('rejects a malformed date', async () => {
+    const res = await app.request('/fixtures/date/11-01-2025', { token });
+
+    assert.equal(res.status, 400);
+  });
+});
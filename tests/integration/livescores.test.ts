@@ -0,0 +1,158 @@
+// ============================================
+// LIVE SCORES ROUTES
+// ============================================
+// The recorded in-play feed has Liverpool 1-0 Chelsea in the first
+// half. The stream tests swap it for a second goal to see the update
+// pushed to a connected client.
+// ============================================
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestApp, type TestApp } from '../support/testApp.js';
+
+const INPLAY = '/football/livescores/inplay';
+const FIXTURE_ID = 19135049;
+
+type StreamEvent = { event: string; data: any };
+
+// A Server-Sent Events connection, read one event at a time
+async function openStream(url: string) {
+  const controller = new AbortController();
+  const response = await fetch(url, { signal: controller.signal });
+
+  const events: StreamEvent[] = [];
+  let waiting: (() => void) | null = null;
+
+  const read = async () => {
+    const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    try {
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) return;
+        buffer += value;
+
+        // Messages are separated by a blank line; comments and retry lines are skipped
+        let end;
+        while ((end = buffer.indexOf('\n\n')) !== -1) {
+          const lines = buffer.slice(0, end).split('\n');
+          buffer = buffer.slice(end + 2);
+
+          const event = lines.find(line => line.startsWith('event: '))?.slice(7);
+          const data = lines.find(line => line.startsWith('data: '))?.slice(6);
+          if (event && data) {
+            events.push({ event, data: JSON.parse(data) });
+            waiting?.();
+          }
+        }
+      }
+    } catch {
+      // Aborted by close()
+    }
+  };
+
+  if (response.ok) read();
+
+  const next = async (timeoutMs = 5000): Promise<StreamEvent> => {
+    const deadline = Date.now() + timeoutMs;
+    while (events.length === 0) {
+      if (Date.now() > deadline) throw new Error('No event received');
+      await new Promise<void>(resolve => {
+        waiting = resolve;
+        setTimeout(resolve, 100);
+      });
+    }
+    return events.shift()!;
+  };
+
+  return { status: response.status, next, close: () => controller.abort() };
+}
+
+describe('/livescores', () => {
+  let app: TestApp;
+  let token: string;
+
+  before(async () => {
+    // Poll every second rather than every 15
+    process.env.LIVE_POLL_INTERVAL_SECONDS = '1';
+    app = await startTestApp();
+    ({ token } = await app.createUser());
+  });
+
+  after(() => app.close());
+
+  it('returns the matches in play', async () => {
+    const res = await app.request('/livescores/inplay', { token });
+
+    assert.equal(res.status, 200);
+    assert.equal(res.body.count, 1);
+    assert.equal(res.body.fixtures[0].id, FIXTURE_ID);
+  });
+
+  describe('stream', () => {
+    it('requires a token', async () => {
+      const stream = await openStream(`${app.url}/livescores/stream`);
+
+      assert.equal(stream.status, 401);
+    });
+
+    it('starts with a snapshot of the matches in play', async () => {
+      const stream = await openStream(`${app.url}/livescores/stream?token=${token}`);
+
+      try {
+        assert.equal(stream.status, 200);
+
+        const { event, data } = await stream.next();
+        assert.equal(event, 'snapshot');
+        assert.deepEqual(data.fixtures.map((fixture: any) => fixture.id), [FIXTURE_ID]);
+        assert.equal(data.fixtures[0].state.short_name, '1st');
+        assert.equal(data.fixtures[0].events.length, 1);
+      } finally {
+        stream.close();
+      }
+    });
+
+    it('pushes score, state and event changes', async () => {
+      const stream = await openStream(`${app.url}/livescores/stream?token=${token}`);
+
+      try {
+        const { data: snapshot } = await stream.next();
+        const fixture = snapshot.fixtures[0];
+
+        // Liverpool score again, just before half time
+        const secondGoal = { ...fixture.events[0], id: 119002202, minute: 44, result: '2-0' };
+        app.stub.intercept(INPLAY, {
+          body: {
+            data: [{
+              ...fixture,
+              state_id: 3,
+              state: { id: 3, state: 'HT', name: 'Half-Time', short_name: 'HT', developer_name: 'HT' },
+              scores: fixture.scores.map((score: any) => score.score.participant === 'home'
+                ? { ...score, score: { ...score.score, goals: 2 } }
+                : score),
+              events: [...fixture.events, secondGoal]
+            }]
+          }
+        });
+
+        const { event, data } = await stream.next();
+        assert.equal(event, 'update');
+        assert.equal(data.fixtureId, FIXTURE_ID);
+        assert.deepEqual(data.changes, ['score', 'state', 'events']);
+        assert.deepEqual(data.score, { home: 2, away: 0 });
+        assert.equal(data.fixture.state.short_name, 'HT');
+        assert.deepEqual(data.newEvents.map((row: any) => row.id), [119002202]);
+
+        // Full time: the match drops out of the feed
+        app.stub.intercept(INPLAY, { body: { data: [] } });
+
+        const removed = await stream.next();
+        assert.deepEqual(removed.data.changes, ['removed']);
+        assert.equal(removed.data.fixture, null);
+      } finally {
+        stream.close();
+        app.stub.clearIntercepts();
+      }
+    });
+  });
+});
@@ -0,0 +1,88 @@
+// ============================================
+// POISSON / DIXON-COLES MODEL
+// ============================================
+// Fits the goals model (poissonModel.ts) to a small league whose
+// maximum-likelihood answer can be worked out by hand, and checks the
+// Dixon-Coles low-score correction in the score matrix.
+// ============================================
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestApp, type TestApp } from '../support/testApp.js';
+
+// Loaded once startTestApp() has set DATABASE_URL
+type PoissonModule = typeof import('../../src/services/poissonModel.js');
+type MatchResult = import('../../src/services/seasonResults.js').MatchResult;
+
+const round4 = (value: number) => Math.round(value * 10000) / 10000;
+
+describe('poisson model', () => {
+  let app: TestApp;
+  let poisson: PoissonModule;
+
+  before(async () => {
+    app = await startTestApp();
+    poisson = await import('../../src/services/poissonModel.js');
+  });
+
+  after(() => app.close());
+
+  const match = (fixtureId: number, homeTeamId: number, awayTeamId: number, homeGoals: number, awayGoals: number): MatchResult => ({
+    fixtureId,
+    leagueId: 8,
+    seasonId: 23614,
+    homeTeamId,
+    homeTeamName: `Team ${homeTeamId}`,
+    awayTeamId,
+    awayTeamName: `Team ${awayTeamId}`,
+    homeGoals,
+    awayGoals,
+    playedAt: `2025-01-${String(fixtureId).padStart(2, '0')}T15:00:00.000Z`
+  });
+
+  // Two teams with the same results at home: 1-0, 1-1 and 2-1
+  const league = [
+    match(1, 1, 2, 1, 0), match(2, 2, 1, 1, 0),
+    match(3, 1, 2, 1, 1), match(4, 2, 1, 1, 1),
+    match(5, 1, 2, 2, 1), match(6, 2, 1, 2, 1)
+  ];
+
+  it('fits strengths and rho on a small league', () => {
+    const model = poisson.fitDixonColes(league, { xi: 0 });
+
+    // The sides are identical, so attack = 1 (the mean) for both. Per
+    // match 4/3 home goals and 2/3 away goals:
+    //   defence = 2/3, homeAdvantage = (4/3) / (2/3) = 2
+    assert.equal(model.matchesUsed, 6);
+    assert.equal(round4(model.homeAdvantage), 2);
+    for (const teamId of [1, 2]) {
+      const team = model.teams.get(teamId)!;
+      assert.deepEqual([round4(team.attack), round4(team.defence), team.matches], [1, 0.6667, 6]);
+    }
+
+    // lambda = 4/3, mu = 2/3. Only the 1-0s and 1-1s depend on rho:
+    //   d/drho [log(1 + mu * rho) + log(1 - rho)] = 0  ->  rho = -1/4
+    assert.equal(round4(model.rho), -0.25);
+  });
+
+  it('applies the low-score correction to the score matrix', () => {
+    // lambda = 1.5, mu = 1, rho = -0.1; e^-2.5 = 0.0821
+    const { scoreMatrix, probabilities } = poisson.scoreProbabilities(1.5, 1, -0.1);
+
+    assert.equal(scoreMatrix[0][0], 0.0944);  // * (1 - lambda * mu * rho) = 1.15
+    assert.equal(scoreMatrix[0][1], 0.0698);  // * (1 + lambda * rho) = 0.85
+    assert.equal(scoreMatrix[1][0], 0.1108);  // * (1 + mu * rho) = 0.9
+    assert.equal(scoreMatrix[1][1], 0.1354);  // * (1 - rho) = 1.1
+    assert.equal(scoreMatrix[2][0], 0.0923);  // no correction
+    assert.equal(round4(probabilities.home + probabilities.draw + probabilities.away), 1);
+  });
+
+  it('is plain Poisson when rho is 0', () => {
+    const { scoreMatrix, probabilities } = poisson.scoreProbabilities(1.5, 1, 0);
+
+    assert.equal(scoreMatrix[0][0], 0.0821);
+    assert.equal(scoreMatrix[1][1], 0.1231);
+    // P(no goals for one side) = e^-1.5 + e^-1 - e^-2.5
+    assert.equal(probabilities.bttsNo, 0.5089);
+  });
+});
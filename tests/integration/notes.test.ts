@@ -0,0 +1,149 @@
+// ============================================
+// NOTES ROUTES
+// ============================================
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestApp, type TestApp } from '../support/testApp.js';
+
+describe('/notes', () => {
+  let app: TestApp;
+
+  before(async () => {
+    app = await startTestApp();
+  });
+
+  after(() => app.close());
+
+  const arsenalNote = {
+    title: 'Arsenal at home',
+    content: 'Strong home form, Saka fit again',
+    links: [
+      { contextType: 'team', contextId: '19', label: 'Arsenal', isPrimary: true },
+      { contextType: 'fixture', contextId: '19135048', label: 'Arsenal vs Chelsea' }
+    ]
+  };
+
+  it('creates a note and filters notes by link', async () => {
+    const { token } = await app.createUser();
+
+    const created = await app.request('/notes', { method: 'POST', token, body: arsenalNote });
+    assert.equal(created.status, 201);
+
+    const byFixture = await app.request('/notes?contextType=fixture&contextId=19135048', { token });
+    assert.equal(byFixture.body.count, 1);
+
+    const byOtherTeam = await app.request('/notes?contextType=team&contextId=18', { token });
+    assert.equal(byOtherTeam.body.count, 0);
+  });
+
+  it('needs exactly one primary link', async () => {
+    const { token } = await app.createUser();
+
+    const res = await app.request('/notes', {
+      method: 'POST',
+      token,
+      body: { ...arsenalNote, links: arsenalNote.links.map(link => ({ ...link, isPrimary: false })) }
+    });
+
+    assert.equal(res.status, 400);
+  });
+
+  it("keeps users out of each other's notes", async () => {
+    const owner = await app.createUser();
+    const other = await app.createUser();
+
+    const created = await app.request('/notes', { method: 'POST', token: owner.token, body: arsenalNote });
+    const noteId = created.body.note.id;
+
+    const read = await app.request(`/notes/${noteId}`, { token: other.token });
+    assert.equal(read.status, 403);
+
+    const removed = await app.request(`/notes/${noteId}`, { method: 'DELETE', token: other.token });
+    assert.equal(removed.status, 403);
+  });
+
+  describe('search', () => {
+    let token: string;
+
+    const note = (title: string, content: string, contextType: string, contextId: string, label: string) => ({
+      title,
+      content,
+      links: [{ contextType, contextId, label, isPrimary: true }]
+    });
+
+    before(async () => {
+      ({ token } = await app.createUser());
+
+      for (const body of [
+        arsenalNote,
+        note('Chelsea injuries', 'Palmer doubtful, Saka rumours are about Arsenal', 'team', '18', 'Chelsea'),
+        note('Liverpool pressing', 'High line leaves space in behind', 'team', '8', 'Liverpool'),
+        note('Derby notes', 'Nothing to add yet', 'betting', '', 'North London derby')
+      ]) {
+        await app.request('/notes', { method: 'POST', token, body });
+      }
+    });
+
+    it('ranks title matches above content matches, with highlights', async () => {
+      const res = await app.request('/notes/search?q=arsenal', { token });
+
+      assert.equal(res.status, 200);
+      assert.equal(res.body.total, 2);
+      assert.deepEqual(res.body.notes.map((n: any) => n.title), ['Arsenal at home', 'Chelsea injuries']);
+      assert.equal(res.body.notes[0].titleHighlight, '<mark>Arsenal</mark> at home');
+      assert.match(res.body.notes[1].snippet, /<mark>Arsenal<\/mark>/);
+      assert.ok(res.body.notes[0].rank > res.body.notes[1].rank);
+      assert.equal(res.body.notes[0].links.length, 2);
+    });
+
+    it('matches stemmed words, phrases and link labels', async () => {
+      const stemmed = await app.request('/notes/search?q=press', { token });
+      const phrase = await app.request(`/notes/search?q=${encodeURIComponent('"high line"')}`, { token });
+      const notPhrase = await app.request(`/notes/search?q=${encodeURIComponent('"line high"')}`, { token });
+      const label = await app.request('/notes/search?q=london', { token });
+
+      assert.deepEqual(stemmed.body.notes.map((n: any) => n.title), ['Liverpool pressing']);
+      assert.equal(phrase.body.total, 1);
+      assert.equal(notPhrase.body.total, 0);
+      assert.deepEqual(label.body.notes.map((n: any) => n.title), ['Derby notes']);
+    });
+
+    it('pages and filters by date and link', async () => {
+      const today = new Date().toISOString().slice(0, 10);
+
+      const firstPage = await app.request('/notes/search?q=arsenal&limit=1', { token });
+      const secondPage = await app.request('/notes/search?q=arsenal&limit=1&offset=1', { token });
+      const todayOnly = await app.request(`/notes/search?q=arsenal&startDate=${today}&endDate=${today}`, { token });
+      const past = await app.request('/notes/search?q=arsenal&endDate=2020-01-01', { token });
+      const byFixture = await app.request('/notes/search?q=arsenal&contextType=fixture&contextId=19135048', { token });
+
+      assert.equal(firstPage.body.count, 1);
+      assert.equal(firstPage.body.total, 2);
+      assert.equal(secondPage.body.notes[0].title, 'Chelsea injuries');
+      assert.equal(todayOnly.body.total, 2);
+      assert.equal(past.body.total, 0);
+      assert.deepEqual(byFixture.body.notes.map((n: any) => n.title), ['Arsenal at home']);
+    });
+
+    it("validates the query and never returns other users' notes", async () => {
+      const other = await app.createUser();
+
+      const missing = await app.request('/notes/search', { token });
+      const badDate = await app.request('/notes/search?q=arsenal&startDate=01-01-2025', { token });
+      const impossibleDate = await app.request('/notes/search?q=arsenal&endDate=2025-02-31', { token });
+      const repeated = await app.request('/notes/search?q=arsenal&q=chelsea', { token });
+      const repeatedFilter = await app.request('/notes/search?q=arsenal&contextType=fixture&contextType=team', { token });
+      const otherUser = await app.request('/notes/search?q=arsenal', { token: other.token });
+
+      assert.equal(missing.status, 400);
+      assert.equal(badDate.status, 400);
+      assert.equal(impossibleDate.status, 400);
+      assert.equal(repeated.status, 400);
+      assert.equal(repeated.body.error, 'q must be given once');
+      assert.equal(repeatedFilter.status, 400);
+      assert.equal(repeatedFilter.body.error, 'contextType must be given once');
+      assert.equal(otherUser.body.total, 0);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+// ============================================
+// NOTIFICATIONS ROUTES
+// ============================================
+// Notifications come from match alerts on the IN_APP channel: a
+// Liverpool rule evaluated against the recorded in-play feed
+// (Liverpool 1-0 Chelsea) puts a kickoff and a goal alert in the inbox.
+// ============================================
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestApp, type TestApp } from '../support/testApp.js';
+
+const LIVERPOOL = 8;
+
+describe('/notifications', () => {
+  let app: TestApp;
+  let token: string;
+
+  before(async () => {
+    app = await startTestApp();
+    ({ token } = await app.createUser());
+
+    const admin = await app.createUser({ admin: true });
+    await app.request('/alerts', {
+      method: 'POST',
+      token,
+      body: { teamId: LIVERPOOL, events: ['KICKOFF', 'GOAL'] }
+    });
+    await app.request('/admin/alerts/evaluate', { method: 'POST', token: admin.token });
+  });
+
+  after(() => app.close());
+
+  it('lists in-app alerts newest first, all unread', async () => {
+    const res = await app.request('/notifications', { token });
+
+    assert.equal(res.status, 200);
+    assert.equal(res.body.total, 2);
+    assert.equal(res.body.unreadCount, 2);
+    assert.deepEqual(res.body.notifications.map((n: any) => n.type), ['ALERT', 'ALERT']);
+    assert.ok(res.body.notifications.every((n: any) => n.readAt === null && n.link === '/fixtures/19135049'));
+    assert.ok(res.body.notifications.some((n: any) => n.title.startsWith('Goal for Liverpool')));
+  });
+
+  it('pages with limit and offset', async () => {
+    const first = await app.request('/notifications?limit=1', { token });
+    const second = await app.request('/notifications?limit=1&offset=1', { token });
+    const invalid = await app.request('/notifications?limit=0', { token });
+
+    assert.equal(first.body.count, 1);
+    assert.equal(first.body.total, 2);
+    assert.notEqual(first.body.notifications[0].id, second.body.notifications[0].id);
+    assert.equal(invalid.status, 400);
+  });
+
+  it('marks one notification read', async () => {
+    const list = await app.request('/notifications', { token });
+    const id = list.body.notifications[0].id;
+
+    const read = await app.request(`/notifications/${id}/read`, { method: 'PATCH', token });
+    const count = await app.request('/notifications/unread-count', { token });
+    const unread = await app.request('/notifications?unread=true', { token });
+
+    assert.equal(read.status, 200);
+    assert.ok(read.body.notification.readAt);
+    assert.deepEqual(count.body, { unreadCount: 1 });
+    assert.equal(unread.body.total, 1);
+    assert.notEqual(unread.body.notifications[0].id, id);
+  });
+
+  it('marks all notifications read', async () => {
+    const res = await app.request('/notifications/read-all', { method: 'PATCH', token });
+    const count = await app.request('/notifications/unread-count', { token });
+
+    assert.equal(res.body.updated, 1);
+    assert.equal(count.body.unreadCount, 0);
+  });
+
+  it("keeps other users' notifications private", async () => {
+    const other = await app.createUser();
+    const list = await app.request('/notifications', { token });
+    const id = list.body.notifications[0].id;
+
+    const otherList = await app.request('/notifications', { token: other.token });
+    const read = await app.request(`/notifications/${id}/read`, { method: 'PATCH', token: other.token });
+    const removed = await app.request(`/notifications/${id}`, { method: 'DELETE', token: other.token });
+
+    assert.equal(otherList.body.total, 0);
+    assert.equal(read.status, 403);
+    assert.equal(removed.status, 403);
+  });
+
+  it('deletes a notification', async () => {
+    const list = await app.request('/notifications', { token });
+    const id = list.body.notifications[0].id;
+
+    const removed = await app.request(`/notifications/${id}`, { method: 'DELETE', token });
+    const again = await app.request(`/notifications/${id}`, { method: 'DELETE', token });
+    const remaining = await app.request('/notifications', { token });
+
+    assert.equal(removed.body.deletedNotificationId, id);
+    assert.equal(again.status, 404);
+    assert.equal(remaining.body.total, 1);
+  });
+});
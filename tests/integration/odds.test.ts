@@ -0,0 +1,94 @@
+// ============================================
+// ODDS ROUTES
+// ============================================
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestApp, type TestApp } from '../support/testApp.js';
+
+describe('/odds', () => {
+  let app: TestApp;
+  let token: string;
+
+  before(async () => {
+    app = await startTestApp();
+    ({ token } = await app.createUser());
+  });
+
+  after(() => app.close());
+
+  it('adds fair prices to each odd', async () => {
+    const res = await app.request('/odds/fixtures/19135048', { token });
+
+    assert.equal(res.status, 200);
+    assert.equal(res.body.devigMethod, 'multiplicative');
+    assert.equal(res.body.odds.length, 8);
+
+    // bet365's 1X2 book: 1.91 / 3.60 / 4.00
+    const home = res.body.odds.find((odd: any) => odd.id === 139871101);
+    assert.equal(home.impliedProbability, 0.5236);
+    assert.ok(home.fairProbability < home.impliedProbability);
+    assert.ok(Number(home.fairOdds.value) > 1.91);
+  });
+
+  it('keeps mirrored Asian handicap lines in separate books', async () => {
+    const handicapOdd = (id: number, label: string, handicap: string, value: string) => ({
+      id, fixture_id: 19135050, market_id: 6, bookmaker_id: 2, label, name: label, value,
+      market_description: 'Asian Handicap', stopped: false, total: null, handicap
+    });
+
+    try {
+      app.stub.intercept('/football/odds/pre-match/fixtures/19135050', {
+        body: {
+          data: [
+            handicapOdd(1, 'Home', '-0.5', '1.90'),
+            handicapOdd(2, 'Away', '0.5', '1.90'),
+            handicapOdd(3, 'Home', '0.5', '1.25'),
+            handicapOdd(4, 'Away', '-0.5', '3.75')
+          ]
+        }
+      });
+      const res = await app.request('/odds/fixtures/19135050?devig=multiplicative', { token });
+
+      assert.equal(res.status, 200);
+      assert.deepEqual(
+        res.body.books.map((book: any) => [book.line, book.outcomes]),
+        [['-0.5', 2], ['0.5', 2]]
+      );
+
+      // 1.90 / 1.90 is an even book; 1.25 / 3.75 is 1.0667 with a 3:1 split
+      const fair = Object.fromEntries(res.body.odds.map((odd: any) => [odd.id, odd.fairProbability]));
+      assert.deepEqual(fair, { 1: 0.5, 2: 0.5, 3: 0.75, 4: 0.25 });
+      assert.equal(res.body.books[1].overround, 0.0667);
+    } finally {
+      app.stub.clearIntercepts();
+    }
+  });
+
+  it('rejects an unknown devig method', async () => {
+    const res = await app.request('/odds/fixtures/19135048?devig=magic', { token });
+
+    assert.equal(res.status, 400);
+  });
+
+  it('picks the best price per selection across bookmakers', async () => {
+    const res = await app.request('/odds/fixtures/19135048/best', { token });
+
+    assert.equal(res.status, 200);
+
+    const result = res.body.markets.find((market: any) => market.marketId === 1);
+    assert.equal(result.marketName, 'Fulltime Result');
+
+    const home = result.selections.find((selection: any) => selection.label === 'Home');
+    assert.equal(home.bookmakerCount, 2);
+    assert.equal(home.best.value, '1.95');
+    assert.deepEqual(home.bestBookmakers.map((bookmaker: any) => bookmaker.name), ['Betfair']);
+  });
+
+  it('lists bookmakers from the odds API', async () => {
+    const res = await app.request('/odds/bookmakers', { token });
+
+    assert.equal(res.status, 200);
+    assert.ok(app.stub.requests.some(request => request.path === '/odds/bookmakers'));
+  });
+});
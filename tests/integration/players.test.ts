@@ -0,0 +1,35 @@
+// ============================================
+// PLAYERS AND LIVESCORES ROUTES
+// ============================================
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestApp, type TestApp } from '../support/testApp.js';
+
+describe('/players and /livescores', () => {
+  let app: TestApp;
+  let token: string;
+
+  before(async () => {
+    app = await startTestApp();
+    ({ token } = await app.createUser());
+  });
+
+  after(() => app.close());
+
+  it('GET /players/search/:query finds players', async () => {
+    const res = await app.request('/players/search/Saka', { token });
+
+    assert.equal(res.status, 200);
+    assert.equal(res.body.players[0].display_name, 'Bukayo Saka');
+    assert.equal(res.body.players[0].position.name, 'Attacker');
+  });
+
+  it('GET /livescores lists live and upcoming fixtures', async () => {
+    const res = await app.request('/livescores', { token });
+
+    assert.equal(res.status, 200);
+    assert.equal(res.body.count, 1);
+    assert.equal(res.body.fixtures[0].state.short_name, 'NS');
+  });
+});
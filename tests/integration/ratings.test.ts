@@ -0,0 +1,79 @@
+// ============================================
+// ELO RATINGS
+// ============================================
+// The rating update in eloRatings.ts, checked against results worked
+// out by hand (K = 20, home advantage = 65 points).
+// ============================================
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestApp, type TestApp } from '../support/testApp.js';
+
+// Loaded once startTestApp() has set DATABASE_URL
+type EloModule = typeof import('../../src/services/eloRatings.js');
+type MatchResult = import('../../src/services/seasonResults.js').MatchResult;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const round4 = (value: number) => Math.round(value * 10000) / 10000;
+
+describe('elo ratings', () => {
+  let app: TestApp;
+  let elo: EloModule;
+
+  before(async () => {
+    app = await startTestApp();
+    elo = await import('../../src/services/eloRatings.js');
+  });
+
+  after(() => app.close());
+
+  const match = (fixtureId: number, homeTeamId: number, awayTeamId: number, homeGoals: number, awayGoals: number): MatchResult => ({
+    fixtureId,
+    leagueId: 8,
+    seasonId: 23614,
+    homeTeamId,
+    homeTeamName: homeTeamId === 19 ? 'Arsenal' : 'Chelsea',
+    awayTeamId,
+    awayTeamName: awayTeamId === 19 ? 'Arsenal' : 'Chelsea',
+    homeGoals,
+    awayGoals,
+    playedAt: `2025-01-${String(fixtureId).padStart(2, '0')}T15:00:00.000Z`
+  });
+
+  it('gives the home side its advantage', () => {
+    // 1 / (1 + 10^(-65/400))
+    assert.equal(round4(elo.expectedScore(1500, 1500)), 0.5925);
+    assert.equal(round4(elo.expectedScore(1500, 1565)), 0.5);
+  });
+
+  it('moves both ratings by the same amount', () => {
+    const teams: Parameters<EloModule['applyResults']>[1] = new Map();
+
+    const history = elo.applyResults([
+      // 3-goal win: G = (11 + 3) / 8 = 1.75
+      //   change = 20 * 1.75 * (1 - 0.5925) = 14.26
+      match(1, 19, 18, 3, 0),
+      // Draw, Chelsea (1485.74) at home to Arsenal (1514.26): expected = 0.5523
+      //   change = 20 * (0.5 - 0.5523) = -1.05
+      match(2, 18, 19, 1, 1)
+    ], teams);
+
+    assert.deepEqual(
+      history.map(row => [row.teamId, round2(row.ratingBefore), round2(row.ratingAfter), round4(row.expected)]),
+      [
+        [19, 1500, 1514.26, 0.5925],
+        [18, 1500, 1485.74, 0.4075],
+        [18, 1485.74, 1484.69, 0.5523],
+        [19, 1514.26, 1515.31, 0.4477]
+      ]
+    );
+    assert.equal(round2(teams.get(19)!.rating), 1515.31);
+    assert.equal(round2(teams.get(18)!.rating), 1484.69);
+    assert.equal(teams.get(18)!.matches, 2);
+  });
+
+  it('splits the expectancy into win, draw and loss', () => {
+    // expected 0.7211, draw = 0.28 * (1 - |2 * 0.7211 - 1|)
+    assert.deepEqual(elo.winProbabilities(1600, 1500), { expected: 0.7211, home: 0.643, draw: 0.1562, away: 0.2008 });
+  });
+});
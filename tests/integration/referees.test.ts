@@ -0,0 +1,63 @@
+// ============================================
+// REFEREES ROUTES
+// ============================================
+// Michael Oliver refereed both recorded matches of season 23614: a
+// draw at Chelsea (a Chelsea booking and an Arsenal penalty) and
+// Arsenal's home win (a Chelsea booking).
+// ============================================
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestApp, type TestApp } from '../support/testApp.js';
+
+describe('/referees', () => {
+  let app: TestApp;
+  let token: string;
+
+  before(async () => {
+    // Whole recorded windows, rather than the default 14 days
+    process.env.WAREHOUSE_WINDOW_DAYS = '100';
+    app = await startTestApp();
+    ({ token } = await app.createUser());
+
+    // Store the season the tendencies are built from
+    const admin = await app.createUser({ admin: true });
+    await app.request('/admin/warehouse/backfill', { method: 'POST', token: admin.token, body: { seasonIds: [23614] } });
+    for (let attempt = 0; attempt < 50; attempt++) {
+      const res = await app.request('/admin/warehouse', { token: admin.token });
+      if (res.body.warehouse.seasons[0]?.status === 'COMPLETED') break;
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+  });
+
+  after(() => app.close());
+
+  it('returns the profile with card and penalty tendencies', async () => {
+    const res = await app.request('/referees/14508', { token });
+
+    assert.equal(res.status, 200);
+    assert.equal(res.body.referee.name, 'Michael Oliver');
+
+    const { stats } = res.body;
+    assert.equal(stats.games, 2);
+    assert.deepEqual(stats.yellowCards, { total: 2, perGame: 1, homePerGame: 0.5, awayPerGame: 0.5 });
+    assert.deepEqual(stats.penalties, { total: 1, perGame: 0.5, homePerGame: 0, awayPerGame: 0.5 });
+    assert.equal(stats.results.homeWinRate, 50);
+    assert.equal(stats.fouls.games, 0);
+    assert.deepEqual(stats.recentFixtures.map((fixture: any) => fixture.fixtureId), [19135048, 19134890]);
+  });
+
+  it('limits the tendencies to the most recent matches', async () => {
+    const res = await app.request('/referees/14508?last=1', { token });
+
+    assert.equal(res.status, 200);
+    assert.equal(res.body.stats.games, 1);
+    assert.equal(res.body.stats.penalties.total, 0);
+  });
+
+  it('404s for an unknown referee', async () => {
+    const res = await app.request('/referees/1', { token });
+
+    assert.equal(res.status, 404);
+  });
+});
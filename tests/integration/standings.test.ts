@@ -0,0 +1,43 @@
+// ============================================
+// STANDINGS ROUTES
+// ============================================
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestApp, type TestApp } from '../support/testApp.js';
+
+describe('/standings', () => {
+  let app: TestApp;
+  let token: string;
+
+  before(async () => {
+    app = await startTestApp();
+    ({ token } = await app.createUser());
+  });
+
+  after(() => app.close());
+
+  it('returns the table for a season', async () => {
+    const res = await app.request('/standings/seasons/23614', { token });
+
+    assert.equal(res.status, 200);
+    assert.equal(res.body.seasonId, 23614);
+    assert.deepEqual(
+      res.body.standings.map((row: any) => [row.position, row.participant.name, row.points]),
+      [[1, 'Liverpool', 46], [2, 'Arsenal', 43], [4, 'Chelsea', 36]]
+    );
+  });
+
+  it('rejects a non-numeric season ID', async () => {
+    const res = await app.request('/standings/seasons/current', { token });
+
+    assert.equal(res.status, 400);
+  });
+
+  it('passes a SportsMonks 404 through', async () => {
+    const res = await app.request('/standings/seasons/999', { token });
+
+    assert.equal(res.status, 404);
+    assert.equal(res.body.code, 'SPORTSMONKS_NOT_FOUND');
+  });
+});
@@ -0,0 +1,89 @@
+// ============================================
+// TEAMS ROUTES
+// ============================================
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestApp, type TestApp } from '../support/testApp.js';
+
+describe('/teams', () => {
+  let app: TestApp;
+  let token: string;
+
+  before(async () => {
+    app = await startTestApp();
+    ({ token } = await app.createUser());
+  });
+
+  after(() => app.close());
+
+  it('searches teams by name', async () => {
+    const res = await app.request('/teams/search/Arsenal', { token });
+
+    assert.equal(res.status, 200);
+    assert.equal(res.body.teams.length, 1);
+    assert.equal(res.body.teams[0].venue.name, 'Emirates Stadium');
+  });
+
+  it('returns a team with its active seasons', async () => {
+    const res = await app.request('/teams/19', { token });
+
+    assert.equal(res.status, 200);
+    assert.equal(res.body.team.name, 'Arsenal');
+    assert.deepEqual(res.body.team.activeSeasons.map((season: any) => season.id), [23614]);
+  });
+
+  it('rejects a non-numeric team ID', async () => {
+    const res = await app.request('/teams/arsenal', { token });
+
+    assert.equal(res.status, 400);
+  });
+
+  describe('stat averages', () => {
+    // Arsenal's season is recorded in three windows: away at Chelsea
+    // (corners only) and at home to Chelsea (full statistics)
+    before(async () => {
+      const admin = await app.createUser({ admin: true });
+      await app.request('/admin/types/sync', { method: 'POST', token: admin.token });
+    });
+
+    it('averages a statistic for and against, home and away', async () => {
+      const res = await app.request('/teams/19/stat-averages/seasons/23614?types=corners,86', { token });
+
+      assert.equal(res.status, 200);
+      assert.equal(res.body.source, 'sportsmonks');
+      assert.equal(res.body.fromCache, false);
+
+      const [corners, shotsOnTarget] = res.body.stats;
+      assert.equal(corners.name, 'Corners');
+      assert.deepEqual(corners.for.home, { total: 7, games: 1, average: 7 });
+      assert.deepEqual(corners.for.away, { total: 5, games: 1, average: 5 });
+      assert.deepEqual(corners.against.overall, { total: 7, games: 2, average: 3.5 });
+      assert.deepEqual(corners.series.map((row: any) => [row.fixtureId, row.location, row.for, row.against]), [
+        [19134890, 'away', 5, 4],
+        [19135048, 'home', 7, 3]
+      ]);
+
+      // Only the home match recorded shots on target
+      assert.deepEqual(shotsOnTarget.for.overall, { total: 6, games: 1, average: 6 });
+    });
+
+    it('returns form windows and serves repeats from the cache', async () => {
+      const res = await app.request('/teams/19/stat-averages/seasons/23614?types=34&last=1,5', { token });
+
+      assert.equal(res.status, 200);
+      assert.equal(res.body.fromCache, true);
+      assert.deepEqual(res.body.stats[0].form, [
+        { last: 1, games: 1, for: 7, against: 3 },
+        { last: 5, games: 2, for: 6, against: 3.5 }
+      ]);
+    });
+
+    it('rejects types that are not statistics', async () => {
+      const res = await app.request('/teams/19/stat-averages/seasons/23614?types=corners,goal,nope', { token });
+
+      assert.equal(res.status, 400);
+      assert.equal(res.body.error, 'Unknown statistic type(s): goal, nope');
+    });
+  });
+});
@@ -0,0 +1,96 @@
+// ============================================
+// VALUE BETS
+// ============================================
+// Prices a fixture's predicted outcomes against its odds with
+// findFixtureValueBets (valueBets.ts). The expected EV and Kelly
+// figures are worked out by hand in the comments.
+// ============================================
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestApp, type TestApp } from '../support/testApp.js';
+
+// Loaded once startTestApp() has set DATABASE_URL
+type ValueBetsModule = typeof import('../../src/services/valueBets.js');
+
+describe('value bets', () => {
+  let app: TestApp;
+  let valueBets: ValueBetsModule;
+
+  before(async () => {
+    app = await startTestApp();
+    valueBets = await import('../../src/services/valueBets.js');
+  });
+
+  after(() => app.close());
+
+  const odd = (marketId: number, label: string, value: string, bookmakerId: number, extra: object = {}) =>
+    ({ market_id: marketId, label, value, bookmaker_id: bookmakerId, ...extra });
+
+  const fixture = {
+    id: 19135048,
+    name: 'Arsenal vs Chelsea',
+    league_id: 8,
+    starting_at: '2025-01-11 17:30:00',
+    participants: [
+      { id: 19, name: 'Arsenal', meta: { location: 'home' } },
+      { id: 18, name: 'Chelsea', meta: { location: 'away' } }
+    ],
+    predictions: [
+      { type_id: 237, predictions: { home: 52, draw: 25, away: 23 } },
+      { type_id: 235, predictions: { yes: 60, no: 40 } }
+    ],
+    odds: [
+      odd(1, 'Home', '2.10', 2),
+      odd(1, 'Home', '2.00', 9),
+      odd(1, 'Draw', '3.40', 2),
+      odd(1, 'Away', '3.80', 2),
+      // Suspended - can't be taken, so not the best price
+      odd(1, 'Away', '4.50', 9, { stopped: true }),
+      odd(12, 'Over', '1.80', 2, { total: '2.5' }),
+      odd(12, 'Under', '2.40', 2, { total: '2.5' }),
+      // Another line of the same market
+      odd(12, 'Over', '5.00', 2, { total: '3.5' })
+    ]
+  };
+
+  const priced = (bets: ReturnType<ValueBetsModule['findFixtureValueBets']>) =>
+    bets.map(bet => [bet.selection, bet.best.value, bet.bookmakerCount, bet.ev, bet.kelly]);
+
+  it('works out EV and Kelly at the best open price', () => {
+    const bets = valueBets.findFixtureValueBets(fixture);
+
+    assert.deepEqual(priced(bets), [
+      // 0.52 * 2.10 - 1 = 9.2%, 0.092 / 1.10 = 0.0836
+      ['Home', '2.10', 2, 9.2, 0.0836],
+      // 0.25 * 3.40 - 1 = -15% - no Kelly stake
+      ['Draw', '3.40', 1, -15, 0],
+      // 0.23 * 3.80 - 1 = -12.6%
+      ['Away', '3.80', 1, -12.6, 0],
+      // 0.60 * 1.80 - 1 = 8%, 0.08 / 0.80 = 0.1
+      ['Over 2.5', '1.80', 1, 8, 0.1],
+      // 0.40 * 2.40 - 1 = -4%
+      ['Under 2.5', '2.40', 1, -4, 0]
+    ]);
+  });
+
+  it('adds the fair price and the teams', () => {
+    const [home] = valueBets.findFixtureValueBets(fixture, { bookmakers: new Map([[2, 'bet365']]) });
+
+    assert.equal(home.probability, 0.52);
+    assert.equal(home.fair.value, '1.92');
+    assert.equal(home.best.bookmakerName, 'bet365');
+    assert.deepEqual(home.homeTeam, { id: 19, name: 'Arsenal', image_path: undefined });
+    assert.equal(home.awayTeam?.name, 'Chelsea');
+  });
+
+  it('skips outcomes without a probability or a price', () => {
+    const bets = valueBets.findFixtureValueBets({
+      ...fixture,
+      predictions: [{ type_id: 237, predictions: { home: 100, draw: 0, away: 0 } }]
+    });
+
+    assert.deepEqual(bets, []);
+    assert.deepEqual(valueBets.findFixtureValueBets({ ...fixture, odds: [] }), []);
+  });
+});
@@ -0,0 +1,115 @@
+// ============================================
+// WAREHOUSE ADMIN ROUTES
+// ============================================
+// Season 23614 is recorded in three 100-day windows: a draw in the
+// first, Arsenal vs Chelsea (with lineups and events) in the second
+// and nothing in the third.
+// ============================================
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestApp, type TestApp } from '../support/testApp.js';
+
+const FIRST_WINDOW = '/football/fixtures/between/2024-08-16/2024-11-23';
+const SECOND_WINDOW = '/football/fixtures/between/2024-11-24/2025-03-03';
+
+describe('/admin/warehouse', () => {
+  let app: TestApp;
+  let token: string;
+
+  // Backfills run in the background - wait for the season to stop RUNNING
+  const waitForSeason = async (seasonId: number) => {
+    for (let attempt = 0; attempt < 50; attempt++) {
+      const res = await app.request('/admin/warehouse', { token });
+      const season = res.body.warehouse.seasons.find((row: any) => row.seasonId === seasonId);
+      if (season && season.status !== 'RUNNING') return res.body.warehouse;
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+    throw new Error(`Season ${seasonId} is still running`);
+  };
+
+  before(async () => {
+    // Whole recorded windows, rather than the default 14 days
+    process.env.WAREHOUSE_WINDOW_DAYS = '100';
+    app = await startTestApp();
+    ({ token } = await app.createUser({ admin: true }));
+  });
+
+  after(() => app.close());
+
+  it('is admin only', async () => {
+    const user = await app.createUser();
+
+    const res = await app.request('/admin/warehouse', { token: user.token });
+
+    assert.equal(res.status, 403);
+  });
+
+  it('validates the backfill body', async () => {
+    const res = await app.request('/admin/warehouse/backfill', {
+      method: 'POST',
+      token,
+      body: { seasonIds: ['2024/2025'] }
+    });
+
+    assert.equal(res.status, 400);
+  });
+
+  it('keeps the progress of a backfill that fails part way', async () => {
+    app.stub.intercept(SECOND_WINDOW, { status: 500, body: { message: 'Server Error' } });
+
+    const res = await app.request('/admin/warehouse/backfill', {
+      method: 'POST',
+      token,
+      body: { seasonIds: [23614] }
+    });
+    assert.equal(res.status, 202);
+    assert.deepEqual(res.body.seasonIds, [23614]);
+
+    const warehouse = await waitForSeason(23614);
+    app.stub.clearIntercepts();
+
+    const season = warehouse.seasons[0];
+    assert.equal(season.status, 'INCOMPLETE');
+    assert.equal(season.syncedThrough, '2024-11-23T00:00:00.000Z');
+    assert.equal(warehouse.counts.fixtures, 1);
+  });
+
+  it('resumes at the window that failed', async () => {
+    await app.request('/admin/warehouse/backfill', {
+      method: 'POST',
+      token,
+      body: { seasonIds: [23614] }
+    });
+
+    const warehouse = await waitForSeason(23614);
+
+    const season = warehouse.seasons[0];
+    assert.equal(season.status, 'COMPLETED');
+    assert.equal(season.syncedThrough, '2025-05-25T00:00:00.000Z');
+    assert.equal(season.fixturesIngested, 2);
+    assert.deepEqual(warehouse.counts, { fixtures: 2, teams: 2, statistics: 12, lineups: 5, events: 6 });
+
+    // The first window was only fetched by the first run
+    assert.equal(app.stub.requests.filter(request => request.path === FIRST_WINDOW).length, 1);
+  });
+
+  it('answers stat averages from the stored season', async () => {
+    const res = await app.request('/teams/19/stat-averages/seasons/23614', { token });
+
+    assert.equal(res.status, 200);
+    assert.equal(res.body.source, 'warehouse');
+
+    const corners = res.body.stats.find((stat: any) => stat.typeId === 34);
+    assert.deepEqual(corners.for.overall, { total: 12, games: 2, average: 6 });
+    assert.deepEqual(corners.series.map((row: any) => row.opponentName), ['Chelsea', 'Chelsea']);
+  });
+
+  it('answers league team stats from the stored season', async () => {
+    const res = await app.request('/leagues/8/seasons/23614/team-stats', { token });
+
+    assert.equal(res.status, 200);
+    assert.equal(res.body.source, 'warehouse');
+    assert.deepEqual(res.body.teams.map((team: any) => [team.teamName, team.played]), [['Arsenal', 2], ['Chelsea', 2]]);
+  });
+});
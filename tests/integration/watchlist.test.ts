@@ -0,0 +1,142 @@
+// ============================================
+// WATCHLIST ROUTES
+// ============================================
+// The week from 2025-01-11 has Arsenal v Chelsea and Liverpool v
+// Chelsea in the Premier League and Leeds v Sunderland in the
+// Championship. The feed tests follow Liverpool, the Arsenal game and
+// the Championship, so each fixture is there for a different reason.
+// ============================================
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestApp, type TestApp } from '../support/testApp.js';
+
+const ARSENAL_CHELSEA = 19135048;
+const LIVERPOOL_CHELSEA = 19135049;
+const LEEDS_SUNDERLAND = 19140210;
+
+const WEEK = 'startDate=2025-01-11&endDate=2025-01-17';
+
+describe('/watchlist', () => {
+  let app: TestApp;
+
+  before(async () => {
+    app = await startTestApp();
+  });
+
+  after(() => app.close());
+
+  it('requires a token', async () => {
+    const res = await app.request('/watchlist');
+
+    assert.equal(res.status, 401);
+  });
+
+  it('follows a fixture, looking up its name and kickoff', async () => {
+    const { token } = await app.createUser();
+
+    const res = await app.request('/watchlist', {
+      method: 'POST',
+      token,
+      body: { type: 'fixture', entityId: ARSENAL_CHELSEA }
+    });
+
+    assert.equal(res.status, 201);
+    assert.equal(res.body.item.entityType, 'fixture');
+    assert.equal(res.body.item.label, 'Arsenal vs Chelsea');
+    assert.equal(res.body.item.kickoffAt, '2025-01-11T15:00:00.000Z');
+  });
+
+  it('does not add the same entity twice', async () => {
+    const { token } = await app.createUser();
+    const body = { type: 'team', entityId: 8, label: 'Liverpool' };
+
+    const first = await app.request('/watchlist', { method: 'POST', token, body });
+    const second = await app.request('/watchlist', { method: 'POST', token, body });
+
+    assert.equal(first.status, 201);
+    assert.equal(second.status, 200);
+    assert.equal(second.body.item.id, first.body.item.id);
+  });
+
+  it('validates the type and entity', async () => {
+    const { token } = await app.createUser();
+
+    const badType = await app.request('/watchlist', { method: 'POST', token, body: { type: 'player', entityId: 1 } });
+    const badId = await app.request('/watchlist', { method: 'POST', token, body: { type: 'team', entityId: 'x' } });
+
+    assert.equal(badType.status, 400);
+    assert.equal(badType.body.error, 'type must be one of: team, league, fixture');
+    assert.equal(badId.status, 400);
+    assert.equal(badId.body.error, 'entityId must be a positive integer');
+  });
+
+  it('counts and lists entries by type', async () => {
+    const { token } = await app.createUser();
+    await app.request('/watchlist', { method: 'POST', token, body: { type: 'team', entityId: 8, label: 'Liverpool' } });
+    await app.request('/watchlist', { method: 'POST', token, body: { type: 'league', entityId: 9, label: 'Championship' } });
+
+    const counts = await app.request('/watchlist/counts', { token });
+    const teams = await app.request('/watchlist?type=team', { token });
+
+    assert.deepEqual(counts.body, { teams: 1, leagues: 1, fixtures: 0, total: 2 });
+    assert.equal(teams.body.count, 1);
+    assert.equal(teams.body.items[0].label, 'Liverpool');
+  });
+
+  it('only lets the owner remove an entry', async () => {
+    const owner = await app.createUser();
+    const other = await app.createUser();
+    const added = await app.request('/watchlist', {
+      method: 'POST',
+      token: owner.token,
+      body: { type: 'team', entityId: 19, label: 'Arsenal' }
+    });
+
+    const denied = await app.request(`/watchlist/${added.body.item.id}`, { method: 'DELETE', token: other.token });
+    const removed = await app.request(`/watchlist/${added.body.item.id}`, { method: 'DELETE', token: owner.token });
+    const list = await app.request('/watchlist', { token: owner.token });
+
+    assert.equal(denied.status, 403);
+    assert.equal(removed.status, 200);
+    assert.equal(list.body.count, 0);
+  });
+
+  describe('fixtures feed', () => {
+    it('merges the fixtures of everything followed, with the reasons', async () => {
+      const { token } = await app.createUser();
+      await app.request('/watchlist', { method: 'POST', token, body: { type: 'team', entityId: 8, label: 'Liverpool' } });
+      await app.request('/watchlist', { method: 'POST', token, body: { type: 'fixture', entityId: ARSENAL_CHELSEA } });
+      await app.request('/watchlist', { method: 'POST', token, body: { type: 'league', entityId: 9, label: 'Championship' } });
+
+      const res = await app.request(`/watchlist/fixtures?${WEEK}`, { token });
+
+      assert.equal(res.status, 200);
+      assert.deepEqual(res.body.fixtures.map((fixture: any) => fixture.id), [ARSENAL_CHELSEA, LIVERPOOL_CHELSEA, LEEDS_SUNDERLAND]);
+      assert.deepEqual(
+        res.body.fixtures.map((fixture: any) => fixture.watchedBecause.map((reason: any) => reason.label)),
+        [['Arsenal vs Chelsea'], ['Liverpool'], ['Championship']]
+      );
+    });
+
+    it('makes no SportsMonks calls for an empty watchlist', async () => {
+      const { token } = await app.createUser();
+      const before = app.stub.requests.length;
+
+      const res = await app.request(`/watchlist/fixtures?${WEEK}`, { token });
+
+      assert.equal(res.status, 200);
+      assert.equal(res.body.count, 0);
+      assert.equal(app.stub.requests.length, before);
+    });
+
+    it('rejects ranges over 100 days', async () => {
+      const { token } = await app.createUser();
+
+      const res = await app.request('/watchlist/fixtures?startDate=2025-01-01&endDate=2025-06-01', { token });
+
+      assert.equal(res.status, 400);
+      assert.equal(res.body.error, 'Date range too large');
+    });
+  });
+});
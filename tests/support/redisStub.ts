@@ -0,0 +1,88 @@
+// ============================================
+// REDIS STUB
+// ============================================
+// An in-memory stand-in for the ioredis client, with just the commands
+// the Redis cache backend uses (see RedisClient in cacheBackends.ts):
+// GET, SET ... EX, DEL, TTL, SCAN ... MATCH ... COUNT and QUIT.
+//
+// Like real Redis, SCAN treats COUNT as a hint: it answers in pages of
+// at most SCAN_PAGE_SIZE keys, so callers have to follow the cursor.
+//
+// Usage:
+//   const redis = createRedisStub();
+//   const backend = createRedisBackend(redis);
+//   redis.store   // raw keys, prefix included
+// ============================================
+
+type StoredValue = {
+  value: string;
+  expiresAt: number | null;   // ms timestamp, null = no expiry
+};
+
+type RedisStub = {
+  store: Map<string, StoredValue>;
+  get: (key: string) => Promise<string | null>;
+  set: (key: string, value: string, secondsToken: 'EX', seconds: number) => Promise<'OK'>;
+  del: (...keys: string[]) => Promise<number>;
+  ttl: (key: string) => Promise<number>;
+  scan: (cursor: string, patternToken: 'MATCH', pattern: string, countToken: 'COUNT', count: number) =>
+    Promise<[string, string[]]>;
+  quit: () => Promise<'OK'>;
+};
+
+// Most keys one SCAN call returns, whatever COUNT asks for
+const SCAN_PAGE_SIZE = 2;
+
+// "prefix:*" style patterns - the only kind the cache backend uses
+const matches = (pattern: string, key: string) =>
+  pattern.endsWith('*') ? key.startsWith(pattern.slice(0, -1)) : key === pattern;
+
+/**
+ * Create an empty Redis stand-in
+ * @returns {object} - { store, get, set, del, ttl, scan, quit }
+ */
+function createRedisStub(): RedisStub {
+  const store = new Map<string, StoredValue>();
+
+  // Drop the key if it has expired, then return what's left
+  const live = (key: string) => {
+    const entry = store.get(key);
+    if (entry && entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      store.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+
+  return {
+    store,
+    get: async (key) => live(key)?.value ?? null,
+    set: async (key, value, _secondsToken, seconds) => {
+      store.set(key, { value, expiresAt: Date.now() + seconds * 1000 });
+      return 'OK';
+    },
+    del: async (...keys) => keys.filter(key => live(key) && store.delete(key)).length,
+    ttl: async (key) => {
+      const entry = live(key);
+      if (!entry) return -2;
+      return entry.expiresAt === null ? -1 : Math.round((entry.expiresAt - Date.now()) / 1000);
+    },
+    scan: async (cursor, _patternToken, pattern, _countToken, count) => {
+      const found = [...store.keys()].filter(key => live(key) && matches(pattern, key));
+      const start = Number(cursor);
+      const end = start + Math.min(count, SCAN_PAGE_SIZE);
+      return [end >= found.length ? '0' : String(end), found.slice(start, end)];
+    },
+    quit: async () => 'OK'
+  };
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+export type { RedisStub };
+
+export {
+  createRedisStub
+};
@@ -0,0 +1,252 @@
+// ============================================
+// SPORTSMONKS STUB SERVER
+// ============================================
+// A local stand-in for api.sportmonks.com/v3. Point the backend at it
+// with SPORTSMONKS_API_URL and every SportsMonks call (football, odds
+// and core) is answered from recorded JSON fixtures:
+//
+//   - replay (default): answer from tests/fixtures/sportsmonks, and
+//     404 with a "no recorded response" message for anything else
+//   - record: forward to the real API (using SPORTSMONKS_API_KEY),
+//     save what comes back, then answer with it
+//
+// Fixtures are stored one file per path, with a response per query:
+//
+//   tests/fixtures/sportsmonks/football/fixtures/19135048.json
+//   {
+//     "path": "/football/fixtures/19135048",
+//     "responses": [
+//       { "query": { "include": "participants;scores" }, "status": 200, "body": { ... } }
+//     ]
+//   }
+//
+// The api_token parameter is never matched on or written to disk.
+// Tests can also stub a path directly with intercept() (e.g. to make
+// SportsMonks fail).
+//
+// Run it standalone with: npm run stub (or npm run stub:record)
+// ============================================
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { AddressInfo } from 'node:net';
+
+type StubMode = 'replay' | 'record';
+
+type Query = Record<string, string>;
+
+type RecordedResponse = {
+  query: Query;
+  status: number;
+  body: unknown;
+};
+
+type FixtureFile = {
+  path: string;
+  responses: RecordedResponse[];
+};
+
+type StubRequest = {
+  path: string;
+  query: Query;
+  matched: boolean;
+};
+
+type StubOptions = {
+  mode?: StubMode;
+  port?: number;            // Default: any free port
+  fixturesDir?: string;     // Default: tests/fixtures/sportsmonks
+  upstreamUrl?: string;     // Where record mode forwards to
+  apiKey?: string;          // Token record mode forwards with
+};
+
+type StubServer = {
+  url: string;
+  mode: StubMode;
+  requests: StubRequest[];
+  intercept: (path: string, response: { status?: number; body: unknown }) => void;
+  clearIntercepts: () => void;
+  close: () => Promise<void>;
+};
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Unknown error';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const DEFAULT_FIXTURES_DIR = fileURLToPath(new URL('../fixtures/sportsmonks', import.meta.url));
+
+const DEFAULT_UPSTREAM_URL = 'https://api.sportmonks.com/v3';
+
+// ============================================
+// HELPERS
+// ============================================
+
+// Query parameters without the token, in a stable order
+function normalizeQuery(searchParams: URLSearchParams): Query {
+  const query: Query = {};
+  for (const key of [...searchParams.keys()].sort()) {
+    if (key === 'api_token') continue;
+    query[key] = searchParams.get(key) ?? '';
+  }
+  return query;
+}
+
+const queryKey = (query: Query) =>
+  JSON.stringify(Object.keys(query).filter(key => key !== 'api_token').sort().map(key => [key, query[key]]));
+
+const sameQuery = (a: Query, b: Query) => queryKey(a) === queryKey(b);
+
+// "/football/teams/search/Man Utd" → <dir>/football/teams/search/Man_Utd.json
+function getFixturePath(fixturesDir: string, path: string): string {
+  const segments = path
+    .split('/')
+    .filter(Boolean)
+    .map(segment => decodeURIComponent(segment).replace(/[^\w.-]/g, '_'));
+  return `${join(fixturesDir, ...segments)}.json`;
+}
+
+async function readFixtureFile(file: string): Promise<FixtureFile | null> {
+  try {
+    return JSON.parse(await readFile(file, 'utf8')) as FixtureFile;
+  } catch {
+    return null;
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+// ============================================
+// RECORD MODE
+// ============================================
+
+// Call the real API and save the response next to any others for this path
+async function recordResponse(
+  options: Required<Pick<StubOptions, 'fixturesDir' | 'upstreamUrl'>> & { apiKey: string },
+  path: string,
+  query: Query
+): Promise<RecordedResponse> {
+  const params = new URLSearchParams(query);
+  params.set('api_token', options.apiKey);
+
+  const response = await fetch(`${options.upstreamUrl}${path}?${params}`);
+  const recorded: RecordedResponse = { query, status: response.status, body: await response.json() };
+
+  // Server errors are passed through but not kept - they're not worth replaying
+  if (response.status >= 500) return recorded;
+
+  const file = getFixturePath(options.fixturesDir, path);
+  const existing = await readFixtureFile(file);
+  const responses = (existing?.responses ?? []).filter(entry => !sameQuery(entry.query, query));
+
+  await mkdir(dirname(file), { recursive: true });
+  await writeFile(file, `${JSON.stringify({ path, responses: [...responses, recorded] }, null, 2)}\n`);
+  console.log(`[Stub] Recorded ${path} (${response.status})`);
+
+  return recorded;
+}
+
+// ============================================
+// PUBLIC FUNCTIONS
+// ============================================
+
+/**
+ * Start the stub server
+ * @param {object} options - { mode, port, fixturesDir, upstreamUrl, apiKey }
+ * @returns {Promise<object>} - { url, requests, intercept, clearIntercepts, close }
+ *
+ * Example:
+ *   const stub = await startStubServer();
+ *   process.env.SPORTSMONKS_API_URL = stub.url;
+ */
+async function startStubServer(options: StubOptions = {}): Promise<StubServer> {
+  const mode = options.mode ?? 'replay';
+  const fixturesDir = options.fixturesDir ?? DEFAULT_FIXTURES_DIR;
+  const upstreamUrl = options.upstreamUrl ?? DEFAULT_UPSTREAM_URL;
+  const apiKey = options.apiKey ?? process.env.SPORTSMONKS_API_KEY ?? '';
+
+  if (mode === 'record' && !apiKey) {
+    throw new Error('Record mode needs SPORTSMONKS_API_KEY (a real SportsMonks token)');
+  }
+
+  const requests: StubRequest[] = [];
+  const intercepts = new Map<string, { status: number; body: unknown }>();
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? '/', 'http://stub');
+    const path = url.pathname;
+    const query = normalizeQuery(url.searchParams);
+    const request: StubRequest = { path, query, matched: false };
+    requests.push(request);
+
+    // 1. Responses set by the test itself
+    const intercepted = intercepts.get(path);
+    if (intercepted) {
+      request.matched = true;
+      return sendJson(res, intercepted.status, intercepted.body);
+    }
+
+    // 2. A recorded response for this exact query
+    const fixture = await readFixtureFile(getFixturePath(fixturesDir, path));
+    const recorded = fixture?.responses.find(entry => sameQuery(entry.query, query));
+    if (recorded) {
+      request.matched = true;
+      return sendJson(res, recorded.status, recorded.body);
+    }
+
+    // 3. Nothing recorded - fetch it (record) or say what's missing (replay)
+    if (mode === 'record') {
+      const fresh = await recordResponse({ fixturesDir, upstreamUrl, apiKey }, path, query);
+      request.matched = true;
+      return sendJson(res, fresh.status, fresh.body);
+    }
+
+    console.warn(`[Stub] No recorded response for ${path} ${JSON.stringify(query)}`);
+    sendJson(res, 404, {
+      message: `No recorded response for GET ${path}?${new URLSearchParams(query)} ` +
+        '(run the stub with --record to capture it)'
+    });
+  };
+
+  const server = createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      console.error('[Stub] Request failed:', getErrorMessage(error));
+      sendJson(res, 500, { message: getErrorMessage(error) });
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(options.port ?? 0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    mode,
+    requests,
+    intercept: (path, response) => {
+      intercepts.set(path, { status: response.status ?? 200, body: response.body });
+    },
+    clearIntercepts: () => intercepts.clear(),
+    close: () => new Promise((resolve, reject) => {
+      server.closeAllConnections();
+      server.close(error => (error ? reject(error) : resolve()));
+    })
+  };
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+export type { StubMode, StubOptions, StubServer, StubRequest, FixtureFile, RecordedResponse };
+
+export {
+  startStubServer,
+  getFixturePath
+};